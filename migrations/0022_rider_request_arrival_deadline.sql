@@ -0,0 +1,4 @@
+-- Migration 0022: Optional drop-off deadline on rider requests
+-- Used by the pool sequencer to order pickups/drop-offs within time windows.
+
+ALTER TABLE rider_requests ADD COLUMN latest_arrival INTEGER;
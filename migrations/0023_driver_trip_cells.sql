@@ -0,0 +1,22 @@
+-- Migration 0023: Geohash cell index for driver trip routes
+-- Each offered/active driver trip is indexed by the precision-5 geohash cells
+-- its route passes through, so candidate lookup reads a few cells instead of
+-- scanning every trip whose bounding box overlaps the rider.
+
+CREATE TABLE IF NOT EXISTS driver_trip_cells (
+  cell TEXT NOT NULL,                     -- geohash (precision 5)
+  driver_trip_id TEXT NOT NULL,
+  departure_time INTEGER NOT NULL,        -- copied from driver_trips (ms)
+  PRIMARY KEY (cell, driver_trip_id),
+  FOREIGN KEY (driver_trip_id) REFERENCES driver_trips(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_dtc_cell_time
+ON driver_trip_cells(cell, departure_time);
+
+CREATE INDEX IF NOT EXISTS idx_dtc_trip
+ON driver_trip_cells(driver_trip_id);
+
+-- Trips created before this migration have no cells and keep using the
+-- bounding-box pre-filter until they expire.
+ALTER TABLE driver_trips ADD COLUMN cells_indexed INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,15 @@
+-- Migration 0024: Opt-in driver attribute profile
+-- Gender is only stored when a driver chooses to provide it, and only used by
+-- the matching engine when share_gender_for_matching = 1. Drivers who don't
+-- share are simply not matched with riders who set a gender preference.
+
+CREATE TABLE IF NOT EXISTS driver_attribute_profiles (
+  user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  gender TEXT CHECK(gender IN ('male', 'female')),
+  share_gender_for_matching INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_attribute_profiles_shared
+ON driver_attribute_profiles(share_gender_for_matching, user_id);
@@ -0,0 +1,57 @@
+-- Migration 0025: Recurring driver trip templates
+-- A template describes a weekly schedule; the daily cron materialises a
+-- concrete `trips` row plus a matching `driver_trips` offer for each
+-- scheduled weekday within the look-ahead window.
+
+CREATE TABLE IF NOT EXISTS driver_trip_templates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  driver_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  organization_id TEXT,
+
+  -- Schedule
+  recurring_weekdays TEXT NOT NULL,        -- JSON ISO weekdays 1=Mon..7=Sun
+  departure_time TEXT NOT NULL,            -- HH:MM (UTC)
+  skip_dates TEXT NOT NULL DEFAULT '[]',   -- JSON YYYY-MM-DD (holidays, leave)
+  starts_on TEXT,                          -- YYYY-MM-DD or NULL = immediately
+  ends_on TEXT,                            -- YYYY-MM-DD or NULL = open-ended
+
+  -- Trip details copied onto each occurrence
+  origin_lat REAL NOT NULL,
+  origin_lng REAL NOT NULL,
+  origin_address TEXT,
+  destination_lat REAL NOT NULL,
+  destination_lng REAL NOT NULL,
+  destination_address TEXT,
+  route_polyline_encoded TEXT,
+  available_seats INTEGER NOT NULL CHECK(available_seats > 0 AND available_seats <= 8),
+  vehicle_json TEXT NOT NULL,
+  trip_type TEXT NOT NULL DEFAULT 'daily' CHECK(trip_type IN ('daily', 'monthly')),
+  notes TEXT,
+
+  status TEXT NOT NULL DEFAULT 'active' CHECK(status IN ('active', 'paused', 'archived')),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_trip_templates_driver
+ON driver_trip_templates(driver_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_driver_trip_templates_status
+ON driver_trip_templates(status);
+
+-- One row per materialised (template, date). Claimed with status 'pending'
+-- before the trip is created so concurrent cron runs cannot double-create.
+CREATE TABLE IF NOT EXISTS driver_trip_template_occurrences (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  template_id INTEGER NOT NULL REFERENCES driver_trip_templates(id) ON DELETE CASCADE,
+  occurrence_date TEXT NOT NULL,           -- YYYY-MM-DD
+  departure_time INTEGER NOT NULL,         -- Unix ms
+  trip_id INTEGER REFERENCES trips(id),
+  driver_trip_id TEXT REFERENCES driver_trips(id),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'scheduled')),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(template_id, occurrence_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_template_occurrences_upcoming
+ON driver_trip_template_occurrences(template_id, departure_time);
@@ -0,0 +1,34 @@
+-- Migration 0026: Rule-based pricing engine
+-- Per-organisation rate cards override the default per-km rates and fare
+-- caps. Every computed fare stores its breakdown (rate card, time-of-day
+-- rule, area demand, caps) so receipts and disputes can explain the amount.
+
+CREATE TABLE IF NOT EXISTS pricing_rate_cards (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  organization_id TEXT NOT NULL UNIQUE REFERENCES organizations(id) ON DELETE CASCADE,
+  daily_per_km REAL NOT NULL CHECK(daily_per_km > 0),
+  monthly_per_km REAL NOT NULL CHECK(monthly_per_km > 0),
+  min_fare_cents INTEGER NOT NULL DEFAULT 0 CHECK(min_fare_cents >= 0),
+  max_fare_cents INTEGER NOT NULL CHECK(max_fare_cents > 0),
+  is_active INTEGER NOT NULL DEFAULT 1,
+  updated_by INTEGER REFERENCES users(id),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  CHECK(max_fare_cents >= min_fare_cents)
+);
+
+CREATE TABLE IF NOT EXISTS price_breakdowns (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  subject_type TEXT NOT NULL CHECK(subject_type IN ('trip', 'subscription')),
+  subject_id TEXT NOT NULL,
+  fare_cents INTEGER NOT NULL,
+  breakdown_json TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_breakdowns_subject
+ON price_breakdowns(subject_type, subject_id, id);
+
+-- Area demand lookups scan open requests by pickup and time window
+CREATE INDEX IF NOT EXISTS idx_rider_requests_pending_pickup
+ON rider_requests(status, pickup_lat, pickup_lng);
@@ -0,0 +1,17 @@
+-- Migration 0027: Fare splitting for pooled riders
+-- Pooled riders are charged for the km they spend in the vehicle, with a
+-- discount on km shared with other riders, instead of the full seat price.
+-- The split is stored on each rider's trip_participants row and charged by
+-- the payment intent.
+
+ALTER TABLE trip_participants ADD COLUMN split_fare_cents INTEGER;   -- per seat; NULL = pay price_per_seat
+ALTER TABLE trip_participants ADD COLUMN shared_distance_km REAL;
+ALTER TABLE trip_participants ADD COLUMN fare_split_json TEXT;       -- RiderFareShare
+
+ALTER TABLE pricing_rate_cards ADD COLUMN fare_split_mode TEXT NOT NULL DEFAULT 'shared_distance'
+  CHECK(fare_split_mode IN ('per_seat', 'shared_distance'));
+ALTER TABLE pricing_rate_cards ADD COLUMN pooling_discount REAL NOT NULL DEFAULT 0.1
+  CHECK(pooling_discount >= 0 AND pooling_discount <= 0.5);
+
+CREATE INDEX IF NOT EXISTS idx_pool_assignments_driver_trip
+ON pool_assignments(driver_trip_id, created_at);
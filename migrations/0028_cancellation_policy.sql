@@ -0,0 +1,42 @@
+-- Migration 0028: Tiered cancellation policy
+-- Cancellations are assessed against time-based tiers: riders pay a fee
+-- that grows closer to departure (part of it compensates the driver), and
+-- drivers cancelling late are recorded with a penalty. Organisations can
+-- override the default tiers.
+
+CREATE TABLE IF NOT EXISTS cancellation_policies (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  organization_id TEXT NOT NULL UNIQUE,
+  policy_json TEXT NOT NULL,            -- CancellationPolicy
+  is_active INTEGER NOT NULL DEFAULT 1,
+  updated_by INTEGER REFERENCES users(id),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS trip_cancellations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  trip_id INTEGER NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  participant_id INTEGER REFERENCES trip_participants(id) ON DELETE SET NULL,
+  cancelled_by INTEGER NOT NULL REFERENCES users(id),
+  initiator TEXT NOT NULL CHECK(initiator IN ('rider', 'driver')),
+  tier TEXT NOT NULL,
+  hours_before_departure REAL,
+  paid_cents INTEGER NOT NULL DEFAULT 0,
+  fee_cents INTEGER NOT NULL DEFAULT 0,
+  refund_cents INTEGER NOT NULL DEFAULT 0,
+  driver_compensation_cents INTEGER NOT NULL DEFAULT 0,
+  driver_penalty_cents INTEGER NOT NULL DEFAULT 0,
+  refund_id TEXT,
+  compensation_status TEXT NOT NULL DEFAULT 'not_applicable'
+    CHECK(compensation_status IN ('not_applicable', 'pending', 'transferred', 'failed')),
+  compensation_transfer_id TEXT,
+  breakdown_json TEXT NOT NULL,         -- CancellationAssessment
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_cancellations_trip
+ON trip_cancellations(trip_id);
+
+CREATE INDEX IF NOT EXISTS idx_trip_cancellations_cancelled_by
+ON trip_cancellations(cancelled_by, created_at);
@@ -0,0 +1,33 @@
+-- Migration 0029: No-show detection and reliability scores
+-- A driver marks arrival at each rider's pickup; a rider who hasn't
+-- arrived once the policy's grace period has passed is a no-show. A
+-- driver whose trip departs without location updates is a no-show too.
+-- No-shows and late cancellations feed a 0-100 reliability score used by
+-- matching and the public rating endpoint.
+
+ALTER TABLE trip_participants ADD COLUMN driver_arrived_at TEXT;   -- ISO 8601
+ALTER TABLE trip_participants ADD COLUMN rider_arrived_at TEXT;    -- ISO 8601
+ALTER TABLE trip_participants ADD COLUMN no_show_at TEXT;          -- ISO 8601
+
+ALTER TABLE trips ADD COLUMN last_location_at TEXT;                -- ISO 8601
+ALTER TABLE trips ADD COLUMN driver_no_show_at TEXT;               -- ISO 8601
+
+ALTER TABLE users ADD COLUMN reliability_score INTEGER;            -- 0-100; NULL = not computed yet
+
+CREATE TABLE IF NOT EXISTS no_show_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  trip_id INTEGER NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  participant_id INTEGER REFERENCES trip_participants(id) ON DELETE SET NULL,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK(role IN ('rider', 'driver')),
+  detected_by TEXT NOT NULL CHECK(detected_by IN ('driver', 'cron')),
+  grace_minutes INTEGER NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_no_show_events_user
+ON no_show_events(user_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_trip_participants_driver_arrived
+ON trip_participants(driver_arrived_at)
+WHERE driver_arrived_at IS NOT NULL AND no_show_at IS NULL;
@@ -0,0 +1,18 @@
+-- Migration 0030: Boarding verification
+-- Riders show the driver a short-lived signed PIN or QR code at pickup.
+-- A verified handshake stamps boarded_at; completion payouts and dispute
+-- review rely on it.
+--
+-- A rider on board keeps the 'accepted' status: adding 'on_board' to the
+-- status CHECK would mean rebuilding trip_participants, and dropping the
+-- old table fires the ON DELETE actions of every table referencing it on
+-- D1. The API reports an accepted booking with boarded_at as 'on_board'.
+
+ALTER TABLE trip_participants ADD COLUMN boarded_at TEXT;          -- ISO 8601
+ALTER TABLE trip_participants ADD COLUMN boarding_method TEXT
+  CHECK(boarding_method IN ('pin', 'qr'));
+ALTER TABLE trip_participants ADD COLUMN boarding_failed_attempts INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_trip_participants_boarded
+ON trip_participants(trip_id, boarded_at)
+WHERE boarded_at IS NOT NULL;
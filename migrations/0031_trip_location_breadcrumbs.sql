@@ -0,0 +1,19 @@
+-- Migration 0031: Trip location breadcrumbs
+-- Downsampled driver location updates kept for replay after an SOS or a
+-- dispute. Each point is AES-GCM encrypted with the trip as AAD and purged
+-- by the daily cron once purge_after passes.
+
+CREATE TABLE IF NOT EXISTS trip_location_breadcrumbs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  trip_id INTEGER NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  recorded_at TEXT NOT NULL,                 -- ISO 8601
+  point_encrypted TEXT NOT NULL,             -- Breadcrumb JSON
+  purge_after TEXT NOT NULL,                 -- ISO 8601
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_location_breadcrumbs_trip
+ON trip_location_breadcrumbs(trip_id, recorded_at);
+
+CREATE INDEX IF NOT EXISTS idx_trip_location_breadcrumbs_purge
+ON trip_location_breadcrumbs(purge_after);
@@ -0,0 +1,20 @@
+-- Migration 0032: Route deviation and unexpected stop alerts
+-- Raised by the route monitor when a driver's live location strays from
+-- the planned route or stays put mid-trip. Kept for safety follow-up and
+-- dispute review.
+
+CREATE TABLE IF NOT EXISTS trip_deviation_alerts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  trip_id INTEGER NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK(kind IN ('off_route', 'unexpected_stop')),
+  distance_km REAL,                          -- off_route: distance from the planned route
+  stopped_minutes INTEGER,                   -- unexpected_stop: time stationary
+  lat REAL NOT NULL,
+  lng REAL NOT NULL,
+  riders_notified INTEGER NOT NULL DEFAULT 0,
+  contacts_notified INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_deviation_alerts_trip
+ON trip_deviation_alerts(trip_id, created_at);
@@ -0,0 +1,7 @@
+-- Migration 0033: Live ETA to rider pickups
+-- Bookings have only kept the pickup address, which the ETA calculation
+-- can't route to. The pickup coordinates are now stored alongside it,
+-- AES-GCM encrypted with the rider as AAD. Live ETAs themselves are kept
+-- in KV next to the driver's last location.
+
+ALTER TABLE trip_participants ADD COLUMN pickup_point_encrypted TEXT;   -- {"lat","lng"}
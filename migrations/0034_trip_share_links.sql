@@ -0,0 +1,20 @@
+-- Migration 0034: Shareable live-trip tracking links
+-- A rider can give family a read-only link to follow their trip without an
+-- account. Only the SHA-256 hash of the link token is stored. Links stop
+-- working when they expire, are revoked, or the trip completes.
+
+CREATE TABLE IF NOT EXISTS trip_share_links (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  trip_id INTEGER NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  participant_id INTEGER NOT NULL REFERENCES trip_participants(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TEXT NOT NULL,                  -- ISO 8601
+  revoked_at TEXT,                           -- ISO 8601
+  last_accessed_at TEXT,                     -- ISO 8601
+  access_count INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_share_links_trip
+ON trip_share_links(trip_id, user_id);
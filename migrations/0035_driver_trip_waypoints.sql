@@ -0,0 +1,22 @@
+-- Migration 0035: Multi-stop driver trips
+-- Driver trips can list ordered intermediate stops. The stops split the
+-- route into legs, and seats are held per leg range so a seat freed at a
+-- waypoint can be booked again for the rest of the route.
+--
+-- driver_trips.available_seats on a multi-stop trip is the free capacity
+-- of its least-loaded leg; the per-leg figures come from the holds.
+
+ALTER TABLE driver_trips ADD COLUMN waypoints_json TEXT;   -- [{"lat","lng"}, ...]
+
+CREATE TABLE IF NOT EXISTS driver_trip_seat_holds (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  driver_trip_id TEXT NOT NULL REFERENCES driver_trips(id) ON DELETE CASCADE,
+  match_id TEXT NOT NULL UNIQUE,
+  from_leg INTEGER NOT NULL CHECK (from_leg >= 0),
+  to_leg INTEGER NOT NULL CHECK (to_leg >= from_leg),
+  seats INTEGER NOT NULL DEFAULT 1 CHECK (seats > 0),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_trip_seat_holds_trip
+ON driver_trip_seat_holds(driver_trip_id);
@@ -0,0 +1,27 @@
+-- Migration 0036: Segment seat inventory
+-- A seat is only taken between a rider's pickup and dropoff. Bookings,
+-- waitlist entries and driver-trip seat holds record that stretch as km
+-- offsets along the route, and capacity is the peak number of seats
+-- occupied at once. A NULL interval covers the whole route.
+--
+-- trips.available_seats and driver_trips.available_seats keep meaning
+-- "free along the whole route" (total seats minus the peak).
+
+ALTER TABLE trip_participants ADD COLUMN segment_start_km REAL;
+ALTER TABLE trip_participants ADD COLUMN segment_end_km REAL;
+
+ALTER TABLE trip_waitlist ADD COLUMN segment_start_km REAL;
+ALTER TABLE trip_waitlist ADD COLUMN segment_end_km REAL;
+
+ALTER TABLE driver_trip_seat_holds ADD COLUMN start_km REAL;
+ALTER TABLE driver_trip_seat_holds ADD COLUMN end_km REAL;
+
+-- Confirmed matches used to take a whole-route seat by decrementing
+-- available_seats directly; record them as whole-route holds so the
+-- recomputed availability keeps counting them.
+INSERT INTO driver_trip_seat_holds (driver_trip_id, match_id, from_leg, to_leg, seats)
+SELECT m.driver_trip_id, m.id, 0, 0, 1
+FROM match_results m
+JOIN driver_trips t ON t.id = m.driver_trip_id
+WHERE m.status = 'confirmed'
+  AND NOT EXISTS (SELECT 1 FROM driver_trip_seat_holds h WHERE h.match_id = m.id);
@@ -0,0 +1,7 @@
+-- Migration 0037: Trip search filters
+-- Accessibility features a driver offers on a posted trip, as a JSON array
+-- (e.g. ["wheelchair_accessible","child_seat"]). NULL means none listed.
+-- Trip search filters on it alongside price, vehicle type, driver rating,
+-- women-only and organisation-only.
+
+ALTER TABLE trips ADD COLUMN accessibility_json TEXT;
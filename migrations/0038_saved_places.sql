@@ -0,0 +1,41 @@
+-- Migration 0038: Saved places and routes
+-- Riders and drivers save places (Home, Work or a custom label) and routes
+-- between two of them, and refer to them by id instead of resending
+-- coordinates. A place's coordinates and address are stored together,
+-- encrypted with the owner's PII key; only the label is in the clear.
+--
+-- Monthly subscriptions remember which places seeded their default pickup
+-- and dropoff, so editing a place can carry over to the subscription's
+-- upcoming scheduled days.
+
+CREATE TABLE IF NOT EXISTS saved_places (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('home', 'work', 'custom')),
+  label TEXT NOT NULL,
+  location_encrypted TEXT NOT NULL,     -- encryptPII(JSON {lat, lng, address?})
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_places_user ON saved_places(user_id);
+-- One Home and one Work per user; any number of custom places
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_places_user_kind
+  ON saved_places(user_id, kind) WHERE kind != 'custom';
+
+CREATE TABLE IF NOT EXISTS saved_routes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  origin_place_id INTEGER NOT NULL REFERENCES saved_places(id) ON DELETE CASCADE,
+  destination_place_id INTEGER NOT NULL REFERENCES saved_places(id) ON DELETE CASCADE,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_routes_user ON saved_routes(user_id);
+
+ALTER TABLE monthly_subscriptions ADD COLUMN default_pickup_place_id INTEGER
+  REFERENCES saved_places(id) ON DELETE SET NULL;
+ALTER TABLE monthly_subscriptions ADD COLUMN default_dropoff_place_id INTEGER
+  REFERENCES saved_places(id) ON DELETE SET NULL;
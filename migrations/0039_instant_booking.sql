@@ -0,0 +1,26 @@
+-- Migration 0039: Instant booking
+-- Drivers can have qualifying bookings accepted as soon as they are made.
+-- A rule applies to one trip, or to all of the driver's trips when trip_id
+-- is 0; a trip's own rule replaces the driver-wide one, so a disabled trip
+-- rule turns instant booking off for that trip.
+--
+-- Every criterion that is set must hold: a minimum rider rating, same
+-- organisation as the driver, a verified email, and a number of completed
+-- rides with this driver before. Bookings that do not qualify wait for the
+-- driver as before.
+
+CREATE TABLE IF NOT EXISTS instant_booking_rules (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  driver_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  trip_id INTEGER NOT NULL DEFAULT 0,           -- 0 = every trip of the driver
+  enabled INTEGER NOT NULL DEFAULT 1,
+  min_rider_rating REAL CHECK (min_rider_rating IS NULL OR min_rider_rating BETWEEN 1 AND 5),
+  same_organization_only INTEGER NOT NULL DEFAULT 0,
+  verified_riders_only INTEGER NOT NULL DEFAULT 0,
+  min_prior_rides INTEGER NOT NULL DEFAULT 0 CHECK (min_prior_rides >= 0),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(driver_id, trip_id)
+);
+
+ALTER TABLE trip_participants ADD COLUMN instant_booked INTEGER NOT NULL DEFAULT 0;
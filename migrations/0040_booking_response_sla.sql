@@ -0,0 +1,12 @@
+-- Migration 0040: Booking request expiry
+-- Drivers have the organisation policy's bookingResponseHours to answer a
+-- booking request (never past departure). The hourly cron sends the driver
+-- escalating reminders as the deadline nears, then rejects the request,
+-- tells the rider with alternative trips and promotes the waitlist.
+
+ALTER TABLE trip_participants ADD COLUMN response_reminders_sent INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE trip_participants ADD COLUMN expired_at TEXT;          -- ISO 8601; set when a request lapsed unanswered
+
+CREATE INDEX IF NOT EXISTS idx_trip_participants_pending_requests
+ON trip_participants(status, requested_at)
+WHERE status = 'requested';
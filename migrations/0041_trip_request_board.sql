@@ -0,0 +1,60 @@
+-- Migration 0041: Rider trip request board
+-- Riders post a journey they need; verified drivers with live trips along
+-- the same corridor are sent it and bid a pickup time and price per seat
+-- within the pricing rules. Accepting a bid creates the trip and the
+-- rider's accepted booking together.
+
+CREATE TABLE IF NOT EXISTS trip_requests (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  rider_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  organization_id TEXT,
+  pickup_lat REAL NOT NULL,
+  pickup_lng REAL NOT NULL,
+  dropoff_lat REAL NOT NULL,
+  dropoff_lng REAL NOT NULL,
+  pickup_address_encrypted TEXT,
+  dropoff_address_encrypted TEXT,
+  earliest_departure INTEGER NOT NULL,  -- unix ms
+  latest_departure INTEGER NOT NULL,    -- unix ms
+  seats_needed INTEGER NOT NULL DEFAULT 1 CHECK (seats_needed BETWEEN 1 AND 4),
+  distance_km REAL NOT NULL,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'accepted', 'cancelled')),
+  accepted_bid_id INTEGER,
+  trip_id INTEGER REFERENCES trips(id) ON DELETE SET NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_requests_rider ON trip_requests(rider_id, status);
+
+-- Drivers a request was sent to; only they see it on the board and can bid
+CREATE TABLE IF NOT EXISTS trip_request_recipients (
+  request_id INTEGER NOT NULL REFERENCES trip_requests(id) ON DELETE CASCADE,
+  driver_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  notified_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (request_id, driver_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_request_recipients_driver
+ON trip_request_recipients(driver_id, request_id);
+
+CREATE TABLE IF NOT EXISTS trip_request_bids (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  request_id INTEGER NOT NULL REFERENCES trip_requests(id) ON DELETE CASCADE,
+  driver_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  pickup_time INTEGER NOT NULL,         -- unix ms
+  price_per_seat_cents INTEGER NOT NULL CHECK (price_per_seat_cents > 0),
+  total_seats INTEGER NOT NULL CHECK (total_seats BETWEEN 1 AND 8),
+  vehicle_type TEXT NOT NULL DEFAULT 'sedan',
+  vehicle_json TEXT NOT NULL,           -- {make, model, licensePlate}
+  message TEXT,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'declined', 'withdrawn')),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (request_id, driver_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_request_bids_request
+ON trip_request_bids(request_id, status);
@@ -0,0 +1,24 @@
+-- Migration 0042: Round-trip bookings
+-- One rider request books a morning (outbound) and an evening (return)
+-- leg, possibly with different drivers. The legs are linked so that losing
+-- one offers the rider options for the other, and a confirmed morning leg
+-- puts its evening leg first in line.
+
+CREATE TABLE IF NOT EXISTS round_trips (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  rider_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_round_trips_rider ON round_trips(rider_id);
+
+-- Same legs as monthly_scheduled_days.trip_type
+ALTER TABLE trip_participants ADD COLUMN round_trip_id INTEGER
+  REFERENCES round_trips(id) ON DELETE SET NULL;
+ALTER TABLE trip_participants ADD COLUMN round_trip_leg TEXT
+  CHECK (round_trip_leg IN ('morning', 'evening'));
+
+CREATE INDEX IF NOT EXISTS idx_trip_participants_round_trip
+ON trip_participants(round_trip_id, round_trip_leg)
+WHERE round_trip_id IS NOT NULL;
@@ -0,0 +1,11 @@
+-- Migration 0043: Booking driver trip link
+-- The driver offer (driver_trips row) a booking rides on, so the pooled
+-- fare split reads the pool of that offer instead of guessing it from the
+-- departure time.
+
+ALTER TABLE trip_participants ADD COLUMN driver_trip_id TEXT
+  REFERENCES driver_trips(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_trip_participants_driver_trip
+ON trip_participants(trip_id, driver_trip_id)
+WHERE driver_trip_id IS NOT NULL;
@@ -0,0 +1,9 @@
+-- Migration 0044: Payout release
+-- Completed bookings without a verified boarding are held back from the
+-- automatic driver payout. An admin who has reviewed the trip releases the
+-- payout; the release is recorded so failed transfers are retried like
+-- verified ones.
+
+ALTER TABLE trip_participants ADD COLUMN payout_released_at TEXT;
+ALTER TABLE trip_participants ADD COLUMN payout_released_by INTEGER
+  REFERENCES users(id) ON DELETE SET NULL;
@@ -0,0 +1,6 @@
+-- Migration 0045: Waitlist pickup point
+-- The rider's pickup coordinates, encrypted like
+-- trip_participants.pickup_point_encrypted, so a booking promoted from the
+-- waitlist gets live ETAs like a direct booking.
+
+ALTER TABLE trip_waitlist ADD COLUMN pickup_point_encrypted TEXT;   -- {"lat","lng"}
@@ -0,0 +1,23 @@
+-- Migration 0046: Trip endpoint coordinates
+-- trips.origin / trips.destination hold the address when one was given, so
+-- the coordinates are kept in their own columns for segment seat accounting.
+-- Trips posted with coordinates only stored them as JSON; backfill those.
+
+ALTER TABLE trips ADD COLUMN origin_lat REAL;
+ALTER TABLE trips ADD COLUMN origin_lng REAL;
+ALTER TABLE trips ADD COLUMN destination_lat REAL;
+ALTER TABLE trips ADD COLUMN destination_lng REAL;
+
+UPDATE trips
+SET origin_lat = json_extract(origin, '$.lat'),
+    origin_lng = json_extract(origin, '$.lng')
+WHERE json_valid(origin)
+  AND json_type(origin, '$.lat') IN ('real', 'integer')
+  AND json_type(origin, '$.lng') IN ('real', 'integer');
+
+UPDATE trips
+SET destination_lat = json_extract(destination, '$.lat'),
+    destination_lng = json_extract(destination, '$.lng')
+WHERE json_valid(destination)
+  AND json_type(destination, '$.lat') IN ('real', 'integer')
+  AND json_type(destination, '$.lng') IN ('real', 'integer');
@@ -0,0 +1,6 @@
+-- Migration 0047: Trip request rider preferences
+-- The rider's hard driver preferences (gender, minimum rating), stored
+-- like rider_requests.preferences_json, so a request is only sent to
+-- drivers who meet them.
+
+ALTER TABLE trip_requests ADD COLUMN preferences_json TEXT;   -- {"genderPreference","minDriverRating"}
@@ -0,0 +1,6 @@
+-- Migration 0048: Driver compensation retry claim
+-- Set while the daily retry is transferring a cancellation's compensation,
+-- so an overlapping run skips the row instead of paying the driver twice.
+-- Cleared when the transfer is recorded or the driver still cannot be paid.
+
+ALTER TABLE trip_cancellations ADD COLUMN compensation_claimed_at TEXT;
@@ -8,6 +8,10 @@ import { monitoringRoutes } from './routes/monitoring'
 import { paymentRoutes } from './routes/payments'
 import { notificationRoutes } from './routes/notifications'
 import { subscriptionRoutes } from './routes/subscriptions'
+import { tripTemplateRoutes } from './routes/tripTemplates'
+import { savedPlaceRoutes, savedRouteRoutes } from './routes/savedPlaces'
+import { tripRequestRoutes } from './routes/tripRequests'
+import { roundTripRoutes } from './routes/roundTrips'
 import { pushRoutes } from './routes/push'
 import { documentRoutes } from './routes/documents'
 import { safetyRoutes } from './routes/safety'
@@ -16,6 +20,7 @@ import { promoRoutes } from './routes/promo'
 import { loyaltyRoutes } from './routes/loyalty'
 import { organizationRoutes } from './routes/organizations'
 import { messageRoutes } from './routes/messages'
+import { shareRoutes } from './routes/share'
 import { eventBus, isEventVisibleToUser } from './lib/eventBus'
 import { runDailyTasks, runHourlyTasks } from './lib/cron'
 import { logger } from './lib/logger'
@@ -375,6 +380,10 @@ app.route('/api/users', userRoutes)
 // Trip routes: /api/trips/available, /api/trips/:id/book, /api/trips/offer, etc.
 app.route('/api/trips', tripRoutes)
 
+// Public trip tracking behind a rider's share link: /api/share/:token
+// (no auth; mounted before the routers at /api that authenticate every path)
+app.route('/api/share', shareRoutes)
+
 // Admin routes: /api/admin/stats, /api/admin/users, /api/admin/logs, etc.
 app.route('/api/admin', adminRoutes)
 
@@ -393,6 +402,19 @@ app.route('/api/matching', matchingRoutes)
 
 app.route('/api/subscriptions', subscriptionRoutes)
 
+// Recurring driver trip templates: /api/trip-templates, /api/trip-templates/:id/pause
+app.route('/api/trip-templates', tripTemplateRoutes)
+
+// Saved places and routes: /api/saved-places, /api/saved-routes
+app.route('/api/saved-places', savedPlaceRoutes)
+app.route('/api/saved-routes', savedRouteRoutes)
+
+// Rider trip request board: /api/trip-requests, /api/trip-requests/board
+app.route('/api/trip-requests', tripRequestRoutes)
+
+// Round-trip bookings: /api/round-trips, /api/round-trips/:id/legs/:leg
+app.route('/api/round-trips', roundTripRoutes)
+
 // Push notification routes: /api/push/vapid-key, /api/push/subscribe
 app.route('/api/push', pushRoutes)
 
@@ -588,6 +610,77 @@ app.get('/admin/*', (c) => {
   `)
 })
 
+// ═══ Shared Trip Tracking Page ═══
+// Public read-only page for share links; polls /api/share/:token
+app.get('/share/:token', (c) => {
+  const nonce = c.get('cspNonce')
+  return c.html(`<!DOCTYPE html>
+<html lang="en" data-theme="dark">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex, nofollow">
+  <meta name="referrer" content="no-referrer">
+  <title>Klubz - Live Trip</title>
+  <link rel="stylesheet" href="/static/style.css">
+  <link rel="stylesheet" href="https://unpkg.com/leaflet@1.9.4/dist/leaflet.css" crossorigin="">
+</head>
+<body style="font-family:system-ui;background:#0F172A;color:#F8FAFC;margin:0">
+  <main style="max-width:480px;margin:0 auto;padding:1.5rem">
+    <h1 style="font-size:1.5rem;margin:0 0 1rem">Klubz live trip</h1>
+    <p id="share-status" style="color:#94A3B8">Loading…</p>
+    <dl id="share-details" hidden>
+      <dt>Driver</dt><dd id="share-driver"></dd>
+      <dt>Vehicle</dt><dd id="share-vehicle"></dd>
+      <dt>Pickup ETA</dt><dd id="share-eta"></dd>
+      <dt>Last update</dt><dd id="share-updated"></dd>
+    </dl>
+    <div id="share-map" style="height:320px;border-radius:12px;margin-top:1rem"></div>
+  </main>
+  <script src="https://unpkg.com/leaflet@1.9.4/dist/leaflet.js" crossorigin=""></script>
+  <script nonce="${nonce}">
+    (function () {
+      var token = location.pathname.split('/').pop();
+      var map = null;
+      var marker = null;
+      function text(id, value) { document.getElementById(id).textContent = value; }
+      function refresh() {
+        fetch('/api/share/' + encodeURIComponent(token)).then(function (res) {
+          return res.json().then(function (body) { return { ok: res.ok, body: body }; });
+        }).then(function (r) {
+          if (!r.ok) {
+            text('share-status', (r.body.error && r.body.error.message) || 'This tracking link is no longer available');
+            document.getElementById('share-details').hidden = true;
+            return;
+          }
+          var d = r.body;
+          text('share-status', d.trip.riderStatus === 'on_board' ? 'On the way' : 'Waiting for pickup');
+          text('share-driver', d.driver.firstName || 'Your driver');
+          text('share-vehicle', [d.driver.vehicleType, d.driver.vehiclePlate].filter(Boolean).join(' · ') || '-');
+          text('share-eta', d.eta ? d.eta.etaMinutes + ' min' : '-');
+          text('share-updated', d.location ? new Date(d.location.updatedAt).toLocaleTimeString() : 'No location yet');
+          document.getElementById('share-details').hidden = false;
+          if (d.location && window.L) {
+            var pos = [d.location.lat, d.location.lng];
+            if (!map) {
+              map = L.map('share-map').setView(pos, 15);
+              L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', { attribution: '© OpenStreetMap' }).addTo(map);
+              marker = L.marker(pos).addTo(map);
+            } else {
+              marker.setLatLng(pos);
+              map.panTo(pos);
+            }
+          }
+          setTimeout(refresh, 15000);
+        }).catch(function () { setTimeout(refresh, 30000); });
+      }
+      refresh();
+    })();
+  </script>
+</body>
+</html>`)
+})
+
 // ═══ Catch-all: serve PWA for client-side routing ═══
 app.get('*', (c) => {
   const path = new URL(c.req.url).pathname
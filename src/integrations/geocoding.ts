@@ -158,6 +158,47 @@ export class GeoService {
     };
   }
 
+  /**
+   * Driving distance/duration matrix between origins and destinations
+   * (Mapbox Matrix API, max 25 coordinates per request).
+   * Unreachable pairs are returned as null.
+   */
+  async getMatrix(
+    origins: Array<{ lat: number; lng: number }>,
+    destinations: Array<{ lat: number; lng: number }>,
+  ): Promise<Array<Array<{ distanceKm: number; durationMinutes: number } | null>>> {
+    const coords = [...origins, ...destinations]
+      .map((p) => `${p.lng},${p.lat}`)
+      .join(';');
+    const params = new URLSearchParams({
+      access_token: this.accessToken,
+      annotations: 'distance,duration',
+      sources: origins.map((_, i) => i).join(';'),
+      destinations: destinations.map((_, i) => origins.length + i).join(';'),
+    });
+
+    const url = `${this.baseUrl}/directions-matrix/v1/mapbox/driving/${coords}?${params}`;
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`Matrix request failed: ${res.statusText}`);
+
+    const data = await res.json() as {
+      distances?: Array<Array<number | null>>;
+      durations?: Array<Array<number | null>>;
+    };
+
+    return origins.map((_, i) =>
+      destinations.map((_, j) => {
+        const distance = data.distances?.[i]?.[j];
+        const duration = data.durations?.[i]?.[j];
+        if (distance == null || duration == null) return null;
+        return {
+          distanceKm: Math.round((distance / 1000) * 100) / 100,
+          durationMinutes: Math.round((duration / 60) * 10) / 10,
+        };
+      })
+    );
+  }
+
   /**
    * Calculate estimated trip price based on distance and duration.
    */
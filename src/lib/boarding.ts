@@ -0,0 +1,131 @@
+/**
+ * Klubz - Boarding Verification
+ *
+ * Each accepted booking has a boarding pass the rider shows the driver at
+ * pickup: a QR payload and a 6-digit PIN, both signed with HMAC-SHA256
+ * over the trip, booking and expiry. Passes are stateless and rotate every
+ * `BOARDING_PASS_WINDOW_SECONDS`; a pass stays valid for the window it was
+ * issued in and the next one, so a code shown just before a rotation
+ * still works.
+ *
+ * PINs are short, so a booking locks after `BOARDING_MAX_FAILED_ATTEMPTS`
+ * wrong entries and the rider has to show the QR code instead.
+ *
+ * A verified check-in stamps `boarded_at`; the booking stays 'accepted' in
+ * the database and is reported as 'on_board'.
+ */
+
+import { base64UrlEncode, hmacSign, hmacVerify } from '../middleware/auth';
+
+export const BOARDING_PASS_WINDOW_SECONDS = 5 * 60;
+export const BOARDING_MAX_FAILED_ATTEMPTS = 5;
+
+const QR_PREFIX = 'klubz-board:v1';
+
+/** A booking's status as the API reports it, with boarded riders 'on_board'. */
+export function riderBookingStatus(booking: { status: string; boarded_at?: string | null }): string {
+  return booking.status === 'accepted' && booking.boarded_at ? 'on_board' : booking.status;
+}
+
+export type BoardingMethod = 'pin' | 'qr';
+
+export interface BoardingPass {
+  tripId: number;
+  participantId: number;
+  pin: string;
+  qr: string;
+  expiresAt: string;
+}
+
+export interface ParsedBoardingQr {
+  tripId: number;
+  participantId: number;
+  expiresAt: number;
+}
+
+function boardingMessage(tripId: number, participantId: number, expiresAt: number): string {
+  return `boarding:${tripId}:${participantId}:${expiresAt}`;
+}
+
+/** Expiries (unix seconds) of passes that are valid at `nowSec`, newest first. */
+function validExpiries(nowSec: number): number[] {
+  const window = Math.floor(nowSec / BOARDING_PASS_WINDOW_SECONDS);
+  return [(window + 2) * BOARDING_PASS_WINDOW_SECONDS, (window + 1) * BOARDING_PASS_WINDOW_SECONDS];
+}
+
+/** HOTP-style truncation of a signature to a 6-digit PIN. */
+function pinFromSignature(signature: Uint8Array): string {
+  const offset = signature[signature.length - 1] & 0x0f;
+  const code = (
+    ((signature[offset] & 0x7f) << 24)
+    | (signature[offset + 1] << 16)
+    | (signature[offset + 2] << 8)
+    | signature[offset + 3]
+  ) % 1_000_000;
+  return String(code).padStart(6, '0');
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+export async function issueBoardingPass(
+  secret: string,
+  tripId: number,
+  participantId: number,
+  now = Date.now(),
+): Promise<BoardingPass> {
+  const [expiresAt] = validExpiries(Math.floor(now / 1000));
+  const signature = await hmacSign(boardingMessage(tripId, participantId, expiresAt), secret);
+  return {
+    tripId,
+    participantId,
+    pin: pinFromSignature(signature),
+    qr: `${QR_PREFIX}.${tripId}.${participantId}.${expiresAt}.${base64UrlEncode(signature)}`,
+    expiresAt: new Date(expiresAt * 1000).toISOString(),
+  };
+}
+
+export function parseBoardingQr(qr: string): (ParsedBoardingQr & { signature: string }) | null {
+  if (!qr.startsWith(`${QR_PREFIX}.`)) return null;
+  const parts = qr.slice(QR_PREFIX.length + 1).split('.');
+  if (parts.length !== 4) return null;
+  const [tripId, participantId, expiresAt] = parts.slice(0, 3).map((p) => Number.parseInt(p, 10));
+  if (![tripId, participantId, expiresAt].every((n) => Number.isFinite(n) && n > 0)) return null;
+  return { tripId, participantId, expiresAt, signature: parts[3] };
+}
+
+/** Check a scanned QR payload; returns the booking it was issued for. */
+export async function verifyBoardingQr(
+  secret: string,
+  qr: string,
+  now = Date.now(),
+): Promise<ParsedBoardingQr | null> {
+  const parsed = parseBoardingQr(qr);
+  if (!parsed || parsed.expiresAt * 1000 <= now) return null;
+  const valid = await hmacVerify(
+    boardingMessage(parsed.tripId, parsed.participantId, parsed.expiresAt),
+    parsed.signature,
+    secret,
+  );
+  return valid ? { tripId: parsed.tripId, participantId: parsed.participantId, expiresAt: parsed.expiresAt } : null;
+}
+
+/** Check a PIN the driver typed in against the rider's current passes. */
+export async function verifyBoardingPin(
+  secret: string,
+  tripId: number,
+  participantId: number,
+  pin: string,
+  now = Date.now(),
+): Promise<boolean> {
+  let matched = false;
+  for (const expiresAt of validExpiries(Math.floor(now / 1000))) {
+    const signature = await hmacSign(boardingMessage(tripId, participantId, expiresAt), secret);
+    if (constantTimeEqual(pinFromSignature(signature), pin)) matched = true;
+  }
+  return matched;
+}
@@ -0,0 +1,467 @@
+/**
+ * Klubz - Booking Request Expiry
+ *
+ * A driver has the cancellation policy's `bookingResponseHours` to accept
+ * or reject a booking request, cut short by the trip's departure. The
+ * hourly cron reminds the driver as the deadline nears — in-app and push
+ * halfway through, adding email for the final reminder — and once it has
+ * passed rejects the request, stamps `expired_at`, promotes the next
+ * waitlisted rider and sends the rider up to three alternative trips
+ * ranked by the matching engine.
+ */
+
+import type { Bindings, D1Database } from '../types';
+import { NotificationService } from '../integrations/notifications';
+import { DEFAULT_CANCELLATION_POLICY, loadCancellationPolicy } from './cancellationPolicy';
+import type { CancellationPolicy } from './cancellationPolicy';
+import { safeDecryptPII } from './encryption';
+import { logger } from './logger';
+import { DEFAULT_MATCH_CONFIG, matchRiderToDrivers } from './matching';
+import type { DriverTrip, GeoPoint, RiderRequest } from './matching/types';
+import { createNotification } from './notificationStore';
+import type { NotificationType } from './notificationStore';
+import { sendPushNotification } from './push';
+import { getUserNotificationPreferences } from './userPreferences';
+import { promoteNextWaitlistedRider } from './waitlist';
+
+/** Share of the response window after which each driver reminder is due; the last is final. */
+export const BOOKING_REMINDER_STAGES = [0.5, 0.8] as const;
+/** Alternatives depart within this long of the expired trip. */
+const ALTERNATIVE_WINDOW_MS = 2 * 60 * 60 * 1000;
+const ALTERNATIVES_LIMIT = 3;
+const ALTERNATIVE_CANDIDATE_LIMIT = 50;
+const PENDING_BATCH_LIMIT = 200;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface PendingBookingRow {
+  participant_id: number;
+  trip_id: number;
+  user_id: number;
+  passenger_count: number | null;
+  requested_at: string;
+  response_reminders_sent: number;
+  pickup_location_encrypted: string | null;
+  dropoff_location_encrypted: string | null;
+  pickup_point_encrypted: string | null;
+  driver_id: number;
+  driver_email: string | null;
+  title: string | null;
+  origin: string | null;
+  destination: string | null;
+  departure_time: string;
+  organization_id: string | null;
+}
+
+interface AlternativeTripRow {
+  id: number;
+  driver_id: number;
+  title: string | null;
+  origin: string;
+  destination: string;
+  departure_time: string;
+  available_seats: number;
+  total_seats: number | null;
+  price_per_seat: number | null;
+  route_distance_km: number | null;
+}
+
+export type BookingResponseStage =
+  | { action: 'remind'; reminder: number; final: boolean }
+  | { action: 'expire' };
+
+export interface AlternativeTrip {
+  tripId: number;
+  title: string | null;
+  departureTime: string;
+  availableSeats: number;
+  pricePerSeat: number | null;
+  matchScore: number;
+}
+
+export interface BookingExpiryRun {
+  reminded: number;
+  expired: number;
+}
+
+// ---------------------------------------------------------------------------
+// Deadlines
+// ---------------------------------------------------------------------------
+
+/** Milliseconds for an ISO 8601 or SQLite `CURRENT_TIMESTAMP` (UTC) value. */
+function timestampMs(value: string): number {
+  return Date.parse(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+/** When a booking request expires unanswered, or null if its times are unreadable. */
+export function bookingResponseDeadline(
+  booking: { requested_at: string; departure_time: string },
+  policy: CancellationPolicy,
+): number | null {
+  const requestedMs = timestampMs(booking.requested_at);
+  const departureMs = timestampMs(booking.departure_time);
+  if (!Number.isFinite(requestedMs) || !Number.isFinite(departureMs)) return null;
+  return Math.min(requestedMs + policy.bookingResponseHours * 60 * 60 * 1000, departureMs);
+}
+
+/**
+ * What the cron owes a pending booking at `now`: expiry once the deadline
+ * has passed, else the latest reminder due and not yet sent. Reminders
+ * skipped between runs are not sent late.
+ */
+export function bookingResponseStage(
+  booking: { requested_at: string; departure_time: string; response_reminders_sent: number },
+  policy: CancellationPolicy,
+  now: number,
+): BookingResponseStage | null {
+  const deadline = bookingResponseDeadline(booking, policy);
+  if (deadline === null) return null;
+  if (now >= deadline) return { action: 'expire' };
+
+  const requestedMs = timestampMs(booking.requested_at);
+  let due = 0;
+  BOOKING_REMINDER_STAGES.forEach((share, i) => {
+    if (now >= requestedMs + share * (deadline - requestedMs)) due = i + 1;
+  });
+  if (due <= booking.response_reminders_sent) return null;
+  return { action: 'remind', reminder: due, final: due === BOOKING_REMINDER_STAGES.length };
+}
+
+// ---------------------------------------------------------------------------
+// Alternatives
+// ---------------------------------------------------------------------------
+
+function parsePoint(value: string | null | undefined): GeoPoint | null {
+  if (!value || !value.includes('{')) return null;
+  try {
+    const parsed = JSON.parse(value) as { lat?: unknown; lng?: unknown };
+    return typeof parsed.lat === 'number' && typeof parsed.lng === 'number'
+      ? { lat: parsed.lat, lng: parsed.lng }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Other scheduled trips with room for the rider around the same time,
+ * best match first. The rider's own coordinates are used where the booking
+ * has them, the expired trip's endpoints otherwise.
+ */
+export async function suggestAlternativeTrips(
+  db: D1Database,
+  booking: PendingBookingRow,
+  encryptionKey: string | undefined,
+  now = Date.now(),
+): Promise<AlternativeTrip[]> {
+  const pickup = parsePoint(await safeDecryptPII(booking.pickup_point_encrypted, encryptionKey, booking.user_id))
+    ?? parsePoint(booking.pickup_location_encrypted)
+    ?? parsePoint(booking.origin);
+  const dropoff = parsePoint(booking.dropoff_location_encrypted) ?? parsePoint(booking.destination);
+  const departureMs = timestampMs(booking.departure_time);
+  if (!pickup || !dropoff || !Number.isFinite(departureMs)) return [];
+
+  const seatsNeeded = Math.max(1, Number(booking.passenger_count ?? 1));
+  const earliest = Math.max(now, departureMs - ALTERNATIVE_WINDOW_MS);
+  const latest = departureMs + ALTERNATIVE_WINDOW_MS;
+
+  const { results } = await db
+    .prepare(`
+      SELECT t.id, t.driver_id, t.title, t.origin, t.destination, t.departure_time,
+             t.available_seats, t.total_seats, t.price_per_seat, t.route_distance_km
+      FROM trips t
+      WHERE t.status = 'scheduled'
+        AND t.id != ?1
+        AND t.driver_id NOT IN (?2, ?3)
+        AND t.available_seats >= ?4
+        AND t.departure_time BETWEEN ?5 AND ?6
+        AND NOT EXISTS (SELECT 1 FROM trip_participants p WHERE p.trip_id = t.id AND p.user_id = ?3)
+      ORDER BY t.departure_time ASC
+      LIMIT ${ALTERNATIVE_CANDIDATE_LIMIT}
+    `)
+    .bind(
+      booking.trip_id,
+      booking.driver_id,
+      booking.user_id,
+      seatsNeeded,
+      new Date(earliest).toISOString(),
+      new Date(latest).toISOString(),
+    )
+    .all<AlternativeTripRow>();
+
+  const rows = results ?? [];
+  const drivers: DriverTrip[] = rows.map((t) => ({
+    id: String(t.id),
+    driverId: String(t.driver_id),
+    departure: parsePoint(t.origin) ?? pickup,
+    destination: parsePoint(t.destination) ?? dropoff,
+    departureTime: timestampMs(t.departure_time),
+    availableSeats: t.available_seats,
+    totalSeats: t.total_seats ?? t.available_seats,
+    routePolyline: [],
+    routeDistanceKm: t.route_distance_km != null ? Number(t.route_distance_km) : undefined,
+    status: 'active',
+    createdAt: new Date(now).toISOString(),
+  }));
+  if (drivers.length === 0) return [];
+
+  const rider: RiderRequest = {
+    id: `expired-booking-${booking.participant_id}`,
+    riderId: String(booking.user_id),
+    pickup,
+    dropoff,
+    earliestDeparture: earliest,
+    latestDeparture: latest,
+    seatsNeeded,
+    status: 'pending',
+    createdAt: new Date(now).toISOString(),
+  };
+
+  const rowById = new Map(rows.map((t) => [String(t.id), t]));
+  const { matches } = matchRiderToDrivers(rider, drivers, DEFAULT_MATCH_CONFIG);
+  return matches.slice(0, ALTERNATIVES_LIMIT).flatMap((match) => {
+    const trip = rowById.get(match.driverTripId);
+    if (!trip) return [];
+    return [{
+      tripId: trip.id,
+      title: trip.title,
+      departureTime: trip.departure_time,
+      availableSeats: trip.available_seats,
+      pricePerSeat: trip.price_per_seat,
+      matchScore: match.score,
+    }];
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Reminders and expiry
+// ---------------------------------------------------------------------------
+
+async function notify(
+  db: D1Database,
+  input: {
+    userId: number;
+    tripId: number;
+    notificationType: NotificationType;
+    subject: string;
+    message: string;
+    metadata: Record<string, unknown>;
+  },
+): Promise<void> {
+  try {
+    await createNotification(db, { ...input, channel: 'in_app', status: 'sent' });
+  } catch (err) {
+    logger.warn('Failed to persist booking expiry notification', {
+      userId: input.userId,
+      tripId: input.tripId,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+function tripLabel(booking: PendingBookingRow): string {
+  return booking.title || 'your trip';
+}
+
+/** Send the driver reminder `stage` for a booking, once. Returns false if already sent or answered. */
+export async function remindDriverOfBooking(
+  db: D1Database,
+  env: Bindings,
+  booking: PendingBookingRow,
+  stage: { reminder: number; final: boolean },
+  deadline: number,
+): Promise<boolean> {
+  const claim = await db
+    .prepare(`
+      UPDATE trip_participants
+      SET response_reminders_sent = ?1
+      WHERE id = ?2 AND status = 'requested' AND response_reminders_sent < ?1
+    `)
+    .bind(stage.reminder, booking.participant_id)
+    .run();
+  if (claim.meta?.changes === 0) return false;
+
+  const expiresAt = new Date(deadline).toISOString();
+  const subject = stage.final ? 'Booking request expires soon' : 'Booking request waiting';
+  const message = stage.final
+    ? `A booking request for ${tripLabel(booking)} expires at ${expiresAt} unless you accept or reject it.`
+    : `A rider is waiting for your answer on ${tripLabel(booking)}. The request expires at ${expiresAt}.`;
+
+  await notify(db, {
+    userId: booking.driver_id,
+    tripId: booking.trip_id,
+    notificationType: 'booking_request',
+    subject,
+    message,
+    metadata: { tripId: booking.trip_id, bookingId: booking.participant_id, reminder: stage.reminder, expiresAt },
+  });
+
+  try {
+    await sendPushNotification(env, db as Parameters<typeof sendPushNotification>[1], booking.driver_id, {
+      title: subject,
+      body: message,
+      url: '/#my-trips',
+      tag: `booking-response:${booking.participant_id}`,
+    });
+    if (stage.final && booking.driver_email) {
+      await new NotificationService(env).sendEmail(
+        booking.driver_email,
+        subject,
+        `<p>${message}</p><p>Open the app to respond.</p>`,
+      );
+    }
+  } catch (err) {
+    logger.warn('Failed to send booking response reminder', {
+      participantId: booking.participant_id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+  return true;
+}
+
+/**
+ * Reject a booking request that went unanswered, promote the waitlist and
+ * offer the rider alternatives. Returns false if the driver answered first.
+ */
+export async function expireBookingRequest(
+  db: D1Database,
+  env: Bindings,
+  booking: PendingBookingRow,
+  now = Date.now(),
+): Promise<boolean> {
+  const claim = await db
+    .prepare(`UPDATE trip_participants SET status = 'rejected', expired_at = ? WHERE id = ? AND status = 'requested'`)
+    .bind(new Date(now).toISOString(), booking.participant_id)
+    .run();
+  if (claim.meta?.changes === 0) return false;
+
+  try {
+    await promoteNextWaitlistedRider(db, env, booking.trip_id);
+  } catch (err) {
+    logger.warn('Waitlist promotion after booking expiry failed', {
+      tripId: booking.trip_id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+
+  let alternatives: AlternativeTrip[] = [];
+  try {
+    alternatives = await suggestAlternativeTrips(db, booking, env.ENCRYPTION_KEY, now);
+  } catch (err) {
+    logger.warn('Alternative trip suggestions failed', {
+      participantId: booking.participant_id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+
+  const preferences = await getUserNotificationPreferences(db, booking.user_id);
+  if (preferences.tripUpdates) {
+    const message = alternatives.length > 0
+      ? `The driver of ${tripLabel(booking)} didn't respond in time. We found ${alternatives.length} other trip${alternatives.length === 1 ? '' : 's'} you can book.`
+      : `The driver of ${tripLabel(booking)} didn't respond in time. Search again to find another trip.`;
+    await notify(db, {
+      userId: booking.user_id,
+      tripId: booking.trip_id,
+      notificationType: 'booking_rejected',
+      subject: 'Booking request expired',
+      message,
+      metadata: { tripId: booking.trip_id, bookingId: booking.participant_id, reason: 'expired', alternatives },
+    });
+    try {
+      await sendPushNotification(env, db as Parameters<typeof sendPushNotification>[1], booking.user_id, {
+        title: 'Booking request expired',
+        body: message,
+        url: '/#my-trips',
+        tag: `booking-expired:${booking.participant_id}`,
+      });
+    } catch (err) {
+      logger.warn('Failed to send booking expiry push', {
+        participantId: booking.participant_id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  await notify(db, {
+    userId: booking.driver_id,
+    tripId: booking.trip_id,
+    notificationType: 'system',
+    subject: 'Booking request expired',
+    message: `A booking request for ${tripLabel(booking)} expired because it wasn't answered in time.`,
+    metadata: { tripId: booking.trip_id, bookingId: booking.participant_id, reason: 'expired' },
+  });
+  return true;
+}
+
+/**
+ * SQL twin of `bookingResponseDeadline` as a julian day, so the batch can
+ * take the earliest deadlines first. Binds `?1` to the default response
+ * hours; a missing or out-of-range organisation setting falls back to it.
+ */
+const RESPONSE_DEADLINE_SQL = `MIN(
+  julianday(tp.requested_at) + (
+    CASE
+      WHEN json_valid(cp.policy_json)
+        AND json_type(cp.policy_json, '$.bookingResponseHours') = 'integer'
+        AND json_extract(cp.policy_json, '$.bookingResponseHours') BETWEEN 1 AND 72
+      THEN json_extract(cp.policy_json, '$.bookingResponseHours')
+      ELSE ?1
+    END
+  ) / 24.0,
+  julianday(t.departure_time)
+)`;
+
+/** Remind drivers of, and expire, pending booking requests, earliest deadline first. */
+export async function processPendingBookings(
+  db: D1Database,
+  env: Bindings,
+  now = Date.now(),
+): Promise<BookingExpiryRun> {
+  const { results } = await db
+    .prepare(`
+      SELECT tp.id AS participant_id, tp.trip_id, tp.user_id, tp.passenger_count, tp.requested_at,
+             tp.response_reminders_sent, tp.pickup_location_encrypted, tp.dropoff_location_encrypted,
+             tp.pickup_point_encrypted, t.driver_id, d.email AS driver_email, t.title, t.origin,
+             t.destination, t.departure_time, d.organization_id
+      FROM trip_participants tp
+      JOIN trips t ON t.id = tp.trip_id
+      JOIN users d ON d.id = t.driver_id
+      LEFT JOIN cancellation_policies cp ON cp.organization_id = d.organization_id AND cp.is_active = 1
+      WHERE tp.status = 'requested'
+        AND tp.role = 'rider'
+        AND t.status IN ('scheduled', 'active')
+      ORDER BY ${RESPONSE_DEADLINE_SQL} ASC, tp.id ASC
+      LIMIT ${PENDING_BATCH_LIMIT}
+    `)
+    .bind(DEFAULT_CANCELLATION_POLICY.bookingResponseHours)
+    .all<PendingBookingRow>();
+
+  const policies = new Map<string, CancellationPolicy>();
+  const run: BookingExpiryRun = { reminded: 0, expired: 0 };
+  for (const booking of results ?? []) {
+    try {
+      const orgKey = booking.organization_id ?? '';
+      let policy = policies.get(orgKey);
+      if (!policy) {
+        policy = await loadCancellationPolicy(db, booking.organization_id);
+        policies.set(orgKey, policy);
+      }
+
+      const stage = bookingResponseStage(booking, policy, now);
+      if (stage?.action === 'expire') {
+        if (await expireBookingRequest(db, env, booking, now)) run.expired += 1;
+      } else if (stage?.action === 'remind') {
+        const deadline = bookingResponseDeadline(booking, policy) ?? now;
+        if (await remindDriverOfBooking(db, env, booking, stage, deadline)) run.reminded += 1;
+      }
+    } catch (err) {
+      logger.warn('Pending booking processing failed', {
+        participantId: booking.participant_id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return run;
+}
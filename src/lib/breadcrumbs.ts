@@ -0,0 +1,199 @@
+/**
+ * Klubz - Trip Location Breadcrumbs
+ *
+ * Driver location updates are kept for the life of a trip so the route can
+ * be replayed after an SOS or reviewed in a dispute. Updates are
+ * downsampled (a point is kept only when the driver has moved or enough
+ * time has passed), encrypted with the trip as AAD, and purged after
+ * `LOCATION_BREADCRUMB_RETENTION_DAYS`.
+ *
+ * Tracks can be exported as GeoJSON or GPX. Riders only get the stretch
+ * they were on board for.
+ */
+
+import type { D1Database, KVNamespace } from '../types';
+import { decryptJSON, encryptJSON } from './encryption';
+import { haversine } from './matching/geo';
+import { getPermanentDeletionDate, LOCATION_BREADCRUMB_RETENTION_DAYS } from './privacy';
+import { logger } from './logger';
+
+/** Keep a point at least this often while the driver is stationary. */
+export const BREADCRUMB_MIN_INTERVAL_MS = 30_000;
+/** Keep a point sooner than the interval once the driver has moved this far. */
+export const BREADCRUMB_MIN_DISTANCE_M = 50;
+
+export interface Breadcrumb {
+  lat: number;
+  lng: number;
+  heading: number | null;
+  speed: number | null;
+  accuracy: number | null;
+  recordedAt: string;
+}
+
+interface LastBreadcrumb {
+  lat: number;
+  lng: number;
+  at: number;
+}
+
+interface BreadcrumbRow {
+  recorded_at: string;
+  point_encrypted: string;
+}
+
+function tripAad(tripId: number): string {
+  return `trip:${tripId}`;
+}
+
+/** Whether a new point is worth keeping after the last kept one. */
+export function shouldKeepBreadcrumb(last: LastBreadcrumb | null, point: { lat: number; lng: number }, now: number): boolean {
+  if (!last) return true;
+  if (now - last.at >= BREADCRUMB_MIN_INTERVAL_MS) return true;
+  return haversine(last, point) * 1000 >= BREADCRUMB_MIN_DISTANCE_M;
+}
+
+/**
+ * Store a driver location update if downsampling keeps it. The last kept
+ * point is tracked in KV so most updates skip the database. Failures are
+ * logged; a lost breadcrumb never fails the location update.
+ */
+export async function recordBreadcrumb(
+  db: D1Database,
+  kv: KVNamespace | undefined,
+  encryptionKey: string,
+  tripId: number,
+  point: Breadcrumb,
+): Promise<boolean> {
+  const lastKey = `breadcrumb:last:trip:${tripId}`;
+  const now = Date.parse(point.recordedAt);
+  try {
+    const last = kv ? await kv.get<LastBreadcrumb>(lastKey, 'json') : null;
+    if (!shouldKeepBreadcrumb(last, point, now)) return false;
+
+    const pointEncrypted = await encryptJSON(point, encryptionKey, tripAad(tripId));
+    const purgeAfter = getPermanentDeletionDate(point.recordedAt, LOCATION_BREADCRUMB_RETENTION_DAYS).toISOString();
+    await db
+      .prepare(
+        `INSERT INTO trip_location_breadcrumbs (trip_id, recorded_at, point_encrypted, purge_after)
+         VALUES (?, ?, ?, ?)`,
+      )
+      .bind(tripId, point.recordedAt, pointEncrypted, purgeAfter)
+      .run();
+
+    await kv?.put(lastKey, JSON.stringify({ lat: point.lat, lng: point.lng, at: now }), { expirationTtl: 6 * 60 * 60 });
+    return true;
+  } catch (err) {
+    logger.warn('Breadcrumb write failed (non-critical)', {
+      tripId,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return false;
+  }
+}
+
+/** A trip's breadcrumbs in recording order. Points that fail to decrypt are skipped. */
+export async function loadBreadcrumbs(db: D1Database, encryptionKey: string, tripId: number): Promise<Breadcrumb[]> {
+  const rows = await db
+    .prepare(
+      `SELECT recorded_at, point_encrypted FROM trip_location_breadcrumbs
+       WHERE trip_id = ? ORDER BY recorded_at ASC, id ASC`,
+    )
+    .bind(tripId)
+    .all<BreadcrumbRow>();
+
+  const points: Breadcrumb[] = [];
+  for (const row of rows.results ?? []) {
+    try {
+      points.push(await decryptJSON<Breadcrumb>(row.point_encrypted, encryptionKey, tripAad(tripId)));
+    } catch {
+      logger.warn('Skipping unreadable breadcrumb', { tripId, recordedAt: row.recorded_at });
+    }
+  }
+  return points;
+}
+
+/**
+ * The part of a track a rider was on board for: from their pickup until the
+ * driver has covered the length of their booked segment (or the end of the
+ * trip when the segment is unknown). A rider who was never picked up gets
+ * no points.
+ */
+export function riderSegmentBreadcrumbs(
+  points: Breadcrumb[],
+  pickedUpAt: string | null,
+  segmentKm: number | null,
+): Breadcrumb[] {
+  if (!pickedUpAt) return [];
+  const from = Date.parse(pickedUpAt);
+  const segment: Breadcrumb[] = [];
+  let travelledKm = 0;
+  for (const point of points) {
+    if (Date.parse(point.recordedAt) < from) continue;
+    const previous = segment[segment.length - 1];
+    if (previous) travelledKm += haversine(previous, point);
+    segment.push(point);
+    if (segmentKm != null && travelledKm >= segmentKm) break;
+  }
+  return segment;
+}
+
+/** Delete breadcrumbs past their retention date. Returns the number removed. */
+export async function purgeExpiredBreadcrumbs(db: D1Database, now = new Date()): Promise<number> {
+  const result = await db
+    .prepare('DELETE FROM trip_location_breadcrumbs WHERE purge_after <= ?')
+    .bind(now.toISOString())
+    .run();
+  return Number(result.meta?.changes ?? 0);
+}
+
+// ---------------------------------------------------------------------------
+// Export formats
+// ---------------------------------------------------------------------------
+
+export function breadcrumbsToGeoJSON(tripId: number, points: Breadcrumb[]) {
+  return {
+    type: 'FeatureCollection' as const,
+    features: [{
+      type: 'Feature' as const,
+      geometry: {
+        type: 'LineString' as const,
+        coordinates: points.map((p) => [p.lng, p.lat]),
+      },
+      properties: {
+        tripId,
+        pointCount: points.length,
+        startedAt: points[0]?.recordedAt ?? null,
+        endedAt: points[points.length - 1]?.recordedAt ?? null,
+        times: points.map((p) => p.recordedAt),
+        speeds: points.map((p) => p.speed),
+      },
+    }],
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function breadcrumbsToGPX(tripId: number, points: Breadcrumb[]): string {
+  const trackPoints = points
+    .map((p) => `      <trkpt lat="${p.lat}" lon="${p.lng}"><time>${escapeXml(p.recordedAt)}</time></trkpt>`)
+    .join('\n');
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Klubz" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <trk>',
+    `    <name>Klubz trip ${tripId}</name>`,
+    '    <trkseg>',
+    ...(trackPoints ? [trackPoints] : []),
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,328 @@
+/**
+ * Klubz - Cancellation Policy
+ *
+ * A cancellation is assessed against tiers keyed on how many hours before
+ * departure it happens. Rider cancellations keep a percentage of the paid
+ * fare as a fee and refund the rest; part of that fee compensates the
+ * driver for the seat they held. Riders who cancel after departure are
+ * treated as no-shows and charged `noShowFeePct`, as are riders who
+ * don't turn up within `riderNoShowGraceMinutes` of the driver arriving.
+ *
+ * Driver cancellations always refund riders in full. The driver tier only
+ * sets a penalty recorded against the driver for late cancellations; a
+ * driver who never shows up is penalised `noShowFeePct` of the fare.
+ *
+ * Drivers have `bookingResponseHours` to accept or reject a booking
+ * request before it expires (see bookingExpiry.ts).
+ *
+ * Organisations can override the default policy.
+ */
+
+import { z } from 'zod';
+import type { D1Database } from '../types';
+import type { StripeService } from '../integrations/stripe';
+import { logger } from './logger';
+import { transferToDriver } from './payouts';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CancellationInitiator = 'rider' | 'driver';
+
+export interface CancellationTier {
+  id: string;
+  label: string;
+  /** Tier applies from this many hours before departure. */
+  minHoursBefore: number;
+  /** Share of the fare kept as a fee (riders) or recorded as a penalty (drivers). */
+  feePct: number;
+}
+
+export interface CancellationPolicy {
+  /** Ordered from the earliest cancellation window to the latest. */
+  rider: CancellationTier[];
+  driver: CancellationTier[];
+  noShowFeePct: number;
+  /** Share of a rider's cancellation fee paid on to the driver. */
+  driverCompensationPct: number;
+  /** Minutes a driver waits at the pickup before the rider is a no-show. */
+  riderNoShowGraceMinutes: number;
+  /** Minutes after departure before a driver without location updates is a no-show. */
+  driverNoShowGraceMinutes: number;
+  /** Hours a driver has to answer a booking request before it expires. */
+  bookingResponseHours: number;
+}
+
+export interface CancellationAssessment {
+  initiator: CancellationInitiator;
+  tier: string;
+  label: string;
+  hoursBeforeDeparture: number | null;
+  feePct: number;
+  fareCents: number;
+  paidCents: number;
+  feeCents: number;
+  refundCents: number;
+  driverCompensationCents: number;
+  driverPenaltyCents: number;
+}
+
+export type CompensationStatus = 'not_applicable' | 'pending' | 'transferred' | 'failed';
+
+export interface CancellationRecordInput {
+  tripId: number;
+  participantId: number | null;
+  cancelledBy: number;
+  assessment: CancellationAssessment;
+  refundId?: string | null;
+  compensationStatus?: CompensationStatus;
+  compensationTransferId?: string | null;
+}
+
+export interface BookingAmounts {
+  passenger_count: number | null;
+  payment_status: string | null;
+  amount_paid: number | null;
+  split_fare_cents: number | null;
+  price_per_seat: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// Policy
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  rider: [
+    { id: 'free', label: 'Free cancellation', minHoursBefore: 24, feePct: 0 },
+    { id: 'late', label: 'Late cancellation', minHoursBefore: 6, feePct: 0.5 },
+    { id: 'last_minute', label: 'Last-minute cancellation', minHoursBefore: 0, feePct: 1 },
+  ],
+  driver: [
+    { id: 'free', label: 'Free cancellation', minHoursBefore: 24, feePct: 0 },
+    { id: 'late', label: 'Late cancellation', minHoursBefore: 2, feePct: 0.1 },
+    { id: 'last_minute', label: 'Last-minute cancellation', minHoursBefore: 0, feePct: 0.25 },
+  ],
+  noShowFeePct: 1,
+  // Same share the driver receives when the trip completes
+  driverCompensationPct: 0.85,
+  riderNoShowGraceMinutes: 5,
+  driverNoShowGraceMinutes: 15,
+  bookingResponseHours: 12,
+};
+
+const NO_SHOW_TIER = { id: 'no_show', label: 'No-show' } as const;
+
+const tierSchema = z.object({
+  id: z.string().min(1).max(40),
+  label: z.string().min(1).max(80),
+  minHoursBefore: z.number().min(0).max(24 * 14),
+  feePct: z.number().min(0).max(1),
+});
+
+const tierListSchema = z.array(tierSchema).min(1).max(6).refine(
+  (tiers) => tiers.every((tier, i) => i === 0 || tier.minHoursBefore < tiers[i - 1].minHoursBefore),
+  { message: 'Tiers must be ordered by decreasing minHoursBefore' },
+);
+
+export const cancellationPolicySchema = z.object({
+  rider: tierListSchema,
+  driver: tierListSchema,
+  noShowFeePct: z.number().min(0).max(1),
+  driverCompensationPct: z.number().min(0).max(1),
+  riderNoShowGraceMinutes: z.number().int().min(1).max(60).default(DEFAULT_CANCELLATION_POLICY.riderNoShowGraceMinutes),
+  driverNoShowGraceMinutes: z.number().int().min(1).max(120).default(DEFAULT_CANCELLATION_POLICY.driverNoShowGraceMinutes),
+  bookingResponseHours: z.number().int().min(1).max(72).default(DEFAULT_CANCELLATION_POLICY.bookingResponseHours),
+}).strict();
+
+function selectTier(tiers: CancellationTier[], hoursBefore: number | null): CancellationTier {
+  if (hoursBefore === null) return tiers[tiers.length - 1];
+  return tiers.find((tier) => hoursBefore >= tier.minHoursBefore) ?? tiers[tiers.length - 1];
+}
+
+/**
+ * Work out the fee, refund and driver compensation for one booking.
+ * `paidCents` is what the rider has actually paid (0 when unpaid), so
+ * unpaid bookings are never charged. `noShow` applies the no-show tier to
+ * whoever initiated it regardless of timing.
+ */
+export function assessCancellation(
+  policy: CancellationPolicy,
+  input: {
+    initiator: CancellationInitiator;
+    hoursBeforeDeparture: number | null;
+    fareCents: number;
+    paidCents: number;
+    noShow?: boolean;
+  },
+): CancellationAssessment {
+  const hours = input.hoursBeforeDeparture !== null && Number.isFinite(input.hoursBeforeDeparture)
+    ? Math.round(input.hoursBeforeDeparture * 100) / 100
+    : null;
+  const fareCents = Math.max(0, Math.round(input.fareCents));
+  const paidCents = Math.max(0, Math.round(input.paidCents));
+
+  const noShowTier = { ...NO_SHOW_TIER, minHoursBefore: 0, feePct: policy.noShowFeePct };
+
+  if (input.initiator === 'driver') {
+    const tier = input.noShow ? noShowTier : selectTier(policy.driver, hours);
+    return {
+      initiator: 'driver',
+      tier: tier.id,
+      label: tier.label,
+      hoursBeforeDeparture: hours,
+      feePct: tier.feePct,
+      fareCents,
+      paidCents,
+      feeCents: 0,
+      refundCents: paidCents,
+      driverCompensationCents: 0,
+      driverPenaltyCents: Math.round(fareCents * tier.feePct),
+    };
+  }
+
+  const tier = input.noShow || (hours !== null && hours < 0)
+    ? noShowTier
+    : selectTier(policy.rider, hours);
+  const feeCents = Math.round(paidCents * tier.feePct);
+  return {
+    initiator: 'rider',
+    tier: tier.id,
+    label: tier.label,
+    hoursBeforeDeparture: hours,
+    feePct: tier.feePct,
+    fareCents,
+    paidCents,
+    feeCents,
+    refundCents: paidCents - feeCents,
+    driverCompensationCents: Math.round(feeCents * policy.driverCompensationPct),
+    driverPenaltyCents: 0,
+  };
+}
+
+/** Booking fare and the amount actually paid, in cents. */
+export function bookingAmountsCents(booking: BookingAmounts): { fareCents: number; paidCents: number } {
+  const passengerCount = Math.max(1, Number(booking.passenger_count ?? 1));
+  const seatCents = booking.split_fare_cents ?? Math.round(Number(booking.price_per_seat ?? 0) * 100);
+  const fareCents = seatCents * passengerCount;
+  const paidCents = booking.payment_status !== 'paid'
+    ? 0
+    : booking.amount_paid !== null && booking.amount_paid !== undefined
+      ? Math.round(Number(booking.amount_paid) * 100)
+      : fareCents;
+  return { fareCents, paidCents };
+}
+
+/** Hours from `now` until an ISO departure time, or null when unparseable. */
+export function hoursUntil(departureTime: string, now = Date.now()): number | null {
+  const departureMs = Date.parse(departureTime);
+  return Number.isFinite(departureMs) ? (departureMs - now) / (60 * 60 * 1000) : null;
+}
+
+/** One-line fee summary for notifications, e.g. "Late cancellation: fee R60.00, refund R60.00". */
+export function describeAssessment(assessment: CancellationAssessment): string {
+  const rand = (cents: number) => `R${(cents / 100).toFixed(2)}`;
+  if (assessment.initiator === 'driver') {
+    return assessment.refundCents > 0 ? `Full refund of ${rand(assessment.refundCents)}` : 'No charge';
+  }
+  const parts = [`fee ${rand(assessment.feeCents)}`];
+  if (assessment.paidCents > 0) parts.push(`refund ${rand(assessment.refundCents)}`);
+  return `${assessment.label}: ${parts.join(', ')}`;
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+/** The organisation's active policy, or the default one. */
+export async function loadCancellationPolicy(
+  db: D1Database,
+  organizationId?: string | null,
+): Promise<CancellationPolicy> {
+  if (!organizationId) return DEFAULT_CANCELLATION_POLICY;
+  try {
+    const row = await db
+      .prepare('SELECT policy_json FROM cancellation_policies WHERE organization_id = ? AND is_active = 1')
+      .bind(organizationId)
+      .first<{ policy_json: string }>();
+    if (!row) return DEFAULT_CANCELLATION_POLICY;
+    const parsed = cancellationPolicySchema.safeParse(JSON.parse(row.policy_json));
+    return parsed.success ? parsed.data : DEFAULT_CANCELLATION_POLICY;
+  } catch (err) {
+    logger.warn('Cancellation policy lookup failed; using default policy', {
+      organizationId,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return DEFAULT_CANCELLATION_POLICY;
+  }
+}
+
+export async function recordCancellation(db: D1Database, input: CancellationRecordInput): Promise<void> {
+  const { assessment } = input;
+  await db
+    .prepare(
+      `INSERT INTO trip_cancellations (
+         trip_id, participant_id, cancelled_by, initiator, tier, hours_before_departure,
+         paid_cents, fee_cents, refund_cents, driver_compensation_cents, driver_penalty_cents,
+         refund_id, compensation_status, compensation_transfer_id, breakdown_json
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .bind(
+      input.tripId,
+      input.participantId,
+      input.cancelledBy,
+      assessment.initiator,
+      assessment.tier,
+      assessment.hoursBeforeDeparture,
+      assessment.paidCents,
+      assessment.feeCents,
+      assessment.refundCents,
+      assessment.driverCompensationCents,
+      assessment.driverPenaltyCents,
+      input.refundId ?? null,
+      input.compensationStatus ?? 'not_applicable',
+      input.compensationTransferId ?? null,
+      JSON.stringify(assessment),
+    )
+    .run();
+}
+
+/**
+ * Transfer the driver's share of a rider's fee to their Connect account.
+ * Compensation stays `pending` when the driver can't receive payouts yet.
+ */
+export async function transferDriverCompensation(
+  db: D1Database,
+  stripe: StripeService | null,
+  input: { driverId: number; tripId: number; participantId: number | null; cents: number },
+): Promise<{ status: CompensationStatus; transferId: string | null }> {
+  if (input.cents <= 0) return { status: 'not_applicable', transferId: null };
+  try {
+    const driverAccount = await db
+      .prepare('SELECT stripe_connect_account_id, stripe_connect_enabled FROM users WHERE id = ?')
+      .bind(input.driverId)
+      .first<{ stripe_connect_account_id: string | null; stripe_connect_enabled: number | null }>();
+    if (!stripe || !driverAccount?.stripe_connect_account_id || Number(driverAccount.stripe_connect_enabled ?? 0) !== 1) {
+      return { status: 'pending', transferId: null };
+    }
+    const outcome = await transferToDriver(stripe, driverAccount.stripe_connect_account_id, input.cents, {
+      tripId: String(input.tripId),
+      participantId: String(input.participantId ?? ''),
+      reason: 'late_cancellation',
+    });
+    if (outcome.ok) return { status: 'transferred', transferId: outcome.transferId };
+    logger.warn('Driver cancellation compensation transfer failed (non-critical)', {
+      tripId: input.tripId,
+      participantId: input.participantId,
+      error: outcome.error,
+    });
+    return { status: 'failed', transferId: null };
+  } catch (err) {
+    logger.warn('Driver cancellation compensation transfer failed (non-critical)', {
+      tripId: input.tripId,
+      participantId: input.participantId,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return { status: 'failed', transferId: null };
+  }
+}
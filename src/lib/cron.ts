@@ -5,9 +5,16 @@
  * Triggered via the Cloudflare Workers `scheduled` event.
  *
  * Tasks:
- *   1. Auto-match today's pending subscription days
+ *   1. Auto-match today's pending subscription days (mornings, then evenings
+ *      whose morning leg is confirmed, then the other evenings)
  *   2. Send trip departure reminders (24h and 1h windows)
  *   3. Clean up expired KV session entries
+ *   4. Retry failed Stripe Connect payouts (verified boardings only) and
+ *      late-cancellation compensation that failed or is still pending
+ *   5. Materialise upcoming trips from recurring driver templates
+ *   6. Flag rider and driver no-shows (hourly)
+ *   7. Purge location breadcrumbs past their retention date
+ *   8. Remind drivers of, then expire, unanswered booking requests (hourly)
  */
 
 import type { Bindings } from '../types';
@@ -16,6 +23,14 @@ import { MatchingRepository, matchRiderToDrivers, DEFAULT_MATCH_CONFIG } from '.
 import { sendPushNotification } from './push';
 import { NotificationService } from '../integrations/notifications';
 import { StripeService } from '../integrations/stripe';
+import { getRoutingProvider } from './routing';
+import { materialiseTemplate, rowToTripTemplate } from './tripTemplates';
+import type { TripTemplateRow } from './tripTemplates';
+import { detectDriverNoShows, detectRiderNoShows } from './noShow';
+import { purgeExpiredBreadcrumbs } from './breadcrumbs';
+import { processPendingBookings } from './bookingExpiry';
+import { transferDriverCompensation } from './cancellationPolicy';
+import { payOutRiderFare } from './payouts';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -33,6 +48,8 @@ interface ScheduledDayReminderRow {
   dropoff_lat: number | null;
   dropoff_lng: number | null;
   status: string;
+  /** The same subscription's morning leg that day is already matched. */
+  morning_confirmed?: number;
 }
 
 interface TripReminderRow {
@@ -53,6 +70,14 @@ interface FailedPayoutRow {
   stripe_connect_account_id: string;
 }
 
+interface PendingCompensationRow {
+  id: number;
+  trip_id: number;
+  participant_id: number | null;
+  driver_compensation_cents: number;
+  driver_id: number;
+}
+
 // ---------------------------------------------------------------------------
 // 1. Batch-match today's pending subscription days
 // ---------------------------------------------------------------------------
@@ -68,10 +93,16 @@ export async function batchMatchSubscriptionDays(env: Bindings): Promise<void> {
   try {
     const result = await db
       .prepare(
-        `SELECT id, subscription_id, user_id, trip_date, trip_type, departure_time,
-                pickup_lat, pickup_lng, dropoff_lat, dropoff_lng, status
-         FROM monthly_scheduled_days
-         WHERE trip_date = ? AND status = 'scheduled'
+        `SELECT d.id, d.subscription_id, d.user_id, d.trip_date, d.trip_type, d.departure_time,
+                d.pickup_lat, d.pickup_lng, d.dropoff_lat, d.dropoff_lng, d.status,
+                EXISTS (
+                  SELECT 1 FROM monthly_scheduled_days m
+                  WHERE m.subscription_id = d.subscription_id AND m.trip_date = d.trip_date
+                    AND m.trip_type = 'morning' AND m.status IN ('matched', 'completed')
+                ) AS morning_confirmed
+         FROM monthly_scheduled_days d
+         WHERE d.trip_date = ? AND d.status = 'scheduled'
+         ORDER BY CASE d.trip_type WHEN 'morning' THEN 0 ELSE 1 END, morning_confirmed DESC, d.departure_time ASC
          LIMIT 100`,
       )
       .bind(today)
@@ -84,96 +115,117 @@ export async function batchMatchSubscriptionDays(env: Bindings): Promise<void> {
 
   logger.info(`batchMatchSubscriptionDays: processing ${days.length} days for ${today}`);
 
-  for (const day of days) {
-    try {
-      // Mark as requested so subsequent cron runs skip it
-      await db
-        .prepare(`UPDATE monthly_scheduled_days SET status = 'requested', updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status = 'scheduled'`)
-        .bind(day.id)
-        .run();
+  // Mornings first; an evening whose morning is confirmed — before this run
+  // or during it — is matched ahead of the other evenings
+  const dayKey = (day: ScheduledDayReminderRow) => `${day.subscription_id}:${day.trip_date}`;
+  const confirmedMornings = new Set(days.filter((day) => day.morning_confirmed).map(dayKey));
+  for (const day of days.filter((d) => d.trip_type === 'morning')) {
+    if (await matchScheduledDay(db, repository, day)) confirmedMornings.add(dayKey(day));
+  }
+  const evenings = days
+    .filter((d) => d.trip_type === 'evening')
+    .sort((a, b) => Number(confirmedMornings.has(dayKey(b))) - Number(confirmedMornings.has(dayKey(a))));
+  for (const day of evenings) {
+    await matchScheduledDay(db, repository, day);
+  }
+}
 
-      if (
-        day.pickup_lat === null ||
-        day.pickup_lng === null ||
-        day.dropoff_lat === null ||
-        day.dropoff_lng === null
-      ) {
-        continue;
-      }
+/** Match one subscription day to a driver; true when it was matched. */
+async function matchScheduledDay(
+  db: NonNullable<Bindings['DB']>,
+  repository: MatchingRepository,
+  day: ScheduledDayReminderRow,
+): Promise<boolean> {
+  try {
+    // Mark as requested so subsequent cron runs skip it
+    await db
+      .prepare(`UPDATE monthly_scheduled_days SET status = 'requested', updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status = 'scheduled'`)
+      .bind(day.id)
+      .run();
 
-      const timeLabel = day.departure_time.length === 5 ? `${day.departure_time}:00` : day.departure_time;
-      const departureTs = Date.parse(`${day.trip_date}T${timeLabel}Z`);
-      if (!Number.isFinite(departureTs)) {
-        logger.warn('batchMatchSubscriptionDays: invalid departure time', {
-          dayId: day.id,
-          tripDate: day.trip_date,
-          departureTime: day.departure_time,
-        });
-        continue;
-      }
+    if (
+      day.pickup_lat === null ||
+      day.pickup_lng === null ||
+      day.dropoff_lat === null ||
+      day.dropoff_lng === null
+    ) {
+      return false;
+    }
 
-      const riderRequest = await repository.createRiderRequest(
-        `subday:${day.id}`,
-        day.user_id,
-        {
-          pickup: { lat: day.pickup_lat, lng: day.pickup_lng },
-          dropoff: { lat: day.dropoff_lat, lng: day.dropoff_lng },
-          earliestDeparture: departureTs - 30 * 60 * 1000,
-          latestDeparture: departureTs + 30 * 60 * 1000,
-          seatsNeeded: 1,
-        },
-      );
+    const timeLabel = day.departure_time.length === 5 ? `${day.departure_time}:00` : day.departure_time;
+    const departureTs = Date.parse(`${day.trip_date}T${timeLabel}Z`);
+    if (!Number.isFinite(departureTs)) {
+      logger.warn('batchMatchSubscriptionDays: invalid departure time', {
+        dayId: day.id,
+        tripDate: day.trip_date,
+        departureTime: day.departure_time,
+      });
+      return false;
+    }
 
-      const candidates = await repository.findCandidateDrivers(riderRequest, DEFAULT_MATCH_CONFIG);
-      if (candidates.length === 0) {
-        continue;
-      }
+    const riderRequest = await repository.createRiderRequest(
+      `subday:${day.id}`,
+      day.user_id,
+      {
+        pickup: { lat: day.pickup_lat, lng: day.pickup_lng },
+        dropoff: { lat: day.dropoff_lat, lng: day.dropoff_lng },
+        earliestDeparture: departureTs - 30 * 60 * 1000,
+        latestDeparture: departureTs + 30 * 60 * 1000,
+        seatsNeeded: 1,
+      },
+    );
+
+    const candidates = await repository.findCandidateDrivers(riderRequest, DEFAULT_MATCH_CONFIG);
+    if (candidates.length === 0) {
+      return false;
+    }
 
-      const matched = matchRiderToDrivers(riderRequest, candidates, DEFAULT_MATCH_CONFIG);
-      const topMatch = matched.matches[0];
-      if (!topMatch) {
-        continue;
-      }
+    const matched = matchRiderToDrivers(riderRequest, candidates, DEFAULT_MATCH_CONFIG);
+    const topMatch = matched.matches[0];
+    if (!topMatch) {
+      return false;
+    }
+
+    await repository.saveMatchResult(crypto.randomUUID(), topMatch);
+    await repository.updateRiderRequestStatus(riderRequest.id, 'matched', topMatch.driverTripId);
 
-      await repository.saveMatchResult(crypto.randomUUID(), topMatch);
-      await repository.updateRiderRequestStatus(riderRequest.id, 'matched', topMatch.driverTripId);
-
-      let matchedTripId: number | null = null;
-      try {
-        const tripRow = await db
-          .prepare(
-            `SELECT t.id
-             FROM driver_trips dt
-             JOIN trips t ON t.driver_id = dt.driver_id
-             WHERE dt.id = ?
-               AND ABS(strftime('%s', t.scheduled_time) - (dt.departure_time / 1000)) < 300
-               AND t.status NOT IN ('cancelled', 'completed')
-             LIMIT 1`,
-          )
-          .bind(topMatch.driverTripId)
-          .first<{ id: number }>();
-        matchedTripId = tripRow?.id ?? null;
-        if (matchedTripId === null) {
-          logger.warn('batchMatchSubscriptionDays: matched trip correlation not found', {
-            dayId: day.id,
-            driverTripId: topMatch.driverTripId,
-          });
-        }
-      } catch (err) {
-        logger.warn('batchMatchSubscriptionDays: matched trip correlation failed', {
+    let matchedTripId: number | null = null;
+    try {
+      const tripRow = await db
+        .prepare(
+          `SELECT t.id
+           FROM driver_trips dt
+           JOIN trips t ON t.driver_id = dt.driver_id
+           WHERE dt.id = ?
+             AND ABS(strftime('%s', t.scheduled_time) - (dt.departure_time / 1000)) < 300
+             AND t.status NOT IN ('cancelled', 'completed')
+           LIMIT 1`,
+        )
+        .bind(topMatch.driverTripId)
+        .first<{ id: number }>();
+      matchedTripId = tripRow?.id ?? null;
+      if (matchedTripId === null) {
+        logger.warn('batchMatchSubscriptionDays: matched trip correlation not found', {
           dayId: day.id,
           driverTripId: topMatch.driverTripId,
-          error: String(err),
         });
       }
-
-      await db
-        .prepare(`UPDATE monthly_scheduled_days SET status = 'matched', trip_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`)
-        .bind(matchedTripId, day.id)
-        .run();
     } catch (err) {
-      logger.warn('batchMatchSubscriptionDays: update failed', { dayId: day.id, error: String(err) });
+      logger.warn('batchMatchSubscriptionDays: matched trip correlation failed', {
+        dayId: day.id,
+        driverTripId: topMatch.driverTripId,
+        error: String(err),
+      });
     }
+
+    await db
+      .prepare(`UPDATE monthly_scheduled_days SET status = 'matched', trip_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`)
+      .bind(matchedTripId, day.id)
+      .run();
+    return true;
+  } catch (err) {
+    logger.warn('batchMatchSubscriptionDays: update failed', { dayId: day.id, error: String(err) });
+    return false;
   }
 }
 
@@ -298,6 +350,7 @@ export async function retryFailedPayouts(env: Bindings): Promise<void> {
           AND tp.payment_status = 'paid'
           AND tp.role = 'rider'
           AND tp.status = 'completed'
+          AND (tp.boarded_at IS NOT NULL OR tp.payout_released_at IS NOT NULL)
           AND u.stripe_connect_enabled = 1
           AND u.stripe_connect_account_id IS NOT NULL
         LIMIT 50
@@ -313,45 +366,204 @@ export async function retryFailedPayouts(env: Bindings): Promise<void> {
 
   const stripe = new StripeService(env.STRIPE_SECRET_KEY);
   for (const payout of failedRows) {
-    const passengers = Math.max(1, Number(payout.passenger_count ?? 1));
-    const amount = Number(payout.amount_paid ?? ((payout.price_per_seat ?? 0) * passengers));
-    const cents = Math.max(0, Math.round(amount * 0.85 * 100));
-    if (cents <= 0) continue;
+    const outcome = await payOutRiderFare(db, stripe, payout.stripe_connect_account_id, payout, { retry: 'true' });
+    if (!outcome) continue;
+    if (outcome.ok) {
+      logger.info('Payout retry succeeded', {
+        participantId: payout.id,
+        transferId: outcome.transferId,
+      });
+    } else {
+      logger.warn('Payout retry failed again', {
+        participantId: payout.id,
+        error: outcome.error,
+      });
+    }
+  }
+}
 
-    try {
-      const transfer = await stripe.createTransfer(
-        cents,
-        'zar',
-        payout.stripe_connect_account_id,
-        {
-          tripId: String(payout.trip_id),
-          participantId: String(payout.id),
-          retry: 'true',
-        },
-      );
+/**
+ * Retry late-cancellation compensation that failed or was left pending
+ * because the driver could not receive payouts yet.
+ */
+export async function retryDriverCompensation(env: Bindings): Promise<void> {
+  const db = env.DB;
+  if (!db || !env.STRIPE_SECRET_KEY) return;
 
+  let rows: PendingCompensationRow[] = [];
+  try {
+    const result = await db
+      .prepare(`
+        SELECT tc.id, tc.trip_id, tc.participant_id, tc.driver_compensation_cents, t.driver_id
+        FROM trip_cancellations tc
+        JOIN trips t ON t.id = tc.trip_id
+        WHERE tc.compensation_status IN ('pending', 'failed')
+          AND tc.compensation_claimed_at IS NULL
+          AND tc.driver_compensation_cents > 0
+        ORDER BY tc.created_at ASC
+        LIMIT 50
+      `)
+      .all<PendingCompensationRow>();
+    rows = result.results ?? [];
+  } catch (err) {
+    logger.warn('retryDriverCompensation: query failed', { error: String(err) });
+    return;
+  }
+
+  if (rows.length === 0) return;
+
+  const stripe = new StripeService(env.STRIPE_SECRET_KEY);
+  for (const row of rows) {
+    // Claim the row before paying so an overlapping run cannot transfer it too
+    let claimed = false;
+    try {
+      const claim = await db
+        .prepare(`
+          UPDATE trip_cancellations
+          SET compensation_claimed_at = CURRENT_TIMESTAMP
+          WHERE id = ? AND compensation_status IN ('pending', 'failed')
+            AND compensation_claimed_at IS NULL
+        `)
+        .bind(row.id)
+        .run();
+      claimed = Number(claim.meta?.changes ?? 0) > 0;
+    } catch (err) {
+      logger.warn('retryDriverCompensation: claim failed', { cancellationId: row.id, error: String(err) });
+    }
+    if (!claimed) continue;
+
+    const compensation = await transferDriverCompensation(db, stripe, {
+      driverId: row.driver_id,
+      tripId: row.trip_id,
+      participantId: row.participant_id,
+      cents: row.driver_compensation_cents,
+    });
+    try {
+      if (compensation.status !== 'transferred' && compensation.status !== 'failed') {
+        // Still pending: the driver has not finished Connect onboarding
+        await db
+          .prepare('UPDATE trip_cancellations SET compensation_claimed_at = NULL WHERE id = ?')
+          .bind(row.id)
+          .run();
+        continue;
+      }
       await db
         .prepare(`
-          UPDATE trip_participants
-          SET payout_status = 'transferred',
-              payout_transfer_id = ?,
-              payout_transferred_at = CURRENT_TIMESTAMP
-          WHERE id = ?
+          UPDATE trip_cancellations
+          SET compensation_status = ?, compensation_transfer_id = ?, compensation_claimed_at = NULL
+          WHERE id = ? AND compensation_status IN ('pending', 'failed')
         `)
-        .bind(transfer.id, payout.id)
+        .bind(compensation.status, compensation.transferId, row.id)
         .run();
-
-      logger.info('Payout retry succeeded', {
-        participantId: payout.id,
-        transferId: transfer.id,
+    } catch (err) {
+      // The claim stays in place, so a transfer that went through is not retried
+      logger.warn('retryDriverCompensation: update failed', {
+        cancellationId: row.id,
+        transferId: compensation.transferId,
+        error: String(err),
       });
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// 5. Materialise recurring driver trip templates
+// ---------------------------------------------------------------------------
+
+export async function materialiseTripTemplates(env: Bindings): Promise<void> {
+  const db = env.DB;
+  if (!db) return;
+
+  let rows: TripTemplateRow[] = [];
+  try {
+    const result = await db
+      .prepare(`SELECT * FROM driver_trip_templates WHERE status = 'active' ORDER BY id ASC LIMIT 200`)
+      .all<TripTemplateRow>();
+    rows = result.results ?? [];
+  } catch (err) {
+    logger.warn('materialiseTripTemplates: query failed', { error: String(err) });
+    return;
+  }
+
+  if (rows.length === 0) return;
+
+  const routing = getRoutingProvider(env);
+  let created = 0;
+  for (const row of rows) {
+    try {
+      created += await materialiseTemplate(db, rowToTripTemplate(row), { kv: env.CACHE, routing });
     } catch (err) {
-      logger.warn('Payout retry failed again', {
-        participantId: payout.id,
+      logger.warn('materialiseTripTemplates: template failed', {
+        templateId: row.id,
         error: err instanceof Error ? err.message : String(err),
       });
     }
   }
+
+  logger.info('Trip templates materialised', { templates: rows.length, created });
+}
+
+// ---------------------------------------------------------------------------
+// 6. Flag rider and driver no-shows
+// ---------------------------------------------------------------------------
+
+export async function detectNoShows(env: Bindings): Promise<void> {
+  const db = env.DB;
+  if (!db) return;
+
+  const stripe = env.STRIPE_SECRET_KEY ? new StripeService(env.STRIPE_SECRET_KEY) : null;
+  let riders = 0;
+  let drivers = 0;
+  try {
+    riders = await detectRiderNoShows(db, stripe);
+  } catch (err) {
+    logger.warn('detectNoShows: rider query failed', { error: String(err) });
+  }
+  try {
+    drivers = await detectDriverNoShows(db, stripe);
+  } catch (err) {
+    logger.warn('detectNoShows: driver query failed', { error: String(err) });
+  }
+
+  if (riders > 0 || drivers > 0) {
+    logger.info('No-shows flagged', { riders, drivers });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// 7. Purge expired location breadcrumbs
+// ---------------------------------------------------------------------------
+
+export async function purgeLocationBreadcrumbs(env: Bindings): Promise<void> {
+  const db = env.DB;
+  if (!db) return;
+
+  try {
+    const deleted = await purgeExpiredBreadcrumbs(db);
+    if (deleted > 0) {
+      logger.info(`purgeLocationBreadcrumbs: removed ${deleted} expired breadcrumbs`);
+    }
+  } catch (err) {
+    logger.warn('purgeLocationBreadcrumbs: failed', { error: String(err) });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// 8. Remind drivers of, then expire, unanswered booking requests
+// ---------------------------------------------------------------------------
+
+export async function expirePendingBookings(env: Bindings): Promise<void> {
+  const db = env.DB;
+  if (!db) return;
+
+  try {
+    const { reminded, expired } = await processPendingBookings(db, env);
+    if (reminded > 0 || expired > 0) {
+      logger.info('Pending booking requests processed', { reminded, expired });
+    }
+  } catch (err) {
+    logger.warn('expirePendingBookings: query failed', { error: String(err) });
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -365,12 +577,19 @@ export async function runDailyTasks(env: Bindings): Promise<void> {
     sendTripReminders(env, '24h'),
     cleanupExpiredSessions(env),
     retryFailedPayouts(env),
+    retryDriverCompensation(env),
+    materialiseTripTemplates(env),
+    purgeLocationBreadcrumbs(env),
   ]);
   logger.info('Cron: runDailyTasks completed');
 }
 
 export async function runHourlyTasks(env: Bindings): Promise<void> {
   logger.info('Cron: runHourlyTasks started');
-  await sendTripReminders(env, '1h');
+  await Promise.allSettled([
+    sendTripReminders(env, '1h'),
+    detectNoShows(env),
+    expirePendingBookings(env),
+  ]);
   logger.info('Cron: runHourlyTasks completed');
 }
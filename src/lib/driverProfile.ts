@@ -0,0 +1,67 @@
+import type { D1Database } from '../types';
+
+export type DriverGender = 'male' | 'female';
+
+/**
+ * Opt-in driver attributes used to honour rider preferences.
+ *
+ * Gender is never inferred and never shown to riders; it is only read by the
+ * matching engine, and only while `shareGenderForMatching` is on.
+ */
+export interface DriverAttributeProfile {
+  gender: DriverGender | null;
+  shareGenderForMatching: boolean;
+}
+
+interface DriverAttributeProfileRow {
+  gender: string | null;
+  share_gender_for_matching: number;
+}
+
+export const DEFAULT_DRIVER_ATTRIBUTE_PROFILE: DriverAttributeProfile = {
+  gender: null,
+  shareGenderForMatching: false,
+};
+
+function parseGender(value: unknown): DriverGender | null {
+  return value === 'male' || value === 'female' ? value : null;
+}
+
+export async function getDriverAttributeProfile(db: D1Database, userId: number): Promise<DriverAttributeProfile> {
+  const row = await db.prepare(`
+    SELECT gender, share_gender_for_matching
+    FROM driver_attribute_profiles
+    WHERE user_id = ?
+  `).bind(userId).first<DriverAttributeProfileRow>();
+
+  if (!row) return DEFAULT_DRIVER_ATTRIBUTE_PROFILE;
+
+  const gender = parseGender(row.gender);
+  return {
+    gender,
+    shareGenderForMatching: gender !== null && row.share_gender_for_matching === 1,
+  };
+}
+
+export async function upsertDriverAttributeProfile(
+  db: D1Database,
+  userId: number,
+  input: Partial<DriverAttributeProfile>,
+): Promise<DriverAttributeProfile> {
+  const current = await getDriverAttributeProfile(db, userId);
+  const gender = input.gender !== undefined ? parseGender(input.gender) : current.gender;
+  // Sharing without a gender on file is meaningless; clearing the gender also stops sharing.
+  const shareGenderForMatching = gender !== null &&
+    (input.shareGenderForMatching ?? current.shareGenderForMatching);
+
+  await db.prepare(`
+    INSERT INTO driver_attribute_profiles (user_id, gender, share_gender_for_matching)
+    VALUES (?, ?, ?)
+    ON CONFLICT(user_id) DO UPDATE SET
+      gender = excluded.gender,
+      share_gender_for_matching = excluded.share_gender_for_matching,
+      updated_at = CURRENT_TIMESTAMP
+  `).bind(userId, gender, shareGenderForMatching ? 1 : 0).run();
+
+  return { gender, shareGenderForMatching };
+}
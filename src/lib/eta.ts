@@ -0,0 +1,187 @@
+/**
+ * Klubz - Live ETA
+ *
+ * Recomputes the driver's ETA to each waiting rider's pickup as location
+ * updates arrive. When the pickup lies on the planned route the remaining
+ * distance is measured along it and converted with `estimateETAMinutes`;
+ * otherwise the configured routing provider is asked for the leg.
+ *
+ * The latest ETAs are kept in KV for `GET /api/trips/:tripId/location`.
+ * Riders get a `trip:eta_updated` SSE event and a web push when their
+ * arrival time first becomes known or shifts by `ETA_SHIFT_NOTIFY_MINUTES`.
+ */
+
+import type { Bindings, D1Database } from '../types';
+import type { GeoPoint } from './matching/types';
+import { haversine, minDistanceToRoute } from './matching/geo';
+import { estimateETAMinutes } from './pricing';
+import { getRoutingProvider } from './routing';
+import { eventBus } from './eventBus';
+import { sendPushNotification } from './push';
+import { decryptPickupPoint, loadPlannedRoute } from './routeMonitor';
+import type { MonitoredTrip } from './routeMonitor';
+import { logger } from './logger';
+
+/** Riders are told when their arrival time moves by at least this much. */
+export const ETA_SHIFT_NOTIFY_MINUTES = 3;
+/** ETAs are recomputed at most this often per trip. */
+export const ETA_REFRESH_INTERVAL_MS = 30_000;
+/** Pickups further than this from the planned route are routed to directly. */
+const ON_ROUTE_TOLERANCE_KM = 0.5;
+const ETA_TTL_SECONDS = 15 * 60;
+
+export interface RiderEta {
+  riderId: number;
+  distanceKm: number;
+  etaMinutes: number;
+  /** ISO arrival time at the pickup. */
+  eta: string;
+  /** Arrival time riders were last notified of. */
+  notifiedEta: string | null;
+}
+
+export interface TripEtaSnapshot {
+  tripId: number;
+  updatedAt: string;
+  riders: RiderEta[];
+}
+
+interface WaitingRiderRow {
+  user_id: number;
+  pickup_point_encrypted: string | null;
+}
+
+export function tripEtaCacheKey(tripId: number): string {
+  return `eta:trip:${tripId}`;
+}
+
+/**
+ * Distance (km) from `from` to `to` following the route, or null when
+ * either point is off the route or `to` is already behind `from`.
+ */
+export function distanceAlongRoute(route: GeoPoint[], from: GeoPoint, to: GeoPoint): number | null {
+  if (route.length < 2) return null;
+  const start = minDistanceToRoute(from, route);
+  const end = minDistanceToRoute(to, route);
+  if (start.distance > ON_ROUTE_TOLERANCE_KM || end.distance > ON_ROUTE_TOLERANCE_KM) return null;
+  if (end.segmentIndex < start.segmentIndex) return null;
+  if (end.segmentIndex === start.segmentIndex) return haversine(from, to);
+
+  let km = haversine(from, route[start.segmentIndex + 1]);
+  for (let i = start.segmentIndex + 1; i < end.segmentIndex; i++) {
+    km += haversine(route[i], route[i + 1]);
+  }
+  return km + haversine(route[end.segmentIndex], to);
+}
+
+/** Whether a new arrival time differs enough from the last notified one. */
+export function etaShifted(notifiedEta: string | null, eta: string): boolean {
+  if (!notifiedEta) return true;
+  return Math.abs(Date.parse(eta) - Date.parse(notifiedEta)) >= ETA_SHIFT_NOTIFY_MINUTES * 60_000;
+}
+
+export async function getTripEtas(env: Bindings, tripId: number): Promise<TripEtaSnapshot | null> {
+  return (await env.CACHE?.get<TripEtaSnapshot>(tripEtaCacheKey(tripId), 'json')) ?? null;
+}
+
+/**
+ * Recompute ETAs for riders still waiting to be picked up and notify the
+ * ones whose arrival time moved. Never throws; a failed ETA must not fail
+ * the location update.
+ */
+export async function updateTripEtas(
+  env: Bindings,
+  db: D1Database,
+  trip: MonitoredTrip,
+  driverPoint: GeoPoint,
+  now = Date.now(),
+): Promise<TripEtaSnapshot | null> {
+  try {
+    const previous = await getTripEtas(env, trip.id);
+    if (previous && now - Date.parse(previous.updatedAt) < ETA_REFRESH_INTERVAL_MS) return previous;
+
+    // Riders the driver has already reached are waiting on boarding, not on an ETA
+    const rows = await db
+      .prepare(
+        `SELECT user_id, pickup_point_encrypted FROM trip_participants
+         WHERE trip_id = ? AND role = 'rider' AND status = 'accepted' AND driver_arrived_at IS NULL`,
+      )
+      .bind(trip.id)
+      .all<WaitingRiderRow>();
+    const waiting = rows.results ?? [];
+    if (waiting.length === 0) {
+      // Everyone has been reached; drop the last ETAs rather than serve them stale
+      if (previous) await env.CACHE?.delete(tripEtaCacheKey(trip.id));
+      return null;
+    }
+
+    let route: GeoPoint[] | null = null;
+    try {
+      route = await loadPlannedRoute(env, trip);
+    } catch {
+      route = null;
+    }
+    const routing = getRoutingProvider(env);
+    const previousByRider = new Map((previous?.riders ?? []).map((r) => [r.riderId, r]));
+    const riders: RiderEta[] = [];
+
+    for (const row of waiting) {
+      const pickup = await decryptPickupPoint(row.pickup_point_encrypted, env.ENCRYPTION_KEY, row.user_id);
+      if (!pickup) continue;
+
+      let distanceKm: number;
+      let etaMinutes: number;
+      const alongRoute = route ? distanceAlongRoute(route, driverPoint, pickup) : null;
+      if (alongRoute !== null) {
+        distanceKm = alongRoute;
+        etaMinutes = estimateETAMinutes(alongRoute);
+      } else {
+        const leg = await routing.route(driverPoint, pickup);
+        distanceKm = leg.distanceKm;
+        etaMinutes = Math.max(1, Math.round(leg.durationMinutes));
+      }
+
+      distanceKm = Math.round(distanceKm * 100) / 100;
+      const eta = new Date(now + etaMinutes * 60_000).toISOString();
+      const notifiedEta = previousByRider.get(row.user_id)?.notifiedEta ?? null;
+      const shifted = etaShifted(notifiedEta, eta);
+      riders.push({
+        riderId: row.user_id,
+        distanceKm,
+        etaMinutes,
+        eta,
+        notifiedEta: shifted ? eta : notifiedEta,
+      });
+
+      if (shifted) {
+        const update = { tripId: trip.id, etaMinutes, eta, distanceKm, previousEta: notifiedEta };
+        eventBus.emit('trip:eta_updated', update, row.user_id);
+        try {
+          await sendPushNotification(env, db as Parameters<typeof sendPushNotification>[1], row.user_id, {
+            title: 'Driver ETA updated',
+            body: `Your driver is about ${etaMinutes} min from your pickup.`,
+            tag: `trip-eta-${trip.id}`,
+            url: `/#/trips/${trip.id}`,
+            data: update,
+          });
+        } catch (err) {
+          logger.warn('ETA push failed (non-critical)', {
+            tripId: trip.id,
+            riderId: row.user_id,
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
+      }
+    }
+
+    const snapshot: TripEtaSnapshot = { tripId: trip.id, updatedAt: new Date(now).toISOString(), riders };
+    await env.CACHE?.put(tripEtaCacheKey(trip.id), JSON.stringify(snapshot), { expirationTtl: ETA_TTL_SECONDS });
+    return snapshot;
+  } catch (err) {
+    logger.warn('ETA update failed (non-critical)', {
+      tripId: trip.id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  }
+}
@@ -12,6 +12,9 @@ export type EventType =
   | 'trip:cancelled'
   | 'trip:completed'
   | 'trip:arrived'
+  | 'trip:boarded'
+  | 'trip:deviation'
+  | 'trip:eta_updated'
   | 'booking:requested'
   | 'booking:accepted'
   | 'booking:cancelled'
@@ -0,0 +1,293 @@
+/**
+ * Klubz - Pooled Fare Splitting
+ *
+ * In a pool, each rider pays for the km they actually spend in the vehicle
+ * instead of the full `price_per_seat`. The pool's ordered stops give the
+ * leg distances; every leg is charged to the riders on board, and legs
+ * shared with at least one other rider get the pooling discount.
+ *
+ * A rider never pays more than the full seat price. Riders travelling on
+ * their own keep paying `price_per_seat`.
+ */
+
+import type { D1Database } from '../types';
+import type { PoolStop } from './matching/types';
+import { haversine } from './matching/geo';
+import { logger } from './logger';
+import { loadRateCard, rateForTripType } from './pricing';
+import type { TripType } from './pricing';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RiderFareShare {
+  riderId: string;
+  /** km between this rider's pickup and drop-off. */
+  inVehicleKm: number;
+  /** Part of `inVehicleKm` shared with at least one other rider. */
+  sharedKm: number;
+  /** In-vehicle km at the trip's per-km rate. */
+  soloFareCents: number;
+  poolingDiscountCents: number;
+  /** Per-seat fare charged to the rider. */
+  fareCents: number;
+}
+
+export interface FareSplitOptions {
+  /** Per-km rate of the trip (cents). */
+  centsPerKm: number;
+  /** Discount (0-0.5) applied to shared km. */
+  poolingDiscount: number;
+  /** Upper bound per rider, normally the full seat price (cents). */
+  maxFareCents?: number;
+}
+
+export interface RiderFareDue {
+  amountCents: number;
+  /** The amount is the rider's pooled share rather than the seat price. */
+  pooled: boolean;
+}
+
+interface TripFareRow {
+  id: number;
+  driver_id: number;
+  price_per_seat: number | null;
+  route_distance_km: number | null;
+  trip_type: TripType | null;
+  organization_id: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Split (pure)
+// ---------------------------------------------------------------------------
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Apportion a pool's cost across its riders by km in the vehicle. Stops
+ * missing `distanceFromPrevKm` fall back to the straight-line leg.
+ */
+export function splitPoolFare(stops: PoolStop[], options: FareSplitOptions): RiderFareShare[] {
+  const onBoard = new Set<string>();
+  const km = new Map<string, { inVehicle: number; shared: number }>();
+  let prev: PoolStop | null = null;
+
+  for (const stop of stops) {
+    const legKm = stop.distanceFromPrevKm ?? (prev ? haversine(prev.location, stop.location) : 0);
+    for (const riderId of onBoard) {
+      const totals = km.get(riderId)!;
+      totals.inVehicle += legKm;
+      if (onBoard.size > 1) totals.shared += legKm;
+    }
+
+    if (stop.type === 'pickup') {
+      onBoard.add(stop.riderId);
+      if (!km.has(stop.riderId)) km.set(stop.riderId, { inVehicle: 0, shared: 0 });
+    } else {
+      onBoard.delete(stop.riderId);
+    }
+    prev = stop;
+  }
+
+  return [...km.entries()].map(([riderId, totals]) => {
+    const soloFareCents = Math.round(totals.inVehicle * options.centsPerKm);
+    const poolingDiscountCents = Math.round(totals.shared * options.centsPerKm * options.poolingDiscount);
+    const fareCents = Math.max(0, soloFareCents - poolingDiscountCents);
+    return {
+      riderId,
+      inVehicleKm: round2(totals.inVehicle),
+      sharedKm: round2(totals.shared),
+      soloFareCents,
+      poolingDiscountCents,
+      fareCents: options.maxFareCents !== undefined ? Math.min(fareCents, options.maxFareCents) : fareCents,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+/**
+ * The driver offer (`driver_trips` row) a booking rides on: the template
+ * occurrence's when the trip was materialised from a template, else the
+ * one the rider booked through, provided it is the trip driver's.
+ */
+export async function bookingDriverTripId(
+  db: D1Database,
+  tripId: number,
+  driverId: number,
+  requested?: string | null,
+): Promise<string | null> {
+  const occurrence = await db
+    .prepare('SELECT driver_trip_id FROM driver_trip_template_occurrences WHERE trip_id = ?')
+    .bind(tripId)
+    .first<{ driver_trip_id: string | null }>();
+  if (occurrence?.driver_trip_id) return occurrence.driver_trip_id;
+  if (!requested) return null;
+
+  const offer = await db
+    .prepare('SELECT id FROM driver_trips WHERE id = ? AND driver_id = ?')
+    .bind(requested, driverId)
+    .first<{ id: string }>();
+  return offer?.id ?? null;
+}
+
+/**
+ * Ordered stops of the pool running on a `trips` row: the driver trip is
+ * the template occurrence's, or else the one its bookings were made on.
+ * The pool is planned before anyone books, so only the stops of riders
+ * with an accepted booking on the trip are kept.
+ */
+async function findTripPoolStops(db: D1Database, trip: TripFareRow): Promise<PoolStop[] | null> {
+  let driverTripId = await bookingDriverTripId(db, trip.id, trip.driver_id);
+  if (!driverTripId) {
+    const booking = await db
+      .prepare(
+        `SELECT driver_trip_id FROM trip_participants
+         WHERE trip_id = ? AND role = 'rider' AND driver_trip_id IS NOT NULL
+         ORDER BY id DESC LIMIT 1`,
+      )
+      .bind(trip.id)
+      .first<{ driver_trip_id: string }>();
+    driverTripId = booking?.driver_trip_id ?? null;
+  }
+  if (!driverTripId) return null;
+
+  const pool = await db
+    .prepare(
+      `SELECT ordered_stops_json FROM pool_assignments
+       WHERE driver_trip_id = ? AND status != 'cancelled'
+       ORDER BY created_at DESC LIMIT 1`,
+    )
+    .bind(driverTripId)
+    .first<{ ordered_stops_json: string }>();
+  if (!pool) return null;
+
+  let stops: PoolStop[];
+  try {
+    const parsed = JSON.parse(pool.ordered_stops_json) as unknown;
+    if (!Array.isArray(parsed)) return null;
+    stops = parsed as PoolStop[];
+  } catch {
+    return null;
+  }
+
+  const accepted = await db
+    .prepare(
+      `SELECT user_id FROM trip_participants
+       WHERE trip_id = ? AND role = 'rider' AND status = 'accepted'`,
+    )
+    .bind(trip.id)
+    .all<{ user_id: number }>();
+  const booked = new Set((accepted.results ?? []).map((row) => String(row.user_id)));
+
+  // Fold a dropped stop's leg into the next stop so the planned km stay on the route
+  const kept: PoolStop[] = [];
+  let carriedKm = 0;
+  for (const stop of stops) {
+    if (!booked.has(String(stop.riderId))) {
+      carriedKm += stop.distanceFromPrevKm ?? 0;
+      continue;
+    }
+    kept.push(stop.distanceFromPrevKm !== undefined && carriedKm > 0
+      ? { ...stop, distanceFromPrevKm: stop.distanceFromPrevKm + carriedKm }
+      : stop);
+    carriedKm = 0;
+  }
+  return kept;
+}
+
+/**
+ * Compute the pooled fare split for a trip and store it on the riders'
+ * `trip_participants` rows whose payment hasn't started. Returns the
+ * shares, or an empty list when the trip isn't pooled or the rider's
+ * organisation charges per seat.
+ */
+export async function applyPoolFareSplit(db: D1Database, tripId: number): Promise<RiderFareShare[]> {
+  const trip = await db
+    .prepare(
+      `SELECT t.id, t.driver_id, t.price_per_seat, t.route_distance_km, t.trip_type,
+              u.organization_id
+       FROM trips t
+       LEFT JOIN users u ON u.id = t.driver_id
+       WHERE t.id = ?`,
+    )
+    .bind(tripId)
+    .first<TripFareRow>();
+  if (!trip || !trip.price_per_seat || trip.price_per_seat <= 0) return [];
+
+  const rateCard = await loadRateCard(db, trip.organization_id);
+  if (rateCard.fareSplitMode !== 'shared_distance') return [];
+
+  const stops = await findTripPoolStops(db, trip);
+  if (!stops) return [];
+  const riders = new Set(stops.filter((s) => s.type === 'pickup').map((s) => s.riderId));
+  if (riders.size < 2) {
+    // Too few riders booked to pool: drop shares stored while more had
+    await db
+      .prepare(
+        `UPDATE trip_participants
+         SET split_fare_cents = NULL, shared_distance_km = NULL, fare_split_json = NULL
+         WHERE trip_id = ? AND role = 'rider' AND split_fare_cents IS NOT NULL
+           AND COALESCE(payment_status, 'unpaid') NOT IN ('pending', 'paid')`,
+      )
+      .bind(tripId)
+      .run();
+    return [];
+  }
+
+  const seatCents = Math.round(trip.price_per_seat * 100);
+  const centsPerKm = trip.route_distance_km && trip.route_distance_km > 0
+    ? seatCents / trip.route_distance_km
+    : rateForTripType(trip.trip_type ?? 'daily', rateCard) * 100;
+
+  const shares = splitPoolFare(stops, {
+    centsPerKm,
+    poolingDiscount: rateCard.poolingDiscount,
+    maxFareCents: seatCents,
+  });
+
+  for (const share of shares) {
+    await db
+      .prepare(
+        `UPDATE trip_participants
+         SET split_fare_cents = ?, shared_distance_km = ?, fare_split_json = ?
+         WHERE trip_id = ? AND user_id = ? AND role = 'rider'
+           AND COALESCE(payment_status, 'unpaid') NOT IN ('pending', 'paid')`,
+      )
+      .bind(share.fareCents, share.sharedKm, JSON.stringify(share), tripId, Number(share.riderId))
+      .run();
+  }
+
+  return shares;
+}
+
+/**
+ * What a rider owes for a booking: their pooled share, refreshed while
+ * the payment hasn't started, else the seat price.
+ */
+export async function riderFareDue(
+  db: D1Database,
+  tripId: number,
+  userId: number,
+  booking: { price_per_seat: number | null; split_fare_cents: number | null; payment_status: string | null },
+): Promise<RiderFareDue> {
+  let splitFareCents = booking.split_fare_cents ?? null;
+  if (booking.payment_status !== 'pending' && booking.payment_status !== 'paid') {
+    try {
+      const shares = await applyPoolFareSplit(db, tripId);
+      // No share means the trip is no longer pooled for this rider
+      splitFareCents = shares.find((share) => share.riderId === String(userId))?.fareCents ?? null;
+    } catch (err: unknown) {
+      logger.warn('Pool fare split failed; charging the seat price', {
+        tripId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return splitFareCents !== null && splitFareCents > 0
+    ? { amountCents: splitFareCents, pooled: true }
+    : { amountCents: Math.round(Number(booking.price_per_seat ?? 0) * 100), pooled: false };
+}
@@ -0,0 +1,210 @@
+/**
+ * Klubz - Instant Booking
+ *
+ * Drivers set auto-accept rules for all their trips or for one trip; a
+ * trip's own rule replaces the driver-wide one. A booking on a trip with an
+ * enabled rule is accepted straight away when the rider meets every
+ * criterion the rule sets, and otherwise waits for the driver as usual.
+ *
+ * A rider's rating is the average of the ratings on their bookings, as on
+ * their public profile; riders without one do not meet a minimum rating.
+ * "Verified" means a verified email address.
+ */
+
+import { z } from 'zod';
+import type { D1Database } from '../types';
+
+/** `trip_id` of a rule covering all of a driver's trips. */
+export const ALL_TRIPS = 0;
+
+export interface InstantBookingRule {
+  /** Null for the driver-wide rule. */
+  tripId: number | null;
+  enabled: boolean;
+  minRiderRating: number | null;
+  sameOrganizationOnly: boolean;
+  verifiedRidersOnly: boolean;
+  /** Completed rides with this driver before; 0 = no requirement. */
+  minPriorRides: number;
+}
+
+export type InstantBookingRuleInput = Omit<InstantBookingRule, 'tripId'>;
+
+interface InstantBookingRuleRow {
+  trip_id: number;
+  enabled: number;
+  min_rider_rating: number | null;
+  same_organization_only: number;
+  verified_riders_only: number;
+  min_prior_rides: number;
+}
+
+interface RiderStandingRow {
+  rider_org: string | null;
+  driver_org: string | null;
+  email_verified: number | null;
+  avg_rating: number | null;
+  prior_rides: number;
+}
+
+export type InstantBookingReason = 'rating' | 'organization' | 'unverified' | 'prior_rides';
+
+export interface InstantBookingDecision {
+  eligible: boolean;
+  /** Criteria the rider does not meet. */
+  unmet: InstantBookingReason[];
+}
+
+export const DEFAULT_INSTANT_BOOKING_RULE: InstantBookingRuleInput = {
+  enabled: false,
+  minRiderRating: null,
+  sameOrganizationOnly: false,
+  verifiedRidersOnly: false,
+  minPriorRides: 0,
+};
+
+/** Body of a rule update; omitted fields keep their current value. */
+export const instantBookingRuleSchema = z.object({
+  enabled: z.boolean(),
+  minRiderRating: z.number().min(1).max(5).nullable(),
+  sameOrganizationOnly: z.boolean(),
+  verifiedRidersOnly: z.boolean(),
+  minPriorRides: z.number().int().min(0).max(100),
+}).partial().strict().refine((value) => Object.keys(value).length > 0, {
+  message: 'Provide at least one instant booking setting to update',
+});
+
+function rowToRule(row: InstantBookingRuleRow): InstantBookingRule {
+  return {
+    tripId: row.trip_id === ALL_TRIPS ? null : row.trip_id,
+    enabled: row.enabled === 1,
+    minRiderRating: row.min_rider_rating,
+    sameOrganizationOnly: row.same_organization_only === 1,
+    verifiedRidersOnly: row.verified_riders_only === 1,
+    minPriorRides: row.min_prior_rides,
+  };
+}
+
+/** A rule's settings without its scope, or the defaults when unset. */
+export function ruleSettings(rule: InstantBookingRule | null): InstantBookingRuleInput {
+  if (!rule) return { ...DEFAULT_INSTANT_BOOKING_RULE };
+  const { enabled, minRiderRating, sameOrganizationOnly, verifiedRidersOnly, minPriorRides } = rule;
+  return { enabled, minRiderRating, sameOrganizationOnly, verifiedRidersOnly, minPriorRides };
+}
+
+/** The driver's own rule for `tripId` (or the driver-wide rule), if set. */
+export async function getInstantBookingRule(
+  db: D1Database,
+  driverId: number,
+  tripId: number = ALL_TRIPS,
+): Promise<InstantBookingRule | null> {
+  const row = await db
+    .prepare(`
+      SELECT trip_id, enabled, min_rider_rating, same_organization_only, verified_riders_only, min_prior_rides
+      FROM instant_booking_rules
+      WHERE driver_id = ? AND trip_id = ?
+    `)
+    .bind(driverId, tripId)
+    .first<InstantBookingRuleRow>();
+  return row ? rowToRule(row) : null;
+}
+
+/** The rule in force for a trip: its own rule, else the driver-wide one. */
+export async function effectiveInstantBookingRule(
+  db: D1Database,
+  driverId: number,
+  tripId: number,
+): Promise<InstantBookingRule | null> {
+  const row = await db
+    .prepare(`
+      SELECT trip_id, enabled, min_rider_rating, same_organization_only, verified_riders_only, min_prior_rides
+      FROM instant_booking_rules
+      WHERE driver_id = ? AND trip_id IN (?, ${ALL_TRIPS})
+      ORDER BY trip_id DESC
+      LIMIT 1
+    `)
+    .bind(driverId, tripId)
+    .first<InstantBookingRuleRow>();
+  return row ? rowToRule(row) : null;
+}
+
+export async function upsertInstantBookingRule(
+  db: D1Database,
+  driverId: number,
+  tripId: number,
+  rule: InstantBookingRuleInput,
+): Promise<InstantBookingRule> {
+  await db
+    .prepare(`
+      INSERT INTO instant_booking_rules (
+        driver_id, trip_id, enabled, min_rider_rating, same_organization_only, verified_riders_only, min_prior_rides
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(driver_id, trip_id) DO UPDATE SET
+        enabled = excluded.enabled,
+        min_rider_rating = excluded.min_rider_rating,
+        same_organization_only = excluded.same_organization_only,
+        verified_riders_only = excluded.verified_riders_only,
+        min_prior_rides = excluded.min_prior_rides,
+        updated_at = CURRENT_TIMESTAMP
+    `)
+    .bind(
+      driverId,
+      tripId,
+      rule.enabled ? 1 : 0,
+      rule.minRiderRating,
+      rule.sameOrganizationOnly ? 1 : 0,
+      rule.verifiedRidersOnly ? 1 : 0,
+      rule.minPriorRides,
+    )
+    .run();
+  return { tripId: tripId === ALL_TRIPS ? null : tripId, ...rule };
+}
+
+export async function deleteInstantBookingRule(db: D1Database, driverId: number, tripId: number): Promise<void> {
+  await db
+    .prepare('DELETE FROM instant_booking_rules WHERE driver_id = ? AND trip_id = ?')
+    .bind(driverId, tripId)
+    .run();
+}
+
+/** Whether `riderId` meets every criterion of an enabled `rule`. */
+export async function evaluateInstantBooking(
+  db: D1Database,
+  rule: InstantBookingRule | null,
+  driverId: number,
+  riderId: number,
+): Promise<InstantBookingDecision> {
+  if (!rule?.enabled) return { eligible: false, unmet: [] };
+
+  const standing = await db
+    .prepare(`
+      SELECT r.organization_id AS rider_org,
+             d.organization_id AS driver_org,
+             r.email_verified,
+             (SELECT AVG(rating) FROM trip_participants WHERE user_id = r.id AND rating IS NOT NULL) AS avg_rating,
+             (
+               SELECT COUNT(*) FROM trip_participants p
+               JOIN trips t ON t.id = p.trip_id
+               WHERE p.user_id = r.id AND p.role = 'rider' AND p.status = 'completed' AND t.driver_id = d.id
+             ) AS prior_rides
+      FROM users r, users d
+      WHERE r.id = ? AND d.id = ?
+    `)
+    .bind(riderId, driverId)
+    .first<RiderStandingRow>();
+
+  const unmet: InstantBookingReason[] = [];
+  if (rule.minRiderRating !== null && !(standing?.avg_rating != null && standing.avg_rating >= rule.minRiderRating)) {
+    unmet.push('rating');
+  }
+  if (rule.sameOrganizationOnly && !(standing?.rider_org && standing.rider_org === standing.driver_org)) {
+    unmet.push('organization');
+  }
+  if (rule.verifiedRidersOnly && !standing?.email_verified) {
+    unmet.push('unverified');
+  }
+  if (rule.minPriorRides > 0 && Number(standing?.prior_rides ?? 0) < rule.minPriorRides) {
+    unmet.push('prior_rides');
+  }
+  return { eligible: unmet.length === 0, unmet };
+}
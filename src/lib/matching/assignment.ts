@@ -0,0 +1,142 @@
+/**
+ * Klubz Smart Trip Pooling - Global Rider/Driver Assignment
+ *
+ * Solves the many-to-many assignment between riders and drivers as a
+ * min-cost flow:
+ *
+ *   source ──1──▶ rider ──1, cost──▶ driver ──capacity──▶ sink
+ *
+ * Each rider → driver edge costs `score − riderReward`, where `riderReward`
+ * exceeds the sum of all scores. Every augmenting path therefore has a
+ * negative cost until no further rider can be placed, so the solution
+ * first maximises the number of matched riders and then minimises the
+ * total match score among assignments of that size.
+ *
+ * Flow is pushed one unit at a time along the cheapest residual path
+ * (successive shortest paths with Bellman-Ford, since edge costs are
+ * negative). Scores are scaled to integers so comparisons are exact.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AssignmentEdge {
+  riderId: string;
+  driverTripId: string;
+  /** Composite match score (lower = better). */
+  score: number;
+}
+
+interface FlowEdge {
+  to: number;
+  cap: number;
+  cost: number;
+  /** Index of the reverse edge in `edges`. */
+  rev: number;
+}
+
+/** Score resolution used when converting to integer costs. */
+const SCORE_SCALE = 1_000_000;
+
+// ---------------------------------------------------------------------------
+// Solver
+// ---------------------------------------------------------------------------
+
+/**
+ * Assign riders to drivers globally.
+ *
+ * @param edges       Feasible rider → driver pairs with their match score
+ * @param capacities  Map of driverTripId → number of riders it can take
+ * @returns Map of riderId → assigned driverTripId (unassigned riders omitted)
+ */
+export function solveGlobalAssignment(
+  edges: AssignmentEdge[],
+  capacities: Map<string, number>,
+): Map<string, string> {
+  const riderIds = [...new Set(edges.map((e) => e.riderId))];
+  const driverIds = [...capacities.keys()].filter((id) => (capacities.get(id) ?? 0) > 0);
+
+  const riderNode = new Map(riderIds.map((id, i) => [id, 1 + i]));
+  const driverNode = new Map(driverIds.map((id, i) => [id, 1 + riderIds.length + i]));
+  const source = 0;
+  const sink = 1 + riderIds.length + driverIds.length;
+  const nodeCount = sink + 1;
+
+  const graph: FlowEdge[][] = Array.from({ length: nodeCount }, () => []);
+  const addEdge = (from: number, to: number, cap: number, cost: number): void => {
+    graph[from].push({ to, cap, cost, rev: graph[to].length });
+    graph[to].push({ to: from, cap: 0, cost: -cost, rev: graph[from].length - 1 });
+  };
+
+  const scaled = (score: number) => Math.round(score * SCORE_SCALE);
+  const riderReward =
+    edges.reduce((sum, e) => sum + Math.abs(scaled(e.score)), 0) + SCORE_SCALE;
+
+  for (const node of riderNode.values()) addEdge(source, node, 1, 0);
+  for (const [id, node] of driverNode) addEdge(node, sink, capacities.get(id)!, 0);
+
+  // Keep the best score per pair if duplicates were supplied
+  const bestPair = new Map<string, AssignmentEdge>();
+  for (const edge of edges) {
+    if (!driverNode.has(edge.driverTripId)) continue;
+    const key = `${edge.riderId}\u0000${edge.driverTripId}`;
+    const existing = bestPair.get(key);
+    if (!existing || edge.score < existing.score) bestPair.set(key, edge);
+  }
+  for (const edge of bestPair.values()) {
+    addEdge(
+      riderNode.get(edge.riderId)!,
+      driverNode.get(edge.driverTripId)!,
+      1,
+      scaled(edge.score) - riderReward,
+    );
+  }
+
+  // Successive shortest paths
+  for (;;) {
+    const dist = new Array<number>(nodeCount).fill(Infinity);
+    const prevNode = new Array<number>(nodeCount).fill(-1);
+    const prevEdge = new Array<number>(nodeCount).fill(-1);
+    const inQueue = new Array<boolean>(nodeCount).fill(false);
+    const queue: number[] = [source];
+    dist[source] = 0;
+    inQueue[source] = true;
+
+    while (queue.length > 0) {
+      const u = queue.shift()!;
+      inQueue[u] = false;
+      graph[u].forEach((e, i) => {
+        if (e.cap <= 0 || dist[u] + e.cost >= dist[e.to]) return;
+        dist[e.to] = dist[u] + e.cost;
+        prevNode[e.to] = u;
+        prevEdge[e.to] = i;
+        if (!inQueue[e.to]) {
+          inQueue[e.to] = true;
+          queue.push(e.to);
+        }
+      });
+    }
+
+    // Stop once no path exists or it would no longer improve the objective
+    if (dist[sink] === Infinity || dist[sink] >= 0) break;
+
+    for (let v = sink; v !== source; v = prevNode[v]) {
+      const edge = graph[prevNode[v]][prevEdge[v]];
+      edge.cap -= 1;
+      graph[v][edge.rev].cap += 1;
+    }
+  }
+
+  // Read the assignment off the saturated rider → driver edges
+  const assignment = new Map<string, string>();
+  for (const [riderId, node] of riderNode) {
+    for (const edge of graph[node]) {
+      if (edge.to === source || edge.cap > 0) continue;
+      const driverTripId = driverIds[edge.to - 1 - riderIds.length];
+      if (driverTripId !== undefined) assignment.set(riderId, driverTripId);
+    }
+  }
+
+  return assignment;
+}
@@ -14,6 +14,11 @@
  *   - Allocation-light (no external dependencies, edge-safe)
  *   - Tunable via MatchConfig weights and thresholds
  *   - Extensible (preferences, rating bias, gender filter, etc.)
+ *
+ * Rider preferences (`genderPreference`, `minDriverRating`) are hard
+ * constraints: a driver whose attribute is unknown does not satisfy them.
+ * Candidates removed this way are reported as `excluded` so the rider can
+ * see why a nearby trip was not offered.
  */
 
 import type {
@@ -23,6 +28,8 @@ import type {
   MatchConfig,
   ScoreBreakdown,
   GeoPoint,
+  PreferenceExclusion,
+  PreferenceExclusionReason,
 } from './types';
 import { DEFAULT_MATCH_CONFIG } from './types';
 import {
@@ -34,6 +41,8 @@ import {
   estimateDetourMinutes,
   estimateCarbonSavedKg,
 } from './geo';
+import type { DistanceFn } from './geo';
+import { seatsAvailableForJourney } from './segments';
 
 // ---------------------------------------------------------------------------
 // Explanation builder
@@ -66,9 +75,27 @@ function buildExplanation(b: ScoreBreakdown, score: number): string {
     parts.push(`~${b.detourDistanceKm.toFixed(1)} km detour`);
   }
 
+  if (b.preferencesMet && b.preferencesMet.length > 0) {
+    parts.push('meets your driver preferences');
+  }
+
   return parts.join('; ') + ` (score: ${score.toFixed(3)})`;
 }
 
+function buildExclusionExplanation(
+  reason: PreferenceExclusionReason,
+  rider: RiderRequest,
+): string {
+  switch (reason) {
+    case 'gender_preference_not_met':
+      return `excluded: driver does not meet your ${rider.preferences?.genderPreference} driver preference`;
+    case 'driver_rating_too_low':
+      return `excluded: driver rating is below your minimum of ${rider.preferences?.minDriverRating}`;
+    case 'driver_rating_unknown':
+      return `excluded: driver has no rating yet (you require at least ${rider.preferences?.minDriverRating})`;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Phase 1 - Hard Filters
 // ---------------------------------------------------------------------------
@@ -76,6 +103,44 @@ function buildExplanation(b: ScoreBreakdown, score: number): string {
 interface Phase1Result {
   passed: boolean;
   reason?: string;
+  /** Set when the candidate failed a rider preference rather than a system filter. */
+  preferenceReason?: PreferenceExclusionReason;
+}
+
+/**
+ * Rider preference constraints. A driver who hasn't shared their gender
+ * never satisfies a gender preference, and an unrated driver never
+ * satisfies a minimum rating.
+ */
+function checkRiderPreferences(
+  rider: RiderRequest,
+  driver: DriverTrip,
+): PreferenceExclusionReason | null {
+  const prefs = rider.preferences;
+  if (!prefs) return null;
+
+  if (
+    prefs.genderPreference &&
+    prefs.genderPreference !== 'any' &&
+    driver.driverGender !== prefs.genderPreference
+  ) {
+    return 'gender_preference_not_met';
+  }
+
+  if (prefs.minDriverRating !== undefined) {
+    if (driver.driverRating === undefined) return 'driver_rating_unknown';
+    if (driver.driverRating < prefs.minDriverRating) return 'driver_rating_too_low';
+  }
+
+  return null;
+}
+
+function preferencesMet(rider: RiderRequest): ScoreBreakdown['preferencesMet'] {
+  const met: NonNullable<ScoreBreakdown['preferencesMet']> = [];
+  const prefs = rider.preferences;
+  if (prefs?.genderPreference && prefs.genderPreference !== 'any') met.push('genderPreference');
+  if (prefs?.minDriverRating !== undefined) met.push('minDriverRating');
+  return met.length > 0 ? met : undefined;
 }
 
 function applyHardFilters(
@@ -83,11 +148,12 @@ function applyHardFilters(
   driver: DriverTrip,
   config: MatchConfig,
 ): Phase1Result {
-  // 1. Seats
-  if (driver.availableSeats <= 0) {
+  // 1. Seats (on the legs the rider would ride, for multi-stop trips)
+  const seats = seatsAvailableForJourney(driver, rider.pickup, rider.dropoff);
+  if (seats <= 0) {
     return { passed: false, reason: 'no_seats' };
   }
-  if (driver.availableSeats < rider.seatsNeeded) {
+  if (seats < rider.seatsNeeded) {
     return { passed: false, reason: 'insufficient_seats' };
   }
 
@@ -113,16 +179,7 @@ function applyHardFilters(
     return { passed: false, reason: 'organization_mismatch' };
   }
 
-  // 5. Driver rating preference
-  if (
-    rider.preferences?.minDriverRating &&
-    driver.driverRating !== undefined &&
-    driver.driverRating < rider.preferences.minDriverRating
-  ) {
-    return { passed: false, reason: 'driver_rating_too_low' };
-  }
-
-  // 6. Bounding-box quick-reject (if driver has a pre-computed bbox)
+  // 5. Bounding-box quick-reject (if driver has a pre-computed bbox)
   if (driver.boundingBox) {
     const padded = padBoundingBox(
       driver.boundingBox,
@@ -135,6 +192,13 @@ function applyHardFilters(
     }
   }
 
+  // 6. Rider preferences (checked last so exclusions only list trips that
+  //    would otherwise have been candidates)
+  const preferenceReason = checkRiderPreferences(rider, driver);
+  if (preferenceReason) {
+    return { passed: false, reason: preferenceReason, preferenceReason };
+  }
+
   return { passed: true };
 }
 
@@ -155,6 +219,7 @@ function checkRouteCompatibility(
   rider: RiderRequest,
   driver: DriverTrip,
   config: MatchConfig,
+  distance?: DistanceFn,
 ): Phase2Result {
   const result: Phase2Result = {
     passed: false,
@@ -203,7 +268,7 @@ function checkRouteCompatibility(
 
   // Absolute detour hard filter: always enforced — no driver goes > maxAbsoluteDetourKm
   // off their route corridor, whether or not a detailed polyline is stored.
-  const detourKm = estimateDetourKm(rider.pickup, rider.dropoff, effectiveRoute);
+  const detourKm = estimateDetourKm(rider.pickup, rider.dropoff, effectiveRoute, distance);
   if (detourKm > config.thresholds.maxAbsoluteDetourKm) {
     result.reason = 'detour_exceeds_max';
     return result;
@@ -222,6 +287,7 @@ function computeScore(
   driver: DriverTrip,
   phase2: Phase2Result,
   config: MatchConfig,
+  distance?: DistanceFn,
 ): { score: number; breakdown: ScoreBreakdown } {
   const w = config.weights;
   const t = config.thresholds;
@@ -260,7 +326,7 @@ function computeScore(
     driver.routePolyline && driver.routePolyline.length >= 2
       ? driver.routePolyline
       : [driver.departure, driver.destination];
-  const detourKm = estimateDetourKm(rider.pickup, rider.dropoff, effectiveRoute);
+  const detourKm = estimateDetourKm(rider.pickup, rider.dropoff, effectiveRoute, distance);
   const detourScore = Math.min(detourKm / t.maxAbsoluteDetourKm, 1);
 
   // --- Driver rating score (lower = better driver = lower score) ---
@@ -270,6 +336,11 @@ function computeScore(
     ratingScore = Math.max(0, (5 - driver.driverRating) / 5);
   }
 
+  // --- Driver reliability score (100 → 0, never-reliable → 1) ---
+  const reliabilityScore = driver.driverReliability !== undefined
+    ? Math.min(Math.max((100 - driver.driverReliability) / 100, 0), 1)
+    : 0;
+
   // --- Composite weighted score ---
   const score =
     pickupScore * w.pickupDistance +
@@ -278,7 +349,8 @@ function computeScore(
     seatScore * w.seatAvailability +
     shiftScore * w.shiftAlignment +
     detourScore * w.detourCost +
-    ratingScore * w.driverRating;
+    ratingScore * w.driverRating +
+    reliabilityScore * (w.driverReliability ?? 0);
 
   const breakdown: ScoreBreakdown = {
     pickupDistanceKm: phase2.pickupDistanceKm,
@@ -292,6 +364,8 @@ function computeScore(
     detourDistanceKm: detourKm,
     detourScore,
     ratingScore,
+    reliabilityScore,
+    preferencesMet: preferencesMet(rider),
   };
 
   return { score, breakdown };
@@ -303,6 +377,7 @@ function computeScore(
 
 export interface MatchingStats {
   candidatesTotal: number;
+  excludedByPreference: number;
   passedPhase1: number;
   passedPhase2: number;
   matchesReturned: number;
@@ -313,18 +388,23 @@ export interface MatchingStats {
  * Match a single rider request against a list of candidate driver trips.
  *
  * Returns matches sorted by score (lower = better), limited to
- * `config.maxResults`.
+ * `config.maxResults`, plus the candidates excluded by rider preferences.
  *
  * Designed to be called inside a Hono handler or Cloudflare Worker fetch.
+ *
+ * `distance` optionally replaces haversine in detour estimation with
+ * prefetched road distances (see `prefetchMatchDistances`).
  */
 export function matchRiderToDrivers(
   rider: RiderRequest,
   drivers: DriverTrip[],
   config: MatchConfig = DEFAULT_MATCH_CONFIG,
-): { matches: MatchResult[]; stats: MatchingStats } {
+  distance?: DistanceFn,
+): { matches: MatchResult[]; stats: MatchingStats; excluded: PreferenceExclusion[] } {
   const t0 = Date.now();
   const stats: MatchingStats = {
     candidatesTotal: drivers.length,
+    excludedByPreference: 0,
     passedPhase1: 0,
     passedPhase2: 0,
     matchesReturned: 0,
@@ -332,20 +412,31 @@ export function matchRiderToDrivers(
   };
 
   const results: MatchResult[] = [];
+  const excluded: PreferenceExclusion[] = [];
 
   for (const driver of drivers) {
     // --- Phase 1: Hard Filters ---
     const p1 = applyHardFilters(rider, driver, config);
-    if (!p1.passed) continue;
+    if (!p1.passed) {
+      if (p1.preferenceReason) {
+        stats.excludedByPreference++;
+        excluded.push({
+          driverTripId: driver.id,
+          reason: p1.preferenceReason,
+          explanation: buildExclusionExplanation(p1.preferenceReason, rider),
+        });
+      }
+      continue;
+    }
     stats.passedPhase1++;
 
     // --- Phase 2: Route Compatibility ---
-    const p2 = checkRouteCompatibility(rider, driver, config);
+    const p2 = checkRouteCompatibility(rider, driver, config, distance);
     if (!p2.passed) continue;
     stats.passedPhase2++;
 
     // --- Phase 3: Scoring ---
-    const { score, breakdown } = computeScore(rider, driver, p2, config);
+    const { score, breakdown } = computeScore(rider, driver, p2, config, distance);
 
     // Detour budget check (if configured)
     const detourMin = estimateDetourMinutes(breakdown.detourDistanceKm ?? 0);
@@ -381,7 +472,7 @@ export function matchRiderToDrivers(
   stats.matchesReturned = limited.length;
   stats.executionTimeMs = Date.now() - t0;
 
-  return { matches: limited, stats };
+  return { matches: limited, stats, excluded };
 }
 
 /**
@@ -392,11 +483,12 @@ export function batchMatchRiders(
   riders: RiderRequest[],
   drivers: DriverTrip[],
   config: MatchConfig = DEFAULT_MATCH_CONFIG,
-): Map<string, { matches: MatchResult[]; stats: MatchingStats }> {
-  const resultMap = new Map<string, { matches: MatchResult[]; stats: MatchingStats }>();
+  distance?: DistanceFn,
+): Map<string, ReturnType<typeof matchRiderToDrivers>> {
+  const resultMap = new Map<string, ReturnType<typeof matchRiderToDrivers>>();
 
   for (const rider of riders) {
-    resultMap.set(rider.id, matchRiderToDrivers(rider, drivers, config));
+    resultMap.set(rider.id, matchRiderToDrivers(rider, drivers, config, distance));
   }
 
   return resultMap;
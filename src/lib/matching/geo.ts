@@ -34,6 +34,12 @@ const CO2_PER_KM_SINGLE = 0.21;
 // Core Distance Functions
 // ---------------------------------------------------------------------------
 
+/**
+ * Point-to-point distance function (km). Defaults to `haversine`; a
+ * road-network lookup (see `buildDistanceTable`) can be passed instead.
+ */
+export type DistanceFn = (a: GeoPoint, b: GeoPoint) => number;
+
 /**
  * Convert degrees to radians.
  */
@@ -269,14 +275,21 @@ export function isPickupBeforeDropoff(
  *          - dist(route_nearest_to_pickup, route_nearest_to_dropoff)  // original segment
  *
  * This is an approximation — real detour requires re-routing.
+ *
+ * When a road `distance` function is supplied, the diversion is measured
+ * between route vertices instead of perpendicular to the segments:
+ *   detour = road(A, pickup) + road(pickup, dropoff) + road(dropoff, B) - road(A, B)
+ * where A is the start of the pickup's nearest segment and B the end of the
+ * dropoff's nearest segment.
  */
 export function estimateDetourKm(
   pickup: GeoPoint,
   dropoff: GeoPoint,
   route: GeoPoint[],
+  distance?: DistanceFn,
 ): number {
   if (route.length < 2) {
-    return haversine(pickup, dropoff);
+    return (distance ?? haversine)(pickup, dropoff);
   }
 
   const { distance: pickupDist, segmentIndex: pickIdx } =
@@ -284,6 +297,14 @@ export function estimateDetourKm(
   const { distance: dropoffDist, segmentIndex: dropIdx } =
     minDistanceToRoute(dropoff, route);
 
+  if (distance) {
+    const [from, to] = roadDetourAnchors(route, pickIdx, dropIdx);
+    return Math.max(
+      0,
+      distance(from, pickup) + distance(pickup, dropoff) + distance(dropoff, to) - distance(from, to),
+    );
+  }
+
   // Distance along the original route between the two nearest segments
   let originalDist = 0;
   const startIdx = Math.min(pickIdx, dropIdx);
@@ -299,6 +320,20 @@ export function estimateDetourKm(
   return Math.max(0, detourPath - originalDist);
 }
 
+/**
+ * Route vertices a road-based detour leaves from and rejoins at.
+ * Exported so callers can prefetch exactly these distance pairs.
+ */
+export function roadDetourAnchors(
+  route: GeoPoint[],
+  pickupSegmentIndex: number,
+  dropoffSegmentIndex: number,
+): [GeoPoint, GeoPoint] {
+  const startIdx = Math.min(pickupSegmentIndex, dropoffSegmentIndex);
+  const endIdx = Math.min(Math.max(pickupSegmentIndex, dropoffSegmentIndex) + 1, route.length - 1);
+  return [route[startIdx], route[endIdx]];
+}
+
 /**
  * Estimate the time cost of a detour in minutes, assuming an average
  * urban speed of 30 km/h.
@@ -331,6 +366,7 @@ export function estimateDetourMinutes(
  * @param newPickup         New rider's pickup location
  * @param newDropoff        New rider's dropoff location
  * @param existingStops     Already-accepted pool stops in route order
+ * @param distance          Point-to-point distance (default: haversine)
  * @returns Additional km the driver travels to serve this rider given the
  *          current pool state (marginal cost, not total route length).
  */
@@ -340,6 +376,7 @@ export function computeMarginalDetourKm(
   newPickup: GeoPoint,
   newDropoff: GeoPoint,
   existingStops: Array<{ location: GeoPoint }>,
+  distance: DistanceFn = haversine,
 ): number {
   // Build the current waypoint sequence: departure → stops → destination
   const waypoints: GeoPoint[] = [
@@ -356,9 +393,9 @@ export function computeMarginalDetourKm(
     const prev = waypoints[i - 1];
     const next = waypoints[i];
     const cost =
-      haversine(prev, newPickup) +
-      haversine(newPickup, next) -
-      haversine(prev, next);
+      distance(prev, newPickup) +
+      distance(newPickup, next) -
+      distance(prev, next);
     if (cost < minPickupCost) {
       minPickupCost = cost;
       bestPickupIdx = i;
@@ -379,9 +416,9 @@ export function computeMarginalDetourKm(
     const prev = withPickup[i - 1];
     const next = withPickup[i];
     const cost =
-      haversine(prev, newDropoff) +
-      haversine(newDropoff, next) -
-      haversine(prev, next);
+      distance(prev, newDropoff) +
+      distance(newDropoff, next) -
+      distance(prev, next);
     if (cost < minDropoffCost) {
       minDropoffCost = cost;
     }
@@ -389,7 +426,7 @@ export function computeMarginalDetourKm(
 
   // Guard: both costs must be finite (degenerate input guard)
   if (!isFinite(minPickupCost) || !isFinite(minDropoffCost)) {
-    return haversine(newPickup, newDropoff); // conservative fallback
+    return distance(newPickup, newDropoff); // conservative fallback
   }
 
   return Math.max(0, minPickupCost + minDropoffCost);
@@ -422,10 +459,12 @@ export function estimateCarbonSavedKg(
 
 /**
  * Decode a Google-encoded polyline string into an array of GeoPoints.
+ * Pass `precision = 6` for Mapbox `polyline6` geometries.
  *
  * Reference: https://developers.google.com/maps/documentation/utilities/polylinealgorithm
  */
-export function decodePolyline(encoded: string): GeoPoint[] {
+export function decodePolyline(encoded: string, precision = 5): GeoPoint[] {
+  const factor = 10 ** precision;
   const points: GeoPoint[] = [];
   let index = 0;
   let lat = 0;
@@ -455,7 +494,7 @@ export function decodePolyline(encoded: string): GeoPoint[] {
     } while (byte >= 0x20);
     lng += result & 1 ? ~(result >> 1) : result >> 1;
 
-    points.push({ lat: lat / 1e5, lng: lng / 1e5 });
+    points.push({ lat: lat / factor, lng: lng / factor });
   }
 
   return points;
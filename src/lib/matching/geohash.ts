@@ -0,0 +1,180 @@
+/**
+ * Klubz Smart Trip Pooling - Geohash Cell Index
+ *
+ * Driver routes are indexed by the geohash cells their polyline passes
+ * through so candidate lookup can hit a handful of cells instead of
+ * scanning every trip whose bounding box overlaps the rider.
+ *
+ * Precision 5 cells are ~4.9 km × 4.9 km at the equator (~4.0 km wide at
+ * Cape Town's latitude). Lookups expand around the rider's pickup and
+ * dropoff by enough rings of cells to cover the allowed walking distance,
+ * which for the default `maxPickupDistanceKm` is the 8 direct neighbours.
+ */
+
+import type { GeoPoint } from './types';
+import { haversine } from './geo';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Geohash precision used for the driver route index. */
+export const ROUTE_CELL_PRECISION = 5;
+
+/** Max spacing between sampled route points (km); well under a cell width. */
+const ROUTE_SAMPLE_STEP_KM = 1;
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+/** Approximate km per degree of latitude. */
+const KM_PER_DEGREE = 111.32;
+
+// ---------------------------------------------------------------------------
+// Encoding
+// ---------------------------------------------------------------------------
+
+/**
+ * Encode a point as a geohash string of the given precision.
+ */
+export function encodeGeohash(point: GeoPoint, precision = ROUTE_CELL_PRECISION): string {
+  let latMin = -90;
+  let latMax = 90;
+  let lngMin = -180;
+  let lngMax = 180;
+  let hash = '';
+  let bits = 0;
+  let bitCount = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lngMin + lngMax) / 2;
+      if (point.lng >= mid) {
+        bits = (bits << 1) | 1;
+        lngMin = mid;
+      } else {
+        bits <<= 1;
+        lngMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (point.lat >= mid) {
+        bits = (bits << 1) | 1;
+        latMin = mid;
+      } else {
+        bits <<= 1;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bitCount === 5) {
+      hash += BASE32[bits];
+      bits = 0;
+      bitCount = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Bounding box of a geohash cell.
+ */
+export function geohashBounds(hash: string): {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+} {
+  let latMin = -90;
+  let latMax = 90;
+  let lngMin = -180;
+  let lngMax = 180;
+  let evenBit = true;
+
+  for (const char of hash) {
+    const idx = BASE32.indexOf(char);
+    if (idx === -1) throw new Error(`Invalid geohash character: ${char}`);
+    for (let n = 4; n >= 0; n--) {
+      const bit = (idx >> n) & 1;
+      if (evenBit) {
+        const mid = (lngMin + lngMax) / 2;
+        if (bit) lngMin = mid;
+        else lngMax = mid;
+      } else {
+        const mid = (latMin + latMax) / 2;
+        if (bit) latMin = mid;
+        else latMax = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  return { minLat: latMin, maxLat: latMax, minLng: lngMin, maxLng: lngMax };
+}
+
+/**
+ * Cells covering every point within `radiusKm` of `point`: the point's own
+ * cell plus as many rings of neighbours as the radius needs (at least one).
+ */
+export function geohashCellsWithin(
+  point: GeoPoint,
+  radiusKm: number,
+  precision = ROUTE_CELL_PRECISION,
+): string[] {
+  const center = encodeGeohash(point, precision);
+  const bounds = geohashBounds(center);
+  const latStep = bounds.maxLat - bounds.minLat;
+  const lngStep = bounds.maxLng - bounds.minLng;
+  const midLat = (bounds.minLat + bounds.maxLat) / 2;
+  const midLng = (bounds.minLng + bounds.maxLng) / 2;
+
+  const cellHeightKm = latStep * KM_PER_DEGREE;
+  const cellWidthKm = lngStep * KM_PER_DEGREE * Math.max(Math.cos((midLat * Math.PI) / 180), 0.01);
+  const latRings = Math.max(1, Math.ceil(radiusKm / cellHeightKm));
+  const lngRings = Math.max(1, Math.ceil(radiusKm / cellWidthKm));
+
+  const cells = new Set<string>();
+  for (let dLat = -latRings; dLat <= latRings; dLat++) {
+    const lat = midLat + dLat * latStep;
+    if (lat < -90 || lat > 90) continue;
+    for (let dLng = -lngRings; dLng <= lngRings; dLng++) {
+      let lng = midLng + dLng * lngStep;
+      if (lng < -180) lng += 360;
+      if (lng > 180) lng -= 360;
+      cells.add(encodeGeohash({ lat, lng }, precision));
+    }
+  }
+  return [...cells];
+}
+
+// ---------------------------------------------------------------------------
+// Route indexing
+// ---------------------------------------------------------------------------
+
+/**
+ * All cells a route polyline passes through. Long segments are sampled
+ * every `ROUTE_SAMPLE_STEP_KM`; at most a corner of a crossed cell can be
+ * missed, which the neighbour rings of `geohashCellsWithin` absorb.
+ */
+export function routeCells(route: GeoPoint[], precision = ROUTE_CELL_PRECISION): string[] {
+  const cells = new Set<string>();
+  if (route.length === 0) return [];
+
+  cells.add(encodeGeohash(route[0], precision));
+  for (let i = 1; i < route.length; i++) {
+    const a = route[i - 1];
+    const b = route[i];
+    const steps = Math.max(1, Math.ceil(haversine(a, b) / ROUTE_SAMPLE_STEP_KM));
+    for (let s = 1; s <= steps; s++) {
+      const t = s / steps;
+      cells.add(encodeGeohash(
+        { lat: a.lat + (b.lat - a.lat) * t, lng: a.lng + (b.lng - a.lng) * t },
+        precision,
+      ));
+    }
+  }
+
+  return [...cells];
+}
@@ -17,11 +17,18 @@ export type {
   RiderPreferences,
   MatchResult,
   ScoreBreakdown,
+  PreferenceExclusion,
+  PreferenceExclusionReason,
   PoolAssignment,
   PoolStop,
+  PoolRider,
+  PoolRiderTiming,
   MatchWeights,
   MatchThresholds,
   MatchConfig,
+  MatchConfigOverrides,
+  PoolSolver,
+  AssignmentStrategy,
   FindMatchesRequest,
   FindMatchesResponse,
   CreateDriverTripRequest,
@@ -51,7 +58,9 @@ export {
   decodePolyline,
   encodePolyline,
   simplifyPolyline,
+  roadDetourAnchors,
 } from './geo';
+export type { DistanceFn } from './geo';
 
 // Matching engine
 export {
@@ -67,5 +76,57 @@ export {
   assignRidersToDrivers,
 } from './optimizer';
 
+// Global rider/driver assignment
+export { solveGlobalAssignment } from './assignment';
+export type { AssignmentEdge } from './assignment';
+
+// Stop sequencing with time windows
+export {
+  sequencePoolStops,
+  simulateStopSequence,
+} from './sequencer';
+export type { SequencerOptions, SequencedPool } from './sequencer';
+
+// Road distance prefetch
+export { prefetchMatchDistances, prefetchPoolDistances } from './roadDistances';
+
+// Config simulation / replay
+export {
+  simulateMatching,
+  compareMatchConfigs,
+  applyMatchConfigOverrides,
+  diffMatchConfigs,
+} from './simulation';
+export type {
+  SimulationMetrics,
+  SimulationMetricsDiff,
+  SimulationComparison,
+  MatchConfigChange,
+} from './simulation';
+
+// Geohash cell index
+export {
+  ROUTE_CELL_PRECISION,
+  encodeGeohash,
+  geohashBounds,
+  geohashCellsWithin,
+  routeCells,
+} from './geohash';
+
+// Multi-stop trip legs and segment seat accounting
+export {
+  MAX_TRIP_WAYPOINTS,
+  tripStops,
+  tripRoute,
+  legCount,
+  legsForJourney,
+  journeyInterval,
+  peakOccupancy,
+  holdForJourney,
+  freeSeatsPerLeg,
+  seatsAvailableForJourney,
+} from './segments';
+export type { LegRange, SeatHold, SeatInterval, JourneyHold } from './segments';
+
 // D1 repository
 export { MatchingRepository } from './repository';
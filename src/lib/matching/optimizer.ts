@@ -3,17 +3,22 @@
  *
  * Given a driver trip and a set of candidate rider matches, find the
  * optimal combination of riders that:
- *   1. Fits within the driver's available seats
+ *   1. Fits within the driver's seats at every point of the route (a rider
+ *      only occupies a seat between their pickup and dropoff)
  *   2. Stays within the maximum detour budget
  *   3. Maximises pooling efficiency (best aggregate score)
- *   4. Produces a sensible stop ordering
+ *   4. Produces a stop ordering that honours every rider's pickup window
+ *      and drop-off deadline (see `sequencer.ts`)
  *
- * The optimizer uses a greedy heuristic with look-ahead pruning,
- * suitable for real-time execution on edge workers.
+ * Two solvers are available (selected via `MatchConfig.poolSolver`):
+ *   - greedy:            cheapest-insertion in O(N * K) time
+ *   - branch_and_bound:  exact search over rider subsets seeded with the
+ *                        greedy result, with detour and score-bound pruning
+ *                        and a wall-clock budget so it stays edge-safe
  *
- * For N candidate riders and K available seats, a brute-force approach
- * would be C(N, K). We cap candidates at `maxCandidates` and use a
- * greedy insertion strategy that runs in O(N * K) time.
+ * For N candidate riders and K available seats a brute-force approach would
+ * be C(N, K); the bound keeps the explored tree small in practice and the
+ * time budget caps the worst case.
  */
 
 import type {
@@ -21,114 +26,124 @@ import type {
   MatchResult,
   PoolAssignment,
   PoolStop,
+  PoolRider,
+  PoolRiderTiming,
   MatchConfig,
-  GeoPoint,
+  PoolSolver,
+  AssignmentStrategy,
 } from './types';
 import { DEFAULT_MATCH_CONFIG } from './types';
-import {
-  haversine,
-  minDistanceToRoute,
-  computeMarginalDetourKm,
-} from './geo';
+import { computeMarginalDetourKm } from './geo';
+import type { DistanceFn } from './geo';
+import { sequencePoolStops } from './sequencer';
+import { solveGlobalAssignment } from './assignment';
+import type { AssignmentEdge } from './assignment';
+import { journeyInterval, peakOccupancy, tripRoute } from './segments';
+import type { SeatInterval } from './segments';
 
 // ---------------------------------------------------------------------------
-// Stop Ordering
+// Shared pool helpers
 // ---------------------------------------------------------------------------
 
+type RiderLocations = Map<string, PoolRider>;
+
+/** Intermediate solver output before it is turned into a PoolAssignment. */
+interface PoolSelection {
+  riders: MatchResult[];
+  detourKm: number;
+  stops: PoolStop[];
+  riderTimings: PoolRiderTiming[];
+}
+
+interface SeatCheck {
+  fits(riders: MatchResult[]): boolean;
+  remaining(riders: MatchResult[]): number;
+}
+
 /**
- * Given a driver route and a set of rider pickup/dropoff points, produce
- * an ordered list of stops that follows the driver's route direction.
- *
- * Strategy: for each stop, find the nearest segment index on the route,
- * then sort by segment index (and within the same segment, by distance
- * along the segment from the start).
+ * Seat feasibility for a driver's pool. Each rider takes one seat between
+ * their pickup and dropoff only, so riders whose journeys don't overlap
+ * share a seat, and seats already held on the trip count only where they
+ * are held. Journey intervals are computed once per rider.
  */
-function orderStops(
-  driver: DriverTrip,
-  riders: MatchResult[],
-  riderPickups: Map<string, GeoPoint>,
-  riderDropoffs: Map<string, GeoPoint>,
-): PoolStop[] {
-  const route = driver.routePolyline;
-  const stops: Array<{
-    stop: PoolStop;
-    segIdx: number;
-    dist: number;
-  }> = [];
-
-  for (const rider of riders) {
-    const pickup = riderPickups.get(rider.riderId);
-    const dropoff = riderDropoffs.get(rider.riderId);
-
-    if (pickup) {
-      const { segmentIndex, distance } = route.length >= 2
-        ? minDistanceToRoute(pickup, route)
-        : { segmentIndex: 0, distance: 0 };
-      stops.push({
-        stop: { type: 'pickup', riderId: rider.riderId, location: pickup },
-        segIdx: segmentIndex,
-        dist: distance,
-      });
+function seatCheck(driver: DriverTrip, riderMap: RiderLocations): SeatCheck {
+  const route = tripRoute(driver);
+  const held = driver.seatHolds ?? [];
+  const capacity = driver.availableSeats + peakOccupancy(held);
+  const intervals = new Map<string, SeatInterval>();
+
+  const intervalOf = (riderId: string): SeatInterval => {
+    let interval = intervals.get(riderId);
+    if (!interval) {
+      const rider = riderMap.get(riderId)!;
+      interval = { ...journeyInterval(route, rider.pickup, rider.dropoff), seats: 1 };
+      intervals.set(riderId, interval);
     }
+    return interval;
+  };
+  const peak = (riders: MatchResult[]) =>
+    peakOccupancy([...held, ...riders.map((m) => intervalOf(m.riderId))]);
 
-    if (dropoff) {
-      const { segmentIndex, distance } = route.length >= 2
-        ? minDistanceToRoute(dropoff, route)
-        : { segmentIndex: 0, distance: 0 };
-      stops.push({
-        stop: { type: 'dropoff', riderId: rider.riderId, location: dropoff },
-        segIdx: segmentIndex,
-        dist: distance,
-      });
-    }
-  }
-
-  // Sort by segment index, then by distance within segment
-  stops.sort((a, b) => {
-    if (a.segIdx !== b.segIdx) return a.segIdx - b.segIdx;
-    return a.dist - b.dist;
-  });
+  return {
+    fits: (riders) => peak(riders) <= capacity,
+    remaining: (riders) => Math.max(0, capacity - peak(riders)),
+  };
+}
 
-  // Ensure all pickups come before their corresponding dropoffs
-  const ordered = stops.map((s) => s.stop);
-  return enforcePickupBeforeDropoff(ordered);
+function resolveMaxDetourKm(config: MatchConfig): number {
+  // Use the absolute km budget (primary); fall back to the per-rider cap if absent
+  return config.maxPoolDetourKm ??
+    config.thresholds.maxAbsoluteDetourKm ??
+    10;
 }
 
 /**
- * Post-process the stop list to guarantee every rider's pickup appears
- * before their dropoff. If it doesn't, swap them.
+ * Sequence the stops for a candidate selection. Returns null when no stop
+ * order satisfies every selected rider's time windows.
  */
-function enforcePickupBeforeDropoff(stops: PoolStop[]): PoolStop[] {
-  const result = [...stops];
-  const pickupSeen = new Set<string>();
-
-  for (let i = 0; i < result.length; i++) {
-    const stop = result[i];
-    if (stop.type === 'pickup') {
-      pickupSeen.add(stop.riderId);
-    } else if (stop.type === 'dropoff' && !pickupSeen.has(stop.riderId)) {
-      // Dropoff appeared before pickup — find the pickup and move it here
-      const pickupIdx = result.findIndex(
-        (s, j) => j > i && s.type === 'pickup' && s.riderId === stop.riderId,
-      );
-      if (pickupIdx !== -1) {
-        const [pickup] = result.splice(pickupIdx, 1);
-        result.splice(i, 0, pickup);
-        pickupSeen.add(stop.riderId);
-      }
-    }
-  }
+function rebuildStops(
+  driver: DriverTrip,
+  selected: MatchResult[],
+  riderMap: RiderLocations,
+  distance?: DistanceFn,
+): Pick<PoolSelection, 'stops' | 'riderTimings'> | null {
+  const sequenced = sequencePoolStops(
+    driver,
+    selected.map((m) => ({ riderId: m.riderId, ...riderMap.get(m.riderId)! })),
+    { distance },
+  );
+  if (!sequenced) return null;
+  return { stops: sequenced.stops, riderTimings: sequenced.riderTimings };
+}
 
-  // Add ETAs based on sequential distances
-  let prevLocation: GeoPoint | null = null;
-  for (const stop of result) {
-    if (prevLocation) {
-      stop.distanceFromPrevKm = haversine(prevLocation, stop.location);
-    }
-    prevLocation = stop.location;
-  }
+function buildPoolAssignment(
+  driver: DriverTrip,
+  selection: PoolSelection,
+  seats: SeatCheck,
+  solver: PoolSolver,
+  optimalityGap: number | null,
+): PoolAssignment {
+  const selected = selection.riders;
+  const totalScore = selected.reduce((sum, m) => sum + m.score, 0);
+  const totalCarbon = selected.reduce((sum, m) => sum + (m.carbonSavedKg ?? 0), 0);
+  // Convert cumulative km to minutes for display (30 km/h urban average)
+  const totalDetourMinutes = Math.round((selection.detourKm / 30) * 60 * 10) / 10;
 
-  return result;
+  return {
+    driverTripId: driver.id,
+    driverId: driver.driverId,
+    riders: selected,
+    totalScore,
+    averageScore: totalScore / selected.length,
+    seatsUsed: selected.length,
+    seatsRemaining: seats.remaining(selected),
+    totalDetourMinutes,
+    totalCarbonSavedKg: Math.round(totalCarbon * 100) / 100,
+    orderedStops: selection.stops,
+    riderTimings: selection.riderTimings,
+    solver,
+    optimalityGap,
+  };
 }
 
 // ---------------------------------------------------------------------------
@@ -136,58 +151,37 @@ function enforcePickupBeforeDropoff(stops: PoolStop[]): PoolStop[] {
 // ---------------------------------------------------------------------------
 
 /**
- * Optimise a pool of riders for a single driver trip.
- *
- * Algorithm (cheapest-insertion greedy):
- *   1. Sort candidate matches by score (best first — lowest score wins)
+ * Cheapest-insertion greedy:
+ *   1. Walk candidate matches in score order (best first — lowest score wins)
  *   2. For each candidate, compute the **marginal km** of inserting their
  *      pickup + dropoff into the current stop sequence (cheapest-insertion).
  *   3. Accept the candidate only if:
- *      a. Seats remain available
+ *      a. A seat is free over the rider's whole journey
  *      b. `cumulativeDetourKm + marginalKm ≤ maxPoolDetourKm`
  *         (absolute budget — never exceed 10 km total regardless of pool size)
- *   4. After each acceptance, rebuild the ordered stop sequence so the next
+ *      c. A stop sequence exists that meets every rider's time windows
+ *   4. After each acceptance, keep the re-sequenced stops so the next
  *      rider's marginal cost is computed relative to the updated route.
- *   5. Return the resulting PoolAssignment (or null if no rider fits).
- *
- * This replaces the previous approach (sum of individual minute estimates ×
- * 0.7 overlap discount) with a geometrically accurate cumulative km budget
- * that correctly accounts for shared route segments.
- *
- * @param driver       The driver trip to fill
- * @param candidates   Candidate matches (pre-sorted by score, best first)
- * @param riderMap     Map of riderId → { pickup, dropoff } for stop ordering
- * @param config       Matching configuration
  */
-export function optimizePool(
+function greedySelect(
   driver: DriverTrip,
   candidates: MatchResult[],
-  riderMap: Map<string, { pickup: GeoPoint; dropoff: GeoPoint }>,
-  config: MatchConfig = DEFAULT_MATCH_CONFIG,
-): PoolAssignment | null {
-  if (candidates.length === 0 || driver.availableSeats <= 0) {
-    return null;
-  }
-
+  riderMap: RiderLocations,
+  config: MatchConfig,
+  seats: SeatCheck,
+  distance?: DistanceFn,
+): PoolSelection {
   const maxRiders = config.maxRidersPerPool;
-  // Use the absolute km budget (primary); fall back to converting minutes if absent
-  const maxDetourKm =
-    config.maxPoolDetourKm ??
-    config.thresholds.maxAbsoluteDetourKm ??
-    10;
-  const maxSeats = driver.availableSeats;
+  const maxDetourKm = resolveMaxDetourKm(config);
 
   const selected: MatchResult[] = [];
-  let seatsUsed = 0;
   let cumulativeDetourKm = 0;
   // Ordered stops rebuilt after each acceptance so the next rider's marginal
   // cost is computed against the most accurate current stop sequence.
   let currentStops: PoolStop[] = [];
+  let currentTimings: PoolRiderTiming[] = [];
 
   for (const candidate of candidates) {
-    // Seat check
-    if (seatsUsed + 1 > maxSeats) continue;
-
     // Max riders check
     if (selected.length >= maxRiders) break;
 
@@ -195,71 +189,333 @@ export function optimizePool(
     const riderData = riderMap.get(candidate.riderId);
     if (!riderData) continue;
 
-    // Compute the additional km required to serve this rider given the
-    // current pool's ordered stop sequence (cheapest-insertion heuristic).
+    // Seat check
+    if (!seats.fits([...selected, candidate])) continue;
+
     const marginalKm = computeMarginalDetourKm(
       driver.departure,
       driver.destination,
       riderData.pickup,
       riderData.dropoff,
       currentStops,
+      distance,
     );
 
     // Absolute detour budget check
     if (cumulativeDetourKm + marginalKm > maxDetourKm) continue;
 
-    // Accept this rider
+    // Time-window feasibility check
+    const sequenced = rebuildStops(driver, [...selected, candidate], riderMap, distance);
+    if (!sequenced) continue;
+
     selected.push(candidate);
-    seatsUsed += 1;
     cumulativeDetourKm += marginalKm;
+    currentStops = sequenced.stops;
+    currentTimings = sequenced.riderTimings;
+  }
 
-    // Rebuild ordered stops for the next marginal cost computation
-    const pickups = new Map<string, GeoPoint>(
-      selected.map((m) => [m.riderId, riderMap.get(m.riderId)!.pickup]),
-    );
-    const dropoffs = new Map<string, GeoPoint>(
-      selected.map((m) => [m.riderId, riderMap.get(m.riderId)!.dropoff]),
+  return {
+    riders: selected,
+    detourKm: cumulativeDetourKm,
+    stops: currentStops,
+    riderTimings: currentTimings,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Branch-and-Bound Pool Optimizer
+// ---------------------------------------------------------------------------
+
+/** How many search nodes to expand between wall-clock checks. */
+const BNB_CLOCK_CHECK_INTERVAL = 32;
+
+interface SearchNode {
+  /** Index of the next candidate to branch on. */
+  index: number;
+  selected: MatchResult[];
+  scoreSum: number;
+  detourKm: number;
+  stops: PoolStop[];
+  riderTimings: PoolRiderTiming[];
+}
+
+/**
+ * Exact search over rider subsets.
+ *
+ * Objective (minimised): `Σ score − riderReward × |riders|`. `riderReward`
+ * exceeds any single composite score, so a pool with more riders always
+ * beats one with fewer, and ties on rider count go to the lower total score.
+ *
+ * Candidates are visited in score order and every node branches on
+ * include/exclude of the next candidate, exploring "include" first. The
+ * first leaf reached is therefore the greedy solution, and marginal detours
+ * are computed exactly as the greedy does, so the result is never worse
+ * than greedy.
+ *
+ * Pruning:
+ *   - Detour: an include branch is dropped as soon as its cumulative
+ *     cheapest-insertion detour exceeds `maxPoolDetourKm`.
+ *   - Time windows: an include branch is dropped when no stop sequence
+ *     satisfies every selected rider's pickup window and deadline.
+ *   - Seats: an include branch is dropped when the riders no longer fit at
+ *     some point of the route.
+ *   - Bound:  the optimistic completion of a node adds the best-scoring
+ *     remaining candidates up to the pool size, ignoring detour and seats;
+ *     nodes whose bound cannot beat the incumbent are discarded.
+ *
+ * The search stops after `poolSolverTimeBudgetMs`. The returned gap is
+ * relative to the weakest bound still on the stack (0 when exhausted).
+ */
+function branchAndBoundSelect(
+  driver: DriverTrip,
+  candidates: MatchResult[],
+  riderMap: RiderLocations,
+  config: MatchConfig,
+  seed: PoolSelection,
+  seats: SeatCheck,
+  distance?: DistanceFn,
+): { selection: PoolSelection; optimalityGap: number } {
+  const deadline = Date.now() + Math.max(0, config.poolSolverTimeBudgetMs ?? 0);
+  const maxDetourKm = resolveMaxDetourKm(config);
+  // Riders with disjoint journeys share a seat, so only the pool size caps
+  // the rider count; seats are checked on each include branch.
+  const capacity = config.maxRidersPerPool;
+
+  // Only riders with known locations can be routed; keep them in score order.
+  const pool = candidates
+    .filter((m) => riderMap.has(m.riderId))
+    .sort((a, b) => a.score - b.score);
+
+  const riderReward =
+    Object.values(config.weights).reduce((sum, w) => sum + Math.max(0, w), 0) + 1;
+  const objective = (scoreSum: number, riders: number) => scoreSum - riderReward * riders;
+
+  // Prefix sums of (score - reward) so bounds are O(1).
+  const prefix: number[] = [0];
+  for (const m of pool) prefix.push(prefix[prefix.length - 1] + (m.score - riderReward));
+
+  const bound = (node: SearchNode): number => {
+    const free = Math.min(capacity - node.selected.length, pool.length - node.index);
+    const base = objective(node.scoreSum, node.selected.length);
+    return free > 0 ? base + prefix[node.index + free] - prefix[node.index] : base;
+  };
+
+  let best = seed;
+  let bestObjective = objective(
+    seed.riders.reduce((sum, m) => sum + m.score, 0),
+    seed.riders.length,
+  );
+
+  const stack: SearchNode[] = [
+    { index: 0, selected: [], scoreSum: 0, detourKm: 0, stops: [], riderTimings: [] },
+  ];
+  let expanded = 0;
+  let timedOut = false;
+
+  while (stack.length > 0) {
+    if (++expanded % BNB_CLOCK_CHECK_INTERVAL === 0 && Date.now() > deadline) {
+      timedOut = true;
+      break;
+    }
+
+    const node = stack.pop()!;
+    const nodeObjective = objective(node.scoreSum, node.selected.length);
+    if (node.selected.length > 0 && nodeObjective < bestObjective) {
+      best = {
+        riders: node.selected,
+        detourKm: node.detourKm,
+        stops: node.stops,
+        riderTimings: node.riderTimings,
+      };
+      bestObjective = nodeObjective;
+    }
+
+    if (node.index >= pool.length || node.selected.length >= capacity) continue;
+    if (bound(node) >= bestObjective) continue;
+
+    // Exclude branch (pushed first so the include branch is explored first)
+    stack.push({ ...node, index: node.index + 1 });
+
+    const candidate = pool[node.index];
+    const riderData = riderMap.get(candidate.riderId)!;
+    const marginalKm = computeMarginalDetourKm(
+      driver.departure,
+      driver.destination,
+      riderData.pickup,
+      riderData.dropoff,
+      node.stops,
+      distance,
     );
-    currentStops = orderStops(driver, selected, pickups, dropoffs);
+    if (node.detourKm + marginalKm > maxDetourKm) continue;
+
+    const selected = [...node.selected, candidate];
+    if (!seats.fits(selected)) continue;
+    const sequenced = rebuildStops(driver, selected, riderMap, distance);
+    if (!sequenced) continue;
+
+    stack.push({
+      index: node.index + 1,
+      selected,
+      scoreSum: node.scoreSum + candidate.score,
+      detourKm: node.detourKm + marginalKm,
+      ...sequenced,
+    });
   }
 
-  if (selected.length === 0) return null;
+  let optimalityGap = 0;
+  if (timedOut && stack.length > 0) {
+    const lowerBound = Math.min(bestObjective, ...stack.map(bound));
+    optimalityGap = Math.abs(bestObjective) > 1e-9
+      ? Math.round(((bestObjective - lowerBound) / Math.abs(bestObjective)) * 10_000) / 10_000
+      : 0;
+  }
 
-  // Aggregate metrics
-  const totalScore = selected.reduce((sum, m) => sum + m.score, 0);
-  const totalCarbon = selected.reduce((sum, m) => sum + (m.carbonSavedKg ?? 0), 0);
-  // Convert cumulative km to minutes for display (30 km/h urban average)
-  const totalDetourMinutes = Math.round((cumulativeDetourKm / 30) * 60 * 10) / 10;
+  return { selection: best, optimalityGap };
+}
 
-  return {
-    driverTripId: driver.id,
-    driverId: driver.driverId,
-    riders: selected,
-    totalScore,
-    averageScore: totalScore / selected.length,
-    seatsUsed,
-    seatsRemaining: maxSeats - seatsUsed,
-    totalDetourMinutes,
-    totalCarbonSavedKg: Math.round(totalCarbon * 100) / 100,
-    orderedStops: currentStops,
-  };
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Optimise a pool of riders for a single driver trip.
+ *
+ * `config.poolSolver` selects the strategy. The greedy always runs first;
+ * branch-and-bound uses its result as the initial incumbent and only
+ * replaces it with a strictly better pool (more riders, or the same number
+ * of riders with a lower total score). Both respect seat limits,
+ * `maxRidersPerPool` and the cumulative `maxPoolDetourKm` budget.
+ *
+ * @param driver       The driver trip to fill
+ * @param candidates   Candidate matches (pre-sorted by score, best first)
+ * @param riderMap     Map of riderId → locations and optional time windows
+ *                     used for stop sequencing
+ * @param config       Matching configuration
+ * @param distance     Optional road distance lookup (see `prefetchPoolDistances`);
+ *                     haversine when omitted
+ */
+export function optimizePool(
+  driver: DriverTrip,
+  candidates: MatchResult[],
+  riderMap: Map<string, PoolRider>,
+  config: MatchConfig = DEFAULT_MATCH_CONFIG,
+  distance?: DistanceFn,
+): PoolAssignment | null {
+  if (candidates.length === 0 || (driver.availableSeats <= 0 && !driver.seatHolds?.length)) {
+    return null;
+  }
+
+  const seats = seatCheck(driver, riderMap);
+  const greedy = greedySelect(driver, candidates, riderMap, config, seats, distance);
+
+  if ((config.poolSolver ?? 'greedy') === 'greedy') {
+    if (greedy.riders.length === 0) return null;
+    return buildPoolAssignment(driver, greedy, seats, 'greedy', null);
+  }
+
+  const { selection, optimalityGap } = branchAndBoundSelect(
+    driver,
+    candidates,
+    riderMap,
+    config,
+    greedy,
+    seats,
+    distance,
+  );
+  if (selection.riders.length === 0) return null;
+  return buildPoolAssignment(driver, selection, seats, 'branch_and_bound', optimalityGap);
+}
+
+/**
+ * Global assignment across drivers.
+ *
+ * The min-cost flow only knows about seat capacity, so each driver's
+ * assigned riders are then run through `optimizePool`. Any rider the pool
+ * optimizer drops (detour budget or time windows) has that rider/driver
+ * pair forbidden and the flow is re-solved, letting the rider fall through
+ * to another driver. Every round forbids at least one pair, so the loop
+ * terminates.
+ */
+function globalAssignPools(
+  driverMatches: Map<string, { driver: DriverTrip; matches: MatchResult[] }>,
+  riderMap: RiderLocations,
+  config: MatchConfig,
+  distance?: DistanceFn,
+): PoolAssignment[] {
+  const forbidden = new Set<string>();
+  const pairKey = (driverTripId: string, riderId: string) => `${driverTripId}\u0000${riderId}`;
+
+  const capacities = new Map<string, number>();
+  for (const [driverTripId, { driver }] of driverMatches) {
+    // A trip with part-route holds may fit more riders than its end-to-end
+    // free seats; the pool optimizer drops any that don't fit.
+    const seats = driver.seatHolds?.length ? config.maxRidersPerPool : driver.availableSeats;
+    capacities.set(driverTripId, Math.min(seats, config.maxRidersPerPool));
+  }
+
+  for (;;) {
+    const edges: AssignmentEdge[] = [];
+    for (const [driverTripId, { matches }] of driverMatches) {
+      for (const match of matches) {
+        if (!riderMap.has(match.riderId)) continue;
+        if (forbidden.has(pairKey(driverTripId, match.riderId))) continue;
+        edges.push({ riderId: match.riderId, driverTripId, score: match.score });
+      }
+    }
+
+    const assignment = solveGlobalAssignment(edges, capacities);
+    const pools: PoolAssignment[] = [];
+    let repaired = false;
+
+    for (const [driverTripId, { driver, matches }] of driverMatches) {
+      const assigned = matches
+        .filter((m) => assignment.get(m.riderId) === driverTripId)
+        .sort((a, b) => a.score - b.score);
+      // Duplicate matches for the same rider/driver: keep the best one
+      const unique = assigned.filter(
+        (m, i) => assigned.findIndex((o) => o.riderId === m.riderId) === i,
+      );
+      if (unique.length === 0) continue;
+
+      const pool = optimizePool(driver, unique, riderMap, config, distance);
+      const kept = new Set(pool?.riders.map((m) => m.riderId) ?? []);
+      for (const match of unique) {
+        if (kept.has(match.riderId)) continue;
+        forbidden.add(pairKey(driverTripId, match.riderId));
+        repaired = true;
+      }
+      if (pool) pools.push(pool);
+    }
+
+    if (!repaired) {
+      return pools.sort((a, b) => a.averageScore - b.averageScore);
+    }
+  }
 }
 
 /**
  * Find the best pool assignment across multiple drivers.
  *
- * For each driver, we take the rider matches assigned to that driver and
- * run the pool optimizer. Returns the top pools sorted by average score.
+ * With the `greedy` strategy each driver's pool is optimised independently,
+ * so a rider may appear in several pools. With `global` each rider appears
+ * in at most one pool, chosen to maximise the number of matched riders and
+ * then minimise the total score. Returns pools sorted by average score.
  */
 export function optimizeMultiDriverPools(
   driverMatches: Map<string, { driver: DriverTrip; matches: MatchResult[] }>,
-  riderMap: Map<string, { pickup: GeoPoint; dropoff: GeoPoint }>,
+  riderMap: Map<string, PoolRider>,
   config: MatchConfig = DEFAULT_MATCH_CONFIG,
+  strategy: AssignmentStrategy = 'greedy',
+  distance?: DistanceFn,
 ): PoolAssignment[] {
+  if (strategy === 'global') {
+    return globalAssignPools(driverMatches, riderMap, config, distance);
+  }
+
   const pools: PoolAssignment[] = [];
 
   for (const [, { driver, matches }] of driverMatches) {
-    const pool = optimizePool(driver, matches, riderMap, config);
+    const pool = optimizePool(driver, matches, riderMap, config, distance);
     if (pool) {
       pools.push(pool);
     }
@@ -279,17 +535,24 @@ export function optimizeMultiDriverPools(
  * Algorithm:
  *   1. For each rider, collect their best driver matches
  *   2. Group matches by driver
- *   3. For each driver, optimise the rider pool
+ *   3. For each driver, optimise the rider pool (`greedy`), or solve the
+ *      assignment over all drivers at once (`global`)
  *   4. Resolve conflicts (rider assigned to multiple drivers) by keeping
  *      the assignment with the best score
  *
+ * The `greedy` strategy can let driver A take a rider who was the only
+ * viable match for driver B; `global` avoids that at the cost of a
+ * min-cost flow solve.
+ *
  * @returns Map of riderId → best PoolAssignment they were included in
  */
 export function assignRidersToDrivers(
   riderMatches: Map<string, MatchResult[]>,
   drivers: Map<string, DriverTrip>,
-  riderMap: Map<string, { pickup: GeoPoint; dropoff: GeoPoint }>,
+  riderMap: Map<string, PoolRider>,
   config: MatchConfig = DEFAULT_MATCH_CONFIG,
+  strategy: AssignmentStrategy = 'greedy',
+  distance?: DistanceFn,
 ): Map<string, { pool: PoolAssignment; match: MatchResult }> {
   // Step 1: Group matches by driver
   const driverGroups = new Map<string, { driver: DriverTrip; matches: MatchResult[] }>();
@@ -321,7 +584,7 @@ export function assignRidersToDrivers(
   }
 
   // Step 2: Optimise pools per driver
-  const pools = optimizeMultiDriverPools(driverGroups, riderMap, config);
+  const pools = optimizeMultiDriverPools(driverGroups, riderMap, config, strategy, distance);
 
   // Step 3: Resolve conflicts — each rider gets their best assignment
   const assignments = new Map<string, { pool: PoolAssignment; match: MatchResult }>();
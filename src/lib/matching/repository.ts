@@ -7,7 +7,8 @@
  * down candidate drivers before the JS-level matching runs.
  *
  * Key design choices:
- *   - Bounding box filtering in SQL (cheap, indexed)
+ *   - Geohash cell index of driver routes for candidate lookup, with
+ *     bounding-box filtering for trips indexed before the cell table existed
  *   - Decoded polylines cached in KV (fast reads)
  *   - All heavy matching logic stays in TypeScript (engine.ts)
  *   - Prepared statements for injection safety
@@ -19,6 +20,7 @@ import type {
   MatchResult,
   PoolAssignment,
   MatchConfig,
+  MatchConfigOverrides,
   GeoPoint,
   BoundingBox,
   VehicleInfo,
@@ -35,6 +37,17 @@ import {
   polylineLength,
   simplifyPolyline,
 } from './geo';
+import { geohashCellsWithin, routeCells } from './geohash';
+import { freeSeatsPerLeg, legCount } from './segments';
+import type { JourneyHold, SeatHold, SeatInterval } from './segments';
+import { peakOccupancySql } from '../seatInventory';
+import type { OccupancySource } from '../seatInventory';
+
+/** Max ids or cells bound per lookup statement (D1 bound-parameter limit). */
+const ATTRIBUTE_LOOKUP_CHUNK = 90;
+
+/** Driver trip statuses that can still be matched. */
+const MATCHABLE_TRIP_STATUSES: DriverTripStatus[] = ['offered', 'active'];
 
 // ---------------------------------------------------------------------------
 // Type helpers for D1 row shapes
@@ -63,10 +76,31 @@ interface DriverTripRow {
   status: string;
   driver_rating: number | null;
   vehicle_json: string | null;
+  waypoints_json?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+interface SeatHoldRow {
+  driver_trip_id: string;
+  from_leg: number;
+  to_leg: number;
+  start_km: number | null;
+  end_km: number | null;
+  seats: number;
+}
+
+/** Seat holds on driver trip `tripParam`, for `peakOccupancySql`. */
+function driverTripSeatHolds(tripParam: string): OccupancySource {
+  return {
+    table: 'driver_trip_seat_holds',
+    where: (a) => `${a}.driver_trip_id = ${tripParam}`,
+    seats: (a) => `${a}.seats`,
+    startColumn: 'start_km',
+    endColumn: 'end_km',
+  };
+}
+
 interface RiderRequestRow {
   id: string;
   rider_id: number;
@@ -77,6 +111,7 @@ interface RiderRequestRow {
   dropoff_lng: number;
   earliest_departure: number;
   latest_departure: number;
+  latest_arrival: number | null;
   seats_needed: number;
   preferences_json: string | null;
   status: string;
@@ -100,11 +135,13 @@ interface MatchResultAuthRow {
 // ---------------------------------------------------------------------------
 
 function rowToDriverTrip(row: DriverTripRow, polyline?: GeoPoint[]): DriverTrip {
+  const waypoints: GeoPoint[] | undefined = row.waypoints_json ? JSON.parse(row.waypoints_json) : undefined;
   const route = polyline ??
     (row.route_polyline_encoded
       ? decodePolyline(row.route_polyline_encoded)
       : [
           { lat: row.departure_lat, lng: row.departure_lng },
+          ...(waypoints ?? []),
           { lat: row.destination_lat, lng: row.destination_lng },
         ]);
 
@@ -127,6 +164,7 @@ function rowToDriverTrip(row: DriverTripRow, polyline?: GeoPoint[]): DriverTrip
       row.shift_lat !== null
         ? { lat: row.shift_lat!, lng: row.shift_lng! }
         : undefined,
+    waypoints: waypoints?.length ? waypoints : undefined,
     departureTime: row.departure_time,
     arrivalTime: row.arrival_time ?? undefined,
     availableSeats: row.available_seats,
@@ -151,6 +189,7 @@ function rowToRiderRequest(row: RiderRequestRow): RiderRequest {
     dropoff: { lat: row.dropoff_lat, lng: row.dropoff_lng },
     earliestDeparture: row.earliest_departure,
     latestDeparture: row.latest_departure,
+    latestArrival: row.latest_arrival ?? undefined,
     seatsNeeded: row.seats_needed,
     status: row.status as RiderRequestStatus,
     preferences: row.preferences_json
@@ -217,7 +256,8 @@ export class MatchingRepository {
   // =========================================================================
 
   /**
-   * Insert a new driver trip with pre-computed bounding box.
+   * Insert a new driver trip with pre-computed bounding box. Without a
+   * polyline the route runs straight through the waypoints in order.
    */
   async createDriverTrip(
     id: string,
@@ -226,6 +266,7 @@ export class MatchingRepository {
       departure: GeoPoint;
       destination: GeoPoint;
       shiftLocation?: GeoPoint;
+      waypoints?: GeoPoint[];
       departureTime: number;
       arrivalTime?: number;
       availableSeats: number;
@@ -238,8 +279,10 @@ export class MatchingRepository {
     },
   ): Promise<DriverTrip> {
     // Build polyline and bbox
-    const route = trip.routePolyline ?? [trip.departure, trip.destination];
-    const bbox = buildBoundingBox(route);
+    const waypoints = (trip.waypoints ?? []).map((w) => ({ lat: w.lat, lng: w.lng }));
+    const route = trip.routePolyline ?? [trip.departure, ...waypoints, trip.destination];
+    const bbox = buildBoundingBox([...route, ...waypoints]);
+    const waypointsJson = waypoints.length > 0 ? JSON.stringify(waypoints) : null;
     const encoded = trip.routePolyline ? encodePolyline(trip.routePolyline) : null;
     const distance = trip.routeDistanceKm ?? polylineLength(route);
 
@@ -253,7 +296,7 @@ export class MatchingRepository {
           available_seats, total_seats,
           bbox_min_lat, bbox_max_lat, bbox_min_lng, bbox_max_lng,
           route_polyline_encoded, route_distance_km,
-          status, driver_rating, vehicle_json,
+          status, driver_rating, vehicle_json, waypoints_json,
           created_at, updated_at
         ) VALUES (
           ?1, ?2, ?3,
@@ -263,7 +306,7 @@ export class MatchingRepository {
           ?12, ?13,
           ?14, ?15, ?16, ?17,
           ?18, ?19,
-          'offered', ?20, ?21,
+          'offered', ?20, ?21, ?22,
           datetime('now'), datetime('now')
         )`,
       )
@@ -289,9 +332,12 @@ export class MatchingRepository {
         distance,
         trip.driverRating ?? null,
         trip.vehicle ? JSON.stringify(trip.vehicle) : null,
+        waypointsJson,
       )
       .run();
 
+    await this.indexDriverTripCells(id, route, trip.departureTime);
+
     // Cache polyline in KV
     if (this.kv && encoded) {
       await this.kv.put(
@@ -343,17 +389,54 @@ export class MatchingRepository {
       status: 'offered',
       driver_rating: trip.driverRating ?? null,
       vehicle_json: trip.vehicle ? JSON.stringify(trip.vehicle) : null,
+      waypoints_json: waypointsJson,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     }, route);
   }
 
   /**
-   * SQL bounding-box pre-filter for matching candidates.
+   * Replace the geohash cells indexed for a driver trip's route.
+   */
+  async indexDriverTripCells(
+    id: string,
+    route: GeoPoint[],
+    departureTime: number,
+  ): Promise<void> {
+    const cells = routeCells(route);
+    await this.db.batch([
+      this.db.prepare('DELETE FROM driver_trip_cells WHERE driver_trip_id = ?1').bind(id),
+      ...cells.map((cell) =>
+        this.db
+          .prepare(
+            `INSERT OR REPLACE INTO driver_trip_cells (cell, driver_trip_id, departure_time)
+             VALUES (?1, ?2, ?3)`,
+          )
+          .bind(cell, id, departureTime),
+      ),
+      this.db.prepare('UPDATE driver_trips SET cells_indexed = 1 WHERE id = ?1').bind(id),
+    ]);
+  }
+
+  /**
+   * Drop a driver trip from the cell index (no longer matchable).
+   */
+  async removeDriverTripCells(id: string): Promise<void> {
+    await this.db
+      .prepare('DELETE FROM driver_trip_cells WHERE driver_trip_id = ?1')
+      .bind(id)
+      .run();
+  }
+
+  /**
+   * SQL spatial pre-filter for matching candidates.
    *
-   * This is the most performance-critical query. It uses indexed columns
-   * to quickly narrow down driver trips whose bounding box overlaps
-   * with the rider's pickup AND dropoff (with padding).
+   * This is the most performance-critical query. A driver trip qualifies
+   * when its route passes through a cell near the rider's pickup AND a cell
+   * near the rider's dropoff. The cell lookup cost depends on how many
+   * trips pass near the rider, not on how many trips are offered or how
+   * long their routes are. Trips without cells (created before the index
+   * existed) fall back to bounding-box overlap with padding.
    */
   async findCandidateDrivers(
     rider: RiderRequest,
@@ -367,18 +450,37 @@ export class MatchingRepository {
       padding,
     );
 
-    const result = await this.db
+    // Cells within walking distance of the pickup / dropoff
+    const walkKm = rider.preferences?.maxWalkDistanceKm;
+    const pickupCells = geohashCellsWithin(
+      rider.pickup,
+      walkKm ?? config.thresholds.maxPickupDistanceKm,
+    );
+    const dropoffCells = geohashCellsWithin(
+      rider.dropoff,
+      walkKm ?? config.thresholds.maxDropoffDistanceKm,
+    );
+    // Trips whose route passes near both pickup and dropoff (cell index)
+    const nearPickup = await this.tripsInCells(pickupCells, rider.earliestDeparture, rider.latestDeparture);
+    const nearDropoff = nearPickup.size > 0
+      ? await this.tripsInCells(dropoffCells, rider.earliestDeparture, rider.latestDeparture)
+      : new Set<string>();
+    const nearIds = [...nearPickup].filter((id) => nearDropoff.has(id));
+
+    const matchable = `status IN ('offered', 'active')
+           -- Trips full end to end may still have room on part of the route
+           AND (available_seats >= ?1 OR id IN (SELECT driver_trip_id FROM driver_trip_seat_holds))
+           AND departure_time >= ?2
+           AND departure_time <= ?3`;
+
+    // Unindexed trips: driver bbox overlaps rider bbox
+    const unindexed = await this.db
       .prepare(
         `SELECT * FROM driver_trips
-         WHERE status IN ('offered', 'active')
-           AND available_seats >= ?1
-           AND departure_time >= ?2
-           AND departure_time <= ?3
-           AND (
-             -- Driver bbox overlaps rider bbox (spatial pre-filter)
-             bbox_max_lat >= ?4 AND bbox_min_lat <= ?5
-             AND bbox_max_lng >= ?6 AND bbox_min_lng <= ?7
-           )
+         WHERE ${matchable}
+           AND cells_indexed = 0
+           AND bbox_max_lat >= ?4 AND bbox_min_lat <= ?5
+           AND bbox_max_lng >= ?6 AND bbox_min_lng <= ?7
          ORDER BY departure_time ASC
          LIMIT 200`,
       )
@@ -392,12 +494,27 @@ export class MatchingRepository {
         riderBbox.maxLng,
       )
       .all<DriverTripRow>();
+    const rows = [...(unindexed.results ?? [])];
 
-    if (!result.results) return [];
+    for (let i = 0; i < nearIds.length; i += ATTRIBUTE_LOOKUP_CHUNK) {
+      const chunk = nearIds.slice(i, i + ATTRIBUTE_LOOKUP_CHUNK);
+      const indexed = await this.db
+        .prepare(
+          `SELECT * FROM driver_trips
+           WHERE ${matchable}
+             AND cells_indexed = 1
+             AND id IN (${chunk.map((_, j) => `?${j + 4}`).join(', ')})`,
+        )
+        .bind(rider.seatsNeeded, rider.earliestDeparture, rider.latestDeparture, ...chunk)
+        .all<DriverTripRow>();
+      rows.push(...(indexed.results ?? []));
+    }
+
+    rows.sort((a, b) => a.departure_time - b.departure_time);
 
     // Hydrate polylines from KV (or decode from DB)
     const trips: DriverTrip[] = [];
-    for (const row of result.results) {
+    for (const row of rows.slice(0, 200)) {
       let polyline: GeoPoint[] | undefined;
 
       // Try KV cache first
@@ -411,9 +528,168 @@ export class MatchingRepository {
       trips.push(rowToDriverTrip(row, polyline));
     }
 
+    await this.attachPreferenceAttributes(trips, [rider]);
+    await this.attachDriverReliability(trips);
+    await this.attachSeatHolds(trips);
+
     return trips;
   }
 
+  /**
+   * Ids of the driver trips whose route passes through any of `cells`
+   * within the departure window. A wide walking radius covers hundreds of
+   * cells, more than D1 binds per statement, so cells are looked up in
+   * chunks.
+   */
+  private async tripsInCells(cells: string[], from: number, to: number): Promise<Set<string>> {
+    const ids = new Set<string>();
+    for (let i = 0; i < cells.length; i += ATTRIBUTE_LOOKUP_CHUNK) {
+      const chunk = cells.slice(i, i + ATTRIBUTE_LOOKUP_CHUNK);
+      const { results } = await this.db
+        .prepare(
+          `SELECT DISTINCT driver_trip_id FROM driver_trip_cells
+           WHERE cell IN (${chunk.map((_, j) => `?${j + 3}`).join(', ')})
+             AND departure_time >= ?1 AND departure_time <= ?2`,
+        )
+        .bind(from, to, ...chunk)
+        .all<{ driver_trip_id: string }>();
+      for (const row of results ?? []) ids.add(String(row.driver_trip_id));
+    }
+    return ids;
+  }
+
+  /**
+   * Load the driver attributes riders' hard preferences are checked
+   * against: the opted-in gender and the current average rating. Only runs
+   * when one of the riders actually set such a preference.
+   */
+  private async attachPreferenceAttributes(
+    trips: DriverTrip[],
+    riders: RiderRequest[],
+  ): Promise<void> {
+    const needsGender = riders.some(
+      (r) => !!r.preferences?.genderPreference && r.preferences.genderPreference !== 'any',
+    );
+    const needsRating = riders.some((r) => r.preferences?.minDriverRating !== undefined);
+    if (trips.length === 0 || (!needsGender && !needsRating)) return;
+
+    const driverIds = [...new Set(trips.map((t) => Number(t.driverId)))];
+    const genders = new Map<string, string>();
+    const ratings = new Map<string, number | null>();
+
+    // D1 caps bound parameters per statement, so look drivers up in chunks
+    for (let i = 0; i < driverIds.length; i += ATTRIBUTE_LOOKUP_CHUNK) {
+      const chunk = driverIds.slice(i, i + ATTRIBUTE_LOOKUP_CHUNK);
+      const placeholders = chunk.map((_, j) => `?${j + 1}`).join(', ');
+
+      if (needsGender) {
+        const rows = await this.db
+          .prepare(
+            `SELECT user_id, gender FROM driver_attribute_profiles
+             WHERE share_gender_for_matching = 1
+               AND user_id IN (${placeholders})`,
+          )
+          .bind(...chunk)
+          .all<{ user_id: number; gender: string }>();
+        for (const r of rows.results ?? []) genders.set(String(r.user_id), r.gender);
+      }
+
+      if (needsRating) {
+        const rows = await this.db
+          .prepare(
+            `SELECT user_id, AVG(rating) AS avg_rating FROM trip_participants
+             WHERE rating IS NOT NULL
+               AND user_id IN (${placeholders})
+             GROUP BY user_id`,
+          )
+          .bind(...chunk)
+          .all<{ user_id: number; avg_rating: number | null }>();
+        for (const r of rows.results ?? []) ratings.set(String(r.user_id), r.avg_rating);
+      }
+    }
+
+    for (const trip of trips) {
+      if (needsGender) {
+        const gender = genders.get(trip.driverId);
+        trip.driverGender = gender === 'male' || gender === 'female' ? gender : undefined;
+      }
+      const rating = ratings.get(trip.driverId);
+      if (rating != null) trip.driverRating = Number(Number(rating).toFixed(1));
+    }
+  }
+
+  /**
+   * Load each driver's cached reliability score. Drivers without a score
+   * yet are left unscored rather than penalised.
+   */
+  private async attachDriverReliability(trips: DriverTrip[]): Promise<void> {
+    if (trips.length === 0) return;
+
+    const driverIds = [...new Set(trips.map((t) => Number(t.driverId)))];
+    const scores = new Map<string, number>();
+
+    for (let i = 0; i < driverIds.length; i += ATTRIBUTE_LOOKUP_CHUNK) {
+      const chunk = driverIds.slice(i, i + ATTRIBUTE_LOOKUP_CHUNK);
+      const placeholders = chunk.map((_, j) => `?${j + 1}`).join(', ');
+      const rows = await this.db
+        .prepare(
+          `SELECT id, reliability_score FROM users
+           WHERE reliability_score IS NOT NULL
+             AND id IN (${placeholders})`,
+        )
+        .bind(...chunk)
+        .all<{ id: number; reliability_score: number }>();
+      for (const r of rows.results ?? []) scores.set(String(r.id), Number(r.reliability_score));
+    }
+
+    for (const trip of trips) {
+      const score = scores.get(trip.driverId);
+      if (score !== undefined) trip.driverReliability = score;
+    }
+  }
+
+  /**
+   * Attach each trip's seat holds by route interval, and the free seats per
+   * leg on multi-stop trips. Holds recorded before intervals existed cover
+   * the whole route.
+   */
+  private async attachSeatHolds(trips: DriverTrip[]): Promise<void> {
+    if (trips.length === 0) return;
+
+    const holds = new Map<string, SeatHoldRow[]>();
+    for (let i = 0; i < trips.length; i += ATTRIBUTE_LOOKUP_CHUNK) {
+      const chunk = trips.slice(i, i + ATTRIBUTE_LOOKUP_CHUNK).map((t) => t.id);
+      const placeholders = chunk.map((_, j) => `?${j + 1}`).join(', ');
+      const rows = await this.db
+        .prepare(
+          `SELECT driver_trip_id, from_leg, to_leg, start_km, end_km, seats FROM driver_trip_seat_holds
+           WHERE driver_trip_id IN (${placeholders})`,
+        )
+        .bind(...chunk)
+        .all<SeatHoldRow>();
+      for (const r of rows.results ?? []) {
+        const list = holds.get(r.driver_trip_id) ?? [];
+        list.push(r);
+        holds.set(r.driver_trip_id, list);
+      }
+    }
+
+    for (const trip of trips) {
+      const rows = holds.get(trip.id) ?? [];
+      if (rows.length > 0) {
+        trip.seatHolds = rows.map((r): SeatInterval => ({
+          startKm: r.start_km ?? 0,
+          endKm: r.end_km ?? Infinity,
+          seats: r.seats,
+        }));
+      }
+      if (legCount(trip) > 1) {
+        const legHolds = rows.map((r): SeatHold => ({ fromLeg: r.from_leg, toLeg: r.to_leg, seats: r.seats }));
+        trip.legSeats = freeSeatsPerLeg(trip.totalSeats, legCount(trip), legHolds);
+      }
+    }
+  }
+
   /**
    * Get a single driver trip by ID.
    */
@@ -422,8 +698,11 @@ export class MatchingRepository {
       .prepare('SELECT * FROM driver_trips WHERE id = ?1')
       .bind(id)
       .first<DriverTripRow>();
+    if (!row) return null;
 
-    return row ? rowToDriverTrip(row) : null;
+    const trip = rowToDriverTrip(row);
+    await this.attachSeatHolds([trip]);
+    return trip;
   }
 
   /**
@@ -441,7 +720,8 @@ export class MatchingRepository {
   }
 
   /**
-   * Update driver trip status.
+   * Update driver trip status and keep the route cell index in sync:
+   * terminal statuses drop the trip's cells, matchable ones (re)index them.
    */
   async updateDriverTripStatus(id: string, status: DriverTripStatus): Promise<void> {
     await this.db
@@ -452,32 +732,63 @@ export class MatchingRepository {
       )
       .bind(status, id)
       .run();
+
+    // Keep the cell index limited to matchable trips
+    if (!MATCHABLE_TRIP_STATUSES.includes(status)) {
+      await this.removeDriverTripCells(id);
+      return;
+    }
+    const trip = await this.getDriverTrip(id);
+    if (trip) {
+      await this.indexDriverTripCells(id, trip.routePolyline, trip.departureTime);
+    }
   }
 
   /**
-   * Atomically reserve one seat on a driver trip.
-   * Returns false when the trip has no remaining seats.
+   * Atomically hold seats on a driver trip for one journey. The hold is only
+   * placed when the seats occupied at once within the journey's route
+   * interval, including it, stay within the vehicle. Returns false when the
+   * trip is full anywhere along that stretch.
    */
-  async reserveDriverTripSeat(id: string): Promise<boolean> {
+  async reserveDriverTripSeat(id: string, matchId: string, hold: JourneyHold): Promise<boolean> {
     const result = await this.db
       .prepare(
-        `UPDATE driver_trips
-         SET available_seats = available_seats - 1, updated_at = datetime('now')
-         WHERE id = ?1 AND available_seats > 0`,
+        `INSERT INTO driver_trip_seat_holds (driver_trip_id, match_id, from_leg, to_leg, seats, start_km, end_km)
+         SELECT t.id, ?2, ?3, ?4, ?5, ?6, ?7
+         FROM driver_trips t
+         WHERE t.id = ?1
+           AND ?5 + ${peakOccupancySql(driverTripSeatHolds('?1'), '?6', '?7')} <= t.total_seats`,
       )
-      .bind(id)
+      .bind(id, matchId, hold.fromLeg, hold.toLeg, hold.seats, hold.startKm, hold.endKm)
+      .run();
+    if ((getAffectedRows(result) ?? 0) === 0) return false;
+
+    await this.refreshHeldSeats(id);
+    return true;
+  }
+
+  /**
+   * Compensating release of a hold placed by `reserveDriverTripSeat` when
+   * downstream operations fail after reservation.
+   */
+  async releaseDriverTripSeat(id: string, matchId: string): Promise<void> {
+    await this.db
+      .prepare('DELETE FROM driver_trip_seat_holds WHERE driver_trip_id = ?1 AND match_id = ?2')
+      .bind(id, matchId)
       .run();
-    return (getAffectedRows(result) ?? 0) > 0;
+    await this.refreshHeldSeats(id);
   }
 
   /**
-   * Compensating seat release when downstream operations fail after reservation.
+   * Keep `available_seats` at the seats free along the whole route, so the
+   * candidate pre-filter and trip listings stay meaningful.
    */
-  async releaseDriverTripSeat(id: string): Promise<void> {
+  private async refreshHeldSeats(id: string): Promise<void> {
     await this.db
       .prepare(
         `UPDATE driver_trips
-         SET available_seats = MIN(available_seats + 1, total_seats), updated_at = datetime('now')
+         SET available_seats = MAX(0, total_seats - ${peakOccupancySql(driverTripSeatHolds('?1'), '0')}),
+             updated_at = datetime('now')
          WHERE id = ?1`,
       )
       .bind(id)
@@ -509,7 +820,9 @@ export class MatchingRepository {
     stmt = stmt.bind(...params);
 
     const result = await stmt.all<DriverTripRow>();
-    return (result.results ?? []).map((row) => rowToDriverTrip(row));
+    const trips = (result.results ?? []).map((row) => rowToDriverTrip(row));
+    await this.attachSeatHolds(trips);
+    return trips;
   }
 
   // =========================================================================
@@ -524,6 +837,7 @@ export class MatchingRepository {
       dropoff: GeoPoint;
       earliestDeparture: number;
       latestDeparture: number;
+      latestArrival?: number;
       seatsNeeded?: number;
       preferences?: RiderPreferences;
       organizationId?: string;
@@ -534,14 +848,14 @@ export class MatchingRepository {
         `INSERT INTO rider_requests (
           id, rider_id, organization_id,
           pickup_lat, pickup_lng, dropoff_lat, dropoff_lng,
-          earliest_departure, latest_departure,
+          earliest_departure, latest_departure, latest_arrival,
           seats_needed, preferences_json, status,
           created_at, updated_at
         ) VALUES (
           ?1, ?2, ?3,
           ?4, ?5, ?6, ?7,
-          ?8, ?9,
-          ?10, ?11, 'pending',
+          ?8, ?9, ?10,
+          ?11, ?12, 'pending',
           datetime('now'), datetime('now')
         )`,
       )
@@ -555,6 +869,7 @@ export class MatchingRepository {
         request.dropoff.lng,
         request.earliestDeparture,
         request.latestDeparture,
+        request.latestArrival ?? null,
         request.seatsNeeded ?? 1,
         request.preferences ? JSON.stringify(request.preferences) : null,
       )
@@ -567,6 +882,7 @@ export class MatchingRepository {
       dropoff: request.dropoff,
       earliestDeparture: request.earliestDeparture,
       latestDeparture: request.latestDeparture,
+      latestArrival: request.latestArrival,
       seatsNeeded: request.seatsNeeded ?? 1,
       status: 'pending',
       preferences: request.preferences,
@@ -634,6 +950,51 @@ export class MatchingRepository {
     return (result.results ?? []).map((row) => rowToRiderRequest(row));
   }
 
+  /**
+   * Load a historical window of rider requests and driver trips for
+   * simulation replay, optionally scoped to one organization. Cancelled
+   * driver trips are left out: the driver withdrew the seats.
+   */
+  async getSimulationWindow(
+    from: number,
+    to: number,
+    organizationId?: string,
+    limits: { riders: number; drivers: number } = { riders: 500, drivers: 1000 },
+  ): Promise<{ riders: RiderRequest[]; drivers: DriverTrip[] }> {
+    const orgFilter = organizationId ? 'AND organization_id = ?4' : '';
+    const orgParams = organizationId ? [organizationId] : [];
+
+    const riderRows = await this.db
+      .prepare(
+        `SELECT * FROM rider_requests
+         WHERE earliest_departure >= ?1 AND earliest_departure < ?2
+           ${orgFilter}
+         ORDER BY earliest_departure ASC
+         LIMIT ?3`,
+      )
+      .bind(from, to, limits.riders, ...orgParams)
+      .all<RiderRequestRow>();
+
+    const driverRows = await this.db
+      .prepare(
+        `SELECT * FROM driver_trips
+         WHERE departure_time >= ?1 AND departure_time < ?2
+           AND status != 'cancelled'
+           ${orgFilter}
+         ORDER BY departure_time ASC
+         LIMIT ?3`,
+      )
+      .bind(from, to, limits.drivers, ...orgParams)
+      .all<DriverTripRow>();
+
+    const riders = (riderRows.results ?? []).map((row) => rowToRiderRequest(row));
+    const drivers = (driverRows.results ?? []).map((row) => rowToDriverTrip(row));
+    await this.attachPreferenceAttributes(drivers, riders);
+    await this.attachDriverReliability(drivers);
+
+    return { riders, drivers };
+  }
+
   /**
    * Fetch all pending rider requests (for batch matching).
    */
@@ -864,14 +1225,7 @@ export class MatchingRepository {
 
   async saveMatchConfig(
     organizationId: string,
-    config: {
-      weights?: Partial<MatchConfig['weights']>;
-      thresholds?: Partial<MatchConfig['thresholds']>;
-      maxResults?: MatchConfig['maxResults'];
-      enableMultiRider?: MatchConfig['enableMultiRider'];
-      maxRidersPerPool?: MatchConfig['maxRidersPerPool'];
-      maxPoolDetourMinutes?: MatchConfig['maxPoolDetourMinutes'];
-    },
+    config: MatchConfigOverrides,
   ): Promise<void> {
     const id = `mc-${organizationId}`;
     await this.db
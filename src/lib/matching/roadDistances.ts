@@ -0,0 +1,66 @@
+/**
+ * Klubz Smart Trip Pooling - Road Distance Prefetch
+ *
+ * The matching engine and pool optimizer are synchronous, so road distances
+ * are fetched up front for exactly the point pairs they will ask for and
+ * handed over as a `DistanceFn`.
+ *
+ * With the straight-line provider no table is built and the engine keeps its
+ * haversine model, whose thresholds the default MatchConfig is tuned for.
+ */
+
+import type { DriverTrip, GeoPoint, PoolRider, RiderRequest } from './types';
+import type { DistanceFn } from './geo';
+import { minDistanceToRoute, roadDetourAnchors } from './geo';
+import type { RoutingProvider } from '../routing';
+import { buildDistanceTable } from '../routing';
+
+function effectiveRoute(driver: DriverTrip): GeoPoint[] {
+  return driver.routePolyline && driver.routePolyline.length >= 2
+    ? driver.routePolyline
+    : [driver.departure, driver.destination];
+}
+
+/**
+ * Prefetch the legs `estimateDetourKm` needs to score one rider against a
+ * set of candidate drivers: route anchor → pickup, pickup → dropoff,
+ * dropoff → route anchor and anchor → anchor.
+ */
+export async function prefetchMatchDistances(
+  provider: RoutingProvider,
+  rider: Pick<RiderRequest, 'pickup' | 'dropoff'>,
+  drivers: DriverTrip[],
+): Promise<DistanceFn | undefined> {
+  if (provider.name === 'straight_line') return undefined;
+
+  const origins: GeoPoint[] = [rider.pickup, rider.dropoff];
+  const destinations: GeoPoint[] = [rider.pickup, rider.dropoff];
+
+  for (const driver of drivers) {
+    const route = effectiveRoute(driver);
+    const { segmentIndex: pickIdx } = minDistanceToRoute(rider.pickup, route);
+    const { segmentIndex: dropIdx } = minDistanceToRoute(rider.dropoff, route);
+    const [from, to] = roadDetourAnchors(route, pickIdx, dropIdx);
+    origins.push(from);
+    destinations.push(to);
+  }
+
+  return buildDistanceTable(provider, origins, destinations);
+}
+
+/**
+ * Prefetch all-to-all legs between a driver's endpoints and the stops of
+ * the riders being pooled, as used by cheapest-insertion and sequencing.
+ */
+export async function prefetchPoolDistances(
+  provider: RoutingProvider,
+  driver: DriverTrip,
+  riders: Iterable<PoolRider>,
+): Promise<DistanceFn | undefined> {
+  if (provider.name === 'straight_line') return undefined;
+
+  const points: GeoPoint[] = [driver.departure, driver.destination];
+  for (const rider of riders) points.push(rider.pickup, rider.dropoff);
+
+  return buildDistanceTable(provider, points, points);
+}
@@ -0,0 +1,182 @@
+/**
+ * Klubz Smart Trip Pooling - Multi-stop Trip Segments
+ *
+ * A driver trip with waypoints is split into legs between consecutive
+ * stops (departure, waypoints…, destination). A rider occupies the legs
+ * from the one their pickup falls on to the one their dropoff falls on,
+ * so a seat freed at a waypoint can be sold again for the rest of the
+ * route. Seat holds are recorded per leg range and capacity is checked
+ * on every leg a journey crosses.
+ *
+ * Every hold also records the stretch of route it covers, in km from the
+ * departure. Capacity is the peak number of seats occupied at once within
+ * a journey's interval, so on any trip, with or without waypoints, a rider
+ * dropped off part-way frees the seat for one picked up after them.
+ */
+
+import type { DriverTrip, GeoPoint } from './types';
+import { haversine, minDistanceToRoute } from './geo';
+
+/** Upper bound on intermediate stops per driver trip. */
+export const MAX_TRIP_WAYPOINTS = 8;
+
+/**
+ * Slack (km) when deciding which side of a stop a pickup/dropoff is on, and
+ * by how much a dropoff may run past the next pickup without overlapping.
+ */
+export const STOP_SNAP_KM = 0.05;
+
+export interface LegRange {
+  fromLeg: number;
+  toLeg: number;
+}
+
+export interface SeatHold extends LegRange {
+  seats: number;
+}
+
+/**
+ * Seats occupied over `[startKm, endKm)` of the route. Half-open, so a
+ * rider dropped off at a point frees the seat for one picked up there.
+ */
+export interface SeatInterval {
+  startKm: number;
+  endKm: number;
+  seats: number;
+}
+
+/** A seat hold placed for one journey: its legs and its route interval. */
+export type JourneyHold = SeatHold & SeatInterval;
+
+/** All stops of a trip in driving order. */
+export function tripStops(trip: Pick<DriverTrip, 'departure' | 'destination' | 'waypoints'>): GeoPoint[] {
+  return [trip.departure, ...(trip.waypoints ?? []), trip.destination];
+}
+
+export function legCount(trip: Pick<DriverTrip, 'waypoints'>): number {
+  return (trip.waypoints?.length ?? 0) + 1;
+}
+
+/** Distance (km) along the route to where `point` projects onto it. */
+export function routeOffsetKm(route: GeoPoint[], point: GeoPoint): number {
+  if (route.length < 2) return 0;
+  const { distance, segmentIndex } = minDistanceToRoute(point, route);
+  let km = 0;
+  for (let i = 0; i < segmentIndex; i++) km += haversine(route[i], route[i + 1]);
+  const segmentKm = haversine(route[segmentIndex], route[segmentIndex + 1]);
+  // Along-track distance from the segment start to the point's projection
+  const fromStart = haversine(route[segmentIndex], point);
+  const along = Math.sqrt(Math.max(0, fromStart * fromStart - distance * distance));
+  return km + Math.min(along, segmentKm);
+}
+
+/** The route a trip's offsets are measured along. */
+export function tripRoute(
+  trip: Pick<DriverTrip, 'departure' | 'destination' | 'waypoints' | 'routePolyline'>,
+): GeoPoint[] {
+  return trip.routePolyline && trip.routePolyline.length >= 2 ? trip.routePolyline : tripStops(trip);
+}
+
+/** Where an interval stops occupying its seat, after snapping. */
+export function occupiedUntilKm(startKm: number, endKm: number): number {
+  return Math.max(endKm - STOP_SNAP_KM, startKm + STOP_SNAP_KM / 2);
+}
+
+/** The stretch of `route` a journey from `pickup` to `dropoff` covers. */
+export function journeyInterval(
+  route: GeoPoint[],
+  pickup: GeoPoint,
+  dropoff: GeoPoint,
+): Pick<SeatInterval, 'startKm' | 'endKm'> {
+  const startKm = routeOffsetKm(route, pickup);
+  return { startKm, endKm: Math.max(startKm, routeOffsetKm(route, dropoff)) };
+}
+
+/**
+ * Most seats occupied at once anywhere in `[startKm, endKm)`. Load only
+ * rises where an interval starts, so checking the window start and every
+ * start inside the window is enough.
+ */
+export function peakOccupancy(intervals: SeatInterval[], startKm = 0, endKm = Infinity): number {
+  const until = occupiedUntilKm(startKm, endKm);
+  const points = [startKm, ...intervals.map((i) => i.startKm).filter((km) => km > startKm && km < until)];
+  let peak = 0;
+  for (const km of points) {
+    let load = 0;
+    for (const i of intervals) {
+      if (i.startKm <= km && km < occupiedUntilKm(i.startKm, i.endKm)) load += i.seats;
+    }
+    peak = Math.max(peak, load);
+  }
+  return peak;
+}
+
+/**
+ * The legs a rider travelling `pickup` → `dropoff` occupies. Trips without
+ * waypoints have a single leg.
+ */
+export function legsForJourney(
+  trip: Pick<DriverTrip, 'departure' | 'destination' | 'waypoints' | 'routePolyline'>,
+  pickup: GeoPoint,
+  dropoff: GeoPoint,
+): LegRange {
+  const legs = legCount(trip);
+  if (legs === 1) return { fromLeg: 0, toLeg: 0 };
+
+  const stops = tripStops(trip);
+  const route = tripRoute(trip);
+  const stopOffsets = stops.map((s) => routeOffsetKm(route, s));
+  const pickupKm = routeOffsetKm(route, pickup);
+  const dropoffKm = routeOffsetKm(route, dropoff);
+
+  let fromLeg = 0;
+  for (let i = 0; i < legs; i++) {
+    if (stopOffsets[i] <= pickupKm + STOP_SNAP_KM) fromLeg = i;
+  }
+  let toLeg = legs - 1;
+  for (let j = legs - 1; j >= fromLeg; j--) {
+    if (stopOffsets[j + 1] >= dropoffKm - STOP_SNAP_KM) toLeg = j;
+  }
+  return { fromLeg, toLeg };
+}
+
+/** Free seats on each leg given the holds already placed. */
+export function freeSeatsPerLeg(totalSeats: number, legs: number, holds: SeatHold[]): number[] {
+  const free = Array.from({ length: legs }, () => totalSeats);
+  for (const hold of holds) {
+    for (let leg = Math.max(0, hold.fromLeg); leg <= Math.min(legs - 1, hold.toLeg); leg++) {
+      free[leg] -= hold.seats;
+    }
+  }
+  return free.map((n) => Math.max(0, n));
+}
+
+/** The hold a rider travelling `pickup` → `dropoff` places on a trip. */
+export function holdForJourney(
+  trip: Pick<DriverTrip, 'departure' | 'destination' | 'waypoints' | 'routePolyline'>,
+  pickup: GeoPoint,
+  dropoff: GeoPoint,
+  seats = 1,
+): JourneyHold {
+  return {
+    ...legsForJourney(trip, pickup, dropoff),
+    ...journeyInterval(tripRoute(trip), pickup, dropoff),
+    seats,
+  };
+}
+
+/**
+ * Seats a rider can book between `pickup` and `dropoff`. `availableSeats`
+ * is what is free along the whole route; a journey also gets back every
+ * seat that is only taken outside its own interval.
+ */
+export function seatsAvailableForJourney(trip: DriverTrip, pickup: GeoPoint, dropoff: GeoPoint): number {
+  if (trip.seatHolds && trip.seatHolds.length > 0) {
+    const { startKm, endKm } = journeyInterval(tripRoute(trip), pickup, dropoff);
+    const peakOnRoute = peakOccupancy(trip.seatHolds);
+    return Math.max(0, trip.availableSeats + peakOnRoute - peakOccupancy(trip.seatHolds, startKm, endKm));
+  }
+  if (!trip.legSeats || trip.legSeats.length !== legCount(trip)) return trip.availableSeats;
+  const { fromLeg, toLeg } = legsForJourney(trip, pickup, dropoff);
+  return Math.min(...trip.legSeats.slice(fromLeg, toLeg + 1));
+}
@@ -0,0 +1,323 @@
+/**
+ * Klubz Smart Trip Pooling - Pickup & Drop-off Sequencer
+ *
+ * Orders the stops of a multi-rider pool so that every rider is picked up
+ * inside their departure window and dropped off before their deadline
+ * (pickup-and-delivery with time windows).
+ *
+ * Time model:
+ *   - The driver leaves `departure` at `driver.departureTime`.
+ *   - Travel time between stops is `distance` km (haversine unless a road
+ *     distance function is supplied) at `avgSpeedKmh`.
+ *   - If the driver reaches a pickup before the rider's `earliestDeparture`
+ *     the driver waits; arriving after `latestDeparture` is infeasible.
+ *   - Reaching a drop-off after the rider's `latestArrival` is infeasible.
+ *   - Each stop costs `dwellMinutes` of boarding / alighting time.
+ *
+ * Objective: earliest arrival at the driver's destination (total driving
+ * plus forced waits), tie-broken by total rider in-vehicle time.
+ *
+ * Small pools (≤ `maxExactRiders`) are sequenced exactly by depth-first
+ * search over precedence-respecting orders; larger pools fall back to
+ * cheapest feasible insertion.
+ */
+
+import type {
+  DriverTrip,
+  GeoPoint,
+  PoolRider,
+  PoolRiderTiming,
+  PoolStop,
+} from './types';
+import { haversine } from './geo';
+import type { DistanceFn } from './geo';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SequencerOptions {
+  /** Average driving speed used for ETAs (km/h). Default 30. */
+  avgSpeedKmh?: number;
+  /** Boarding / alighting time spent at each stop (minutes). Default 1. */
+  dwellMinutes?: number;
+  /** Pools up to this many riders are sequenced exactly. Default 4. */
+  maxExactRiders?: number;
+  /** Point-to-point distance (km). Default haversine. */
+  distance?: DistanceFn;
+}
+
+export interface SequencedPool {
+  /** Stops in visiting order with ETAs and leg distances. */
+  stops: PoolStop[];
+  /** Per-rider pickup / drop-off ETAs, wait and in-vehicle time. */
+  riderTimings: PoolRiderTiming[];
+  /** ETA at the driver's destination (unix ms). */
+  arrivalTime: number;
+  /** Total driven distance from departure to destination (km). */
+  totalDistanceKm: number;
+}
+
+type SequencerRider = PoolRider & { riderId: string };
+
+interface Leg {
+  type: PoolStop['type'];
+  riderId: string;
+  location: GeoPoint;
+}
+
+const DEFAULT_OPTIONS: Required<SequencerOptions> = {
+  avgSpeedKmh: 30,
+  dwellMinutes: 1,
+  maxExactRiders: 4,
+  distance: haversine,
+};
+
+const MS_PER_MINUTE = 60_000;
+
+function resolveOptions(options: SequencerOptions): Required<SequencerOptions> {
+  return {
+    avgSpeedKmh: options.avgSpeedKmh ?? DEFAULT_OPTIONS.avgSpeedKmh,
+    dwellMinutes: options.dwellMinutes ?? DEFAULT_OPTIONS.dwellMinutes,
+    maxExactRiders: options.maxExactRiders ?? DEFAULT_OPTIONS.maxExactRiders,
+    distance: options.distance ?? DEFAULT_OPTIONS.distance,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Simulation
+// ---------------------------------------------------------------------------
+
+function travelMs(
+  from: GeoPoint,
+  to: GeoPoint,
+  opts: Required<SequencerOptions>,
+): number {
+  return (opts.distance(from, to) / opts.avgSpeedKmh) * 60 * MS_PER_MINUTE;
+}
+
+/**
+ * Drive a fixed stop order and compute ETAs.
+ *
+ * Returns null when the order violates precedence or any time window.
+ */
+export function simulateStopSequence(
+  driver: DriverTrip,
+  order: Array<Pick<PoolStop, 'type' | 'riderId' | 'location'>>,
+  riders: Map<string, PoolRider>,
+  options: SequencerOptions = {},
+): SequencedPool | null {
+  const opts = resolveOptions(options);
+  const dwellMs = opts.dwellMinutes * MS_PER_MINUTE;
+
+  const stops: PoolStop[] = [];
+  const pickupEta = new Map<string, number>();
+  const timings: PoolRiderTiming[] = [];
+
+  let time = driver.departureTime;
+  let position: GeoPoint = driver.departure;
+  let totalDistanceKm = 0;
+
+  for (const leg of order) {
+    const rider = riders.get(leg.riderId);
+    if (!rider) return null;
+
+    const legKm = opts.distance(position, leg.location);
+    time += travelMs(position, leg.location, opts);
+    totalDistanceKm += legKm;
+
+    if (leg.type === 'pickup') {
+      if (pickupEta.has(leg.riderId)) return null;
+      if (rider.earliestDeparture !== undefined && time < rider.earliestDeparture) {
+        time = rider.earliestDeparture;
+      }
+      if (rider.latestDeparture !== undefined && time > rider.latestDeparture) return null;
+      pickupEta.set(leg.riderId, time);
+    } else {
+      const pickedUpAt = pickupEta.get(leg.riderId);
+      if (pickedUpAt === undefined) return null;
+      if (rider.latestArrival !== undefined && time > rider.latestArrival) return null;
+
+      const readyAt = rider.earliestDeparture ?? driver.departureTime;
+      timings.push({
+        riderId: leg.riderId,
+        pickupEta: Math.round(pickedUpAt),
+        dropoffEta: Math.round(time),
+        waitMinutes: Math.round((Math.max(0, pickedUpAt - readyAt) / MS_PER_MINUTE) * 10) / 10,
+        inVehicleMinutes: Math.round(((time - pickedUpAt) / MS_PER_MINUTE) * 10) / 10,
+      });
+    }
+
+    stops.push({
+      type: leg.type,
+      riderId: leg.riderId,
+      location: leg.location,
+      eta: Math.round(time),
+      distanceFromPrevKm: legKm,
+    });
+
+    time += dwellMs;
+    position = leg.location;
+  }
+
+  if (timings.length !== pickupEta.size) return null;
+
+  totalDistanceKm += opts.distance(position, driver.destination);
+  time += travelMs(position, driver.destination, opts);
+
+  return {
+    stops,
+    riderTimings: timings,
+    arrivalTime: Math.round(time),
+    totalDistanceKm,
+  };
+}
+
+function totalInVehicleMinutes(pool: SequencedPool): number {
+  return pool.riderTimings.reduce((sum, t) => sum + t.inVehicleMinutes, 0);
+}
+
+function isBetter(candidate: SequencedPool, best: SequencedPool | null): boolean {
+  if (!best) return true;
+  if (candidate.arrivalTime !== best.arrivalTime) return candidate.arrivalTime < best.arrivalTime;
+  return totalInVehicleMinutes(candidate) < totalInVehicleMinutes(best);
+}
+
+// ---------------------------------------------------------------------------
+// Exact search (small pools)
+// ---------------------------------------------------------------------------
+
+function sequenceExact(
+  driver: DriverTrip,
+  riders: SequencerRider[],
+  riderById: Map<string, PoolRider>,
+  opts: Required<SequencerOptions>,
+): SequencedPool | null {
+  const dwellMs = opts.dwellMinutes * MS_PER_MINUTE;
+  const total = riders.length * 2;
+  const order: Leg[] = [];
+  const picked = new Set<string>();
+  const dropped = new Set<string>();
+  let best: SequencedPool | null = null;
+
+  const visit = (position: GeoPoint, time: number): void => {
+    if (order.length === total) {
+      const result = simulateStopSequence(driver, order, riderById, opts);
+      if (result && isBetter(result, best)) best = result;
+      return;
+    }
+
+    // Any completion must still drive from here to the destination.
+    const lowerBound = time + travelMs(position, driver.destination, opts);
+    if (best && lowerBound > (best as SequencedPool).arrivalTime) return;
+
+    for (const rider of riders) {
+      let leg: Leg | null = null;
+      if (!picked.has(rider.riderId)) {
+        leg = { type: 'pickup', riderId: rider.riderId, location: rider.pickup };
+      } else if (!dropped.has(rider.riderId)) {
+        leg = { type: 'dropoff', riderId: rider.riderId, location: rider.dropoff };
+      }
+      if (!leg) continue;
+
+      let arrival = time + travelMs(position, leg.location, opts);
+      if (leg.type === 'pickup') {
+        if (rider.earliestDeparture !== undefined && arrival < rider.earliestDeparture) {
+          arrival = rider.earliestDeparture;
+        }
+        if (rider.latestDeparture !== undefined && arrival > rider.latestDeparture) continue;
+      } else if (rider.latestArrival !== undefined && arrival > rider.latestArrival) {
+        continue;
+      }
+
+      const visited = leg.type === 'pickup' ? picked : dropped;
+      visited.add(rider.riderId);
+      order.push(leg);
+      visit(leg.location, arrival + dwellMs);
+      order.pop();
+      visited.delete(rider.riderId);
+    }
+  };
+
+  visit(driver.departure, driver.departureTime);
+  return best;
+}
+
+// ---------------------------------------------------------------------------
+// Cheapest feasible insertion (large pools)
+// ---------------------------------------------------------------------------
+
+function sequenceByInsertion(
+  driver: DriverTrip,
+  riders: SequencerRider[],
+  riderById: Map<string, PoolRider>,
+  opts: Required<SequencerOptions>,
+): SequencedPool | null {
+  // Tightest pickup windows first so they claim the early slots.
+  const ordered = [...riders].sort(
+    (a, b) => (a.latestDeparture ?? Infinity) - (b.latestDeparture ?? Infinity),
+  );
+
+  let current: Leg[] = [];
+  let currentResult: SequencedPool | null = null;
+
+  for (const rider of ordered) {
+    const pickup: Leg = { type: 'pickup', riderId: rider.riderId, location: rider.pickup };
+    const dropoff: Leg = { type: 'dropoff', riderId: rider.riderId, location: rider.dropoff };
+    const placed = new Map<string, PoolRider>(
+      [...current.map((l) => [l.riderId, riderById.get(l.riderId)!] as const), [rider.riderId, rider]],
+    );
+
+    let bestOrder: Leg[] | null = null;
+    let bestResult: SequencedPool | null = null;
+
+    for (let i = 0; i <= current.length; i++) {
+      for (let j = i; j <= current.length; j++) {
+        const candidate = [
+          ...current.slice(0, i),
+          pickup,
+          ...current.slice(i, j),
+          dropoff,
+          ...current.slice(j),
+        ];
+        const result = simulateStopSequence(driver, candidate, placed, opts);
+        if (result && isBetter(result, bestResult)) {
+          bestOrder = candidate;
+          bestResult = result;
+        }
+      }
+    }
+
+    if (!bestOrder) return null;
+    current = bestOrder;
+    currentResult = bestResult;
+  }
+
+  return currentResult;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Sequence the pickups and drop-offs of a pool.
+ *
+ * @returns The best feasible sequence, or null when no order satisfies
+ *          every rider's time windows.
+ */
+export function sequencePoolStops(
+  driver: DriverTrip,
+  riders: SequencerRider[],
+  options: SequencerOptions = {},
+): SequencedPool | null {
+  const opts = resolveOptions(options);
+  if (riders.length === 0) {
+    return simulateStopSequence(driver, [], new Map(), opts);
+  }
+
+  const riderById = new Map<string, PoolRider>(riders.map((r) => [r.riderId, r]));
+  return riders.length <= opts.maxExactRiders
+    ? sequenceExact(driver, riders, riderById, opts)
+    : sequenceByInsertion(driver, riders, riderById, opts);
+}
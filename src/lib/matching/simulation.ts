@@ -0,0 +1,233 @@
+/**
+ * Klubz Smart Trip Pooling - Matching Simulation
+ *
+ * Replays a historical window of rider requests and driver trips through
+ * the matching engine and pool optimizer under a baseline and a candidate
+ * `MatchConfig`, so admins can see the effect of a config change before
+ * rolling it out.
+ *
+ * The replay is pure and synchronous; loading the window is the
+ * repository's job (`getSimulationWindow`). Trips are replayed as they were
+ * offered — every driver starts with all seats free and every rider request
+ * as pending — so the outcome does not depend on what actually happened.
+ * Distances use the haversine model the default thresholds are tuned for.
+ */
+
+import type {
+  AssignmentStrategy,
+  DriverTrip,
+  MatchConfig,
+  MatchConfigOverrides,
+  MatchResult,
+  PoolRider,
+  RiderRequest,
+} from './types';
+import { matchRiderToDrivers } from './engine';
+import { assignRidersToDrivers } from './optimizer';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Outcome of replaying one window under one config. */
+export interface SimulationMetrics {
+  riders: number;
+  drivers: number;
+  /** Riders with at least one candidate match. */
+  matchedRiders: number;
+  /** matchedRiders / riders (0-1). */
+  matchRate: number;
+  /** Riders placed in a pool after assignment. */
+  assignedRiders: number;
+  /** assignedRiders / riders (0-1). */
+  assignmentRate: number;
+  /** Average score of the assigned matches (lower is better). */
+  averageScore: number;
+  /** Average per-rider detour of the assigned matches. */
+  averageDetourMinutes: number;
+  averageDetourKm: number;
+  /** Carbon saved across assigned riders (kg CO2). */
+  totalCarbonSavedKg: number;
+  /** Seats filled by assigned riders / seats offered (0-1). */
+  seatUtilisation: number;
+}
+
+/** Candidate minus baseline, per metric. */
+export type SimulationMetricsDiff = { [K in keyof SimulationMetrics]: number };
+
+/** One config value that differs between baseline and candidate. */
+export interface MatchConfigChange {
+  /** Dotted path, e.g. `weights.detourCost`. */
+  path: string;
+  baseline: unknown;
+  candidate: unknown;
+}
+
+export interface SimulationComparison {
+  strategy: AssignmentStrategy;
+  configChanges: MatchConfigChange[];
+  baseline: SimulationMetrics;
+  candidate: SimulationMetrics;
+  diff: SimulationMetricsDiff;
+}
+
+// ---------------------------------------------------------------------------
+// Config helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply partial overrides on top of a full config (same merge as stored
+ * org overrides are applied to the defaults).
+ */
+export function applyMatchConfigOverrides(
+  base: MatchConfig,
+  overrides: MatchConfigOverrides,
+): MatchConfig {
+  return {
+    ...base,
+    ...overrides,
+    weights: { ...base.weights, ...overrides.weights },
+    thresholds: { ...base.thresholds, ...overrides.thresholds },
+  };
+}
+
+/**
+ * List the config values that differ between two configs.
+ */
+export function diffMatchConfigs(
+  baseline: MatchConfig,
+  candidate: MatchConfig,
+): MatchConfigChange[] {
+  const changes: MatchConfigChange[] = [];
+
+  const compare = (prefix: string, a: object, b: object) => {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      const av = (a as Record<string, unknown>)[key];
+      const bv = (b as Record<string, unknown>)[key];
+      if (av !== null && bv !== null && typeof av === 'object' && typeof bv === 'object') {
+        compare(`${prefix}${key}.`, av, bv);
+      } else if (av !== bv) {
+        changes.push({ path: `${prefix}${key}`, baseline: av, candidate: bv });
+      }
+    }
+  };
+
+  compare('', baseline, candidate);
+  return changes;
+}
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/**
+ * Replay rider requests against driver trips under one config.
+ */
+export function simulateMatching(
+  riders: RiderRequest[],
+  drivers: DriverTrip[],
+  config: MatchConfig,
+  strategy: AssignmentStrategy = 'greedy',
+): SimulationMetrics {
+  // Reset to the offered state. Request ids stand in for rider ids so a
+  // rider with several requests in the window is replayed once per request.
+  const offered: DriverTrip[] = drivers.map((d) => ({
+    ...d,
+    status: 'offered',
+    availableSeats: d.totalSeats,
+  }));
+  const requests: RiderRequest[] = riders.map((r) => ({
+    ...r,
+    riderId: r.id,
+    status: 'pending',
+  }));
+
+  const driverMap = new Map(offered.map((d) => [d.id, d]));
+  const riderMatches = new Map<string, MatchResult[]>();
+  const riderMap = new Map<string, PoolRider>();
+  const seatsNeeded = new Map<string, number>();
+  let matchedRiders = 0;
+
+  for (const rider of requests) {
+    const { matches } = matchRiderToDrivers(rider, offered, config);
+    if (matches.length > 0) matchedRiders++;
+    riderMatches.set(rider.id, matches);
+    seatsNeeded.set(rider.riderId, rider.seatsNeeded);
+    riderMap.set(rider.riderId, {
+      pickup: rider.pickup,
+      dropoff: rider.dropoff,
+      earliestDeparture: rider.earliestDeparture,
+      latestDeparture: rider.latestDeparture,
+      latestArrival: rider.latestArrival,
+    });
+  }
+
+  const assignments = assignRidersToDrivers(riderMatches, driverMap, riderMap, config, strategy);
+  const assigned = [...assignments.values()].map(({ match }) => match);
+
+  // Seats filled per driver, capped at capacity (greedy may over-assign)
+  const seatsFilled = new Map<string, number>();
+  for (const match of assigned) {
+    seatsFilled.set(
+      match.driverTripId,
+      (seatsFilled.get(match.driverTripId) ?? 0) + (seatsNeeded.get(match.riderId) ?? 1),
+    );
+  }
+  let filled = 0;
+  for (const [driverTripId, seats] of seatsFilled) {
+    filled += Math.min(seats, driverMap.get(driverTripId)?.totalSeats ?? seats);
+  }
+  const offeredSeats = offered.reduce((sum, d) => sum + d.totalSeats, 0);
+
+  return {
+    riders: requests.length,
+    drivers: offered.length,
+    matchedRiders,
+    matchRate: round(requests.length > 0 ? matchedRiders / requests.length : 0, 4),
+    assignedRiders: assigned.length,
+    assignmentRate: round(requests.length > 0 ? assigned.length / requests.length : 0, 4),
+    averageScore: round(average(assigned.map((m) => m.score)), 4),
+    averageDetourMinutes: round(average(assigned.map((m) => m.estimatedDetourMinutes ?? 0)), 2),
+    averageDetourKm: round(average(assigned.map((m) => m.breakdown.detourDistanceKm ?? 0)), 2),
+    totalCarbonSavedKg: round(assigned.reduce((sum, m) => sum + (m.carbonSavedKg ?? 0), 0), 2),
+    seatUtilisation: round(offeredSeats > 0 ? filled / offeredSeats : 0, 4),
+  };
+}
+
+/**
+ * Replay the same window under a baseline and a candidate config and
+ * report the candidate's metrics as a diff against the baseline.
+ */
+export function compareMatchConfigs(
+  riders: RiderRequest[],
+  drivers: DriverTrip[],
+  baselineConfig: MatchConfig,
+  candidateConfig: MatchConfig,
+  strategy: AssignmentStrategy = 'greedy',
+): SimulationComparison {
+  const baseline = simulateMatching(riders, drivers, baselineConfig, strategy);
+  const candidate = simulateMatching(riders, drivers, candidateConfig, strategy);
+
+  const diff = {} as SimulationMetricsDiff;
+  for (const key of Object.keys(baseline) as Array<keyof SimulationMetrics>) {
+    diff[key] = round(candidate[key] - baseline[key], 4);
+  }
+
+  return {
+    strategy,
+    configChanges: diffMatchConfigs(baselineConfig, candidateConfig),
+    baseline,
+    candidate,
+    diff,
+  };
+}
@@ -59,6 +59,8 @@ export interface DriverTrip {
   destination: GeoPoint;
   /** Office / workplace / shift destination (used for shift-alignment). */
   shiftLocation?: GeoPoint;
+  /** Intermediate stops between departure and destination, in driving order. */
+  waypoints?: GeoPoint[];
 
   /** Unix timestamp (ms) – planned departure. */
   departureTime: number;
@@ -68,6 +70,20 @@ export interface DriverTrip {
   availableSeats: number;
   totalSeats: number;
 
+  /**
+   * Free seats on each leg between consecutive stops (departure,
+   * waypoints…, destination). Only set on multi-stop trips, where a seat
+   * freed at a waypoint can be booked again for the legs after it.
+   */
+  legSeats?: number[];
+
+  /**
+   * Seats already held on the trip, by route interval in km from the
+   * departure. Only set when the trip has holds; `availableSeats` is then
+   * what is free along the whole route.
+   */
+  seatHolds?: { startKm: number; endKm: number; seats: number }[];
+
   /** Decoded route polyline (Google / Mapbox etc.). */
   routePolyline: GeoPoint[];
 
@@ -82,6 +98,15 @@ export interface DriverTrip {
   /** Driver rating (1-5 scale). */
   driverRating?: number;
 
+  /** Driver reliability score (0-100) from no-shows and late cancellations. */
+  driverReliability?: number;
+
+  /**
+   * Driver gender, only present when the driver opted in to share it for
+   * matching. Used solely to honour `RiderPreferences.genderPreference`.
+   */
+  driverGender?: 'male' | 'female';
+
   /** Vehicle info for display purposes. */
   vehicle?: VehicleInfo;
 
@@ -132,6 +157,8 @@ export interface RiderRequest {
   earliestDeparture: number;
   /** Unix ts (ms) – latest acceptable departure. */
   latestDeparture: number;
+  /** Unix ts (ms) – optional drop-off deadline used when sequencing pools. */
+  latestArrival?: number;
 
   /** Number of seats the rider needs (default 1). */
   seatsNeeded: number;
@@ -192,6 +219,28 @@ export interface ScoreBreakdown {
 
   /** Driver rating component (0-1, lower is better). */
   ratingScore?: number;
+
+  /** Driver reliability component (0-1, lower is better). */
+  reliabilityScore?: number;
+
+  /** Hard rider preferences this match was checked against and satisfies. */
+  preferencesMet?: Array<'genderPreference' | 'minDriverRating'>;
+}
+
+/** Why a candidate was removed by a hard rider preference. */
+export type PreferenceExclusionReason =
+  | 'gender_preference_not_met'
+  | 'driver_rating_too_low'
+  | 'driver_rating_unknown';
+
+/**
+ * A candidate driver trip excluded because of a rider preference.
+ * Reported alongside matches so riders can see why a nearby trip is missing.
+ */
+export interface PreferenceExclusion {
+  driverTripId: string;
+  reason: PreferenceExclusionReason;
+  explanation: string;
 }
 
 /**
@@ -259,6 +308,17 @@ export interface PoolAssignment {
 
   /** Suggested ordered stop list for the driver. */
   orderedStops: PoolStop[];
+  /** Per-rider pickup / drop-off ETAs, wait and in-vehicle time. */
+  riderTimings: PoolRiderTiming[];
+
+  /** Solver that produced this assignment. */
+  solver: PoolSolver;
+  /**
+   * Relative gap between this assignment's objective and the best proven
+   * lower bound (0 = proven optimal). `null` when the solver does not
+   * compute a bound (greedy).
+   */
+  optimalityGap: number | null;
 }
 
 export interface PoolStop {
@@ -271,6 +331,33 @@ export interface PoolStop {
   distanceFromPrevKm?: number;
 }
 
+/**
+ * Locations and time windows of a rider being sequenced into a pool.
+ * Windows are optional; a missing bound is treated as unconstrained.
+ */
+export interface PoolRider {
+  pickup: GeoPoint;
+  dropoff: GeoPoint;
+  /** Unix ts (ms) – the driver waits at the pickup until this time. */
+  earliestDeparture?: number;
+  /** Unix ts (ms) – pickup must happen no later than this. */
+  latestDeparture?: number;
+  /** Unix ts (ms) – drop-off must happen no later than this. */
+  latestArrival?: number;
+}
+
+export interface PoolRiderTiming {
+  riderId: string;
+  /** Estimated pickup time (unix ms). */
+  pickupEta: number;
+  /** Estimated drop-off time (unix ms). */
+  dropoffEta: number;
+  /** Minutes between the rider's earliest departure and the pickup. */
+  waitMinutes: number;
+  /** Minutes spent in the vehicle between pickup and drop-off. */
+  inVehicleMinutes: number;
+}
+
 // ---------------------------------------------------------------------------
 // Matching Configuration
 // ---------------------------------------------------------------------------
@@ -284,6 +371,7 @@ export interface MatchWeights {
   shiftAlignment: number;
   detourCost: number;
   driverRating: number;
+  driverReliability: number;
 }
 
 /** Hard-limit thresholds that reject candidates before scoring. */
@@ -306,6 +394,24 @@ export interface MatchThresholds {
   maxAbsoluteDetourKm: number;
 }
 
+/**
+ * Pool optimisation strategy.
+ *
+ * - `greedy`            cheapest-insertion greedy, O(N * K)
+ * - `branch_and_bound`  exact search over rider subsets seeded with the
+ *                       greedy result, cut off after `poolSolverTimeBudgetMs`
+ */
+export type PoolSolver = 'greedy' | 'branch_and_bound';
+
+/**
+ * How riders are distributed across drivers when several drivers compete:
+ * - `greedy`  optimise each driver's pool independently, then give each
+ *             rider the best pool they appear in
+ * - `global`  min-cost flow over the whole score matrix: maximise matched
+ *             riders, then minimise total score
+ */
+export type AssignmentStrategy = 'greedy' | 'global';
+
 /** Full matching configuration. */
 export interface MatchConfig {
   weights: MatchWeights;
@@ -324,6 +430,25 @@ export interface MatchConfig {
    * running total above this limit. Default: 10 km.
    */
   maxPoolDetourKm: number;
+  /** Solver used by `optimizePool`. Default: branch_and_bound. */
+  poolSolver: PoolSolver;
+  /**
+   * Wall-clock budget for the branch-and-bound solver (ms). When exceeded
+   * the best assignment found so far is returned with a non-zero gap.
+   */
+  poolSolverTimeBudgetMs: number;
+}
+
+/** Partial per-organization config overrides, as stored in `matching_config`. */
+export interface MatchConfigOverrides {
+  weights?: Partial<MatchWeights>;
+  thresholds?: Partial<MatchThresholds>;
+  maxResults?: MatchConfig['maxResults'];
+  enableMultiRider?: MatchConfig['enableMultiRider'];
+  maxRidersPerPool?: MatchConfig['maxRidersPerPool'];
+  maxPoolDetourMinutes?: MatchConfig['maxPoolDetourMinutes'];
+  poolSolver?: MatchConfig['poolSolver'];
+  poolSolverTimeBudgetMs?: MatchConfig['poolSolverTimeBudgetMs'];
 }
 
 /** Default production configuration. */
@@ -331,11 +456,12 @@ export const DEFAULT_MATCH_CONFIG: MatchConfig = {
   weights: {
     pickupDistance:   0.30,  // "closest rider" — unchanged
     dropoffDistance:  0.30,  // unchanged
-    timeMatch:        0.15,  // ↓ from 0.18
+    timeMatch:        0.13,  // ↓ from 0.15
     seatAvailability: 0.05,  // ↓ from 0.07
     shiftAlignment:   0.02,  // ↓ from 0.05 (minor factor)
-    detourCost:       0.13,  // ↑ from 0.05 — route efficiency priority
+    detourCost:       0.11,  // ↓ from 0.13 — still the main route efficiency factor
     driverRating:     0.05,  // unchanged
+    driverReliability: 0.04, // new — penalises no-shows and late cancellations
     // total: 1.00
   },
   thresholds: {
@@ -351,6 +477,8 @@ export const DEFAULT_MATCH_CONFIG: MatchConfig = {
   maxRidersPerPool: 4,
   maxPoolDetourMinutes: 20,   // kept for display / backward compat
   maxPoolDetourKm: 10,         // cumulative pool budget: sum of marginal detours ≤ 10 km
+  poolSolver: 'branch_and_bound',
+  poolSolverTimeBudgetMs: 25,  // keeps a find-pool request well inside the Worker CPU limit
 };
 
 // ---------------------------------------------------------------------------
@@ -365,6 +493,7 @@ export interface FindMatchesRequest {
 export interface FindMatchesResponse {
   matches: MatchResult[];
   pool?: PoolAssignment | null;
+  excluded?: PreferenceExclusion[];
   meta: {
     candidatesEvaluated: number;
     matchesFound: number;
@@ -377,6 +506,8 @@ export interface CreateDriverTripRequest {
   departure: GeoLocation;
   destination: GeoLocation;
   shiftLocation?: GeoLocation;
+  /** Ordered intermediate stops, e.g. a school drop-off on the way to work. */
+  waypoints?: GeoLocation[];
   departureTime: number;
   arrivalTime?: number;
   availableSeats: number;
@@ -390,6 +521,7 @@ export interface CreateRiderRequestPayload {
   dropoff: GeoLocation;
   earliestDeparture: number;
   latestDeparture: number;
+  latestArrival?: number;
   seatsNeeded?: number;
   preferences?: RiderPreferences;
 }
@@ -0,0 +1,493 @@
+/**
+ * Klubz - No-show Detection
+ *
+ * Rider no-shows: the driver marks arrival at a rider's pickup
+ * (`POST /api/trips/:tripId/arrive` with `riderId`). If the rider hasn't
+ * marked their own arrival once the policy's `riderNoShowGraceMinutes`
+ * have passed, the driver can flag them, or the hourly cron does. The
+ * rider is charged the no-show fee and the driver gets their share.
+ *
+ * Driver no-shows: a scheduled trip still without a location update
+ * `DRIVER_LOCATION_WINDOW_MS` before departure, `driverNoShowGraceMinutes`
+ * after departure, is cancelled and its riders refunded in full.
+ *
+ * Every no-show is stored in `no_show_events` and refreshes the user's
+ * reliability score.
+ */
+
+import type { D1Database } from '../types';
+import type { StripeService } from '../integrations/stripe';
+import { logger } from './logger';
+import { createNotification } from './notificationStore';
+import { refreshReliabilityScore } from './reliability';
+import {
+  assessCancellation,
+  bookingAmountsCents,
+  describeAssessment,
+  hoursUntil,
+  loadCancellationPolicy,
+  recordCancellation,
+  transferDriverCompensation,
+} from './cancellationPolicy';
+import type { CancellationAssessment, CancellationPolicy } from './cancellationPolicy';
+
+/** Location updates this long before departure count as the driver showing up. */
+export const DRIVER_LOCATION_WINDOW_MS = 30 * 60 * 1000;
+/** Trips departed longer ago than this are no longer checked. */
+const DRIVER_NO_SHOW_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+const NO_SHOW_BATCH_LIMIT = 100;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type NoShowDetector = 'driver' | 'cron';
+
+export interface RiderNoShowRow {
+  participant_id: number;
+  trip_id: number;
+  user_id: number;
+  passenger_count: number | null;
+  payment_status: string | null;
+  payment_intent_id: string | null;
+  amount_paid: number | null;
+  split_fare_cents: number | null;
+  driver_arrived_at: string | null;
+  rider_arrived_at: string | null;
+  price_per_seat: number | null;
+  departure_time: string;
+  driver_id: number;
+  organization_id: string | null;
+}
+
+interface DriverNoShowTripRow {
+  id: number;
+  driver_id: number;
+  title: string | null;
+  departure_time: string;
+  last_location_at: string | null;
+  organization_id: string | null;
+}
+
+interface AcceptedRiderRow {
+  participant_id: number;
+  user_id: number;
+  passenger_count: number | null;
+  payment_status: string | null;
+  payment_intent_id: string | null;
+  amount_paid: number | null;
+  split_fare_cents: number | null;
+  price_per_seat: number | null;
+}
+
+export const RIDER_NO_SHOW_COLUMNS = `
+  tp.id AS participant_id, tp.trip_id, tp.user_id, tp.passenger_count, tp.payment_status,
+  tp.payment_intent_id, tp.amount_paid, tp.split_fare_cents, tp.driver_arrived_at, tp.rider_arrived_at,
+  t.price_per_seat, t.departure_time, t.driver_id, d.organization_id`;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** When a rider the driver is waiting for becomes a no-show, or null if the driver hasn't arrived. */
+export function riderNoShowDueAt(driverArrivedAt: string | null, policy: CancellationPolicy): number | null {
+  const arrivedMs = driverArrivedAt ? Date.parse(driverArrivedAt) : Number.NaN;
+  return Number.isFinite(arrivedMs) ? arrivedMs + policy.riderNoShowGraceMinutes * 60_000 : null;
+}
+
+/** Whether a scheduled trip's driver is a no-show at `now`. */
+export function isDriverNoShow(
+  trip: { departure_time: string; last_location_at: string | null },
+  policy: CancellationPolicy,
+  now: number,
+): boolean {
+  const departureMs = Date.parse(trip.departure_time);
+  if (!Number.isFinite(departureMs)) return false;
+  if (now < departureMs + policy.driverNoShowGraceMinutes * 60_000) return false;
+  const lastLocationMs = trip.last_location_at ? Date.parse(trip.last_location_at) : Number.NaN;
+  return !Number.isFinite(lastLocationMs) || lastLocationMs < departureMs - DRIVER_LOCATION_WINDOW_MS;
+}
+
+async function insertNoShowEvent(
+  db: D1Database,
+  event: { tripId: number; participantId: number | null; userId: number; role: 'rider' | 'driver'; detectedBy: NoShowDetector; graceMinutes: number },
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO no_show_events (trip_id, participant_id, user_id, role, detected_by, grace_minutes)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    )
+    .bind(event.tripId, event.participantId, event.userId, event.role, event.detectedBy, event.graceMinutes)
+    .run();
+}
+
+async function refundPayment(
+  stripe: StripeService | null,
+  paymentIntentId: string | null,
+  cents: number,
+): Promise<string | null> {
+  if (!stripe || !paymentIntentId || cents <= 0) return null;
+  const refund = await stripe.createRefund(paymentIntentId, cents);
+  return refund.id;
+}
+
+/** Reflect a no-show refund (or the lack of one) on a paid booking. */
+async function markPaymentSettled(
+  db: D1Database,
+  participantId: number,
+  refundId: string | null,
+  refundCents: number,
+): Promise<void> {
+  await db
+    .prepare(
+      `UPDATE trip_participants
+       SET payment_status = ?, amount_refunded = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+    )
+    .bind(refundId ? 'refunded' : 'paid', refundId ? refundCents / 100 : 0, participantId)
+    .run();
+}
+
+async function notify(
+  db: D1Database,
+  input: { userId: number; tripId: number; subject: string; message: string; metadata: Record<string, unknown> },
+): Promise<void> {
+  try {
+    await createNotification(db, {
+      userId: input.userId,
+      tripId: input.tripId,
+      notificationType: 'system',
+      channel: 'in_app',
+      status: 'sent',
+      subject: input.subject,
+      message: input.message,
+      metadata: input.metadata,
+    });
+  } catch (err) {
+    logger.warn('Failed to persist no-show notification', {
+      userId: input.userId,
+      tripId: input.tripId,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Rider no-shows
+// ---------------------------------------------------------------------------
+
+/**
+ * Charge a rider the no-show fee and cancel their booking. Returns null
+ * when the booking was already resolved by another request.
+ */
+export async function flagRiderNoShow(
+  db: D1Database,
+  stripe: StripeService | null,
+  booking: RiderNoShowRow,
+  policy: CancellationPolicy,
+  options: { detectedBy: NoShowDetector; now?: number },
+): Promise<CancellationAssessment | null> {
+  const now = options.now ?? Date.now();
+  const { fareCents, paidCents } = bookingAmountsCents(booking);
+  const fees = assessCancellation(policy, {
+    initiator: 'rider',
+    hoursBeforeDeparture: hoursUntil(booking.departure_time, now),
+    fareCents,
+    paidCents,
+    noShow: true,
+  });
+
+  // Claim the booking first so concurrent detections can't charge twice
+  const update = await db
+    .prepare(
+      `UPDATE trip_participants
+       SET status = 'cancelled', no_show_at = ?, cancelled_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND status = 'accepted' AND no_show_at IS NULL AND boarded_at IS NULL`,
+    )
+    .bind(new Date(now).toISOString(), booking.participant_id)
+    .run();
+  if (update.meta?.changes === 0) return null;
+
+  let refundId: string | null = null;
+  try {
+    refundId = await refundPayment(stripe, booking.payment_intent_id, fees.refundCents);
+  } catch (err) {
+    logger.error('Failed to refund rider no-show balance', err instanceof Error ? err : undefined, {
+      participantId: booking.participant_id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+  if (booking.payment_status === 'paid') {
+    await markPaymentSettled(db, booking.participant_id, refundId, fees.refundCents);
+  }
+
+  const compensation = await transferDriverCompensation(db, stripe, {
+    driverId: booking.driver_id,
+    tripId: booking.trip_id,
+    participantId: booking.participant_id,
+    cents: fees.driverCompensationCents,
+  });
+
+  try {
+    await recordCancellation(db, {
+      tripId: booking.trip_id,
+      participantId: booking.participant_id,
+      cancelledBy: booking.user_id,
+      assessment: fees,
+      refundId,
+      compensationStatus: compensation.status,
+      compensationTransferId: compensation.transferId,
+    });
+    await insertNoShowEvent(db, {
+      tripId: booking.trip_id,
+      participantId: booking.participant_id,
+      userId: booking.user_id,
+      role: 'rider',
+      detectedBy: options.detectedBy,
+      graceMinutes: policy.riderNoShowGraceMinutes,
+    });
+  } catch (err) {
+    logger.warn('Rider no-show record insert failed', {
+      participantId: booking.participant_id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+  await refreshReliabilityScore(db, booking.user_id);
+
+  await notify(db, {
+    userId: booking.user_id,
+    tripId: booking.trip_id,
+    subject: 'Marked as no-show',
+    message: `Your driver waited ${policy.riderNoShowGraceMinutes} minutes at the pickup. ${describeAssessment(fees)}.`,
+    metadata: { tripId: booking.trip_id, bookingId: booking.participant_id, fees },
+  });
+  if (fees.driverCompensationCents > 0) {
+    await notify(db, {
+      userId: booking.driver_id,
+      tripId: booking.trip_id,
+      subject: 'Rider no-show',
+      message: `A rider didn't show up. You'll receive R${(fees.driverCompensationCents / 100).toFixed(2)} compensation.`,
+      metadata: { tripId: booking.trip_id, bookingId: booking.participant_id, driverCompensationCents: fees.driverCompensationCents },
+    });
+  }
+
+  return fees;
+}
+
+/** Flag riders whose grace period after the driver's arrival has run out. */
+export async function detectRiderNoShows(
+  db: D1Database,
+  stripe: StripeService | null,
+  now = Date.now(),
+): Promise<number> {
+  const rows = await db
+    .prepare(
+      `SELECT ${RIDER_NO_SHOW_COLUMNS}
+       FROM trip_participants tp
+       JOIN trips t ON t.id = tp.trip_id
+       LEFT JOIN users d ON d.id = t.driver_id
+       WHERE tp.role = 'rider'
+         AND tp.status = 'accepted'
+         AND tp.driver_arrived_at IS NOT NULL
+         AND tp.driver_arrived_at <= ?
+         AND tp.rider_arrived_at IS NULL
+         AND tp.no_show_at IS NULL
+         AND t.status IN ('scheduled', 'active')
+       LIMIT ${NO_SHOW_BATCH_LIMIT}`,
+    )
+    .bind(new Date(now).toISOString())
+    .all<RiderNoShowRow>();
+
+  const policies = new Map<string, CancellationPolicy>();
+  let flagged = 0;
+  for (const row of rows.results ?? []) {
+    const orgKey = row.organization_id ?? '';
+    let policy = policies.get(orgKey);
+    if (!policy) {
+      policy = await loadCancellationPolicy(db, row.organization_id);
+      policies.set(orgKey, policy);
+    }
+    const dueAt = riderNoShowDueAt(row.driver_arrived_at, policy);
+    if (dueAt === null || now < dueAt) continue;
+
+    try {
+      if (await flagRiderNoShow(db, stripe, row, policy, { detectedBy: 'cron', now })) flagged++;
+    } catch (err) {
+      logger.warn('detectRiderNoShows: booking failed', {
+        participantId: row.participant_id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return flagged;
+}
+
+// ---------------------------------------------------------------------------
+// Driver no-shows
+// ---------------------------------------------------------------------------
+
+/**
+ * Cancel a trip whose driver never showed up, refund its riders in full
+ * and record the no-show. Returns the riders' assessments, or null when
+ * the trip had already moved on.
+ */
+export async function flagDriverNoShow(
+  db: D1Database,
+  stripe: StripeService | null,
+  trip: DriverNoShowTripRow,
+  policy: CancellationPolicy,
+  now = Date.now(),
+): Promise<CancellationAssessment[] | null> {
+  const update = await db
+    .prepare(
+      `UPDATE trips SET status = 'cancelled', cancelled_at = CURRENT_TIMESTAMP, driver_no_show_at = ?
+       WHERE id = ? AND status = 'scheduled' AND driver_no_show_at IS NULL`,
+    )
+    .bind(new Date(now).toISOString(), trip.id)
+    .run();
+  if (update.meta?.changes === 0) return null;
+
+  const riders = await db
+    .prepare(
+      `SELECT tp.id AS participant_id, tp.user_id, tp.passenger_count, tp.payment_status, tp.payment_intent_id,
+              tp.amount_paid, tp.split_fare_cents, t.price_per_seat
+       FROM trip_participants tp
+       JOIN trips t ON t.id = tp.trip_id
+       WHERE tp.trip_id = ? AND tp.role = 'rider' AND tp.status = 'accepted'`,
+    )
+    .bind(trip.id)
+    .all<AcceptedRiderRow>();
+
+  const assessments: CancellationAssessment[] = [];
+  for (const rider of riders.results ?? []) {
+    const { fareCents, paidCents } = bookingAmountsCents(rider);
+    const fees = assessCancellation(policy, {
+      initiator: 'driver',
+      hoursBeforeDeparture: hoursUntil(trip.departure_time, now),
+      fareCents,
+      paidCents,
+      noShow: true,
+    });
+    assessments.push(fees);
+
+    let refundId: string | null = null;
+    try {
+      refundId = await refundPayment(stripe, rider.payment_intent_id, fees.refundCents);
+    } catch (err) {
+      logger.error('Failed to refund rider after driver no-show', err instanceof Error ? err : undefined, {
+        participantId: rider.participant_id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    await db
+      .prepare(
+        `UPDATE trip_participants
+         SET status = 'cancelled', cancelled_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+      )
+      .bind(rider.participant_id)
+      .run();
+    if (refundId) await markPaymentSettled(db, rider.participant_id, refundId, fees.refundCents);
+
+    try {
+      await recordCancellation(db, {
+        tripId: trip.id,
+        participantId: rider.participant_id,
+        cancelledBy: trip.driver_id,
+        assessment: fees,
+        refundId,
+      });
+    } catch (err) {
+      logger.warn('Driver no-show cancellation record failed', {
+        participantId: rider.participant_id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    await notify(db, {
+      userId: rider.user_id,
+      tripId: trip.id,
+      subject: 'Driver did not show up',
+      message: `Your driver didn't show up for ${trip.title || 'your trip'}, so it was cancelled. ${describeAssessment(fees)}.`,
+      metadata: { tripId: trip.id, bookingId: rider.participant_id, fees },
+    });
+  }
+
+  try {
+    await insertNoShowEvent(db, {
+      tripId: trip.id,
+      participantId: null,
+      userId: trip.driver_id,
+      role: 'driver',
+      detectedBy: 'cron',
+      graceMinutes: policy.driverNoShowGraceMinutes,
+    });
+  } catch (err) {
+    logger.warn('Driver no-show record insert failed', {
+      tripId: trip.id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+  await refreshReliabilityScore(db, trip.driver_id);
+
+  await notify(db, {
+    userId: trip.driver_id,
+    tripId: trip.id,
+    subject: 'Trip cancelled: no-show',
+    message: `We didn't receive your location before ${trip.title || 'your trip'} departed, so it was cancelled and your riders were refunded.`,
+    metadata: {
+      tripId: trip.id,
+      driverPenaltyCents: assessments.reduce((sum, fees) => sum + fees.driverPenaltyCents, 0),
+    },
+  });
+
+  return assessments;
+}
+
+/** Cancel recently departed trips whose drivers never sent a location. */
+export async function detectDriverNoShows(
+  db: D1Database,
+  stripe: StripeService | null,
+  now = Date.now(),
+): Promise<number> {
+  const rows = await db
+    .prepare(
+      `SELECT t.id, t.driver_id, t.title, t.departure_time, t.last_location_at, d.organization_id
+       FROM trips t
+       LEFT JOIN users d ON d.id = t.driver_id
+       WHERE t.status = 'scheduled'
+         AND t.driver_no_show_at IS NULL
+         AND t.departure_time <= ?
+         AND t.departure_time >= ?
+         AND EXISTS (
+           SELECT 1 FROM trip_participants tp
+           WHERE tp.trip_id = t.id AND tp.role = 'rider' AND tp.status = 'accepted'
+         )
+       LIMIT ${NO_SHOW_BATCH_LIMIT}`,
+    )
+    .bind(new Date(now).toISOString(), new Date(now - DRIVER_NO_SHOW_LOOKBACK_MS).toISOString())
+    .all<DriverNoShowTripRow>();
+
+  const policies = new Map<string, CancellationPolicy>();
+  let flagged = 0;
+  for (const trip of rows.results ?? []) {
+    const orgKey = trip.organization_id ?? '';
+    let policy = policies.get(orgKey);
+    if (!policy) {
+      policy = await loadCancellationPolicy(db, trip.organization_id);
+      policies.set(orgKey, policy);
+    }
+    if (!isDriverNoShow(trip, policy, now)) continue;
+
+    try {
+      if (await flagDriverNoShow(db, stripe, trip, policy, now)) flagged++;
+    } catch (err) {
+      logger.warn('detectDriverNoShows: trip failed', {
+        tripId: trip.id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return flagged;
+}
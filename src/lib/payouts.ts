@@ -0,0 +1,87 @@
+/**
+ * Klubz - Driver Payouts
+ *
+ * Every Stripe Connect transfer to a driver goes through `transferToDriver`:
+ * the driver's share of a rider's fare once the trip is completed, and the
+ * driver's part of a late-cancellation fee. A failed transfer is recorded
+ * as `failed` and retried by the daily cron.
+ */
+
+import type { D1Database } from '../types';
+import type { StripeService } from '../integrations/stripe';
+
+/** Share of a rider's fare paid out to the driver. */
+export const DRIVER_PAYOUT_SHARE = 0.85;
+
+export type TransferOutcome =
+  | { ok: true; transferId: string }
+  | { ok: false; error: string };
+
+export interface RiderPayoutInput {
+  id: number;
+  trip_id: number;
+  passenger_count: number | null;
+  amount_paid: number | null;
+  price_per_seat: number | null;
+}
+
+/** Transfer `cents` (ZAR) to a driver's Connect account. Never throws. */
+export async function transferToDriver(
+  stripe: StripeService,
+  destination: string,
+  cents: number,
+  metadata: Record<string, string>,
+): Promise<TransferOutcome> {
+  try {
+    const transfer = await stripe.createTransfer(cents, 'zar', destination, metadata);
+    return { ok: true, transferId: transfer.id };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/** The driver's share of what a rider paid, in cents. */
+export function riderPayoutCents(payout: RiderPayoutInput): number {
+  const passengers = Math.max(1, Number(payout.passenger_count ?? 1));
+  const amountPaid = Number(payout.amount_paid ?? ((payout.price_per_seat ?? 0) * passengers));
+  return Math.max(0, Math.round(amountPaid * DRIVER_PAYOUT_SHARE * 100));
+}
+
+/**
+ * Pay the driver's share of a rider's fare out and record the outcome on
+ * the booking. Returns null when there is nothing to pay.
+ */
+export async function payOutRiderFare(
+  db: D1Database,
+  stripe: StripeService,
+  destination: string,
+  payout: RiderPayoutInput,
+  metadata: Record<string, string> = {},
+): Promise<TransferOutcome | null> {
+  const cents = riderPayoutCents(payout);
+  if (cents <= 0) return null;
+
+  const outcome = await transferToDriver(stripe, destination, cents, {
+    tripId: String(payout.trip_id),
+    participantId: String(payout.id),
+    ...metadata,
+  });
+  if (outcome.ok) {
+    await db
+      .prepare(`
+        UPDATE trip_participants
+        SET payout_status = 'transferred',
+            payout_transfer_id = ?,
+            payout_transferred_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `)
+      .bind(outcome.transferId, payout.id)
+      .run();
+  } else {
+    await db
+      .prepare(`UPDATE trip_participants SET payout_status = 'failed' WHERE id = ?`)
+      .bind(payout.id)
+      .run();
+  }
+  return outcome;
+}
@@ -1,3 +1,7 @@
+import type { D1Database } from '../types';
+import type { RoutingProvider } from './routing';
+import { logger } from './logger';
+
 export const TRIP_RATES = {
   DAILY_PER_KM: 2.85,
   MONTHLY_PER_KM: 2.15,
@@ -7,10 +11,218 @@ export const TRIP_RATES = {
 
 export type TripType = 'daily' | 'monthly';
 
+/** Per-km rates and fare caps; organisations may have their own card. */
+export interface RateCard {
+  organizationId: string | null;
+  dailyPerKm: number;
+  monthlyPerKm: number;
+  /** Per-trip floor and ceiling, applied after multipliers. */
+  minFareCents: number;
+  maxFareCents: number;
+  /** How pooled riders are charged; see `lib/fareSplit`. */
+  fareSplitMode: FareSplitMode;
+  /** Discount (0-0.5) on km shared with other riders. */
+  poolingDiscount: number;
+}
+
+export type FareSplitMode = 'per_seat' | 'shared_distance';
+
+export const DEFAULT_RATE_CARD: RateCard = {
+  organizationId: null,
+  dailyPerKm: TRIP_RATES.DAILY_PER_KM,
+  monthlyPerKm: TRIP_RATES.MONTHLY_PER_KM,
+  minFareCents: 1500,
+  maxFareCents: 50000,
+  fareSplitMode: 'shared_distance',
+  poolingDiscount: 0.1,
+};
+
+export function rateForTripType(tripType: TripType, rateCard: RateCard = DEFAULT_RATE_CARD): number {
+  return tripType === 'monthly' ? rateCard.monthlyPerKm : rateCard.dailyPerKm;
+}
+
 /** Fare in ZAR cents: distanceKm x rate */
-export function calculateFareCents(distanceKm: number, tripType: TripType): number {
-  const rate = tripType === 'monthly' ? TRIP_RATES.MONTHLY_PER_KM : TRIP_RATES.DAILY_PER_KM;
-  return Math.round(distanceKm * rate * 100);
+export function calculateFareCents(
+  distanceKm: number,
+  tripType: TripType,
+  rateCard: RateCard = DEFAULT_RATE_CARD,
+): number {
+  return Math.round(distanceKm * rateForTripType(tripType, rateCard) * 100);
+}
+
+// ---------------------------------------------------------------------------
+// Pricing engine: time-of-day, demand and rate-card rules
+// ---------------------------------------------------------------------------
+
+/**
+ * Time rules are expressed in South African wall-clock time (SAST, UTC+2,
+ * no daylight saving) since that is when peaks actually happen.
+ */
+export const PRICING_UTC_OFFSET_MINUTES = 120;
+
+/** Local departure slot a fare is priced for. */
+export interface PricingSlot {
+  /** ISO weekday: 1=Mon .. 7=Sun */
+  weekday: number;
+  minuteOfDay: number;
+}
+
+export interface TimePricingRule {
+  id: string;
+  label: string;
+  weekdays: number[];
+  /** HH:MM local; a start after the end wraps past midnight. */
+  start: string;
+  end: string;
+  multiplier: number;
+}
+
+/** Evaluated in order; the first matching rule applies. */
+export const TIME_PRICING_RULES: readonly TimePricingRule[] = [
+  { id: 'weekday_morning_peak', label: 'Weekday morning peak', weekdays: [1, 2, 3, 4, 5], start: '06:30', end: '09:00', multiplier: 1.2 },
+  { id: 'weekday_evening_peak', label: 'Weekday evening peak', weekdays: [1, 2, 3, 4, 5], start: '16:00', end: '18:30', multiplier: 1.2 },
+  { id: 'late_night', label: 'Late night', weekdays: [1, 2, 3, 4, 5, 6, 7], start: '22:00', end: '05:00', multiplier: 1.1 },
+  { id: 'weekday_midday_off_peak', label: 'Weekday midday off-peak', weekdays: [1, 2, 3, 4, 5], start: '10:00', end: '15:00', multiplier: 0.9 },
+  { id: 'weekend_off_peak', label: 'Weekend off-peak', weekdays: [6, 7], start: '05:00', end: '22:00', multiplier: 0.9 },
+];
+
+/** Open rider demand versus offered seats near a departure. */
+export interface AreaDemand {
+  openRequests: number;
+  openSeats: number;
+}
+
+export interface DemandPricingTier {
+  minRatio: number;
+  label: string;
+  multiplier: number;
+}
+
+/** Evaluated in order; ratio is requested seats / offered seats. */
+export const DEMAND_PRICING_TIERS: readonly DemandPricingTier[] = [
+  { minRatio: 2, label: 'High demand', multiplier: 1.3 },
+  { minRatio: 1.5, label: 'Elevated demand', multiplier: 1.15 },
+  { minRatio: 0.5, label: 'Balanced demand', multiplier: 1 },
+  { minRatio: 0, label: 'Low demand', multiplier: 0.95 },
+];
+
+/** Combined time x demand multiplier is clamped to this range. */
+export const PRICING_MULTIPLIER_BOUNDS = { min: 0.8, max: 1.5 } as const;
+
+/** Radius (km) and departure window (ms) used to measure area demand. */
+export const DEMAND_RADIUS_KM = 5;
+export const DEMAND_WINDOW_MS = 60 * 60 * 1000;
+
+export interface PriceBreakdown {
+  tripType: TripType;
+  distanceKm: number;
+  ratePerKm: number;
+  rateCard: 'default' | 'organization';
+  organizationId: string | null;
+  baseFareCents: number;
+  timeRule: { id: string; label: string; multiplier: number } | null;
+  demand: (AreaDemand & { ratio: number; label: string; multiplier: number }) | null;
+  /** Combined multiplier after clamping. */
+  multiplier: number;
+  minFareCents: number;
+  maxFareCents: number;
+  capped: 'min' | 'max' | null;
+  fareCents: number;
+}
+
+/** Local pricing slot of a departure timestamp (ms). */
+export function pricingSlotAt(ts: number): PricingSlot {
+  const local = new Date(ts + PRICING_UTC_OFFSET_MINUTES * 60 * 1000);
+  const day = local.getUTCDay();
+  return { weekday: day === 0 ? 7 : day, minuteOfDay: local.getUTCHours() * 60 + local.getUTCMinutes() };
+}
+
+/** Pricing slot of a wall-clock date (YYYY-MM-DD) and time (HH:MM). */
+export function pricingSlotFor(date: string, time: string): PricingSlot {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return { weekday: day === 0 ? 7 : day, minuteOfDay: parseTimeToMinutes(time) };
+}
+
+export function matchTimeRule(slot: PricingSlot): TimePricingRule | null {
+  for (const rule of TIME_PRICING_RULES) {
+    if (!rule.weekdays.includes(slot.weekday)) continue;
+    const start = parseTimeToMinutes(rule.start);
+    const end = parseTimeToMinutes(rule.end);
+    const inside = start <= end
+      ? slot.minuteOfDay >= start && slot.minuteOfDay < end
+      : slot.minuteOfDay >= start || slot.minuteOfDay < end;
+    if (inside) return rule;
+  }
+  return null;
+}
+
+export function demandRatio(demand: AreaDemand): number {
+  if (demand.openSeats === 0) return demand.openRequests === 0 ? 1 : demand.openRequests;
+  return demand.openRequests / demand.openSeats;
+}
+
+export function matchDemandTier(ratio: number): DemandPricingTier {
+  return DEMAND_PRICING_TIERS.find((tier) => ratio >= tier.minRatio) ?? DEMAND_PRICING_TIERS[DEMAND_PRICING_TIERS.length - 1];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Price one trip: base fare from the rate card, scaled by the time-of-day
+ * rule and area demand (clamped), then held within the card's fare caps.
+ */
+export function quoteFare(input: {
+  distanceKm: number;
+  tripType: TripType;
+  slot?: PricingSlot;
+  demand?: AreaDemand;
+  rateCard?: RateCard;
+}): PriceBreakdown {
+  const rateCard = input.rateCard ?? DEFAULT_RATE_CARD;
+  const ratePerKm = rateForTripType(input.tripType, rateCard);
+  const baseFareCents = calculateFareCents(input.distanceKm, input.tripType, rateCard);
+
+  const rule = input.slot ? matchTimeRule(input.slot) : null;
+  const timeRule = rule ? { id: rule.id, label: rule.label, multiplier: rule.multiplier } : null;
+
+  let demand: PriceBreakdown['demand'] = null;
+  if (input.demand) {
+    const ratio = demandRatio(input.demand);
+    const tier = matchDemandTier(ratio);
+    demand = { ...input.demand, ratio: round2(ratio), label: tier.label, multiplier: tier.multiplier };
+  }
+
+  const multiplier = round2(Math.min(
+    PRICING_MULTIPLIER_BOUNDS.max,
+    Math.max(PRICING_MULTIPLIER_BOUNDS.min, (timeRule?.multiplier ?? 1) * (demand?.multiplier ?? 1)),
+  ));
+
+  const scaled = Math.round(baseFareCents * multiplier);
+  let fareCents = scaled;
+  let capped: PriceBreakdown['capped'] = null;
+  if (scaled < rateCard.minFareCents) {
+    fareCents = rateCard.minFareCents;
+    capped = 'min';
+  } else if (scaled > rateCard.maxFareCents) {
+    fareCents = rateCard.maxFareCents;
+    capped = 'max';
+  }
+
+  return {
+    tripType: input.tripType,
+    distanceKm: round2(input.distanceKm),
+    ratePerKm,
+    rateCard: rateCard.organizationId ? 'organization' : 'default',
+    organizationId: rateCard.organizationId,
+    baseFareCents,
+    timeRule,
+    demand,
+    multiplier,
+    minFareCents: rateCard.minFareCents,
+    maxFareCents: rateCard.maxFareCents,
+    capped,
+    fareCents,
+  };
 }
 
 /** ETA in minutes: distanceKm / avgSpeed x 60, minimum 5 min */
@@ -39,6 +251,28 @@ export function estimatedRoadKm(straightLineKm: number): number {
   return straightLineKm * TRIP_RATES.ROAD_FACTOR;
 }
 
+/**
+ * Road distance in km from the routing provider, falling back to the
+ * straight-line estimate when no provider is given or the lookup fails.
+ */
+export async function estimateRoadDistanceKm(
+  from: { lat: number; lng: number },
+  to: { lat: number; lng: number },
+  provider?: RoutingProvider,
+): Promise<number> {
+  if (provider) {
+    try {
+      return (await provider.route(from, to)).distanceKm;
+    } catch (err) {
+      logger.warn('Road distance lookup failed; using straight-line estimate', {
+        provider: provider.name,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return estimatedRoadKm(haversineKm(from, to));
+}
+
 /** Generate all YYYY-MM-DD dates for a month that fall on the given ISO weekdays */
 export function generateScheduledDates(
   month: string,            // YYYY-MM
@@ -58,17 +292,246 @@ export function generateScheduledDates(
   return dates;
 }
 
-/** Monthly total estimate */
-export function estimateMonthlyTotal(
+export interface MonthlyPriceBreakdown {
+  tripType: 'monthly';
+  distanceKmPerTrip: number;
+  ratePerKm: number;
+  rateCard: 'default' | 'organization';
+  organizationId: string | null;
+  /** One line per distinct per-trip price (slot and time rule). */
+  lines: Array<{
+    slot: 'morning' | 'evening';
+    timeRule: PriceBreakdown['timeRule'];
+    trips: number;
+    fareCents: number;
+    subtotalCents: number;
+  }>;
+  totalTrips: number;
+  totalCents: number;
+}
+
+/**
+ * Monthly estimate priced trip by trip through the engine. Demand is not
+ * applied: the subscription is paid upfront, not at today's demand.
+ */
+export function quoteMonthlyEstimate(
   avgKmPerTrip: number,
   scheduledDates: string[],
-  includeEvening: boolean,
-): { totalCents: number; totalKm: number; totalDays: number; totalTrips: number } {
-  const tripsPerDay = includeEvening ? 2 : 1;
-  const totalTrips = scheduledDates.length * tripsPerDay;
-  const totalKm = avgKmPerTrip * totalTrips;
-  const totalCents = calculateFareCents(totalKm, 'monthly');
-  return { totalCents, totalKm, totalDays: scheduledDates.length, totalTrips };
+  departures: { morning: string; evening?: string | null },
+  rateCard: RateCard = DEFAULT_RATE_CARD,
+): { totalCents: number; totalKm: number; totalDays: number; totalTrips: number; breakdown: MonthlyPriceBreakdown } {
+  const lines = new Map<string, MonthlyPriceBreakdown['lines'][number]>();
+  const slots: Array<['morning' | 'evening', string]> = [['morning', departures.morning]];
+  if (departures.evening) slots.push(['evening', departures.evening]);
+
+  for (const date of scheduledDates) {
+    for (const [slot, time] of slots) {
+      const quote = quoteFare({
+        distanceKm: avgKmPerTrip,
+        tripType: 'monthly',
+        slot: pricingSlotFor(date, time),
+        rateCard,
+      });
+      const key = `${slot}:${quote.timeRule?.id ?? 'standard'}`;
+      const line = lines.get(key) ?? { slot, timeRule: quote.timeRule, trips: 0, fareCents: quote.fareCents, subtotalCents: 0 };
+      line.trips++;
+      line.subtotalCents += quote.fareCents;
+      lines.set(key, line);
+    }
+  }
+
+  const totalTrips = scheduledDates.length * slots.length;
+  const totalCents = [...lines.values()].reduce((sum, line) => sum + line.subtotalCents, 0);
+  return {
+    totalCents,
+    totalKm: avgKmPerTrip * totalTrips,
+    totalDays: scheduledDates.length,
+    totalTrips,
+    breakdown: {
+      tripType: 'monthly',
+      distanceKmPerTrip: round2(avgKmPerTrip),
+      ratePerKm: rateCard.monthlyPerKm,
+      rateCard: rateCard.organizationId ? 'organization' : 'default',
+      organizationId: rateCard.organizationId,
+      lines: [...lines.values()],
+      totalTrips,
+      totalCents,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Pricing persistence
+// ---------------------------------------------------------------------------
+
+interface RateCardRow {
+  organization_id: string;
+  daily_per_km: number;
+  monthly_per_km: number;
+  min_fare_cents: number;
+  max_fare_cents: number;
+  fare_split_mode: FareSplitMode;
+  pooling_discount: number;
+}
+
+export type PriceSubjectType = 'trip' | 'subscription';
+
+/**
+ * Per-km rate for a rider's bookings: the monthly rate while they hold a
+ * paid subscription for the current month, the daily rate otherwise.
+ */
+export async function riderFareRate(
+  db: D1Database,
+  userId: number,
+): Promise<{ subscriptionId: number | null; fareRatePerKm: number }> {
+  const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM
+  const activeSub = await db
+    .prepare(`SELECT id, payment_status FROM monthly_subscriptions WHERE user_id = ? AND subscription_month = ? AND status = 'active' LIMIT 1`)
+    .bind(userId, currentMonth)
+    .first<{ id: number; payment_status: string }>();
+  return activeSub?.payment_status === 'paid'
+    ? { subscriptionId: activeSub.id, fareRatePerKm: TRIP_RATES.MONTHLY_PER_KM }
+    : { subscriptionId: null, fareRatePerKm: TRIP_RATES.DAILY_PER_KM };
+}
+
+/** Organisation rate card, or the default card when none is configured. */
+export async function loadRateCard(db: D1Database, organizationId?: string | null): Promise<RateCard> {
+  if (!organizationId) return DEFAULT_RATE_CARD;
+  try {
+    const row = await db
+      .prepare(
+        `SELECT organization_id, daily_per_km, monthly_per_km, min_fare_cents, max_fare_cents,
+                fare_split_mode, pooling_discount
+         FROM pricing_rate_cards WHERE organization_id = ? AND is_active = 1`,
+      )
+      .bind(organizationId)
+      .first<RateCardRow>();
+    if (!row) return DEFAULT_RATE_CARD;
+    return {
+      organizationId: row.organization_id,
+      dailyPerKm: row.daily_per_km,
+      monthlyPerKm: row.monthly_per_km,
+      minFareCents: row.min_fare_cents,
+      maxFareCents: row.max_fare_cents,
+      fareSplitMode: row.fare_split_mode,
+      poolingDiscount: row.pooling_discount,
+    };
+  } catch (err) {
+    logger.warn('Rate card lookup failed; using default rates', {
+      organizationId,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return DEFAULT_RATE_CARD;
+  }
+}
+
+/**
+ * Seats requested by open rider requests versus seats offered by open
+ * driver trips within `DEMAND_RADIUS_KM` of a point and `DEMAND_WINDOW_MS`
+ * of a departure. Returns null when demand can't be measured.
+ */
+export async function loadAreaDemand(
+  db: D1Database,
+  point: { lat: number; lng: number },
+  departureTs: number,
+): Promise<AreaDemand | null> {
+  const latDelta = DEMAND_RADIUS_KM / 111.32;
+  const lngDelta = DEMAND_RADIUS_KM / (111.32 * Math.max(Math.cos((point.lat * Math.PI) / 180), 0.01));
+  const from = departureTs - DEMAND_WINDOW_MS;
+  const to = departureTs + DEMAND_WINDOW_MS;
+
+  try {
+    const requests = await db
+      .prepare(
+        `SELECT COALESCE(SUM(seats_needed), 0) AS seats FROM rider_requests
+         WHERE status = 'pending'
+           AND pickup_lat BETWEEN ? AND ? AND pickup_lng BETWEEN ? AND ?
+           AND earliest_departure <= ? AND latest_departure >= ?`,
+      )
+      .bind(point.lat - latDelta, point.lat + latDelta, point.lng - lngDelta, point.lng + lngDelta, to, from)
+      .first<{ seats: number }>();
+    const offers = await db
+      .prepare(
+        `SELECT COALESCE(SUM(available_seats), 0) AS seats FROM driver_trips
+         WHERE status IN ('offered', 'active')
+           AND departure_lat BETWEEN ? AND ? AND departure_lng BETWEEN ? AND ?
+           AND departure_time BETWEEN ? AND ?`,
+      )
+      .bind(point.lat - latDelta, point.lat + latDelta, point.lng - lngDelta, point.lng + lngDelta, from, to)
+      .first<{ seats: number }>();
+    return { openRequests: Number(requests?.seats ?? 0), openSeats: Number(offers?.seats ?? 0) };
+  } catch (err) {
+    logger.warn('Area demand lookup failed; pricing without demand', {
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  }
+}
+
+/**
+ * Quote a single trip with the organisation's rate card, the departure's
+ * time rule and current area demand.
+ */
+export async function quoteTripFare(
+  db: D1Database,
+  input: {
+    origin: { lat: number; lng: number };
+    distanceKm: number;
+    tripType: TripType;
+    departureTs: number;
+    organizationId?: string | null;
+  },
+): Promise<PriceBreakdown> {
+  const [rateCard, demand] = await Promise.all([
+    loadRateCard(db, input.organizationId),
+    loadAreaDemand(db, input.origin, input.departureTs),
+  ]);
+  return quoteFare({
+    distanceKm: input.distanceKm,
+    tripType: input.tripType,
+    slot: pricingSlotAt(input.departureTs),
+    demand: demand ?? undefined,
+    rateCard,
+  });
+}
+
+/** Persist how a fare was computed so receipts and disputes can explain it. */
+export async function savePriceBreakdown(
+  db: D1Database,
+  subjectType: PriceSubjectType,
+  subjectId: string | number,
+  fareCents: number,
+  breakdown: PriceBreakdown | MonthlyPriceBreakdown,
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO price_breakdowns (subject_type, subject_id, fare_cents, breakdown_json)
+       VALUES (?, ?, ?, ?)`,
+    )
+    .bind(subjectType, String(subjectId), fareCents, JSON.stringify(breakdown))
+    .run();
+}
+
+/** Most recent stored breakdown for a trip or subscription. */
+export async function getPriceBreakdown(
+  db: D1Database,
+  subjectType: PriceSubjectType,
+  subjectId: string | number,
+): Promise<{ fareCents: number; breakdown: PriceBreakdown | MonthlyPriceBreakdown; createdAt: string } | null> {
+  const row = await db
+    .prepare(
+      `SELECT fare_cents, breakdown_json, created_at FROM price_breakdowns
+       WHERE subject_type = ? AND subject_id = ?
+       ORDER BY id DESC LIMIT 1`,
+    )
+    .bind(subjectType, String(subjectId))
+    .first<{ fare_cents: number; breakdown_json: string; created_at: string }>();
+  if (!row) return null;
+  return {
+    fareCents: row.fare_cents,
+    breakdown: JSON.parse(row.breakdown_json) as PriceBreakdown | MonthlyPriceBreakdown,
+    createdAt: row.created_at,
+  };
 }
 
 /** Parse HH:MM string to minutes since midnight */
@@ -124,6 +124,13 @@ export function anonymizeUserId(userId: number | string): string {
   return `anon_${Math.abs(hash).toString(36)}`;
 }
 
+/**
+ * Days a trip's location breadcrumbs are kept after they are recorded.
+ * Long enough for SOS follow-up and dispute investigation, after which the
+ * daily cron purges them.
+ */
+export const LOCATION_BREADCRUMB_RETENTION_DAYS = 90;
+
 /**
  * Check if data retention period has expired
  *
@@ -0,0 +1,79 @@
+/**
+ * Klubz - Reliability Score
+ *
+ * A 0-100 score of how dependably a user turns up. Completed trips count
+ * for the user; no-shows and late cancellations within the last
+ * `RELIABILITY_WINDOW_DAYS` count against them. A prior of
+ * `RELIABILITY_PRIOR_TRIPS` clean trips keeps one early miss from sinking
+ * a new user's score.
+ *
+ * The score is cached on `users.reliability_score` for matching and
+ * refreshed whenever a no-show or cancellation is recorded.
+ */
+
+import type { D1Database } from '../types';
+import { logger } from './logger';
+
+export const RELIABILITY_WINDOW_DAYS = 180;
+export const RELIABILITY_PRIOR_TRIPS = 5;
+export const NO_SHOW_WEIGHT = 3;
+export const LATE_CANCELLATION_WEIGHT = 1;
+
+export interface ReliabilityStats {
+  score: number;
+  completedTrips: number;
+  noShows: number;
+  lateCancellations: number;
+}
+
+interface ReliabilityCountsRow {
+  completed_trips: number | null;
+  no_shows: number | null;
+  late_cancellations: number | null;
+}
+
+export function reliabilityScore(counts: Omit<ReliabilityStats, 'score'>): number {
+  const good = counts.completedTrips + RELIABILITY_PRIOR_TRIPS;
+  const bad = counts.noShows * NO_SHOW_WEIGHT + counts.lateCancellations * LATE_CANCELLATION_WEIGHT;
+  return Math.round((100 * good) / (good + bad));
+}
+
+export async function getReliability(db: D1Database, userId: number): Promise<ReliabilityStats> {
+  const row = await db
+    .prepare(
+      `SELECT
+         (SELECT COUNT(*) FROM trip_participants WHERE user_id = ?1 AND status = 'completed') AS completed_trips,
+         (SELECT COUNT(*) FROM no_show_events
+          WHERE user_id = ?1 AND created_at >= datetime('now', '-${RELIABILITY_WINDOW_DAYS} days')) AS no_shows,
+         (SELECT COUNT(*) FROM trip_cancellations
+          WHERE cancelled_by = ?1 AND tier NOT IN ('free', 'no_show')
+            AND created_at >= datetime('now', '-${RELIABILITY_WINDOW_DAYS} days')) AS late_cancellations`,
+    )
+    .bind(userId)
+    .first<ReliabilityCountsRow>();
+
+  const counts = {
+    completedTrips: Number(row?.completed_trips ?? 0),
+    noShows: Number(row?.no_shows ?? 0),
+    lateCancellations: Number(row?.late_cancellations ?? 0),
+  };
+  return { score: reliabilityScore(counts), ...counts };
+}
+
+/** Recompute and cache a user's score. Failures are logged, not thrown. */
+export async function refreshReliabilityScore(db: D1Database, userId: number): Promise<ReliabilityStats | null> {
+  try {
+    const stats = await getReliability(db, userId);
+    await db
+      .prepare('UPDATE users SET reliability_score = ? WHERE id = ?')
+      .bind(stats.score, userId)
+      .run();
+    return stats;
+  } catch (err) {
+    logger.warn('Reliability score refresh failed', {
+      userId,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  }
+}
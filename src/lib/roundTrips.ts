@@ -0,0 +1,391 @@
+/**
+ * Klubz - Round-Trip Bookings
+ *
+ * A round trip is a morning (outbound) and an evening (return) booking made
+ * in one request, possibly with different drivers — the same two legs a
+ * monthly subscription schedules each day. Each leg is an ordinary booking
+ * on its trip; `trip_participants.round_trip_id` links them.
+ *
+ * When one leg drops out (the rider cancels it, or the driver rejects it
+ * or cancels the trip) the rider is offered options for the other: keep
+ * it, cancel it too, or rebook the lost leg on one of the suggested
+ * alternatives. When the morning leg is confirmed, the evening driver is
+ * asked to prioritise the return so the rider is not stranded.
+ */
+
+import type { Bindings, D1Database, ScheduledDayRow } from '../types';
+import { suggestAlternativeTrips } from './bookingExpiry';
+import type { AlternativeTrip, PendingBookingRow } from './bookingExpiry';
+import { AppError } from './errors';
+import { logger } from './logger';
+import { createNotification } from './notificationStore';
+import type { NotificationType } from './notificationStore';
+import { sendPushNotification } from './push';
+import type { RouteSegment } from './seatInventory';
+import { getUserNotificationPreferences } from './userPreferences';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RoundTripLeg = ScheduledDayRow['trip_type'];
+
+export const ROUND_TRIP_LEGS: readonly RoundTripLeg[] = ['morning', 'evening'];
+
+/** Booking statuses in which a leg still takes the rider somewhere. */
+const LIVE_LEG_STATUSES = ['requested', 'accepted'];
+
+export interface RoundTripLegRow {
+  booking_id: number;
+  round_trip_id: number;
+  round_trip_leg: RoundTripLeg;
+  trip_id: number;
+  status: string;
+  passenger_count: number | null;
+  driver_id: number;
+  title: string | null;
+  departure_time: string;
+}
+
+export interface RoundTripLegView {
+  leg: RoundTripLeg;
+  bookingId: number;
+  tripId: number;
+  status: string;
+  title: string | null;
+  departureTime: string;
+  driverId: number;
+}
+
+export type RoundTripOption =
+  | { action: 'keep' }
+  | { action: 'cancel'; method: 'DELETE'; path: string }
+  | { action: 'rebook'; method: 'POST'; path: string };
+
+export interface RoundTripOptions {
+  roundTripId: number;
+  riderId: number;
+  droppedLeg: RoundTripLeg;
+  /** The other leg while it is still booked, else null. */
+  otherLeg: RoundTripLegView | null;
+  options: RoundTripOption[];
+  /** Trips the dropped leg could be rebooked on. */
+  alternatives: AlternativeTrip[];
+}
+
+export interface NewLegBooking {
+  leg: RoundTripLeg;
+  tripId: number;
+  pickupLocation: string;
+  dropoffLocation: string;
+  pickupPointEncrypted: string | null;
+  segment: RouteSegment | null;
+}
+
+interface DroppedLegRow extends PendingBookingRow {
+  round_trip_id: number | null;
+  round_trip_leg: RoundTripLeg | null;
+}
+
+// ---------------------------------------------------------------------------
+// Legs
+// ---------------------------------------------------------------------------
+
+export function otherLeg(leg: RoundTripLeg): RoundTripLeg {
+  return leg === 'morning' ? 'evening' : 'morning';
+}
+
+export function isLiveLeg(leg: { status: string }): boolean {
+  return LIVE_LEG_STATUSES.includes(leg.status);
+}
+
+export function rowToLeg(row: RoundTripLegRow): RoundTripLegView {
+  return {
+    leg: row.round_trip_leg,
+    bookingId: row.booking_id,
+    tripId: row.trip_id,
+    status: row.status,
+    title: row.title,
+    departureTime: row.departure_time,
+    driverId: row.driver_id,
+  };
+}
+
+/** The latest booking of each leg of the given round trips. */
+export async function loadRoundTripLegs(db: D1Database, roundTripIds: number[]): Promise<Map<number, RoundTripLegRow[]>> {
+  const legs = new Map<number, RoundTripLegRow[]>();
+  if (roundTripIds.length === 0) return legs;
+  const { results } = await db
+    .prepare(`
+      SELECT tp.id AS booking_id, tp.round_trip_id, tp.round_trip_leg, tp.trip_id, tp.status,
+             tp.passenger_count, t.driver_id, t.title, t.departure_time
+      FROM trip_participants tp
+      JOIN trips t ON t.id = tp.trip_id
+      WHERE tp.round_trip_id IN (${roundTripIds.map(() => '?').join(', ')})
+      ORDER BY tp.id DESC
+    `)
+    .bind(...roundTripIds)
+    .all<RoundTripLegRow>();
+  for (const row of results ?? []) {
+    const rows = legs.get(row.round_trip_id) ?? [];
+    // Rebooking adds a newer booking for the leg; the older one is history
+    if (!rows.some((r) => r.round_trip_leg === row.round_trip_leg)) rows.push(row);
+    legs.set(row.round_trip_id, rows);
+  }
+  for (const rows of legs.values()) {
+    rows.sort((a, b) => ROUND_TRIP_LEGS.indexOf(a.round_trip_leg) - ROUND_TRIP_LEGS.indexOf(b.round_trip_leg));
+  }
+  return legs;
+}
+
+/**
+ * Create the round trip and its leg bookings (status 'requested'). The legs
+ * are inserted in one batch; the round trip is removed again if it fails.
+ */
+export async function createRoundTripBookings(
+  db: D1Database,
+  riderId: number,
+  legs: NewLegBooking[],
+  booking: { passengers: number; subscriptionId: number | null; fareRatePerKm: number },
+): Promise<{ roundTripId: number; bookingIds: Partial<Record<RoundTripLeg, number>> }> {
+  const created = await db
+    .prepare('INSERT INTO round_trips (rider_id) VALUES (?)')
+    .bind(riderId)
+    .run();
+  const roundTripId = Number((created.meta as { last_row_id?: number } | undefined)?.last_row_id ?? 0);
+  if (!roundTripId) {
+    throw new AppError('Failed to create round trip', 'INTERNAL_ERROR', 500);
+  }
+
+  try {
+    await insertLegBookings(db, riderId, roundTripId, legs, booking);
+  } catch (err) {
+    await db.prepare('DELETE FROM round_trips WHERE id = ?').bind(roundTripId).run();
+    throw err;
+  }
+
+  const { results } = await db
+    .prepare('SELECT id, round_trip_leg FROM trip_participants WHERE round_trip_id = ?')
+    .bind(roundTripId)
+    .all<{ id: number; round_trip_leg: RoundTripLeg }>();
+  const bookingIds: Partial<Record<RoundTripLeg, number>> = {};
+  for (const row of results ?? []) bookingIds[row.round_trip_leg] = row.id;
+  return { roundTripId, bookingIds };
+}
+
+/** Insert leg bookings of an existing round trip in one batch. */
+export async function insertLegBookings(
+  db: D1Database,
+  riderId: number,
+  roundTripId: number,
+  legs: NewLegBooking[],
+  booking: { passengers: number; subscriptionId: number | null; fareRatePerKm: number },
+): Promise<void> {
+  await db.batch(legs.map((leg) =>
+    db.prepare(`
+      INSERT INTO trip_participants (
+        trip_id, user_id, role, status, pickup_location_encrypted, dropoff_location_encrypted,
+        passenger_count, subscription_id, fare_rate_per_km, pickup_point_encrypted,
+        segment_start_km, segment_end_km, round_trip_id, round_trip_leg
+      ) VALUES (?, ?, 'rider', 'requested', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      leg.tripId,
+      riderId,
+      leg.pickupLocation,
+      leg.dropoffLocation,
+      booking.passengers,
+      booking.subscriptionId,
+      booking.fareRatePerKm,
+      leg.pickupPointEncrypted,
+      leg.segment?.startKm ?? null,
+      leg.segment?.endKm ?? null,
+      roundTripId,
+      leg.leg,
+    ),
+  ));
+}
+
+// ---------------------------------------------------------------------------
+// Options when a leg drops out
+// ---------------------------------------------------------------------------
+
+/**
+ * What the rider can do about the rest of a round trip once the booking
+ * `bookingId` has dropped out; null when it is not a round-trip leg.
+ */
+export async function roundTripOptions(
+  db: D1Database,
+  encryptionKey: string | undefined,
+  bookingId: number,
+): Promise<RoundTripOptions | null> {
+  const dropped = await db
+    .prepare(`
+      SELECT tp.id AS participant_id, tp.trip_id, tp.user_id, tp.passenger_count, tp.requested_at,
+             tp.response_reminders_sent, tp.pickup_location_encrypted, tp.dropoff_location_encrypted,
+             tp.pickup_point_encrypted, t.driver_id, NULL AS driver_email, t.title, t.origin,
+             t.destination, t.departure_time, NULL AS organization_id, tp.round_trip_id, tp.round_trip_leg
+      FROM trip_participants tp
+      JOIN trips t ON t.id = tp.trip_id
+      WHERE tp.id = ?
+    `)
+    .bind(bookingId)
+    .first<DroppedLegRow>();
+  if (!dropped?.round_trip_id || !dropped.round_trip_leg) return null;
+
+  const roundTripId = dropped.round_trip_id;
+  const legs = (await loadRoundTripLegs(db, [roundTripId])).get(roundTripId) ?? [];
+  const other = legs.find((leg) => leg.round_trip_leg === otherLeg(dropped.round_trip_leg!));
+  const otherLive = other && isLiveLeg(other) ? other : null;
+
+  const options: RoundTripOption[] = [];
+  if (otherLive) {
+    options.push({ action: 'keep' });
+    options.push({
+      action: 'cancel',
+      method: 'DELETE',
+      path: otherLive.status === 'accepted'
+        ? `/api/trips/${otherLive.trip_id}/book`
+        : `/api/round-trips/${roundTripId}/legs/${otherLive.round_trip_leg}`,
+    });
+  }
+  options.push({ action: 'rebook', method: 'POST', path: `/api/round-trips/${roundTripId}/legs/${dropped.round_trip_leg}` });
+
+  return {
+    roundTripId,
+    riderId: dropped.user_id,
+    droppedLeg: dropped.round_trip_leg,
+    otherLeg: otherLive ? rowToLeg(otherLive) : null,
+    options,
+    alternatives: await suggestAlternativeTrips(db, dropped, encryptionKey),
+  };
+}
+
+/**
+ * Tell the rider a round-trip leg dropped out and what they can do about
+ * the other. Returns the options, or null when the booking is not a leg.
+ */
+export async function offerRoundTripOptions(
+  db: D1Database,
+  env: Bindings,
+  bookingId: number,
+): Promise<RoundTripOptions | null> {
+  try {
+    const offer = await roundTripOptions(db, env.ENCRYPTION_KEY, bookingId);
+    if (!offer?.otherLeg) return offer;
+
+    const other = offer.otherLeg;
+    await notifyRoundTripUser(db, env, {
+      userId: offer.riderId,
+      tripId: other.tripId,
+      notificationType: 'system',
+      subject: `Your ${offer.droppedLeg} trip is off`,
+      message: `Your ${offer.droppedLeg} trip won't go ahead. Keep your ${other.leg} trip, cancel it, or rebook `
+        + `the ${offer.droppedLeg} trip${offer.alternatives.length > 0 ? ` on one of ${offer.alternatives.length} suggested trips` : ''}.`,
+      url: '/#my-trips',
+      tag: `round-trip:${offer.roundTripId}`,
+      metadata: { ...offer },
+    });
+    return offer;
+  } catch (err) {
+    logger.warn('Failed to offer round-trip options', {
+      bookingId,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  }
+}
+
+/** Booking ids of the live round-trip legs on a trip. */
+export async function liveRoundTripLegsOnTrip(db: D1Database, tripId: number): Promise<number[]> {
+  const { results } = await db
+    .prepare(`
+      SELECT id FROM trip_participants
+      WHERE trip_id = ? AND role = 'rider' AND round_trip_id IS NOT NULL AND status IN ('requested', 'accepted')
+    `)
+    .bind(tripId)
+    .all<{ id: number }>();
+  return (results ?? []).map((row) => row.id);
+}
+
+// ---------------------------------------------------------------------------
+// Evening priority
+// ---------------------------------------------------------------------------
+
+/**
+ * Once a morning leg is confirmed, ask the driver of a still-pending
+ * evening leg to answer it first. Returns whether anyone was asked.
+ */
+export async function prioritiseEveningLeg(db: D1Database, env: Bindings, morningBookingId: number): Promise<boolean> {
+  try {
+    const evening = await db
+      .prepare(`
+        SELECT e.id, e.trip_id, e.round_trip_id, t.driver_id, t.title
+        FROM trip_participants m
+        JOIN trip_participants e
+          ON e.round_trip_id = m.round_trip_id AND e.round_trip_leg = 'evening' AND e.status = 'requested'
+        JOIN trips t ON t.id = e.trip_id
+        WHERE m.id = ? AND m.round_trip_leg = 'morning' AND m.status = 'accepted'
+        ORDER BY e.id DESC
+        LIMIT 1
+      `)
+      .bind(morningBookingId)
+      .first<{ id: number; trip_id: number; round_trip_id: number; driver_id: number; title: string | null }>();
+    if (!evening) return false;
+
+    await notifyRoundTripUser(db, env, {
+      userId: evening.driver_id,
+      tripId: evening.trip_id,
+      notificationType: 'booking_request',
+      subject: 'Priority: return trip request',
+      message: `A rider's morning trip is confirmed and they are counting on ${evening.title || 'your trip'} to get home. Please answer their request first.`,
+      url: '/#my-trips',
+      tag: `round-trip:${evening.round_trip_id}`,
+      metadata: { bookingId: evening.id, roundTripId: evening.round_trip_id, priority: true },
+    });
+    return true;
+  } catch (err) {
+    logger.warn('Failed to prioritise evening leg', {
+      morningBookingId,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Notifications
+// ---------------------------------------------------------------------------
+
+async function notifyRoundTripUser(
+  db: D1Database,
+  env: Bindings,
+  input: {
+    userId: number;
+    tripId: number;
+    notificationType: NotificationType;
+    subject: string;
+    message: string;
+    url: string;
+    tag: string;
+    metadata: Record<string, unknown>;
+  },
+): Promise<void> {
+  const prefs = await getUserNotificationPreferences(db, input.userId);
+  if (!prefs.tripUpdates) return;
+  await createNotification(db, {
+    userId: input.userId,
+    tripId: input.tripId,
+    notificationType: input.notificationType,
+    channel: 'in_app',
+    status: 'sent',
+    subject: input.subject,
+    message: input.message,
+    metadata: input.metadata,
+  });
+  await sendPushNotification(env, db as Parameters<typeof sendPushNotification>[1], input.userId, {
+    title: input.subject,
+    body: input.message,
+    url: input.url,
+    tag: input.tag,
+  });
+}
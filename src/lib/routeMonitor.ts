@@ -0,0 +1,313 @@
+/**
+ * Klubz - Route Monitor
+ *
+ * Checks each driver location update on a trip in progress against the
+ * planned route. A vehicle more than `ROUTE_DEVIATION_THRESHOLD_KM` off the
+ * route, or stationary for `UNEXPECTED_STOP_MINUTES` away from the
+ * destination and the booked pickup points, raises a `trip:deviation` alert to the riders on board.
+ * Riders who opted in also have their primary emergency contact texted.
+ *
+ * Monitor state (where the vehicle has been stationary since, and when
+ * each alert last fired) lives in KV for the trip's duration. Alerts of
+ * the same kind are throttled by `DEVIATION_ALERT_COOLDOWN_MINUTES`.
+ */
+
+import type { Bindings, D1Database, RouteResult } from '../types';
+import type { GeoPoint } from './matching/types';
+import { decodePolyline, haversine, minDistanceToRoute } from './matching/geo';
+import { eventBus } from './eventBus';
+import { createNotification } from './notificationStore';
+import { getUserPreferences } from './userPreferences';
+import { safeDecryptPII } from './encryption';
+import { NotificationService } from '../integrations/notifications';
+import { logger } from './logger';
+
+export const ROUTE_DEVIATION_THRESHOLD_KM = 0.5;
+export const UNEXPECTED_STOP_MINUTES = 10;
+/** Movement below this many metres counts as standing still. */
+export const STOP_RADIUS_M = 50;
+/** Stops this close to the destination or a booked pickup point are expected. */
+export const EXPECTED_STOP_RADIUS_KM = 0.3;
+export const DEVIATION_ALERT_COOLDOWN_MINUTES = 15;
+
+export type DeviationKind = 'off_route' | 'unexpected_stop';
+
+export interface RouteMonitorState {
+  /** Where and since when the vehicle has been stationary. */
+  anchor: { lat: number; lng: number; at: number } | null;
+  /** Epoch ms each kind of alert last fired. */
+  lastAlerts: Partial<Record<DeviationKind, number>>;
+}
+
+export interface DeviationAlert {
+  kind: DeviationKind;
+  lat: number;
+  lng: number;
+  distanceKm: number | null;
+  stoppedMinutes: number | null;
+  detectedAt: string;
+}
+
+export interface MonitoredTrip {
+  id: number;
+  driver_id: number;
+  origin: string;
+  destination: string;
+}
+
+interface DeviationRiderRow {
+  user_id: number;
+}
+
+interface PickupPointRow {
+  user_id: number;
+  pickup_point_encrypted: string | null;
+}
+
+/** Cache key shared with `GET /api/trips/:tripId/route`. */
+export function tripRouteCacheKey(tripId: number): string {
+  return `route:trip:${tripId}`;
+}
+
+function cooledDown(state: RouteMonitorState, kind: DeviationKind, now: number): boolean {
+  const last = state.lastAlerts[kind];
+  return last === undefined || now - last >= DEVIATION_ALERT_COOLDOWN_MINUTES * 60_000;
+}
+
+/**
+ * Pure check of one location update. `accuracyM` widens the deviation
+ * threshold so a poor GPS fix doesn't look like a detour; a driver waiting
+ * at one of the `pickups` is not an unexpected stop.
+ */
+export function evaluateLocation(
+  previous: RouteMonitorState | null,
+  route: GeoPoint[] | null,
+  point: GeoPoint & { accuracyM?: number | null },
+  now: number,
+  pickups: GeoPoint[] = [],
+): { state: RouteMonitorState; alerts: DeviationAlert[] } {
+  const state: RouteMonitorState = {
+    anchor: previous?.anchor ?? null,
+    lastAlerts: { ...(previous?.lastAlerts ?? {}) },
+  };
+  const alerts: DeviationAlert[] = [];
+  const detectedAt = new Date(now).toISOString();
+
+  if (route && route.length >= 2) {
+    const { distance } = minDistanceToRoute(point, route);
+    const threshold = ROUTE_DEVIATION_THRESHOLD_KM + Math.max(0, point.accuracyM ?? 0) / 1000;
+    if (distance > threshold && cooledDown(state, 'off_route', now)) {
+      alerts.push({
+        kind: 'off_route',
+        lat: point.lat,
+        lng: point.lng,
+        distanceKm: Math.round(distance * 100) / 100,
+        stoppedMinutes: null,
+        detectedAt,
+      });
+      state.lastAlerts.off_route = now;
+    }
+  }
+
+  if (!state.anchor || haversine(state.anchor, point) * 1000 >= STOP_RADIUS_M) {
+    state.anchor = { lat: point.lat, lng: point.lng, at: now };
+  } else {
+    const stoppedMinutes = Math.floor((now - state.anchor.at) / 60_000);
+    const destination = route && route.length > 0 ? route[route.length - 1] : null;
+    const expectedStops = destination ? [destination, ...pickups] : pickups;
+    const atExpectedStop = expectedStops.some((stop) => haversine(stop, point) <= EXPECTED_STOP_RADIUS_KM);
+    if (stoppedMinutes >= UNEXPECTED_STOP_MINUTES && !atExpectedStop && cooledDown(state, 'unexpected_stop', now)) {
+      alerts.push({
+        kind: 'unexpected_stop',
+        lat: point.lat,
+        lng: point.lng,
+        distanceKm: null,
+        stoppedMinutes,
+        detectedAt,
+      });
+      state.lastAlerts.unexpected_stop = now;
+    }
+  }
+
+  return { state, alerts };
+}
+
+/**
+ * The planned route from the route cache, fetching it from the routing
+ * service when it has expired. Returns null when the trip has no
+ * geocoded endpoints or routing isn't configured.
+ */
+export async function loadPlannedRoute(env: Bindings, trip: MonitoredTrip): Promise<GeoPoint[] | null> {
+  const cacheKey = tripRouteCacheKey(trip.id);
+  let route: RouteResult | null = null;
+
+  const cached = await env.CACHE?.get(cacheKey, 'text');
+  if (cached) {
+    route = JSON.parse(cached) as RouteResult;
+  } else {
+    const { getGeoService } = await import('../integrations/geocoding');
+    const geoSvc = getGeoService(env);
+    if (!geoSvc) return null;
+    let origin: GeoPoint;
+    let destination: GeoPoint;
+    try {
+      origin = JSON.parse(trip.origin) as GeoPoint;
+      destination = JSON.parse(trip.destination) as GeoPoint;
+    } catch {
+      return null;
+    }
+    route = await geoSvc.getRoute(origin, destination);
+    await env.CACHE?.put(cacheKey, JSON.stringify({ tripId: trip.id, ...route }), { expirationTtl: 3600 });
+  }
+
+  // Mapbox returns polyline6 geometries
+  if (route.polyline) return decodePolyline(route.polyline, 6);
+  return route.waypoints?.length ? route.waypoints : null;
+}
+
+/** A rider's pickup point, decrypted. Null when missing or unreadable. */
+export async function decryptPickupPoint(
+  encrypted: string | null,
+  encryptionKey: string | undefined,
+  riderId: number,
+): Promise<GeoPoint | null> {
+  const raw = await safeDecryptPII(encrypted, encryptionKey, riderId);
+  if (!raw) return null;
+  try {
+    const point = JSON.parse(raw) as Partial<GeoPoint>;
+    return typeof point.lat === 'number' && typeof point.lng === 'number' ? { lat: point.lat, lng: point.lng } : null;
+  } catch {
+    return null;
+  }
+}
+
+async function loadPickupPoints(env: Bindings, db: D1Database, tripId: number): Promise<GeoPoint[]> {
+  const rows = await db
+    .prepare(
+      `SELECT user_id, pickup_point_encrypted FROM trip_participants
+       WHERE trip_id = ? AND role = 'rider' AND status = 'accepted' AND pickup_point_encrypted IS NOT NULL`,
+    )
+    .bind(tripId)
+    .all<PickupPointRow>();
+  const pickups: GeoPoint[] = [];
+  for (const row of rows.results ?? []) {
+    const pickup = await decryptPickupPoint(row.pickup_point_encrypted, env.ENCRYPTION_KEY, row.user_id);
+    if (pickup) pickups.push(pickup);
+  }
+  return pickups;
+}
+
+async function notifyDeviation(
+  env: Bindings,
+  db: D1Database,
+  trip: MonitoredTrip,
+  alert: DeviationAlert,
+): Promise<{ riders: number; contacts: number }> {
+  const riders = await db
+    .prepare(
+      `SELECT user_id FROM trip_participants
+       WHERE trip_id = ? AND role = 'rider' AND status = 'accepted'`,
+    )
+    .bind(trip.id)
+    .all<DeviationRiderRow>();
+
+  const subject = alert.kind === 'off_route' ? 'Your driver has left the planned route' : 'Your trip has stopped unexpectedly';
+  const message = alert.kind === 'off_route'
+    ? `The vehicle is ${alert.distanceKm} km from the planned route. Use SOS if you feel unsafe.`
+    : `The vehicle has not moved for ${alert.stoppedMinutes} minutes. Use SOS if you feel unsafe.`;
+  const sms = new NotificationService(env);
+  let contacts = 0;
+
+  for (const rider of riders.results ?? []) {
+    eventBus.emit('trip:deviation', { tripId: trip.id, ...alert }, rider.user_id);
+
+    try {
+      await createNotification(db, {
+        userId: rider.user_id,
+        tripId: trip.id,
+        notificationType: 'system',
+        channel: 'in_app',
+        status: 'sent',
+        subject,
+        message,
+        metadata: { tripId: trip.id, deviation: alert.kind, lat: alert.lat, lng: alert.lng },
+      });
+    } catch (err) {
+      logger.warn('Failed to persist deviation notification', {
+        tripId: trip.id,
+        riderId: rider.user_id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    const prefs = await getUserPreferences(db, rider.user_id);
+    if (!prefs.notifications.emergencyContactAlerts || !sms.smsAvailable) continue;
+    const contact = await db
+      .prepare('SELECT phone_encrypted FROM emergency_contacts WHERE user_id = ? AND is_primary = 1 LIMIT 1')
+      .bind(rider.user_id)
+      .first<{ phone_encrypted: string }>();
+    const phone = await safeDecryptPII(contact?.phone_encrypted, env.ENCRYPTION_KEY, rider.user_id);
+    if (!phone) continue;
+    const location = `https://maps.google.com/?q=${alert.lat},${alert.lng}`;
+    if (await sms.sendSMS(phone, `Klubz safety alert: ${subject.toLowerCase()} on a trip you're listed for. Last location: ${location}`)) {
+      contacts += 1;
+    }
+  }
+
+  return { riders: riders.results?.length ?? 0, contacts };
+}
+
+/**
+ * Run the monitor for one location update and act on any alerts. Never
+ * throws; monitoring must not fail the location update.
+ */
+export async function monitorTripLocation(
+  env: Bindings,
+  db: D1Database,
+  trip: MonitoredTrip,
+  point: GeoPoint & { accuracyM?: number | null },
+  now = Date.now(),
+): Promise<DeviationAlert[]> {
+  const stateKey = `route-monitor:trip:${trip.id}`;
+  try {
+    const previous = await env.CACHE?.get<RouteMonitorState>(stateKey, 'json') ?? null;
+    let route: GeoPoint[] | null = null;
+    try {
+      route = await loadPlannedRoute(env, trip);
+    } catch (err) {
+      logger.warn('Route monitor could not load the planned route', {
+        tripId: trip.id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    // Pickup points only matter once the vehicle has stood still long enough to alert
+    const anchor = previous?.anchor;
+    const longStop = !!anchor
+      && haversine(anchor, point) * 1000 < STOP_RADIUS_M
+      && now - anchor.at >= UNEXPECTED_STOP_MINUTES * 60_000;
+    const pickups = longStop ? await loadPickupPoints(env, db, trip.id) : [];
+
+    const { state, alerts } = evaluateLocation(previous, route, point, now, pickups);
+    await env.CACHE?.put(stateKey, JSON.stringify(state), { expirationTtl: 6 * 60 * 60 });
+
+    for (const alert of alerts) {
+      const notified = await notifyDeviation(env, db, trip, alert);
+      await db
+        .prepare(
+          `INSERT INTO trip_deviation_alerts (trip_id, kind, distance_km, stopped_minutes, lat, lng, riders_notified, contacts_notified)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        )
+        .bind(trip.id, alert.kind, alert.distanceKm, alert.stoppedMinutes, alert.lat, alert.lng, notified.riders, notified.contacts)
+        .run();
+      logger.info('Trip deviation detected', { tripId: trip.id, kind: alert.kind, ridersNotified: notified.riders });
+    }
+    return alerts;
+  } catch (err) {
+    logger.warn('Route monitor failed (non-critical)', {
+      tripId: trip.id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return [];
+  }
+}
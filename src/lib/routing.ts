@@ -0,0 +1,352 @@
+/**
+ * Klubz - Road Routing Providers
+ *
+ * Pluggable road distance / duration lookups shared by the matching engine
+ * and pricing. Three backends are available:
+ *
+ *   - straight_line  haversine × ROAD_FACTOR (no network, always available)
+ *   - mapbox         Mapbox Directions / Matrix via GeoService
+ *   - osrm           any OSRM-compatible HTTP server (`/route`, `/table`)
+ *
+ * Results are cached in KV keyed by quantised coordinates so repeated
+ * lookups for nearby points do not hit the network.
+ */
+
+import type { Bindings, KVNamespace } from '../types';
+import type { GeoService } from '../integrations/geocoding';
+import { getGeoService } from '../integrations/geocoding';
+import { haversineKm, TRIP_RATES } from './pricing';
+import { logger } from './logger';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface RouteLeg {
+  distanceKm: number;
+  durationMinutes: number;
+}
+
+export type RoutingProviderName = 'straight_line' | 'mapbox' | 'osrm';
+
+export interface RoutingProvider {
+  readonly name: RoutingProviderName;
+  /** Road distance and duration from `from` to `to`. */
+  route(from: LatLng, to: LatLng): Promise<RouteLeg>;
+  /**
+   * Many-to-many lookup. `result[i][j]` is the leg from `origins[i]` to
+   * `destinations[j]`, or null when no road route exists.
+   */
+  matrix(origins: LatLng[], destinations: LatLng[]): Promise<Array<Array<RouteLeg | null>>>;
+}
+
+// ---------------------------------------------------------------------------
+// Straight-line provider
+// ---------------------------------------------------------------------------
+
+export class StraightLineRoutingProvider implements RoutingProvider {
+  readonly name = 'straight_line' as const;
+
+  constructor(
+    private roadFactor: number = TRIP_RATES.ROAD_FACTOR,
+    private avgSpeedKmh: number = TRIP_RATES.AVG_SPEED_KMH,
+  ) {}
+
+  async route(from: LatLng, to: LatLng): Promise<RouteLeg> {
+    return this.leg(from, to);
+  }
+
+  async matrix(origins: LatLng[], destinations: LatLng[]): Promise<RouteLeg[][]> {
+    return origins.map((o) => destinations.map((d) => this.leg(o, d)));
+  }
+
+  private leg(from: LatLng, to: LatLng): RouteLeg {
+    const distanceKm = haversineKm(from, to) * this.roadFactor;
+    return {
+      distanceKm,
+      durationMinutes: (distanceKm / this.avgSpeedKmh) * 60,
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Mapbox provider
+// ---------------------------------------------------------------------------
+
+/** Mapbox Matrix accepts at most 25 coordinates per request. */
+const MAPBOX_MATRIX_MAX_COORDS = 25;
+
+export class MapboxRoutingProvider implements RoutingProvider {
+  readonly name = 'mapbox' as const;
+
+  constructor(private geo: GeoService) {}
+
+  async route(from: LatLng, to: LatLng): Promise<RouteLeg> {
+    const result = await this.geo.getRoute(from, to);
+    return { distanceKm: result.distanceKm, durationMinutes: result.durationMinutes };
+  }
+
+  async matrix(origins: LatLng[], destinations: LatLng[]): Promise<Array<Array<RouteLeg | null>>> {
+    const chunk = Math.floor(MAPBOX_MATRIX_MAX_COORDS / 2);
+    const result: Array<Array<RouteLeg | null>> = origins.map(() => []);
+
+    for (let oi = 0; oi < origins.length; oi += chunk) {
+      const originChunk = origins.slice(oi, oi + chunk);
+      for (let di = 0; di < destinations.length; di += chunk) {
+        const destinationChunk = destinations.slice(di, di + chunk);
+        const block = await this.geo.getMatrix(originChunk, destinationChunk);
+        block.forEach((row, i) => {
+          row.forEach((leg, j) => {
+            result[oi + i][di + j] = leg;
+          });
+        });
+      }
+    }
+
+    return result;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// OSRM-compatible provider
+// ---------------------------------------------------------------------------
+
+export class OsrmRoutingProvider implements RoutingProvider {
+  readonly name = 'osrm' as const;
+  private baseUrl: string;
+
+  constructor(baseUrl: string, private profile = 'driving') {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async route(from: LatLng, to: LatLng): Promise<RouteLeg> {
+    const url = `${this.baseUrl}/route/v1/${this.profile}/${from.lng},${from.lat};${to.lng},${to.lat}?overview=false`;
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`OSRM route failed: ${res.statusText}`);
+
+    const data = await res.json() as {
+      code: string;
+      routes?: Array<{ distance: number; duration: number }>;
+    };
+    const route = data.routes?.[0];
+    if (data.code !== 'Ok' || !route) throw new Error(`OSRM route failed: ${data.code}`);
+
+    return { distanceKm: route.distance / 1000, durationMinutes: route.duration / 60 };
+  }
+
+  async matrix(origins: LatLng[], destinations: LatLng[]): Promise<Array<Array<RouteLeg | null>>> {
+    const coords = [...origins, ...destinations].map((p) => `${p.lng},${p.lat}`).join(';');
+    const params = new URLSearchParams({
+      annotations: 'distance,duration',
+      sources: origins.map((_, i) => i).join(';'),
+      destinations: destinations.map((_, i) => origins.length + i).join(';'),
+    });
+    const res = await fetch(`${this.baseUrl}/table/v1/${this.profile}/${coords}?${params}`);
+    if (!res.ok) throw new Error(`OSRM table failed: ${res.statusText}`);
+
+    const data = await res.json() as {
+      code: string;
+      distances?: Array<Array<number | null>>;
+      durations?: Array<Array<number | null>>;
+    };
+    if (data.code !== 'Ok') throw new Error(`OSRM table failed: ${data.code}`);
+
+    return origins.map((_, i) =>
+      destinations.map((_, j) => {
+        const distance = data.distances?.[i]?.[j];
+        const duration = data.durations?.[i]?.[j];
+        if (distance == null || duration == null) return null;
+        return { distanceKm: distance / 1000, durationMinutes: duration / 60 };
+      })
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// KV cache wrapper
+// ---------------------------------------------------------------------------
+
+/** Cached road legs are stable; keep them for a week. */
+const ROUTING_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** 3 decimal places ≈ 110 m, close enough to share a road leg. */
+const ROUTING_CACHE_PRECISION = 3;
+
+function quantise(point: LatLng): string {
+  return `${point.lat.toFixed(ROUTING_CACHE_PRECISION)},${point.lng.toFixed(ROUTING_CACHE_PRECISION)}`;
+}
+
+export function routingCacheKey(provider: RoutingProviderName, from: LatLng, to: LatLng): string {
+  return `routing:${provider}:${quantise(from)}:${quantise(to)}`;
+}
+
+export class CachedRoutingProvider implements RoutingProvider {
+  constructor(
+    private inner: RoutingProvider,
+    private kv: KVNamespace,
+    private ttlSeconds = ROUTING_CACHE_TTL_SECONDS,
+  ) {}
+
+  get name(): RoutingProviderName {
+    return this.inner.name;
+  }
+
+  async route(from: LatLng, to: LatLng): Promise<RouteLeg> {
+    const key = routingCacheKey(this.inner.name, from, to);
+    const cached = await this.read(key);
+    if (cached) return cached;
+
+    const leg = await this.inner.route(from, to);
+    await this.write(key, leg);
+    return leg;
+  }
+
+  async matrix(origins: LatLng[], destinations: LatLng[]): Promise<Array<Array<RouteLeg | null>>> {
+    const result: Array<Array<RouteLeg | null>> = origins.map(() => destinations.map(() => null));
+    const missingOrigins = new Set<number>();
+    const missingDestinations = new Set<number>();
+
+    await Promise.all(origins.flatMap((o, i) =>
+      destinations.map(async (d, j) => {
+        const cached = await this.read(routingCacheKey(this.inner.name, o, d));
+        if (cached) {
+          result[i][j] = cached;
+        } else {
+          missingOrigins.add(i);
+          missingDestinations.add(j);
+        }
+      })
+    ));
+
+    if (missingOrigins.size === 0) return result;
+
+    // Fetch the smallest sub-matrix covering every miss
+    const originIdx = [...missingOrigins].sort((a, b) => a - b);
+    const destinationIdx = [...missingDestinations].sort((a, b) => a - b);
+    const fetched = await this.inner.matrix(
+      originIdx.map((i) => origins[i]),
+      destinationIdx.map((j) => destinations[j]),
+    );
+
+    const writes: Promise<void>[] = [];
+    originIdx.forEach((i, oi) => {
+      destinationIdx.forEach((j, dj) => {
+        const leg = fetched[oi]?.[dj] ?? null;
+        if (result[i][j] || !leg) return;
+        result[i][j] = leg;
+        writes.push(this.write(routingCacheKey(this.inner.name, origins[i], destinations[j]), leg));
+      });
+    });
+    await Promise.all(writes);
+
+    return result;
+  }
+
+  private async read(key: string): Promise<RouteLeg | null> {
+    try {
+      return await this.kv.get<RouteLeg>(key, 'json');
+    } catch (err) {
+      logger.warn('Routing cache read failed', {
+        key,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return null;
+    }
+  }
+
+  private async write(key: string, leg: RouteLeg): Promise<void> {
+    try {
+      await this.kv.put(key, JSON.stringify(leg), { expirationTtl: this.ttlSeconds });
+    } catch (err) {
+      logger.warn('Routing cache write failed', {
+        key,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Distance tables
+// ---------------------------------------------------------------------------
+
+/**
+ * Prefetch road distances for every origin → destination pair and return a
+ * synchronous lookup (km) for code that cannot await, such as the matching
+ * engine. Pairs that were not prefetched, or that the provider could not
+ * route, fall back to haversine × ROAD_FACTOR.
+ *
+ * If the provider fails outright every lookup uses that fallback, so
+ * matching keeps working when the routing backend is down.
+ */
+export async function buildDistanceTable(
+  provider: RoutingProvider,
+  origins: LatLng[],
+  destinations: LatLng[],
+): Promise<(from: LatLng, to: LatLng) => number> {
+  const table = new Map<string, number>();
+  const uniq = (points: LatLng[]) =>
+    [...new Map(points.map((p) => [quantise(p), p])).values()];
+  const from = uniq(origins);
+  const to = uniq(destinations);
+
+  if (from.length > 0 && to.length > 0) {
+    try {
+      const legs = await provider.matrix(from, to);
+      from.forEach((o, i) => {
+        to.forEach((d, j) => {
+          const leg = legs[i]?.[j];
+          if (leg) table.set(`${quantise(o)}:${quantise(d)}`, leg.distanceKm);
+        });
+      });
+    } catch (err) {
+      logger.warn('Routing matrix failed; falling back to straight-line distances', {
+        provider: provider.name,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return (a, b) => {
+    if (quantise(a) === quantise(b)) return 0;
+    return table.get(`${quantise(a)}:${quantise(b)}`) ??
+      haversineKm(a, b) * TRIP_RATES.ROAD_FACTOR;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the routing provider configured by `ROUTING_PROVIDER`, wrapped in the
+ * KV cache when `CACHE` is bound. Falls back to the straight-line model when
+ * the selected backend is not configured.
+ */
+export function getRoutingProvider(env: Bindings): RoutingProvider {
+  let provider: RoutingProvider = new StraightLineRoutingProvider();
+
+  const selected = (env.ROUTING_PROVIDER ?? 'straight_line').toLowerCase();
+  if (selected === 'mapbox') {
+    const geo = getGeoService(env);
+    if (geo) {
+      provider = new MapboxRoutingProvider(geo);
+    } else {
+      logger.warn('ROUTING_PROVIDER=mapbox but MAPBOX_ACCESS_TOKEN is not set; using straight-line routing');
+    }
+  } else if (selected === 'osrm') {
+    if (env.OSRM_URL) {
+      provider = new OsrmRoutingProvider(env.OSRM_URL);
+    } else {
+      logger.warn('ROUTING_PROVIDER=osrm but OSRM_URL is not set; using straight-line routing');
+    }
+  }
+
+  if (provider.name === 'straight_line' || !env.CACHE) return provider;
+  return new CachedRoutingProvider(provider, env.CACHE);
+}
@@ -0,0 +1,264 @@
+/**
+ * Klubz - Saved Places and Routes
+ *
+ * Users save places (Home, Work, custom labels) and routes between two of
+ * their places, then refer to them by id when requesting or offering a
+ * ride or subscribing for a month. A place's coordinates and address are
+ * encrypted together with the owner's PII key.
+ *
+ * Subscriptions remember the places that seeded their default pickup and
+ * dropoff. Editing such a place can carry the new location over to the
+ * subscription defaults and its upcoming scheduled days; days that are
+ * already requested or matched, and days with a one-off destination
+ * change, are left alone.
+ */
+
+import type { D1Database } from '../types';
+import type { GeoPoint } from './matching/types';
+import { decryptPII, encryptPII } from './encryption';
+import { AppError, NotFoundError } from './errors';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const SAVED_PLACE_KINDS = ['home', 'work', 'custom'] as const;
+export type SavedPlaceKind = typeof SAVED_PLACE_KINDS[number];
+
+/** Most places one user can save. */
+export const SAVED_PLACES_MAX = 20;
+
+/** Most routes one user can save. */
+export const SAVED_ROUTES_MAX = 20;
+
+export interface SavedLocation extends GeoPoint {
+  address?: string;
+}
+
+export interface SavedPlace {
+  id: number;
+  kind: SavedPlaceKind;
+  label: string;
+  location: SavedLocation;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedPlaceRow {
+  id: number;
+  user_id: number;
+  kind: SavedPlaceKind;
+  label: string;
+  location_encrypted: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedRoute {
+  id: number;
+  name: string;
+  origin: SavedPlace;
+  destination: SavedPlace;
+  createdAt: string;
+}
+
+export interface SavedRouteRow {
+  id: number;
+  user_id: number;
+  name: string;
+  origin_place_id: number;
+  destination_place_id: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Ways a request can point at saved places instead of sending locations. */
+export interface SavedPlaceRefs {
+  savedRouteId?: number;
+  pickupPlaceId?: number;
+  dropoffPlaceId?: number;
+}
+
+export interface ScheduleUpdate {
+  /** Subscriptions whose default pickup or dropoff was updated. */
+  subscriptions: number;
+  /** Upcoming scheduled days updated. */
+  days: number;
+}
+
+// ---------------------------------------------------------------------------
+// Encryption and row mapping
+// ---------------------------------------------------------------------------
+
+function requireKey(encryptionKey: string | undefined): string {
+  if (!encryptionKey) {
+    throw new AppError('Encryption not configured', 'CONFIGURATION_ERROR', 500);
+  }
+  return encryptionKey;
+}
+
+export async function encryptSavedLocation(
+  location: SavedLocation,
+  encryptionKey: string | undefined,
+  userId: number,
+): Promise<string> {
+  const { lat, lng, address } = location;
+  return encryptPII(JSON.stringify({ lat, lng, ...(address ? { address } : {}) }), requireKey(encryptionKey), userId);
+}
+
+export async function rowToSavedPlace(row: SavedPlaceRow, encryptionKey: string | undefined): Promise<SavedPlace> {
+  let location: SavedLocation;
+  try {
+    location = JSON.parse(await decryptPII(row.location_encrypted, requireKey(encryptionKey), row.user_id)) as SavedLocation;
+  } catch (err) {
+    if (err instanceof AppError) throw err;
+    throw new AppError('Saved place could not be decrypted', 'INTERNAL_ERROR', 500);
+  }
+  return {
+    id: row.id,
+    kind: row.kind,
+    label: row.label,
+    location,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Lookups
+// ---------------------------------------------------------------------------
+
+export async function loadSavedPlace(
+  db: D1Database,
+  encryptionKey: string | undefined,
+  userId: number,
+  id: number,
+): Promise<SavedPlace> {
+  const row = await db
+    .prepare('SELECT * FROM saved_places WHERE id = ? AND user_id = ?')
+    .bind(id, userId)
+    .first<SavedPlaceRow>();
+  if (!row) throw new NotFoundError('Saved place');
+  return rowToSavedPlace(row, encryptionKey);
+}
+
+/** The user's Home or Work place, if saved. */
+export async function findSavedPlaceOfKind(
+  db: D1Database,
+  encryptionKey: string | undefined,
+  userId: number,
+  kind: Exclude<SavedPlaceKind, 'custom'>,
+): Promise<SavedPlace | null> {
+  const row = await db
+    .prepare('SELECT * FROM saved_places WHERE user_id = ? AND kind = ?')
+    .bind(userId, kind)
+    .first<SavedPlaceRow>();
+  return row ? rowToSavedPlace(row, encryptionKey) : null;
+}
+
+export async function loadSavedRoute(
+  db: D1Database,
+  encryptionKey: string | undefined,
+  userId: number,
+  id: number,
+): Promise<SavedRoute> {
+  const row = await db
+    .prepare('SELECT * FROM saved_routes WHERE id = ? AND user_id = ?')
+    .bind(id, userId)
+    .first<SavedRouteRow>();
+  if (!row) throw new NotFoundError('Saved route');
+  return {
+    id: row.id,
+    name: row.name,
+    origin: await loadSavedPlace(db, encryptionKey, userId, row.origin_place_id),
+    destination: await loadSavedPlace(db, encryptionKey, userId, row.destination_place_id),
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * The pickup and dropoff places a request refers to. A saved route fills
+ * both; a place id overrides its end of the route. Ends without a
+ * reference are left undefined for the caller's own locations.
+ */
+export async function resolveSavedPlaces(
+  db: D1Database,
+  encryptionKey: string | undefined,
+  userId: number,
+  refs: SavedPlaceRefs,
+): Promise<{ pickup?: SavedPlace; dropoff?: SavedPlace }> {
+  const route = refs.savedRouteId !== undefined
+    ? await loadSavedRoute(db, encryptionKey, userId, refs.savedRouteId)
+    : null;
+  const pickup = refs.pickupPlaceId !== undefined
+    ? await loadSavedPlace(db, encryptionKey, userId, refs.pickupPlaceId)
+    : route?.origin;
+  const dropoff = refs.dropoffPlaceId !== undefined
+    ? await loadSavedPlace(db, encryptionKey, userId, refs.dropoffPlaceId)
+    : route?.destination;
+  return { pickup, dropoff };
+}
+
+// ---------------------------------------------------------------------------
+// Subscription propagation
+// ---------------------------------------------------------------------------
+
+function changedRows(result: { meta?: unknown } | null | undefined): number {
+  const changes = (result?.meta as { changes?: unknown } | undefined)?.changes;
+  return typeof changes === 'number' ? changes : 0;
+}
+
+/**
+ * Copy an edited place to the live subscriptions it seeded and to their
+ * scheduled days from `fromDate` (YYYY-MM-DD) on. A pickup place is the
+ * morning pickup and the evening dropoff; a dropoff place the reverse.
+ * Days with a one-off destination change keep their dropoff.
+ */
+export async function propagatePlaceToSchedule(
+  db: D1Database,
+  place: SavedPlace,
+  encryptionKey: string | undefined,
+  userId: number,
+  fromDate: string,
+): Promise<ScheduleUpdate> {
+  const { lat, lng, address } = place.location;
+  const addressEncrypted = address ? await encryptPII(address, requireKey(encryptionKey), userId) : null;
+  const update: ScheduleUpdate = { subscriptions: 0, days: 0 };
+
+  for (const end of ['pickup', 'dropoff'] as const) {
+    const other = end === 'pickup' ? 'dropoff' : 'pickup';
+    const seeded = `SELECT id FROM monthly_subscriptions
+      WHERE user_id = ? AND default_${end}_place_id = ? AND status IN ('pending_payment', 'active')`;
+
+    update.days += changedRows(await db
+      .prepare(`
+        UPDATE monthly_scheduled_days
+        SET ${end}_lat = ?, ${end}_lng = ?, ${end}_encrypted = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE trip_type = 'morning' AND status = 'scheduled' AND trip_date >= ?
+          ${end === 'dropoff' ? 'AND is_destination_change = 0' : ''}
+          AND subscription_id IN (${seeded})
+      `)
+      .bind(lat, lng, addressEncrypted, fromDate, userId, place.id)
+      .run());
+    update.days += changedRows(await db
+      .prepare(`
+        UPDATE monthly_scheduled_days
+        SET ${other}_lat = ?, ${other}_lng = ?, ${other}_encrypted = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE trip_type = 'evening' AND status = 'scheduled' AND trip_date >= ?
+          ${other === 'dropoff' ? 'AND is_destination_change = 0' : ''}
+          AND subscription_id IN (${seeded})
+      `)
+      .bind(lat, lng, addressEncrypted, fromDate, userId, place.id)
+      .run());
+    update.subscriptions += changedRows(await db
+      .prepare(`
+        UPDATE monthly_subscriptions
+        SET default_${end}_lat = ?, default_${end}_lng = ?, default_${end}_encrypted = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id IN (${seeded})
+      `)
+      .bind(lat, lng, addressEncrypted, userId, place.id)
+      .run());
+  }
+
+  return update;
+}
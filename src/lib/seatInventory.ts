@@ -0,0 +1,242 @@
+/**
+ * Klubz - Segment Seat Inventory
+ *
+ * A booking holds its seats only between its pickup and dropoff. Each
+ * booking on a posted trip records that stretch as km offsets along the
+ * line from the trip's origin to its destination (NULL means the whole
+ * route, e.g. for trips posted by address only), and capacity is the peak
+ * number of seats occupied at once along it.
+ *
+ * `trips.available_seats` stays "seats free along the whole route": total
+ * seats minus that peak. A whole-route booking raises the peak by exactly
+ * its passenger count, so it keeps the plain guarded decrement; part-route
+ * bookings and their cancellations recompute the column instead.
+ */
+
+import type { D1Database } from '../types';
+import type { GeoPoint } from './matching/types';
+import { haversine } from './matching/geo';
+import { journeyInterval, STOP_SNAP_KM } from './matching/segments';
+
+/** Stand-in offset for "until the end of the route" in SQL. */
+const ROUTE_END_KM = 1e9;
+
+export interface RouteSegment {
+  startKm: number;
+  endKm: number;
+}
+
+/** A table of seat-holding rows with a route interval per row. */
+export interface OccupancySource {
+  table: string;
+  /** Condition selecting the rows that hold seats, against `alias`. */
+  where: (alias: string) => string;
+  /** Seats held by a row, against `alias`. */
+  seats: (alias: string) => string;
+  startColumn: string;
+  endColumn: string;
+}
+
+/**
+ * SQL expression for the most seats held at once within
+ * `[windowStart, windowEnd)`; both are SQL expressions. Mirrors
+ * `peakOccupancy` in `matching/segments.ts`: rows with a NULL interval
+ * cover the whole route, and the load is sampled at the window start and
+ * at every interval start inside the window.
+ */
+export function peakOccupancySql(
+  source: OccupancySource,
+  windowStart: string,
+  windowEnd: string = String(ROUTE_END_KM),
+): string {
+  const start = (a: string) => `COALESCE(${a}.${source.startColumn}, 0)`;
+  const until = (a: string) =>
+    `COALESCE(MAX(${a}.${source.endColumn} - ${STOP_SNAP_KM}, ${a}.${source.startColumn} + ${STOP_SNAP_KM / 2}), ${ROUTE_END_KM})`;
+  const windowUntil = `MAX((${windowEnd}) - ${STOP_SNAP_KM}, (${windowStart}) + ${STOP_SNAP_KM / 2})`;
+
+  return `(
+    SELECT COALESCE(MAX((
+      SELECT COALESCE(SUM(${source.seats('o')}), 0) FROM ${source.table} o
+      WHERE ${source.where('o')} AND ${start('o')} <= k.km AND k.km < ${until('o')}
+    )), 0)
+    FROM (
+      SELECT (${windowStart}) AS km
+      UNION
+      SELECT ${start('c')} FROM ${source.table} c
+      WHERE ${source.where('c')} AND ${start('c')} > (${windowStart}) AND ${start('c')} < ${windowUntil}
+    ) k
+  )`;
+}
+
+/** Accepted and on-board bookings on trip `tripParam`. */
+export function tripBookingSeats(tripParam: string): OccupancySource {
+  return {
+    table: 'trip_participants',
+    where: (a) => `${a}.trip_id = ${tripParam} AND ${a}.role = 'rider' AND ${a}.status = 'accepted'`,
+    seats: (a) => `COALESCE(${a}.passenger_count, 1)`,
+    startColumn: 'segment_start_km',
+    endColumn: 'segment_end_km',
+  };
+}
+
+function parsePoint(value: unknown): GeoPoint | null {
+  let point = value;
+  if (typeof value === 'string') {
+    try {
+      point = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  const { lat, lng } = (point ?? {}) as { lat?: unknown; lng?: unknown };
+  return typeof lat === 'number' && typeof lng === 'number' ? { lat, lng } : null;
+}
+
+const roundKm = (km: number) => Math.round(km * 1000) / 1000;
+
+/** A trip's endpoint coordinates, null for trips posted by address only. */
+export interface TripEndpoints {
+  origin_lat: number | null;
+  origin_lng: number | null;
+  destination_lat: number | null;
+  destination_lng: number | null;
+}
+
+/**
+ * The stretch of a posted trip a booking occupies, or null when it holds
+ * seats for the whole route: the trip or the booking has no coordinates,
+ * or the journey runs (nearly) end to end.
+ */
+export function bookingSegment(
+  trip: TripEndpoints,
+  pickup: unknown,
+  dropoff: unknown,
+): RouteSegment | null {
+  const origin = parsePoint({ lat: trip.origin_lat, lng: trip.origin_lng });
+  const destination = parsePoint({ lat: trip.destination_lat, lng: trip.destination_lng });
+  const from = parsePoint(pickup);
+  const to = parsePoint(dropoff);
+  if (!origin || !destination || !from || !to) return null;
+
+  const { startKm, endKm } = journeyInterval([origin, destination], from, to);
+  const routeKm = haversine(origin, destination);
+  if (startKm <= STOP_SNAP_KM && endKm >= routeKm - STOP_SNAP_KM) return null;
+  return { startKm: roundKm(startKm), endKm: roundKm(endKm) };
+}
+
+/** Seats free on every point of `segment` of a trip. */
+export async function segmentSeatsFree(db: D1Database, tripId: number | string, segment: RouteSegment): Promise<number> {
+  const row = await db
+    .prepare(`SELECT t.total_seats - ${peakOccupancySql(tripBookingSeats('?1'), '?2', '?3')} AS free FROM trips t WHERE t.id = ?1`)
+    .bind(tripId, segment.startKm, segment.endKm)
+    .first<{ free: number }>();
+  return Math.max(0, Number(row?.free ?? 0));
+}
+
+/**
+ * `available_seats` recomputed from the trip's bookings: total seats minus
+ * the peak occupancy along the route. Binds `?1` to the trip id.
+ */
+function seatRefreshSql(condition = ''): string {
+  return `
+    UPDATE trips
+    SET available_seats = MAX(0, total_seats - ${peakOccupancySql(tripBookingSeats('?1'), '0')})
+    WHERE id = ?1 ${condition}
+  `;
+}
+
+/** Recompute `available_seats` after part-route bookings change. */
+export async function refreshTripSeats(db: D1Database, tripId: number | string): Promise<void> {
+  await db.prepare(seatRefreshSql()).bind(tripId).run();
+}
+
+/**
+ * `bookingSegment` for a trip by id. Bookings without coordinates hold the
+ * whole route and skip the lookup.
+ */
+export async function tripBookingSegment(
+  db: D1Database,
+  tripId: number | string,
+  pickup: unknown,
+  dropoff: unknown,
+): Promise<RouteSegment | null> {
+  if (!parsePoint(pickup) || !parsePoint(dropoff)) return null;
+  const trip = await db
+    .prepare('SELECT origin_lat, origin_lng, destination_lat, destination_lng FROM trips WHERE id = ?')
+    .bind(tripId)
+    .first<TripEndpoints>();
+  return trip ? bookingSegment(trip, pickup, dropoff) : null;
+}
+
+// ---------------------------------------------------------------------------
+// Accepting bookings
+// ---------------------------------------------------------------------------
+
+function affectedRows(result: unknown): number | null {
+  const changes = (result as { meta?: { changes?: unknown } } | null)?.meta?.changes;
+  return typeof changes === 'number' ? changes : null;
+}
+
+export type BookingAcceptance = 'accepted' | 'not_pending' | 'no_seats';
+
+/**
+ * Accept a requested booking and take its seats in one batch. The status
+ * change only applies while the booking's seats are free, and the seat
+ * update only runs when the status changed, so the booking is either
+ * accepted with its seats or left pending.
+ */
+export async function acceptBookingWithSeats(
+  db: D1Database,
+  tripId: number | string,
+  bookingId: string | number,
+  instant = false,
+): Promise<BookingAcceptance> {
+  const seatHold = await db
+    .prepare("SELECT segment_start_km, segment_end_km FROM trip_participants WHERE id = ? AND trip_id = ? AND role = 'rider'")
+    .bind(bookingId, tripId)
+    .first<{ segment_start_km: number | null; segment_end_km: number | null }>();
+  const segment: RouteSegment | null = seatHold?.segment_start_km != null && seatHold.segment_end_km != null
+    ? { startKm: seatHold.segment_start_km, endKm: seatHold.segment_end_km }
+    : null;
+
+  // Part-route bookings need their segment to fit beside the bookings
+  // already on it; whole-route ones need the free seats along the route.
+  const seatsFree = segment
+    ? `COALESCE(passenger_count, 1) + ${peakOccupancySql(tripBookingSeats('?3'), '?4', '?5')}
+          <= (SELECT total_seats FROM trips WHERE id = ?3)`
+    : 'COALESCE(passenger_count, 1) <= (SELECT available_seats FROM trips WHERE id = ?3)';
+  const accept = db
+    .prepare(`
+      UPDATE trip_participants
+      SET status = 'accepted', accepted_at = CURRENT_TIMESTAMP, instant_booked = ?1
+      WHERE id = ?2 AND trip_id = ?3 AND role = 'rider' AND status = 'requested'
+        AND ${seatsFree}
+    `)
+    .bind(instant ? 1 : 0, bookingId, tripId, ...(segment ? [segment.startKm, segment.endKm] : []));
+
+  // changes() is the row count of the acceptance above (the batch runs as
+  // one transaction), so the seats are only taken for an accepted booking.
+  // Part-route bookings recompute availability; whole-route ones decrement.
+  const takeSeats = segment
+    ? db.prepare(seatRefreshSql('AND changes() > 0')).bind(tripId)
+    : db
+      .prepare(`
+        UPDATE trips
+        SET available_seats = available_seats - (
+          SELECT COALESCE(passenger_count, 1)
+          FROM trip_participants
+          WHERE id = ?2 AND trip_id = ?1 AND role = 'rider'
+        )
+        WHERE id = ?1 AND changes() > 0
+      `)
+      .bind(tripId, bookingId);
+
+  const [accepted] = await db.batch([accept, takeSeats]);
+  if (affectedRows(accepted) !== 0) return 'accepted';
+
+  const booking = await db
+    .prepare("SELECT status FROM trip_participants WHERE id = ? AND trip_id = ? AND role = 'rider'")
+    .bind(bookingId, tripId)
+    .first<{ status: string }>();
+  return booking?.status === 'requested' ? 'no_seats' : 'not_pending';
+}
@@ -0,0 +1,494 @@
+/**
+ * Klubz - Rider Trip Request Board
+ *
+ * A rider posts the journey they need and a departure window. The request
+ * is sent to verified drivers whose live trips pass near both its pickup
+ * and dropoff — the same cell index (or bounding box, for unindexed trips)
+ * the matcher pre-filters on — and who meet the rider's gender and rating
+ * preferences; only they see it on their board. Until the rider accepts
+ * their bid, drivers see the geohash cell around each end rather than the
+ * exact point or address.
+ *
+ * Each driver bids once, with a pickup time inside the window and a price
+ * per seat the driver's rate card allows: the distance fare scaled by the
+ * pricing multiplier bounds, held within the card's fare caps. When the
+ * rider accepts a bid the request is claimed first, then the trip, the
+ * driver's participant row and the rider's accepted booking are created in
+ * one batch, and every other bid is declined.
+ */
+
+import type { Bindings, D1Database } from '../types';
+import type { GeoPoint, RiderPreferences } from './matching/types';
+import {
+  buildBoundingBox,
+  DEFAULT_MATCH_CONFIG,
+  encodeGeohash,
+  geohashBounds,
+  geohashCellsWithin,
+  padBoundingBox,
+  ROUTE_CELL_PRECISION,
+} from './matching';
+import type { MatchConfig } from './matching';
+import { calculateFareCents, PRICING_MULTIPLIER_BOUNDS } from './pricing';
+import type { RateCard } from './pricing';
+import { safeDecryptPII } from './encryption';
+import { AppError, ConflictError } from './errors';
+import { logger } from './logger';
+import { createNotification } from './notificationStore';
+import type { NotificationType } from './notificationStore';
+import { sendPushNotification } from './push';
+import { getUserNotificationPreferences } from './userPreferences';
+
+/** Most drivers one request is sent to. */
+export const TRIP_REQUEST_MAX_RECIPIENTS = 50;
+/** Longest departure window a rider can ask for. */
+export const TRIP_REQUEST_MAX_WINDOW_MS = 12 * 60 * 60 * 1000;
+/** Geohash precision of the area drivers see before acceptance (~5 km cells). */
+export const TRIP_REQUEST_AREA_PRECISION = ROUTE_CELL_PRECISION;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type TripRequestStatus = 'open' | 'accepted' | 'cancelled';
+export type TripBidStatus = 'pending' | 'accepted' | 'declined' | 'withdrawn';
+
+export interface TripRequestLocation extends GeoPoint {
+  address?: string;
+}
+
+/** Hard driver preferences a request is only sent to drivers meeting. */
+export type TripRequestPreferences = Pick<RiderPreferences, 'genderPreference' | 'minDriverRating'>;
+
+/** A geohash cell standing in for an exact location, with its centre. */
+export interface TripRequestArea extends GeoPoint {
+  cell: string;
+}
+
+export interface TripRequest {
+  id: number;
+  riderId: number;
+  pickup: TripRequestLocation;
+  dropoff: TripRequestLocation;
+  earliestDeparture: number;
+  latestDeparture: number;
+  seatsNeeded: number;
+  distanceKm: number;
+  notes: string | null;
+  preferences: TripRequestPreferences;
+  status: TripRequestStatus;
+  acceptedBidId: number | null;
+  tripId: number | null;
+  createdAt: string;
+}
+
+/** What a driver sees of a request before the rider accepts their bid. */
+export interface DriverTripRequest extends Omit<TripRequest, 'pickup' | 'dropoff' | 'preferences'> {
+  pickupArea: TripRequestArea;
+  dropoffArea: TripRequestArea;
+}
+
+export interface TripRequestRow {
+  id: number;
+  rider_id: number;
+  organization_id: string | null;
+  pickup_lat: number;
+  pickup_lng: number;
+  dropoff_lat: number;
+  dropoff_lng: number;
+  pickup_address_encrypted: string | null;
+  dropoff_address_encrypted: string | null;
+  earliest_departure: number;
+  latest_departure: number;
+  seats_needed: number;
+  distance_km: number;
+  notes: string | null;
+  preferences_json: string | null;
+  status: TripRequestStatus;
+  accepted_bid_id: number | null;
+  trip_id: number | null;
+  created_at: string;
+}
+
+export interface TripBidVehicle {
+  make: string;
+  model: string;
+  licensePlate: string;
+}
+
+export interface TripBid {
+  id: number;
+  requestId: number;
+  driverId: number;
+  pickupTime: number;
+  pricePerSeat: number;
+  totalSeats: number;
+  vehicleType: string;
+  vehicle: Omit<TripBidVehicle, 'licensePlate'>;
+  message: string | null;
+  status: TripBidStatus;
+  createdAt: string;
+}
+
+export interface TripBidRow {
+  id: number;
+  request_id: number;
+  driver_id: number;
+  pickup_time: number;
+  price_per_seat_cents: number;
+  total_seats: number;
+  vehicle_type: string;
+  vehicle_json: string;
+  message: string | null;
+  status: TripBidStatus;
+  created_at: string;
+}
+
+export interface BidPriceRange {
+  minCents: number;
+  maxCents: number;
+}
+
+export interface AcceptedBid {
+  tripId: number;
+  bookingId: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// Row mapping
+// ---------------------------------------------------------------------------
+
+export async function rowToTripRequest(row: TripRequestRow, encryptionKey: string | undefined): Promise<TripRequest> {
+  const pickupAddress = await safeDecryptPII(row.pickup_address_encrypted, encryptionKey, row.rider_id);
+  const dropoffAddress = await safeDecryptPII(row.dropoff_address_encrypted, encryptionKey, row.rider_id);
+  return {
+    id: row.id,
+    riderId: row.rider_id,
+    pickup: { lat: row.pickup_lat, lng: row.pickup_lng, ...(pickupAddress ? { address: pickupAddress } : {}) },
+    dropoff: { lat: row.dropoff_lat, lng: row.dropoff_lng, ...(dropoffAddress ? { address: dropoffAddress } : {}) },
+    earliestDeparture: row.earliest_departure,
+    latestDeparture: row.latest_departure,
+    seatsNeeded: row.seats_needed,
+    distanceKm: row.distance_km,
+    notes: row.notes,
+    preferences: row.preferences_json ? JSON.parse(row.preferences_json) as TripRequestPreferences : {},
+    status: row.status,
+    acceptedBidId: row.accepted_bid_id,
+    tripId: row.trip_id,
+    createdAt: row.created_at,
+  };
+}
+
+const roundCoordinate = (value: number) => Math.round(value * 1000) / 1000;
+
+/** The geohash cell around `point`, located by the cell's centre. */
+export function requestArea(point: GeoPoint): TripRequestArea {
+  const cell = encodeGeohash(point, TRIP_REQUEST_AREA_PRECISION);
+  const bounds = geohashBounds(cell);
+  return {
+    cell,
+    lat: roundCoordinate((bounds.minLat + bounds.maxLat) / 2),
+    lng: roundCoordinate((bounds.minLng + bounds.maxLng) / 2),
+  };
+}
+
+/**
+ * A request as drivers see it before acceptance: the cells around its
+ * ends instead of the exact points and addresses, and without the rider's
+ * preferences.
+ */
+export function driverTripRequest(request: TripRequest): DriverTripRequest {
+  return {
+    id: request.id,
+    riderId: request.riderId,
+    pickupArea: requestArea(request.pickup),
+    dropoffArea: requestArea(request.dropoff),
+    earliestDeparture: request.earliestDeparture,
+    latestDeparture: request.latestDeparture,
+    seatsNeeded: request.seatsNeeded,
+    distanceKm: request.distanceKm,
+    notes: request.notes,
+    status: request.status,
+    acceptedBidId: request.acceptedBidId,
+    tripId: request.tripId,
+    createdAt: request.createdAt,
+  };
+}
+
+export function rowToTripBid(row: TripBidRow): TripBid {
+  const vehicle = JSON.parse(row.vehicle_json) as TripBidVehicle;
+  return {
+    id: row.id,
+    requestId: row.request_id,
+    driverId: row.driver_id,
+    pickupTime: row.pickup_time,
+    pricePerSeat: row.price_per_seat_cents / 100,
+    totalSeats: row.total_seats,
+    vehicleType: row.vehicle_type,
+    vehicle: { make: vehicle.make, model: vehicle.model },
+    message: row.message,
+    status: row.status,
+    createdAt: row.created_at,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Pricing
+// ---------------------------------------------------------------------------
+
+/**
+ * Prices per seat a driver may bid: the daily distance fare scaled by the
+ * pricing multiplier bounds, within the rate card's fare caps.
+ */
+export function bidPriceRange(distanceKm: number, rateCard: RateCard): BidPriceRange {
+  const baseFareCents = calculateFareCents(distanceKm, 'daily', rateCard);
+  const minCents = Math.max(rateCard.minFareCents, Math.round(baseFareCents * PRICING_MULTIPLIER_BOUNDS.min));
+  const maxCents = Math.min(rateCard.maxFareCents, Math.round(baseFareCents * PRICING_MULTIPLIER_BOUNDS.max));
+  return { minCents, maxCents: Math.max(minCents, maxCents) };
+}
+
+// ---------------------------------------------------------------------------
+// Recipients
+// ---------------------------------------------------------------------------
+
+/**
+ * Verified, active drivers other than the rider with an offered or active
+ * trip passing near both ends of the request. The rider's preferences are
+ * hard filters, as in the matching engine: a gender preference needs a
+ * driver who opted in to share a matching gender, and a minimum rating
+ * leaves out drivers without one.
+ */
+export async function findRequestDrivers(
+  db: D1Database,
+  request: { riderId: number; pickup: GeoPoint; dropoff: GeoPoint; preferences?: TripRequestPreferences },
+  config: MatchConfig = DEFAULT_MATCH_CONFIG,
+): Promise<number[]> {
+  const bbox = padBoundingBox(buildBoundingBox([request.pickup, request.dropoff]), config.thresholds.boundingBoxPaddingDeg);
+  const pickupCells = geohashCellsWithin(request.pickup, config.thresholds.maxPickupDistanceKm);
+  const dropoffCells = geohashCellsWithin(request.dropoff, config.thresholds.maxDropoffDistanceKm);
+  const placeholders = (offset: number, count: number) =>
+    Array.from({ length: count }, (_, i) => `?${offset + i}`).join(', ');
+  const pickupOffset = 6;
+  const dropoffOffset = pickupOffset + pickupCells.length;
+
+  const gender = request.preferences?.genderPreference;
+  const minRating = request.preferences?.minDriverRating;
+  const preferenceParams: unknown[] = [];
+  const preferenceParam = (value: unknown) => {
+    preferenceParams.push(value);
+    return `?${dropoffOffset + dropoffCells.length + preferenceParams.length - 1}`;
+  };
+  const preferenceFilters: string[] = [];
+  if (gender && gender !== 'any') {
+    preferenceFilters.push(`AND EXISTS (
+          SELECT 1 FROM driver_attribute_profiles p
+          WHERE p.user_id = dt.driver_id AND p.share_gender_for_matching = 1 AND p.gender = ${preferenceParam(gender)}
+        )`);
+  }
+  if (minRating !== undefined) {
+    preferenceFilters.push(`AND (
+          SELECT ROUND(AVG(rating), 1) FROM trip_participants
+          WHERE user_id = dt.driver_id AND rating IS NOT NULL
+        ) >= ${preferenceParam(minRating)}`);
+  }
+
+  const { results } = await db
+    .prepare(`
+      SELECT DISTINCT dt.driver_id
+      FROM driver_trips dt
+      JOIN users u ON u.id = dt.driver_id
+      WHERE dt.status IN ('offered', 'active')
+        AND dt.driver_id != ?1
+        AND u.is_active = 1
+        AND u.deleted_at IS NULL
+        AND u.documents_verified = 1
+        AND (
+          (
+            dt.cells_indexed = 1
+            AND dt.id IN (SELECT driver_trip_id FROM driver_trip_cells WHERE cell IN (${placeholders(pickupOffset, pickupCells.length)}))
+            AND dt.id IN (SELECT driver_trip_id FROM driver_trip_cells WHERE cell IN (${placeholders(dropoffOffset, dropoffCells.length)}))
+          )
+          OR (
+            dt.cells_indexed = 0
+            AND dt.bbox_max_lat >= ?2 AND dt.bbox_min_lat <= ?3
+            AND dt.bbox_max_lng >= ?4 AND dt.bbox_min_lng <= ?5
+          )
+        )
+        ${preferenceFilters.join('\n        ')}
+      LIMIT ${TRIP_REQUEST_MAX_RECIPIENTS}
+    `)
+    .bind(
+      request.riderId, bbox.minLat, bbox.maxLat, bbox.minLng, bbox.maxLng,
+      ...pickupCells, ...dropoffCells, ...preferenceParams,
+    )
+    .all<{ driver_id: number }>();
+  return (results ?? []).map((r) => r.driver_id);
+}
+
+// ---------------------------------------------------------------------------
+// Accepting a bid
+// ---------------------------------------------------------------------------
+
+function requestEndpoint(location: TripRequestLocation): string {
+  return location.address || JSON.stringify({ lat: location.lat, lng: location.lng });
+}
+
+/**
+ * Create the trip and the rider's accepted booking for `bid`. The request
+ * must already be claimed (status 'accepted', accepted_bid_id = bid.id);
+ * the claim is released if the batch fails.
+ */
+export async function createTripFromBid(
+  db: D1Database,
+  request: TripRequest,
+  bid: TripBidRow,
+  pickupPointEncrypted: string | null,
+): Promise<AcceptedBid> {
+  const vehicle = JSON.parse(bid.vehicle_json) as TripBidVehicle;
+  const pricePerSeat = bid.price_per_seat_cents / 100;
+  const ratePerKm = request.distanceKm > 0 ? Math.round((pricePerSeat / request.distanceKm) * 100) / 100 : null;
+
+  try {
+    await db.batch([
+      db.prepare(`
+        INSERT INTO trips (
+          title, origin, destination, origin_hash, destination_hash, departure_time,
+          available_seats, total_seats, price_per_seat, currency, status,
+          vehicle_type, vehicle_model_encrypted, vehicle_plate_encrypted, driver_id,
+          trip_type, route_distance_km, rate_per_km,
+          origin_lat, origin_lng, destination_lat, destination_lng
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'ZAR', 'scheduled', ?, ?, ?, ?, 'daily', ?, ?, ?, ?, ?, ?)
+      `).bind(
+        `Trip to ${request.dropoff.address || 'destination'}`,
+        requestEndpoint(request.pickup),
+        requestEndpoint(request.dropoff),
+        `hash_${Date.now()}`,
+        `hash_${Date.now() + 1}`,
+        new Date(bid.pickup_time).toISOString(),
+        bid.total_seats - request.seatsNeeded,
+        bid.total_seats,
+        pricePerSeat,
+        bid.vehicle_type,
+        `${vehicle.make} ${vehicle.model}`,
+        vehicle.licensePlate,
+        bid.driver_id,
+        request.distanceKm,
+        ratePerKm,
+        request.pickup.lat,
+        request.pickup.lng,
+        request.dropoff.lat,
+        request.dropoff.lng,
+      ),
+      db.prepare('UPDATE trip_requests SET trip_id = last_insert_rowid(), updated_at = CURRENT_TIMESTAMP WHERE id = ?')
+        .bind(request.id),
+      db.prepare(`
+        INSERT INTO trip_participants (trip_id, user_id, role, status)
+        SELECT trip_id, ?, 'driver', 'accepted' FROM trip_requests WHERE id = ?
+      `).bind(bid.driver_id, request.id),
+      db.prepare(`
+        INSERT INTO trip_participants (
+          trip_id, user_id, role, status, accepted_at, pickup_location_encrypted,
+          dropoff_location_encrypted, passenger_count, pickup_point_encrypted
+        )
+        SELECT trip_id, ?, 'rider', 'accepted', CURRENT_TIMESTAMP, ?, ?, ?, ?
+        FROM trip_requests WHERE id = ?
+      `).bind(
+        request.riderId,
+        requestEndpoint(request.pickup),
+        requestEndpoint(request.dropoff),
+        request.seatsNeeded,
+        pickupPointEncrypted,
+        request.id,
+      ),
+      db.prepare(`
+        UPDATE trip_request_bids
+        SET status = CASE WHEN id = ? THEN 'accepted' ELSE 'declined' END, updated_at = CURRENT_TIMESTAMP
+        WHERE request_id = ? AND status = 'pending'
+      `).bind(bid.id, request.id),
+    ]);
+  } catch (err) {
+    await db
+      .prepare(`
+        UPDATE trip_requests SET status = 'open', accepted_bid_id = NULL, trip_id = NULL, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND accepted_bid_id = ?
+      `)
+      .bind(request.id, bid.id)
+      .run();
+    throw err;
+  }
+
+  const created = await db
+    .prepare(`
+      SELECT r.trip_id, p.id AS booking_id
+      FROM trip_requests r
+      LEFT JOIN trip_participants p ON p.trip_id = r.trip_id AND p.user_id = r.rider_id AND p.role = 'rider'
+      WHERE r.id = ?
+    `)
+    .bind(request.id)
+    .first<{ trip_id: number | null; booking_id: number | null }>();
+  if (!created?.trip_id) {
+    throw new AppError('Trip could not be created from the bid', 'INTERNAL_ERROR', 500);
+  }
+  return { tripId: created.trip_id, bookingId: created.booking_id };
+}
+
+/** Claim an open request for `bidId`; throws if another bid got there first. */
+export async function claimTripRequest(db: D1Database, requestId: number, bidId: number): Promise<void> {
+  const claim = await db
+    .prepare(`
+      UPDATE trip_requests SET status = 'accepted', accepted_bid_id = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = 'open'
+    `)
+    .bind(bidId, requestId)
+    .run();
+  if (claim.meta?.changes === 0) {
+    throw new ConflictError('Trip request is no longer open');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Notifications
+// ---------------------------------------------------------------------------
+
+/** In-app and push notice about a request, for users who want trip updates. */
+export async function notifyTripRequestUser(
+  db: D1Database,
+  env: Bindings,
+  input: {
+    userId: number;
+    requestId: number;
+    tripId?: number;
+    notificationType: NotificationType;
+    subject: string;
+    message: string;
+    url: string;
+    metadata?: Record<string, unknown>;
+  },
+): Promise<void> {
+  try {
+    const prefs = await getUserNotificationPreferences(db, input.userId);
+    if (!prefs.tripUpdates) return;
+    await createNotification(db, {
+      userId: input.userId,
+      tripId: input.tripId,
+      notificationType: input.notificationType,
+      channel: 'in_app',
+      status: 'sent',
+      subject: input.subject,
+      message: input.message,
+      metadata: { requestId: input.requestId, ...input.metadata },
+    });
+    await sendPushNotification(env, db as Parameters<typeof sendPushNotification>[1], input.userId, {
+      title: input.subject,
+      body: input.message,
+      url: input.url,
+      tag: `trip-request:${input.requestId}`,
+    });
+  } catch (err) {
+    logger.warn('Failed to notify about trip request', {
+      userId: input.userId,
+      requestId: input.requestId,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
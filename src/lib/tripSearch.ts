@@ -0,0 +1,255 @@
+/**
+ * Klubz - Trip Search
+ *
+ * Options for `GET /api/trips/available`: filters that narrow the candidate
+ * trips in SQL before matching, the order of the matched trips, and keyset
+ * cursors over that order. Search results are cached per coordinate cell
+ * rather than per exact coordinate, so riders searching from neighbouring
+ * doorsteps share an entry; pages are cut from the cached list.
+ */
+
+import type { GeoPoint } from './matching/types';
+import { encodeGeohash } from './matching/geohash';
+import { ValidationError } from './errors';
+
+export const VEHICLE_TYPES = ['sedan', 'suv', 'van', 'truck', 'electric', 'hybrid'] as const;
+export type VehicleType = typeof VEHICLE_TYPES[number];
+
+export const ACCESSIBILITY_FEATURES = ['wheelchair_accessible', 'step_free_entry', 'service_animals', 'child_seat'] as const;
+export type AccessibilityFeature = typeof ACCESSIBILITY_FEATURES[number];
+
+export const TRIP_SEARCH_SORTS = ['score', 'departure', 'price', 'detour'] as const;
+export type TripSearchSort = typeof TRIP_SEARCH_SORTS[number];
+
+export const SEARCH_PAGE_DEFAULT = 20;
+export const SEARCH_PAGE_MAX = 50;
+
+/** Trips fetched for matching per search, after the SQL filters. */
+export const SEARCH_CANDIDATE_LIMIT = 200;
+
+/** Geohash precision of search cache cells (~1.2 km x 0.6 km). */
+export const SEARCH_CELL_PRECISION = 6;
+
+export interface TripSearchFilters {
+  minPrice?: number;
+  maxPrice?: number;
+  vehicleTypes?: VehicleType[];
+  minRating?: number;
+  accessibility?: AccessibilityFeature[];
+  womenOnly: boolean;
+  organizationOnly: boolean;
+}
+
+export interface TripSearchCursor {
+  sort: TripSearchSort;
+  key: number;
+  id: string;
+}
+
+export interface TripSearchOptions {
+  filters: TripSearchFilters;
+  sort: TripSearchSort;
+  limit: number;
+  cursor: TripSearchCursor | null;
+}
+
+/** The fields of a search result that ordering and cursors rely on. */
+export interface RankedTrip {
+  id: string;
+  matchScore: number;
+  detourMinutes: number;
+  pricePerSeat: number;
+  scheduledTime: string;
+}
+
+function parseNumber(value: string, label: string, min: number, max: number): number {
+  const parsed = Number.parseFloat(value);
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+    throw new ValidationError(`${label} must be a number between ${min} and ${max}`);
+  }
+  return parsed;
+}
+
+function parseList<T extends string>(value: string, label: string, allowed: readonly T[]): T[] {
+  const items = value.split(',').map((v) => v.trim()).filter(Boolean);
+  const unknown = items.filter((v) => !allowed.includes(v as T));
+  if (items.length === 0 || unknown.length > 0) {
+    throw new ValidationError(`${label} must be a comma-separated list of: ${allowed.join(', ')}`);
+  }
+  return [...new Set(items)] as T[];
+}
+
+function parseFlag(value: string | undefined, label: string): boolean {
+  if (value === undefined || value === 'false') return false;
+  if (value === 'true') return true;
+  throw new ValidationError(`${label} must be true or false`);
+}
+
+function encodeCursor(cursor: TripSearchCursor): string {
+  return btoa(JSON.stringify([cursor.sort, cursor.key, cursor.id]))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeCursor(value: string): TripSearchCursor {
+  try {
+    const [sort, key, id] = JSON.parse(atob(value.replace(/-/g, '+').replace(/_/g, '/'))) as unknown[];
+    if (TRIP_SEARCH_SORTS.includes(sort as TripSearchSort) && typeof key === 'number' && typeof id === 'string') {
+      return { sort: sort as TripSearchSort, key, id };
+    }
+  } catch {
+    // fall through
+  }
+  throw new ValidationError('cursor is invalid');
+}
+
+/** Parse the filter, sort and paging query parameters. */
+export function parseTripSearchOptions(query: Record<string, string | undefined>): TripSearchOptions {
+  const filters: TripSearchFilters = {
+    womenOnly: parseFlag(query.womenOnly, 'womenOnly'),
+    organizationOnly: parseFlag(query.organizationOnly, 'organizationOnly'),
+  };
+  if (query.minPrice) filters.minPrice = parseNumber(query.minPrice, 'minPrice', 0, 10000);
+  if (query.maxPrice) filters.maxPrice = parseNumber(query.maxPrice, 'maxPrice', 0, 10000);
+  if (filters.minPrice !== undefined && filters.maxPrice !== undefined && filters.minPrice > filters.maxPrice) {
+    throw new ValidationError('minPrice cannot exceed maxPrice');
+  }
+  if (query.vehicleType) filters.vehicleTypes = parseList(query.vehicleType, 'vehicleType', VEHICLE_TYPES);
+  if (query.minRating) filters.minRating = parseNumber(query.minRating, 'minRating', 1, 5);
+  if (query.accessibility) filters.accessibility = parseList(query.accessibility, 'accessibility', ACCESSIBILITY_FEATURES);
+
+  const sort = (query.sort ?? 'score') as TripSearchSort;
+  if (!TRIP_SEARCH_SORTS.includes(sort)) {
+    throw new ValidationError(`sort must be one of: ${TRIP_SEARCH_SORTS.join(', ')}`);
+  }
+
+  const limit = query.limit ? Math.round(parseNumber(query.limit, 'limit', 1, SEARCH_PAGE_MAX)) : SEARCH_PAGE_DEFAULT;
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+  if (cursor && cursor.sort !== sort) {
+    throw new ValidationError('cursor belongs to a different sort order');
+  }
+
+  return { filters, sort, limit, cursor };
+}
+
+/**
+ * SQL conditions for the filters, against `trips t`, `users u` (the
+ * driver) and the `ratings` average-rating join.
+ */
+export function tripSearchFilterSql(
+  filters: TripSearchFilters,
+  organizationId: string | undefined,
+): { clauses: string[]; params: unknown[] } {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+
+  if (filters.minPrice !== undefined) {
+    clauses.push('t.price_per_seat >= ?');
+    params.push(filters.minPrice);
+  }
+  if (filters.maxPrice !== undefined) {
+    clauses.push('t.price_per_seat <= ?');
+    params.push(filters.maxPrice);
+  }
+  if (filters.vehicleTypes?.length) {
+    clauses.push(`t.vehicle_type IN (${filters.vehicleTypes.map(() => '?').join(', ')})`);
+    params.push(...filters.vehicleTypes);
+  }
+  if (filters.minRating !== undefined) {
+    clauses.push('ratings.avg_rating >= ?');
+    params.push(filters.minRating);
+  }
+  for (const feature of filters.accessibility ?? []) {
+    clauses.push('EXISTS (SELECT 1 FROM json_each(t.accessibility_json) WHERE json_each.value = ?)');
+    params.push(feature);
+  }
+  if (filters.womenOnly) {
+    // Only drivers who chose to share their gender for matching qualify
+    clauses.push(`t.driver_id IN (
+      SELECT user_id FROM driver_attribute_profiles
+      WHERE gender = 'female' AND share_gender_for_matching = 1
+    )`);
+  }
+  if (filters.organizationOnly) {
+    if (!organizationId) {
+      throw new ValidationError('organizationOnly requires an organisation membership');
+    }
+    clauses.push('u.organization_id = ?');
+    params.push(organizationId);
+  }
+
+  return { clauses, params };
+}
+
+/**
+ * Cache key for a search. Coordinates are reduced to geohash cells; the
+ * organisation is only part of the key when the results depend on it.
+ */
+export function tripSearchCacheKey(search: {
+  pickup: GeoPoint;
+  dropoff: GeoPoint;
+  date?: string;
+  time?: string;
+  maxDetour: number;
+  filters: TripSearchFilters;
+  organizationId?: string;
+}): string {
+  const { filters } = search;
+  const parts = [
+    encodeGeohash(search.pickup, SEARCH_CELL_PRECISION),
+    encodeGeohash(search.dropoff, SEARCH_CELL_PRECISION),
+    search.date || 'today',
+    search.time || 'now',
+    search.maxDetour,
+    filters.minPrice ?? '',
+    filters.maxPrice ?? '',
+    [...(filters.vehicleTypes ?? [])].sort().join('+'),
+    filters.minRating ?? '',
+    [...(filters.accessibility ?? [])].sort().join('+'),
+    filters.womenOnly ? 'w' : '',
+    filters.organizationOnly ? `org=${search.organizationId ?? ''}` : '',
+  ];
+  return `trips:search:${parts.join(':')}`;
+}
+
+/** Ascending sort key; match scores are lower-is-better, so the best match sorts first. */
+function sortKey(trip: RankedTrip, sort: TripSearchSort): number {
+  switch (sort) {
+    case 'departure':
+      return Date.parse(trip.scheduledTime);
+    case 'price':
+      return trip.pricePerSeat;
+    case 'detour':
+      return trip.detourMinutes;
+    default:
+      return trip.matchScore;
+  }
+}
+
+function compare(aKey: number, aId: string, bKey: number, bId: string): number {
+  if (aKey !== bKey) return aKey - bKey;
+  return aId < bId ? -1 : aId > bId ? 1 : 0;
+}
+
+/**
+ * One page of `trips` in `sort` order (ties by id), starting
+ * after `cursor`, plus the cursor for the page after it.
+ */
+export function pageTrips<T extends RankedTrip>(
+  trips: T[],
+  options: Pick<TripSearchOptions, 'sort' | 'limit' | 'cursor'>,
+): { trips: T[]; nextCursor: string | null } {
+  const { sort, limit, cursor } = options;
+  const ordered = trips
+    .map((trip) => ({ trip, key: sortKey(trip, sort) }))
+    .sort((a, b) => compare(a.key, a.trip.id, b.key, b.trip.id));
+  const remaining = cursor
+    ? ordered.filter((o) => compare(o.key, o.trip.id, cursor.key, cursor.id) > 0)
+    : ordered;
+
+  const page = remaining.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    trips: page.map((o) => o.trip),
+    nextCursor: remaining.length > limit && last ? encodeCursor({ sort, key: last.key, id: last.trip.id }) : null,
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Klubz - Trip Share Links
+ *
+ * A rider can hand family a link to follow their trip without an account.
+ * Each link carries a random 256-bit token; only its SHA-256 hash is
+ * stored, so a database leak can't be replayed as links. Links are scoped
+ * to one booking, expire after at most `SHARE_LINK_MAX_HOURS`, can be
+ * revoked by the rider, and stop working once the trip is over.
+ */
+
+import { sha256 } from './encryption';
+
+export const SHARE_LINK_DEFAULT_HOURS = 6;
+export const SHARE_LINK_MAX_HOURS = 24;
+
+/**
+ * The share page polls every 15 seconds; a view is counted and audited at
+ * most once per window, not on every poll.
+ */
+export const SHARE_VIEW_AUDIT_WINDOW_MINUTES = 10;
+
+/** Trip statuses a share link can still show. */
+const SHAREABLE_TRIP_STATUSES = new Set(['scheduled', 'active']);
+
+export interface TripShareLinkRow {
+  id: number;
+  trip_id: number;
+  participant_id: number;
+  user_id: number;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+export type ShareLinkState = 'active' | 'expired' | 'revoked' | 'trip_ended';
+
+export function generateShareToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function hashShareToken(token: string): Promise<string> {
+  return sha256(`trip-share:${token}`);
+}
+
+/** Tokens are 64 hex chars; anything else is rejected before a lookup. */
+export function isWellFormedShareToken(token: string): boolean {
+  return /^[0-9a-f]{64}$/.test(token);
+}
+
+export function shareLinkExpiry(now: number, hours = SHARE_LINK_DEFAULT_HOURS): string {
+  const clamped = Math.min(Math.max(hours, 1), SHARE_LINK_MAX_HOURS);
+  return new Date(now + clamped * 60 * 60 * 1000).toISOString();
+}
+
+export function shareLinkState(
+  link: Pick<TripShareLinkRow, 'expires_at' | 'revoked_at'>,
+  tripStatus: string,
+  now = Date.now(),
+): ShareLinkState {
+  if (link.revoked_at) return 'revoked';
+  if (!SHAREABLE_TRIP_STATUSES.has(tripStatus)) return 'trip_ended';
+  if (Date.parse(link.expires_at) <= now) return 'expired';
+  return 'active';
+}
+
+export function shareLinkUrl(appUrl: string | undefined, token: string): string {
+  return `${(appUrl ?? '').replace(/\/$/, '')}/share/${token}`;
+}
+
+/** Views last counted at or before this time start a new counted view. */
+export function shareViewWindowStart(now: number): string {
+  return new Date(now - SHARE_VIEW_AUDIT_WINDOW_MINUTES * 60_000).toISOString();
+}
@@ -0,0 +1,423 @@
+/**
+ * Klubz - Recurring Driver Trip Templates
+ *
+ * A template is a driver's weekly schedule (weekdays + departure time) with
+ * the route, seats and vehicle to offer. The daily cron materialises each
+ * scheduled weekday inside the look-ahead window as a concrete `trips` row
+ * (bookable) and a `driver_trips` offer (matchable), recording the pair in
+ * `driver_trip_template_occurrences`.
+ *
+ * Editing, pausing or archiving a template releases the upcoming
+ * occurrences nobody has booked yet; occurrences with bookings are kept as
+ * they are so riders are never silently moved.
+ */
+
+import type { D1Database, KVNamespace } from '../types';
+import type { GeoPoint } from './matching/types';
+import { MatchingRepository } from './matching';
+import { decodePolyline } from './matching/geo';
+import type { RoutingProvider } from './routing';
+import { estimateRoadDistanceKm, quoteTripFare, savePriceBreakdown } from './pricing';
+import { logger } from './logger';
+import { CacheService } from './cache';
+import { eventBus } from './eventBus';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Days ahead of today that occurrences are materialised for. */
+export const TEMPLATE_HORIZON_DAYS = 14;
+
+export type TripTemplateStatus = 'active' | 'paused' | 'archived';
+
+export interface TripTemplateLocation extends GeoPoint {
+  address?: string;
+}
+
+export interface TripTemplateVehicle {
+  make: string;
+  model: string;
+  licensePlate: string;
+}
+
+export interface TripTemplate {
+  id: number;
+  driverId: number;
+  organizationId: string | null;
+  /** ISO weekdays: 1=Mon .. 7=Sun. */
+  weekdays: number[];
+  /** HH:MM (UTC). */
+  departureTime: string;
+  /** YYYY-MM-DD dates that are skipped (holidays, leave). */
+  skipDates: string[];
+  startsOn: string | null;
+  endsOn: string | null;
+  origin: TripTemplateLocation;
+  destination: TripTemplateLocation;
+  routePolylineEncoded: string | null;
+  availableSeats: number;
+  vehicle: TripTemplateVehicle;
+  tripType: 'daily' | 'monthly';
+  notes: string | null;
+  status: TripTemplateStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TripTemplateRow {
+  id: number;
+  driver_id: number;
+  organization_id: string | null;
+  recurring_weekdays: string;
+  departure_time: string;
+  skip_dates: string;
+  starts_on: string | null;
+  ends_on: string | null;
+  origin_lat: number;
+  origin_lng: number;
+  origin_address: string | null;
+  destination_lat: number;
+  destination_lng: number;
+  destination_address: string | null;
+  route_polyline_encoded: string | null;
+  available_seats: number;
+  vehicle_json: string;
+  trip_type: 'daily' | 'monthly';
+  notes: string | null;
+  status: TripTemplateStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+interface OccurrenceRow {
+  id: number;
+  occurrence_date: string;
+  trip_id: number | null;
+  driver_trip_id: string | null;
+}
+
+export interface ReleaseResult {
+  /** Unbooked occurrences cancelled and removed. */
+  released: number;
+  /** Occurrences left in place because riders have booked them. */
+  keptBooked: number;
+}
+
+// ---------------------------------------------------------------------------
+// Row mapping
+// ---------------------------------------------------------------------------
+
+function parseJsonArray<T>(raw: string | null | undefined): T[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? parsed as T[] : [];
+  } catch {
+    return [];
+  }
+}
+
+export function rowToTripTemplate(row: TripTemplateRow): TripTemplate {
+  return {
+    id: row.id,
+    driverId: row.driver_id,
+    organizationId: row.organization_id,
+    weekdays: parseJsonArray<number>(row.recurring_weekdays),
+    departureTime: row.departure_time,
+    skipDates: parseJsonArray<string>(row.skip_dates),
+    startsOn: row.starts_on,
+    endsOn: row.ends_on,
+    origin: {
+      lat: row.origin_lat,
+      lng: row.origin_lng,
+      ...(row.origin_address ? { address: row.origin_address } : {}),
+    },
+    destination: {
+      lat: row.destination_lat,
+      lng: row.destination_lng,
+      ...(row.destination_address ? { address: row.destination_address } : {}),
+    },
+    routePolylineEncoded: row.route_polyline_encoded,
+    availableSeats: row.available_seats,
+    vehicle: JSON.parse(row.vehicle_json) as TripTemplateVehicle,
+    tripType: row.trip_type,
+    notes: row.notes,
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Schedule expansion (pure)
+// ---------------------------------------------------------------------------
+
+function isoDate(ts: number): string {
+  return new Date(ts).toISOString().slice(0, 10);
+}
+
+/** Departure timestamp (ms) of a template on a given date. */
+export function occurrenceDepartureTs(date: string, departureTime: string): number {
+  return Date.parse(`${date}T${departureTime}:00Z`);
+}
+
+/**
+ * Upcoming occurrences of a template within `horizonDays` of `now`:
+ * scheduled weekdays inside the template's start/end range, minus skip
+ * dates and departures that have already passed.
+ */
+export function upcomingOccurrences(
+  template: Pick<TripTemplate, 'weekdays' | 'departureTime' | 'skipDates' | 'startsOn' | 'endsOn'>,
+  now: number = Date.now(),
+  horizonDays: number = TEMPLATE_HORIZON_DAYS,
+): Array<{ date: string; departureTs: number }> {
+  const skip = new Set(template.skipDates);
+  const out: Array<{ date: string; departureTs: number }> = [];
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  for (let i = 0; i <= horizonDays; i++) {
+    const ts = now + i * dayMs;
+    const date = isoDate(ts);
+    const weekday = new Date(ts).getUTCDay() === 0 ? 7 : new Date(ts).getUTCDay();
+
+    if (!template.weekdays.includes(weekday)) continue;
+    if (skip.has(date)) continue;
+    if (template.startsOn && date < template.startsOn) continue;
+    if (template.endsOn && date > template.endsOn) continue;
+
+    const departureTs = occurrenceDepartureTs(date, template.departureTime);
+    if (!Number.isFinite(departureTs) || departureTs <= now) continue;
+
+    out.push({ date, departureTs });
+  }
+
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Materialisation
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the trips for a template's upcoming occurrences that don't exist
+ * yet. Returns the number of occurrences created.
+ */
+export async function materialiseTemplate(
+  db: D1Database,
+  template: TripTemplate,
+  options: { kv?: KVNamespace; routing?: RoutingProvider; now?: number; horizonDays?: number } = {},
+): Promise<number> {
+  if (template.status !== 'active') return 0;
+
+  const occurrences = upcomingOccurrences(template, options.now, options.horizonDays);
+  if (occurrences.length === 0) return 0;
+
+  const repo = new MatchingRepository(db, options.kv);
+  const routePolyline = template.routePolylineEncoded
+    ? decodePolyline(template.routePolylineEncoded)
+    : undefined;
+
+  const distanceKm = await estimateRoadDistanceKm(template.origin, template.destination, options.routing);
+
+  let created = 0;
+  for (const { date, departureTs } of occurrences) {
+    // Claim the slot first; an existing row means it was already materialised
+    const claim = await db
+      .prepare(
+        `INSERT OR IGNORE INTO driver_trip_template_occurrences (template_id, occurrence_date, departure_time, status)
+         VALUES (?, ?, ?, 'pending')`,
+      )
+      .bind(template.id, date, departureTs)
+      .run();
+    if (Number(claim.meta?.changes ?? 0) === 0) continue;
+
+    let tripId = 0;
+    const driverTripId = crypto.randomUUID();
+    try {
+      const pricing = await quoteTripFare(db, {
+        origin: template.origin,
+        distanceKm,
+        tripType: template.tripType,
+        departureTs,
+        organizationId: template.organizationId,
+      });
+
+      const tripResult = await db
+        .prepare(
+          `INSERT INTO trips (title, description, origin, destination, origin_hash, destination_hash, departure_time, available_seats, total_seats, price_per_seat, currency, status, vehicle_model_encrypted, vehicle_plate_encrypted, driver_id, trip_type, route_distance_km, rate_per_km, origin_lat, origin_lng, destination_lat, destination_lng)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'ZAR', 'scheduled', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        )
+        .bind(
+          `Trip to ${template.destination.address || 'destination'}`,
+          template.notes,
+          template.origin.address || JSON.stringify(template.origin),
+          template.destination.address || JSON.stringify(template.destination),
+          `tpl_${template.id}_${date}_origin`,
+          `tpl_${template.id}_${date}_destination`,
+          new Date(departureTs).toISOString(),
+          template.availableSeats,
+          template.availableSeats,
+          pricing.fareCents / 100,
+          `${template.vehicle.make} ${template.vehicle.model}`,
+          template.vehicle.licensePlate,
+          template.driverId,
+          template.tripType,
+          distanceKm,
+          pricing.ratePerKm,
+          template.origin.lat,
+          template.origin.lng,
+          template.destination.lat,
+          template.destination.lng,
+        )
+        .run();
+      tripId = Number(tripResult.meta?.last_row_id ?? 0);
+
+      await db
+        .prepare('INSERT INTO trip_participants (trip_id, user_id, role, status) VALUES (?, ?, \'driver\', \'accepted\')')
+        .bind(tripId, template.driverId)
+        .run();
+      await savePriceBreakdown(db, 'trip', tripId, pricing.fareCents, pricing);
+
+      await repo.createDriverTrip(driverTripId, template.driverId, {
+        departure: template.origin,
+        destination: template.destination,
+        departureTime: departureTs,
+        availableSeats: template.availableSeats,
+        totalSeats: template.availableSeats,
+        routePolyline,
+        vehicle: { ...template.vehicle, capacity: template.availableSeats },
+        organizationId: template.organizationId ?? undefined,
+      });
+
+      await db
+        .prepare(
+          `UPDATE driver_trip_template_occurrences
+           SET trip_id = ?, driver_trip_id = ?, status = 'scheduled'
+           WHERE template_id = ? AND occurrence_date = ?`,
+        )
+        .bind(tripId, driverTripId, template.id, date)
+        .run();
+      created++;
+
+      eventBus.emit('trip:created', {
+        tripId,
+        driverId: template.driverId,
+        destination: template.destination.address || 'unknown',
+        availableSeats: template.availableSeats,
+        scheduledTime: new Date(departureTs).toISOString(),
+      }, template.driverId);
+    } catch (err) {
+      logger.warn('materialiseTemplate: occurrence failed', {
+        templateId: template.id,
+        date,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      await discardOccurrence(db, template.id, date, tripId, driverTripId);
+    }
+  }
+
+  if (created > 0 && options.kv) {
+    await new CacheService(options.kv).invalidatePattern('trips:search:');
+  }
+
+  return created;
+}
+
+/**
+ * Remove whatever a failed occurrence already wrote, then free the slot so
+ * the next run retries the date. If the cleanup itself fails the slot
+ * stays claimed rather than risk a duplicate trip.
+ */
+async function discardOccurrence(
+  db: D1Database,
+  templateId: number,
+  date: string,
+  tripId: number,
+  driverTripId: string,
+): Promise<void> {
+  try {
+    await db.prepare('DELETE FROM driver_trip_cells WHERE driver_trip_id = ?').bind(driverTripId).run();
+    await db.prepare('DELETE FROM driver_trips WHERE id = ?').bind(driverTripId).run();
+    if (tripId) {
+      await db.prepare(`DELETE FROM price_breakdowns WHERE subject_type = 'trip' AND subject_id = ?`).bind(String(tripId)).run();
+      await db.prepare('DELETE FROM trip_participants WHERE trip_id = ?').bind(tripId).run();
+      await db.prepare('DELETE FROM trips WHERE id = ?').bind(tripId).run();
+    }
+    await db
+      .prepare(`DELETE FROM driver_trip_template_occurrences WHERE template_id = ? AND occurrence_date = ? AND status = 'pending'`)
+      .bind(templateId, date)
+      .run();
+  } catch (err) {
+    logger.warn('materialiseTemplate: occurrence cleanup failed', {
+      templateId,
+      date,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+/**
+ * Cancel and remove upcoming occurrences that no rider has booked, so the
+ * template's current settings can be materialised in their place. When
+ * `dates` is given only those dates are considered.
+ */
+export async function releaseUnbookedOccurrences(
+  db: D1Database,
+  templateId: number,
+  options: { kv?: KVNamespace; now?: number; dates?: string[] } = {},
+): Promise<ReleaseResult> {
+  const result = await db
+    .prepare(
+      `SELECT id, occurrence_date, trip_id, driver_trip_id
+       FROM driver_trip_template_occurrences
+       WHERE template_id = ? AND status = 'scheduled' AND departure_time > ?
+       ORDER BY departure_time ASC`,
+    )
+    .bind(templateId, options.now ?? Date.now())
+    .all<OccurrenceRow>();
+
+  const onlyDates = options.dates ? new Set(options.dates) : null;
+  const repo = new MatchingRepository(db, options.kv);
+  const outcome: ReleaseResult = { released: 0, keptBooked: 0 };
+
+  for (const occurrence of result.results ?? []) {
+    if (onlyDates && !onlyDates.has(occurrence.occurrence_date)) continue;
+
+    // Booked through the trips flow, or seats reserved through matching
+    const bookings = occurrence.trip_id !== null
+      ? await db
+        .prepare(
+          `SELECT COUNT(*) AS count FROM trip_participants
+           WHERE trip_id = ? AND role = 'rider' AND status IN ('requested', 'accepted')`,
+        )
+        .bind(occurrence.trip_id)
+        .first<{ count: number }>()
+      : null;
+    const driverTrip = occurrence.driver_trip_id ? await repo.getDriverTrip(occurrence.driver_trip_id) : null;
+    const booked = Number(bookings?.count ?? 0) > 0 ||
+      (driverTrip !== null && driverTrip.availableSeats < driverTrip.totalSeats);
+
+    if (booked) {
+      outcome.keptBooked++;
+      continue;
+    }
+
+    if (occurrence.trip_id !== null) {
+      await db
+        .prepare(`UPDATE trips SET status = 'cancelled', cancelled_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = ?`)
+        .bind(occurrence.trip_id)
+        .run();
+    }
+    if (occurrence.driver_trip_id) {
+      await repo.updateDriverTripStatus(occurrence.driver_trip_id, 'cancelled');
+    }
+    await db
+      .prepare('DELETE FROM driver_trip_template_occurrences WHERE id = ?')
+      .bind(occurrence.id)
+      .run();
+    outcome.released++;
+  }
+
+  return outcome;
+}
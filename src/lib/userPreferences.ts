@@ -5,6 +5,8 @@ export interface NotificationPreferences {
   tripUpdates: boolean;
   marketingEmails: boolean;
   smsNotifications: boolean;
+  /** Text the primary emergency contact when a trip leaves its route or stops unexpectedly. */
+  emergencyContactAlerts: boolean;
 }
 
 export interface PrivacyPreferences {
@@ -43,6 +45,7 @@ export const DEFAULT_USER_PREFERENCES: UserPreferences = {
     tripUpdates: true,
     marketingEmails: false,
     smsNotifications: true,
+    emergencyContactAlerts: false,
   },
   privacy: {
     shareLocation: true,
@@ -88,6 +91,7 @@ export function normalizePreferences(input: Partial<UserPreferences> | null | un
       tripUpdates: boolOrDefault(notifications.tripUpdates, DEFAULT_USER_PREFERENCES.notifications.tripUpdates),
       marketingEmails: boolOrDefault(notifications.marketingEmails, DEFAULT_USER_PREFERENCES.notifications.marketingEmails),
       smsNotifications: boolOrDefault(notifications.smsNotifications, DEFAULT_USER_PREFERENCES.notifications.smsNotifications),
+      emergencyContactAlerts: boolOrDefault(notifications.emergencyContactAlerts, DEFAULT_USER_PREFERENCES.notifications.emergencyContactAlerts),
     },
     privacy: {
       shareLocation: boolOrDefault(privacy.shareLocation, DEFAULT_USER_PREFERENCES.privacy.shareLocation),
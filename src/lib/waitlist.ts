@@ -0,0 +1,202 @@
+/**
+ * Klubz - Trip Waitlist
+ *
+ * Riders join a full trip's waitlist for the whole route or for their own
+ * segment of it. When seats free up the longest-waiting rider who now
+ * fits is booked straight in as accepted, the waitlist entry is marked
+ * promoted and the rider is notified in-app and, if they want trip
+ * updates, by email.
+ */
+
+import type { Bindings, D1Database } from '../types';
+import { NotificationService } from '../integrations/notifications';
+import { safeDecryptPII } from './encryption';
+import { eventBus } from './eventBus';
+import { logger } from './logger';
+import { createNotification } from './notificationStore';
+import { peakOccupancySql, refreshTripSeats, tripBookingSeats } from './seatInventory';
+import { getUserNotificationPreferences } from './userPreferences';
+
+interface WaitlistTripRow {
+  id: number;
+  driver_id: number;
+  status: string;
+  available_seats: number;
+  title: string | null;
+  departure_time: string;
+}
+
+interface WaitlistPromoteRow {
+  id: number;
+  user_id: number;
+  passenger_count: number;
+  segment_start_km: number | null;
+  segment_end_km: number | null;
+  pickup_point_encrypted: string | null;
+  email: string;
+  first_name_encrypted: string | null;
+}
+
+function getAffectedRows(result: unknown): number | null {
+  if (!result || typeof result !== 'object') return null;
+  const meta = (result as { meta?: { changes?: unknown } }).meta;
+  if (!meta || typeof meta !== 'object' || typeof meta.changes !== 'number') return null;
+  return meta.changes;
+}
+
+/**
+ * Seat the longest-waiting rider the trip now has room for, if any, and
+ * let them know. Call after seats are freed or a pending booking ends.
+ */
+export async function promoteNextWaitlistedRider(db: D1Database, env: Bindings, tripId: number): Promise<void> {
+  const trip = await db
+    .prepare('SELECT id, driver_id, status, available_seats, title, departure_time FROM trips WHERE id = ?')
+    .bind(tripId)
+    .first<WaitlistTripRow>();
+
+  if (!trip || !['scheduled', 'active'].includes(trip.status)) {
+    return;
+  }
+
+  // Whole-route entries need seats free end to end; part-route entries
+  // only need them along their own segment.
+  const candidate = await db
+    .prepare(`
+      SELECT w.id, w.user_id, w.passenger_count, w.segment_start_km, w.segment_end_km, w.pickup_point_encrypted,
+             u.email, u.first_name_encrypted
+      FROM trip_waitlist w
+      JOIN users u ON u.id = w.user_id
+      WHERE w.trip_id = ?1
+        AND w.status = 'waiting'
+        AND (
+          (w.segment_start_km IS NULL AND w.passenger_count <= ?2)
+          OR (
+            w.segment_start_km IS NOT NULL
+            AND w.passenger_count + ${peakOccupancySql(tripBookingSeats('?1'), 'w.segment_start_km', 'w.segment_end_km')}
+              <= (SELECT total_seats FROM trips WHERE id = ?1)
+          )
+        )
+      ORDER BY w.joined_at ASC, w.id ASC
+      LIMIT 1
+    `)
+    .bind(tripId, trip.available_seats)
+    .first<WaitlistPromoteRow>();
+
+  if (!candidate) return;
+
+  if (candidate.segment_start_km !== null && candidate.segment_end_km !== null) {
+    // Seat the rider only if the segment still has room, in one statement
+    const seated = await db
+      .prepare(`
+        INSERT INTO trip_participants (
+          trip_id, user_id, role, status, requested_at, accepted_at, passenger_count, payment_status,
+          segment_start_km, segment_end_km, pickup_point_encrypted
+        )
+        SELECT ?1, ?2, 'rider', 'accepted', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, ?3, 'unpaid', ?4, ?5, ?6
+        WHERE ?3 + ${peakOccupancySql(tripBookingSeats('?1'), '?4', '?5')}
+          <= (SELECT total_seats FROM trips WHERE id = ?1)
+        ON CONFLICT(trip_id, user_id) DO UPDATE SET
+          status = 'accepted',
+          accepted_at = CURRENT_TIMESTAMP,
+          cancelled_at = NULL,
+          passenger_count = excluded.passenger_count,
+          segment_start_km = excluded.segment_start_km,
+          segment_end_km = excluded.segment_end_km,
+          pickup_point_encrypted = excluded.pickup_point_encrypted
+      `)
+      .bind(
+        tripId,
+        candidate.user_id,
+        candidate.passenger_count,
+        candidate.segment_start_km,
+        candidate.segment_end_km,
+        candidate.pickup_point_encrypted,
+      )
+      .run();
+    if (getAffectedRows(seated) === 0) return;
+    await refreshTripSeats(db, tripId);
+  } else {
+    const seatUpdate = await db
+      .prepare('UPDATE trips SET available_seats = available_seats - ? WHERE id = ? AND available_seats >= ?')
+      .bind(candidate.passenger_count, tripId, candidate.passenger_count)
+      .run();
+
+    const seatRows = getAffectedRows(seatUpdate);
+    if (seatRows === 0) return;
+
+    await db
+      .prepare(`
+        INSERT INTO trip_participants (
+          trip_id, user_id, role, status, requested_at, accepted_at, passenger_count, payment_status,
+          pickup_point_encrypted
+        )
+        VALUES (?, ?, 'rider', 'accepted', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, ?, 'unpaid', ?)
+        ON CONFLICT(trip_id, user_id) DO UPDATE SET
+          status = 'accepted',
+          accepted_at = CURRENT_TIMESTAMP,
+          cancelled_at = NULL,
+          passenger_count = excluded.passenger_count,
+          segment_start_km = NULL,
+          segment_end_km = NULL,
+          pickup_point_encrypted = excluded.pickup_point_encrypted
+      `)
+      .bind(tripId, candidate.user_id, candidate.passenger_count, candidate.pickup_point_encrypted)
+      .run();
+  }
+
+  await db
+    .prepare(`
+      UPDATE trip_waitlist
+      SET status = 'promoted',
+          promoted_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `)
+    .bind(candidate.id)
+    .run();
+
+  eventBus.emit('waitlist:promoted', {
+    tripId,
+    waitlistId: candidate.id,
+    passengerCount: candidate.passenger_count,
+  }, candidate.user_id);
+
+  try {
+    await createNotification(db, {
+      userId: candidate.user_id,
+      tripId,
+      notificationType: 'waitlist_promoted',
+      channel: 'in_app',
+      status: 'sent',
+      subject: 'You were moved off the waitlist',
+      message: `A seat opened for ${trip.title || 'your trip'} and your booking is now accepted.`,
+      metadata: { tripId, waitlistId: candidate.id, passengerCount: candidate.passenger_count },
+    });
+  } catch (err) {
+    logger.warn('Failed to persist waitlist promoted notification', {
+      error: err instanceof Error ? err.message : String(err),
+      tripId,
+      userId: candidate.user_id,
+    });
+  }
+
+  try {
+    const preferences = await getUserNotificationPreferences(db, candidate.user_id);
+    if (preferences.tripUpdates) {
+      const notifications = new NotificationService(env);
+      if (notifications.emailAvailable) {
+        const firstName = await safeDecryptPII(candidate.first_name_encrypted, env.ENCRYPTION_KEY, candidate.user_id) || 'there';
+        await notifications.sendEmail(
+          candidate.email,
+          'You have been promoted from the waitlist',
+          `<p>Hi ${firstName}, a seat opened and your booking is now accepted for ${trip.title || 'your trip'}.</p><p>Departure: ${new Date(trip.departure_time).toLocaleString()}</p>`,
+        );
+      }
+    }
+  } catch (err) {
+    logger.warn('Failed to send waitlist promotion notification', {
+      error: err instanceof Error ? err.message : String(err),
+      tripId,
+      userId: candidate.user_id,
+    });
+  }
+}
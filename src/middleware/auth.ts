@@ -13,7 +13,7 @@ import { logger } from '../lib/logger';
 // JWT Implementation (Web Crypto)
 // ---------------------------------------------------------------------------
 
-function base64UrlEncode(data: Uint8Array): string {
+export function base64UrlEncode(data: Uint8Array): string {
   let binary = '';
   for (let i = 0; i < data.length; i++) binary += String.fromCharCode(data[i]);
   return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
@@ -37,6 +37,35 @@ async function getSigningKey(secret: string): Promise<CryptoKey> {
   );
 }
 
+/**
+ * HMAC-SHA256 of a message as raw bytes. Shared by JWTs and other signed
+ * payloads such as boarding passes.
+ */
+export async function hmacSign(message: string, secret: string): Promise<Uint8Array> {
+  const key = await getSigningKey(secret);
+  const sig = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return new Uint8Array(sig);
+}
+
+/**
+ * Constant-time check of a base64url HMAC-SHA256 signature.
+ */
+export async function hmacVerify(message: string, signature: string, secret: string): Promise<boolean> {
+  let signatureBytes: Uint8Array;
+  try {
+    signatureBytes = base64UrlDecode(signature);
+  } catch {
+    return false;
+  }
+  const key = await getSigningKey(secret);
+  return crypto.subtle.verify(
+    'HMAC',
+    key,
+    signatureBytes as unknown as BufferSource,
+    new TextEncoder().encode(message) as unknown as BufferSource,
+  );
+}
+
 /**
  * Create a JWT token.
  */
@@ -45,10 +74,9 @@ export async function createToken(payload: JWTPayload, secret: string): Promise<
   const body = base64UrlEncode(new TextEncoder().encode(JSON.stringify(payload)));
   const signingInput = `${header}.${body}`;
 
-  const key = await getSigningKey(secret);
-  const sig = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(signingInput));
+  const sig = await hmacSign(signingInput, secret);
 
-  return `${signingInput}.${base64UrlEncode(new Uint8Array(sig))}`;
+  return `${signingInput}.${base64UrlEncode(sig)}`;
 }
 
 /**
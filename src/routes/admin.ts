@@ -17,6 +17,11 @@ import { parseQueryInteger } from '../lib/validation';
 import { withRequestContext } from '../lib/observability';
 import { AppError } from '../lib/errors';
 import { runDailyTasks, runHourlyTasks } from '../lib/cron';
+import { DEFAULT_RATE_CARD } from '../lib/pricing';
+import { cancellationPolicySchema, DEFAULT_CANCELLATION_POLICY } from '../lib/cancellationPolicy';
+import { payOutRiderFare } from '../lib/payouts';
+import type { RiderPayoutInput } from '../lib/payouts';
+import { StripeService } from '../integrations/stripe';
 
 export const adminRoutes = new Hono<AppEnv>();
 
@@ -106,6 +111,17 @@ interface OrganizationSummaryRow {
   last_activity_at: string | null;
 }
 
+interface PayoutReleaseRow extends RiderPayoutInput {
+  role: string;
+  status: string;
+  boarded_at: string | null;
+  payout_released_at: string | null;
+  payment_status: string | null;
+  payout_status: string | null;
+  stripe_connect_account_id: string | null;
+  stripe_connect_enabled: number | null;
+}
+
 interface UpdateUserBody {
   email?: string;
   role?: 'admin' | 'user' | 'super_admin';
@@ -547,6 +563,167 @@ adminRoutes.get('/organizations', async (c) => {
   }
 });
 
+// ---------------------------------------------------------------------------
+// GET/PUT /organizations/:orgId/rate-card - Per-organisation pricing
+// ---------------------------------------------------------------------------
+
+const rateCardSchema = z.object({
+  dailyPerKm: z.number().positive().max(100),
+  monthlyPerKm: z.number().positive().max(100),
+  minFareCents: z.number().int().min(0),
+  maxFareCents: z.number().int().positive(),
+  fareSplitMode: z.enum(['per_seat', 'shared_distance']).optional().default(DEFAULT_RATE_CARD.fareSplitMode),
+  poolingDiscount: z.number().min(0).max(0.5).optional().default(DEFAULT_RATE_CARD.poolingDiscount),
+  isActive: z.boolean().optional().default(true),
+}).strict().refine((card) => card.maxFareCents >= card.minFareCents, {
+  message: 'maxFareCents must be at least minFareCents',
+});
+
+adminRoutes.get('/organizations/:orgId/rate-card', async (c) => {
+  const orgId = c.req.param('orgId');
+  const db = getDB(c);
+  const row = await db
+    .prepare(
+      `SELECT organization_id, daily_per_km, monthly_per_km, min_fare_cents, max_fare_cents,
+              fare_split_mode, pooling_discount, is_active, updated_at
+       FROM pricing_rate_cards WHERE organization_id = ?`,
+    )
+    .bind(orgId)
+    .first<{ organization_id: string; daily_per_km: number; monthly_per_km: number; min_fare_cents: number; max_fare_cents: number; fare_split_mode: string; pooling_discount: number; is_active: number; updated_at: string }>();
+
+  if (!row) {
+    return c.json({ rateCard: null, defaults: DEFAULT_RATE_CARD });
+  }
+  return c.json({
+    rateCard: {
+      organizationId: row.organization_id,
+      dailyPerKm: row.daily_per_km,
+      monthlyPerKm: row.monthly_per_km,
+      minFareCents: row.min_fare_cents,
+      maxFareCents: row.max_fare_cents,
+      fareSplitMode: row.fare_split_mode,
+      poolingDiscount: row.pooling_discount,
+      isActive: row.is_active === 1,
+      updatedAt: row.updated_at,
+    },
+    defaults: DEFAULT_RATE_CARD,
+  });
+});
+
+adminRoutes.put('/organizations/:orgId/rate-card', async (c) => {
+  const admin = c.get('user') as AuthUser;
+  const orgId = c.req.param('orgId');
+  let body: unknown;
+  try { body = await c.req.json(); } catch {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid JSON' } }, 400);
+  }
+  const parsed = rateCardSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: parsed.error.issues.map((i) => i.message).join(', ') } }, 400);
+  }
+  if (admin.role !== 'super_admin' && admin.organizationId !== orgId) {
+    return c.json({ error: { code: 'AUTHORIZATION_ERROR', message: 'Cannot manage pricing for another organization' } }, 403);
+  }
+
+  const db = getDB(c);
+  const org = await db.prepare('SELECT id FROM organizations WHERE id = ?').bind(orgId).first<{ id: string }>();
+  if (!org) return c.json({ error: { code: 'NOT_FOUND', message: 'Organization not found' } }, 404);
+
+  const { dailyPerKm, monthlyPerKm, minFareCents, maxFareCents, fareSplitMode, poolingDiscount, isActive } = parsed.data;
+  await db
+    .prepare(
+      `INSERT INTO pricing_rate_cards (organization_id, daily_per_km, monthly_per_km, min_fare_cents, max_fare_cents, fare_split_mode, pooling_discount, is_active, updated_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(organization_id) DO UPDATE SET
+         daily_per_km = excluded.daily_per_km,
+         monthly_per_km = excluded.monthly_per_km,
+         min_fare_cents = excluded.min_fare_cents,
+         max_fare_cents = excluded.max_fare_cents,
+         fare_split_mode = excluded.fare_split_mode,
+         pooling_discount = excluded.pooling_discount,
+         is_active = excluded.is_active,
+         updated_by = excluded.updated_by,
+         updated_at = CURRENT_TIMESTAMP`,
+    )
+    .bind(orgId, dailyPerKm, monthlyPerKm, minFareCents, maxFareCents, fareSplitMode, poolingDiscount, isActive ? 1 : 0, admin.id)
+    .run();
+
+  await writeAdminAudit(c, 'ADMIN_RATE_CARD_UPDATED', 'organization');
+
+  return c.json({
+    rateCard: { organizationId: orgId, dailyPerKm, monthlyPerKm, minFareCents, maxFareCents, fareSplitMode, poolingDiscount, isActive },
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GET/PUT /organizations/:orgId/cancellation-policy - Cancellation fee tiers
+// ---------------------------------------------------------------------------
+
+adminRoutes.get('/organizations/:orgId/cancellation-policy', async (c) => {
+  const orgId = c.req.param('orgId');
+  const db = getDB(c);
+  const row = await db
+    .prepare('SELECT organization_id, policy_json, is_active, updated_at FROM cancellation_policies WHERE organization_id = ?')
+    .bind(orgId)
+    .first<{ organization_id: string; policy_json: string; is_active: number; updated_at: string }>();
+
+  if (!row) {
+    return c.json({ cancellationPolicy: null, defaults: DEFAULT_CANCELLATION_POLICY });
+  }
+  let policy: unknown = null;
+  try { policy = JSON.parse(row.policy_json); } catch { policy = null; }
+  return c.json({
+    cancellationPolicy: {
+      organizationId: row.organization_id,
+      policy,
+      isActive: row.is_active === 1,
+      updatedAt: row.updated_at,
+    },
+    defaults: DEFAULT_CANCELLATION_POLICY,
+  });
+});
+
+adminRoutes.put('/organizations/:orgId/cancellation-policy', async (c) => {
+  const admin = c.get('user') as AuthUser;
+  const orgId = c.req.param('orgId');
+  let body: unknown;
+  try { body = await c.req.json(); } catch {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid JSON' } }, 400);
+  }
+  const parsed = z.object({
+    policy: cancellationPolicySchema,
+    isActive: z.boolean().optional().default(true),
+  }).strict().safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: parsed.error.issues.map((i) => i.message).join(', ') } }, 400);
+  }
+  if (admin.role !== 'super_admin' && admin.organizationId !== orgId) {
+    return c.json({ error: { code: 'AUTHORIZATION_ERROR', message: 'Cannot manage cancellation policy for another organization' } }, 403);
+  }
+
+  const db = getDB(c);
+  const org = await db.prepare('SELECT id FROM organizations WHERE id = ?').bind(orgId).first<{ id: string }>();
+  if (!org) return c.json({ error: { code: 'NOT_FOUND', message: 'Organization not found' } }, 404);
+
+  const { policy, isActive } = parsed.data;
+  await db
+    .prepare(
+      `INSERT INTO cancellation_policies (organization_id, policy_json, is_active, updated_by)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(organization_id) DO UPDATE SET
+         policy_json = excluded.policy_json,
+         is_active = excluded.is_active,
+         updated_by = excluded.updated_by,
+         updated_at = CURRENT_TIMESTAMP`,
+    )
+    .bind(orgId, JSON.stringify(policy), isActive ? 1 : 0, admin.id)
+    .run();
+
+  await writeAdminAudit(c, 'ADMIN_CANCELLATION_POLICY_UPDATED', 'organization');
+
+  return c.json({ cancellationPolicy: { organizationId: orgId, policy, isActive } });
+});
+
 // ---------------------------------------------------------------------------
 // GET /logs - Audit logs from D1
 // ---------------------------------------------------------------------------
@@ -755,12 +932,20 @@ adminRoutes.get('/disputes', async (c) => {
   const db = getDB(c);
   const { results } = await db
     .prepare(
-      `SELECT d.*, u.email as filed_by_email
+      `SELECT d.*, u.email as filed_by_email,
+              fp.boarded_at AS filed_by_boarded_at, fp.boarding_method AS filed_by_boarding_method,
+              (SELECT COUNT(*) FROM trip_participants tp
+               WHERE tp.trip_id = d.trip_id AND tp.role = 'rider' AND tp.boarded_at IS NOT NULL) AS verified_boardings
        FROM disputes d JOIN users u ON u.id = d.filed_by
+       LEFT JOIN trip_participants fp ON fp.trip_id = d.trip_id AND fp.user_id = d.filed_by AND fp.role = 'rider'
        WHERE d.status = ? ORDER BY d.created_at DESC LIMIT ? OFFSET ?`,
     )
     .bind(status, limit, offset)
-    .all<{ id: number; trip_id: number; filed_by: number; filed_by_email: string; reason: string; status: string; resolution: string | null; refund_issued: number; created_at: string }>();
+    .all<{
+      id: number; trip_id: number; filed_by: number; filed_by_email: string; reason: string; status: string;
+      resolution: string | null; refund_issued: number; created_at: string;
+      filed_by_boarded_at: string | null; filed_by_boarding_method: string | null; verified_boardings: number;
+    }>();
   const total = await db.prepare('SELECT COUNT(*) as cnt FROM disputes WHERE status = ?').bind(status).first<{ cnt: number }>();
   return c.json({ disputes: results ?? [], pagination: { page, limit, total: total?.cnt ?? 0 } });
 });
@@ -790,6 +975,73 @@ adminRoutes.put('/disputes/:id', async (c) => {
   return c.json({ success: true, disputeId: id });
 });
 
+// POST /api/admin/bookings/:participantId/release-payout
+// Pays the driver for a completed booking whose boarding was never verified
+adminRoutes.post('/bookings/:participantId/release-payout', async (c) => {
+  const admin = c.get('user') as AuthUser;
+  const participantId = parseInt(c.req.param('participantId'));
+  if (isNaN(participantId)) return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid ID' } }, 400);
+
+  const db = getDB(c);
+  const booking = await db
+    .prepare(
+      `SELECT tp.id, tp.trip_id, tp.role, tp.status, tp.boarded_at, tp.payout_released_at,
+              tp.passenger_count, tp.amount_paid, tp.payment_status, tp.payout_status, t.price_per_seat,
+              u.stripe_connect_account_id, u.stripe_connect_enabled
+       FROM trip_participants tp
+       JOIN trips t ON t.id = tp.trip_id
+       JOIN users u ON u.id = t.driver_id
+       WHERE tp.id = ?`,
+    )
+    .bind(participantId)
+    .first<PayoutReleaseRow>();
+  if (!booking || booking.role !== 'rider') {
+    return c.json({ error: { code: 'NOT_FOUND', message: 'Booking not found' } }, 404);
+  }
+  if (booking.status !== 'completed' || booking.payment_status !== 'paid') {
+    return c.json({ error: { code: 'CONFLICT', message: 'Only paid, completed bookings can be paid out' } }, 409);
+  }
+  if (booking.boarded_at || booking.payout_released_at || booking.payout_status === 'transferred') {
+    return c.json({ error: { code: 'CONFLICT', message: 'Payout has already been released' } }, 409);
+  }
+
+  const releasedAt = new Date().toISOString();
+  const released = await db
+    .prepare(
+      `UPDATE trip_participants SET payout_released_at = ?, payout_released_by = ?
+       WHERE id = ? AND boarded_at IS NULL AND payout_released_at IS NULL`,
+    )
+    .bind(releasedAt, admin.id, participantId)
+    .run();
+  if ((released.meta?.changes ?? 0) === 0) {
+    return c.json({ error: { code: 'CONFLICT', message: 'Payout has already been released' } }, 409);
+  }
+  await writeAdminAudit(c, 'ADMIN_PAYOUT_RELEASED', 'trip_participant', participantId);
+
+  // Without a Connect account the payout waits like any other; a failed
+  // transfer is retried by the daily cron
+  let payoutStatus = booking.payout_status ?? 'pending';
+  if (
+    c.env?.STRIPE_SECRET_KEY
+    && booking.stripe_connect_account_id
+    && Number(booking.stripe_connect_enabled ?? 0) === 1
+  ) {
+    const outcome = await payOutRiderFare(
+      db,
+      new StripeService(c.env.STRIPE_SECRET_KEY),
+      booking.stripe_connect_account_id,
+      booking,
+      { releasedBy: String(admin.id) },
+    );
+    if (outcome) payoutStatus = outcome.ok ? 'transferred' : 'failed';
+    if (outcome && !outcome.ok) {
+      logger.warn('Released payout transfer failed', { participantId, error: outcome.error });
+    }
+  }
+
+  return c.json({ participantId, tripId: booking.trip_id, releasedAt, payoutStatus });
+});
+
 // ---------------------------------------------------------------------------
 // POST /api/admin/cron/run - manual cron trigger for ops/testing
 // ---------------------------------------------------------------------------
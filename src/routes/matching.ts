@@ -23,9 +23,12 @@
  *   POST   /api/matching/reject                 Reject a match
  *
  *   POST   /api/matching/batch                  Batch-match all pending riders
+ *                                                (body: { strategy?: 'greedy' | 'global' })
  *
  *   GET    /api/matching/config                 Get matching config
  *   PUT    /api/matching/config                 Update matching config (admin)
+ *   POST   /api/matching/simulate               Replay history under a candidate
+ *                                                config and diff the metrics (admin)
  *
  *   GET    /api/matching/stats                  Get matching statistics
  */
@@ -40,14 +43,26 @@ import { parseQueryInteger } from '../lib/validation';
 import {
   matchRiderToDrivers,
   optimizePool,
+  assignRidersToDrivers,
+  applyMatchConfigOverrides,
+  compareMatchConfigs,
   MatchingRepository,
   DEFAULT_MATCH_CONFIG,
+  prefetchMatchDistances,
+  prefetchPoolDistances,
+  holdForJourney,
+  MAX_TRIP_WAYPOINTS,
 } from '../lib/matching';
+import { getRoutingProvider } from '../lib/routing';
+import { resolveSavedPlaces } from '../lib/savedPlaces';
 import type {
   RiderRequest,
-  GeoPoint,
   FindMatchesResponse,
   MatchResult,
+  DriverTrip,
+  PoolAssignment,
+  PoolRider,
+  AssignmentStrategy,
   DriverTripStatus,
   RiderRequestStatus,
 } from '../lib/matching';
@@ -75,6 +90,7 @@ const createDriverTripSchema = z.object({
   departure: geoPointSchema,
   destination: geoPointSchema,
   shiftLocation: geoPointSchema.optional(),
+  waypoints: z.array(geoPointSchema).max(MAX_TRIP_WAYPOINTS).optional(),
   departureTime: z.number().int().positive(),
   arrivalTime: z.number().int().positive().optional(),
   availableSeats: z.number().int().min(1).max(8),
@@ -95,10 +111,15 @@ const riderPreferencesSchema = z.object({
 }).optional();
 
 const createRiderRequestSchema = z.object({
-  pickup: geoPointSchema,
-  dropoff: geoPointSchema,
+  // Either locations or saved places/route; a place id overrides its end of the route
+  pickup: geoPointSchema.optional(),
+  dropoff: geoPointSchema.optional(),
+  savedRouteId: z.number().int().positive().optional(),
+  pickupPlaceId: z.number().int().positive().optional(),
+  dropoffPlaceId: z.number().int().positive().optional(),
   earliestDeparture: z.number().int().positive(),
   latestDeparture: z.number().int().positive(),
+  latestArrival: z.number().int().positive().optional(),
   seatsNeeded: z.number().int().min(1).max(6).optional(),
   preferences: riderPreferencesSchema,
 });
@@ -109,11 +130,16 @@ const findMatchesSchema = z.object({
   dropoff: geoPointSchema.optional(),
   earliestDeparture: z.number().int().positive().optional(),
   latestDeparture: z.number().int().positive().optional(),
+  latestArrival: z.number().int().positive().optional(),
   seatsNeeded: z.number().int().min(1).max(6).optional(),
   preferences: riderPreferencesSchema,
   maxResults: z.number().int().min(1).max(50).optional(),
 });
 
+const batchMatchSchema = z.object({
+  strategy: z.enum(['greedy', 'global']).optional(),
+});
+
 const updateDriverTripSchema = z.object({
   availableSeats: z.number().int().min(0).max(8).optional(),
   status: z.enum(['offered', 'active', 'completed', 'cancelled', 'expired']).optional(),
@@ -129,6 +155,7 @@ const matchWeightUpdateSchema = z.object({
   shiftAlignment: z.number().min(0).max(1).optional(),
   detourCost: z.number().min(0).max(1).optional(),
   driverRating: z.number().min(0).max(1).optional(),
+  driverReliability: z.number().min(0).max(1).optional(),
 }).strict();
 
 const matchThresholdUpdateSchema = z.object({
@@ -139,17 +166,36 @@ const matchThresholdUpdateSchema = z.object({
   boundingBoxPaddingDeg: z.number().positive().max(1).optional(),
 }).strict();
 
-const updateMatchConfigSchema = z.object({
+const matchConfigOverridesSchema = z.object({
   weights: matchWeightUpdateSchema.optional(),
   thresholds: matchThresholdUpdateSchema.optional(),
   maxResults: z.number().int().min(1).max(100).optional(),
   enableMultiRider: z.boolean().optional(),
   maxRidersPerPool: z.number().int().min(1).max(8).optional(),
   maxPoolDetourMinutes: z.number().int().min(1).max(240).optional(),
-}).strict().refine((value) => Object.keys(value).length > 0, {
+  poolSolver: z.enum(['greedy', 'branch_and_bound']).optional(),
+  poolSolverTimeBudgetMs: z.number().int().min(1).max(200).optional(),
+}).strict();
+
+const updateMatchConfigSchema = matchConfigOverridesSchema.refine((value) => Object.keys(value).length > 0, {
   message: 'Provide at least one config field to update',
 });
 
+const MAX_SIMULATION_WINDOW_MS = 31 * 24 * 60 * 60 * 1000;
+
+const simulateMatchingSchema = z.object({
+  from: z.number().int().positive(),
+  to: z.number().int().positive(),
+  config: matchConfigOverridesSchema,
+  strategy: z.enum(['greedy', 'global']).optional(),
+}).strict().refine((value) => value.to > value.from, {
+  message: 'to must be after from',
+  path: ['to'],
+}).refine((value) => value.to - value.from <= MAX_SIMULATION_WINDOW_MS, {
+  message: 'Simulation window cannot exceed 31 days',
+  path: ['to'],
+});
+
 const confirmMatchSchema = z.object({
   matchId: z.string().min(1),
   driverTripId: z.string().min(1),
@@ -277,6 +323,7 @@ export function createMatchingRoutes() {
       departure: data.departure,
       destination: data.destination,
       shiftLocation: data.shiftLocation,
+      waypoints: data.waypoints,
       departureTime: data.departureTime,
       arrivalTime: data.arrivalTime,
       availableSeats: data.availableSeats,
@@ -450,6 +497,12 @@ export function createMatchingRoutes() {
         400,
       );
     }
+    if (data.latestArrival !== undefined && data.latestArrival <= data.earliestDeparture) {
+      return c.json(
+        { error: { code: 'VALIDATION_ERROR', message: 'latestArrival must be after earliestDeparture' } },
+        400,
+      );
+    }
     if (data.earliestDeparture < Date.now() - 5 * 60_000) {
       return c.json(
         { error: { code: 'VALIDATION_ERROR', message: 'earliestDeparture must not be in the past' } },
@@ -457,11 +510,22 @@ export function createMatchingRoutes() {
       );
     }
 
+    const saved = await resolveSavedPlaces(c.env.DB, c.env.ENCRYPTION_KEY, Number(user?.id) || 0, data);
+    const pickup = saved.pickup?.location ?? data.pickup;
+    const dropoff = saved.dropoff?.location ?? data.dropoff;
+    if (!pickup || !dropoff) {
+      return c.json(
+        { error: { code: 'VALIDATION_ERROR', message: 'pickup and dropoff (or saved places) are required' } },
+        400,
+      );
+    }
+
     const request = await repo.createRiderRequest(id, Number(user?.id) || 0, {
-      pickup: data.pickup,
-      dropoff: data.dropoff,
+      pickup,
+      dropoff,
       earliestDeparture: data.earliestDeparture,
       latestDeparture: data.latestDeparture,
+      latestArrival: data.latestArrival,
       seatsNeeded: data.seatsNeeded,
       preferences: data.preferences,
       organizationId: user?.organizationId,
@@ -601,6 +665,7 @@ export function createMatchingRoutes() {
         dropoff: data.dropoff,
         earliestDeparture: data.earliestDeparture,
         latestDeparture: data.latestDeparture,
+        latestArrival: data.latestArrival,
         seatsNeeded: data.seatsNeeded ?? 1,
         status: 'pending',
         preferences: data.preferences,
@@ -628,8 +693,9 @@ export function createMatchingRoutes() {
     const t0 = Date.now();
     const candidates = await repo.findCandidateDrivers(riderRequest, config);
 
-    // Run matching engine
-    const { matches, stats } = matchRiderToDrivers(riderRequest, candidates, config);
+    // Run matching engine (road distances when a routing backend is configured)
+    const distance = await prefetchMatchDistances(getRoutingProvider(c.env), riderRequest, candidates);
+    const { matches, stats, excluded } = matchRiderToDrivers(riderRequest, candidates, config, distance);
 
     // Persist match results and augment with server-generated matchIds
     const matchesWithIds: Array<MatchResult & { matchId: string }> = [];
@@ -642,7 +708,8 @@ export function createMatchingRoutes() {
     return c.json({
       matches: matchesWithIds,
       pool: null,
-      stats: { candidatesTotal: stats.candidatesTotal },
+      excluded,
+      stats: { candidatesTotal: stats.candidatesTotal, excludedByPreference: stats.excludedByPreference },
       meta: {
         candidatesEvaluated: stats.candidatesTotal,
         matchesFound: stats.matchesReturned,
@@ -694,6 +761,7 @@ export function createMatchingRoutes() {
         dropoff: data.dropoff,
         earliestDeparture: data.earliestDeparture,
         latestDeparture: data.latestDeparture,
+        latestArrival: data.latestArrival,
         seatsNeeded: data.seatsNeeded ?? 1,
         status: 'pending',
         preferences: data.preferences,
@@ -716,7 +784,9 @@ export function createMatchingRoutes() {
 
     const t0 = Date.now();
     const candidates = await repo.findCandidateDrivers(riderRequest, config);
-    const { matches, stats } = matchRiderToDrivers(riderRequest, candidates, config);
+    const routing = getRoutingProvider(c.env);
+    const distance = await prefetchMatchDistances(routing, riderRequest, candidates);
+    const { matches, stats, excluded } = matchRiderToDrivers(riderRequest, candidates, config, distance);
 
     // Run pool optimization on the best match's driver
     let pool = null;
@@ -725,10 +795,13 @@ export function createMatchingRoutes() {
       const bestDriver = candidates.find((d) => d.id === bestDriverId);
 
       if (bestDriver) {
-        const riderMap = new Map<string, { pickup: GeoPoint; dropoff: GeoPoint }>();
+        const riderMap = new Map<string, PoolRider>();
         riderMap.set(riderRequest.riderId, {
           pickup: riderRequest.pickup,
           dropoff: riderRequest.dropoff,
+          earliestDeparture: riderRequest.earliestDeparture,
+          latestDeparture: riderRequest.latestDeparture,
+          latestArrival: riderRequest.latestArrival,
         });
 
         pool = optimizePool(
@@ -736,6 +809,7 @@ export function createMatchingRoutes() {
           matches.filter((m) => m.driverTripId === bestDriverId),
           riderMap,
           config,
+          await prefetchPoolDistances(routing, bestDriver, riderMap.values()),
         );
 
         if (pool) {
@@ -753,6 +827,7 @@ export function createMatchingRoutes() {
     return c.json({
       matches,
       pool,
+      excluded,
       meta: {
         candidatesEvaluated: stats.candidatesTotal,
         matchesFound: stats.matchesReturned,
@@ -829,7 +904,12 @@ export function createMatchingRoutes() {
     if (!driverTrip) {
       return c.json({ error: { code: 'NOT_FOUND', message: 'Driver trip not found' } }, 404);
     }
-    const seatReserved = await repo.reserveDriverTripSeat(match.driverTripId);
+    // The seat is only held between the rider's pickup and dropoff
+    const seatReserved = await repo.reserveDriverTripSeat(
+      match.driverTripId,
+      matchId,
+      holdForJourney(driverTrip, riderRequest.pickup, riderRequest.dropoff, riderRequest.seatsNeeded),
+    );
     if (!seatReserved) {
       return c.json({ error: { code: 'CONFLICT', message: 'No seats available on driver trip' } }, 409);
     }
@@ -843,7 +923,7 @@ export function createMatchingRoutes() {
       await writeMatchingAudit(c, 'MATCH_CONFIRMED', matchId);
     } catch (err: unknown) {
       // Best-effort compensation if confirm transition fails after seat reservation.
-      await repo.releaseDriverTripSeat(match.driverTripId);
+      await repo.releaseDriverTripSeat(match.driverTripId, matchId);
       throw err;
     }
 
@@ -904,6 +984,26 @@ export function createMatchingRoutes() {
     if (!isAdminRole(user)) {
       return c.json({ error: { code: 'AUTHORIZATION_ERROR', message: 'Admin access required for batch matching' } }, 403);
     }
+
+    // Body is optional; an empty body means the default (greedy) strategy
+    let body: unknown = {};
+    const rawBody = await c.req.text();
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid JSON' } }, 400);
+      }
+    }
+    const parsed = batchMatchSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json(
+        { error: { code: 'VALIDATION_ERROR', message: parsed.error.issues.map(i => i.message).join(', ') } },
+        400,
+      );
+    }
+    const strategy: AssignmentStrategy = parsed.data.strategy ?? 'greedy';
+
     const repo = getRepo(c);
     const t0 = Date.now();
 
@@ -916,16 +1016,24 @@ export function createMatchingRoutes() {
       return c.json({ message: 'No pending rider requests', matched: 0 });
     }
 
+    const config = DEFAULT_MATCH_CONFIG;
     let totalMatched = 0;
-    const results: Array<{ riderId: string; matchCount: number }> = [];
+    const results: Array<{ riderId: string; matchCount: number; assignedDriverTripId: string | null }> = [];
+    const riderMatches = new Map<string, MatchResult[]>();
+    const drivers = new Map<string, DriverTrip>();
+    const riderMap = new Map<string, PoolRider>();
+    const matchIds = new Map<string, string>();
 
+    const routing = getRoutingProvider(c.env);
     for (const rider of pendingRiders) {
-      const config = DEFAULT_MATCH_CONFIG;
       const candidates = await repo.findCandidateDrivers(rider, config);
-      const { matches } = matchRiderToDrivers(rider, candidates, config);
+      const distance = await prefetchMatchDistances(routing, rider, candidates);
+      const { matches } = matchRiderToDrivers(rider, candidates, config, distance);
 
       for (const match of matches) {
-        await repo.saveMatchResult(uuid(), match);
+        const matchId = uuid();
+        await repo.saveMatchResult(matchId, match);
+        matchIds.set(`${match.riderRequestId}:${match.driverTripId}`, matchId);
       }
 
       if (matches.length > 0) {
@@ -933,13 +1041,47 @@ export function createMatchingRoutes() {
         totalMatched++;
       }
 
-      results.push({ riderId: rider.riderId, matchCount: matches.length });
+      for (const driver of candidates) drivers.set(driver.id, driver);
+      riderMatches.set(rider.id, matches);
+      riderMap.set(rider.riderId, {
+        pickup: rider.pickup,
+        dropoff: rider.dropoff,
+        earliestDeparture: rider.earliestDeparture,
+        latestDeparture: rider.latestDeparture,
+        latestArrival: rider.latestArrival,
+      });
+    }
+
+    // Distribute riders across drivers and persist the resulting pools.
+    // Pool detours use haversine here: an all-pairs road matrix over every
+    // pending rider would be too large to prefetch per batch.
+    const assignments = assignRidersToDrivers(riderMatches, drivers, riderMap, config, strategy);
+    const savedPools = new Set<PoolAssignment>();
+    for (const { pool } of assignments.values()) {
+      if (savedPools.has(pool)) continue;
+      savedPools.add(pool);
+      await repo.savePoolAssignment(
+        uuid(),
+        pool,
+        pool.riders.map((m) => matchIds.get(`${m.riderRequestId}:${m.driverTripId}`) ?? ''),
+      );
+    }
+
+    for (const rider of pendingRiders) {
+      results.push({
+        riderId: rider.riderId,
+        matchCount: riderMatches.get(rider.id)?.length ?? 0,
+        assignedDriverTripId: assignments.get(rider.riderId)?.pool.driverTripId ?? null,
+      });
     }
 
     return c.json({
       message: 'Batch matching completed',
+      strategy,
       totalRiders: pendingRiders.length,
       totalMatched,
+      totalAssigned: assignments.size,
+      poolsCreated: savedPools.size,
       executionTimeMs: Date.now() - t0,
       results,
     });
@@ -1009,6 +1151,69 @@ export function createMatchingRoutes() {
     return c.json({ message: 'Matching config updated' });
   });
 
+  /**
+   * POST /simulate - Replay a historical window under a candidate config (admin)
+   *
+   * Loads the organization's rider requests and driver trips in [from, to),
+   * replays them under the current org config and under the org config with
+   * `config` applied on top, and returns both metric sets plus the diff.
+   * Nothing is persisted.
+   */
+  app.post('/simulate', async (c) => {
+    const user = c.get('user') as AuthUser;
+    if (!isAdminRole(user)) {
+      return c.json({ error: { code: 'AUTHORIZATION_ERROR', message: 'Admin access required to simulate matching config' } }, 403);
+    }
+
+    if (!user?.organizationId) {
+      return c.json(
+        { error: { code: 'VALIDATION_ERROR', message: 'Organization ID required' } },
+        400,
+      );
+    }
+
+    const targetOrgId = c.req.query('organizationId') || user.organizationId;
+    if (!isSuperAdmin(user) && targetOrgId !== user.organizationId) {
+      return c.json(
+        { error: { code: 'AUTHORIZATION_ERROR', message: 'Not allowed to simulate matching config for another organization' } },
+        403,
+      );
+    }
+
+    const parsedBody = await parseJsonBody(c);
+    if (!parsedBody.ok) return parsedBody.response;
+    const parsed = simulateMatchingSchema.safeParse(parsedBody.body);
+    if (!parsed.success) {
+      return c.json(
+        { error: { code: 'VALIDATION_ERROR', message: parsed.error.issues.map(i => i.message).join(', ') } },
+        400,
+      );
+    }
+
+    const data = parsed.data;
+    const repo = getRepo(c);
+    const t0 = Date.now();
+
+    const baselineConfig = (await repo.getMatchConfig(targetOrgId)) ?? DEFAULT_MATCH_CONFIG;
+    const candidateConfig = applyMatchConfigOverrides(baselineConfig, data.config);
+    const { riders, drivers } = await repo.getSimulationWindow(data.from, data.to, targetOrgId);
+
+    const comparison = compareMatchConfigs(
+      riders,
+      drivers,
+      baselineConfig,
+      candidateConfig,
+      data.strategy ?? 'greedy',
+    );
+
+    return c.json({
+      organizationId: targetOrgId,
+      window: { from: data.from, to: data.to },
+      ...comparison,
+      executionTimeMs: Date.now() - t0,
+    });
+  });
+
   // =========================================================================
   // Stats Route
   // =========================================================================
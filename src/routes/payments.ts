@@ -11,6 +11,7 @@ import { createNotification } from '../lib/notificationStore';
 import { getUserNotificationPreferences } from '../lib/userPreferences';
 import { withRequestContext } from '../lib/observability';
 import { awardPoints } from '../lib/points';
+import { riderFareDue } from '../lib/fareSplit';
 
 export const paymentRoutes = new Hono<AppEnv>();
 
@@ -23,6 +24,7 @@ interface BookingRow {
   id: number;
   title: string;
   price_per_seat: number;
+  split_fare_cents: number | null;
   payment_intent_id: string | null;
   payment_status: string | null;
 }
@@ -359,7 +361,7 @@ paymentRoutes.post('/intent', authMiddleware(), async (c) => {
 
   // Verify trip exists and user has an accepted booking
   const booking = await db.prepare(`
-    SELECT tp.id, t.price_per_seat, t.title, t.driver_id, tp.payment_intent_id, tp.payment_status
+    SELECT tp.id, t.price_per_seat, t.title, t.driver_id, tp.split_fare_cents, tp.payment_intent_id, tp.payment_status
     FROM trip_participants tp
     JOIN trips t ON tp.trip_id = t.id
     WHERE tp.trip_id = ? AND tp.user_id = ? AND tp.status = 'accepted'
@@ -373,7 +375,10 @@ paymentRoutes.post('/intent', authMiddleware(), async (c) => {
   if (!Number.isFinite(expectedAmount) || expectedAmount <= 0) {
     throw new AppError('Trip fare is invalid or unavailable', 'CONFIGURATION_ERROR', 500);
   }
-  const expectedAmountCents = Math.round(expectedAmount * 100);
+
+  // Pooled riders pay for the km they ride; the split is refreshed until payment starts
+  const fareDue = await riderFareDue(db, Number(tripId), user.id, booking);
+  const expectedAmountCents = fareDue.amountCents;
   const requestedAmountCents = Math.round(amount * 100);
   if (requestedAmountCents !== expectedAmountCents) {
     throw new ValidationError('amount does not match trip fare');
@@ -446,7 +451,8 @@ paymentRoutes.post('/intent', authMiddleware(), async (c) => {
       paymentIntentId: paymentIntent.id,
       userId: user.id,
       tripId,
-      amount: expectedAmount,
+      amount: expectedAmountCents / 100,
+      pooledFare: fareDue.pooled,
     });
 
     const response: PaymentIntentResponse = {
@@ -0,0 +1,407 @@
+/**
+ * Klubz - Round-Trip Bookings
+ *
+ * Book a morning and an evening leg in one request, see both legs together,
+ * withdraw a leg that is still pending, and rebook a leg that dropped out.
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { AppEnv, D1Database } from '../types';
+import { authMiddleware } from '../middleware/auth';
+import { getDB } from '../lib/db';
+import { AppError, AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../lib/errors';
+import { encryptPII } from '../lib/encryption';
+import { eventBus } from '../lib/eventBus';
+import { logger } from '../lib/logger';
+import { createNotification } from '../lib/notificationStore';
+import { riderFareRate } from '../lib/pricing';
+import { acceptBookingWithSeats, segmentSeatsFree, tripBookingSegment } from '../lib/seatInventory';
+import type { RouteSegment } from '../lib/seatInventory';
+import { effectiveInstantBookingRule, evaluateInstantBooking } from '../lib/instantBooking';
+import { getUserNotificationPreferences } from '../lib/userPreferences';
+import { logAuditEvent } from '../middleware/auditLogger';
+import {
+  createRoundTripBookings,
+  insertLegBookings,
+  isLiveLeg,
+  loadRoundTripLegs,
+  otherLeg,
+  prioritiseEveningLeg,
+  ROUND_TRIP_LEGS,
+  roundTripOptions,
+  rowToLeg,
+} from '../lib/roundTrips';
+import type { NewLegBooking, RoundTripLeg, RoundTripLegRow } from '../lib/roundTrips';
+
+export const roundTripRoutes = new Hono<AppEnv>();
+
+roundTripRoutes.use('*', authMiddleware());
+
+// ---------------------------------------------------------------------------
+// Zod schemas
+// ---------------------------------------------------------------------------
+
+const locationSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  address: z.string().trim().min(1).max(500).optional(),
+}).strict();
+
+const legSchema = z.object({
+  tripId: z.number().int().positive(),
+  pickupLocation: locationSchema,
+  dropoffLocation: locationSchema,
+}).strict();
+
+const createRoundTripSchema = z.object({
+  morning: legSchema,
+  // The return defaults to the morning journey reversed
+  evening: legSchema.partial({ pickupLocation: true, dropoffLocation: true }),
+  passengers: z.number().int().min(1).max(4).optional().default(1),
+}).strict().refine((value) => value.morning.tripId !== value.evening.tripId, {
+  message: 'morning and evening must be different trips',
+  path: ['evening', 'tripId'],
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+type LegInput = z.infer<typeof legSchema>;
+
+interface LegTripRow {
+  id: number;
+  driver_id: number;
+  status: string | null;
+  available_seats: number;
+  departure_time: string;
+  title: string | null;
+}
+
+function requireDB(c: Parameters<typeof getDB>[0]) {
+  try { return getDB(c); } catch {
+    throw new AppError('Database not configured', 'CONFIGURATION_ERROR', 500);
+  }
+}
+
+async function readJson(c: { req: { json: () => Promise<unknown> } }): Promise<unknown> {
+  try {
+    return await c.req.json();
+  } catch {
+    throw new ValidationError('Invalid JSON body');
+  }
+}
+
+function parseId(raw: string, label: string): number {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) throw new ValidationError(`Invalid ${label} id`);
+  return id;
+}
+
+function parseLeg(raw: string): RoundTripLeg {
+  if (!ROUND_TRIP_LEGS.includes(raw as RoundTripLeg)) throw new ValidationError('leg must be morning or evening');
+  return raw as RoundTripLeg;
+}
+
+/** A leg's trip, checked the way a single booking is: open, someone else's, with room. */
+async function checkLegTrip(
+  db: D1Database,
+  riderId: number,
+  leg: RoundTripLeg,
+  input: LegInput,
+  passengers: number,
+): Promise<{ trip: LegTripRow; segment: RouteSegment | null }> {
+  const trip = await db
+    .prepare('SELECT id, driver_id, status, available_seats, departure_time, title FROM trips WHERE id = ?')
+    .bind(input.tripId)
+    .first<LegTripRow>();
+  if (!trip) throw new NotFoundError(`The ${leg} trip`);
+  if (trip.driver_id === riderId) {
+    throw new AuthorizationError('Drivers cannot book their own trips');
+  }
+  if (trip.status && trip.status !== 'scheduled') {
+    throw new ConflictError(`The ${leg} trip is not open for booking`);
+  }
+  const segment = await tripBookingSegment(db, trip.id, input.pickupLocation, input.dropoffLocation);
+  const seatsFree = segment ? await segmentSeatsFree(db, trip.id, segment) : trip.available_seats;
+  if (seatsFree < passengers) {
+    throw new ValidationError(`Not enough seats on the ${leg} trip`);
+  }
+  return { trip, segment };
+}
+
+async function newLegBooking(
+  leg: RoundTripLeg,
+  input: LegInput,
+  segment: RouteSegment | null,
+  encryptionKey: string | undefined,
+  riderId: number,
+): Promise<NewLegBooking> {
+  const { pickupLocation, dropoffLocation } = input;
+  return {
+    leg,
+    tripId: input.tripId,
+    pickupLocation: pickupLocation.address || JSON.stringify(pickupLocation),
+    dropoffLocation: dropoffLocation.address || JSON.stringify(dropoffLocation),
+    pickupPointEncrypted: encryptionKey
+      ? await encryptPII(JSON.stringify({ lat: pickupLocation.lat, lng: pickupLocation.lng }), encryptionKey, riderId)
+      : null,
+    segment,
+  };
+}
+
+function isUniqueViolation(err: unknown): boolean {
+  return err instanceof Error && err.message.includes('UNIQUE');
+}
+
+/**
+ * Accept a new leg straight away when the driver's instant booking rule
+ * lets the rider in, and tell the driver about it either way.
+ */
+async function settleNewLeg(
+  db: D1Database,
+  riderId: number,
+  trip: LegTripRow,
+  bookingId: number,
+  leg: RoundTripLeg,
+  passengers: number,
+): Promise<boolean> {
+  const rule = await effectiveInstantBookingRule(db, trip.driver_id, trip.id);
+  const { eligible } = await evaluateInstantBooking(db, rule, trip.driver_id, riderId);
+  const instant = eligible && await acceptBookingWithSeats(db, trip.id, bookingId, true) === 'accepted';
+
+  eventBus.emit('booking:requested', { tripId: trip.id, passengerId: riderId, passengers }, riderId);
+  if (instant) {
+    eventBus.emit('booking:accepted', { bookingId, tripId: trip.id, acceptedBy: trip.driver_id, instant: true }, trip.driver_id);
+  }
+
+  try {
+    const prefs = await getUserNotificationPreferences(db, trip.driver_id);
+    if (prefs.tripUpdates) {
+      await createNotification(db, {
+        userId: trip.driver_id,
+        tripId: trip.id,
+        notificationType: 'booking_request',
+        channel: 'in_app',
+        status: 'sent',
+        subject: instant ? 'New instant booking' : 'New booking request',
+        message: instant
+          ? `A rider booked ${trip.title || 'your trip'} instantly as the ${leg} leg of a round trip.`
+          : `You received a booking request for ${trip.title || 'your trip'}, the ${leg} leg of a round trip.`,
+        metadata: { tripId: trip.id, bookingId, passengerId: riderId, passengers, roundTripLeg: leg, ...(instant ? { instant: true } : {}) },
+      });
+    }
+  } catch (err) {
+    logger.warn('Failed to persist round-trip booking notification', { error: err instanceof Error ? err.message : String(err) });
+  }
+  return instant;
+}
+
+async function loadOwnRoundTrip(db: D1Database, roundTripId: number, riderId: number): Promise<RoundTripLegRow[]> {
+  const owner = await db
+    .prepare('SELECT rider_id FROM round_trips WHERE id = ?')
+    .bind(roundTripId)
+    .first<{ rider_id: number }>();
+  if (!owner || owner.rider_id !== riderId) throw new NotFoundError('Round trip');
+  return (await loadRoundTripLegs(db, [roundTripId])).get(roundTripId) ?? [];
+}
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+roundTripRoutes.post('/', async (c) => {
+  const user = c.get('user');
+  const db = requireDB(c);
+
+  const parsed = createRoundTripSchema.safeParse(await readJson(c));
+  if (!parsed.success) {
+    throw new ValidationError('Validation failed', parsed.error.flatten());
+  }
+  const { morning, passengers } = parsed.data;
+  const evening: LegInput = {
+    tripId: parsed.data.evening.tripId,
+    pickupLocation: parsed.data.evening.pickupLocation ?? morning.dropoffLocation,
+    dropoffLocation: parsed.data.evening.dropoffLocation ?? morning.pickupLocation,
+  };
+
+  const morningCheck = await checkLegTrip(db, user.id, 'morning', morning, passengers);
+  const eveningCheck = await checkLegTrip(db, user.id, 'evening', evening, passengers);
+  if (Date.parse(eveningCheck.trip.departure_time) <= Date.parse(morningCheck.trip.departure_time)) {
+    throw new ValidationError('The evening trip must depart after the morning trip');
+  }
+
+  const fare = await riderFareRate(db, user.id);
+  const encKey = c.env?.ENCRYPTION_KEY;
+  let created: Awaited<ReturnType<typeof createRoundTripBookings>>;
+  try {
+    created = await createRoundTripBookings(db, user.id, [
+      await newLegBooking('morning', morning, morningCheck.segment, encKey, user.id),
+      await newLegBooking('evening', evening, eveningCheck.segment, encKey, user.id),
+    ], { passengers, subscriptionId: fare.subscriptionId, fareRatePerKm: fare.fareRatePerKm });
+  } catch (err) {
+    if (isUniqueViolation(err)) throw new ConflictError('Already booked on one of these trips');
+    throw err;
+  }
+
+  const { roundTripId, bookingIds } = created;
+  const morningId = bookingIds.morning;
+  const eveningId = bookingIds.evening;
+  if (!morningId || !eveningId) {
+    throw new AppError('Failed to create round trip', 'INTERNAL_ERROR', 500);
+  }
+
+  const morningInstant = await settleNewLeg(db, user.id, morningCheck.trip, morningId, 'morning', passengers);
+  const eveningInstant = await settleNewLeg(db, user.id, eveningCheck.trip, eveningId, 'evening', passengers);
+  if (morningInstant && !eveningInstant) {
+    await prioritiseEveningLeg(db, c.env, morningId);
+  }
+
+  await logAuditEvent(c, {
+    userId: user.id,
+    action: 'ROUND_TRIP_BOOKED',
+    resourceType: 'round_trip',
+    resourceId: roundTripId,
+    success: true,
+    metadata: { morningTripId: morning.tripId, eveningTripId: evening.tripId, passengers },
+  });
+
+  const legs = (await loadRoundTripLegs(db, [roundTripId])).get(roundTripId) ?? [];
+  return c.json({ roundTrip: { id: roundTripId, legs: legs.map(rowToLeg) } }, 201);
+});
+
+roundTripRoutes.get('/', async (c) => {
+  const user = c.get('user');
+  const db = requireDB(c);
+
+  const { results } = await db
+    .prepare('SELECT id, created_at FROM round_trips WHERE rider_id = ? ORDER BY created_at DESC, id DESC LIMIT 50')
+    .bind(user.id)
+    .all<{ id: number; created_at: string }>();
+  const rows = results ?? [];
+  const legs = await loadRoundTripLegs(db, rows.map((row) => row.id));
+  return c.json({
+    roundTrips: rows.map((row) => ({
+      id: row.id,
+      createdAt: row.created_at,
+      legs: (legs.get(row.id) ?? []).map(rowToLeg),
+    })),
+  });
+});
+
+roundTripRoutes.get('/:id', async (c) => {
+  const user = c.get('user');
+  const db = requireDB(c);
+  const roundTripId = parseId(c.req.param('id'), 'round trip');
+
+  const legs = await loadOwnRoundTrip(db, roundTripId, user.id);
+  // A dropped leg next to a live one is where the rider has choices to make
+  const dropped = legs.find((leg) => !isLiveLeg(leg) && legs.some((other) => other !== leg && isLiveLeg(other)));
+  const options = dropped ? await roundTripOptions(db, c.env?.ENCRYPTION_KEY, dropped.booking_id) : null;
+  return c.json({ roundTrip: { id: roundTripId, legs: legs.map(rowToLeg) }, ...(options ? { options } : {}) });
+});
+
+// Rebook a leg that dropped out, on another trip
+roundTripRoutes.post('/:id/legs/:leg', async (c) => {
+  const user = c.get('user');
+  const db = requireDB(c);
+  const roundTripId = parseId(c.req.param('id'), 'round trip');
+  const leg = parseLeg(c.req.param('leg'));
+
+  const parsed = legSchema.safeParse(await readJson(c));
+  if (!parsed.success) {
+    throw new ValidationError('Validation failed', parsed.error.flatten());
+  }
+  const input = parsed.data;
+
+  const legs = await loadOwnRoundTrip(db, roundTripId, user.id);
+  const current = legs.find((row) => row.round_trip_leg === leg);
+  if (current && isLiveLeg(current)) {
+    throw new ConflictError(`The ${leg} leg is still booked`);
+  }
+  const other = legs.find((row) => row.round_trip_leg === otherLeg(leg));
+  const passengers = Math.max(1, Number(current?.passenger_count ?? other?.passenger_count ?? 1));
+
+  const { trip, segment } = await checkLegTrip(db, user.id, leg, input, passengers);
+  if (other && isLiveLeg(other)) {
+    const [morningTime, eveningTime] = leg === 'morning'
+      ? [trip.departure_time, other.departure_time]
+      : [other.departure_time, trip.departure_time];
+    if (Date.parse(eveningTime) <= Date.parse(morningTime)) {
+      throw new ValidationError('The evening trip must depart after the morning trip');
+    }
+  }
+
+  const fare = await riderFareRate(db, user.id);
+  try {
+    await insertLegBookings(db, user.id, roundTripId, [
+      await newLegBooking(leg, input, segment, c.env?.ENCRYPTION_KEY, user.id),
+    ], { passengers, subscriptionId: fare.subscriptionId, fareRatePerKm: fare.fareRatePerKm });
+  } catch (err) {
+    if (isUniqueViolation(err)) throw new ConflictError('Already booked on this trip');
+    throw err;
+  }
+
+  const rebooked = (await loadRoundTripLegs(db, [roundTripId])).get(roundTripId) ?? [];
+  const booking = rebooked.find((row) => row.round_trip_leg === leg && row.trip_id === trip.id);
+  if (!booking) {
+    throw new AppError('Failed to rebook leg', 'INTERNAL_ERROR', 500);
+  }
+  const instant = await settleNewLeg(db, user.id, trip, booking.booking_id, leg, passengers);
+  if (leg === 'evening' && !instant && other?.status === 'accepted') {
+    await prioritiseEveningLeg(db, c.env, other.booking_id);
+  }
+
+  await logAuditEvent(c, {
+    userId: user.id,
+    action: 'ROUND_TRIP_LEG_REBOOKED',
+    resourceType: 'round_trip',
+    resourceId: roundTripId,
+    success: true,
+    metadata: { leg, tripId: trip.id, bookingId: booking.booking_id },
+  });
+
+  const updated = (await loadRoundTripLegs(db, [roundTripId])).get(roundTripId) ?? [];
+  return c.json({ roundTrip: { id: roundTripId, legs: updated.map(rowToLeg) } }, 201);
+});
+
+// Withdraw a leg whose request the driver has not answered yet; accepted
+// legs go through trip cancellation so the cancellation policy applies
+roundTripRoutes.delete('/:id/legs/:leg', async (c) => {
+  const user = c.get('user');
+  const db = requireDB(c);
+  const roundTripId = parseId(c.req.param('id'), 'round trip');
+  const leg = parseLeg(c.req.param('leg'));
+
+  const legs = await loadOwnRoundTrip(db, roundTripId, user.id);
+  const current = legs.find((row) => row.round_trip_leg === leg);
+  if (!current || !isLiveLeg(current)) throw new NotFoundError(`Booked ${leg} leg`);
+  if (current.status === 'accepted') {
+    throw new ConflictError(`The ${leg} leg is confirmed; cancel it with DELETE /api/trips/${current.trip_id}/book`);
+  }
+
+  const result = await db
+    .prepare(`
+      UPDATE trip_participants SET status = 'cancelled', cancelled_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = 'requested'
+    `)
+    .bind(current.booking_id)
+    .run();
+  if ((result.meta as { changes?: number })?.changes === 0) {
+    throw new ConflictError(`The ${leg} leg is no longer pending`);
+  }
+  eventBus.emit('booking:cancelled', { tripId: current.trip_id, bookingId: current.booking_id, cancelledBy: user.id }, user.id);
+
+  await logAuditEvent(c, {
+    userId: user.id,
+    action: 'ROUND_TRIP_LEG_WITHDRAWN',
+    resourceType: 'round_trip',
+    resourceId: roundTripId,
+    success: true,
+    metadata: { leg, bookingId: current.booking_id },
+  });
+
+  const options = await roundTripOptions(db, c.env?.ENCRYPTION_KEY, current.booking_id);
+  return c.json({ message: `${leg === 'morning' ? 'Morning' : 'Evening'} leg withdrawn`, ...(options ? { options } : {}) });
+});
@@ -0,0 +1,359 @@
+/**
+ * Klubz - Saved Places and Routes
+ *
+ * Home, Work and custom places, and routes between them, that rider
+ * requests, trip offers and monthly subscriptions can refer to by id.
+ * Editing a place can optionally carry over to the upcoming days of the
+ * subscriptions it seeded.
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { AppEnv } from '../types';
+import { authMiddleware } from '../middleware/auth';
+import { getDB } from '../lib/db';
+import { AppError, ValidationError, NotFoundError, ConflictError } from '../lib/errors';
+import { logAuditEvent } from '../middleware/auditLogger';
+import {
+  encryptSavedLocation,
+  loadSavedPlace,
+  loadSavedRoute,
+  propagatePlaceToSchedule,
+  rowToSavedPlace,
+  SAVED_PLACE_KINDS,
+  SAVED_PLACES_MAX,
+  SAVED_ROUTES_MAX,
+} from '../lib/savedPlaces';
+import type { SavedPlace, SavedPlaceRow, SavedRouteRow, ScheduleUpdate } from '../lib/savedPlaces';
+
+export const savedPlaceRoutes = new Hono<AppEnv>();
+export const savedRouteRoutes = new Hono<AppEnv>();
+
+savedPlaceRoutes.use('*', authMiddleware());
+savedRouteRoutes.use('*', authMiddleware());
+
+// ---------------------------------------------------------------------------
+// Zod schemas
+// ---------------------------------------------------------------------------
+
+const locationSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  address: z.string().trim().min(1).max(500).optional(),
+}).strict();
+
+const createPlaceSchema = z.object({
+  kind: z.enum(SAVED_PLACE_KINDS),
+  label: z.string().trim().min(1).max(60).optional(),
+  location: locationSchema,
+}).strict().refine((value) => value.kind !== 'custom' || value.label !== undefined, {
+  message: 'label is required for custom places',
+  path: ['label'],
+});
+
+const updatePlaceSchema = z.object({
+  label: z.string().trim().min(1).max(60).optional(),
+  location: locationSchema.optional(),
+  propagateToSchedule: z.boolean().optional().default(false),
+}).strict();
+
+const createRouteSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  originPlaceId: z.number().int().positive(),
+  destinationPlaceId: z.number().int().positive(),
+}).strict().refine((value) => value.originPlaceId !== value.destinationPlaceId, {
+  message: 'origin and destination must be different places',
+  path: ['destinationPlaceId'],
+});
+
+const DEFAULT_LABELS = { home: 'Home', work: 'Work' } as const;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function requireDB(c: Parameters<typeof getDB>[0]) {
+  try { return getDB(c); } catch {
+    throw new AppError('Database not configured', 'CONFIGURATION_ERROR', 500);
+  }
+}
+
+async function readJson(c: { req: { json: () => Promise<unknown> } }): Promise<unknown> {
+  try {
+    return await c.req.json();
+  } catch {
+    throw new ValidationError('Invalid JSON body');
+  }
+}
+
+function parseId(raw: string, label: string): number {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) throw new ValidationError(`Invalid ${label} id`);
+  return id;
+}
+
+function todayUTC(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// ---------------------------------------------------------------------------
+// Places
+// ---------------------------------------------------------------------------
+
+savedPlaceRoutes.get('/', async (c) => {
+  const user = c.get('user');
+  const db = requireDB(c);
+
+  const { results } = await db
+    .prepare(
+      `SELECT * FROM saved_places WHERE user_id = ?
+       ORDER BY CASE kind WHEN 'home' THEN 0 WHEN 'work' THEN 1 ELSE 2 END, label ASC`
+    )
+    .bind(user.id)
+    .all<SavedPlaceRow>();
+
+  const places = await Promise.all((results ?? []).map((row) => rowToSavedPlace(row, c.env.ENCRYPTION_KEY)));
+  return c.json({ places });
+});
+
+savedPlaceRoutes.post('/', async (c) => {
+  const user = c.get('user');
+  const db = requireDB(c);
+
+  const parsed = createPlaceSchema.safeParse(await readJson(c));
+  if (!parsed.success) {
+    throw new ValidationError('Validation failed', parsed.error.flatten());
+  }
+  const input = parsed.data;
+
+  const counts = await db
+    .prepare(
+      `SELECT COUNT(*) AS total, SUM(CASE WHEN kind = ? THEN 1 ELSE 0 END) AS same_kind
+       FROM saved_places WHERE user_id = ?`
+    )
+    .bind(input.kind, user.id)
+    .first<{ total: number; same_kind: number | null }>();
+  if (input.kind !== 'custom' && (counts?.same_kind ?? 0) > 0) {
+    throw new ConflictError(`A ${input.kind} place is already saved; edit it instead`);
+  }
+  if ((counts?.total ?? 0) >= SAVED_PLACES_MAX) {
+    throw new ConflictError(`At most ${SAVED_PLACES_MAX} places can be saved`);
+  }
+
+  const label = input.label ?? DEFAULT_LABELS[input.kind as keyof typeof DEFAULT_LABELS];
+  const insertResult = await db
+    .prepare('INSERT INTO saved_places (user_id, kind, label, location_encrypted) VALUES (?, ?, ?, ?)')
+    .bind(user.id, input.kind, label, await encryptSavedLocation(input.location, c.env.ENCRYPTION_KEY, user.id))
+    .run();
+
+  const placeId = (insertResult.meta as { last_row_id?: number })?.last_row_id;
+  if (!placeId) {
+    throw new AppError('Failed to save place', 'INTERNAL_ERROR', 500);
+  }
+
+  await logAuditEvent(c, {
+    userId: user.id,
+    action: 'SAVED_PLACE_CREATED',
+    resourceType: 'saved_place',
+    resourceId: placeId,
+    success: true,
+    metadata: { kind: input.kind },
+  });
+
+  const place = await loadSavedPlace(db, c.env.ENCRYPTION_KEY, user.id, placeId);
+  return c.json({ place }, 201);
+});
+
+savedPlaceRoutes.put('/:id', async (c) => {
+  const user = c.get('user');
+  const id = parseId(c.req.param('id'), 'place');
+  const db = requireDB(c);
+
+  const parsed = updatePlaceSchema.safeParse(await readJson(c));
+  if (!parsed.success) {
+    throw new ValidationError('Validation failed', parsed.error.flatten());
+  }
+  const { label, location, propagateToSchedule } = parsed.data;
+  if (label === undefined && location === undefined) {
+    throw new ValidationError('No fields to update');
+  }
+
+  await loadSavedPlace(db, c.env.ENCRYPTION_KEY, user.id, id);
+
+  const updates: string[] = [];
+  const values: unknown[] = [];
+  if (label !== undefined) {
+    updates.push('label = ?');
+    values.push(label);
+  }
+  if (location !== undefined) {
+    updates.push('location_encrypted = ?');
+    values.push(await encryptSavedLocation(location, c.env.ENCRYPTION_KEY, user.id));
+  }
+
+  await db
+    .prepare(`UPDATE saved_places SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ?`)
+    .bind(...values, id, user.id)
+    .run();
+
+  const place = await loadSavedPlace(db, c.env.ENCRYPTION_KEY, user.id, id);
+  let scheduleUpdated: ScheduleUpdate | null = null;
+  if (location !== undefined && propagateToSchedule) {
+    scheduleUpdated = await propagatePlaceToSchedule(db, place, c.env.ENCRYPTION_KEY, user.id, todayUTC());
+  }
+
+  await logAuditEvent(c, {
+    userId: user.id,
+    action: 'SAVED_PLACE_UPDATED',
+    resourceType: 'saved_place',
+    resourceId: id,
+    success: true,
+    metadata: { fields: Object.keys(parsed.data).filter((k) => k !== 'propagateToSchedule'), ...(scheduleUpdated ?? {}) },
+  });
+
+  return c.json({ place, scheduleUpdated });
+});
+
+savedPlaceRoutes.delete('/:id', async (c) => {
+  const user = c.get('user');
+  const id = parseId(c.req.param('id'), 'place');
+  const db = requireDB(c);
+
+  const row = await db
+    .prepare('SELECT id FROM saved_places WHERE id = ? AND user_id = ?')
+    .bind(id, user.id)
+    .first<{ id: number }>();
+  if (!row) throw new NotFoundError('Saved place');
+
+  // Routes through the place go with it; subscriptions keep their locations
+  await db
+    .prepare('DELETE FROM saved_routes WHERE user_id = ? AND (origin_place_id = ? OR destination_place_id = ?)')
+    .bind(user.id, id, id)
+    .run();
+  await db
+    .prepare(
+      `UPDATE monthly_subscriptions
+       SET default_pickup_place_id = CASE WHEN default_pickup_place_id = ? THEN NULL ELSE default_pickup_place_id END,
+           default_dropoff_place_id = CASE WHEN default_dropoff_place_id = ? THEN NULL ELSE default_dropoff_place_id END
+       WHERE user_id = ? AND (default_pickup_place_id = ? OR default_dropoff_place_id = ?)`
+    )
+    .bind(id, id, user.id, id, id)
+    .run();
+  await db
+    .prepare('DELETE FROM saved_places WHERE id = ? AND user_id = ?')
+    .bind(id, user.id)
+    .run();
+
+  await logAuditEvent(c, {
+    userId: user.id,
+    action: 'SAVED_PLACE_DELETED',
+    resourceType: 'saved_place',
+    resourceId: id,
+    success: true,
+  });
+
+  return c.json({ deleted: true });
+});
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+savedRouteRoutes.get('/', async (c) => {
+  const user = c.get('user');
+  const db = requireDB(c);
+
+  const { results: routeRows } = await db
+    .prepare('SELECT * FROM saved_routes WHERE user_id = ? ORDER BY created_at DESC')
+    .bind(user.id)
+    .all<SavedRouteRow>();
+  const { results: placeRows } = await db
+    .prepare('SELECT * FROM saved_places WHERE user_id = ?')
+    .bind(user.id)
+    .all<SavedPlaceRow>();
+
+  const places = new Map<number, SavedPlace>();
+  for (const row of placeRows ?? []) {
+    places.set(row.id, await rowToSavedPlace(row, c.env.ENCRYPTION_KEY));
+  }
+
+  const routes = (routeRows ?? []).flatMap((row) => {
+    const origin = places.get(row.origin_place_id);
+    const destination = places.get(row.destination_place_id);
+    return origin && destination
+      ? [{ id: row.id, name: row.name, origin, destination, createdAt: row.created_at }]
+      : [];
+  });
+  return c.json({ routes });
+});
+
+savedRouteRoutes.post('/', async (c) => {
+  const user = c.get('user');
+  const db = requireDB(c);
+
+  const parsed = createRouteSchema.safeParse(await readJson(c));
+  if (!parsed.success) {
+    throw new ValidationError('Validation failed', parsed.error.flatten());
+  }
+  const input = parsed.data;
+
+  // Both ends must be the caller's own places
+  await loadSavedPlace(db, c.env.ENCRYPTION_KEY, user.id, input.originPlaceId);
+  await loadSavedPlace(db, c.env.ENCRYPTION_KEY, user.id, input.destinationPlaceId);
+
+  const count = await db
+    .prepare('SELECT COUNT(*) AS total FROM saved_routes WHERE user_id = ?')
+    .bind(user.id)
+    .first<{ total: number }>();
+  if ((count?.total ?? 0) >= SAVED_ROUTES_MAX) {
+    throw new ConflictError(`At most ${SAVED_ROUTES_MAX} routes can be saved`);
+  }
+
+  const insertResult = await db
+    .prepare('INSERT INTO saved_routes (user_id, name, origin_place_id, destination_place_id) VALUES (?, ?, ?, ?)')
+    .bind(user.id, input.name, input.originPlaceId, input.destinationPlaceId)
+    .run();
+
+  const routeId = (insertResult.meta as { last_row_id?: number })?.last_row_id;
+  if (!routeId) {
+    throw new AppError('Failed to save route', 'INTERNAL_ERROR', 500);
+  }
+
+  await logAuditEvent(c, {
+    userId: user.id,
+    action: 'SAVED_ROUTE_CREATED',
+    resourceType: 'saved_route',
+    resourceId: routeId,
+    success: true,
+  });
+
+  const route = await loadSavedRoute(db, c.env.ENCRYPTION_KEY, user.id, routeId);
+  return c.json({ route }, 201);
+});
+
+savedRouteRoutes.delete('/:id', async (c) => {
+  const user = c.get('user');
+  const id = parseId(c.req.param('id'), 'route');
+  const db = requireDB(c);
+
+  const row = await db
+    .prepare('SELECT id FROM saved_routes WHERE id = ? AND user_id = ?')
+    .bind(id, user.id)
+    .first<{ id: number }>();
+  if (!row) throw new NotFoundError('Saved route');
+
+  await db
+    .prepare('DELETE FROM saved_routes WHERE id = ? AND user_id = ?')
+    .bind(id, user.id)
+    .run();
+
+  await logAuditEvent(c, {
+    userId: user.id,
+    action: 'SAVED_ROUTE_DELETED',
+    resourceType: 'saved_route',
+    resourceId: id,
+    success: true,
+  });
+
+  return c.json({ deleted: true });
+});
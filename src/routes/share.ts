@@ -0,0 +1,116 @@
+/**
+ * Klubz - Public Trip Tracking
+ *
+ * Read-only view behind a rider's share link, for people without an
+ * account: the driver's live location, the rider's pickup ETA, the
+ * driver's first name and the vehicle plate. Views of a known link are
+ * counted and audit-logged against the rider who shared it, once per
+ * `SHARE_VIEW_AUDIT_WINDOW_MINUTES` while the page polls.
+ */
+
+import { Hono } from 'hono';
+import type { AppEnv } from '../types';
+import { getDBOptional } from '../lib/db';
+import { safeDecryptPII } from '../lib/encryption';
+import { riderBookingStatus } from '../lib/boarding';
+import { getTripEtas } from '../lib/eta';
+import { hashShareToken, isWellFormedShareToken, shareLinkState, shareViewWindowStart } from '../lib/tripShare';
+import type { TripShareLinkRow } from '../lib/tripShare';
+import { logAuditEvent } from '../middleware/auditLogger';
+
+export const shareRoutes = new Hono<AppEnv>();
+
+interface SharedTripRow extends TripShareLinkRow {
+  trip_status: string;
+  departure_time: string;
+  vehicle_type: string | null;
+  vehicle_plate_encrypted: string | null;
+  driver_id: number;
+  driver_first_name: string | null;
+  participant_status: string;
+  participant_boarded_at: string | null;
+}
+
+shareRoutes.get('/:token', async (c) => {
+  const token = c.req.param('token');
+  if (!isWellFormedShareToken(token)) {
+    return c.json({ error: { code: 'NOT_FOUND', message: 'Tracking link not found' } }, 404);
+  }
+
+  const db = getDBOptional(c);
+  if (!db) return c.json({ error: { code: 'CONFIGURATION_ERROR', message: 'Service unavailable' } }, 503);
+
+  const link = await db
+    .prepare(`
+      SELECT s.id, s.trip_id, s.participant_id, s.user_id, s.expires_at, s.revoked_at,
+             t.status AS trip_status, t.departure_time, t.vehicle_type, t.vehicle_plate_encrypted, t.driver_id,
+             u.first_name_encrypted AS driver_first_name,
+             tp.status AS participant_status, tp.boarded_at AS participant_boarded_at
+      FROM trip_share_links s
+      JOIN trips t ON t.id = s.trip_id
+      JOIN trip_participants tp ON tp.id = s.participant_id
+      LEFT JOIN users u ON u.id = t.driver_id
+      WHERE s.token_hash = ?
+    `)
+    .bind(await hashShareToken(token))
+    .first<SharedTripRow>();
+  if (!link) {
+    return c.json({ error: { code: 'NOT_FOUND', message: 'Tracking link not found' } }, 404);
+  }
+
+  const state = shareLinkState(link, link.trip_status);
+  const bookingActive = link.participant_status === 'accepted';
+  if (state !== 'active' || !bookingActive) {
+    await logAuditEvent(c, {
+      userId: link.user_id,
+      action: 'TRIP_SHARE_VIEWED',
+      resourceType: 'trip',
+      resourceId: link.trip_id,
+      success: false,
+      error: state === 'active' ? 'booking_ended' : state,
+      metadata: { shareId: link.id },
+    });
+    return c.json({ error: { code: 'NOT_FOUND', message: 'This tracking link is no longer available' } }, 404);
+  }
+
+  // Polls inside the window of the last counted view are not counted again
+  const now = Date.now();
+  const counted = await db
+    .prepare(`
+      UPDATE trip_share_links SET last_accessed_at = ?, access_count = access_count + 1
+      WHERE id = ? AND (last_accessed_at IS NULL OR last_accessed_at <= ?)
+    `)
+    .bind(new Date(now).toISOString(), link.id, shareViewWindowStart(now))
+    .run();
+  if (Number(counted.meta?.changes ?? 0) > 0) {
+    await logAuditEvent(c, {
+      userId: link.user_id,
+      action: 'TRIP_SHARE_VIEWED',
+      resourceType: 'trip',
+      resourceId: link.trip_id,
+      success: true,
+      metadata: { shareId: link.id },
+    });
+  }
+
+  const raw = await c.env?.CACHE?.get(`location:trip:${link.trip_id}`, 'text');
+  const etas = c.env ? await getTripEtas(c.env, link.trip_id) : null;
+  const pickup = etas?.riders.find((r) => r.riderId === link.user_id);
+  const driverFirstName = await safeDecryptPII(link.driver_first_name, c.env?.ENCRYPTION_KEY, link.driver_id);
+
+  return c.json({
+    trip: {
+      status: link.trip_status,
+      riderStatus: riderBookingStatus({ status: link.participant_status, boarded_at: link.participant_boarded_at }),
+      departureTime: link.departure_time,
+    },
+    driver: {
+      firstName: driverFirstName ?? null,
+      vehicleType: link.vehicle_type,
+      vehiclePlate: link.vehicle_plate_encrypted,
+    },
+    location: raw ? JSON.parse(raw) : null,
+    eta: pickup ? { etaMinutes: pickup.etaMinutes, eta: pickup.eta, updatedAt: etas?.updatedAt } : null,
+    expiresAt: link.expires_at,
+  });
+});
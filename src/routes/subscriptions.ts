@@ -14,11 +14,14 @@ import { AppError, ValidationError, ConflictError, NotFoundError } from '../lib/
 import { encryptPII } from '../lib/encryption';
 import { logAuditEvent } from '../middleware/auditLogger';
 import {
-  haversineKm,
-  estimatedRoadKm,
+  estimateRoadDistanceKm,
   generateScheduledDates,
-  estimateMonthlyTotal,
+  loadRateCard,
+  quoteMonthlyEstimate,
+  savePriceBreakdown,
 } from '../lib/pricing';
+import { getRoutingProvider } from '../lib/routing';
+import { findSavedPlaceOfKind, loadSavedPlace } from '../lib/savedPlaces';
 import { StripeService } from '../integrations/stripe';
 
 export const subscriptionRoutes = new Hono<AppEnv>();
@@ -46,8 +49,11 @@ const createSubscriptionSchema = z.object({
     .min(1, 'at least one weekday required'),
   defaultMorningDeparture: z.string().regex(timeRegex, 'time must be HH:MM'),
   defaultEveningDeparture: z.string().regex(timeRegex, 'time must be HH:MM').optional(),
-  defaultPickup: locationSchema,
-  defaultDropoff: locationSchema,
+  // Locations, saved place ids, or neither to use the saved Home and Work
+  defaultPickup: locationSchema.optional(),
+  defaultDropoff: locationSchema.optional(),
+  defaultPickupPlaceId: z.number().int().positive().optional(),
+  defaultDropoffPlaceId: z.number().int().positive().optional(),
 }).strict();
 
 const upsertDaySchema = z.object({
@@ -101,8 +107,8 @@ subscriptionRoutes.post('/', async (c) => {
     recurringWeekdays,
     defaultMorningDeparture,
     defaultEveningDeparture,
-    defaultPickup,
-    defaultDropoff,
+    defaultPickupPlaceId,
+    defaultDropoffPlaceId,
   } = parsed.data;
 
   // Validate month range: not in the past, not more than 2 months ahead
@@ -130,20 +136,37 @@ subscriptionRoutes.post('/', async (c) => {
     throw new ConflictError(`Subscription for ${month} already exists`);
   }
 
+  // Seed defaults from saved places when no location is given
+  const encKey = c.env.ENCRYPTION_KEY;
+  const userId = user.id;
+  const pickupPlace = parsed.data.defaultPickup ? null : defaultPickupPlaceId !== undefined
+    ? await loadSavedPlace(db, encKey, userId, defaultPickupPlaceId)
+    : await findSavedPlaceOfKind(db, encKey, userId, 'home');
+  const dropoffPlace = parsed.data.defaultDropoff ? null : defaultDropoffPlaceId !== undefined
+    ? await loadSavedPlace(db, encKey, userId, defaultDropoffPlaceId)
+    : await findSavedPlaceOfKind(db, encKey, userId, 'work');
+  const defaultPickup = parsed.data.defaultPickup ?? pickupPlace?.location;
+  const defaultDropoff = parsed.data.defaultDropoff ?? dropoffPlace?.location;
+  if (!defaultPickup || !defaultDropoff) {
+    throw new ValidationError('defaultPickup and defaultDropoff are required unless Home and Work places are saved');
+  }
+
   // Compute estimates
-  const straightLineKm = haversineKm(defaultPickup, defaultDropoff);
-  const avgKmPerTrip = estimatedRoadKm(straightLineKm);
+  const avgKmPerTrip = await estimateRoadDistanceKm(
+    defaultPickup,
+    defaultDropoff,
+    getRoutingProvider(c.env),
+  );
   const scheduledDates = generateScheduledDates(month, recurringWeekdays);
-  const { totalCents, totalKm, totalDays } = estimateMonthlyTotal(
+  const rateCard = await loadRateCard(db, user.organizationId);
+  const { totalCents, totalKm, totalDays, breakdown } = quoteMonthlyEstimate(
     avgKmPerTrip,
     scheduledDates,
-    !!defaultEveningDeparture,
+    { morning: defaultMorningDeparture, evening: defaultEveningDeparture },
+    rateCard,
   );
 
   // Encrypt addresses
-  const encKey = c.env.ENCRYPTION_KEY;
-  const userId = user.id;
-
   let pickupEncrypted: string | null = null;
   let dropoffEncrypted: string | null = null;
   if (defaultPickup.address && encKey) {
@@ -163,8 +186,9 @@ subscriptionRoutes.post('/', async (c) => {
         default_pickup_lat, default_pickup_lng,
         default_dropoff_lat, default_dropoff_lng,
         default_pickup_encrypted, default_dropoff_encrypted,
+        default_pickup_place_id, default_dropoff_place_id,
         estimated_km_per_month, estimated_amount_cents, estimated_days
-      ) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?)`
+      ) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)`
     )
     .bind(
       userId,
@@ -178,6 +202,8 @@ subscriptionRoutes.post('/', async (c) => {
       defaultDropoff.lng,
       pickupEncrypted,
       dropoffEncrypted,
+      pickupPlace?.id ?? null,
+      dropoffPlace?.id ?? null,
       totalKm,
       totalCents,
       totalDays,
@@ -249,6 +275,7 @@ subscriptionRoutes.post('/', async (c) => {
     }
   }
   await Promise.all(dayInserts);
+  await savePriceBreakdown(db, 'subscription', subscriptionId, totalCents, breakdown);
 
   await logAuditEvent(c, {
     userId,
@@ -266,6 +293,7 @@ subscriptionRoutes.post('/', async (c) => {
     estimatedKm: Math.round(totalKm * 100) / 100,
     estimatedAmount: totalCents,
     estimatedAmountDisplay: formatZAR(totalCents),
+    pricing: breakdown,
   });
 });
 
@@ -0,0 +1,562 @@
+/**
+ * Klubz - Rider Trip Request Board
+ *
+ * Riders post the journey they need; nearby verified drivers see it on
+ * their board and bid a pickup time and price per seat. Drivers only see
+ * the area around each end until the rider accepts their bid, which
+ * creates the trip and the rider's booking.
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { AppEnv } from '../types';
+import { authMiddleware } from '../middleware/auth';
+import { getDB } from '../lib/db';
+import { AppError, AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../lib/errors';
+import { encryptPII, safeDecryptPII } from '../lib/encryption';
+import { getCacheService } from '../lib/cache';
+import { loadRateCard, estimateRoadDistanceKm } from '../lib/pricing';
+import { getRoutingProvider } from '../lib/routing';
+import { resolveSavedPlaces } from '../lib/savedPlaces';
+import { VEHICLE_TYPES } from '../lib/tripSearch';
+import { logAuditEvent } from '../middleware/auditLogger';
+import {
+  bidPriceRange,
+  claimTripRequest,
+  createTripFromBid,
+  driverTripRequest,
+  findRequestDrivers,
+  notifyTripRequestUser,
+  rowToTripBid,
+  rowToTripRequest,
+  TRIP_REQUEST_MAX_WINDOW_MS,
+} from '../lib/tripRequests';
+import type { TripBidRow, TripRequest, TripRequestRow } from '../lib/tripRequests';
+
+export const tripRequestRoutes = new Hono<AppEnv>();
+
+tripRequestRoutes.use('*', authMiddleware());
+
+// ---------------------------------------------------------------------------
+// Zod schemas
+// ---------------------------------------------------------------------------
+
+const locationSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  address: z.string().trim().min(1).max(500).optional(),
+}).strict();
+
+const createRequestSchema = z.object({
+  pickupLocation: locationSchema.optional(),
+  dropoffLocation: locationSchema.optional(),
+  savedRouteId: z.number().int().positive().optional(),
+  pickupPlaceId: z.number().int().positive().optional(),
+  dropoffPlaceId: z.number().int().positive().optional(),
+  earliestDeparture: z.string().datetime(),
+  latestDeparture: z.string().datetime(),
+  seatsNeeded: z.number().int().min(1).max(4).optional().default(1),
+  notes: z.string().trim().max(500).optional(),
+  preferences: z.object({
+    genderPreference: z.enum(['any', 'male', 'female']).optional(),
+    minDriverRating: z.number().min(1).max(5).optional(),
+  }).strict().optional(),
+}).strict().refine(
+  (v) => (v.pickupLocation || v.pickupPlaceId || v.savedRouteId) && (v.dropoffLocation || v.dropoffPlaceId || v.savedRouteId),
+  { message: 'pickupLocation and dropoffLocation (or saved places) are required' },
+);
+
+const bidSchema = z.object({
+  pickupTime: z.string().datetime(),
+  pricePerSeat: z.number().positive(),
+  totalSeats: z.number().int().min(1).max(8),
+  vehicleType: z.enum(VEHICLE_TYPES).optional().default('sedan'),
+  vehicle: z.object({
+    make: z.string().trim().min(1).max(60),
+    model: z.string().trim().min(1).max(60),
+    licensePlate: z.string().trim().min(1).max(20),
+  }).strict(),
+  message: z.string().trim().max(500).optional(),
+}).strict();
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function requireDB(c: Parameters<typeof getDB>[0]) {
+  try { return getDB(c); } catch {
+    throw new AppError('Database not configured', 'CONFIGURATION_ERROR', 500);
+  }
+}
+
+async function readJson(c: { req: { json: () => Promise<unknown> } }): Promise<unknown> {
+  try {
+    return await c.req.json();
+  } catch {
+    throw new ValidationError('Invalid JSON body');
+  }
+}
+
+function parseId(raw: string, label: string): number {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) throw new ValidationError(`Invalid ${label} id`);
+  return id;
+}
+
+async function loadRequestRow(db: ReturnType<typeof requireDB>, requestId: number): Promise<TripRequestRow> {
+  const row = await db
+    .prepare('SELECT * FROM trip_requests WHERE id = ?')
+    .bind(requestId)
+    .first<TripRequestRow>();
+  if (!row) throw new NotFoundError('Trip request');
+  return row;
+}
+
+async function isRecipient(db: ReturnType<typeof requireDB>, requestId: number, driverId: number): Promise<boolean> {
+  const row = await db
+    .prepare('SELECT 1 AS ok FROM trip_request_recipients WHERE request_id = ? AND driver_id = ?')
+    .bind(requestId, driverId)
+    .first<{ ok: number }>();
+  return Boolean(row);
+}
+
+function biddable(request: TripRequestRow): boolean {
+  return request.status === 'open' && request.latest_departure > Date.now();
+}
+
+async function encryptAddress(address: string | undefined, encryptionKey: string | undefined, userId: number) {
+  if (!address) return null;
+  return encryptionKey ? encryptPII(address, encryptionKey, userId) : address;
+}
+
+interface RiderBidRow extends TripBidRow {
+  first_name_encrypted: string | null;
+  driver_rating: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// Rider
+// ---------------------------------------------------------------------------
+
+tripRequestRoutes.post('/', async (c) => {
+  const user = c.get('user');
+  const db = requireDB(c);
+
+  const parsed = createRequestSchema.safeParse(await readJson(c));
+  if (!parsed.success) {
+    throw new ValidationError('Validation failed', parsed.error.flatten());
+  }
+  const input = parsed.data;
+
+  const earliest = new Date(input.earliestDeparture).getTime();
+  const latest = new Date(input.latestDeparture).getTime();
+  if (earliest <= Date.now()) {
+    throw new ValidationError('earliestDeparture must be in the future');
+  }
+  if (latest < earliest || latest - earliest > TRIP_REQUEST_MAX_WINDOW_MS) {
+    throw new ValidationError(`The departure window must run forwards and span at most ${TRIP_REQUEST_MAX_WINDOW_MS / 3_600_000} hours`);
+  }
+
+  const saved = await resolveSavedPlaces(db, c.env?.ENCRYPTION_KEY, user.id, input);
+  const pickup = saved.pickup?.location ?? input.pickupLocation;
+  const dropoff = saved.dropoff?.location ?? input.dropoffLocation;
+  if (!pickup || !dropoff) {
+    throw new ValidationError('pickupLocation and dropoffLocation (or saved places) are required');
+  }
+
+  const distanceKm = await estimateRoadDistanceKm(pickup, dropoff, getRoutingProvider(c.env));
+  const insertResult = await db
+    .prepare(`
+      INSERT INTO trip_requests (
+        rider_id, organization_id, pickup_lat, pickup_lng, dropoff_lat, dropoff_lng,
+        pickup_address_encrypted, dropoff_address_encrypted, earliest_departure, latest_departure,
+        seats_needed, distance_km, notes, preferences_json
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    .bind(
+      user.id,
+      user.organizationId ?? null,
+      pickup.lat,
+      pickup.lng,
+      dropoff.lat,
+      dropoff.lng,
+      await encryptAddress(pickup.address, c.env?.ENCRYPTION_KEY, user.id),
+      await encryptAddress(dropoff.address, c.env?.ENCRYPTION_KEY, user.id),
+      earliest,
+      latest,
+      input.seatsNeeded,
+      distanceKm,
+      input.notes ?? null,
+      input.preferences ? JSON.stringify(input.preferences) : null,
+    )
+    .run();
+
+  const requestId = (insertResult.meta as { last_row_id?: number })?.last_row_id;
+  if (!requestId) {
+    throw new AppError('Failed to post trip request', 'INTERNAL_ERROR', 500);
+  }
+
+  const driverIds = await findRequestDrivers(db, { riderId: user.id, pickup, dropoff, preferences: input.preferences });
+  if (driverIds.length > 0) {
+    await db.batch(driverIds.map((driverId) =>
+      db.prepare('INSERT OR IGNORE INTO trip_request_recipients (request_id, driver_id) VALUES (?, ?)')
+        .bind(requestId, driverId),
+    ));
+    for (const driverId of driverIds) {
+      await notifyTripRequestUser(db, c.env, {
+        userId: driverId,
+        requestId,
+        notificationType: 'booking_request',
+        subject: 'New trip request nearby',
+        message: `A rider needs ${input.seatsNeeded} seat${input.seatsNeeded === 1 ? '' : 's'} along your route. Send a proposal from your request board.`,
+        url: '/#trip-requests',
+      });
+    }
+  }
+
+  await logAuditEvent(c, {
+    userId: user.id,
+    action: 'TRIP_REQUEST_CREATED',
+    resourceType: 'trip_request',
+    resourceId: requestId,
+    success: true,
+    metadata: { seatsNeeded: input.seatsNeeded, driversNotified: driverIds.length },
+  });
+
+  const row = await loadRequestRow(db, requestId);
+  return c.json({ request: await rowToTripRequest(row, c.env?.ENCRYPTION_KEY), driversNotified: driverIds.length }, 201);
+});
+
+tripRequestRoutes.get('/', async (c) => {
+  const user = c.get('user');
+  const db = requireDB(c);
+
+  const { results } = await db
+    .prepare(`
+      SELECT r.*, (SELECT COUNT(*) FROM trip_request_bids b WHERE b.request_id = r.id AND b.status = 'pending') AS pending_bids
+      FROM trip_requests r
+      WHERE r.rider_id = ?
+      ORDER BY r.created_at DESC
+      LIMIT 50
+    `)
+    .bind(user.id)
+    .all<TripRequestRow & { pending_bids: number }>();
+
+  const requests = await Promise.all((results ?? []).map(async (row) => ({
+    ...(await rowToTripRequest(row, c.env?.ENCRYPTION_KEY)),
+    pendingBids: Number(row.pending_bids ?? 0),
+  })));
+  return c.json({ requests });
+});
+
+// ---------------------------------------------------------------------------
+// Driver board
+// ---------------------------------------------------------------------------
+
+tripRequestRoutes.get('/board', async (c) => {
+  const user = c.get('user');
+  const db = requireDB(c);
+
+  const { results } = await db
+    .prepare(`
+      SELECT r.*, b.id AS bid_id
+      FROM trip_request_recipients rr
+      JOIN trip_requests r ON r.id = rr.request_id
+      LEFT JOIN trip_request_bids b ON b.request_id = r.id AND b.driver_id = rr.driver_id
+      WHERE rr.driver_id = ? AND r.status = 'open' AND r.latest_departure > ?
+      ORDER BY r.earliest_departure ASC
+      LIMIT 50
+    `)
+    .bind(user.id, Date.now())
+    .all<TripRequestRow & { bid_id: number | null }>();
+
+  const rows = results ?? [];
+  const bidIds = rows.map((row) => row.bid_id).filter((id): id is number => id != null);
+  const bids = new Map<number, TripBidRow>();
+  if (bidIds.length > 0) {
+    const { results: bidRows } = await db
+      .prepare(`SELECT * FROM trip_request_bids WHERE id IN (${bidIds.map(() => '?').join(', ')})`)
+      .bind(...bidIds)
+      .all<TripBidRow>();
+    for (const bid of bidRows ?? []) bids.set(bid.request_id, bid);
+  }
+
+  const rateCard = await loadRateCard(db, user.organizationId);
+  const requests = await Promise.all(rows.map(async (row) => {
+    const range = bidPriceRange(row.distance_km, rateCard);
+    const bid = bids.get(row.id);
+    return {
+      ...driverTripRequest(await rowToTripRequest(row, c.env?.ENCRYPTION_KEY)),
+      priceRange: { min: range.minCents / 100, max: range.maxCents / 100 },
+      myBid: bid ? rowToTripBid(bid) : null,
+    };
+  }));
+  return c.json({ requests });
+});
+
+tripRequestRoutes.get('/:id', async (c) => {
+  const user = c.get('user');
+  const db = requireDB(c);
+  const requestId = parseId(c.req.param('id'), 'trip request');
+
+  const row = await loadRequestRow(db, requestId);
+  const request = await rowToTripRequest(row, c.env?.ENCRYPTION_KEY);
+
+  if (row.rider_id === user.id) {
+    const { results } = await db
+      .prepare(`
+        SELECT b.*, u.first_name_encrypted,
+               (SELECT AVG(rating) FROM trip_participants WHERE user_id = b.driver_id AND rating IS NOT NULL) AS driver_rating
+        FROM trip_request_bids b
+        JOIN users u ON u.id = b.driver_id
+        WHERE b.request_id = ? AND b.status != 'withdrawn'
+        ORDER BY b.price_per_seat_cents ASC, b.pickup_time ASC
+      `)
+      .bind(requestId)
+      .all<RiderBidRow>();
+    const bids = await Promise.all((results ?? []).map(async (bid) => ({
+      ...rowToTripBid(bid),
+      driver: {
+        id: bid.driver_id,
+        firstName: await safeDecryptPII(bid.first_name_encrypted, c.env?.ENCRYPTION_KEY, bid.driver_id),
+        rating: bid.driver_rating != null ? Math.round(Number(bid.driver_rating) * 10) / 10 : null,
+      },
+    })));
+    return c.json({ request, bids });
+  }
+
+  if (!(await isRecipient(db, requestId, user.id))) {
+    throw new NotFoundError('Trip request');
+  }
+  const bid = await db
+    .prepare('SELECT * FROM trip_request_bids WHERE request_id = ? AND driver_id = ?')
+    .bind(requestId, user.id)
+    .first<TripBidRow>();
+  const range = bidPriceRange(row.distance_km, await loadRateCard(db, user.organizationId));
+  return c.json({
+    // Exact locations only once the rider has accepted this driver's bid
+    request: bid?.status === 'accepted' ? request : driverTripRequest(request),
+    priceRange: { min: range.minCents / 100, max: range.maxCents / 100 },
+    myBid: bid ? rowToTripBid(bid) : null,
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Bids
+// ---------------------------------------------------------------------------
+
+tripRequestRoutes.post('/:id/bids', async (c) => {
+  const user = c.get('user');
+  const db = requireDB(c);
+  const requestId = parseId(c.req.param('id'), 'trip request');
+
+  const parsed = bidSchema.safeParse(await readJson(c));
+  if (!parsed.success) {
+    throw new ValidationError('Validation failed', parsed.error.flatten());
+  }
+  const input = parsed.data;
+
+  const row = await loadRequestRow(db, requestId);
+  if (!(await isRecipient(db, requestId, user.id))) {
+    throw new NotFoundError('Trip request');
+  }
+  if (!biddable(row)) {
+    throw new ConflictError('Trip request is no longer open');
+  }
+
+  const pickupTime = new Date(input.pickupTime).getTime();
+  if (pickupTime < row.earliest_departure || pickupTime > row.latest_departure || pickupTime <= Date.now()) {
+    throw new ValidationError('pickupTime must fall within the requested departure window');
+  }
+  if (input.totalSeats < row.seats_needed) {
+    throw new ValidationError(`totalSeats must cover the ${row.seats_needed} seat(s) requested`);
+  }
+  const range = bidPriceRange(row.distance_km, await loadRateCard(db, user.organizationId));
+  const priceCents = Math.round(input.pricePerSeat * 100);
+  if (priceCents < range.minCents || priceCents > range.maxCents) {
+    throw new ValidationError(
+      `pricePerSeat must be between ${(range.minCents / 100).toFixed(2)} and ${(range.maxCents / 100).toFixed(2)} for this trip`,
+    );
+  }
+
+  const existing = await db
+    .prepare('SELECT id, status FROM trip_request_bids WHERE request_id = ? AND driver_id = ?')
+    .bind(requestId, user.id)
+    .first<{ id: number; status: string }>();
+  if (existing && existing.status !== 'pending' && existing.status !== 'withdrawn') {
+    throw new ConflictError('Your bid on this request can no longer be changed');
+  }
+
+  await db
+    .prepare(`
+      INSERT INTO trip_request_bids (
+        request_id, driver_id, pickup_time, price_per_seat_cents, total_seats, vehicle_type, vehicle_json, message
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(request_id, driver_id) DO UPDATE SET
+        pickup_time = excluded.pickup_time,
+        price_per_seat_cents = excluded.price_per_seat_cents,
+        total_seats = excluded.total_seats,
+        vehicle_type = excluded.vehicle_type,
+        vehicle_json = excluded.vehicle_json,
+        message = excluded.message,
+        status = 'pending',
+        updated_at = CURRENT_TIMESTAMP
+    `)
+    .bind(
+      requestId,
+      user.id,
+      pickupTime,
+      priceCents,
+      input.totalSeats,
+      input.vehicleType,
+      JSON.stringify(input.vehicle),
+      input.message ?? null,
+    )
+    .run();
+
+  const bid = await db
+    .prepare('SELECT * FROM trip_request_bids WHERE request_id = ? AND driver_id = ?')
+    .bind(requestId, user.id)
+    .first<TripBidRow>();
+  if (!bid) {
+    throw new AppError('Failed to save bid', 'INTERNAL_ERROR', 500);
+  }
+
+  await notifyTripRequestUser(db, c.env, {
+    userId: row.rider_id,
+    requestId,
+    notificationType: 'system',
+    subject: existing?.status === 'pending' ? 'A driver updated their proposal' : 'New proposal for your trip request',
+    message: `A driver offered a pickup at ${new Date(pickupTime).toISOString()} for R${(priceCents / 100).toFixed(2)} per seat.`,
+    url: '/#trip-requests',
+    metadata: { bidId: bid.id },
+  });
+
+  return c.json({ bid: rowToTripBid(bid) }, existing ? 200 : 201);
+});
+
+tripRequestRoutes.delete('/:id/bids', async (c) => {
+  const user = c.get('user');
+  const db = requireDB(c);
+  const requestId = parseId(c.req.param('id'), 'trip request');
+
+  const result = await db
+    .prepare(`
+      UPDATE trip_request_bids SET status = 'withdrawn', updated_at = CURRENT_TIMESTAMP
+      WHERE request_id = ? AND driver_id = ? AND status = 'pending'
+    `)
+    .bind(requestId, user.id)
+    .run();
+  if ((result.meta as { changes?: number })?.changes === 0) {
+    throw new NotFoundError('Pending bid');
+  }
+  return c.json({ message: 'Bid withdrawn' });
+});
+
+tripRequestRoutes.post('/:id/bids/:bidId/accept', async (c) => {
+  const user = c.get('user');
+  const db = requireDB(c);
+  const requestId = parseId(c.req.param('id'), 'trip request');
+  const bidId = parseId(c.req.param('bidId'), 'bid');
+
+  const row = await loadRequestRow(db, requestId);
+  if (row.rider_id !== user.id) {
+    throw new AuthorizationError('Only the rider who posted the request can accept a bid');
+  }
+  if (!biddable(row)) {
+    throw new ConflictError('Trip request is no longer open');
+  }
+  const bid = await db
+    .prepare('SELECT * FROM trip_request_bids WHERE id = ? AND request_id = ?')
+    .bind(bidId, requestId)
+    .first<TripBidRow>();
+  if (!bid) throw new NotFoundError('Bid');
+  if (bid.status !== 'pending') {
+    throw new ConflictError('This bid is no longer available');
+  }
+  if (bid.pickup_time <= Date.now()) {
+    throw new ConflictError('This bid\'s pickup time has passed');
+  }
+
+  const request: TripRequest = await rowToTripRequest(row, c.env?.ENCRYPTION_KEY);
+  const pickupPointEncrypted = c.env?.ENCRYPTION_KEY
+    ? await encryptPII(JSON.stringify({ lat: request.pickup.lat, lng: request.pickup.lng }), c.env.ENCRYPTION_KEY, user.id)
+    : null;
+
+  await claimTripRequest(db, requestId, bidId);
+  const { tripId, bookingId } = await createTripFromBid(db, request, bid, pickupPointEncrypted);
+
+  const cache = getCacheService(c);
+  if (cache) {
+    await cache.invalidatePattern('trips:search:');
+  }
+
+  const { results: others } = await db
+    .prepare(`SELECT driver_id FROM trip_request_bids WHERE request_id = ? AND id != ? AND status = 'declined'`)
+    .bind(requestId, bidId)
+    .all<{ driver_id: number }>();
+  await notifyTripRequestUser(db, c.env, {
+    userId: bid.driver_id,
+    requestId,
+    tripId,
+    notificationType: 'booking_accepted',
+    subject: 'Your proposal was accepted',
+    message: 'The rider accepted your proposal. The trip is now on your schedule.',
+    url: '/#my-trips',
+    metadata: { bidId, bookingId },
+  });
+  for (const other of others ?? []) {
+    await notifyTripRequestUser(db, c.env, {
+      userId: other.driver_id,
+      requestId,
+      notificationType: 'booking_rejected',
+      subject: 'Trip request filled',
+      message: 'The rider chose another proposal for this trip request.',
+      url: '/#trip-requests',
+    });
+  }
+
+  await logAuditEvent(c, {
+    userId: user.id,
+    action: 'TRIP_REQUEST_BID_ACCEPTED',
+    resourceType: 'trip_request',
+    resourceId: requestId,
+    success: true,
+    metadata: { bidId, tripId, bookingId, driverId: bid.driver_id },
+  });
+
+  return c.json({ message: 'Proposal accepted', tripId, bookingId }, 201);
+});
+
+tripRequestRoutes.delete('/:id', async (c) => {
+  const user = c.get('user');
+  const db = requireDB(c);
+  const requestId = parseId(c.req.param('id'), 'trip request');
+
+  const result = await db
+    .prepare(`
+      UPDATE trip_requests SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND rider_id = ? AND status = 'open'
+    `)
+    .bind(requestId, user.id)
+    .run();
+  if ((result.meta as { changes?: number })?.changes === 0) {
+    throw new NotFoundError('Open trip request');
+  }
+  await db
+    .prepare(`
+      UPDATE trip_request_bids SET status = 'declined', updated_at = CURRENT_TIMESTAMP
+      WHERE request_id = ? AND status = 'pending'
+    `)
+    .bind(requestId)
+    .run();
+
+  await logAuditEvent(c, {
+    userId: user.id,
+    action: 'TRIP_REQUEST_CANCELLED',
+    resourceType: 'trip_request',
+    resourceId: requestId,
+    success: true,
+  });
+  return c.json({ message: 'Trip request cancelled' });
+});
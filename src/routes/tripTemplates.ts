@@ -0,0 +1,417 @@
+/**
+ * Klubz - Recurring Driver Trip Templates
+ *
+ * Drivers describe a weekly schedule once; upcoming trips are materialised
+ * from it immediately and topped up by the daily cron. Editing, pausing or
+ * archiving a template releases the upcoming trips nobody has booked yet.
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { AppEnv } from '../types';
+import { authMiddleware } from '../middleware/auth';
+import { getDB } from '../lib/db';
+import { AppError, ValidationError, NotFoundError, ConflictError } from '../lib/errors';
+import { logAuditEvent } from '../middleware/auditLogger';
+import { getRoutingProvider } from '../lib/routing';
+import {
+  materialiseTemplate,
+  releaseUnbookedOccurrences,
+  rowToTripTemplate,
+} from '../lib/tripTemplates';
+import type { TripTemplate, TripTemplateRow } from '../lib/tripTemplates';
+
+export const tripTemplateRoutes = new Hono<AppEnv>();
+
+tripTemplateRoutes.use('*', authMiddleware());
+
+// ---------------------------------------------------------------------------
+// Zod schemas
+// ---------------------------------------------------------------------------
+
+const timeRegex = /^([01]\d|2[0-3]):[0-5]\d$/;
+const dateRegex = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+const locationSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  address: z.string().trim().min(1).optional(),
+});
+
+const vehicleSchema = z.object({
+  make: z.string().trim().min(1),
+  model: z.string().trim().min(1),
+  licensePlate: z.string().trim().min(1),
+}).strict();
+
+const templateFields = {
+  weekdays: z
+    .array(z.number().int().min(1).max(7))
+    .min(1, 'at least one weekday required'),
+  departureTime: z.string().regex(timeRegex, 'time must be HH:MM'),
+  skipDates: z.array(z.string().regex(dateRegex, 'date must be YYYY-MM-DD')).max(366),
+  startsOn: z.string().regex(dateRegex, 'date must be YYYY-MM-DD').nullable(),
+  endsOn: z.string().regex(dateRegex, 'date must be YYYY-MM-DD').nullable(),
+  origin: locationSchema,
+  destination: locationSchema,
+  routePolylineEncoded: z.string().min(1).nullable(),
+  availableSeats: z.number().int().min(1).max(6),
+  vehicle: vehicleSchema,
+  tripType: z.enum(['daily', 'monthly']),
+  notes: z.string().max(1000).nullable(),
+};
+
+const createTemplateSchema = z.object({
+  ...templateFields,
+  skipDates: templateFields.skipDates.default([]),
+  startsOn: templateFields.startsOn.optional(),
+  endsOn: templateFields.endsOn.optional(),
+  routePolylineEncoded: templateFields.routePolylineEncoded.optional(),
+  tripType: templateFields.tripType.default('daily'),
+  notes: templateFields.notes.optional(),
+}).strict();
+
+const updateTemplateSchema = z.object(templateFields).partial().strict();
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function requireDB(c: Parameters<typeof getDB>[0]) {
+  try { return getDB(c); } catch {
+    throw new AppError('Database not configured', 'CONFIGURATION_ERROR', 500);
+  }
+}
+
+async function readJson(c: { req: { json: () => Promise<unknown> } }): Promise<unknown> {
+  try {
+    return await c.req.json();
+  } catch {
+    throw new ValidationError('Invalid JSON body');
+  }
+}
+
+function parseTemplateId(raw: string): number {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) throw new ValidationError('Invalid template id');
+  return id;
+}
+
+function assertDateRange(startsOn: string | null | undefined, endsOn: string | null | undefined): void {
+  if (startsOn && endsOn && endsOn < startsOn) {
+    throw new ValidationError('endsOn cannot be before startsOn');
+  }
+}
+
+async function loadOwnTemplate(
+  db: ReturnType<typeof getDB>,
+  id: number,
+  driverId: number,
+): Promise<TripTemplate> {
+  const row = await db
+    .prepare('SELECT * FROM driver_trip_templates WHERE id = ? AND driver_id = ?')
+    .bind(id, driverId)
+    .first<TripTemplateRow>();
+  if (!row) throw new NotFoundError('Trip template');
+  return rowToTripTemplate(row);
+}
+
+// ---------------------------------------------------------------------------
+// POST / — Create a template and materialise its upcoming trips
+// ---------------------------------------------------------------------------
+
+tripTemplateRoutes.post('/', async (c) => {
+  const user = c.get('user');
+  const db = requireDB(c);
+
+  const parsed = createTemplateSchema.safeParse(await readJson(c));
+  if (!parsed.success) {
+    throw new ValidationError('Validation failed', parsed.error.flatten());
+  }
+  const input = parsed.data;
+  assertDateRange(input.startsOn, input.endsOn);
+
+  const insertResult = await db
+    .prepare(
+      `INSERT INTO driver_trip_templates (
+        driver_id, organization_id,
+        recurring_weekdays, departure_time, skip_dates, starts_on, ends_on,
+        origin_lat, origin_lng, origin_address,
+        destination_lat, destination_lng, destination_address,
+        route_polyline_encoded, available_seats, vehicle_json, trip_type, notes
+      ) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)`
+    )
+    .bind(
+      user.id,
+      user.organizationId ?? null,
+      JSON.stringify([...new Set(input.weekdays)].sort((a, b) => a - b)),
+      input.departureTime,
+      JSON.stringify(input.skipDates),
+      input.startsOn ?? null,
+      input.endsOn ?? null,
+      input.origin.lat,
+      input.origin.lng,
+      input.origin.address ?? null,
+      input.destination.lat,
+      input.destination.lng,
+      input.destination.address ?? null,
+      input.routePolylineEncoded ?? null,
+      input.availableSeats,
+      JSON.stringify(input.vehicle),
+      input.tripType,
+      input.notes ?? null,
+    )
+    .run();
+
+  const templateId = (insertResult.meta as { last_row_id?: number })?.last_row_id;
+  if (!templateId) {
+    throw new AppError('Failed to create trip template', 'INTERNAL_ERROR', 500);
+  }
+
+  const template = await loadOwnTemplate(db, templateId, user.id);
+  const tripsCreated = await materialiseTemplate(db, template, {
+    kv: c.env.CACHE,
+    routing: getRoutingProvider(c.env),
+  });
+
+  await logAuditEvent(c, {
+    userId: user.id,
+    action: 'TRIP_TEMPLATE_CREATED',
+    resourceType: 'driver_trip_template',
+    resourceId: templateId,
+    success: true,
+    metadata: { weekdays: template.weekdays, tripsCreated },
+  });
+
+  return c.json({ template, tripsCreated }, 201);
+});
+
+// ---------------------------------------------------------------------------
+// GET / — Driver's templates
+// ---------------------------------------------------------------------------
+
+tripTemplateRoutes.get('/', async (c) => {
+  const user = c.get('user');
+  const db = requireDB(c);
+
+  const { results } = await db
+    .prepare(
+      `SELECT * FROM driver_trip_templates
+       WHERE driver_id = ? AND status != 'archived'
+       ORDER BY created_at DESC`
+    )
+    .bind(user.id)
+    .all<TripTemplateRow>();
+
+  return c.json({ templates: (results ?? []).map(rowToTripTemplate) });
+});
+
+// ---------------------------------------------------------------------------
+// GET /:id — Template with its upcoming occurrences
+// ---------------------------------------------------------------------------
+
+tripTemplateRoutes.get('/:id', async (c) => {
+  const user = c.get('user');
+  const id = parseTemplateId(c.req.param('id'));
+  const db = requireDB(c);
+
+  const template = await loadOwnTemplate(db, id, user.id);
+  const { results } = await db
+    .prepare(
+      `SELECT occurrence_date, departure_time, trip_id, driver_trip_id
+       FROM driver_trip_template_occurrences
+       WHERE template_id = ? AND status = 'scheduled' AND departure_time > ?
+       ORDER BY departure_time ASC`
+    )
+    .bind(id, Date.now())
+    .all<{ occurrence_date: string; departure_time: number; trip_id: number | null; driver_trip_id: string | null }>();
+
+  return c.json({
+    template,
+    occurrences: (results ?? []).map((o) => ({
+      date: o.occurrence_date,
+      departureTime: o.departure_time,
+      tripId: o.trip_id,
+      driverTripId: o.driver_trip_id,
+    })),
+  });
+});
+
+// ---------------------------------------------------------------------------
+// PUT /:id — Edit; unbooked upcoming trips are regenerated
+// ---------------------------------------------------------------------------
+
+tripTemplateRoutes.put('/:id', async (c) => {
+  const user = c.get('user');
+  const id = parseTemplateId(c.req.param('id'));
+  const db = requireDB(c);
+
+  const parsed = updateTemplateSchema.safeParse(await readJson(c));
+  if (!parsed.success) {
+    throw new ValidationError('Validation failed', parsed.error.flatten());
+  }
+  const input = parsed.data;
+
+  const current = await loadOwnTemplate(db, id, user.id);
+  if (current.status === 'archived') {
+    throw new ConflictError('Archived templates cannot be edited');
+  }
+  assertDateRange(
+    input.startsOn !== undefined ? input.startsOn : current.startsOn,
+    input.endsOn !== undefined ? input.endsOn : current.endsOn,
+  );
+
+  const updates: string[] = [];
+  const values: unknown[] = [];
+  const set = (column: string, value: unknown) => {
+    updates.push(`${column} = ?`);
+    values.push(value);
+  };
+
+  if (input.weekdays !== undefined) set('recurring_weekdays', JSON.stringify([...new Set(input.weekdays)].sort((a, b) => a - b)));
+  if (input.departureTime !== undefined) set('departure_time', input.departureTime);
+  if (input.skipDates !== undefined) set('skip_dates', JSON.stringify(input.skipDates));
+  if (input.startsOn !== undefined) set('starts_on', input.startsOn);
+  if (input.endsOn !== undefined) set('ends_on', input.endsOn);
+  if (input.origin !== undefined) {
+    set('origin_lat', input.origin.lat);
+    set('origin_lng', input.origin.lng);
+    set('origin_address', input.origin.address ?? null);
+  }
+  if (input.destination !== undefined) {
+    set('destination_lat', input.destination.lat);
+    set('destination_lng', input.destination.lng);
+    set('destination_address', input.destination.address ?? null);
+  }
+  if (input.routePolylineEncoded !== undefined) set('route_polyline_encoded', input.routePolylineEncoded);
+  if (input.availableSeats !== undefined) set('available_seats', input.availableSeats);
+  if (input.vehicle !== undefined) set('vehicle_json', JSON.stringify(input.vehicle));
+  if (input.tripType !== undefined) set('trip_type', input.tripType);
+  if (input.notes !== undefined) set('notes', input.notes);
+
+  if (updates.length === 0) {
+    throw new ValidationError('No fields to update');
+  }
+
+  await db
+    .prepare(`UPDATE driver_trip_templates SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND driver_id = ?`)
+    .bind(...values, id, user.id)
+    .run();
+
+  const template = await loadOwnTemplate(db, id, user.id);
+  const released = await releaseUnbookedOccurrences(db, id, { kv: c.env.CACHE });
+  const tripsCreated = await materialiseTemplate(db, template, {
+    kv: c.env.CACHE,
+    routing: getRoutingProvider(c.env),
+  });
+
+  await logAuditEvent(c, {
+    userId: user.id,
+    action: 'TRIP_TEMPLATE_UPDATED',
+    resourceType: 'driver_trip_template',
+    resourceId: id,
+    success: true,
+    metadata: { fields: Object.keys(input), ...released, tripsCreated },
+  });
+
+  return c.json({ template, ...released, tripsCreated });
+});
+
+// ---------------------------------------------------------------------------
+// POST /:id/pause — Stop materialising; release unbooked upcoming trips
+// ---------------------------------------------------------------------------
+
+tripTemplateRoutes.post('/:id/pause', async (c) => {
+  const user = c.get('user');
+  const id = parseTemplateId(c.req.param('id'));
+  const db = requireDB(c);
+
+  const current = await loadOwnTemplate(db, id, user.id);
+  if (current.status !== 'active') {
+    throw new ConflictError(`Template is ${current.status}`);
+  }
+
+  await db
+    .prepare(`UPDATE driver_trip_templates SET status = 'paused', updated_at = CURRENT_TIMESTAMP WHERE id = ?`)
+    .bind(id)
+    .run();
+  const released = await releaseUnbookedOccurrences(db, id, { kv: c.env.CACHE });
+
+  await logAuditEvent(c, {
+    userId: user.id,
+    action: 'TRIP_TEMPLATE_PAUSED',
+    resourceType: 'driver_trip_template',
+    resourceId: id,
+    success: true,
+    metadata: { ...released },
+  });
+
+  return c.json({ status: 'paused', ...released });
+});
+
+// ---------------------------------------------------------------------------
+// POST /:id/resume — Reactivate and materialise upcoming trips
+// ---------------------------------------------------------------------------
+
+tripTemplateRoutes.post('/:id/resume', async (c) => {
+  const user = c.get('user');
+  const id = parseTemplateId(c.req.param('id'));
+  const db = requireDB(c);
+
+  const current = await loadOwnTemplate(db, id, user.id);
+  if (current.status !== 'paused') {
+    throw new ConflictError(`Template is ${current.status}`);
+  }
+
+  await db
+    .prepare(`UPDATE driver_trip_templates SET status = 'active', updated_at = CURRENT_TIMESTAMP WHERE id = ?`)
+    .bind(id)
+    .run();
+  const tripsCreated = await materialiseTemplate(db, { ...current, status: 'active' }, {
+    kv: c.env.CACHE,
+    routing: getRoutingProvider(c.env),
+  });
+
+  await logAuditEvent(c, {
+    userId: user.id,
+    action: 'TRIP_TEMPLATE_RESUMED',
+    resourceType: 'driver_trip_template',
+    resourceId: id,
+    success: true,
+    metadata: { tripsCreated },
+  });
+
+  return c.json({ status: 'active', tripsCreated });
+});
+
+// ---------------------------------------------------------------------------
+// DELETE /:id — Archive; release unbooked upcoming trips
+// ---------------------------------------------------------------------------
+
+tripTemplateRoutes.delete('/:id', async (c) => {
+  const user = c.get('user');
+  const id = parseTemplateId(c.req.param('id'));
+  const db = requireDB(c);
+
+  const current = await loadOwnTemplate(db, id, user.id);
+  if (current.status === 'archived') {
+    throw new ConflictError('Template is already archived');
+  }
+
+  await db
+    .prepare(`UPDATE driver_trip_templates SET status = 'archived', updated_at = CURRENT_TIMESTAMP WHERE id = ?`)
+    .bind(id)
+    .run();
+  const released = await releaseUnbookedOccurrences(db, id, { kv: c.env.CACHE });
+
+  await logAuditEvent(c, {
+    userId: user.id,
+    action: 'TRIP_TEMPLATE_ARCHIVED',
+    resourceType: 'driver_trip_template',
+    resourceId: id,
+    success: true,
+    metadata: { ...released },
+  });
+
+  return c.json({ status: 'archived', ...released });
+});
@@ -7,7 +7,7 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
 import type { Context } from 'hono';
-import type { AppEnv, AuthUser } from '../types';
+import type { AppEnv, AuthUser, D1Database } from '../types';
 import { authMiddleware } from '../middleware/auth';
 import { logger } from '../lib/logger';
 import { eventBus } from '../lib/eventBus';
@@ -22,30 +22,88 @@ import { encryptPII, safeDecryptPII } from '../lib/encryption';
 import { getCacheService } from '../lib/cache';
 import { createNotification } from '../lib/notificationStore';
 import { getUserNotificationPreferences } from '../lib/userPreferences';
-import { calculateFareCents, estimateETAMinutes, haversineKm, estimatedRoadKm, TRIP_RATES } from '../lib/pricing';
+import { calculateFareCents, estimateETAMinutes, estimateRoadDistanceKm, getPriceBreakdown, quoteTripFare, riderFareRate, savePriceBreakdown } from '../lib/pricing';
+import type { PriceBreakdown } from '../lib/pricing';
+import { bookingDriverTripId, riderFareDue } from '../lib/fareSplit';
+import { payOutRiderFare } from '../lib/payouts';
+import type { RiderFareShare } from '../lib/fareSplit';
+import {
+  assessCancellation,
+  bookingAmountsCents,
+  describeAssessment,
+  hoursUntil,
+  loadCancellationPolicy,
+  recordCancellation,
+  transferDriverCompensation,
+} from '../lib/cancellationPolicy';
+import type { CancellationAssessment } from '../lib/cancellationPolicy';
+import { getRoutingProvider } from '../lib/routing';
 import { awardPoints } from '../lib/points';
 import { getIP, getUserAgent } from '../lib/http';
+import { flagRiderNoShow, RIDER_NO_SHOW_COLUMNS, riderNoShowDueAt } from '../lib/noShow';
+import type { RiderNoShowRow } from '../lib/noShow';
+import { refreshReliabilityScore } from '../lib/reliability';
+import { BOARDING_MAX_FAILED_ATTEMPTS, issueBoardingPass, riderBookingStatus, verifyBoardingPin, verifyBoardingQr } from '../lib/boarding';
+import type { BoardingMethod } from '../lib/boarding';
+import {
+  breadcrumbsToGeoJSON,
+  breadcrumbsToGPX,
+  loadBreadcrumbs,
+  recordBreadcrumb,
+  riderSegmentBreadcrumbs,
+} from '../lib/breadcrumbs';
+import { monitorTripLocation, tripRouteCacheKey } from '../lib/routeMonitor';
+import { getTripEtas, updateTripEtas } from '../lib/eta';
+import { generateShareToken, hashShareToken, SHARE_LINK_DEFAULT_HOURS, SHARE_LINK_MAX_HOURS, shareLinkExpiry, shareLinkUrl } from '../lib/tripShare';
+import { logAuditEvent } from '../middleware/auditLogger';
+import { acceptBookingWithSeats, bookingSegment, refreshTripSeats, segmentSeatsFree, tripBookingSegment } from '../lib/seatInventory';
+import {
+  ACCESSIBILITY_FEATURES,
+  pageTrips,
+  parseTripSearchOptions,
+  SEARCH_CANDIDATE_LIMIT,
+  tripSearchCacheKey,
+  tripSearchFilterSql,
+  VEHICLE_TYPES,
+} from '../lib/tripSearch';
+import type { AccessibilityFeature, RankedTrip } from '../lib/tripSearch';
+import { resolveSavedPlaces } from '../lib/savedPlaces';
+import { promoteNextWaitlistedRider } from '../lib/waitlist';
+import { liveRoundTripLegsOnTrip, offerRoundTripOptions, prioritiseEveningLeg, roundTripOptions } from '../lib/roundTrips';
+import type { RoundTripOptions } from '../lib/roundTrips';
+import {
+  ALL_TRIPS,
+  DEFAULT_INSTANT_BOOKING_RULE,
+  deleteInstantBookingRule,
+  effectiveInstantBookingRule,
+  evaluateInstantBooking,
+  getInstantBookingRule,
+  instantBookingRuleSchema,
+  ruleSettings,
+  upsertInstantBookingRule,
+} from '../lib/instantBooking';
 
 export const tripRoutes = new Hono<AppEnv>();
 
 tripRoutes.use('*', authMiddleware());
 
+interface TripSearchHit extends RankedTrip {
+  [field: string]: unknown;
+}
+
+/** Cached ranking for one search cell; pages are cut per request. */
 interface TripSearchResult {
-  trips: unknown[];
-  searchCriteria: {
-    pickupLocation: { lat: number; lng: number };
-    dropoffLocation: { lat: number; lng: number };
-    maxDetour: number;
-    date?: string;
-    time?: string;
-  };
-  totalResults: number;
+  trips: TripSearchHit[];
 }
 
 interface DriverTripRow {
   id: number;
   origin: string;
   destination: string;
+  origin_lat: number | null;
+  origin_lng: number | null;
+  destination_lat: number | null;
+  destination_lng: number | null;
   departure_time: string;
   available_seats: number;
   vehicle_type: string | null;
@@ -53,6 +111,7 @@ interface DriverTripRow {
   driver_id: number;
   route_distance_km: number | null;
   trip_type: string | null;
+  accessibility_json: string | null;
   first_name_encrypted: string | null;
   last_name_encrypted: string | null;
   driver_avg_rating: number | null;
@@ -81,6 +140,16 @@ interface TripArrivalParticipantRow {
   status: string;
 }
 
+interface BoardingParticipantRow {
+  id: number;
+  trip_id: number;
+  user_id: number;
+  role: string;
+  status: string;
+  boarded_at: string | null;
+  boarding_failed_attempts: number | null;
+}
+
 interface RiderBookingCancelRow {
   booking_id: number;
   trip_id: number;
@@ -89,13 +158,19 @@ interface RiderBookingCancelRow {
   payment_status: string | null;
   payment_intent_id: string | null;
   amount_paid: number | null;
+  split_fare_cents: number | null;
+  segment_start_km: number | null;
   departure_time: string;
   price_per_seat: number;
   trip_status: string;
+  driver_id: number;
+  organization_id: string | null;
 }
 
 interface WaitlistJoinBody {
   passengerCount?: number;
+  pickupLocation?: { lat?: number; lng?: number };
+  dropoffLocation?: { lat?: number; lng?: number };
 }
 
 interface WaitlistTripRow {
@@ -107,14 +182,6 @@ interface WaitlistTripRow {
   departure_time: string;
 }
 
-interface WaitlistPromoteRow {
-  id: number;
-  user_id: number;
-  passenger_count: number;
-  email: string;
-  first_name_encrypted: string | null;
-}
-
 interface WaitlistQueueRow {
   id: number;
   user_id: number;
@@ -136,9 +203,18 @@ interface RiderPayoutRow {
   amount_paid: number | null;
   payment_status: string | null;
   payout_status: string | null;
+  boarded_at: string | null;
   price_per_seat: number | null;
 }
 
+interface TrackRiderRow {
+  id: number;
+  boarded_at: string | null;
+  rider_arrived_at: string | null;
+  segment_start_km: number | null;
+  segment_end_km: number | null;
+}
+
 interface RateRequestBody {
   rating?: number;
   comment?: string;
@@ -189,6 +265,10 @@ interface CancelParticipantRow {
   payment_intent_id: string | null;
   payment_status: string | null;
   booking_id: number;
+  passenger_count: number | null;
+  amount_paid: number | null;
+  split_fare_cents: number | null;
+  price_per_seat: number | null;
 }
 
 interface BatchPrefsRow {
@@ -206,17 +286,19 @@ interface IdempotencyInsertResult {
   changes?: number;
 }
 
+const offerLocationSchema = z.object({
+  address: z.string().trim().min(1).optional(),
+  lat: z.number().optional(),
+  lng: z.number().optional(),
+}).passthrough();
+
 const offerTripSchema = z.object({
-  pickupLocation: z.object({
-    address: z.string().trim().min(1).optional(),
-    lat: z.number().optional(),
-    lng: z.number().optional(),
-  }).passthrough(),
-  dropoffLocation: z.object({
-    address: z.string().trim().min(1).optional(),
-    lat: z.number().optional(),
-    lng: z.number().optional(),
-  }).passthrough(),
+  // Either locations or saved places/route; a place id overrides its end of the route
+  pickupLocation: offerLocationSchema.optional(),
+  dropoffLocation: offerLocationSchema.optional(),
+  savedRouteId: z.number().int().positive().optional(),
+  pickupPlaceId: z.number().int().positive().optional(),
+  dropoffPlaceId: z.number().int().positive().optional(),
   scheduledTime: z.string().min(1),
   availableSeats: z.number().int().min(1).max(6).optional().default(3),
   price: z.number().positive().max(10000).optional(),
@@ -226,12 +308,17 @@ const offerTripSchema = z.object({
     model: z.string().trim().min(1),
     licensePlate: z.string().trim().min(1),
   }).strict(),
+  vehicleType: z.enum(VEHICLE_TYPES).optional().default('sedan'),
+  accessibilityFeatures: z.array(z.enum(ACCESSIBILITY_FEATURES)).max(ACCESSIBILITY_FEATURES.length).optional(),
   trip_type: z.enum(['daily', 'monthly']).default('daily'),
   pickup_lat: z.number().optional(),
   pickup_lng: z.number().optional(),
   dropoff_lat: z.number().optional(),
   dropoff_lng: z.number().optional(),
-}).strict();
+}).strict().refine(
+  (v) => (v.pickupLocation || v.pickupPlaceId || v.savedRouteId) && (v.dropoffLocation || v.dropoffPlaceId || v.savedRouteId),
+  { message: 'pickupLocation and dropoffLocation (or saved places) are required' },
+);
 
 const bookTripSchema = z.object({
   pickupLocation: z.object({
@@ -242,12 +329,32 @@ const bookTripSchema = z.object({
   }).passthrough(),
   passengers: z.number().int().min(1).max(4).optional().default(1),
   promoCode: z.string().max(30).optional(),
+  // The driver offer the rider was matched to, which carries its pool
+  driverTripId: z.string().trim().min(1).max(64).optional(),
 }).strict();
 
 const tripReasonSchema = z.object({
   reason: z.string().trim().min(1).max(500).optional(),
 }).strict();
 
+const driverArrivalSchema = z.object({
+  riderId: z.number().int().positive(),
+}).strict();
+
+const boardingCheckSchema = z.object({
+  riderId: z.number().int().positive().optional(),
+  pin: z.string().regex(/^\d{6}$/).optional(),
+  qr: z.string().min(1).max(256).optional(),
+}).strict().refine((v) => (v.pin !== undefined) !== (v.qr !== undefined), {
+  message: 'Provide either pin or qr',
+}).refine((v) => v.pin === undefined || v.riderId !== undefined, {
+  message: 'riderId is required with a PIN',
+});
+
+const shareLinkSchema = z.object({
+  expiresInHours: z.number().int().min(1).max(SHARE_LINK_MAX_HOURS).optional(),
+}).strict();
+
 function parseError(err: unknown): { message: string } {
   return { message: err instanceof Error ? err.message : String(err) };
 }
@@ -325,6 +432,18 @@ async function persistIdempotencyRecord(c: Context<AppEnv>, key: string): Promis
   }
 }
 
+function parseAccessibilityFeatures(value: string | null): AccessibilityFeature[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed)
+      ? parsed.filter((f): f is AccessibilityFeature => ACCESSIBILITY_FEATURES.includes(f as AccessibilityFeature))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
 function parseMaybeJsonLocation(value: string, fallback: { lat: number; lng: number }): { lat: number; lng: number } {
   if (!value.includes('{')) return fallback;
   try {
@@ -369,122 +488,14 @@ function parseBoundedInteger(value: string, label: string, min: number, max: num
   return parsed;
 }
 
-async function promoteNextWaitlistedRider(c: Context<AppEnv>, tripId: number): Promise<void> {
-  const db = getDBOptional(c);
-  if (!db) return;
-
-  const trip = await db
-    .prepare('SELECT id, driver_id, status, available_seats, title, departure_time FROM trips WHERE id = ?')
-    .bind(tripId)
-    .first<WaitlistTripRow>();
-
-  if (!trip || !['scheduled', 'active'].includes(trip.status) || trip.available_seats <= 0) {
-    return;
-  }
-
-  const candidate = await db
-    .prepare(`
-      SELECT w.id, w.user_id, w.passenger_count, u.email, u.first_name_encrypted
-      FROM trip_waitlist w
-      JOIN users u ON u.id = w.user_id
-      WHERE w.trip_id = ?
-        AND w.status = 'waiting'
-        AND w.passenger_count <= ?
-      ORDER BY w.joined_at ASC, w.id ASC
-      LIMIT 1
-    `)
-    .bind(tripId, trip.available_seats)
-    .first<WaitlistPromoteRow>();
-
-  if (!candidate) return;
-
-  const seatUpdate = await db
-    .prepare('UPDATE trips SET available_seats = available_seats - ? WHERE id = ? AND available_seats >= ?')
-    .bind(candidate.passenger_count, tripId, candidate.passenger_count)
-    .run();
-
-  const seatRows = getAffectedRows(seatUpdate);
-  if (seatRows === 0) return;
-
-  await db
-    .prepare(`
-      INSERT INTO trip_participants (
-        trip_id, user_id, role, status, requested_at, accepted_at, passenger_count, payment_status
-      )
-      VALUES (?, ?, 'rider', 'accepted', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, ?, 'unpaid')
-      ON CONFLICT(trip_id, user_id) DO UPDATE SET
-        status = 'accepted',
-        accepted_at = CURRENT_TIMESTAMP,
-        cancelled_at = NULL,
-        passenger_count = excluded.passenger_count
-    `)
-    .bind(tripId, candidate.user_id, candidate.passenger_count)
-    .run();
-
-  await db
-    .prepare(`
-      UPDATE trip_waitlist
-      SET status = 'promoted',
-          promoted_at = CURRENT_TIMESTAMP
-      WHERE id = ?
-    `)
-    .bind(candidate.id)
-    .run();
-
-  eventBus.emit('waitlist:promoted', {
-    tripId,
-    waitlistId: candidate.id,
-    passengerCount: candidate.passenger_count,
-  }, candidate.user_id);
-
-  try {
-    await createNotification(db, {
-      userId: candidate.user_id,
-      tripId,
-      notificationType: 'waitlist_promoted',
-      channel: 'in_app',
-      status: 'sent',
-      subject: 'You were moved off the waitlist',
-      message: `A seat opened for ${trip.title || 'your trip'} and your booking is now accepted.`,
-      metadata: { tripId, waitlistId: candidate.id, passengerCount: candidate.passenger_count },
-    });
-  } catch (err) {
-    logger.warn('Failed to persist waitlist promoted notification', {
-      error: err instanceof Error ? err.message : String(err),
-      tripId,
-      userId: candidate.user_id,
-    });
-  }
-
-  try {
-    const preferences = await getUserNotificationPreferences(db, candidate.user_id);
-    if (preferences.tripUpdates) {
-      const notifications = new NotificationService(c.env);
-      if (notifications.emailAvailable) {
-        const firstName = await safeDecryptPII(candidate.first_name_encrypted, c.env?.ENCRYPTION_KEY, candidate.user_id) || 'there';
-        await notifications.sendEmail(
-          candidate.email,
-          'You have been promoted from the waitlist',
-          `<p>Hi ${firstName}, a seat opened and your booking is now accepted for ${trip.title || 'your trip'}.</p><p>Departure: ${new Date(trip.departure_time).toLocaleString()}</p>`,
-        );
-      }
-    }
-  } catch (err) {
-    logger.warn('Failed to send waitlist promotion notification', {
-      error: err instanceof Error ? err.message : String(err),
-      tripId,
-      userId: candidate.user_id,
-    });
-  }
-}
-
 // ---------------------------------------------------------------------------
 // GET /available - search for trips
 // ---------------------------------------------------------------------------
 
 tripRoutes.get('/available', async (c) => {
   const user = c.get('user') as AuthUser;
-  const { pickupLat, pickupLng, dropoffLat, dropoffLng, date, time, maxDetour = '15' } = c.req.query();
+  const query = c.req.query();
+  const { pickupLat, pickupLng, dropoffLat, dropoffLng, date, time, maxDetour = '15' } = query;
 
   // Validate required coordinates
   if (!pickupLat || !pickupLng || !dropoffLat || !dropoffLng) {
@@ -496,29 +507,60 @@ tripRoutes.get('/available', async (c) => {
   const dropoffLatNum = parseBoundedNumber(dropoffLat, 'dropoffLat', -90, 90);
   const dropoffLngNum = parseBoundedNumber(dropoffLng, 'dropoffLng', -180, 180);
   const maxDetourNum = parseBoundedInteger(maxDetour, 'maxDetour', 1, 120);
+  const options = parseTripSearchOptions(query);
+  const filterSql = tripSearchFilterSql(options.filters, user.organizationId);
 
   const db = getDB(c);
   const cache = getCacheService(c);
+  const pickup = { lat: pickupLatNum, lng: pickupLngNum };
+  const dropoff = { lat: dropoffLatNum, lng: dropoffLngNum };
+
+  const searchCriteria = {
+    pickupLocation: pickup,
+    dropoffLocation: dropoff,
+    maxDetour: maxDetourNum, date, time,
+    filters: options.filters,
+    sort: options.sort,
+  };
+  const respond = (ranked: TripSearchHit[]) => {
+    const page = pageTrips(ranked, options);
+    return c.json({
+      trips: page.trips,
+      searchCriteria,
+      totalResults: ranked.length,
+      nextCursor: page.nextCursor,
+    });
+  };
 
-  // Generate cache key from search parameters
-  const cacheKey = `trips:search:${pickupLat}:${pickupLng}:${dropoffLat}:${dropoffLng}:${date || 'today'}:${time || 'now'}:${maxDetour}`;
+  // Nearby searches share a cache entry; pages are cut from the full list
+  const cacheKey = tripSearchCacheKey({
+    pickup,
+    dropoff,
+    date,
+    time,
+    maxDetour: maxDetourNum,
+    filters: options.filters,
+    organizationId: user.organizationId,
+  });
 
   // Try cache first
   if (cache) {
     const cached = await cache.get<TripSearchResult>(cacheKey);
     if (cached) {
       logger.debug('Trip search cache hit', { cacheKey });
-      return c.json(cached);
+      return respond(cached.trips);
     }
   }
 
   try {
-    // Fetch available driver trips from database
+    // Fetch available driver trips from database. Trips full end to end
+    // may still have seats on the rider's part of the route.
     const departureTime = date && time ? new Date(`${date}T${time}`) : new Date();
     const { results: driverTrips } = await db.prepare(`
-      SELECT t.id, t.origin, t.destination, t.departure_time, t.available_seats,
+      SELECT t.id, t.origin, t.destination, t.origin_lat, t.origin_lng, t.destination_lat, t.destination_lng,
+             t.departure_time, t.available_seats,
              t.vehicle_type, t.price_per_seat, t.driver_id,
-             t.route_distance_km, t.trip_type,
+             t.route_distance_km, t.trip_type, t.accessibility_json,
              u.first_name_encrypted, u.last_name_encrypted,
              ratings.avg_rating AS driver_avg_rating
       FROM trips t
@@ -530,18 +572,25 @@ tripRoutes.get('/available', async (c) => {
         GROUP BY user_id
       ) ratings ON ratings.user_id = t.driver_id
       WHERE t.status = 'scheduled'
-        AND t.available_seats > 0
+        AND (
+          t.available_seats > 0
+          OR EXISTS (
+            SELECT 1 FROM trip_participants sp
+            WHERE sp.trip_id = t.id AND sp.segment_start_km IS NOT NULL AND sp.status = 'accepted'
+          )
+        )
         AND t.departure_time >= ?
+        ${filterSql.clauses.map((clause) => `AND ${clause}`).join('\n        ')}
       ORDER BY t.departure_time ASC
-      LIMIT 50
-    `).bind(departureTime.toISOString()).all<DriverTripRow>();
+      LIMIT ${SEARCH_CANDIDATE_LIMIT}
+    `).bind(departureTime.toISOString(), ...filterSql.params).all<DriverTripRow>();
 
     // Create rider request
     const riderRequest: RiderRequest = {
       id: `search-${user.id}-${Date.now()}`,
       riderId: String(user.id),
-      pickup: { lat: pickupLatNum, lng: pickupLngNum },
-      dropoff: { lat: dropoffLatNum, lng: dropoffLngNum },
+      pickup,
+      dropoff,
       earliestDeparture: departureTime.getTime(),
       latestDeparture: departureTime.getTime() + 2 * 60 * 60 * 1000,
       seatsNeeded: 1,
@@ -554,18 +603,24 @@ tripRoutes.get('/available', async (c) => {
     };
 
     // Convert DB results to DriverTrip format (simplified)
-    const drivers: DriverTrip[] = (driverTrips ?? []).map((t) => {
+    const drivers: DriverTrip[] = await Promise.all((driverTrips ?? []).map(async (t) => {
       // Parse coordinates from origin/destination strings (simplified)
       const originCoords = parseMaybeJsonLocation(t.origin, { lat: pickupLatNum, lng: pickupLngNum });
       const destCoords = parseMaybeJsonLocation(t.destination, { lat: dropoffLatNum, lng: dropoffLngNum });
 
+      let availableSeats = t.available_seats;
+      if (availableSeats <= 0) {
+        const segment = bookingSegment(t, pickup, dropoff);
+        availableSeats = segment ? await segmentSeatsFree(db, t.id, segment) : 0;
+      }
+
       return {
         id: String(t.id),
         driverId: String(t.driver_id),
         departure: { lat: originCoords.lat || pickupLatNum, lng: originCoords.lng || pickupLngNum },
         destination: { lat: destCoords.lat || dropoffLatNum, lng: destCoords.lng || dropoffLngNum },
         departureTime: new Date(t.departure_time).getTime(),
-        availableSeats: t.available_seats,
+        availableSeats,
         totalSeats: t.available_seats,
         routePolyline: [],
         status: 'active',
@@ -573,7 +628,7 @@ tripRoutes.get('/available', async (c) => {
         createdAt: new Date().toISOString(),
         routeDistanceKm: t.route_distance_km != null ? Number(t.route_distance_km) : undefined,
       };
-    });
+    }));
 
     // Use matching algorithm
     const { matches } = matchRiderToDrivers(riderRequest, drivers);
@@ -581,7 +636,7 @@ tripRoutes.get('/available', async (c) => {
     const dbTripById = new Map((driverTrips ?? []).map((t) => [String(t.id), t]));
 
     const encKey = c.env?.ENCRYPTION_KEY;
-    const trips = await Promise.all(matches.map(async (match) => {
+    const trips: TripSearchHit[] = await Promise.all(matches.map(async (match) => {
       const dbTrip = dbTripById.get(match.driverTripId);
       const driverTrip = driverById.get(match.driverTripId);
       const driverFirst = await safeDecryptPII(dbTrip?.first_name_encrypted ?? null, encKey, dbTrip?.driver_id ?? match.driverId);
@@ -605,6 +660,7 @@ tripRoutes.get('/available', async (c) => {
         scheduledTime: new Date(driverTrip?.departureTime ?? Date.now()).toISOString(),
         availableSeats: driverTrip?.availableSeats ?? 0,
         vehicleType: driverTrip?.vehicle?.make || 'sedan',
+        accessibilityFeatures: parseAccessibilityFeatures(dbTrip?.accessibility_json ?? null),
         pricePerSeat: dbTrip?.price_per_seat != null ? Number(dbTrip.price_per_seat) : 35,
         ...(() => {
           const km = dbTrip?.route_distance_km;
@@ -633,22 +689,12 @@ tripRoutes.get('/available', async (c) => {
       avgScore: trips.reduce((sum, t) => sum + t.matchScore, 0) / trips.length || 0,
     });
 
-    const result = {
-      trips,
-      searchCriteria: {
-        pickupLocation: { lat: parseFloat(pickupLat), lng: parseFloat(pickupLng) },
-        dropoffLocation: { lat: parseFloat(dropoffLat), lng: parseFloat(dropoffLng) },
-        maxDetour: maxDetourNum, date, time,
-      },
-      totalResults: trips.length,
-    };
-
     // Cache results for 5 minutes
     if (cache) {
-      await cache.set(cacheKey, result, 300);
+      await cache.set(cacheKey, { trips } satisfies TripSearchResult, 300);
     }
 
-    return c.json(result);
+    return respond(trips);
   } catch (err: unknown) {
     const parsedError = parseError(err);
     logger.error('Available trips error', err instanceof Error ? err : undefined, {
@@ -656,12 +702,9 @@ tripRoutes.get('/available', async (c) => {
     });
     return c.json({
       trips: [],
-      searchCriteria: {
-        pickupLocation: { lat: parseFloat(pickupLat), lng: parseFloat(pickupLng) },
-        dropoffLocation: { lat: parseFloat(dropoffLat), lng: parseFloat(dropoffLng) },
-        maxDetour: maxDetourNum, date, time,
-      },
+      searchCriteria,
       totalResults: 0,
+      nextCursor: null,
     });
   }
 });
@@ -683,7 +726,7 @@ tripRoutes.post('/:tripId/book', async (c) => {
     return c.json({ error: { code: 'VALIDATION_ERROR', message: parsedBody.error.issues.map((i) => i.message).join(', ') } }, 400);
   }
 
-  const { pickupLocation, dropoffLocation, passengers, promoCode } = parsedBody.data;
+  const { pickupLocation, dropoffLocation, passengers, promoCode, driverTripId: requestedDriverTripId } = parsedBody.data;
   const idempotencyKey = getIdempotencyKey(c, user.id, `trip-book:${tripId}`);
   if (idempotencyKey) {
     const { replay } = await isIdempotentReplay(c, idempotencyKey);
@@ -716,20 +759,21 @@ tripRoutes.post('/:tripId/book', async (c) => {
     if (trip.status && trip.status !== 'scheduled') {
       return c.json({ error: { code: 'CONFLICT', message: 'Trip is not open for booking' } }, 409);
     }
-    if (trip.available_seats < passengers) {
+    const driverTripId = trip.driver_id != null
+      ? await bookingDriverTripId(db, Number(tripId), trip.driver_id, requestedDriverTripId)
+      : null;
+    if (requestedDriverTripId && driverTripId !== requestedDriverTripId) {
+      return c.json({ error: { code: 'VALIDATION_ERROR', message: 'driverTripId is not an offer of this trip\'s driver' } }, 400);
+    }
+    // A part-route booking only needs seats between its pickup and dropoff
+    const segment = await tripBookingSegment(db, tripId, pickupLocation, dropoffLocation);
+    const seatsFree = segment ? await segmentSeatsFree(db, tripId, segment) : trip.available_seats;
+    if (seatsFree < passengers) {
       return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Not enough seats' } }, 400);
     }
 
-    // Check if rider has an active paid monthly subscription
-    const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM
-    const activeSub = await db
-      .prepare(`SELECT id, payment_status FROM monthly_subscriptions WHERE user_id = ? AND subscription_month = ? AND status = 'active' LIMIT 1`)
-      .bind(user.id, currentMonth)
-      .first<{ id: number; payment_status: string }>();
-
-    const hasPaidSub = activeSub?.payment_status === 'paid';
-    const fareRatePerKm = hasPaidSub ? TRIP_RATES.MONTHLY_PER_KM : TRIP_RATES.DAILY_PER_KM;
-    const subId = hasPaidSub ? activeSub!.id : null;
+    // Riders with a paid monthly subscription book at the monthly rate
+    const { subscriptionId: subId, fareRatePerKm } = await riderFareRate(db, user.id);
 
     // Validate promo code if provided
     let promoCodeId: number | null = null;
@@ -782,10 +826,16 @@ tripRoutes.post('/:tripId/book', async (c) => {
       }
     }
 
-    await db
+    // Coordinates let the driver's live ETA route to this pickup
+    const pickupPoint = pickupLocation as { lat?: unknown; lng?: unknown };
+    const pickupPointEncrypted = c.env?.ENCRYPTION_KEY && typeof pickupPoint.lat === 'number' && typeof pickupPoint.lng === 'number'
+      ? await encryptPII(JSON.stringify({ lat: pickupPoint.lat, lng: pickupPoint.lng }), c.env.ENCRYPTION_KEY, user.id)
+      : null;
+
+    const bookingInsert = await db
       .prepare(
-        `INSERT INTO trip_participants (trip_id, user_id, role, status, pickup_location_encrypted, dropoff_location_encrypted, passenger_count, subscription_id, fare_rate_per_km)
-         VALUES (?, ?, 'rider', 'requested', ?, ?, ?, ?, ?)`
+        `INSERT INTO trip_participants (trip_id, user_id, role, status, pickup_location_encrypted, dropoff_location_encrypted, passenger_count, subscription_id, fare_rate_per_km, pickup_point_encrypted, segment_start_km, segment_end_km, driver_trip_id)
+         VALUES (?, ?, 'rider', 'requested', ?, ?, ?, ?, ?, ?, ?, ?, ?)`
       )
       .bind(
         tripId, user.id,
@@ -794,6 +844,10 @@ tripRoutes.post('/:tripId/book', async (c) => {
         passengers,
         subId,
         fareRatePerKm,
+        pickupPointEncrypted,
+        segment?.startKm ?? null,
+        segment?.endKm ?? null,
+        driverTripId,
       )
       .run();
 
@@ -808,12 +862,28 @@ tripRoutes.post('/:tripId/book', async (c) => {
       ).bind(promoCodeId).run();
     }
 
+    // Instant booking: riders the driver's rule lets in are accepted now;
+    // everyone else, or a lost race for the seats, waits for the driver
+    const bookingId = Number(bookingInsert?.meta?.last_row_id ?? 0) || null;
+    const driverId = trip.driver_id;
+    const instantRule = driverId != null ? await effectiveInstantBookingRule(db, driverId, Number(tripId)) : null;
+    const { eligible } = driverId != null
+      ? await evaluateInstantBooking(db, instantRule, driverId, user.id)
+      : { eligible: false };
+    const instant = eligible && bookingId !== null
+      && await acceptBookingWithSeats(db, tripId, bookingId, true) === 'accepted';
+
     // Emit real-time booking event
     eventBus.emit('booking:requested', {
       tripId,
       passengerId: user.id,
       passengers,
     }, user.id);
+    if (instant && bookingId !== null && driverId != null) {
+      eventBus.emit('booking:accepted', { bookingId, tripId, acceptedBy: driverId, instant: true }, driverId);
+      await notifyBookingAccepted(c, db, tripId, bookingId, driverId, true);
+      await prioritiseEveningLeg(db, c.env, bookingId);
+    }
 
     // Send notification to driver
     const notifications = new NotificationService(c.env);
@@ -837,9 +907,11 @@ tripRoutes.post('/:tripId/book', async (c) => {
                 notificationType: 'booking_request',
                 channel: 'in_app',
                 status: 'pending',
-                subject: 'New booking request',
-                message: `You received a new booking request for ${tripDetails.title || 'your trip'}.`,
-                metadata: { tripId, passengerId: user.id, passengers },
+                subject: instant ? 'New instant booking' : 'New booking request',
+                message: instant
+                  ? `A rider booked ${tripDetails.title || 'your trip'} instantly under your auto-accept rules.`
+                  : `You received a new booking request for ${tripDetails.title || 'your trip'}.`,
+                metadata: { tripId, passengerId: user.id, passengers, ...(instant ? { bookingId, instant: true } : {}) },
               });
             }
           } catch (err) {
@@ -862,7 +934,7 @@ tripRoutes.post('/:tripId/book', async (c) => {
 
             await notifications.sendEmail(
               tripDetails.email,
-              'New Booking Request - Klubz',
+              instant ? 'New Instant Booking - Klubz' : 'New Booking Request - Klubz',
               `
               <div style="font-family:system-ui;max-width:600px;margin:0 auto;padding:20px">
                 <h1 style="color:#3B82F6">New Booking Request</h1>
@@ -874,7 +946,7 @@ tripRoutes.post('/:tripId/book', async (c) => {
                   <p><strong>Pickup:</strong> ${pickupLocation.address || 'Requested location'}</p>
                   <p><strong>Dropoff:</strong> ${dropoffLocation.address || 'Requested location'}</p>
                 </div>
-                <p>Log in to Klubz to accept or reject this booking.</p>
+                <p>${instant ? 'The booking was accepted automatically under your instant booking rules.' : 'Log in to Klubz to accept or reject this booking.'}</p>
               </div>
             `,
               `New booking request from ${riderFirstName} ${riderLastName} for ${passengers} passenger(s).`
@@ -885,7 +957,31 @@ tripRoutes.post('/:tripId/book', async (c) => {
         logger.warn('Failed to send booking notification', { error: err instanceof Error ? err.message : String(err) });
       }
 
-    return c.json({ message: 'Booking request submitted successfully', booking: { tripId, passengerId: user.id, status: 'requested', createdAt: new Date().toISOString(), discountApplied: discountCents > 0 ? discountCents : undefined } });
+    // The amount the payment intent must match: a pooled share or the seat price
+    const tripFare = await db
+      .prepare('SELECT price_per_seat FROM trips WHERE id = ?')
+      .bind(tripId)
+      .first<{ price_per_seat: number | null }>();
+    const fareDue = await riderFareDue(db, Number(tripId), user.id, {
+      price_per_seat: tripFare?.price_per_seat ?? null,
+      split_fare_cents: null,
+      payment_status: null,
+    });
+
+    return c.json({
+      message: instant ? 'Booking confirmed' : 'Booking request submitted successfully',
+      booking: {
+        id: bookingId,
+        tripId,
+        passengerId: user.id,
+        status: instant ? 'accepted' : 'requested',
+        instantBooked: instant,
+        createdAt: new Date().toISOString(),
+        discountApplied: discountCents > 0 ? discountCents : undefined,
+        amountDue: fareDue.amountCents / 100,
+        pooledFare: fareDue.pooled,
+      },
+    });
   } catch (err: unknown) {
     const parsedError = parseError(err);
     logger.error('Booking error', err instanceof Error ? err : undefined, { error: parsedError.message });
@@ -914,9 +1010,11 @@ tripRoutes.delete('/:tripId/book', async (c) => {
   try {
     const booking = await db.prepare(`
       SELECT tp.id AS booking_id, tp.trip_id, tp.user_id, tp.passenger_count, tp.payment_status,
-             tp.payment_intent_id, tp.amount_paid, t.departure_time, t.price_per_seat, t.status AS trip_status
+             tp.payment_intent_id, tp.amount_paid, tp.split_fare_cents, tp.segment_start_km, t.departure_time, t.price_per_seat,
+             t.status AS trip_status, t.driver_id, d.organization_id
       FROM trip_participants tp
       JOIN trips t ON t.id = tp.trip_id
+      LEFT JOIN users d ON d.id = t.driver_id
       WHERE tp.trip_id = ?
         AND tp.user_id = ?
         AND tp.role = 'rider'
@@ -932,18 +1030,35 @@ tripRoutes.delete('/:tripId/book', async (c) => {
       return c.json({ error: { code: 'CONFLICT', message: 'Completed trips cannot be cancelled' } }, 409);
     }
 
-    const departureMs = new Date(booking.departure_time).getTime();
-    const hoursUntilDeparture = Number.isFinite(departureMs)
-      ? (departureMs - Date.now()) / (60 * 60 * 1000)
-      : -1;
-    const refundPct = hoursUntilDeparture >= 24 ? 1 : hoursUntilDeparture >= 6 ? 0.5 : 0;
     const passengerCount = Math.max(1, Number(booking.passenger_count ?? 1));
-    const paidAmount = Number(booking.amount_paid ?? (booking.price_per_seat * passengerCount));
-    const refundAmount = booking.payment_status === 'paid'
-      ? Math.max(0, Math.round((paidAmount * refundPct) * 100) / 100)
-      : 0;
-    const refundCents = Math.max(0, Math.round(refundAmount * 100));
+    const { fareCents, paidCents } = bookingAmountsCents(booking);
+    const policy = await loadCancellationPolicy(db, booking.organization_id);
+    const fees = assessCancellation(policy, {
+      initiator: 'rider',
+      hoursBeforeDeparture: hoursUntil(booking.departure_time),
+      fareCents,
+      paidCents,
+    });
+    const refundCents = fees.refundCents;
+    const refundAmount = refundCents / 100;
+    const penaltyAmount = fees.feeCents / 100;
+    const refundPct = 1 - fees.feePct;
+
+    // Claim the cancellation first so a repeated or concurrent request
+    // cannot refund, release seats or compensate the driver twice
+    const claim = await db.prepare(`
+      UPDATE trip_participants
+      SET status = 'cancelled',
+          cancelled_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+        AND status = 'accepted'
+    `).bind(booking.booking_id).run();
+    if (getAffectedRows(claim) === 0) {
+      return c.json({ error: { code: 'CONFLICT', message: 'Booking is already cancelled' } }, 409);
+    }
 
+    let refundId: string | null = null;
     if (
       booking.payment_status === 'paid'
       && booking.payment_intent_id
@@ -951,14 +1066,23 @@ tripRoutes.delete('/:tripId/book', async (c) => {
       && c.env?.STRIPE_SECRET_KEY
     ) {
       const stripe = new StripeService(c.env.STRIPE_SECRET_KEY);
-      await stripe.createRefund(booking.payment_intent_id, refundCents);
+      try {
+        const refund = await stripe.createRefund(booking.payment_intent_id, refundCents);
+        refundId = refund.id;
+      } catch (refundErr) {
+        // Nothing has moved yet: hand the booking back so the rider can retry
+        await db.prepare(`
+          UPDATE trip_participants
+          SET status = 'accepted', cancelled_at = NULL, updated_at = CURRENT_TIMESTAMP
+          WHERE id = ? AND status = 'cancelled'
+        `).bind(booking.booking_id).run();
+        throw refundErr;
+      }
     }
 
     await db.prepare(`
       UPDATE trip_participants
-      SET status = 'cancelled',
-          cancelled_at = CURRENT_TIMESTAMP,
-          payment_status = CASE
+      SET payment_status = CASE
             WHEN ? = 'paid' AND ? > 0 THEN 'refunded'
             WHEN ? = 'paid' AND ? = 0 THEN 'canceled'
             ELSE payment_status
@@ -966,10 +1090,8 @@ tripRoutes.delete('/:tripId/book', async (c) => {
           amount_refunded = CASE
             WHEN ? = 'paid' THEN ?
             ELSE amount_refunded
-          END,
-          updated_at = CURRENT_TIMESTAMP
+          END
       WHERE id = ?
-        AND status = 'accepted'
     `).bind(
       booking.payment_status ?? '',
       refundCents,
@@ -980,13 +1102,42 @@ tripRoutes.delete('/:tripId/book', async (c) => {
       booking.booking_id,
     ).run();
 
-    await db.prepare(`
-      UPDATE trips
-      SET available_seats = available_seats + ?
-      WHERE id = ?
-    `).bind(passengerCount, tripId).run();
+    // Freeing part of the route may not change the end-to-end figure
+    if (booking.segment_start_km != null) {
+      await refreshTripSeats(db, tripId);
+    } else {
+      await db.prepare(`
+        UPDATE trips
+        SET available_seats = available_seats + ?
+        WHERE id = ?
+      `).bind(passengerCount, tripId).run();
+    }
+
+    await promoteNextWaitlistedRider(db, c.env, Number.parseInt(tripId, 10));
+
+    // Pass part of the late-cancellation fee on to the driver
+    const compensation = await transferDriverCompensation(
+      db,
+      c.env?.STRIPE_SECRET_KEY ? new StripeService(c.env.STRIPE_SECRET_KEY) : null,
+      { driverId: booking.driver_id, tripId: Number(tripId), participantId: booking.booking_id, cents: fees.driverCompensationCents },
+    );
 
-    await promoteNextWaitlistedRider(c, Number.parseInt(tripId, 10));
+    try {
+      await recordCancellation(db, {
+        tripId: Number(tripId),
+        participantId: booking.booking_id,
+        cancelledBy: user.id,
+        assessment: fees,
+        refundId,
+        compensationStatus: compensation.status,
+        compensationTransferId: compensation.transferId,
+      });
+    } catch (recordErr) {
+      logger.warn('Cancellation record insert failed', {
+        error: recordErr instanceof Error ? recordErr.message : String(recordErr),
+        bookingId: booking.booking_id,
+      });
+    }
 
     try {
       await db.prepare(`
@@ -1000,8 +1151,9 @@ tripRoutes.delete('/:tripId/book', async (c) => {
           tripId: Number(tripId),
           refundPct,
           refundAmount,
-          penaltyAmount: Math.max(0, Math.round((paidAmount - refundAmount) * 100) / 100),
-          hoursUntilDeparture,
+          penaltyAmount,
+          hoursUntilDeparture: fees.hoursBeforeDeparture,
+          tier: fees.tier,
         }),
         getIP(c),
         getUserAgent(c),
@@ -1013,6 +1165,50 @@ tripRoutes.delete('/:tripId/book', async (c) => {
       });
     }
 
+    try {
+      const summary = describeAssessment(fees);
+      const riderPrefs = await getUserNotificationPreferences(db, user.id);
+      if (riderPrefs.tripUpdates) {
+        await createNotification(db, {
+          userId: user.id,
+          tripId: Number(tripId),
+          notificationType: 'trip_cancelled',
+          channel: 'in_app',
+          status: 'sent',
+          subject: 'Booking cancelled',
+          message: `Your booking was cancelled. ${summary}.`,
+          metadata: { tripId: Number(tripId), bookingId: booking.booking_id, fees },
+        });
+      }
+      if (booking.driver_id) {
+        const driverPrefs = await getUserNotificationPreferences(db, booking.driver_id);
+        if (driverPrefs.tripUpdates) {
+          const compensationNote = fees.driverCompensationCents > 0
+            ? ` You'll receive R${(fees.driverCompensationCents / 100).toFixed(2)} compensation.`
+            : '';
+          await createNotification(db, {
+            userId: booking.driver_id,
+            tripId: Number(tripId),
+            notificationType: 'trip_cancelled',
+            channel: 'in_app',
+            status: 'sent',
+            subject: 'Booking cancelled',
+            message: `A rider cancelled their booking (${fees.label.toLowerCase()}).${compensationNote}`,
+            metadata: {
+              tripId: Number(tripId),
+              bookingId: booking.booking_id,
+              tier: fees.tier,
+              driverCompensationCents: fees.driverCompensationCents,
+            },
+          });
+        }
+      }
+    } catch (err) {
+      logger.warn('Failed to persist booking cancellation notification', { error: err instanceof Error ? err.message : String(err) });
+    }
+
+    if (fees.tier !== 'free') await refreshReliabilityScore(db, user.id);
+
     eventBus.emit('booking:cancelled', {
       tripId: Number(tripId),
       bookingId: booking.booking_id,
@@ -1021,6 +1217,14 @@ tripRoutes.delete('/:tripId/book', async (c) => {
       refundPct,
     }, user.id);
 
+    // A round-trip leg leaves the rider to decide about the other one
+    let roundTrip: RoundTripOptions | null = null;
+    try {
+      roundTrip = await roundTripOptions(db, c.env?.ENCRYPTION_KEY, booking.booking_id);
+    } catch (err) {
+      logger.warn('Failed to load round-trip options', { error: err instanceof Error ? err.message : String(err), bookingId: booking.booking_id });
+    }
+
     return c.json({
       message: 'Booking cancelled successfully',
       cancellation: {
@@ -1028,9 +1232,11 @@ tripRoutes.delete('/:tripId/book', async (c) => {
         bookingId: booking.booking_id,
         refundPct,
         refundAmount,
-        penaltyAmount: Math.max(0, Math.round((paidAmount - refundAmount) * 100) / 100),
+        penaltyAmount,
+        fees,
         cancelledAt: new Date().toISOString(),
       },
+      ...(roundTrip ? { roundTrip } : {}),
     });
   } catch (err: unknown) {
     const parsedError = parseError(err);
@@ -1080,7 +1286,10 @@ tripRoutes.post('/:tripId/waitlist', async (c) => {
     if (!['scheduled', 'active'].includes(trip.status)) {
       return c.json({ error: { code: 'CONFLICT', message: 'Trip is not open for waitlist' } }, 409);
     }
-    if (trip.available_seats > 0) {
+    // Riders travelling part of the route wait for a seat on their segment
+    const segment = await tripBookingSegment(db, tripId, body.pickupLocation, body.dropoffLocation);
+    const seatsFree = segment ? await segmentSeatsFree(db, tripId, segment) : trip.available_seats;
+    if (seatsFree > 0) {
       return c.json({ error: { code: 'CONFLICT', message: 'Trip has seats available. Please book directly.' } }, 409);
     }
 
@@ -1092,9 +1301,18 @@ tripRoutes.post('/:tripId/waitlist', async (c) => {
       return c.json({ error: { code: 'CONFLICT', message: 'You already have a booking for this trip' } }, 409);
     }
 
+    // Carried onto the booking on promotion so the rider gets live ETAs
+    const pickupPoint = body.pickupLocation;
+    const pickupPointEncrypted = c.env?.ENCRYPTION_KEY && typeof pickupPoint?.lat === 'number' && typeof pickupPoint.lng === 'number'
+      ? await encryptPII(JSON.stringify({ lat: pickupPoint.lat, lng: pickupPoint.lng }), c.env.ENCRYPTION_KEY, user.id)
+      : null;
+
     await db
-      .prepare(`INSERT INTO trip_waitlist (trip_id, user_id, passenger_count) VALUES (?, ?, ?)`)
-      .bind(tripId, user.id, passengerCount)
+      .prepare(`
+        INSERT INTO trip_waitlist (trip_id, user_id, passenger_count, segment_start_km, segment_end_km, pickup_point_encrypted)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `)
+      .bind(tripId, user.id, passengerCount, segment?.startKm ?? null, segment?.endKm ?? null, pickupPointEncrypted)
       .run();
 
     const positionRow = await db
@@ -1234,7 +1452,7 @@ tripRoutes.post('/offer', async (c) => {
   if (!parsed.success) {
     return c.json({ error: { code: 'VALIDATION_ERROR', message: parsed.error.issues.map((i) => i.message).join(', ') } }, 400);
   }
-  const { pickupLocation, dropoffLocation, scheduledTime, availableSeats, price, vehicleInfo, notes, trip_type, pickup_lat, pickup_lng, dropoff_lat, dropoff_lng } = parsed.data;
+  const { scheduledTime, availableSeats, price, vehicleInfo, vehicleType, accessibilityFeatures, notes, trip_type, pickup_lat, pickup_lng, dropoff_lat, dropoff_lng } = parsed.data;
   const idempotencyKey = getIdempotencyKey(c, user.id, 'trip-offer');
   if (idempotencyKey) {
     const { replay, viaDb } = await isIdempotentReplay(c, idempotencyKey);
@@ -1256,10 +1474,23 @@ tripRoutes.post('/offer', async (c) => {
     return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Scheduled time must be in the future' } }, 400);
   }
 
+  const db = getDBOptional(c);
+  if (!db) {
+    logger.error('Trip offer denied because DB is unavailable', undefined, {
+      environment: c.env?.ENVIRONMENT || 'unknown',
+    });
+    return c.json({ error: { code: 'CONFIGURATION_ERROR', message: 'Trip service unavailable' } }, 500);
+  }
+
+  const saved = await resolveSavedPlaces(db, c.env?.ENCRYPTION_KEY, user.id, parsed.data);
+  const pickupLocation: z.infer<typeof offerLocationSchema> = saved.pickup ? { ...saved.pickup.location } : parsed.data.pickupLocation ?? {};
+  const dropoffLocation: z.infer<typeof offerLocationSchema> = saved.dropoff ? { ...saved.dropoff.location } : parsed.data.dropoffLocation ?? {};
+
   // Compute fare from coordinates if provided
   let distanceKm: number | null = null;
   let ratePerKm: number | null = null;
   let computedPricePerSeat: number | null = null;
+  let priceBreakdown: PriceBreakdown | null = null;
 
   const pickupLatVal = pickup_lat ?? (pickupLocation as { lat?: number }).lat;
   const pickupLngVal = pickup_lng ?? (pickupLocation as { lng?: number }).lng;
@@ -1268,27 +1499,27 @@ tripRoutes.post('/offer', async (c) => {
 
   if (pickupLatVal != null && dropoffLatVal != null &&
       pickupLngVal != null && dropoffLngVal != null) {
-    const straightLine = haversineKm(
+    distanceKm = await estimateRoadDistanceKm(
       { lat: pickupLatVal, lng: pickupLngVal },
-      { lat: dropoffLatVal, lng: dropoffLngVal }
+      { lat: dropoffLatVal, lng: dropoffLngVal },
+      getRoutingProvider(c.env),
     );
-    distanceKm = estimatedRoadKm(straightLine);
-    ratePerKm = trip_type === 'monthly' ? TRIP_RATES.MONTHLY_PER_KM : TRIP_RATES.DAILY_PER_KM;
-    computedPricePerSeat = calculateFareCents(distanceKm, trip_type) / 100;
-  }
-
-  const db = getDBOptional(c);
-  if (!db) {
-    logger.error('Trip offer denied because DB is unavailable', undefined, {
-      environment: c.env?.ENVIRONMENT || 'unknown',
+    priceBreakdown = await quoteTripFare(db, {
+      origin: { lat: pickupLatVal, lng: pickupLngVal },
+      distanceKm,
+      tripType: trip_type,
+      departureTs: new Date(scheduledTime).getTime(),
+      organizationId: user.organizationId,
     });
-    return c.json({ error: { code: 'CONFIGURATION_ERROR', message: 'Trip service unavailable' } }, 500);
+    ratePerKm = priceBreakdown.ratePerKm;
+    computedPricePerSeat = priceBreakdown.fareCents / 100;
   }
+
   try {
       const result = await db
         .prepare(
-          `INSERT INTO trips (title, description, origin, destination, origin_hash, destination_hash, departure_time, available_seats, total_seats, price_per_seat, currency, status, vehicle_type, vehicle_model_encrypted, vehicle_plate_encrypted, driver_id, trip_type, route_distance_km, rate_per_km)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'ZAR', 'scheduled', ?, ?, ?, ?, ?, ?, ?)`
+          `INSERT INTO trips (title, description, origin, destination, origin_hash, destination_hash, departure_time, available_seats, total_seats, price_per_seat, currency, status, vehicle_type, vehicle_model_encrypted, vehicle_plate_encrypted, driver_id, trip_type, route_distance_km, rate_per_km, accessibility_json, origin_lat, origin_lng, destination_lat, destination_lng)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'ZAR', 'scheduled', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
         )
         .bind(
           `Trip to ${dropoffLocation.address || 'destination'}`,
@@ -1301,12 +1532,18 @@ tripRoutes.post('/offer', async (c) => {
           availableSeats,
           availableSeats,
           computedPricePerSeat ?? price ?? 35.00,
+          vehicleType,
           vehicleInfo.make + ' ' + vehicleInfo.model,
           vehicleInfo.licensePlate,
           user.id,
           trip_type,
           distanceKm,
           ratePerKm,
+          accessibilityFeatures?.length ? JSON.stringify([...new Set(accessibilityFeatures)]) : null,
+          pickupLatVal ?? null,
+          pickupLngVal ?? null,
+          dropoffLatVal ?? null,
+          dropoffLngVal ?? null,
         )
         .run();
 
@@ -1318,6 +1555,10 @@ tripRoutes.post('/offer', async (c) => {
         .bind(tripId, user.id)
         .run();
 
+      if (priceBreakdown) {
+        await savePriceBreakdown(db, 'trip', Number(tripId), priceBreakdown.fareCents, priceBreakdown);
+      }
+
       // Emit real-time event
       eventBus.emit('trip:created', {
         tripId,
@@ -1336,6 +1577,7 @@ tripRoutes.post('/offer', async (c) => {
     return c.json({
       message: 'Trip offer created successfully',
       trip: { id: tripId, status: 'scheduled', driverId: user.id, availableSeats, createdAt: new Date().toISOString() },
+      ...(priceBreakdown ? { pricing: priceBreakdown } : {}),
     });
   } catch (err: unknown) {
     const parsedError = parseError(err);
@@ -1344,6 +1586,101 @@ tripRoutes.post('/offer', async (c) => {
   }
 });
 
+/** Tell the rider their booking was accepted (in-app, email, SMS). */
+async function notifyBookingAccepted(
+  c: Context<AppEnv>,
+  db: D1Database,
+  tripId: string,
+  bookingId: string | number,
+  driverId: number,
+  instant = false,
+): Promise<void> {
+  // Send notification to rider
+  const notifications = new NotificationService(c.env);
+  try {
+    const bookingDetails = await db.prepare(`
+        SELECT tp.user_id, t.title, t.origin, t.destination, t.departure_time, t.price_per_seat,
+               u.email, u.first_name_encrypted, u.last_name_encrypted, u.phone_encrypted,
+               d.first_name_encrypted as driver_first_name
+        FROM trip_participants tp
+        JOIN trips t ON tp.trip_id = t.id
+        JOIN users u ON tp.user_id = u.id
+        JOIN users d ON t.driver_id = d.id
+        WHERE tp.id = ? AND tp.role = 'rider'
+      `).bind(bookingId).first<AcceptBookingDetailsRow>();
+
+    if (bookingDetails) {
+      const riderNotificationPrefs = await getUserNotificationPreferences(db, bookingDetails.user_id);
+
+        try {
+          if (riderNotificationPrefs.tripUpdates) {
+            await createNotification(db, {
+              userId: bookingDetails.user_id,
+              tripId: Number.parseInt(tripId, 10),
+              notificationType: 'booking_accepted',
+              channel: 'in_app',
+              status: 'sent',
+              subject: 'Booking accepted',
+              message: `Your booking for ${bookingDetails.title || 'the trip'} was accepted.`,
+              metadata: { tripId, bookingId, acceptedBy: driverId, ...(instant ? { instant: true } : {}) },
+            });
+          }
+        } catch (err) {
+          logger.warn('Failed to persist booking accepted notification', { error: err instanceof Error ? err.message : String(err) });
+        }
+
+      if (notifications.emailAvailable || notifications.smsAvailable) {
+        const encKey = c.env?.ENCRYPTION_KEY;
+        const riderFirstName = await safeDecryptPII(
+          bookingDetails.first_name_encrypted, encKey, bookingDetails.user_id,
+        ) ?? 'Rider';
+
+        const driverFirstName = await safeDecryptPII(
+          bookingDetails.driver_first_name, encKey, driverId,
+        ) ?? 'Your driver';
+
+        // Send email confirmation
+        if (notifications.emailAvailable && riderNotificationPrefs.tripUpdates) {
+          await notifications.sendEmail(
+            bookingDetails.email,
+            'Trip Booking Confirmed - Klubz',
+            `
+              <div style="font-family:system-ui;max-width:600px;margin:0 auto;padding:20px">
+                <h1 style="color:#3B82F6">Booking Confirmed!</h1>
+                <p>Hi ${riderFirstName}, your trip has been confirmed:</p>
+                <div style="background:#F3F4F6;padding:16px;border-radius:8px;margin:16px 0">
+                  <p><strong>Driver:</strong> ${driverFirstName}</p>
+                  <p><strong>From:</strong> ${bookingDetails.origin}</p>
+                  <p><strong>To:</strong> ${bookingDetails.destination}</p>
+                  <p><strong>Departure:</strong> ${new Date(bookingDetails.departure_time).toLocaleString()}</p>
+                  <p><strong>Price:</strong> R${bookingDetails.price_per_seat}</p>
+                </div>
+                <p style="color:#6B7280;font-size:0.875rem">You'll receive notifications as your trip approaches.</p>
+              </div>
+            `,
+            `Your Klubz booking is confirmed! Trip with ${driverFirstName} on ${new Date(bookingDetails.departure_time).toLocaleString()}.`
+          );
+        }
+
+        // Send SMS confirmation if phone available
+        if (notifications.smsAvailable && bookingDetails.phone_encrypted && riderNotificationPrefs.tripUpdates && riderNotificationPrefs.smsNotifications) {
+          try {
+            const phone = await safeDecryptPII(bookingDetails.phone_encrypted, c.env?.ENCRYPTION_KEY, bookingDetails.user_id) ?? bookingDetails.phone_encrypted;
+            await notifications.sendSMS(
+              phone,
+              `Klubz: Your booking is confirmed! Trip with ${driverFirstName} on ${new Date(bookingDetails.departure_time).toLocaleDateString()} at ${new Date(bookingDetails.departure_time).toLocaleTimeString()}. Check your email for details.`
+            );
+          } catch (err) {
+            logger.warn('Failed to send SMS confirmation', { error: err instanceof Error ? err.message : String(err) });
+          }
+        }
+      }
+    }
+  } catch (err) {
+    logger.warn('Failed to send booking confirmation', { error: err instanceof Error ? err.message : String(err) });
+  }
+}
+
 // ---------------------------------------------------------------------------
 // POST /:tripId/bookings/:bookingId/accept
 // ---------------------------------------------------------------------------
@@ -1386,142 +1723,31 @@ tripRoutes.post('/:tripId/bookings/:bookingId/accept', async (c) => {
         return c.json({ error: { code: 'AUTHORIZATION_ERROR', message: 'Only the trip driver can accept bookings' } }, 403);
       }
 
-      const bookingUpdate = await db
-        .prepare("UPDATE trip_participants SET status = 'accepted', accepted_at = CURRENT_TIMESTAMP WHERE id = ? AND trip_id = ? AND role = 'rider' AND status = 'requested'")
-        .bind(bookingId, tripId)
-        .run();
-      const bookingRows = getAffectedRows(bookingUpdate);
-      if (bookingRows === 0) {
+      const acceptance = await acceptBookingWithSeats(db, tripId, bookingId);
+      if (acceptance === 'not_pending') {
         return c.json({ error: { code: 'CONFLICT', message: 'Booking is no longer pending' } }, 409);
       }
-
-      // Decrement seats only if availability exists; WHERE clause prevents negative seats.
-      const seatUpdate = await db
-        .prepare(`
-          UPDATE trips
-          SET available_seats = available_seats - (
-            SELECT COALESCE(passenger_count, 1)
-            FROM trip_participants
-            WHERE id = ? AND trip_id = ? AND role = 'rider'
-          )
-          WHERE id = ?
-            AND available_seats >= (
-              SELECT COALESCE(passenger_count, 1)
-              FROM trip_participants
-              WHERE id = ? AND trip_id = ? AND role = 'rider'
-            )
-        `)
-        .bind(bookingId, tripId, tripId, bookingId, tripId)
-        .run();
-      const seatRows = getAffectedRows(seatUpdate);
-      if (seatRows === 0) {
-        // Compensate booking transition when seat decrement loses a race.
-        await db
-          .prepare("UPDATE trip_participants SET status = 'requested', accepted_at = NULL WHERE id = ? AND trip_id = ? AND role = 'rider' AND status = 'accepted'")
-          .bind(bookingId, tripId)
-          .run();
+      if (acceptance === 'no_seats') {
         return c.json({ error: { code: 'CONFLICT', message: 'No seats available' } }, 409);
       }
 
       // Emit real-time event
       eventBus.emit('booking:accepted', { bookingId, tripId, acceptedBy: user.id }, user.id);
 
-      // Send notification to rider
-      const notifications = new NotificationService(c.env);
-      try {
-        const bookingDetails = await db.prepare(`
-            SELECT tp.user_id, t.title, t.origin, t.destination, t.departure_time, t.price_per_seat,
-                   u.email, u.first_name_encrypted, u.last_name_encrypted, u.phone_encrypted,
-                   d.first_name_encrypted as driver_first_name
-            FROM trip_participants tp
-            JOIN trips t ON tp.trip_id = t.id
-            JOIN users u ON tp.user_id = u.id
-            JOIN users d ON t.driver_id = d.id
-            WHERE tp.id = ? AND tp.role = 'rider'
-          `).bind(bookingId).first<AcceptBookingDetailsRow>();
-
-        if (bookingDetails) {
-          const riderNotificationPrefs = await getUserNotificationPreferences(db, bookingDetails.user_id);
+      await notifyBookingAccepted(c, db, tripId, bookingId, user.id);
+      await prioritiseEveningLeg(db, c.env, Number(bookingId));
 
-            try {
-              if (riderNotificationPrefs.tripUpdates) {
-                await createNotification(db, {
-                  userId: bookingDetails.user_id,
-                  tripId: Number.parseInt(tripId, 10),
-                  notificationType: 'booking_accepted',
-                  channel: 'in_app',
-                  status: 'sent',
-                  subject: 'Booking accepted',
-                  message: `Your booking for ${bookingDetails.title || 'the trip'} was accepted.`,
-                  metadata: { tripId, bookingId, acceptedBy: user.id },
-                });
-              }
-            } catch (err) {
-              logger.warn('Failed to persist booking accepted notification', { error: err instanceof Error ? err.message : String(err) });
-            }
+    return c.json({ message: 'Booking accepted successfully', booking: { id: bookingId, tripId, status: 'accepted', acceptedAt: new Date().toISOString() } });
+  } catch (err: unknown) {
+    const parsedError = parseError(err);
+    logger.error('Accept booking error', err instanceof Error ? err : undefined, { error: parsedError.message });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Booking acceptance failed' } }, 500);
+  }
+});
 
-          if (notifications.emailAvailable || notifications.smsAvailable) {
-            const encKey = c.env?.ENCRYPTION_KEY;
-            const riderFirstName = await safeDecryptPII(
-              bookingDetails.first_name_encrypted, encKey, bookingDetails.user_id,
-            ) ?? 'Rider';
-
-            const driverFirstName = await safeDecryptPII(
-              bookingDetails.driver_first_name, encKey, user.id,
-            ) ?? 'Your driver';
-
-            // Send email confirmation
-            if (notifications.emailAvailable && riderNotificationPrefs.tripUpdates) {
-              await notifications.sendEmail(
-                bookingDetails.email,
-                'Trip Booking Confirmed - Klubz',
-                `
-                  <div style="font-family:system-ui;max-width:600px;margin:0 auto;padding:20px">
-                    <h1 style="color:#3B82F6">Booking Confirmed!</h1>
-                    <p>Hi ${riderFirstName}, your trip has been confirmed:</p>
-                    <div style="background:#F3F4F6;padding:16px;border-radius:8px;margin:16px 0">
-                      <p><strong>Driver:</strong> ${driverFirstName}</p>
-                      <p><strong>From:</strong> ${bookingDetails.origin}</p>
-                      <p><strong>To:</strong> ${bookingDetails.destination}</p>
-                      <p><strong>Departure:</strong> ${new Date(bookingDetails.departure_time).toLocaleString()}</p>
-                      <p><strong>Price:</strong> R${bookingDetails.price_per_seat}</p>
-                    </div>
-                    <p style="color:#6B7280;font-size:0.875rem">You'll receive notifications as your trip approaches.</p>
-                  </div>
-                `,
-                `Your Klubz booking is confirmed! Trip with ${driverFirstName} on ${new Date(bookingDetails.departure_time).toLocaleString()}.`
-              );
-            }
-
-            // Send SMS confirmation if phone available
-            if (notifications.smsAvailable && bookingDetails.phone_encrypted && riderNotificationPrefs.tripUpdates && riderNotificationPrefs.smsNotifications) {
-              try {
-                const phone = await safeDecryptPII(bookingDetails.phone_encrypted, c.env?.ENCRYPTION_KEY, bookingDetails.user_id) ?? bookingDetails.phone_encrypted;
-                await notifications.sendSMS(
-                  phone,
-                  `Klubz: Your booking is confirmed! Trip with ${driverFirstName} on ${new Date(bookingDetails.departure_time).toLocaleDateString()} at ${new Date(bookingDetails.departure_time).toLocaleTimeString()}. Check your email for details.`
-                );
-              } catch (err) {
-                logger.warn('Failed to send SMS confirmation', { error: err instanceof Error ? err.message : String(err) });
-              }
-            }
-          }
-        }
-      } catch (err) {
-        logger.warn('Failed to send booking confirmation', { error: err instanceof Error ? err.message : String(err) });
-      }
-
-    return c.json({ message: 'Booking accepted successfully', booking: { id: bookingId, tripId, status: 'accepted', acceptedAt: new Date().toISOString() } });
-  } catch (err: unknown) {
-    const parsedError = parseError(err);
-    logger.error('Accept booking error', err instanceof Error ? err : undefined, { error: parsedError.message });
-    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Booking acceptance failed' } }, 500);
-  }
-});
-
-// ---------------------------------------------------------------------------
-// POST /:tripId/bookings/:bookingId/reject
-// ---------------------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// POST /:tripId/bookings/:bookingId/reject
+// ---------------------------------------------------------------------------
 
 tripRoutes.post('/:tripId/bookings/:bookingId/reject', async (c) => {
   const user = c.get('user') as AuthUser;
@@ -1579,7 +1805,8 @@ tripRoutes.post('/:tripId/bookings/:bookingId/reject', async (c) => {
       // Emit real-time event
       eventBus.emit('booking:rejected', { bookingId, tripId, rejectedBy: user.id }, user.id);
 
-      await promoteNextWaitlistedRider(c, Number.parseInt(tripId, 10));
+      await promoteNextWaitlistedRider(db, c.env, Number.parseInt(tripId, 10));
+      await offerRoundTripOptions(db, c.env, Number(bookingId));
 
       // Send notification to rider about rejection
       const notifications = new NotificationService(c.env);
@@ -1686,6 +1913,7 @@ tripRoutes.post('/:tripId/cancel', async (c) => {
     });
     return c.json({ error: { code: 'CONFIGURATION_ERROR', message: 'Trip service unavailable' } }, 500);
   }
+  const cancellationFees = new Map<number, CancellationAssessment>();
   try {
       const trip = await db
         .prepare('SELECT id, driver_id, status FROM trips WHERE id = ?')
@@ -1716,8 +1944,8 @@ tripRoutes.post('/:tripId/cancel', async (c) => {
       try {
         const participants = await db.prepare(`
           SELECT u.email, u.first_name_encrypted, tp.user_id, tp.id AS booking_id,
-                 tp.payment_intent_id, tp.payment_status,
-                 t.title, t.departure_time, t.origin, t.destination
+                 tp.payment_intent_id, tp.payment_status, tp.passenger_count, tp.amount_paid, tp.split_fare_cents,
+                 t.title, t.departure_time, t.origin, t.destination, t.price_per_seat
           FROM trip_participants tp
           JOIN users u ON tp.user_id = u.id
           JOIN trips t ON tp.trip_id = t.id
@@ -1731,6 +1959,7 @@ tripRoutes.post('/:tripId/cancel', async (c) => {
         });
       }
 
+      const roundTripLegs = await liveRoundTripLegsOnTrip(db, Number.parseInt(tripId, 10));
       const participantCancelUpdate = await db
         .prepare(`
           UPDATE trip_participants
@@ -1743,6 +1972,18 @@ tripRoutes.post('/:tripId/cancel', async (c) => {
         .run();
       const participantCancelRows = getAffectedRows(participantCancelUpdate);
 
+      // Driver cancellations refund riders in full; late ones are recorded as a driver penalty
+      const policy = await loadCancellationPolicy(db, user.organizationId);
+      for (const participant of acceptedParticipants) {
+        const { fareCents, paidCents } = bookingAmountsCents(participant);
+        cancellationFees.set(participant.booking_id, assessCancellation(policy, {
+          initiator: 'driver',
+          hoursBeforeDeparture: hoursUntil(participant.departure_time),
+          fareCents,
+          paidCents,
+        }));
+      }
+
       // Emit real-time event
       eventBus.emit('trip:cancelled', {
         tripId,
@@ -1750,6 +1991,10 @@ tripRoutes.post('/:tripId/cancel', async (c) => {
         cancelledParticipants: participantCancelRows ?? undefined,
       }, user.id);
 
+      for (const legBookingId of roundTripLegs) {
+        await offerRoundTripOptions(db, c.env, legBookingId);
+      }
+
       // Notify all accepted participants and issue refunds for paid bookings
       try {
         const reason = parsedBody.data.reason || 'The driver had to cancel this trip';
@@ -1780,12 +2025,15 @@ tripRoutes.post('/:tripId/cancel', async (c) => {
         // ── Stripe refunds for paid bookings ──
         const stripe = c.env?.STRIPE_SECRET_KEY ? new StripeService(c.env.STRIPE_SECRET_KEY) : null;
         for (const participant of acceptedParticipants) {
+          const fees = cancellationFees.get(participant.booking_id);
+          let refundId: string | null = null;
           if (stripe && participant.payment_status === 'paid' && participant.payment_intent_id) {
             try {
-              await stripe.createRefund(participant.payment_intent_id);
+              const refund = await stripe.createRefund(participant.payment_intent_id);
+              refundId = refund.id;
               await db
-                .prepare(`UPDATE trip_participants SET payment_status = 'refunded', updated_at = CURRENT_TIMESTAMP WHERE id = ?`)
-                .bind(participant.booking_id)
+                .prepare(`UPDATE trip_participants SET payment_status = 'refunded', amount_refunded = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`)
+                .bind((fees?.refundCents ?? 0) / 100, participant.booking_id)
                 .run();
               logger.info('Stripe refund issued for cancelled trip booking', {
                 bookingId: participant.booking_id,
@@ -1799,6 +2047,26 @@ tripRoutes.post('/:tripId/cancel', async (c) => {
               });
             }
           }
+          if (fees) {
+            try {
+              await recordCancellation(db, {
+                tripId: Number.parseInt(tripId, 10),
+                participantId: participant.booking_id,
+                cancelledBy: user.id,
+                assessment: fees,
+                refundId,
+              });
+            } catch (err) {
+              logger.warn('Cancellation record insert failed', {
+                error: err instanceof Error ? err.message : String(err),
+                bookingId: participant.booking_id,
+              });
+            }
+          }
+        }
+
+        if ([...cancellationFees.values()].some((fees) => fees.tier !== 'free')) {
+          await refreshReliabilityScore(db, user.id);
         }
 
         // ── Per-participant notification (preferences already loaded) ──
@@ -1806,6 +2074,8 @@ tripRoutes.post('/:tripId/cancel', async (c) => {
           try {
             // Default to notifying if prefs not found
             const wantsUpdates = prefsByUserId.get(participant.user_id) ?? true;
+            const fees = cancellationFees.get(participant.booking_id);
+            const feeSummary = fees ? `${describeAssessment(fees)}.` : '';
 
             if (wantsUpdates) {
               try {
@@ -1816,8 +2086,8 @@ tripRoutes.post('/:tripId/cancel', async (c) => {
                   channel: 'in_app',
                   status: 'sent',
                   subject: 'Trip cancelled',
-                  message: `Your upcoming trip ${participant.title || ''} was cancelled by the driver.`,
-                  metadata: { tripId, cancelledBy: user.id },
+                  message: `Your upcoming trip ${participant.title || ''} was cancelled by the driver. ${feeSummary}`.trim(),
+                  metadata: { tripId, cancelledBy: user.id, fees },
                 });
               } catch (err) {
                 logger.warn('Failed to persist trip cancellation notification', { error: err instanceof Error ? err.message : String(err) });
@@ -1842,11 +2112,12 @@ tripRoutes.post('/:tripId/cancel', async (c) => {
                       <p><strong>To:</strong> ${participant.destination}</p>
                       <p><strong>Scheduled:</strong> ${new Date(participant.departure_time).toLocaleString()}</p>
                       <p><strong>Reason:</strong> ${reason}</p>
+                      ${feeSummary ? `<p><strong>Refund:</strong> ${feeSummary}</p>` : ''}
                     </div>
                     <p>We're sorry for the inconvenience. Search for alternative trips on Klubz.</p>
                   </div>
                 `,
-                `Your Klubz trip on ${new Date(participant.departure_time).toLocaleDateString()} has been cancelled. ${reason}`
+                `Your Klubz trip on ${new Date(participant.departure_time).toLocaleDateString()} has been cancelled. ${reason} ${feeSummary}`.trim()
               );
             }
           } catch (err) {
@@ -1864,7 +2135,18 @@ tripRoutes.post('/:tripId/cancel', async (c) => {
     logger.error('Cancel trip error', err instanceof Error ? err : undefined, { error: parsedError.message });
     return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Trip cancellation failed' } }, 500);
   }
-  return c.json({ message: 'Trip cancelled successfully', trip: { id: tripId, status: 'cancelled', cancelledAt: new Date().toISOString() } });
+  const fees = [...cancellationFees.values()];
+  return c.json({
+    message: 'Trip cancelled successfully',
+    trip: { id: tripId, status: 'cancelled', cancelledAt: new Date().toISOString() },
+    cancellation: {
+      tier: fees[0]?.tier ?? null,
+      hoursBeforeDeparture: fees[0]?.hoursBeforeDeparture ?? null,
+      refundCents: fees.reduce((sum, f) => sum + f.refundCents, 0),
+      driverPenaltyCents: fees.reduce((sum, f) => sum + f.driverPenaltyCents, 0),
+      riders: fees,
+    },
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -1923,9 +2205,12 @@ tripRoutes.post('/:tripId/complete', async (c) => {
     .run();
 
   const acceptedRiders = await db
-    .prepare(`SELECT user_id FROM trip_participants WHERE trip_id = ? AND role = 'rider' AND status = 'completed'`)
+    .prepare(`SELECT user_id, boarded_at FROM trip_participants WHERE trip_id = ? AND role = 'rider' AND status = 'completed'`)
     .bind(tripId)
-    .all<{ user_id: number }>();
+    .all<{ user_id: number; boarded_at: string | null }>();
+  const unverifiedRiderIds = (acceptedRiders.results ?? [])
+    .filter((rider) => !rider.boarded_at)
+    .map((rider) => rider.user_id);
 
   try {
     await awardPointsOnce(db, user.id, 50, 'trip_completed_driver', Number.parseInt(tripId, 10));
@@ -1953,7 +2238,8 @@ tripRoutes.post('/:tripId/complete', async (c) => {
       const stripe = new StripeService(c.env.STRIPE_SECRET_KEY);
       const payoutRows = await db
         .prepare(`
-          SELECT tp.id, tp.user_id, tp.passenger_count, tp.amount_paid, tp.payment_status, tp.payout_status, t.price_per_seat
+          SELECT tp.id, tp.user_id, tp.passenger_count, tp.amount_paid, tp.payment_status, tp.payout_status,
+                 tp.boarded_at, t.price_per_seat
           FROM trip_participants tp
           JOIN trips t ON t.id = tp.trip_id
           WHERE tp.trip_id = ?
@@ -1966,43 +2252,20 @@ tripRoutes.post('/:tripId/complete', async (c) => {
       for (const payout of payoutRows.results ?? []) {
         if (payout.payment_status !== 'paid') continue;
         if (payout.payout_status === 'transferred') continue;
-
-        const passengerCount = Math.max(1, Number(payout.passenger_count ?? 1));
-        const amountPaid = Number(payout.amount_paid ?? ((payout.price_per_seat ?? 0) * passengerCount));
-        const transferAmountCents = Math.max(0, Math.round(amountPaid * 0.85 * 100));
-        if (transferAmountCents <= 0) {
-          continue;
-        }
-
-        try {
-          const transfer = await stripe.createTransfer(
-            transferAmountCents,
-            'zar',
-            driverAccount.stripe_connect_account_id,
-            {
-              tripId: String(tripId),
-              participantId: String(payout.id),
-            },
-          );
-          await db
-            .prepare(`
-              UPDATE trip_participants
-              SET payout_status = 'transferred',
-                  payout_transfer_id = ?,
-                  payout_transferred_at = CURRENT_TIMESTAMP
-              WHERE id = ?
-            `)
-            .bind(transfer.id, payout.id)
-            .run();
-        } catch (transferErr) {
-          await db
-            .prepare(`UPDATE trip_participants SET payout_status = 'failed' WHERE id = ?`)
-            .bind(payout.id)
-            .run();
+        // Unverified boardings stay pending until an admin releases them
+        if (!payout.boarded_at) continue;
+
+        const outcome = await payOutRiderFare(
+          db,
+          stripe,
+          driverAccount.stripe_connect_account_id,
+          { ...payout, trip_id: Number(tripId) },
+        );
+        if (outcome && !outcome.ok) {
           logger.warn('Trip payout transfer failed (non-critical)', {
             tripId,
             participantId: payout.id,
-            error: transferErr instanceof Error ? transferErr.message : String(transferErr),
+            error: outcome.error,
           });
         }
       }
@@ -2016,9 +2279,82 @@ tripRoutes.post('/:tripId/complete', async (c) => {
 
   eventBus.emit('trip:completed', { tripId, completedBy: user.id }, user.id);
 
-  return c.json({ message: 'Trip completed successfully', trip: { id: tripId, status: 'completed', completedAt: new Date().toISOString() } });
+  return c.json({
+    message: 'Trip completed successfully',
+    trip: { id: tripId, status: 'completed', completedAt: new Date().toISOString() },
+    // Riders without a verified boarding are not paid out automatically
+    unverifiedBoardings: unverifiedRiderIds,
+  });
 });
 
+/**
+ * The driver reached a rider's pickup. Starts the rider's no-show grace
+ * period and lets the rider know.
+ */
+async function markDriverArrival(
+  c: Context<AppEnv>,
+  db: D1Database,
+  tripId: number,
+  driverId: number,
+): Promise<Response> {
+  let body: unknown = {};
+  try { body = await c.req.json(); } catch { body = {}; }
+  const parsed = driverArrivalSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: 'riderId is required when the driver marks arrival' } }, 400);
+  }
+  const { riderId } = parsed.data;
+
+  const participant = await db
+    .prepare(`SELECT id, status FROM trip_participants WHERE trip_id = ? AND user_id = ? AND role = 'rider'`)
+    .bind(tripId, riderId)
+    .first<TripArrivalParticipantRow>();
+  if (!participant || participant.status !== 'accepted') {
+    return c.json({ error: { code: 'NOT_FOUND', message: 'Accepted booking not found' } }, 404);
+  }
+
+  const arrivedAt = new Date().toISOString();
+  await db
+    .prepare('UPDATE trip_participants SET driver_arrived_at = COALESCE(driver_arrived_at, ?) WHERE id = ?')
+    .bind(arrivedAt, participant.id)
+    .run();
+
+  const organization = await db
+    .prepare('SELECT organization_id FROM users WHERE id = ?')
+    .bind(driverId)
+    .first<{ organization_id: string | null }>();
+  const policy = await loadCancellationPolicy(db, organization?.organization_id);
+
+  eventBus.emit('trip:arrived', { tripId, riderId, driverArrived: true }, riderId);
+
+  try {
+    await createNotification(db, {
+      userId: riderId,
+      tripId,
+      notificationType: 'system',
+      channel: 'in_app',
+      status: 'sent',
+      subject: 'Your driver has arrived',
+      message: `Your driver is at the pickup and will wait ${policy.riderNoShowGraceMinutes} minutes.`,
+      metadata: { tripId, graceMinutes: policy.riderNoShowGraceMinutes },
+    });
+  } catch (err) {
+    logger.warn('Failed to persist driver arrival notification', {
+      tripId,
+      riderId,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+
+  return c.json({
+    message: 'Driver arrival noted',
+    tripId,
+    riderId,
+    graceMinutes: policy.riderNoShowGraceMinutes,
+    noShowAfter: new Date(Date.parse(arrivedAt) + policy.riderNoShowGraceMinutes * 60_000).toISOString(),
+  });
+}
+
 // ---------------------------------------------------------------------------
 // POST /:tripId/arrive
 // ---------------------------------------------------------------------------
@@ -2046,12 +2382,12 @@ tripRoutes.post('/:tripId/arrive', async (c) => {
   if (!trip) {
     return c.json({ error: { code: 'NOT_FOUND', message: 'Trip not found' } }, 404);
   }
-  if (trip.driver_id === user.id) {
-    return c.json({ error: { code: 'AUTHORIZATION_ERROR', message: 'Drivers cannot mark rider arrival' } }, 403);
-  }
   if (trip.status === 'cancelled' || trip.status === 'completed') {
     return c.json({ error: { code: 'CONFLICT', message: 'Trip is no longer active' } }, 409);
   }
+  if (trip.driver_id === user.id) {
+    return markDriverArrival(c, db, tripId, trip.driver_id);
+  }
 
   const participant = await db
     .prepare(`SELECT id, status FROM trip_participants WHERE trip_id = ? AND user_id = ? AND role = 'rider'`)
@@ -2071,6 +2407,12 @@ tripRoutes.post('/:tripId/arrive', async (c) => {
   }
   await c.env?.CACHE?.put(dedupeKey, '1', { expirationTtl: 6 * 60 * 60 });
 
+  // Stops the no-show clock started by the driver's arrival
+  await db
+    .prepare('UPDATE trip_participants SET rider_arrived_at = COALESCE(rider_arrived_at, ?) WHERE id = ?')
+    .bind(new Date().toISOString(), participant.id)
+    .run();
+
   eventBus.emit('trip:arrived', { tripId, riderId: user.id }, trip.driver_id);
 
   try {
@@ -2106,6 +2448,267 @@ tripRoutes.post('/:tripId/arrive', async (c) => {
   return c.json({ message: 'Arrival noted', arrived: true, tripId });
 });
 
+// ---------------------------------------------------------------------------
+// POST /:tripId/riders/:riderId/no-show - driver flags a rider who never came
+// ---------------------------------------------------------------------------
+
+tripRoutes.post('/:tripId/riders/:riderId/no-show', async (c) => {
+  const user = c.get('user') as AuthUser;
+  const tripId = Number.parseInt(c.req.param('tripId'), 10);
+  const riderId = Number.parseInt(c.req.param('riderId'), 10);
+  if (!Number.isFinite(tripId) || tripId <= 0 || !Number.isFinite(riderId) || riderId <= 0) {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid trip or rider ID' } }, 400);
+  }
+
+  const db = getDBOptional(c);
+  if (!db) {
+    logger.error('Rider no-show denied because DB is unavailable', undefined, {
+      environment: c.env?.ENVIRONMENT || 'unknown',
+    });
+    return c.json({ error: { code: 'CONFIGURATION_ERROR', message: 'Trip service unavailable' } }, 500);
+  }
+
+  try {
+    const booking = await db
+      .prepare(`
+        SELECT ${RIDER_NO_SHOW_COLUMNS}
+        FROM trip_participants tp
+        JOIN trips t ON t.id = tp.trip_id
+        LEFT JOIN users d ON d.id = t.driver_id
+        WHERE tp.trip_id = ? AND tp.user_id = ? AND tp.role = 'rider' AND tp.status = 'accepted'
+      `)
+      .bind(tripId, riderId)
+      .first<RiderNoShowRow>();
+    if (!booking) {
+      return c.json({ error: { code: 'NOT_FOUND', message: 'Accepted booking not found' } }, 404);
+    }
+    if (booking.driver_id !== user.id) {
+      return c.json({ error: { code: 'AUTHORIZATION_ERROR', message: 'Only the trip driver can report a no-show' } }, 403);
+    }
+    if (booking.rider_arrived_at) {
+      return c.json({ error: { code: 'CONFLICT', message: 'Rider has already arrived' } }, 409);
+    }
+
+    const policy = await loadCancellationPolicy(db, booking.organization_id);
+    const dueAt = riderNoShowDueAt(booking.driver_arrived_at, policy);
+    if (dueAt === null) {
+      return c.json({ error: { code: 'CONFLICT', message: 'Mark your arrival at the pickup first' } }, 409);
+    }
+    if (Date.now() < dueAt) {
+      return c.json({
+        error: {
+          code: 'CONFLICT',
+          message: `Riders have ${policy.riderNoShowGraceMinutes} minutes after you arrive; try again after ${new Date(dueAt).toISOString()}`,
+        },
+      }, 409);
+    }
+
+    const stripe = c.env?.STRIPE_SECRET_KEY ? new StripeService(c.env.STRIPE_SECRET_KEY) : null;
+    const fees = await flagRiderNoShow(db, stripe, booking, policy, { detectedBy: 'driver' });
+    if (!fees) {
+      return c.json({ error: { code: 'CONFLICT', message: 'Booking is no longer active' } }, 409);
+    }
+
+    eventBus.emit('booking:cancelled', {
+      tripId,
+      bookingId: booking.participant_id,
+      cancelledBy: user.id,
+      noShow: true,
+      refundAmount: fees.refundCents / 100,
+    }, riderId);
+
+    try {
+      await db
+        .prepare(
+          'INSERT INTO audit_logs (user_id, action, entity_type, entity_id, ip_address, user_agent) VALUES (?, ?, ?, ?, ?, ?)',
+        )
+        .bind(user.id, 'TRIP_RIDER_NO_SHOW', 'trip_participant', booking.participant_id, getIP(c), getUserAgent(c))
+        .run();
+    } catch {
+      // best-effort
+    }
+
+    return c.json({ message: 'Rider marked as no-show', tripId, riderId, fees });
+  } catch (err: unknown) {
+    const parsedError = parseError(err);
+    logger.error('Rider no-show error', err instanceof Error ? err : undefined, { error: parsedError.message });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Failed to record no-show' } }, 500);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// GET /:tripId/boarding-pass - rider's signed PIN and QR for pickup
+// ---------------------------------------------------------------------------
+
+tripRoutes.get('/:tripId/boarding-pass', async (c) => {
+  const user = c.get('user') as AuthUser;
+  const tripId = Number.parseInt(c.req.param('tripId'), 10);
+  if (!Number.isFinite(tripId) || tripId <= 0) {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid trip ID' } }, 400);
+  }
+
+  const db = getDBOptional(c);
+  if (!db || !c.env?.JWT_SECRET) {
+    logger.error('Boarding pass denied because configuration is incomplete', undefined, {
+      environment: c.env?.ENVIRONMENT || 'unknown',
+    });
+    return c.json({ error: { code: 'CONFIGURATION_ERROR', message: 'Trip service unavailable' } }, 500);
+  }
+
+  const booking = await db
+    .prepare(`
+      SELECT tp.id, tp.status, tp.boarded_at, t.status AS trip_status
+      FROM trip_participants tp
+      JOIN trips t ON t.id = tp.trip_id
+      WHERE tp.trip_id = ? AND tp.user_id = ? AND tp.role = 'rider'
+    `)
+    .bind(tripId, user.id)
+    .first<{ id: number; status: string; boarded_at: string | null; trip_status: string }>();
+  if (!booking) {
+    return c.json({ error: { code: 'NOT_FOUND', message: 'Booking not found' } }, 404);
+  }
+  if (riderBookingStatus(booking) === 'on_board') {
+    return c.json({ error: { code: 'CONFLICT', message: 'You are already on board' } }, 409);
+  }
+  if (booking.status !== 'accepted' || booking.trip_status === 'cancelled' || booking.trip_status === 'completed') {
+    return c.json({ error: { code: 'CONFLICT', message: 'Booking is not active' } }, 409);
+  }
+
+  const boardingPass = await issueBoardingPass(c.env.JWT_SECRET, tripId, booking.id);
+  return c.json({ boardingPass });
+});
+
+// ---------------------------------------------------------------------------
+// POST /:tripId/board - driver verifies a rider's boarding PIN or QR
+// ---------------------------------------------------------------------------
+
+tripRoutes.post('/:tripId/board', async (c) => {
+  const user = c.get('user') as AuthUser;
+  const tripId = Number.parseInt(c.req.param('tripId'), 10);
+  if (!Number.isFinite(tripId) || tripId <= 0) {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid trip ID' } }, 400);
+  }
+
+  let body: unknown;
+  try { body = await c.req.json(); } catch {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid JSON' } }, 400);
+  }
+  const parsed = boardingCheckSchema.safeParse(body);
+  if (!parsed.success) {
+    const message = parsed.error.issues[0]?.message ?? 'Invalid boarding check';
+    return c.json({ error: { code: 'VALIDATION_ERROR', message } }, 400);
+  }
+
+  const db = getDBOptional(c);
+  if (!db || !c.env?.JWT_SECRET) {
+    logger.error('Boarding check denied because configuration is incomplete', undefined, {
+      environment: c.env?.ENVIRONMENT || 'unknown',
+    });
+    return c.json({ error: { code: 'CONFIGURATION_ERROR', message: 'Trip service unavailable' } }, 500);
+  }
+  const secret = c.env.JWT_SECRET;
+
+  const trip = await db
+    .prepare('SELECT id, driver_id, status FROM trips WHERE id = ?')
+    .bind(tripId)
+    .first<TripOwnerRow>();
+  if (!trip) {
+    return c.json({ error: { code: 'NOT_FOUND', message: 'Trip not found' } }, 404);
+  }
+  if (trip.driver_id !== user.id) {
+    return c.json({ error: { code: 'AUTHORIZATION_ERROR', message: 'Only the trip driver can check riders in' } }, 403);
+  }
+  if (trip.status === 'cancelled' || trip.status === 'completed') {
+    return c.json({ error: { code: 'CONFLICT', message: 'Trip is no longer active' } }, 409);
+  }
+
+  const { riderId, pin, qr } = parsed.data;
+  const method: BoardingMethod = qr !== undefined ? 'qr' : 'pin';
+  const invalidCode = () => c.json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid or expired boarding code' } }, 400);
+
+  let participant: BoardingParticipantRow | null;
+  if (qr !== undefined) {
+    const scanned = await verifyBoardingQr(secret, qr);
+    if (!scanned || scanned.tripId !== tripId) return invalidCode();
+    participant = await db
+      .prepare(`
+        SELECT id, trip_id, user_id, role, status, boarded_at, boarding_failed_attempts
+        FROM trip_participants WHERE id = ? AND trip_id = ?
+      `)
+      .bind(scanned.participantId, tripId)
+      .first<BoardingParticipantRow>();
+  } else {
+    participant = await db
+      .prepare(`
+        SELECT id, trip_id, user_id, role, status, boarded_at, boarding_failed_attempts
+        FROM trip_participants WHERE trip_id = ? AND user_id = ? AND role = 'rider'
+      `)
+      .bind(tripId, riderId)
+      .first<BoardingParticipantRow>();
+  }
+
+  if (!participant || participant.role !== 'rider') {
+    return c.json({ error: { code: 'NOT_FOUND', message: 'Booking not found' } }, 404);
+  }
+  if (riderBookingStatus(participant) === 'on_board') {
+    return c.json({ error: { code: 'CONFLICT', message: 'Rider is already on board' } }, 409);
+  }
+  if (participant.status !== 'accepted') {
+    return c.json({ error: { code: 'CONFLICT', message: 'Booking is not active' } }, 409);
+  }
+
+  if (pin !== undefined) {
+    if (Number(participant.boarding_failed_attempts ?? 0) >= BOARDING_MAX_FAILED_ATTEMPTS) {
+      return c.json({
+        error: { code: 'RATE_LIMIT_EXCEEDED', message: "Too many wrong PINs; scan the rider's QR code instead" },
+      }, 429);
+    }
+    if (!(await verifyBoardingPin(secret, tripId, participant.id, pin))) {
+      await db
+        .prepare('UPDATE trip_participants SET boarding_failed_attempts = boarding_failed_attempts + 1 WHERE id = ?')
+        .bind(participant.id)
+        .run();
+      return invalidCode();
+    }
+  }
+
+  const boardedAt = new Date().toISOString();
+  const boarded = await db
+    .prepare(`
+      UPDATE trip_participants
+      SET boarded_at = ?, boarding_method = ?,
+          rider_arrived_at = COALESCE(rider_arrived_at, ?)
+      WHERE id = ? AND status = 'accepted' AND boarded_at IS NULL
+    `)
+    .bind(boardedAt, method, boardedAt, participant.id)
+    .run();
+  if (getAffectedRows(boarded) === 0) {
+    return c.json({ error: { code: 'CONFLICT', message: 'Booking is no longer active' } }, 409);
+  }
+
+  eventBus.emit('trip:boarded', { tripId, riderId: participant.user_id, method }, participant.user_id);
+
+  try {
+    await db
+      .prepare(
+        'INSERT INTO audit_logs (user_id, action, entity_type, entity_id, ip_address, user_agent) VALUES (?, ?, ?, ?, ?, ?)',
+      )
+      .bind(user.id, 'TRIP_RIDER_BOARDED', 'trip_participant', participant.id, getIP(c), getUserAgent(c))
+      .run();
+  } catch {
+    // best-effort
+  }
+
+  return c.json({
+    message: 'Rider boarded',
+    tripId,
+    riderId: participant.user_id,
+    status: 'on_board',
+    boardedAt,
+    method,
+  });
+});
+
 // ---------------------------------------------------------------------------
 // POST /:tripId/rate
 // ---------------------------------------------------------------------------
@@ -2171,8 +2774,9 @@ tripRoutes.post('/:tripId/rate', async (c) => {
 });
 
 // ---------------------------------------------------------------------------
-// POST /:tripId/location  — Driver updates GPS position (CACHE KV only)
-// GET  /:tripId/location  — Rider/driver polls last known position
+// POST /:tripId/location  — Driver updates GPS position (KV + breadcrumbs + ETAs)
+// GET  /:tripId/location  — Rider/driver polls last known position and pickup ETA
+// GET  /:tripId/track     — Replay/export the breadcrumb trail
 // ---------------------------------------------------------------------------
 
 tripRoutes.post('/:tripId/location', async (c) => {
@@ -2192,19 +2796,49 @@ tripRoutes.post('/:tripId/location', async (c) => {
     return c.json({ error: { code: 'VALIDATION_ERROR', message: 'lat and lng required' } }, 400);
   }
 
+  const updatedAt = new Date().toISOString();
   const db = getDBOptional(c);
   if (db) {
     // Verify caller is the driver of this trip
     const trip = await db
-      .prepare('SELECT driver_id FROM trips WHERE id = ?')
+      .prepare('SELECT id, driver_id, status, departure_time, origin, destination FROM trips WHERE id = ?')
       .bind(tripId)
-      .first<{ driver_id: number }>();
+      .first<{ id: number; driver_id: number; status: string; departure_time: string; origin: string; destination: string }>();
     if (!trip || trip.driver_id !== user.id) {
       return c.json({ error: { code: 'AUTHORIZATION_ERROR', message: 'Only the trip driver can update location' } }, 403);
     }
+
+    // Driver no-show detection looks for updates around departure
+    await db
+      .prepare('UPDATE trips SET last_location_at = ? WHERE id = ?')
+      .bind(updatedAt, tripId)
+      .run();
+
+    // Breadcrumbs, detour and unexpected-stop checks start once the trip is
+    // under way; the driver's position before departure is not recorded
+    const departed = Date.parse(trip.departure_time) <= Date.now();
+    const underWay = trip.status === 'active' || (trip.status === 'scheduled' && departed);
+    if (underWay && c.env?.ENCRYPTION_KEY && c.env.LOCATION_BREADCRUMBS !== 'off') {
+      await recordBreadcrumb(db, c.env.CACHE, c.env.ENCRYPTION_KEY, tripId, {
+        lat,
+        lng,
+        heading: heading ?? null,
+        speed: speed ?? null,
+        accuracy: accuracy ?? null,
+        recordedAt: updatedAt,
+      });
+    }
+
+    if (underWay) {
+      await monitorTripLocation(c.env, db, trip, { lat, lng, accuracyM: accuracy ?? null });
+    }
+
+    if (trip.status === 'scheduled' || trip.status === 'active') {
+      await updateTripEtas(c.env, db, trip, { lat, lng });
+    }
   }
 
-  const payload = JSON.stringify({ lat, lng, heading: heading ?? null, speed: speed ?? null, accuracy: accuracy ?? null, updatedAt: new Date().toISOString() });
+  const payload = JSON.stringify({ lat, lng, heading: heading ?? null, speed: speed ?? null, accuracy: accuracy ?? null, updatedAt });
   await c.env?.CACHE?.put(`location:trip:${tripId}`, payload, { expirationTtl: 120 });
 
   // Broadcast via SSE so connected riders see real-time updates
@@ -2222,6 +2856,7 @@ tripRoutes.get('/:tripId/location', async (c) => {
 
   // Verify caller is driver or accepted rider
   const db = getDBOptional(c);
+  let isDriver = false;
   if (db) {
     const trip = await db
       .prepare('SELECT driver_id FROM trips WHERE id = ?')
@@ -2230,9 +2865,10 @@ tripRoutes.get('/:tripId/location', async (c) => {
     if (!trip) {
       return c.json({ error: { code: 'NOT_FOUND', message: 'Trip not found' } }, 404);
     }
-    if (trip.driver_id !== user.id) {
+    isDriver = trip.driver_id === user.id;
+    if (!isDriver) {
       const participant = await db
-        .prepare('SELECT id FROM trip_participants WHERE trip_id = ? AND user_id = ? AND status = ?')
+        .prepare("SELECT id FROM trip_participants WHERE trip_id = ? AND user_id = ? AND status = ?")
         .bind(tripId, user.id, 'accepted')
         .first<{ id: number }>();
       if (!participant) {
@@ -2241,11 +2877,317 @@ tripRoutes.get('/:tripId/location', async (c) => {
     }
   }
 
+  // Drivers see every waiting rider's ETA; riders only their own
+  const snapshot = c.env ? await getTripEtas(c.env, tripId) : null;
+  const etas = (snapshot?.riders ?? [])
+    .filter((r) => isDriver || r.riderId === user.id)
+    .map(({ riderId, distanceKm, etaMinutes, eta }) => ({ riderId, distanceKm, etaMinutes, eta }));
+  const eta = snapshot
+    ? { updatedAt: snapshot.updatedAt, ...(isDriver ? { riders: etas } : { pickup: etas[0] ?? null }) }
+    : null;
+
   const raw = await c.env?.CACHE?.get(`location:trip:${tripId}`, 'text');
   if (!raw) {
-    return c.json({ location: null });
+    return c.json({ location: null, eta });
+  }
+  return c.json({ location: JSON.parse(raw), eta });
+});
+
+tripRoutes.get('/:tripId/track', async (c) => {
+  const user = c.get('user') as AuthUser;
+  const tripId = parseInt(c.req.param('tripId'));
+  if (isNaN(tripId)) {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid trip ID' } }, 400);
+  }
+  const format = c.req.query('format') ?? 'json';
+  if (format !== 'json' && format !== 'geojson' && format !== 'gpx') {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: 'format must be one of: json, geojson, gpx' } }, 400);
+  }
+
+  const db = getDBOptional(c);
+  if (!db || !c.env?.ENCRYPTION_KEY) {
+    return c.json({ error: { code: 'CONFIGURATION_ERROR', message: 'Service unavailable' } }, 503);
+  }
+
+  const trip = await db
+    .prepare('SELECT id, driver_id FROM trips WHERE id = ?')
+    .bind(tripId)
+    .first<{ id: number; driver_id: number }>();
+  if (!trip) {
+    return c.json({ error: { code: 'NOT_FOUND', message: 'Trip not found' } }, 404);
+  }
+
+  // The driver and admins (SOS reports, disputes) get the whole track; a
+  // rider only the stretch they were on board for
+  const isAdmin = user.role === 'admin' || user.role === 'super_admin';
+  let rider: TrackRiderRow | null = null;
+  if (trip.driver_id !== user.id && !isAdmin) {
+    rider = await db
+      .prepare(`
+        SELECT id, boarded_at, rider_arrived_at, segment_start_km, segment_end_km FROM trip_participants
+        WHERE trip_id = ? AND user_id = ? AND role = 'rider' AND status IN ('accepted', 'completed')
+      `)
+      .bind(tripId, user.id)
+      .first<TrackRiderRow>();
+    if (!rider) {
+      return c.json({ error: { code: 'AUTHORIZATION_ERROR', message: 'Access denied' } }, 403);
+    }
+  }
+
+  const track = await loadBreadcrumbs(db, c.env.ENCRYPTION_KEY, tripId);
+  const points = rider
+    ? riderSegmentBreadcrumbs(
+      track,
+      rider.boarded_at ?? rider.rider_arrived_at,
+      rider.segment_start_km != null && rider.segment_end_km != null
+        ? rider.segment_end_km - rider.segment_start_km
+        : null,
+    )
+    : track;
+
+  try {
+    await db
+      .prepare(
+        'INSERT INTO audit_logs (user_id, action, entity_type, entity_id, ip_address, user_agent) VALUES (?, ?, ?, ?, ?, ?)',
+      )
+      .bind(user.id, 'TRIP_TRACK_EXPORTED', 'trip', tripId, getIP(c), getUserAgent(c))
+      .run();
+  } catch {
+    // best-effort
+  }
+
+  if (format === 'gpx') {
+    return c.body(breadcrumbsToGPX(tripId, points), 200, {
+      'Content-Type': 'application/gpx+xml; charset=utf-8',
+      'Content-Disposition': `attachment; filename="trip-${tripId}.gpx"`,
+    });
+  }
+  if (format === 'geojson') {
+    c.header('Content-Type', 'application/geo+json; charset=utf-8');
+    return c.body(JSON.stringify(breadcrumbsToGeoJSON(tripId, points)));
+  }
+  return c.json({ tripId, points });
+});
+
+// ---------------------------------------------------------------------------
+// GET    /:tripId/instant-booking — Driver's auto-accept rule in force for the trip
+// PUT    /:tripId/instant-booking — Set a rule for this trip only
+// DELETE /:tripId/instant-booking — Fall back to the driver-wide rule
+// ---------------------------------------------------------------------------
+
+async function loadOwnTripForRules(c: Context<AppEnv>, db: D1Database, driverId: number): Promise<number | Response> {
+  const tripId = Number.parseInt(c.req.param('tripId') ?? '', 10);
+  if (!Number.isFinite(tripId) || tripId <= 0) {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid trip ID' } }, 400);
+  }
+  const trip = await db
+    .prepare('SELECT id, driver_id FROM trips WHERE id = ?')
+    .bind(tripId)
+    .first<TripOwnerRow>();
+  if (!trip) return c.json({ error: { code: 'NOT_FOUND', message: 'Trip not found' } }, 404);
+  if (trip.driver_id !== driverId) {
+    return c.json({ error: { code: 'AUTHORIZATION_ERROR', message: 'Only the trip driver can manage instant booking' } }, 403);
+  }
+  return tripId;
+}
+
+tripRoutes.get('/:tripId/instant-booking', async (c) => {
+  const user = c.get('user') as AuthUser;
+  const db = getDBOptional(c);
+  if (!db) return c.json({ error: { code: 'CONFIGURATION_ERROR', message: 'Service unavailable' } }, 503);
+
+  const tripId = await loadOwnTripForRules(c, db, user.id);
+  if (tripId instanceof Response) return tripId;
+
+  const rule = await effectiveInstantBookingRule(db, user.id, tripId);
+  return c.json({
+    rule: rule ?? { tripId: null, ...DEFAULT_INSTANT_BOOKING_RULE },
+    source: rule?.tripId != null ? 'trip' : rule ? 'driver' : 'default',
+  });
+});
+
+tripRoutes.put('/:tripId/instant-booking', async (c) => {
+  const user = c.get('user') as AuthUser;
+  let body: unknown;
+  try { body = await c.req.json(); } catch {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid JSON' } }, 400);
+  }
+  const parsed = instantBookingRuleSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: parsed.error.issues.map((i) => i.message).join(', ') } }, 400);
+  }
+
+  const db = getDBOptional(c);
+  if (!db) return c.json({ error: { code: 'CONFIGURATION_ERROR', message: 'Service unavailable' } }, 503);
+
+  const tripId = await loadOwnTripForRules(c, db, user.id);
+  if (tripId instanceof Response) return tripId;
+
+  // A new trip rule starts from whatever applied to the trip until now
+  const base = ruleSettings(await effectiveInstantBookingRule(db, user.id, tripId));
+  const rule = await upsertInstantBookingRule(db, user.id, tripId, { ...base, ...parsed.data });
+  return c.json({ rule, source: 'trip' });
+});
+
+tripRoutes.delete('/:tripId/instant-booking', async (c) => {
+  const user = c.get('user') as AuthUser;
+  const db = getDBOptional(c);
+  if (!db) return c.json({ error: { code: 'CONFIGURATION_ERROR', message: 'Service unavailable' } }, 503);
+
+  const tripId = await loadOwnTripForRules(c, db, user.id);
+  if (tripId instanceof Response) return tripId;
+
+  await deleteInstantBookingRule(db, user.id, tripId);
+  const rule = await getInstantBookingRule(db, user.id, ALL_TRIPS);
+  return c.json({
+    rule: rule ?? { tripId: null, ...DEFAULT_INSTANT_BOOKING_RULE },
+    source: rule ? 'driver' : 'default',
+  });
+});
+
+// ---------------------------------------------------------------------------
+// POST   /:tripId/share           — Rider creates a public tracking link
+// GET    /:tripId/share           — Rider lists their links for the trip
+// DELETE /:tripId/share/:shareId  — Rider revokes a link
+// ---------------------------------------------------------------------------
+
+tripRoutes.post('/:tripId/share', async (c) => {
+  const user = c.get('user') as AuthUser;
+  const tripId = Number.parseInt(c.req.param('tripId'), 10);
+  if (!Number.isFinite(tripId) || tripId <= 0) {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid trip ID' } }, 400);
+  }
+
+  let body: unknown = {};
+  const rawBody = await c.req.text();
+  if (rawBody.trim()) {
+    try { body = JSON.parse(rawBody); } catch {
+      return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid JSON' } }, 400);
+    }
+  }
+  const parsed = shareLinkSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: `expiresInHours must be between 1 and ${SHARE_LINK_MAX_HOURS}` } }, 400);
+  }
+
+  const db = getDBOptional(c);
+  if (!db) return c.json({ error: { code: 'CONFIGURATION_ERROR', message: 'Service unavailable' } }, 503);
+
+  const booking = await db
+    .prepare(`
+      SELECT tp.id, tp.status, t.status AS trip_status
+      FROM trip_participants tp
+      JOIN trips t ON t.id = tp.trip_id
+      WHERE tp.trip_id = ? AND tp.user_id = ? AND tp.role = 'rider'
+    `)
+    .bind(tripId, user.id)
+    .first<{ id: number; status: string; trip_status: string }>();
+  if (!booking) {
+    return c.json({ error: { code: 'NOT_FOUND', message: 'Booking not found' } }, 404);
+  }
+  if (
+    booking.status !== 'accepted'
+    || (booking.trip_status !== 'scheduled' && booking.trip_status !== 'active')
+  ) {
+    return c.json({ error: { code: 'CONFLICT', message: 'Only active bookings can be shared' } }, 409);
+  }
+
+  const token = generateShareToken();
+  const expiresAt = shareLinkExpiry(Date.now(), parsed.data.expiresInHours ?? SHARE_LINK_DEFAULT_HOURS);
+  const result = await db
+    .prepare(
+      `INSERT INTO trip_share_links (trip_id, participant_id, user_id, token_hash, expires_at)
+       VALUES (?, ?, ?, ?, ?)`,
+    )
+    .bind(tripId, booking.id, user.id, await hashShareToken(token), expiresAt)
+    .run();
+  const shareId = Number(result.meta?.last_row_id ?? 0);
+
+  await logAuditEvent(c, {
+    userId: user.id,
+    action: 'TRIP_SHARE_CREATED',
+    resourceType: 'trip',
+    resourceId: tripId,
+    success: true,
+    metadata: { shareId, expiresAt },
+  });
+
+  // The token is only ever returned here; the table keeps its hash
+  return c.json({
+    share: {
+      id: shareId,
+      tripId,
+      token,
+      url: shareLinkUrl(c.env?.APP_URL || new URL(c.req.url).origin, token),
+      expiresAt,
+    },
+  }, 201);
+});
+
+tripRoutes.get('/:tripId/share', async (c) => {
+  const user = c.get('user') as AuthUser;
+  const tripId = Number.parseInt(c.req.param('tripId'), 10);
+  if (!Number.isFinite(tripId) || tripId <= 0) {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid trip ID' } }, 400);
   }
-  return c.json({ location: JSON.parse(raw) });
+
+  const db = getDBOptional(c);
+  if (!db) return c.json({ error: { code: 'CONFIGURATION_ERROR', message: 'Service unavailable' } }, 503);
+
+  const { results } = await db
+    .prepare(
+      `SELECT id, expires_at, revoked_at, last_accessed_at, access_count, created_at
+       FROM trip_share_links WHERE trip_id = ? AND user_id = ? ORDER BY id DESC`,
+    )
+    .bind(tripId, user.id)
+    .all<{ id: number; expires_at: string; revoked_at: string | null; last_accessed_at: string | null; access_count: number; created_at: string }>();
+
+  return c.json({
+    shares: (results ?? []).map((r) => ({
+      id: r.id,
+      tripId,
+      expiresAt: r.expires_at,
+      revokedAt: r.revoked_at,
+      lastAccessedAt: r.last_accessed_at,
+      accessCount: r.access_count,
+      createdAt: r.created_at,
+    })),
+  });
+});
+
+tripRoutes.delete('/:tripId/share/:shareId', async (c) => {
+  const user = c.get('user') as AuthUser;
+  const tripId = Number.parseInt(c.req.param('tripId'), 10);
+  const shareId = Number.parseInt(c.req.param('shareId'), 10);
+  if (!Number.isFinite(tripId) || tripId <= 0 || !Number.isFinite(shareId) || shareId <= 0) {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid trip or share ID' } }, 400);
+  }
+
+  const db = getDBOptional(c);
+  if (!db) return c.json({ error: { code: 'CONFIGURATION_ERROR', message: 'Service unavailable' } }, 503);
+
+  const revokedAt = new Date().toISOString();
+  const result = await db
+    .prepare(
+      `UPDATE trip_share_links SET revoked_at = ?
+       WHERE id = ? AND trip_id = ? AND user_id = ? AND revoked_at IS NULL`,
+    )
+    .bind(revokedAt, shareId, tripId, user.id)
+    .run();
+  if (!result.meta?.changes) {
+    return c.json({ error: { code: 'NOT_FOUND', message: 'Share link not found' } }, 404);
+  }
+
+  await logAuditEvent(c, {
+    userId: user.id,
+    action: 'TRIP_SHARE_REVOKED',
+    resourceType: 'trip',
+    resourceId: tripId,
+    success: true,
+    metadata: { shareId },
+  });
+
+  return c.json({ message: 'Share link revoked', share: { id: shareId, tripId, revokedAt } });
 });
 
 // ---------------------------------------------------------------------------
@@ -2274,7 +3216,7 @@ tripRoutes.get('/:tripId/route', async (c) => {
   const isDriver = trip.driver_id === user.id;
   if (!isDriver) {
     const participant = await db
-      .prepare('SELECT id FROM trip_participants WHERE trip_id = ? AND user_id = ? AND status = ?')
+      .prepare("SELECT id FROM trip_participants WHERE trip_id = ? AND user_id = ? AND status = ?")
       .bind(tripId, user.id, 'accepted')
       .first<{ id: number }>();
     if (!participant) {
@@ -2283,7 +3225,7 @@ tripRoutes.get('/:tripId/route', async (c) => {
   }
 
   // Return cached route if available
-  const cacheKey = `route:trip:${tripId}`;
+  const cacheKey = tripRouteCacheKey(tripId);
   const cached = await c.env?.CACHE?.get(cacheKey, 'text');
   if (cached) {
     return c.json(JSON.parse(cached));
@@ -2318,6 +3260,48 @@ tripRoutes.get('/:tripId/route', async (c) => {
   }
 });
 
+// ---------------------------------------------------------------------------
+// GET /:tripId/price-breakdown  — How the seat price was computed
+// ---------------------------------------------------------------------------
+
+tripRoutes.get('/:tripId/price-breakdown', async (c) => {
+  const user = c.get('user') as AuthUser;
+  const tripId = parseInt(c.req.param('tripId'));
+  if (isNaN(tripId)) {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid trip ID' } }, 400);
+  }
+
+  const db = getDBOptional(c);
+  if (!db) return c.json({ error: { code: 'CONFIGURATION_ERROR', message: 'Service unavailable' } }, 503);
+
+  const trip = await db
+    .prepare('SELECT id, driver_id, price_per_seat FROM trips WHERE id = ?')
+    .bind(tripId)
+    .first<{ id: number; driver_id: number; price_per_seat: number | null }>();
+  if (!trip) {
+    return c.json({ error: { code: 'NOT_FOUND', message: 'Trip not found' } }, 404);
+  }
+
+  // Riders who booked (or were declined) can see it for receipts and disputes
+  const isAdmin = user.role === 'admin' || user.role === 'super_admin';
+  const participant = await db
+    .prepare('SELECT id, fare_split_json FROM trip_participants WHERE trip_id = ? AND user_id = ?')
+    .bind(tripId, user.id)
+    .first<{ id: number; fare_split_json: string | null }>();
+  if (trip.driver_id !== user.id && !isAdmin && !participant) {
+    return c.json({ error: { code: 'AUTHORIZATION_ERROR', message: 'Access denied' } }, 403);
+  }
+
+  const stored = await getPriceBreakdown(db, 'trip', tripId);
+  return c.json({
+    tripId,
+    pricePerSeat: trip.price_per_seat,
+    pricing: stored ? { ...stored.breakdown, computedAt: stored.createdAt } : null,
+    // Pooled riders are charged their share instead of the seat price
+    fareSplit: participant?.fare_split_json ? JSON.parse(participant.fare_split_json) as RiderFareShare : null,
+  });
+});
+
 // ---------------------------------------------------------------------------
 // POST /:tripId/dispute  — Rider/driver files a dispute
 // ---------------------------------------------------------------------------
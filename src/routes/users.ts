@@ -16,7 +16,18 @@ import { encryptPII, safeDecryptPII, hashForLookup } from '../lib/encryption';
 import { AppError, ValidationError } from '../lib/errors';
 import { getCacheService } from '../lib/cache';
 import { DEFAULT_USER_PREFERENCES, getUserPreferences, upsertUserPreferences } from '../lib/userPreferences';
+import { getDriverAttributeProfile, upsertDriverAttributeProfile } from '../lib/driverProfile';
 import { parseQueryInteger } from '../lib/validation';
+import { getReliability } from '../lib/reliability';
+import { riderBookingStatus } from '../lib/boarding';
+import {
+  ALL_TRIPS,
+  DEFAULT_INSTANT_BOOKING_RULE,
+  getInstantBookingRule,
+  instantBookingRuleSchema,
+  ruleSettings,
+  upsertInstantBookingRule,
+} from '../lib/instantBooking';
 
 export const userRoutes = new Hono<AppEnv>();
 
@@ -55,6 +66,7 @@ interface UserTripRow {
   status: string;
   participant_role: string;
   participant_status: string;
+  boarded_at: string | null;
   pickup_location_encrypted: string | null;
   dropoff_location_encrypted: string | null;
   price_per_seat: number;
@@ -63,6 +75,7 @@ interface UserTripRow {
   total_seats: number;
   vehicle_type: string;
   rating: number | null;
+  split_fare_cents: number | null;
   driver_first_name: string | null;
   driver_last_name: string | null;
   driver_avatar: string | null;
@@ -119,6 +132,13 @@ const createTripSchema = z.object({
   price: z.number().min(0).max(10000).optional(),
 });
 
+const driverProfileSchema = z.object({
+  gender: z.enum(['male', 'female']).nullable().optional(),
+  shareGenderForMatching: z.boolean().optional(),
+}).strict().refine((value) => Object.keys(value).length > 0, {
+  message: 'Provide gender and/or shareGenderForMatching to update',
+});
+
 const tosAcceptSchema = z.object({
   tosVersion: z.string().trim().min(1).max(20),
 }).strict();
@@ -150,10 +170,16 @@ userRoutes.get('/:userId/rating', async (c) => {
     const averageRating = row?.avg_rating != null
       ? Number(Number(row.avg_rating).toFixed(1))
       : 0;
+    const reliability = await getReliability(db, userId);
 
     return c.json({
       averageRating,
       reviewCount,
+      reliability: {
+        score: reliability.score,
+        noShows: reliability.noShows,
+        lateCancellations: reliability.lateCancellations,
+      },
     });
   } catch (err: unknown) {
     const parsed = parseError(err);
@@ -339,7 +365,7 @@ userRoutes.get('/trips', async (c) => {
                t.currency, t.status, t.vehicle_type, t.created_at,
                tp.role as participant_role, tp.status as participant_status,
                tp.pickup_location_encrypted, tp.dropoff_location_encrypted,
-               tp.rating,
+               tp.rating, tp.split_fare_cents, tp.boarded_at,
                u.first_name_encrypted as driver_first_name,
                u.last_name_encrypted as driver_last_name,
                u.avatar_url as driver_avatar
@@ -377,8 +403,11 @@ userRoutes.get('/trips', async (c) => {
         scheduledTime: r.departure_time,
         status: r.status,
         participantRole: r.participant_role,
-        participantStatus: r.participant_status,
+        participantStatus: riderBookingStatus({ status: r.participant_status, boarded_at: r.boarded_at }),
         price: r.price_per_seat,
+        // What the rider's payment must match: their pooled share when split
+        amountDue: r.split_fare_cents && r.split_fare_cents > 0 ? r.split_fare_cents / 100 : r.price_per_seat,
+        pooledFare: !!r.split_fare_cents && r.split_fare_cents > 0,
         currency: r.currency || 'ZAR',
         availableSeats: r.available_seats,
         totalSeats: r.total_seats,
@@ -436,11 +465,12 @@ userRoutes.post('/trips', async (c) => {
     const destinationText = payload.dropoffLocation.address || JSON.stringify(payload.dropoffLocation);
     const originHash = await hashForLookup(originText);
     const destinationHash = await hashForLookup(destinationText);
+    const coordinate = (value: unknown) => (typeof value === 'number' ? value : null);
 
     const result = await db
       .prepare(
-        `INSERT INTO trips (title, description, origin, destination, origin_hash, destination_hash, departure_time, available_seats, total_seats, price_per_seat, currency, status, vehicle_type, driver_id)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'scheduled', 'sedan', ?)`
+        `INSERT INTO trips (title, description, origin, destination, origin_hash, destination_hash, departure_time, available_seats, total_seats, price_per_seat, currency, status, vehicle_type, driver_id, origin_lat, origin_lng, destination_lat, destination_lng)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'scheduled', 'sedan', ?, ?, ?, ?, ?)`
       )
       .bind(
         payload.title || 'Trip',
@@ -455,6 +485,10 @@ userRoutes.post('/trips', async (c) => {
         payload.price || 35.00,
         'ZAR',
         user.id,
+        coordinate(payload.pickupLocation.lat),
+        coordinate(payload.pickupLocation.lng),
+        coordinate(payload.dropoffLocation.lat),
+        coordinate(payload.dropoffLocation.lng),
       )
       .run();
 
@@ -532,6 +566,77 @@ userRoutes.put('/preferences', async (c) => {
   return c.json(updated);
 });
 
+// ---------------------------------------------------------------------------
+// GET /driver-profile - Opt-in driver attributes used for rider preferences
+// ---------------------------------------------------------------------------
+
+userRoutes.get('/driver-profile', async (c) => {
+  const user = c.get('user') as AuthUser;
+  const profile = await getDriverAttributeProfile(getDB(c), user.id);
+  return c.json(profile);
+});
+
+// ---------------------------------------------------------------------------
+// PUT /driver-profile
+// ---------------------------------------------------------------------------
+
+userRoutes.put('/driver-profile', async (c) => {
+  const user = c.get('user') as AuthUser;
+  let body: unknown;
+  try { body = await c.req.json(); } catch {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid JSON' } }, 400);
+  }
+
+  const parsed = driverProfileSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json(
+      { error: { code: 'VALIDATION_ERROR', message: parsed.error.issues.map(i => i.message).join(', ') } },
+      400,
+    );
+  }
+  if (parsed.data.shareGenderForMatching && parsed.data.gender === null) {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Cannot share gender for matching without providing it' } }, 400);
+  }
+
+  const updated = await upsertDriverAttributeProfile(getDB(c), user.id, parsed.data);
+  return c.json(updated);
+});
+
+// ---------------------------------------------------------------------------
+// GET /instant-booking - driver-wide auto-accept rule
+// ---------------------------------------------------------------------------
+
+userRoutes.get('/instant-booking', async (c) => {
+  const user = c.get('user') as AuthUser;
+  const rule = await getInstantBookingRule(getDB(c), user.id);
+  return c.json(rule ?? { tripId: null, ...DEFAULT_INSTANT_BOOKING_RULE });
+});
+
+// ---------------------------------------------------------------------------
+// PUT /instant-booking
+// ---------------------------------------------------------------------------
+
+userRoutes.put('/instant-booking', async (c) => {
+  const user = c.get('user') as AuthUser;
+  let body: unknown;
+  try { body = await c.req.json(); } catch {
+    return c.json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid JSON' } }, 400);
+  }
+
+  const parsed = instantBookingRuleSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json(
+      { error: { code: 'VALIDATION_ERROR', message: parsed.error.issues.map(i => i.message).join(', ') } },
+      400,
+    );
+  }
+
+  const db = getDB(c);
+  const base = ruleSettings(await getInstantBookingRule(db, user.id));
+  const updated = await upsertInstantBookingRule(db, user.id, ALL_TRIPS, { ...base, ...parsed.data });
+  return c.json(updated);
+});
+
 // ---------------------------------------------------------------------------
 // POST /tos-accept
 // ---------------------------------------------------------------------------
@@ -574,7 +679,7 @@ userRoutes.get('/export', async (c) => {
 
   try {
     // Fetch all user data in parallel
-    const [userData, trips, auditLogs, participants] = await db.batch([
+    const [userData, trips, auditLogs, participants, driverProfile] = await db.batch([
       db.prepare('SELECT * FROM users WHERE id = ?').bind(user.id),
       db.prepare(`
         SELECT t.* FROM trips t
@@ -594,6 +699,11 @@ userRoutes.get('/export', async (c) => {
         WHERE tp.user_id = ?
         ORDER BY tp.created_at DESC
       `).bind(user.id),
+      db.prepare(`
+        SELECT gender, share_gender_for_matching, created_at, updated_at
+        FROM driver_attribute_profiles
+        WHERE user_id = ?
+      `).bind(user.id),
     ]);
 
     const userRecord = (userData.results ?? [])[0] as ExportUserRow | undefined;
@@ -628,6 +738,7 @@ userRoutes.get('/export', async (c) => {
         asPassenger: participants.results ?? [],
       },
       auditLogs: auditLogs.results ?? [],
+      driverProfile: (driverProfile?.results ?? [])[0] ?? null,
     };
 
     // Log export request
@@ -786,6 +897,9 @@ userRoutes.delete('/account', async (c) => {
       WHERE user_id = ?
     `).bind(user.id).run();
 
+    // Remove opt-in driver attributes
+    await db.prepare('DELETE FROM driver_attribute_profiles WHERE user_id = ?').bind(user.id).run();
+
     // Log deletion request
     try {
       await db.prepare(`
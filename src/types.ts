@@ -117,6 +117,12 @@ export interface Bindings {
   ENVIRONMENT: string;
   APP_URL: string;
   API_VERSION: string;
+  /** Road routing backend: 'straight_line' (default), 'mapbox' or 'osrm'. */
+  ROUTING_PROVIDER?: string;
+  /** Base URL of an OSRM-compatible routing server (e.g. http://osrm:5000). */
+  OSRM_URL?: string;
+  /** Set to 'off' to stop keeping trip location breadcrumbs. */
+  LOCATION_BREADCRUMBS?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -369,6 +375,8 @@ export interface MonthlySubscriptionRow {
   default_dropoff_lng: number | null;
   default_pickup_encrypted: string | null;
   default_dropoff_encrypted: string | null;
+  default_pickup_place_id: number | null;
+  default_dropoff_place_id: number | null;
   estimated_km_per_month: number;
   estimated_amount_cents: number;
   estimated_days: number;
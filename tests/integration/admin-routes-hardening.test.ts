@@ -1,4 +1,4 @@
-import { describe, expect, test } from 'vitest';
+import { afterEach, describe, expect, test, vi } from 'vitest';
 import app from '../../src/index';
 import { createToken } from '../../src/middleware/auth';
 import type { JWTPayload } from '../../src/types';
@@ -105,6 +105,10 @@ async function authToken(userId: number, role: 'user' | 'admin' | 'super_admin'
   return createToken(payload, baseEnv.JWT_SECRET);
 }
 
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
 describe('Admin route hardening contracts', () => {
   test('admin stats returns 500 when DB batch fails', async () => {
     const token = await authToken(1, 'admin');
@@ -659,4 +663,64 @@ describe('Admin route hardening contracts', () => {
     expect(body.completedAt).toBeTruthy();
     expect(cronAuditWrites).toBe(1);
   });
+
+  test('admin releases the payout of an unverified boarding and records the release', async () => {
+    const token = await authToken(1, 'admin');
+    const runCalls: Array<{ query: string; params: unknown[] }> = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('FROM trip_participants tp') && query.includes('WHERE tp.id = ?') && kind === 'first') {
+        return {
+          id: 12, trip_id: 3, role: 'rider', status: 'completed', boarded_at: null, payout_released_at: null,
+          passenger_count: 1, amount_paid: 100, payment_status: 'paid', payout_status: null, price_per_seat: 100,
+          stripe_connect_account_id: 'acct_driver', stripe_connect_enabled: 1,
+        };
+      }
+      if (kind === 'run') runCalls.push({ query, params: [...params] });
+      return null;
+    });
+    const stripeCalls: string[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+      stripeCalls.push(String(init?.body ?? ''));
+      return new Response(JSON.stringify({ id: `tr_${url.split('/').pop()}` }));
+    }));
+
+    const res = await app.request(
+      '/api/admin/bookings/12/release-payout',
+      { method: 'POST', headers: { Authorization: `Bearer ${token}` } },
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as { tripId?: number; payoutStatus?: string };
+    expect(body).toMatchObject({ tripId: 3, payoutStatus: 'transferred' });
+    const release = runCalls.find((call) => call.query.includes('SET payout_released_at = ?'));
+    expect(release?.params.slice(1)).toEqual([1, 12]);
+    expect(runCalls.some((call) => call.query.includes('INSERT INTO audit_logs') && call.params[1] === 'ADMIN_PAYOUT_RELEASED')).toBe(true);
+    expect(stripeCalls).toHaveLength(1);
+    expect(stripeCalls[0]).toContain('amount=8500');
+    expect(runCalls.some((call) => call.query.includes("payout_status = 'transferred'"))).toBe(true);
+  });
+
+  test('admin cannot release the payout of a verified boarding', async () => {
+    const token = await authToken(1, 'admin');
+    const db = new MockDB((query, _params, kind) => {
+      if (query.includes('WHERE tp.id = ?') && kind === 'first') {
+        return {
+          id: 12, trip_id: 3, role: 'rider', status: 'completed', boarded_at: '2026-03-02T07:01:00.000Z',
+          payout_released_at: null, payment_status: 'paid', payout_status: 'transferred',
+        };
+      }
+      return null;
+    });
+
+    const res = await app.request(
+      '/api/admin/bookings/12/release-payout',
+      { method: 'POST', headers: { Authorization: `Bearer ${token}` } },
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+
+    expect(res.status).toBe(409);
+    const body = (await res.json()) as { error?: { code?: string } };
+    expect(body.error?.code).toBe('CONFLICT');
+  });
 });
@@ -62,10 +62,12 @@ const {
   findCandidateDriversMock,
   saveMatchResultMock,
   updateRiderRequestStatusMock,
+  createDriverTripMock,
   matchRiderToDriversMock,
   sendPushNotificationMock,
   sendEmailMock,
   createTransferMock,
+  createRefundMock,
   loggerInfoMock,
   loggerWarnMock,
 } = vi.hoisted(() => ({
@@ -73,10 +75,12 @@ const {
   findCandidateDriversMock: vi.fn(),
   saveMatchResultMock: vi.fn(),
   updateRiderRequestStatusMock: vi.fn(),
+  createDriverTripMock: vi.fn(),
   matchRiderToDriversMock: vi.fn(),
   sendPushNotificationMock: vi.fn(),
   sendEmailMock: vi.fn(),
   createTransferMock: vi.fn(),
+  createRefundMock: vi.fn(),
   loggerInfoMock: vi.fn(),
   loggerWarnMock: vi.fn(),
 }));
@@ -97,6 +101,7 @@ vi.mock('../../src/lib/matching', () => {
     findCandidateDrivers = findCandidateDriversMock;
     saveMatchResult = saveMatchResultMock;
     updateRiderRequestStatus = updateRiderRequestStatusMock;
+    createDriverTrip = createDriverTripMock;
   }
 
   return {
@@ -129,6 +134,10 @@ vi.mock('../../src/integrations/stripe', () => {
     async createTransfer(...args: unknown[]) {
       return createTransferMock(...args);
     }
+
+    async createRefund(...args: unknown[]) {
+      return createRefundMock(...args);
+    }
   }
 
   return { StripeService };
@@ -139,6 +148,10 @@ import {
   sendTripReminders,
   cleanupExpiredSessions,
   retryFailedPayouts,
+  retryDriverCompensation,
+  materialiseTripTemplates,
+  detectNoShows,
+  expirePendingBookings,
   runDailyTasks,
   runHourlyTasks,
 } from '../../src/lib/cron';
@@ -181,6 +194,7 @@ beforeEach(() => {
     matches: [{ driverTripId: 'driver-trip-1', riderRequestId: 'subday:9' }],
   });
   createTransferMock.mockResolvedValue({ id: 'tr_default' });
+  createRefundMock.mockResolvedValue({ id: 're_default' });
 });
 
 describe('batchMatchSubscriptionDays', () => {
@@ -287,6 +301,40 @@ describe('batchMatchSubscriptionDays', () => {
       expect.any(Object),
     );
   });
+
+  test('matches mornings first, then evenings whose morning leg is confirmed', async () => {
+    const db = new MockDB((query, _params, kind) => {
+      if (query.includes('FROM monthly_scheduled_days') && kind === 'all') {
+        return [
+          makeScheduledDay({ id: 10, subscription_id: 2, trip_type: 'evening', departure_time: '16:30' }),
+          makeScheduledDay({ id: 11, trip_type: 'evening', departure_time: '17:00' }),
+          makeScheduledDay({ id: 9 }),
+        ];
+      }
+      return null;
+    });
+
+    await batchMatchSubscriptionDays(makeEnv(db, new MockKV()));
+    expect(createRiderRequestMock.mock.calls.map((call) => call[0])).toEqual(['subday:9', 'subday:11', 'subday:10']);
+  });
+
+  test('an evening whose morning was matched in an earlier run goes first', async () => {
+    let daysQuery = '';
+    const db = new MockDB((query, _params, kind) => {
+      if (query.includes('FROM monthly_scheduled_days') && kind === 'all') {
+        daysQuery = query;
+        return [
+          makeScheduledDay({ id: 10, subscription_id: 2, trip_type: 'evening', departure_time: '16:30' }),
+          makeScheduledDay({ id: 11, trip_type: 'evening', departure_time: '17:00', morning_confirmed: 1 }),
+        ];
+      }
+      return null;
+    });
+
+    await batchMatchSubscriptionDays(makeEnv(db, new MockKV()));
+    expect(daysQuery).toContain('morning_confirmed DESC');
+    expect(createRiderRequestMock.mock.calls.map((call) => call[0])).toEqual(['subday:11', 'subday:10']);
+  });
 });
 
 describe('sendTripReminders', () => {
@@ -504,6 +552,366 @@ describe('retryFailedPayouts', () => {
   });
 });
 
+describe('retryDriverCompensation', () => {
+  function compensationDb(
+    account: Record<string, unknown> | null,
+    runCalls: Array<{ query: string; params: unknown[] }>,
+    claimChanges = 1,
+  ) {
+    return new MockDB((query, params, kind) => {
+      if (query.includes('FROM trip_cancellations tc') && kind === 'all') {
+        return [{ id: 5, trip_id: 15, participant_id: 91, driver_compensation_cents: 1200, driver_id: 12 }];
+      }
+      if (query.includes('SELECT stripe_connect_account_id, stripe_connect_enabled FROM users') && kind === 'first') return account;
+      if (kind === 'run') {
+        runCalls.push({ query, params: [...params] });
+        if (query.includes('SET compensation_claimed_at = CURRENT_TIMESTAMP')) return { changes: claimChanges };
+      }
+      return null;
+    });
+  }
+
+  test('transfers pending compensation once the driver can receive payouts', async () => {
+    const runCalls: Array<{ query: string; params: unknown[] }> = [];
+    createTransferMock.mockResolvedValueOnce({ id: 'tr_comp_1' });
+
+    await retryDriverCompensation(makeEnv(compensationDb({ stripe_connect_account_id: 'acct_12', stripe_connect_enabled: 1 }, runCalls), new MockKV()));
+
+    expect(createTransferMock).toHaveBeenCalledWith(
+      1200,
+      'zar',
+      'acct_12',
+      expect.objectContaining({ tripId: '15', participantId: '91', reason: 'late_cancellation' }),
+    );
+    expect(runCalls[0].query).toContain('SET compensation_claimed_at = CURRENT_TIMESTAMP');
+    const update = runCalls.find((call) => call.query.includes('SET compensation_status = ?'));
+    expect(update?.query).toContain('compensation_claimed_at = NULL');
+    expect(update?.params).toEqual(['transferred', 'tr_comp_1', 5]);
+  });
+
+  test('leaves compensation pending while the driver has no payout account', async () => {
+    const runCalls: Array<{ query: string; params: unknown[] }> = [];
+
+    await retryDriverCompensation(makeEnv(compensationDb(null, runCalls), new MockKV()));
+
+    expect(createTransferMock).not.toHaveBeenCalled();
+    expect(runCalls.some((call) => call.query.includes('SET compensation_status'))).toBe(false);
+    const release = runCalls.find((call) => call.query.includes('SET compensation_claimed_at = NULL'));
+    expect(release?.params).toEqual([5]);
+  });
+
+  test('skips compensation another run has already claimed', async () => {
+    const runCalls: Array<{ query: string; params: unknown[] }> = [];
+
+    await retryDriverCompensation(makeEnv(
+      compensationDb({ stripe_connect_account_id: 'acct_12', stripe_connect_enabled: 1 }, runCalls, 0),
+      new MockKV(),
+    ));
+
+    expect(createTransferMock).not.toHaveBeenCalled();
+    expect(runCalls).toHaveLength(1);
+  });
+});
+
+describe('materialiseTripTemplates', () => {
+  const templateRow = {
+    id: 4,
+    driver_id: 12,
+    organization_id: null,
+    recurring_weekdays: '[1,2,3,4,5,6,7]',
+    departure_time: '23:59',
+    skip_dates: '[]',
+    starts_on: null,
+    ends_on: null,
+    origin_lat: -33.9249,
+    origin_lng: 18.4241,
+    origin_address: 'Cape Town CBD',
+    destination_lat: -33.9,
+    destination_lng: 18.63,
+    destination_address: 'Bellville',
+    route_polyline_encoded: null,
+    available_seats: 3,
+    vehicle_json: '{"make":"Toyota","model":"Corolla","licensePlate":"CA 123-456"}',
+    trip_type: 'daily',
+    notes: null,
+    status: 'active',
+    created_at: '2026-03-01 10:00:00',
+    updated_at: '2026-03-01 10:00:00',
+  };
+
+  test('returns early when env.DB is undefined', async () => {
+    await materialiseTripTemplates(makeEnv(undefined));
+    expect(createDriverTripMock).not.toHaveBeenCalled();
+  });
+
+  test('creates a trip and driver offer for each newly claimed date', async () => {
+    const runCalls: Array<{ query: string; params: unknown[] }> = [];
+    let nextTripId = 100;
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('FROM driver_trip_templates') && kind === 'all') return [templateRow];
+      if (kind === 'run') {
+        runCalls.push({ query, params });
+        if (query.includes('INSERT INTO trips')) return { changes: 1, last_row_id: nextTripId++ };
+        return { changes: 1 };
+      }
+      return null;
+    });
+
+    await materialiseTripTemplates(makeEnv(db, new MockKV()));
+
+    const claims = runCalls.filter((c) => c.query.includes('INSERT OR IGNORE INTO driver_trip_template_occurrences'));
+    const trips = runCalls.filter((c) => c.query.includes('INSERT INTO trips'));
+    expect(claims.length).toBeGreaterThanOrEqual(14);
+    expect(trips).toHaveLength(claims.length);
+    expect(createDriverTripMock).toHaveBeenCalledTimes(claims.length);
+    expect(createDriverTripMock.mock.calls[0][1]).toBe(12);
+    expect(createDriverTripMock.mock.calls[0][2]).toMatchObject({ availableSeats: 3, totalSeats: 3 });
+
+    const linked = runCalls.find((c) => c.query.includes("SET trip_id = ?, driver_trip_id = ?, status = 'scheduled'"));
+    expect(linked?.params[0]).toBe(100);
+    expect(loggerInfoMock).toHaveBeenCalledWith(
+      'Trip templates materialised',
+      expect.objectContaining({ templates: 1, created: claims.length }),
+    );
+  });
+
+  test('skips dates that were already materialised', async () => {
+    const runCalls: string[] = [];
+    const db = new MockDB((query, _params, kind) => {
+      if (query.includes('FROM driver_trip_templates') && kind === 'all') return [templateRow];
+      if (kind === 'run') {
+        runCalls.push(query);
+        return { changes: 0 };
+      }
+      return null;
+    });
+
+    await materialiseTripTemplates(makeEnv(db, new MockKV()));
+
+    expect(runCalls.some((q) => q.includes('INSERT INTO trips'))).toBe(false);
+    expect(createDriverTripMock).not.toHaveBeenCalled();
+  });
+
+  test('releases the claimed slot when trip creation fails', async () => {
+    const runCalls: string[] = [];
+    const db = new MockDB((query, _params, kind) => {
+      if (query.includes('FROM driver_trip_templates') && kind === 'all') return [templateRow];
+      if (kind === 'run') {
+        runCalls.push(query);
+        if (query.includes('INSERT INTO trips')) throw new Error('constraint failed');
+        return { changes: 1 };
+      }
+      return null;
+    });
+
+    await materialiseTripTemplates(makeEnv(db, new MockKV()));
+
+    expect(runCalls.some((q) => q.includes("DELETE FROM driver_trip_template_occurrences") && q.includes("status = 'pending'"))).toBe(true);
+    expect(loggerWarnMock).toHaveBeenCalledWith(
+      'materialiseTemplate: occurrence failed',
+      expect.objectContaining({ templateId: 4, error: 'constraint failed' }),
+    );
+  });
+
+  test('removes the trip it already created when a later step fails', async () => {
+    const runCalls: Array<{ query: string; params: unknown[] }> = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('FROM driver_trip_templates') && kind === 'all') return [templateRow];
+      if (kind === 'run') {
+        runCalls.push({ query, params });
+        if (query.includes('INSERT INTO trips')) return { changes: 1, last_row_id: 100 };
+        return { changes: 1 };
+      }
+      return null;
+    });
+    createDriverTripMock.mockRejectedValueOnce(new Error('index failed'));
+
+    await materialiseTripTemplates(makeEnv(db, new MockKV()));
+
+    const driverTripId = createDriverTripMock.mock.calls[0][0];
+    expect(runCalls.find((c) => c.query.startsWith('DELETE FROM trips WHERE id'))?.params).toEqual([100]);
+    expect(runCalls.find((c) => c.query.startsWith('DELETE FROM trip_participants'))?.params).toEqual([100]);
+    expect(runCalls.find((c) => c.query.startsWith('DELETE FROM driver_trips WHERE id'))?.params).toEqual([driverTripId]);
+    // Only the failed date is released
+    const released = runCalls.filter((c) => c.query.includes('DELETE FROM driver_trip_template_occurrences'));
+    expect(released).toHaveLength(1);
+  });
+});
+
+describe('detectNoShows', () => {
+  const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60_000).toISOString();
+
+  function riderRow(partial: Record<string, unknown> = {}) {
+    return {
+      participant_id: 31,
+      trip_id: 7,
+      user_id: 44,
+      passenger_count: 1,
+      payment_status: 'paid',
+      payment_intent_id: 'pi_noshow',
+      amount_paid: 120,
+      split_fare_cents: null,
+      driver_arrived_at: minutesAgo(10),
+      rider_arrived_at: null,
+      price_per_seat: 120,
+      departure_time: minutesAgo(5),
+      driver_id: 9,
+      organization_id: null,
+      ...partial,
+    };
+  }
+
+  test('charges riders the no-show fee once the grace period has passed', async () => {
+    const runCalls: Array<{ query: string; params: unknown[] }> = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('tp.driver_arrived_at <= ?') && kind === 'all') {
+        return [riderRow(), riderRow({ participant_id: 32, user_id: 45, driver_arrived_at: minutesAgo(2) })];
+      }
+      if (query.includes('SELECT stripe_connect_account_id') && kind === 'first') {
+        return { stripe_connect_account_id: 'acct_driver', stripe_connect_enabled: 1 };
+      }
+      if (kind === 'run') runCalls.push({ query, params });
+      return null;
+    });
+
+    await detectNoShows(makeEnv(db, new MockKV()));
+
+    const claims = runCalls.filter((c) => c.query.includes('no_show_at = ?'));
+    expect(claims.map((c) => c.params[1])).toEqual([31]);
+    expect(createRefundMock).not.toHaveBeenCalled();
+    expect(createTransferMock).toHaveBeenCalledWith(10200, 'zar', 'acct_driver', expect.objectContaining({ participantId: '31' }));
+
+    const event = runCalls.find((c) => c.query.includes('INSERT INTO no_show_events'));
+    expect(event?.params).toEqual([7, 31, 44, 'rider', 'cron', 5]);
+    expect(runCalls.some((c) => c.query.includes('UPDATE users SET reliability_score'))).toBe(true);
+    expect(loggerInfoMock).toHaveBeenCalledWith('No-shows flagged', { riders: 1, drivers: 0 });
+  });
+
+  test('cancels trips whose driver sent no location before departure and refunds riders', async () => {
+    const runCalls: Array<{ query: string; params: unknown[] }> = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('t.driver_no_show_at IS NULL') && kind === 'all') {
+        return [
+          { id: 7, driver_id: 9, title: 'Morning run', departure_time: minutesAgo(30), last_location_at: null, organization_id: null },
+          { id: 8, driver_id: 10, title: 'Tracked run', departure_time: minutesAgo(30), last_location_at: minutesAgo(35), organization_id: null },
+        ];
+      }
+      if (query.includes('WHERE tp.trip_id = ? AND tp.role') && kind === 'all') {
+        return [{ participant_id: 31, user_id: 44, passenger_count: 1, payment_status: 'paid', payment_intent_id: 'pi_full', amount_paid: 80, split_fare_cents: null, price_per_seat: 80 }];
+      }
+      if (kind === 'run') runCalls.push({ query, params });
+      return null;
+    });
+
+    await detectNoShows(makeEnv(db, new MockKV()));
+
+    const cancelled = runCalls.filter((c) => c.query.includes('driver_no_show_at = ?'));
+    expect(cancelled.map((c) => c.params[1])).toEqual([7]);
+    expect(createRefundMock).toHaveBeenCalledWith('pi_full', 8000);
+    const event = runCalls.find((c) => c.query.includes('INSERT INTO no_show_events'));
+    expect(event?.params).toEqual([7, null, 9, 'driver', 'cron', 15]);
+    expect(loggerInfoMock).toHaveBeenCalledWith('No-shows flagged', { riders: 0, drivers: 1 });
+  });
+});
+
+describe('expirePendingBookings', () => {
+  const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60_000).toISOString();
+  const hoursAhead = (hours: number) => new Date(Date.now() + hours * 60 * 60_000).toISOString();
+
+  function pendingRow(partial: Record<string, unknown> = {}) {
+    return {
+      participant_id: 51,
+      trip_id: 7,
+      user_id: 44,
+      passenger_count: 1,
+      requested_at: hoursAgo(13),
+      response_reminders_sent: 1,
+      pickup_location_encrypted: JSON.stringify({ lat: -26.2, lng: 28.04 }),
+      dropoff_location_encrypted: JSON.stringify({ lat: -26.1, lng: 28.03 }),
+      pickup_point_encrypted: null,
+      driver_id: 9,
+      driver_email: 'driver@example.com',
+      title: 'Morning run',
+      origin: 'Rosebank',
+      destination: 'Sandton',
+      departure_time: hoursAhead(20),
+      organization_id: null,
+      ...partial,
+    };
+  }
+
+  test('sends the final reminder with an email once, before the deadline', async () => {
+    const runCalls: Array<{ query: string; params: unknown[] }> = [];
+    const pendingQueries: Array<{ query: string; params: unknown[] }> = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes("WHERE tp.status = 'requested'") && kind === 'all') {
+        pendingQueries.push({ query, params });
+        return [
+          pendingRow({ requested_at: hoursAgo(10) }),
+          pendingRow({ participant_id: 52, requested_at: hoursAgo(2), response_reminders_sent: 0 }),
+        ];
+      }
+      if (kind === 'run') runCalls.push({ query, params });
+      return null;
+    });
+
+    await expirePendingBookings(makeEnv(db, new MockKV()));
+
+    // The batch takes the earliest deadlines first, organisation policies included
+    expect(pendingQueries[0]?.query).toContain('LEFT JOIN cancellation_policies cp');
+    expect(pendingQueries[0]?.query).toMatch(/ORDER BY MIN\(\s*julianday\(tp\.requested_at\)/);
+    expect(pendingQueries[0]?.params).toEqual([12]);
+
+    const claims = runCalls.filter((c) => c.query.includes('SET response_reminders_sent'));
+    expect(claims.map((c) => c.params)).toEqual([[2, 51]]);
+    expect(sendPushNotificationMock).toHaveBeenCalledWith(expect.anything(), db, 9, expect.objectContaining({ title: 'Booking request expires soon' }));
+    expect(sendEmailMock).toHaveBeenCalledWith('driver@example.com', 'Booking request expires soon', expect.any(String));
+    expect(runCalls.some((c) => c.query.includes("status = 'rejected'"))).toBe(false);
+    expect(loggerInfoMock).toHaveBeenCalledWith('Pending booking requests processed', { reminded: 1, expired: 0 });
+  });
+
+  test('expires unanswered requests, promotes the waitlist and suggests alternatives', async () => {
+    const runCalls: Array<{ query: string; params: unknown[] }> = [];
+    let alternativeParams: unknown[] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes("WHERE tp.status = 'requested'") && kind === 'all') return [pendingRow()];
+      if (query.includes('SELECT id, driver_id, status, available_seats, title, departure_time FROM trips')) {
+        return { id: 7, driver_id: 9, status: 'scheduled', available_seats: 1, title: 'Morning run', departure_time: hoursAhead(20) };
+      }
+      if (query.includes('FROM trip_waitlist w') && kind === 'first') {
+        return {
+          id: 3, user_id: 45, passenger_count: 1, segment_start_km: null, segment_end_km: null,
+          pickup_point_encrypted: 'enc-pickup', email: 'next@example.com', first_name_encrypted: null,
+        };
+      }
+      if (query.includes('AND t.driver_id NOT IN') && kind === 'all') {
+        alternativeParams = params;
+        return [{ id: 12, driver_id: 10, title: 'Later run', origin: '{"lat":-26.21,"lng":28.05}', destination: '{"lat":-26.1,"lng":28.03}', departure_time: hoursAhead(21), available_seats: 2, total_seats: 3, price_per_seat: 60, route_distance_km: 14 }];
+      }
+      if (kind === 'run') runCalls.push({ query, params });
+      return null;
+    });
+    matchRiderToDriversMock.mockReturnValue({ matches: [{ driverTripId: '12', score: 0.2 }] });
+
+    await expirePendingBookings(makeEnv(db, new MockKV()));
+
+    const expired = runCalls.find((c) => c.query.includes("SET status = 'rejected', expired_at = ?"));
+    expect(expired?.params[1]).toBe(51);
+    expect(alternativeParams.slice(0, 4)).toEqual([7, 9, 44, 1]);
+    expect(runCalls.some((c) => c.query.includes("SET status = 'promoted'"))).toBe(true);
+    const promotedBooking = runCalls.find((c) => c.query.includes('INSERT INTO trip_participants'));
+    expect(promotedBooking?.params).toEqual([7, 45, 1, 'enc-pickup']);
+
+    const riderNotice = runCalls.find((c) => c.query.includes('INSERT INTO notifications') && c.params.includes(44));
+    expect(riderNotice?.params).toContain('booking_rejected');
+    const metadata = JSON.parse(String(riderNotice?.params.find((p) => typeof p === 'string' && p.includes('alternatives'))));
+    expect(metadata.alternatives).toEqual([
+      { tripId: 12, title: 'Later run', departureTime: expect.any(String), availableSeats: 2, pricePerSeat: 60, matchScore: 0.2 },
+    ]);
+    expect(loggerInfoMock).toHaveBeenCalledWith('Pending booking requests processed', { reminded: 0, expired: 1 });
+  });
+});
+
 describe('runDailyTasks / runHourlyTasks orchestrators', () => {
   test('runDailyTasks resolves even when all subtasks fail', async () => {
     // DB is undefined — all three tasks return early without error
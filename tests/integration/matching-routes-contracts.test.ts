@@ -192,6 +192,22 @@ describe('Matching routes contract tests', () => {
     expect(res.status).toBe(400);
   });
 
+  test('POST /matching/batch returns 400 for an unknown strategy', async () => {
+    const token = await authToken(1, 'admin', 'org-a');
+    const res = await app.request(
+      '/api/matching/batch',
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ strategy: 'random' }),
+      },
+      { ...baseEnv, DB: new MockDB(() => null), CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(400);
+    const body = await res.json() as { error?: { code?: string } };
+    expect(body.error?.code).toBe('VALIDATION_ERROR');
+  });
+
   // ── Business-logic guards ─────────────────────────────────────────────────
 
   test('POST /matching/confirm returns 404 for unknown matchId', async () => {
@@ -302,6 +318,61 @@ describe('Matching routes contract tests', () => {
     expect(body.matches?.length).toBe(0);
   });
 
+  test('POST /matching/confirm holds seats only on the legs a multi-stop rider travels', async () => {
+    const token = await authToken(88);
+    const holds: unknown[][] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('FROM match_results') && kind === 'first') {
+        return { id: 'match-1', driver_trip_id: 'dt-1', rider_request_id: 'rr-1', driver_id: 77, rider_id: 88, status: 'pending' };
+      }
+      if (query.includes('FROM rider_requests') && kind === 'first') {
+        return {
+          id: 'rr-1', rider_id: 88, organization_id: null,
+          pickup_lat: -26.15, pickup_lng: 28.0473, dropoff_lat: -26.1041, dropoff_lng: 28.0473,
+          earliest_departure: 1700000000000, latest_departure: 1700003600000, latest_arrival: null,
+          seats_needed: 1, preferences_json: null, status: 'pending', matched_driver_trip_id: null, matched_at: null,
+          created_at: '2026-01-01T00:00:00.000Z', updated_at: '2026-01-01T00:00:00.000Z',
+        };
+      }
+      if (query.includes('FROM driver_trips') && kind === 'first') {
+        return {
+          id: 'dt-1', driver_id: 77, organization_id: null,
+          departure_lat: -26.2041, departure_lng: 28.0473, destination_lat: -26.1041, destination_lng: 28.0473,
+          shift_lat: null, shift_lng: null, departure_time: 1700000000000, arrival_time: null,
+          available_seats: 1, total_seats: 1,
+          bbox_min_lat: null, bbox_max_lat: null, bbox_min_lng: null, bbox_max_lng: null,
+          route_polyline_encoded: null, route_distance_km: null, status: 'offered', driver_rating: null, vehicle_json: null,
+          waypoints_json: JSON.stringify([{ lat: -26.1541, lng: 28.0473 }]),
+          created_at: '2026-01-01T00:00:00.000Z', updated_at: '2026-01-01T00:00:00.000Z',
+        };
+      }
+      if (query.includes('INSERT INTO driver_trip_seat_holds') && kind === 'run') {
+        holds.push(params);
+        return { changes: 1 };
+      }
+      if (query.includes('available_seats = available_seats - 1')) throw new Error('whole-trip reservation used');
+      return null;
+    });
+
+    const res = await app.request(
+      '/api/matching/confirm',
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ matchId: 'match-1', driverTripId: 'dt-1', riderRequestId: 'rr-1' }),
+      },
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+
+    expect(res.status).toBe(200);
+    // Rider boards at the waypoint, so only the second leg is held
+    expect(holds).toHaveLength(1);
+    expect(holds[0].slice(0, 5)).toEqual(['dt-1', 'match-1', 1, 1, 1]);
+    // ...and only from the pickup, ~6 km in, to the end of the ~11 km route
+    expect(holds[0][5]).toBeCloseTo(6.02, 1);
+    expect(holds[0][6]).toBeCloseTo(11.12, 1);
+  });
+
   test('GET /matching/stats returns 200 for admin', async () => {
     const token = await authToken(1, 'admin');
     const db = new MockDB((query, _params, kind) => {
@@ -316,4 +387,67 @@ describe('Matching routes contract tests', () => {
     );
     expect(res.status).toBe(200);
   });
+
+  test('POST /matching/simulate returns 403 for non-admin', async () => {
+    const token = await authToken(1, 'user', 'org-a');
+    const res = await app.request(
+      '/api/matching/simulate',
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from: 1, to: 2, config: {} }),
+      },
+      { ...baseEnv, DB: new MockDB(() => null), CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(403);
+  });
+
+  test('POST /matching/simulate diffs the candidate config against the org config', async () => {
+    const token = await authToken(1, 'admin', 'org-a');
+    const windowQueries: unknown[][] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('FROM matching_config') && kind === 'first') {
+        return { config_json: JSON.stringify({ maxResults: 5 }) };
+      }
+      if ((query.includes('FROM rider_requests') || query.includes('FROM driver_trips')) && kind === 'all') {
+        windowQueries.push(params);
+        return [];
+      }
+      return null;
+    });
+    const from = Date.UTC(2026, 0, 5);
+    const res = await app.request(
+      '/api/matching/simulate',
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from, to: from + 86_400_000, config: { thresholds: { maxPickupDistanceKm: 3 } } }),
+      },
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(200);
+    const body = await res.json() as {
+      configChanges?: Array<{ path: string; baseline: unknown; candidate: unknown }>;
+      diff?: { matchRate?: number };
+    };
+    expect(body.configChanges).toEqual([{ path: 'thresholds.maxPickupDistanceKm', baseline: 2, candidate: 3 }]);
+    expect(body.diff?.matchRate).toBe(0);
+    expect(windowQueries).toHaveLength(2);
+    expect(windowQueries.every((params) => params.includes('org-a'))).toBe(true);
+  });
+
+  test('POST /matching/simulate rejects windows longer than 31 days', async () => {
+    const token = await authToken(1, 'admin', 'org-a');
+    const res = await app.request(
+      '/api/matching/simulate',
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from: 1, to: 1 + 32 * 86_400_000, config: {} }),
+      },
+      { ...baseEnv, DB: new MockDB(() => null), CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(400);
+  });
 });
+
@@ -42,6 +42,12 @@ class MockDB {
   prepare(query: string) {
     return new MockStmt(query, this.resolver);
   }
+
+  async batch(statements: MockStmt[]) {
+    const out = [];
+    for (const stmt of statements) out.push(await stmt.run());
+    return out;
+  }
 }
 
 class MockKV {
@@ -7,9 +7,10 @@
  *   - Idempotency (webhook replay via KV and DB)
  *   - DB unavailability (fails closed at 500)
  *   - Stripe webhook event processing (payment_intent.succeeded, .failed, .canceled)
+ *   - Pooled fare split charged instead of the seat price
  */
 
-import { describe, expect, test } from 'vitest';
+import { afterEach, describe, expect, test, vi } from 'vitest';
 import app from '../../src/index';
 import { createToken } from '../../src/middleware/auth';
 import type { JWTPayload } from '../../src/types';
@@ -89,6 +90,10 @@ function stripeEvent(type: string, paymentIntentId: string, extra: Record<string
   });
 }
 
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
 // ---------------------------------------------------------------------------
 // Tests
 // ---------------------------------------------------------------------------
@@ -461,4 +466,117 @@ describe('Payments routes contract tests', () => {
     const body = await res.json() as { error?: { code?: string } };
     expect(body.error?.code).toBe('NOT_FOUND');
   });
+  test('POST /payments/intent charges a pooled rider their split of the fare', async () => {
+    const token = await authToken(1);
+    const splitUpdates: unknown[][] = [];
+    const stops = [
+      { type: 'pickup', riderId: '1', location: { lat: -33.9, lng: 18.42 }, distanceFromPrevKm: 1 },
+      { type: 'pickup', riderId: '2', location: { lat: -33.91, lng: 18.42 }, distanceFromPrevKm: 2 },
+      { type: 'dropoff', riderId: '1', location: { lat: -33.98, lng: 18.42 }, distanceFromPrevKm: 8 },
+      { type: 'dropoff', riderId: '2', location: { lat: -34.02, lng: 18.42 }, distanceFromPrevKm: 4 },
+    ];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('FROM trip_participants tp') && query.includes('JOIN trips t') && kind === 'first') {
+        return { id: 42, price_per_seat: 50, title: 'Pooled trip', driver_id: 7, split_fare_cents: null, payment_intent_id: null, payment_status: 'unpaid' };
+      }
+      if (query.includes('FROM trips t') && query.includes('LEFT JOIN users u') && kind === 'first') {
+        return { id: 10, driver_id: 7, departure_time: '2026-03-02T05:30:00Z', price_per_seat: 50, route_distance_km: 20, trip_type: 'daily', organization_id: null };
+      }
+      if (query.includes('FROM driver_trip_template_occurrences') && kind === 'first') return { driver_trip_id: 'dt-1' };
+      if (query.includes('FROM pool_assignments') && kind === 'first') return { ordered_stops_json: JSON.stringify(stops) };
+      if (query.includes("status = 'accepted'") && kind === 'all') return [{ user_id: 1 }, { user_id: 2 }];
+      if (query.includes('SET split_fare_cents') && kind === 'run') {
+        splitUpdates.push(params);
+        return { changes: 1 };
+      }
+      if (kind === 'run') return { changes: 1 };
+      return null;
+    });
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      id: 'pi_pool_1', client_secret: 'cs_pool_1', amount: 2300, currency: 'zar', status: 'requires_payment_method',
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+    const env = { ...baseEnv, DB: db, CACHE: new MockKV() };
+    const request = (amount: number) => app.request(
+      '/api/payments/intent',
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tripId: 10, amount }),
+      },
+      env,
+    );
+
+    // The full seat price no longer matches
+    expect((await request(50)).status).toBe(400);
+
+    const res = await request(23);
+    expect(res.status).toBe(200);
+    const body = await res.json() as { amount?: number };
+    expect(body.amount).toBe(23);
+    expect(String((fetchMock.mock.calls[0] as unknown[])[0])).toContain('/payment_intents');
+    expect(splitUpdates.find((p) => p[4] === 1)?.slice(0, 2)).toEqual([2300, 8]);
+    expect(splitUpdates.find((p) => p[4] === 2)?.[0]).toBe(2800);
+  });
+
+  test('POST /payments/intent leaves pool riders who never booked out of the split', async () => {
+    const token = await authToken(1);
+    const splitUpdates: unknown[][] = [];
+    // Rider 3 was planned into the pool between riders 1 and 2 but never booked
+    const stops = [
+      { type: 'pickup', riderId: '1', location: { lat: -33.9, lng: 18.42 }, distanceFromPrevKm: 1 },
+      { type: 'pickup', riderId: '3', location: { lat: -33.905, lng: 18.42 }, distanceFromPrevKm: 1 },
+      { type: 'pickup', riderId: '2', location: { lat: -33.91, lng: 18.42 }, distanceFromPrevKm: 1 },
+      { type: 'dropoff', riderId: '1', location: { lat: -33.98, lng: 18.42 }, distanceFromPrevKm: 8 },
+      { type: 'dropoff', riderId: '3', location: { lat: -34.0, lng: 18.42 }, distanceFromPrevKm: 2 },
+      { type: 'dropoff', riderId: '2', location: { lat: -34.02, lng: 18.42 }, distanceFromPrevKm: 2 },
+    ];
+    let acceptedRiders = [{ user_id: 1 }, { user_id: 2 }];
+    let storedSplit: number | null = null;
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('FROM trip_participants tp') && query.includes('JOIN trips t') && kind === 'first') {
+        return { id: 42, price_per_seat: 50, title: 'Pooled trip', driver_id: 7, split_fare_cents: storedSplit, payment_intent_id: null, payment_status: 'unpaid' };
+      }
+      if (query.includes('FROM trips t') && query.includes('LEFT JOIN users u') && kind === 'first') {
+        return { id: 10, driver_id: 7, departure_time: '2026-03-02T05:30:00Z', price_per_seat: 50, route_distance_km: 20, trip_type: 'daily', organization_id: null };
+      }
+      if (query.includes('FROM driver_trip_template_occurrences') && kind === 'first') return { driver_trip_id: 'dt-1' };
+      if (query.includes('FROM pool_assignments') && kind === 'first') return { ordered_stops_json: JSON.stringify(stops) };
+      if (query.includes("status = 'accepted'") && kind === 'all') return acceptedRiders;
+      if (query.includes('SET split_fare_cents') && kind === 'run') {
+        splitUpdates.push(params);
+        return { changes: 1 };
+      }
+      if (kind === 'run') return { changes: 1 };
+      return null;
+    });
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+      id: 'pi_pool_2', client_secret: 'cs_pool_2', amount: 2300, currency: 'zar', status: 'requires_payment_method',
+    }))));
+    const env = { ...baseEnv, DB: db, CACHE: new MockKV() };
+    const request = (amount: number) => app.request(
+      '/api/payments/intent',
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tripId: 10, amount }),
+      },
+      env,
+    );
+
+    // Riders 1 and 2 split the same km as a pool planned for the two of them
+    expect((await request(23)).status).toBe(200);
+    expect(splitUpdates.map((p) => p[4])).toEqual([1, 2]);
+    expect(splitUpdates.find((p) => p[4] === 1)?.slice(0, 2)).toEqual([2300, 8]);
+    expect(splitUpdates.find((p) => p[4] === 2)?.[0]).toBe(2800);
+
+    // With rider 2 gone too, rider 1 rides alone: the stored share is
+    // cleared and the seat price is charged
+    acceptedRiders = [{ user_id: 1 }];
+    storedSplit = 2300;
+    splitUpdates.length = 0;
+    expect((await request(23)).status).toBe(400);
+    expect((await request(50)).status).toBe(200);
+    expect(splitUpdates).toEqual([[10], [10]]);
+  });
 });
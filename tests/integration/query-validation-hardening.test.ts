@@ -398,6 +398,26 @@ describe('Query and payload validation hardening', () => {
     expect(detourBody.error?.message).toContain('maxDetour');
   });
 
+  test('trip search rejects invalid filters and cursors', async () => {
+    const token = await authToken(10, 'user');
+    const env = { ...baseEnv, DB: new MockDB(() => null), CACHE: new MockKV() };
+    const base = '/api/trips/available?pickupLat=-26&pickupLng=28&dropoffLat=-26.1&dropoffLng=28.1';
+
+    for (const [query, field] of [
+      ['&vehicleType=bus', 'vehicleType'],
+      ['&minRating=9', 'minRating'],
+      ['&sort=distance', 'sort'],
+      ['&cursor=bogus', 'cursor'],
+      ['&organizationOnly=true', 'organizationOnly'],
+    ]) {
+      const res = await app.request(`${base}${query}`, { method: 'GET', headers: { Authorization: `Bearer ${token}` } }, env);
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as { error?: { code?: string; message?: string } };
+      expect(body.error?.code).toBe('VALIDATION_ERROR');
+      expect(body.error?.message).toContain(field);
+    }
+  });
+
   test('trip offer rejects invalid price payloads', async () => {
     const token = await authToken(10, 'user');
     const env = { ...baseEnv, DB: new MockDB(() => null), CACHE: new MockKV() };
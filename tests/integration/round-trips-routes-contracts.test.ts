@@ -0,0 +1,221 @@
+/**
+ * Integration contract tests for /api/round-trips.
+ *
+ * Tests cover:
+ *   - Auth boundaries (401 without token)
+ *   - Leg validation (same trip twice, evening before morning)
+ *   - Booking both legs in one batch, linked to the round trip
+ *   - Round trips are only visible to their rider (404)
+ *   - Confirmed legs are cancelled through the trips endpoint (409)
+ *
+ * Uses the same MockDB / MockKV pattern as trip-requests-routes-contracts.test.ts.
+ */
+
+import { describe, expect, test } from 'vitest';
+import app from '../../src/index';
+import { createToken } from '../../src/middleware/auth';
+import type { JWTPayload } from '../../src/types';
+
+// ---------------------------------------------------------------------------
+// Shared test infrastructure
+// ---------------------------------------------------------------------------
+
+type ResolverKind = 'first' | 'all' | 'run';
+type Resolver = (query: string, params: unknown[], kind: ResolverKind) => unknown;
+
+class MockStmt {
+  params: unknown[] = [];
+  constructor(public query: string, private resolver: Resolver) {}
+  bind(...values: unknown[]) { this.params = values; return this; }
+  async first<T>(): Promise<T | null> { return (this.resolver(this.query, this.params, 'first') ?? null) as T | null; }
+  async all<T>(): Promise<{ success: boolean; results?: T[] }> { return { success: true, results: (this.resolver(this.query, this.params, 'all') as T[]) ?? [] }; }
+  async run(): Promise<{ success: boolean; meta?: Record<string, unknown> }> { return { success: true, meta: (this.resolver(this.query, this.params, 'run') as Record<string, unknown>) ?? { last_row_id: 1, changes: 1 } }; }
+}
+
+class MockDB {
+  batches: MockStmt[][] = [];
+  constructor(private resolver: Resolver) {}
+  prepare(query: string) { return new MockStmt(query, this.resolver); }
+  async batch(statements: MockStmt[]) { this.batches.push(statements); return []; }
+}
+
+class MockKV {
+  private store = new Map<string, string>();
+  async get(key: string, type?: string) {
+    const val = this.store.get(key) ?? null;
+    if (type === 'json' && val !== null) { try { return JSON.parse(val); } catch { return null; } }
+    return val;
+  }
+  async put(key: string, value: string) { this.store.set(key, value); }
+  async delete(key: string) { this.store.delete(key); }
+  async list() { return { keys: [], list_complete: true, cursor: '' }; }
+}
+
+const baseEnv = {
+  JWT_SECRET: 'integration-secret-0123456789abcdef',
+  ENCRYPTION_KEY: '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
+  ENVIRONMENT: 'development',
+  APP_URL: 'http://localhost:3000',
+  API_VERSION: 'v1',
+  SESSIONS: new MockKV(),
+  RATE_LIMIT_KV: new MockKV(),
+} as const;
+
+async function authToken(userId: number) {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: JWTPayload = {
+    sub: userId,
+    email: `user${userId}@example.com`,
+    name: `User ${userId}`,
+    role: 'user',
+    iat: now,
+    exp: now + 3600,
+    type: 'access',
+  };
+  return createToken(payload, baseEnv.JWT_SECRET);
+}
+
+function jsonRequest(token: string, method: string, body?: unknown): RequestInit {
+  return {
+    method,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+  };
+}
+
+const HOME = { lat: -26.1076, lng: 28.0567, address: '12 Rivonia Road, Sandton' };
+const WORK = { lat: -26.1452, lng: 28.0419, address: 'Oxford Road, Rosebank' };
+
+const ROUND_TRIP_BODY = {
+  morning: { tripId: 21, pickupLocation: HOME, dropoffLocation: WORK },
+  evening: { tripId: 22 },
+};
+
+function tripRow(id: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    driver_id: id === 21 ? 11 : 12,
+    status: 'scheduled',
+    available_seats: 3,
+    departure_time: id === 21 ? '2026-11-02T07:30:00Z' : '2026-11-02T17:00:00Z',
+    title: id === 21 ? 'Sandton to Rosebank' : 'Rosebank to Sandton',
+    ...overrides,
+  };
+}
+
+function legRow(leg: 'morning' | 'evening', overrides: Record<string, unknown> = {}) {
+  const tripId = leg === 'morning' ? 21 : 22;
+  const trip = tripRow(tripId);
+  return {
+    booking_id: leg === 'morning' ? 31 : 32,
+    round_trip_id: 4,
+    round_trip_leg: leg,
+    trip_id: tripId,
+    status: 'requested',
+    passenger_count: 1,
+    driver_id: trip.driver_id,
+    title: trip.title,
+    departure_time: trip.departure_time,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Round-trip booking routes contract tests', () => {
+  test('round trips require authentication', async () => {
+    const env = { ...baseEnv, DB: new MockDB(() => null), CACHE: new MockKV() };
+    expect((await app.request('/api/round-trips', { method: 'GET' }, env)).status).toBe(401);
+    expect((await app.request('/api/round-trips', { method: 'POST' }, env)).status).toBe(401);
+  });
+
+  test('rejects the same trip for both legs', async () => {
+    const token = await authToken(7);
+    const res = await app.request(
+      '/api/round-trips',
+      jsonRequest(token, 'POST', { ...ROUND_TRIP_BODY, evening: { tripId: 21 } }),
+      { ...baseEnv, DB: new MockDB(() => null), CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(400);
+    const body = await res.json() as { error?: { code?: string } };
+    expect(body.error?.code).toBe('VALIDATION_ERROR');
+  });
+
+  test('rejects an evening trip that departs before the morning trip', async () => {
+    const token = await authToken(7);
+    const db = new MockDB((query, params) => {
+      if (query.includes('FROM trips WHERE id = ?')) {
+        return tripRow(params[0] as number, params[0] === 22 ? { departure_time: '2026-11-02T06:00:00Z' } : {});
+      }
+      return null;
+    });
+    const res = await app.request(
+      '/api/round-trips',
+      jsonRequest(token, 'POST', ROUND_TRIP_BODY),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(400);
+    const body = await res.json() as { error?: { message?: string } };
+    expect(body.error?.message).toContain('must depart after the morning trip');
+    expect(db.batches).toHaveLength(0);
+  });
+
+  test('books both legs in one batch, the evening leg reversing the morning journey', async () => {
+    const token = await authToken(7);
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('FROM trips WHERE id = ?')) return tripRow(params[0] as number);
+      if (query.includes('INSERT INTO round_trips') && kind === 'run') return { last_row_id: 4, changes: 1 };
+      if (query.includes('SELECT id, round_trip_leg FROM trip_participants')) {
+        return [{ id: 31, round_trip_leg: 'morning' }, { id: 32, round_trip_leg: 'evening' }];
+      }
+      if (query.includes('WHERE tp.round_trip_id IN')) return [legRow('evening'), legRow('morning')];
+      return null;
+    });
+    const res = await app.request(
+      '/api/round-trips',
+      jsonRequest(token, 'POST', ROUND_TRIP_BODY),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(201);
+    const body = await res.json() as { roundTrip: { id: number; legs: Array<{ leg: string; bookingId: number }> } };
+    expect(body.roundTrip.id).toBe(4);
+    expect(body.roundTrip.legs.map((leg) => leg.leg)).toEqual(['morning', 'evening']);
+
+    expect(db.batches).toHaveLength(1);
+    const [morning, evening] = db.batches[0].map((stmt) => stmt.params);
+    // trip, rider, pickup, dropoff ... round trip, leg
+    expect(morning.slice(0, 4)).toEqual([21, 7, HOME.address, WORK.address]);
+    expect(morning.slice(-2)).toEqual([4, 'morning']);
+    expect(evening.slice(0, 4)).toEqual([22, 7, WORK.address, HOME.address]);
+    expect(evening.slice(-2)).toEqual([4, 'evening']);
+  });
+
+  test("another rider's round trip is not found", async () => {
+    const token = await authToken(8);
+    const db = new MockDB((query) => {
+      if (query.includes('SELECT rider_id FROM round_trips')) return { rider_id: 7 };
+      if (query.includes('WHERE tp.round_trip_id IN')) return [legRow('morning'), legRow('evening')];
+      return null;
+    });
+    const res = await app.request('/api/round-trips/4', jsonRequest(token, 'GET'), { ...baseEnv, DB: db, CACHE: new MockKV() });
+    expect(res.status).toBe(404);
+  });
+
+  test('a confirmed leg cannot be withdrawn here', async () => {
+    const token = await authToken(7);
+    const updates: string[] = [];
+    const db = new MockDB((query, _params, kind) => {
+      if (query.includes('SELECT rider_id FROM round_trips')) return { rider_id: 7 };
+      if (query.includes('WHERE tp.round_trip_id IN')) return [legRow('morning', { status: 'accepted' }), legRow('evening')];
+      if (query.includes('UPDATE trip_participants') && kind === 'run') updates.push(query);
+      return null;
+    });
+    const res = await app.request('/api/round-trips/4/legs/morning', jsonRequest(token, 'DELETE'), { ...baseEnv, DB: db, CACHE: new MockKV() });
+    expect(res.status).toBe(409);
+    const body = await res.json() as { error?: { message?: string } };
+    expect(body.error?.message).toContain('DELETE /api/trips/21/book');
+    expect(updates).toHaveLength(0);
+  });
+});
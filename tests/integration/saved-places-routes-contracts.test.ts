@@ -0,0 +1,316 @@
+/**
+ * Integration contract tests for /api/saved-places and /api/saved-routes.
+ *
+ * Tests cover:
+ *   - Auth boundaries (401 without token)
+ *   - Input validation (400 for custom places without a label)
+ *   - One Home/Work per user (409)
+ *   - Locations stored encrypted, returned decrypted
+ *   - Ownership checks (404 for another user's place)
+ *   - Edits propagating to upcoming subscription days
+ *   - Saved routes pre-filling trip offers; Home/Work seeding subscriptions
+ *
+ * Uses the same MockDB / MockKV pattern as trip-templates-routes-contracts.test.ts.
+ */
+
+import { describe, expect, test } from 'vitest';
+import app from '../../src/index';
+import { createToken } from '../../src/middleware/auth';
+import { encryptPII } from '../../src/lib/encryption';
+import type { JWTPayload } from '../../src/types';
+
+// ---------------------------------------------------------------------------
+// Shared test infrastructure
+// ---------------------------------------------------------------------------
+
+type ResolverKind = 'first' | 'all' | 'run';
+type Resolver = (query: string, params: unknown[], kind: ResolverKind) => unknown;
+
+class MockStmt {
+  private params: unknown[] = [];
+  constructor(private query: string, private resolver: Resolver) {}
+  bind(...values: unknown[]) { this.params = values; return this; }
+  async first<T>(): Promise<T | null> { return (this.resolver(this.query, this.params, 'first') ?? null) as T | null; }
+  async all<T>(): Promise<{ success: boolean; results?: T[] }> { return { success: true, results: (this.resolver(this.query, this.params, 'all') as T[]) ?? [] }; }
+  async run(): Promise<{ success: boolean; meta?: Record<string, unknown> }> { return { success: true, meta: (this.resolver(this.query, this.params, 'run') as Record<string, unknown>) ?? { last_row_id: 1, changes: 1 } }; }
+}
+
+class MockDB {
+  constructor(private resolver: Resolver) {}
+  prepare(query: string) { return new MockStmt(query, this.resolver); }
+  async batch() { return []; }
+}
+
+class MockKV {
+  private store = new Map<string, string>();
+  async get(key: string, type?: string) {
+    const val = this.store.get(key) ?? null;
+    if (type === 'json' && val !== null) { try { return JSON.parse(val); } catch { return null; } }
+    return val;
+  }
+  async put(key: string, value: string) { this.store.set(key, value); }
+  async delete(key: string) { this.store.delete(key); }
+  async list() { return { keys: [], list_complete: true, cursor: '' }; }
+}
+
+const baseEnv = {
+  JWT_SECRET: 'integration-secret-0123456789abcdef',
+  ENCRYPTION_KEY: '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
+  ENVIRONMENT: 'development',
+  APP_URL: 'http://localhost:3000',
+  API_VERSION: 'v1',
+  SESSIONS: new MockKV(),
+  RATE_LIMIT_KV: new MockKV(),
+} as const;
+
+async function authToken(userId: number) {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: JWTPayload = {
+    sub: userId,
+    email: `user${userId}@example.com`,
+    name: `User ${userId}`,
+    role: 'user',
+    iat: now,
+    exp: now + 3600,
+    type: 'access',
+  };
+  return createToken(payload, baseEnv.JWT_SECRET);
+}
+
+const HOME = { lat: -26.1076, lng: 28.0567, address: '12 Rivonia Road, Sandton' };
+const WORK = { lat: -26.1452, lng: 28.0419, address: 'Oxford Road, Rosebank' };
+
+async function placeRow(id: number, kind: string, label: string, location: object, userId = 7) {
+  return {
+    id,
+    user_id: userId,
+    kind,
+    label,
+    location_encrypted: await encryptPII(JSON.stringify(location), baseEnv.ENCRYPTION_KEY, userId),
+    created_at: '2026-03-01 10:00:00',
+    updated_at: '2026-03-01 10:00:00',
+  };
+}
+
+function jsonRequest(token: string, method: string, body?: unknown): RequestInit {
+  return {
+    method,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Saved places routes contract tests', () => {
+  test('saved places and routes require authentication', async () => {
+    const env = { ...baseEnv, DB: new MockDB(() => null), CACHE: new MockKV() };
+    expect((await app.request('/api/saved-places', { method: 'GET' }, env)).status).toBe(401);
+    expect((await app.request('/api/saved-routes', { method: 'GET' }, env)).status).toBe(401);
+  });
+
+  test('custom places need a label', async () => {
+    const token = await authToken(7);
+    const res = await app.request(
+      '/api/saved-places',
+      jsonRequest(token, 'POST', { kind: 'custom', location: HOME }),
+      { ...baseEnv, DB: new MockDB(() => null), CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(400);
+    const body = await res.json() as { error?: { code?: string } };
+    expect(body.error?.code).toBe('VALIDATION_ERROR');
+  });
+
+  test('a second Home place is rejected', async () => {
+    const token = await authToken(7);
+    const db = new MockDB((query) => (query.includes('COUNT(*) AS total') ? { total: 2, same_kind: 1 } : null));
+    const res = await app.request(
+      '/api/saved-places',
+      jsonRequest(token, 'POST', { kind: 'home', location: HOME }),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(409);
+  });
+
+  test('stores the location encrypted and returns it decrypted', async () => {
+    const token = await authToken(7);
+    let stored: unknown[] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('COUNT(*) AS total')) return { total: 0, same_kind: 0 };
+      if (query.includes('INSERT INTO saved_places') && kind === 'run') {
+        stored = params;
+        return { last_row_id: 3 };
+      }
+      if (query.includes('FROM saved_places WHERE id = ?') && kind === 'first' && stored.length) {
+        return { id: 3, user_id: 7, kind: 'home', label: stored[2], location_encrypted: stored[3], created_at: 'now', updated_at: 'now' };
+      }
+      return null;
+    });
+
+    const res = await app.request(
+      '/api/saved-places',
+      jsonRequest(token, 'POST', { kind: 'home', location: HOME }),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(201);
+    const body = await res.json() as { place: { label: string; location: typeof HOME } };
+    expect(body.place.label).toBe('Home');
+    expect(body.place.location).toEqual(HOME);
+    expect(JSON.stringify(stored)).not.toContain('Rivonia');
+    expect(JSON.stringify(stored)).not.toContain('28.0567');
+  });
+
+  test('editing a place can carry over to upcoming subscription days', async () => {
+    const token = await authToken(7);
+    const moved = { lat: -26.09, lng: 28.05, address: '4 New Street, Sandton' };
+    let current = await placeRow(3, 'home', 'Home', HOME);
+    const runs: { query: string; params: unknown[] }[] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('FROM saved_places WHERE id = ?') && kind === 'first') return current;
+      if (kind === 'run') {
+        runs.push({ query, params });
+        if (query.includes('UPDATE saved_places')) {
+          current = { ...current, location_encrypted: params[0] as string };
+        }
+        if (query.includes('UPDATE monthly_scheduled_days')) return { changes: 4 };
+        if (query.includes('UPDATE monthly_subscriptions')) return { changes: query.includes('default_pickup_') ? 1 : 0 };
+      }
+      return null;
+    });
+
+    const res = await app.request(
+      '/api/saved-places/3',
+      jsonRequest(token, 'PUT', { location: moved, propagateToSchedule: true }),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(200);
+    const body = await res.json() as { place: { location: typeof moved }; scheduleUpdated: { subscriptions: number; days: number } };
+    expect(body.place.location).toEqual(moved);
+    expect(body.scheduleUpdated.subscriptions).toBe(1);
+
+    const morningPickup = runs.find((r) => r.query.includes('SET pickup_lat') && r.query.includes("trip_type = 'morning'"));
+    expect(morningPickup?.params.slice(0, 2)).toEqual([moved.lat, moved.lng]);
+    expect(morningPickup?.query).toContain("status = 'scheduled' AND trip_date >= ?");
+    const eveningDropoff = runs.find((r) => r.query.includes('SET dropoff_lat') && r.query.includes("trip_type = 'evening'"));
+    expect(eveningDropoff?.query).toContain('default_pickup_place_id = ?');
+    // Days with a one-off destination change keep their dropoff
+    expect(eveningDropoff?.query).toContain('is_destination_change = 0');
+    expect(morningPickup?.query).not.toContain('is_destination_change');
+    const morningDropoff = runs.find((r) => r.query.includes('SET dropoff_lat') && r.query.includes("trip_type = 'morning'"));
+    expect(morningDropoff?.query).toContain('is_destination_change = 0');
+    const eveningPickup = runs.find((r) => r.query.includes('SET pickup_lat') && r.query.includes("trip_type = 'evening'"));
+    expect(eveningPickup?.query).not.toContain('is_destination_change');
+  });
+
+  test('edits stay off the schedule unless asked', async () => {
+    const token = await authToken(7);
+    const row = await placeRow(3, 'home', 'Home', HOME);
+    const runs: string[] = [];
+    const db = new MockDB((query, _params, kind) => {
+      if (query.includes('FROM saved_places WHERE id = ?') && kind === 'first') return row;
+      if (kind === 'run') runs.push(query);
+      return null;
+    });
+
+    const res = await app.request(
+      '/api/saved-places/3',
+      jsonRequest(token, 'PUT', { location: WORK }),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(200);
+    expect(runs.some((q) => q.includes('monthly_scheduled_days'))).toBe(false);
+  });
+
+  test('routes cannot use another user\'s place', async () => {
+    const token = await authToken(7);
+    const home = await placeRow(3, 'home', 'Home', HOME);
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('FROM saved_places WHERE id = ? AND user_id = ?') && kind === 'first') {
+        return params[0] === 3 ? home : null;
+      }
+      return null;
+    });
+
+    const res = await app.request(
+      '/api/saved-routes',
+      jsonRequest(token, 'POST', { name: 'Commute', originPlaceId: 3, destinationPlaceId: 99 }),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(404);
+  });
+
+  test('a saved route pre-fills a trip offer', async () => {
+    const token = await authToken(7);
+    const home = await placeRow(3, 'home', 'Home', HOME);
+    const work = await placeRow(4, 'work', 'Work', WORK);
+    let tripInsert: unknown[] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('FROM saved_routes WHERE id = ?') && kind === 'first') {
+        return { id: 9, user_id: 7, name: 'Commute', origin_place_id: 3, destination_place_id: 4, created_at: 'now', updated_at: 'now' };
+      }
+      if (query.includes('FROM saved_places WHERE id = ?') && kind === 'first') return params[0] === 3 ? home : work;
+      if (query.includes('INSERT INTO trips') && kind === 'run') {
+        tripInsert = params;
+        return { last_row_id: 50 };
+      }
+      return null;
+    });
+
+    const res = await app.request(
+      '/api/trips/offer',
+      jsonRequest(token, 'POST', {
+        savedRouteId: 9,
+        scheduledTime: new Date(Date.now() + 86_400_000).toISOString(),
+        vehicleInfo: { make: 'Toyota', model: 'Corolla', licensePlate: 'GP 123-456' },
+      }),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(200);
+    expect(tripInsert[2]).toBe(HOME.address);
+    expect(tripInsert[3]).toBe(WORK.address);
+    // Coordinates are kept alongside the addresses for segment seat accounting
+    expect(tripInsert.slice(-4)).toEqual([HOME.lat, HOME.lng, WORK.lat, WORK.lng]);
+  });
+
+  test('Home and Work seed a new subscription', async () => {
+    const token = await authToken(7);
+    const home = await placeRow(3, 'home', 'Home', HOME);
+    const work = await placeRow(4, 'work', 'Work', WORK);
+    let subscriptionInsert: unknown[] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('FROM saved_places WHERE user_id = ? AND kind = ?') && kind === 'first') {
+        return params[1] === 'home' ? home : work;
+      }
+      if (query.includes('INSERT INTO monthly_subscriptions') && kind === 'run') {
+        subscriptionInsert = params;
+        return { last_row_id: 42 };
+      }
+      return null;
+    });
+
+    const now = new Date();
+    const month = `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, '0')}`;
+    const res = await app.request(
+      '/api/subscriptions',
+      jsonRequest(token, 'POST', { month, recurringWeekdays: [1, 2, 3, 4, 5], defaultMorningDeparture: '07:30' }),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(200);
+    expect(subscriptionInsert.slice(5, 9)).toEqual([HOME.lat, HOME.lng, WORK.lat, WORK.lng]);
+    expect(subscriptionInsert.slice(11, 13)).toEqual([3, 4]);
+  });
+
+  test('subscriptions without locations or saved places are rejected', async () => {
+    const token = await authToken(7);
+    const now = new Date();
+    const month = `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, '0')}`;
+    const res = await app.request(
+      '/api/subscriptions',
+      jsonRequest(token, 'POST', { month, recurringWeekdays: [1], defaultMorningDeparture: '07:30' }),
+      { ...baseEnv, DB: new MockDB(() => null), CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(400);
+  });
+});
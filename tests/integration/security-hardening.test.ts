@@ -10,7 +10,7 @@ class MockStmt {
   private params: unknown[] = [];
 
   constructor(
-    private query: string,
+    readonly query: string,
     private resolver: Resolver,
   ) {}
 
@@ -33,26 +33,31 @@ class MockStmt {
     const result = this.resolver(this.query, this.params, 'run');
     return { success: true, meta: (result as Record<string, unknown>) ?? { last_row_id: 1 } };
   }
+
+  get writes(): boolean {
+    return /^\s*(INSERT|UPDATE|DELETE)\b/i.test(this.query);
+  }
 }
 
 class MockDB {
+  readonly batches: string[][] = [];
+
   constructor(private resolver: Resolver) {}
 
   prepare(query: string) {
     return new MockStmt(query, this.resolver);
   }
 
-  async batch<T = unknown>(statements: Array<{ first?: () => Promise<T | null>; all?: () => Promise<{ results?: T[] }> }>) {
-    const out: Array<{ success: boolean; results?: T[] }> = [];
+  async batch<T = unknown>(statements: MockStmt[]) {
+    this.batches.push(statements.map((stmt) => stmt.query));
+    const out: Array<{ success: boolean; results?: T[]; meta?: Record<string, unknown> }> = [];
     for (const stmt of statements) {
-      if (stmt.all) {
-        const all = await stmt.all();
-        out.push({ success: true, results: all.results ?? [] });
-      } else if (stmt.first) {
-        const first = await stmt.first();
-        out.push({ success: true, results: first ? [first] : [] });
+      if (stmt.writes) {
+        const run = await stmt.run();
+        out.push({ success: true, results: [], meta: run.meta });
       } else {
-        out.push({ success: true, results: [] });
+        const all = await stmt.all<T>();
+        out.push({ success: true, results: all.results ?? [] });
       }
     }
     return out;
@@ -60,7 +65,7 @@ class MockDB {
 }
 
 class BatchFailingDB extends MockDB {
-  async batch<T = unknown>(_statements: Array<{ first?: () => Promise<T | null>; all?: () => Promise<{ results?: T[] }> }>): Promise<{ success: boolean; results?: T[] }[]> {
+  async batch<T = unknown>(_statements: MockStmt[]): Promise<{ success: boolean; results?: T[] }[]> {
     throw new Error('Metrics DB failure');
   }
 }
@@ -650,7 +655,7 @@ describe('Security hardening integration flows', () => {
 
   test('trip booking accept returns conflict when booking is not pending', async () => {
     const token = await authToken(10, 'user');
-    let seatUpdateCalls = 0;
+    let seatUpdateRunsOnlyAfterAccept = false;
     let acceptUpdateHasRiderRoleGuard = false;
     const db = new MockDB((query, _params, kind) => {
       if (query.includes('SELECT id, driver_id FROM trips') && kind === 'first') {
@@ -661,8 +666,11 @@ describe('Security hardening integration flows', () => {
         return { changes: 0 };
       }
       if (query.includes('available_seats = available_seats -') && kind === 'run') {
-        seatUpdateCalls += 1;
-        return { changes: 1 };
+        seatUpdateRunsOnlyAfterAccept = query.includes('changes() > 0');
+        return { changes: 0 };
+      }
+      if (query.includes('SELECT status FROM trip_participants') && kind === 'first') {
+        return { status: 'accepted' };
       }
       return null;
     });
@@ -680,31 +688,35 @@ describe('Security hardening integration flows', () => {
     const body = (await res.json()) as { error?: { code?: string; message?: string } };
     expect(body.error?.code).toBe('CONFLICT');
     expect(body.error?.message).toBe('Booking is no longer pending');
-    expect(seatUpdateCalls).toBe(0);
+    expect(seatUpdateRunsOnlyAfterAccept).toBe(true);
     expect(acceptUpdateHasRiderRoleGuard).toBe(true);
   });
 
-  test('trip booking accept rolls back when seat decrement fails', async () => {
+  test('trip booking accept leaves the booking pending when seats run out', async () => {
     const token = await authToken(10, 'user');
-    let compensationCalls = 0;
+    let acceptUpdateChecksSeats = false;
     let seatUpdateHasRiderRoleGuard = false;
-    let compensationHasRiderRoleGuard = false;
+    let compensationCalls = 0;
     const db = new MockDB((query, _params, kind) => {
       if (query.includes('SELECT id, driver_id FROM trips') && kind === 'first') {
         return { id: 1, driver_id: 10 };
       }
       if (query.includes("SET status = 'accepted'") && kind === 'run') {
-        return { changes: 1 };
+        acceptUpdateChecksSeats = query.includes("role = 'rider'")
+          && query.includes('COALESCE(passenger_count, 1) <= (SELECT available_seats FROM trips');
+        return { changes: 0 };
       }
       if (query.includes('available_seats = available_seats -') && kind === 'run') {
         seatUpdateHasRiderRoleGuard = query.includes("role = 'rider'");
         return { changes: 0 };
       }
-      if (query.includes("SET status = 'requested', accepted_at = NULL") && kind === 'run') {
+      if (query.includes("SET status = 'requested'") && kind === 'run') {
         compensationCalls += 1;
-        compensationHasRiderRoleGuard = query.includes("role = 'rider'");
         return { changes: 1 };
       }
+      if (query.includes('SELECT status FROM trip_participants') && kind === 'first') {
+        return { status: 'requested' };
+      }
       return null;
     });
 
@@ -721,9 +733,13 @@ describe('Security hardening integration flows', () => {
     const body = (await res.json()) as { error?: { code?: string; message?: string } };
     expect(body.error?.code).toBe('CONFLICT');
     expect(body.error?.message).toBe('No seats available');
-    expect(compensationCalls).toBe(1);
+    expect(db.batches).toHaveLength(1);
+    expect(db.batches[0]).toHaveLength(2);
+    expect(db.batches[0]?.[0]).toContain("SET status = 'accepted'");
+    expect(db.batches[0]?.[1]).toContain('available_seats = available_seats -');
+    expect(acceptUpdateChecksSeats).toBe(true);
     expect(seatUpdateHasRiderRoleGuard).toBe(true);
-    expect(compensationHasRiderRoleGuard).toBe(true);
+    expect(compensationCalls).toBe(0);
   });
 
   test('trip booking accept is idempotent with Idempotency-Key replay', async () => {
@@ -2725,7 +2741,7 @@ describe('Security hardening integration flows', () => {
           updated_at: '2026-01-01T00:00:00.000Z',
         };
       }
-      if (query.includes('available_seats = available_seats - 1') && kind === 'run') {
+      if (query.includes('INSERT INTO driver_trip_seat_holds') && kind === 'run') {
         return { changes: 1 };
       }
       return null;
@@ -2832,7 +2848,7 @@ describe('Security hardening integration flows', () => {
         };
       }
 
-      if (query.includes('available_seats = available_seats - 1') && kind === 'run') {
+      if (query.includes('INSERT INTO driver_trip_seat_holds') && kind === 'run') {
         if (availableSeats > 0) {
           availableSeats -= 1;
           return { changes: 1 };
@@ -2953,7 +2969,7 @@ describe('Security hardening integration flows', () => {
             updated_at: '2026-01-01T00:00:00.000Z',
           };
         }
-        if (query.includes('available_seats = available_seats - 1') && kind === 'run') {
+        if (query.includes('INSERT INTO driver_trip_seat_holds') && kind === 'run') {
           throw new Error('D1 seat reservation failure');
         }
         return null;
@@ -3061,13 +3077,13 @@ describe('Security hardening integration flows', () => {
             updated_at: '2026-01-01T00:00:00.000Z',
           };
         }
-        if (query.includes('available_seats = available_seats - 1') && kind === 'run') {
+        if (query.includes('INSERT INTO driver_trip_seat_holds') && kind === 'run') {
           return { changes: 1 };
         }
         if (query.includes("SET status = 'confirmed'") && kind === 'run') {
           throw new Error('D1 confirm update failure');
         }
-        if (query.includes('UPDATE driver_trips') && query.includes('MIN') && kind === 'run') {
+        if (query.includes('DELETE FROM driver_trip_seat_holds') && kind === 'run') {
           releaseCalls += 1;
           return { changes: 1 };
         }
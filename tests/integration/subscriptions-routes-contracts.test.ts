@@ -214,6 +214,38 @@ describe('Subscriptions routes contract tests', () => {
     expect(body.month).toBeDefined();
   });
 
+  test('POST /subscriptions prices each trip and stores the breakdown', async () => {
+    const token = await authToken(1);
+    const saved: unknown[][] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('INSERT INTO monthly_subscriptions') && kind === 'run') return { last_row_id: 42 };
+      if (query.includes('INSERT INTO price_breakdowns') && kind === 'run') {
+        saved.push(params);
+        return { changes: 1 };
+      }
+      return null;
+    });
+    const res = await app.request(
+      '/api/subscriptions',
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validSubscriptionBody(1), defaultEveningDeparture: '17:00' }),
+      },
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(200);
+    const body = await res.json() as {
+      estimatedAmount: number;
+      pricing: { totalCents: number; lines: Array<{ slot: string; subtotalCents: number }> };
+    };
+    expect(body.pricing.totalCents).toBe(body.estimatedAmount);
+    expect(body.pricing.lines.reduce((sum, line) => sum + line.subtotalCents, 0)).toBe(body.estimatedAmount);
+    expect(new Set(body.pricing.lines.map((line) => line.slot))).toEqual(new Set(['morning', 'evening']));
+    expect(saved).toHaveLength(1);
+    expect(saved[0].slice(0, 3)).toEqual(['subscription', '42', body.estimatedAmount]);
+  });
+
   // ── GET /current ──────────────────────────────────────────────────────────
 
   test('GET /subscriptions/current returns { subscription: null } when no subscription exists', async () => {
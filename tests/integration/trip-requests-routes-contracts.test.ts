@@ -0,0 +1,398 @@
+/**
+ * Integration contract tests for /api/trip-requests.
+ *
+ * Tests cover:
+ *   - Auth boundaries (401 without token)
+ *   - Departure window validation (400)
+ *   - Posting a request sends it to nearby drivers meeting the rider's preferences
+ *   - Drivers see only the area around each end until their bid is accepted
+ *   - Bids limited to recipients (404) and the pricing range (400)
+ *   - Accepting a bid creating the trip and booking in one batch
+ *   - Only the posting rider can accept (403); a lost claim is a 409
+ *
+ * Uses the same MockDB / MockKV pattern as saved-places-routes-contracts.test.ts.
+ */
+
+import { describe, expect, test } from 'vitest';
+import app from '../../src/index';
+import { createToken } from '../../src/middleware/auth';
+import type { JWTPayload } from '../../src/types';
+
+// ---------------------------------------------------------------------------
+// Shared test infrastructure
+// ---------------------------------------------------------------------------
+
+type ResolverKind = 'first' | 'all' | 'run';
+type Resolver = (query: string, params: unknown[], kind: ResolverKind) => unknown;
+
+class MockStmt {
+  params: unknown[] = [];
+  constructor(public query: string, private resolver: Resolver) {}
+  bind(...values: unknown[]) { this.params = values; return this; }
+  async first<T>(): Promise<T | null> { return (this.resolver(this.query, this.params, 'first') ?? null) as T | null; }
+  async all<T>(): Promise<{ success: boolean; results?: T[] }> { return { success: true, results: (this.resolver(this.query, this.params, 'all') as T[]) ?? [] }; }
+  async run(): Promise<{ success: boolean; meta?: Record<string, unknown> }> { return { success: true, meta: (this.resolver(this.query, this.params, 'run') as Record<string, unknown>) ?? { last_row_id: 1, changes: 1 } }; }
+}
+
+class MockDB {
+  batches: MockStmt[][] = [];
+  constructor(private resolver: Resolver) {}
+  prepare(query: string) { return new MockStmt(query, this.resolver); }
+  async batch(statements: MockStmt[]) { this.batches.push(statements); return []; }
+}
+
+class MockKV {
+  private store = new Map<string, string>();
+  async get(key: string, type?: string) {
+    const val = this.store.get(key) ?? null;
+    if (type === 'json' && val !== null) { try { return JSON.parse(val); } catch { return null; } }
+    return val;
+  }
+  async put(key: string, value: string) { this.store.set(key, value); }
+  async delete(key: string) { this.store.delete(key); }
+  async list() { return { keys: [], list_complete: true, cursor: '' }; }
+}
+
+const baseEnv = {
+  JWT_SECRET: 'integration-secret-0123456789abcdef',
+  ENCRYPTION_KEY: '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
+  ENVIRONMENT: 'development',
+  APP_URL: 'http://localhost:3000',
+  API_VERSION: 'v1',
+  SESSIONS: new MockKV(),
+  RATE_LIMIT_KV: new MockKV(),
+} as const;
+
+async function authToken(userId: number) {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: JWTPayload = {
+    sub: userId,
+    email: `user${userId}@example.com`,
+    name: `User ${userId}`,
+    role: 'user',
+    iat: now,
+    exp: now + 3600,
+    type: 'access',
+  };
+  return createToken(payload, baseEnv.JWT_SECRET);
+}
+
+function jsonRequest(token: string, method: string, body?: unknown): RequestInit {
+  return {
+    method,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+  };
+}
+
+const HOUR = 60 * 60 * 1000;
+const HOME = { lat: -26.1076, lng: 28.0567, address: '12 Rivonia Road, Sandton' };
+const WORK = { lat: -26.1452, lng: 28.0419, address: 'Oxford Road, Rosebank' };
+
+function requestRow(overrides: Record<string, unknown> = {}) {
+  const now = Date.now();
+  return {
+    id: 3,
+    rider_id: 7,
+    organization_id: null,
+    pickup_lat: HOME.lat,
+    pickup_lng: HOME.lng,
+    dropoff_lat: WORK.lat,
+    dropoff_lng: WORK.lng,
+    pickup_address_encrypted: HOME.address,
+    dropoff_address_encrypted: WORK.address,
+    earliest_departure: now + 2 * HOUR,
+    latest_departure: now + 3 * HOUR,
+    seats_needed: 1,
+    distance_km: 20,
+    notes: null,
+    preferences_json: null,
+    status: 'open',
+    accepted_bid_id: null,
+    trip_id: null,
+    created_at: '2026-10-01 08:00:00',
+    ...overrides,
+  };
+}
+
+function bidRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 5,
+    request_id: 3,
+    driver_id: 11,
+    pickup_time: Date.now() + 2.5 * HOUR,
+    price_per_seat_cents: 6000,
+    total_seats: 4,
+    vehicle_type: 'sedan',
+    vehicle_json: JSON.stringify({ make: 'Toyota', model: 'Corolla', licensePlate: 'CA 123-456' }),
+    message: null,
+    status: 'pending',
+    created_at: '2026-10-01 09:00:00',
+    ...overrides,
+  };
+}
+
+const BID_BODY = {
+  pricePerSeat: 60,
+  totalSeats: 4,
+  vehicle: { make: 'Toyota', model: 'Corolla', licensePlate: 'CA 123-456' },
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Trip request board routes contract tests', () => {
+  test('the board requires authentication', async () => {
+    const env = { ...baseEnv, DB: new MockDB(() => null), CACHE: new MockKV() };
+    expect((await app.request('/api/trip-requests', { method: 'GET' }, env)).status).toBe(401);
+    expect((await app.request('/api/trip-requests/board', { method: 'GET' }, env)).status).toBe(401);
+  });
+
+  test('rejects a departure window longer than 12 hours', async () => {
+    const token = await authToken(7);
+    const now = Date.now();
+    const res = await app.request(
+      '/api/trip-requests',
+      jsonRequest(token, 'POST', {
+        pickupLocation: HOME,
+        dropoffLocation: WORK,
+        earliestDeparture: new Date(now + HOUR).toISOString(),
+        latestDeparture: new Date(now + 14 * HOUR).toISOString(),
+      }),
+      { ...baseEnv, DB: new MockDB(() => null), CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(400);
+    const body = await res.json() as { error?: { code?: string } };
+    expect(body.error?.code).toBe('VALIDATION_ERROR');
+  });
+
+  test('posting a request sends it to nearby drivers', async () => {
+    const token = await authToken(7);
+    let inserted: unknown[] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('INSERT INTO trip_requests') && kind === 'run') {
+        inserted = params;
+        return { last_row_id: 3, changes: 1 };
+      }
+      if (query.includes('SELECT DISTINCT dt.driver_id')) return [{ driver_id: 11 }, { driver_id: 12 }];
+      if (query.includes('SELECT * FROM trip_requests WHERE id')) return requestRow();
+      return null;
+    });
+    const now = Date.now();
+    const res = await app.request(
+      '/api/trip-requests',
+      jsonRequest(token, 'POST', {
+        pickupLocation: HOME,
+        dropoffLocation: WORK,
+        earliestDeparture: new Date(now + 2 * HOUR).toISOString(),
+        latestDeparture: new Date(now + 3 * HOUR).toISOString(),
+      }),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(201);
+    const body = await res.json() as { driversNotified: number; request: { id: number; pickup: { address?: string } } };
+    expect(body.driversNotified).toBe(2);
+    expect(body.request.pickup.address).toBe(HOME.address);
+    expect(inserted[0]).toBe(7);
+    // Addresses are stored encrypted
+    expect(inserted[6]).not.toBe(HOME.address);
+    expect(db.batches).toHaveLength(1);
+    expect(db.batches[0].map((stmt) => stmt.params)).toEqual([[3, 11], [3, 12]]);
+  });
+
+  test('the rider\'s preferences limit which drivers the request is sent to', async () => {
+    const token = await authToken(7);
+    let inserted: unknown[] = [];
+    const driverQueries: Array<{ query: string; params: unknown[] }> = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('INSERT INTO trip_requests') && kind === 'run') {
+        inserted = params;
+        return { last_row_id: 3, changes: 1 };
+      }
+      if (query.includes('SELECT DISTINCT dt.driver_id')) {
+        driverQueries.push({ query, params });
+        return [{ driver_id: 11 }];
+      }
+      if (query.includes('SELECT * FROM trip_requests WHERE id')) return requestRow();
+      return null;
+    });
+    const now = Date.now();
+    const preferences = { genderPreference: 'female', minDriverRating: 4.5 };
+    const res = await app.request(
+      '/api/trip-requests',
+      jsonRequest(token, 'POST', {
+        pickupLocation: HOME,
+        dropoffLocation: WORK,
+        earliestDeparture: new Date(now + 2 * HOUR).toISOString(),
+        latestDeparture: new Date(now + 3 * HOUR).toISOString(),
+        preferences,
+      }),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(201);
+    expect(inserted[13]).toBe(JSON.stringify(preferences));
+    expect(driverQueries[0]?.query).toContain('p.share_gender_for_matching = 1');
+    expect(driverQueries[0]?.query).toContain('ROUND(AVG(rating), 1)');
+    expect(driverQueries[0]?.params.slice(-2)).toEqual(['female', 4.5]);
+  });
+
+  test('drivers see the area around each end, not the exact locations', async () => {
+    const token = await authToken(11);
+    const db = new MockDB((query) => {
+      if (query.includes('FROM trip_request_recipients rr')) return [{ ...requestRow(), bid_id: null }];
+      return null;
+    });
+    const res = await app.request('/api/trip-requests/board', jsonRequest(token, 'GET'), { ...baseEnv, DB: db, CACHE: new MockKV() });
+    expect(res.status).toBe(200);
+    const body = await res.json() as { requests: Array<Record<string, unknown>> };
+    const [request] = body.requests;
+    expect(request.pickup).toBeUndefined();
+    expect(request.dropoff).toBeUndefined();
+    expect(request.pickupArea).toMatchObject({ cell: expect.stringMatching(/^[0-9a-z]{5}$/) });
+    expect(JSON.stringify(body)).not.toContain(HOME.address);
+    expect(JSON.stringify(body)).not.toContain(String(HOME.lat));
+  });
+
+  test('a driver sees the exact request only once their bid is accepted', async () => {
+    const token = await authToken(11);
+    let bid = bidRow();
+    let row = requestRow();
+    const db = new MockDB((query) => {
+      if (query.includes('SELECT * FROM trip_requests WHERE id')) return row;
+      if (query.includes('FROM trip_request_recipients')) return { ok: 1 };
+      if (query.includes('SELECT * FROM trip_request_bids WHERE request_id')) return bid;
+      return null;
+    });
+    const env = { ...baseEnv, DB: db, CACHE: new MockKV() };
+    const view = async () => (await (await app.request('/api/trip-requests/3', jsonRequest(token, 'GET'), env)).json()) as {
+      request: { pickup?: { address?: string }; pickupArea?: unknown };
+    };
+
+    const pending = await view();
+    expect(pending.request.pickup).toBeUndefined();
+    expect(pending.request.pickupArea).toBeDefined();
+
+    bid = bidRow({ status: 'accepted' });
+    row = requestRow({ status: 'accepted', accepted_bid_id: 5, trip_id: 40 });
+    const accepted = await view();
+    expect(accepted.request.pickup?.address).toBe(HOME.address);
+  });
+
+  test('drivers the request was not sent to cannot bid', async () => {
+    const token = await authToken(20);
+    const db = new MockDB((query) => {
+      if (query.includes('SELECT * FROM trip_requests WHERE id')) return requestRow();
+      return null;
+    });
+    const res = await app.request(
+      '/api/trip-requests/3/bids',
+      jsonRequest(token, 'POST', { ...BID_BODY, pickupTime: new Date(Date.now() + 2.5 * HOUR).toISOString() }),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(404);
+  });
+
+  test('bids outside the pricing range are rejected', async () => {
+    const token = await authToken(11);
+    const db = new MockDB((query) => {
+      if (query.includes('SELECT * FROM trip_requests WHERE id')) return requestRow();
+      if (query.includes('FROM trip_request_recipients')) return { ok: 1 };
+      return null;
+    });
+    const res = await app.request(
+      '/api/trip-requests/3/bids',
+      jsonRequest(token, 'POST', { ...BID_BODY, pricePerSeat: 120, pickupTime: new Date(Date.now() + 2.5 * HOUR).toISOString() }),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(400);
+    const body = await res.json() as { error?: { message?: string } };
+    expect(body.error?.message).toContain('between 45.60 and 85.50');
+  });
+
+  test('a recipient driver can bid within the window and range', async () => {
+    const token = await authToken(11);
+    let upsert: unknown[] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('SELECT * FROM trip_requests WHERE id')) return requestRow();
+      if (query.includes('FROM trip_request_recipients')) return { ok: 1 };
+      if (query.includes('INSERT INTO trip_request_bids') && kind === 'run') { upsert = params; return null; }
+      if (query.includes('SELECT * FROM trip_request_bids')) return bidRow();
+      return null;
+    });
+    const pickupTime = Date.now() + 2.5 * HOUR;
+    const res = await app.request(
+      '/api/trip-requests/3/bids',
+      jsonRequest(token, 'POST', { ...BID_BODY, pickupTime: new Date(pickupTime).toISOString() }),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(201);
+    expect(upsert.slice(0, 6)).toEqual([3, 11, pickupTime, 6000, 4, 'sedan']);
+    const body = await res.json() as { bid: { pricePerSeat: number; vehicle: Record<string, string> } };
+    expect(body.bid.pricePerSeat).toBe(60);
+    expect(body.bid.vehicle.licensePlate).toBeUndefined();
+  });
+
+  test('accepting a bid creates the trip and booking in one batch', async () => {
+    const token = await authToken(7);
+    let claimParams: unknown[] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('SELECT * FROM trip_requests WHERE id')) return requestRow();
+      if (query.includes('SELECT * FROM trip_request_bids WHERE id')) return bidRow();
+      if (query.includes("SET status = 'accepted', accepted_bid_id") && kind === 'run') {
+        claimParams = params;
+        return { changes: 1 };
+      }
+      if (query.includes('SELECT r.trip_id')) return { trip_id: 40, booking_id: 41 };
+      if (query.includes("status = 'declined'") && kind === 'all') return [{ driver_id: 12 }];
+      return null;
+    });
+    const res = await app.request(
+      '/api/trip-requests/3/bids/5/accept',
+      jsonRequest(token, 'POST'),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(201);
+    expect(await res.json()).toMatchObject({ tripId: 40, bookingId: 41 });
+    expect(claimParams).toEqual([5, 3]);
+    expect(db.batches).toHaveLength(1);
+    const [tripInsert, link, driver, rider, bids] = db.batches[0];
+    expect(tripInsert.query).toContain('INSERT INTO trips');
+    // 4 seats offered, 1 taken by the rider
+    expect(tripInsert.params.slice(6, 9)).toEqual([3, 4, 60]);
+    expect(tripInsert.params[12]).toBe(11);
+    expect(link.query).toContain('last_insert_rowid()');
+    expect(driver.params).toEqual([11, 3]);
+    expect(rider.query).toContain("'rider', 'accepted'");
+    expect(rider.params[0]).toBe(7);
+    expect(bids.params).toEqual([5, 3]);
+  });
+
+  test('only the posting rider can accept a bid', async () => {
+    const token = await authToken(8);
+    const db = new MockDB((query) => (query.includes('SELECT * FROM trip_requests WHERE id') ? requestRow() : null));
+    const res = await app.request(
+      '/api/trip-requests/3/bids/5/accept',
+      jsonRequest(token, 'POST'),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(403);
+  });
+
+  test('a request claimed by another acceptance is a conflict', async () => {
+    const token = await authToken(7);
+    const db = new MockDB((query, _params, kind) => {
+      if (query.includes('SELECT * FROM trip_requests WHERE id')) return requestRow();
+      if (query.includes('SELECT * FROM trip_request_bids WHERE id')) return bidRow();
+      if (query.includes("SET status = 'accepted', accepted_bid_id") && kind === 'run') return { changes: 0 };
+      return null;
+    });
+    const res = await app.request(
+      '/api/trip-requests/3/bids/5/accept',
+      jsonRequest(token, 'POST'),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(409);
+    expect(db.batches).toHaveLength(0);
+  });
+});
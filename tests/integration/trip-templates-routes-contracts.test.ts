@@ -0,0 +1,252 @@
+/**
+ * Integration contract tests for /api/trip-templates/* routes.
+ *
+ * Tests cover:
+ *   - Auth boundaries (401 without token)
+ *   - Input validation (400 for bad bodies and date ranges)
+ *   - Creation materialising upcoming trips
+ *   - Ownership checks (404 for another driver's template)
+ *   - Pause releasing unbooked occurrences while keeping booked ones
+ *   - State guards (409 when resuming an active template)
+ *
+ * Uses the same MockDB / MockKV pattern as subscriptions-routes-contracts.test.ts.
+ */
+
+import { describe, expect, test } from 'vitest';
+import app from '../../src/index';
+import { createToken } from '../../src/middleware/auth';
+import type { JWTPayload } from '../../src/types';
+
+// ---------------------------------------------------------------------------
+// Shared test infrastructure
+// ---------------------------------------------------------------------------
+
+type ResolverKind = 'first' | 'all' | 'run';
+type Resolver = (query: string, params: unknown[], kind: ResolverKind) => unknown;
+
+class MockStmt {
+  private params: unknown[] = [];
+  constructor(private query: string, private resolver: Resolver) {}
+  bind(...values: unknown[]) { this.params = values; return this; }
+  async first<T>(): Promise<T | null> { return (this.resolver(this.query, this.params, 'first') ?? null) as T | null; }
+  async all<T>(): Promise<{ success: boolean; results?: T[] }> { return { success: true, results: (this.resolver(this.query, this.params, 'all') as T[]) ?? [] }; }
+  async run(): Promise<{ success: boolean; meta?: Record<string, unknown> }> { return { success: true, meta: (this.resolver(this.query, this.params, 'run') as Record<string, unknown>) ?? { last_row_id: 1, changes: 1 } }; }
+}
+
+class MockDB {
+  constructor(private resolver: Resolver) {}
+  prepare(query: string) { return new MockStmt(query, this.resolver); }
+  async batch() { return []; }
+}
+
+class MockKV {
+  private store = new Map<string, string>();
+  async get(key: string, type?: string) {
+    const val = this.store.get(key) ?? null;
+    if (type === 'json' && val !== null) { try { return JSON.parse(val); } catch { return null; } }
+    return val;
+  }
+  async put(key: string, value: string) { this.store.set(key, value); }
+  async delete(key: string) { this.store.delete(key); }
+  async list() { return { keys: [], list_complete: true, cursor: '' }; }
+}
+
+const baseEnv = {
+  JWT_SECRET: 'integration-secret-0123456789abcdef',
+  ENCRYPTION_KEY: '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
+  ENVIRONMENT: 'development',
+  APP_URL: 'http://localhost:3000',
+  API_VERSION: 'v1',
+  SESSIONS: new MockKV(),
+  RATE_LIMIT_KV: new MockKV(),
+} as const;
+
+async function authToken(userId: number) {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: JWTPayload = {
+    sub: userId,
+    email: `user${userId}@example.com`,
+    name: `User ${userId}`,
+    role: 'user',
+    iat: now,
+    exp: now + 3600,
+    type: 'access',
+  };
+  return createToken(payload, baseEnv.JWT_SECRET);
+}
+
+function validTemplateBody() {
+  return {
+    weekdays: [1, 2, 3, 4, 5],
+    departureTime: '23:59',
+    origin: { lat: -33.9249, lng: 18.4241, address: 'Cape Town CBD' },
+    destination: { lat: -33.9, lng: 18.63, address: 'Bellville' },
+    availableSeats: 3,
+    vehicle: { make: 'Toyota', model: 'Corolla', licensePlate: 'CA 123-456' },
+  };
+}
+
+function templateRow(partial: Record<string, unknown> = {}) {
+  return {
+    id: 4,
+    driver_id: 12,
+    organization_id: null,
+    recurring_weekdays: '[1,2,3,4,5]',
+    departure_time: '23:59',
+    skip_dates: '[]',
+    starts_on: null,
+    ends_on: null,
+    origin_lat: -33.9249,
+    origin_lng: 18.4241,
+    origin_address: 'Cape Town CBD',
+    destination_lat: -33.9,
+    destination_lng: 18.63,
+    destination_address: 'Bellville',
+    route_polyline_encoded: null,
+    available_seats: 3,
+    vehicle_json: '{"make":"Toyota","model":"Corolla","licensePlate":"CA 123-456"}',
+    trip_type: 'daily',
+    notes: null,
+    status: 'active',
+    created_at: '2026-03-01 10:00:00',
+    updated_at: '2026-03-01 10:00:00',
+    ...partial,
+  };
+}
+
+function jsonRequest(token: string, method: string, body?: unknown): RequestInit {
+  return {
+    method,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Trip template routes contract tests', () => {
+  test('POST /trip-templates returns 401 without token', async () => {
+    const res = await app.request(
+      '/api/trip-templates',
+      { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(validTemplateBody()) },
+      { ...baseEnv, DB: new MockDB(() => null), CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(401);
+  });
+
+  test('POST /trip-templates returns 400 for invalid weekdays and reversed date range', async () => {
+    const token = await authToken(12);
+    const env = { ...baseEnv, DB: new MockDB(() => null), CACHE: new MockKV() };
+
+    const badWeekday = await app.request(
+      '/api/trip-templates',
+      jsonRequest(token, 'POST', { ...validTemplateBody(), weekdays: [0] }),
+      env,
+    );
+    expect(badWeekday.status).toBe(400);
+
+    const reversed = await app.request(
+      '/api/trip-templates',
+      jsonRequest(token, 'POST', { ...validTemplateBody(), startsOn: '2026-05-10', endsOn: '2026-05-01' }),
+      env,
+    );
+    expect(reversed.status).toBe(400);
+  });
+
+  test('POST /trip-templates creates the template and materialises upcoming trips', async () => {
+    const token = await authToken(12);
+    const runQueries: string[] = [];
+    const db = new MockDB((query, _params, kind) => {
+      if (query.includes('FROM driver_trip_templates WHERE id = ? AND driver_id = ?')) return templateRow();
+      if (kind === 'run') {
+        runQueries.push(query);
+        if (query.includes('INSERT INTO driver_trip_templates')) return { last_row_id: 4, changes: 1 };
+        if (query.includes('INSERT INTO trips')) return { last_row_id: 200, changes: 1 };
+        return { changes: 1 };
+      }
+      return null;
+    });
+
+    const res = await app.request(
+      '/api/trip-templates',
+      jsonRequest(token, 'POST', validTemplateBody()),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(201);
+    const body = await res.json() as { template: { id: number; weekdays: number[] }; tripsCreated: number };
+    expect(body.template).toMatchObject({ id: 4, weekdays: [1, 2, 3, 4, 5] });
+    expect(body.tripsCreated).toBeGreaterThanOrEqual(9);
+    expect(runQueries.filter((q) => q.includes('INSERT INTO trips'))).toHaveLength(body.tripsCreated);
+    expect(runQueries.filter((q) => q.includes('INSERT INTO driver_trips'))).toHaveLength(body.tripsCreated);
+  });
+
+  test("GET /trip-templates/:id returns 404 for another driver's template", async () => {
+    const token = await authToken(99);
+    const db = new MockDB((query, params) => {
+      if (query.includes('FROM driver_trip_templates WHERE id = ? AND driver_id = ?')) {
+        return params[1] === 12 ? templateRow() : null;
+      }
+      return null;
+    });
+
+    const res = await app.request(
+      '/api/trip-templates/4',
+      jsonRequest(token, 'GET'),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(404);
+  });
+
+  test('POST /trip-templates/:id/pause releases unbooked occurrences and keeps booked ones', async () => {
+    const token = await authToken(12);
+    const future = Date.now() + 2 * 24 * 60 * 60 * 1000;
+    const runCalls: Array<{ query: string; params: unknown[] }> = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('FROM driver_trip_templates WHERE id = ? AND driver_id = ?')) return templateRow();
+      if (query.includes('FROM driver_trip_template_occurrences') && kind === 'all') {
+        return [
+          { id: 1, occurrence_date: '2099-01-01', trip_id: 300, driver_trip_id: 'dt-open', departure_time: future },
+          { id: 2, occurrence_date: '2099-01-02', trip_id: 301, driver_trip_id: 'dt-booked', departure_time: future },
+        ];
+      }
+      if (query.includes('FROM trip_participants')) {
+        return { count: params[0] === 301 ? 1 : 0 };
+      }
+      if (kind === 'run') {
+        runCalls.push({ query, params });
+        return { changes: 1 };
+      }
+      return null;
+    });
+
+    const res = await app.request(
+      '/api/trip-templates/4/pause',
+      jsonRequest(token, 'POST'),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ status: 'paused', released: 1, keptBooked: 1 });
+
+    const cancelledTrips = runCalls.filter((c) => c.query.includes("UPDATE trips SET status = 'cancelled'"));
+    expect(cancelledTrips.map((c) => c.params[0])).toEqual([300]);
+    const deleted = runCalls.filter((c) => c.query.includes('DELETE FROM driver_trip_template_occurrences WHERE id = ?'));
+    expect(deleted.map((c) => c.params[0])).toEqual([1]);
+  });
+
+  test('POST /trip-templates/:id/resume returns 409 when the template is active', async () => {
+    const token = await authToken(12);
+    const db = new MockDB((query) => {
+      if (query.includes('FROM driver_trip_templates WHERE id = ? AND driver_id = ?')) return templateRow();
+      return null;
+    });
+
+    const res = await app.request(
+      '/api/trip-templates/4/resume',
+      jsonRequest(token, 'POST'),
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(409);
+  });
+});
@@ -10,9 +10,11 @@
  * Uses the MockDB / MockKV pattern from security-hardening.test.ts.
  */
 
-import { describe, expect, test } from 'vitest';
+import { afterEach, describe, expect, test, vi } from 'vitest';
 import app from '../../src/index';
 import { createToken } from '../../src/middleware/auth';
+import { issueBoardingPass } from '../../src/lib/boarding';
+import { encryptPII } from '../../src/lib/encryption';
 import type { JWTPayload } from '../../src/types';
 
 // ---------------------------------------------------------------------------
@@ -24,7 +26,7 @@ type Resolver = (query: string, params: unknown[], kind: ResolverKind) => unknow
 
 class MockStmt {
   private params: unknown[] = [];
-  constructor(private query: string, private resolver: Resolver) {}
+  constructor(readonly query: string, private resolver: Resolver) {}
   bind(...values: unknown[]) { this.params = values; return this; }
   async first<T>(): Promise<T | null> { return (this.resolver(this.query, this.params, 'first') ?? null) as T | null; }
   async all<T>(): Promise<{ success: boolean; results?: T[] }> { return { success: true, results: (this.resolver(this.query, this.params, 'all') as T[]) ?? [] }; }
@@ -32,9 +34,15 @@ class MockStmt {
 }
 
 class MockDB {
+  readonly batches: string[][] = [];
   constructor(private resolver: Resolver) {}
   prepare(query: string) { return new MockStmt(query, this.resolver); }
-  async batch() { return []; }
+  async batch(statements: MockStmt[]) {
+    this.batches.push(statements.map((stmt) => stmt.query));
+    const out = [];
+    for (const stmt of statements) out.push(await stmt.run());
+    return out;
+  }
 }
 
 class MockKV {
@@ -70,6 +78,10 @@ async function authToken(userId: number, role: 'user' | 'admin' | 'super_admin'
   return createToken(payload, baseEnv.JWT_SECRET);
 }
 
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
 // ---------------------------------------------------------------------------
 // Tests
 // ---------------------------------------------------------------------------
@@ -423,6 +435,179 @@ describe('Trips routes contract tests', () => {
     expect(body.cancellation?.refundAmount).toBe(0);
   });
 
+  test('DELETE /trips/:id/book refunds part of a late cancellation and compensates the driver', async () => {
+    const token = await authToken(5);
+    const departure = new Date(Date.now() + 10 * 60 * 60 * 1000).toISOString();
+    const records: unknown[][] = [];
+    const notifications: unknown[][] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('FROM trip_participants tp') && kind === 'first') {
+        return {
+          booking_id: 54,
+          trip_id: 1,
+          user_id: 5,
+          passenger_count: 1,
+          payment_status: 'paid',
+          payment_intent_id: 'pi_late',
+          amount_paid: null,
+          split_fare_cents: null,
+          departure_time: departure,
+          price_per_seat: 120,
+          trip_status: 'scheduled',
+          driver_id: 9,
+          organization_id: null,
+        };
+      }
+      if (query.includes('SELECT stripe_connect_account_id') && kind === 'first') {
+        return { stripe_connect_account_id: 'acct_driver', stripe_connect_enabled: 1 };
+      }
+      if (query.includes('INSERT INTO trip_cancellations') && kind === 'run') {
+        records.push(params);
+        return { changes: 1 };
+      }
+      if (query.includes('INSERT INTO notifications') && kind === 'run') {
+        notifications.push(params);
+        return { changes: 1 };
+      }
+      if (kind === 'run') return { changes: 1 };
+      return null;
+    });
+    const stripeCalls: Array<{ url: string; body: string }> = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+      stripeCalls.push({ url, body: String(init?.body ?? '') });
+      return new Response(JSON.stringify({ id: url.endsWith('/refunds') ? 're_late' : 'tr_comp' }));
+    }));
+
+    const res = await app.request(
+      '/api/trips/1/book',
+      { method: 'DELETE', headers: { Authorization: `Bearer ${token}` } },
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+
+    expect(res.status).toBe(200);
+    const body = await res.json() as { cancellation: { refundAmount: number; penaltyAmount: number; fees: Record<string, unknown> } };
+    expect(body.cancellation).toMatchObject({ refundAmount: 60, penaltyAmount: 60 });
+    expect(body.cancellation.fees).toMatchObject({ tier: 'late', feeCents: 6000, refundCents: 6000, driverCompensationCents: 5100 });
+
+    expect(stripeCalls.map((call) => call.url.split('/').pop())).toEqual(['refunds', 'transfers']);
+    expect(stripeCalls[0].body).toContain('amount=6000');
+    expect(stripeCalls[1].body).toContain('amount=5100');
+    expect(records).toHaveLength(1);
+    expect(records[0]).toEqual(expect.arrayContaining(['rider', 'late', 're_late', 'transferred', 'tr_comp']));
+    expect(notifications.map((n) => n[0])).toEqual([5, 9]);
+    expect(String(notifications[0][6])).toContain('fee R60.00, refund R60.00');
+  });
+
+  test('DELETE /trips/:id/book refunds and compensates only once when the cancel is repeated', async () => {
+    const token = await authToken(5);
+    const departure = new Date(Date.now() + 10 * 60 * 60 * 1000).toISOString();
+    let claimed = false;
+    const records: unknown[][] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('FROM trip_participants tp') && kind === 'first') {
+        return {
+          booking_id: 55,
+          trip_id: 1,
+          user_id: 5,
+          passenger_count: 1,
+          payment_status: 'paid',
+          payment_intent_id: 'pi_twice',
+          amount_paid: null,
+          split_fare_cents: null,
+          departure_time: departure,
+          price_per_seat: 120,
+          trip_status: 'scheduled',
+          driver_id: 9,
+          organization_id: null,
+        };
+      }
+      if (query.includes('SELECT stripe_connect_account_id') && kind === 'first') {
+        return { stripe_connect_account_id: 'acct_driver', stripe_connect_enabled: 1 };
+      }
+      if (query.includes("SET status = 'cancelled'") && kind === 'run') {
+        // The second request finds the booking already cancelled
+        const changes = claimed ? 0 : 1;
+        claimed = true;
+        return { changes };
+      }
+      if (query.includes('INSERT INTO trip_cancellations') && kind === 'run') {
+        records.push(params);
+        return { changes: 1 };
+      }
+      if (kind === 'run') return { changes: 1 };
+      return null;
+    });
+    const stripeCalls: string[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      stripeCalls.push(url.split('/').pop() ?? '');
+      return new Response(JSON.stringify({ id: url.endsWith('/refunds') ? 're_once' : 'tr_once' }));
+    }));
+
+    const cancel = () => app.request(
+      '/api/trips/1/book',
+      { method: 'DELETE', headers: { Authorization: `Bearer ${token}` } },
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    const first = await cancel();
+    const second = await cancel();
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(409);
+    const body = await second.json() as { error?: { code?: string } };
+    expect(body.error?.code).toBe('CONFLICT');
+    expect(stripeCalls).toEqual(['refunds', 'transfers']);
+    expect(records).toHaveLength(1);
+  });
+
+  test('POST /trips/:id/cancel refunds riders in full and records the driver penalty', async () => {
+    const token = await authToken(1);
+    const records: unknown[][] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('SELECT id, driver_id, status FROM trips') && kind === 'first') {
+        return { id: 1, driver_id: 1, status: 'scheduled' };
+      }
+      if (query.includes("WHERE tp.trip_id = ? AND tp.status = 'accepted' AND tp.role = 'rider'") && kind === 'all') {
+        return [{
+          email: 'rider@example.com',
+          first_name_encrypted: null,
+          user_id: 21,
+          booking_id: 77,
+          payment_intent_id: 'pi_paid',
+          payment_status: 'paid',
+          passenger_count: 2,
+          amount_paid: 200,
+          split_fare_cents: null,
+          price_per_seat: 100,
+          title: 'Morning Trip',
+          departure_time: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+          origin: 'A',
+          destination: 'B',
+        }];
+      }
+      if (query.includes('INSERT INTO trip_cancellations') && kind === 'run') {
+        records.push(params);
+        return { changes: 1 };
+      }
+      if (kind === 'run') return { changes: 1 };
+      return null;
+    });
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ id: 're_full' })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const res = await app.request(
+      '/api/trips/1/cancel',
+      { method: 'POST', headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' }, body: JSON.stringify({ reason: 'Car trouble' }) },
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+
+    expect(res.status).toBe(200);
+    const body = await res.json() as { cancellation: { tier: string; refundCents: number; driverPenaltyCents: number } };
+    expect(body.cancellation).toMatchObject({ tier: 'last_minute', refundCents: 20000, driverPenaltyCents: 5000 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(records).toHaveLength(1);
+    expect(records[0]).toEqual(expect.arrayContaining(['driver', 'last_minute', 're_full']));
+  });
+
   test('POST /trips/:id/waitlist returns conflict when trip still has seats', async () => {
     const token = await authToken(7);
     const db = new MockDB((query, _params, kind) => {
@@ -540,6 +725,539 @@ describe('Trips routes contract tests', () => {
     expect(body.error?.code).toBe('AUTHORIZATION_ERROR');
   });
 
+  test('GET /trips/:id/boarding-pass and POST /trips/:id/board check a rider in by QR', async () => {
+    const runCalls: Array<{ query: string; params: unknown[] }> = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('SELECT tp.id, tp.status, tp.boarded_at, t.status AS trip_status') && kind === 'first') {
+        return { id: 12, status: 'accepted', boarded_at: null, trip_status: 'scheduled' };
+      }
+      if (query.includes('SELECT id, driver_id, status FROM trips') && kind === 'first') {
+        return { id: 1, driver_id: 9, status: 'scheduled' };
+      }
+      if (query.includes('boarding_failed_attempts') && query.includes('WHERE id = ? AND trip_id = ?') && kind === 'first') {
+        return { id: 12, trip_id: 1, user_id: 7, role: 'rider', status: 'accepted', boarded_at: null, boarding_failed_attempts: 0 };
+      }
+      if (kind === 'run') {
+        runCalls.push({ query, params: [...params] });
+        if (query.includes('SET boarded_at = ?')) return { changes: 1 };
+      }
+      return null;
+    });
+    const env = { ...baseEnv, DB: db, CACHE: new MockKV() };
+
+    const passRes = await app.request(
+      '/api/trips/1/boarding-pass',
+      { headers: { Authorization: `Bearer ${await authToken(7)}` } },
+      env,
+    );
+    expect(passRes.status).toBe(200);
+    const { boardingPass } = await passRes.json() as { boardingPass: { pin: string; qr: string; participantId: number } };
+    expect(boardingPass.pin).toMatch(/^\d{6}$/);
+    expect(boardingPass.participantId).toBe(12);
+
+    const res = await app.request(
+      '/api/trips/1/board',
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${await authToken(9)}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ qr: boardingPass.qr }),
+      },
+      env,
+    );
+
+    expect(res.status).toBe(200);
+    const body = await res.json() as { status?: string; method?: string; riderId?: number };
+    expect(body).toMatchObject({ status: 'on_board', method: 'qr', riderId: 7 });
+    const boardWrite = runCalls.find((call) => call.query.includes('SET boarded_at = ?'));
+    expect(boardWrite?.params.slice(1, 4)).toEqual(['qr', boardWrite?.params[0], 12]);
+  });
+
+  test('POST /trips/:id/board counts wrong PINs and locks the booking', async () => {
+    const runCalls: string[] = [];
+    let failedAttempts = 0;
+    const db = new MockDB((query, _params, kind) => {
+      if (query.includes('SELECT id, driver_id, status FROM trips') && kind === 'first') {
+        return { id: 1, driver_id: 9, status: 'active' };
+      }
+      if (query.includes('boarding_failed_attempts') && kind === 'first') {
+        return { id: 12, trip_id: 1, user_id: 7, role: 'rider', status: 'accepted', boarded_at: null, boarding_failed_attempts: failedAttempts };
+      }
+      if (kind === 'run') runCalls.push(query);
+      return null;
+    });
+    const { pin } = await issueBoardingPass(baseEnv.JWT_SECRET, 1, 12);
+    const wrongPin = String((Number(pin) + 1) % 1_000_000).padStart(6, '0');
+    const board = async () => app.request(
+      '/api/trips/1/board',
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${await authToken(9)}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ riderId: 7, pin: wrongPin }),
+      },
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+
+    const wrong = await board();
+    expect(wrong.status).toBe(400);
+    expect(runCalls.some((q) => q.includes('boarding_failed_attempts = boarding_failed_attempts + 1'))).toBe(true);
+
+    failedAttempts = 5;
+    const locked = await board();
+    expect(locked.status).toBe(429);
+    const body = await locked.json() as { error?: { code?: string } };
+    expect(body.error?.code).toBe('RATE_LIMIT_EXCEEDED');
+  });
+
+  test('POST /trips/:id/location keeps encrypted breadcrumbs that participants can export as GPX', async () => {
+    const breadcrumbs: Array<{ recorded_at: string; point_encrypted: string }> = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('SELECT id, driver_id, status, departure_time') && kind === 'first') {
+        return { id: 1, driver_id: 9, status: 'active', departure_time: '2026-03-02T07:00:00.000Z', origin: '', destination: '' };
+      }
+      if (query.includes('SELECT id, driver_id FROM trips') && kind === 'first') {
+        return { id: 1, driver_id: 9 };
+      }
+      if (query.includes('FROM trip_participants') && kind === 'first') {
+        return { id: 12, boarded_at: '2026-03-02T06:55:00.000Z', rider_arrived_at: null, segment_start_km: null, segment_end_km: null };
+      }
+      if (query.includes('INSERT INTO trip_location_breadcrumbs') && kind === 'run') {
+        breadcrumbs.push({ recorded_at: String(params[1]), point_encrypted: String(params[2]) });
+      }
+      if (query.includes('FROM trip_location_breadcrumbs') && kind === 'all') {
+        return breadcrumbs;
+      }
+      return null;
+    });
+    const env = { ...baseEnv, DB: db, CACHE: new MockKV() };
+    const driverToken = await authToken(9);
+    const post = (lat: number, lng: number) => app.request(
+      '/api/trips/1/location',
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${driverToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ lat, lng }),
+      },
+      env,
+    );
+
+    expect((await post(-26.2041, 28.0473)).status).toBe(200);
+    // Stationary update straight after is downsampled away
+    expect((await post(-26.2041, 28.0473)).status).toBe(200);
+    expect(breadcrumbs).toHaveLength(1);
+    expect(breadcrumbs[0].point_encrypted).not.toContain('-26.2041');
+
+    const res = await app.request(
+      '/api/trips/1/track?format=gpx',
+      { headers: { Authorization: `Bearer ${await authToken(7)}` } },
+      env,
+    );
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toContain('application/gpx+xml');
+    expect(await res.text()).toContain('<trkpt lat="-26.2041" lon="28.0473">');
+  });
+
+  test('POST /trips/:id/location records no breadcrumbs before the trip is under way', async () => {
+    const breadcrumbWrites: unknown[][] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('SELECT id, driver_id, status, departure_time') && kind === 'first') {
+        const departure = new Date(Date.now() + 3_600_000).toISOString();
+        return { id: 1, driver_id: 9, status: 'scheduled', departure_time: departure, origin: '', destination: '' };
+      }
+      if (query.includes('INSERT INTO trip_location_breadcrumbs') && kind === 'run') breadcrumbWrites.push(params);
+      return null;
+    });
+
+    const res = await app.request(
+      '/api/trips/1/location',
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${await authToken(9)}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ lat: -26.2041, lng: 28.0473 }),
+      },
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+
+    expect(res.status).toBe(200);
+    expect(breadcrumbWrites).toHaveLength(0);
+  });
+
+  test('POST /trips/:id/location alerts riders when the vehicle leaves the planned route', async () => {
+    const runCalls: Array<{ query: string; params: unknown[] }> = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('SELECT id, driver_id, status, departure_time') && kind === 'first') {
+        return { id: 1, driver_id: 9, status: 'scheduled', departure_time: '2026-03-02T07:00:00.000Z', origin: '', destination: '' };
+      }
+      if (query.includes("role = 'rider' AND status = 'accepted'") && kind === 'all') {
+        return [{ user_id: 7 }, { user_id: 8 }];
+      }
+      if (kind === 'run') runCalls.push({ query, params: [...params] });
+      return null;
+    });
+    const cache = new MockKV();
+    await cache.put('route:trip:1', JSON.stringify({
+      tripId: 1,
+      polyline: '',
+      waypoints: [{ lat: -26.2041, lng: 28.0473 }, { lat: -26.1541, lng: 28.0473 }],
+    }));
+
+    const res = await app.request(
+      '/api/trips/1/location',
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${await authToken(9)}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ lat: -26.18, lng: 28.07 }),
+      },
+      { ...baseEnv, DB: db, CACHE: cache },
+    );
+
+    expect(res.status).toBe(200);
+    const alert = runCalls.find((call) => call.query.includes('INSERT INTO trip_deviation_alerts'));
+    expect(alert?.params.slice(0, 2)).toEqual([1, 'off_route']);
+    expect(alert?.params.slice(6)).toEqual([2, 0]);
+    const notified = runCalls.filter((call) => call.query.includes('INSERT INTO notifications')).map((call) => call.params[0]);
+    expect(notified).toEqual([7, 8]);
+  });
+
+  test('POST /trips/:id/location refreshes the pickup ETA waiting riders see', async () => {
+    const pickupPoint = await encryptPII(JSON.stringify({ lat: -26.17, lng: 28.0473 }), baseEnv.ENCRYPTION_KEY, 7);
+    const db = new MockDB((query, _params, kind) => {
+      if (query.includes('SELECT id, driver_id, status, departure_time') && kind === 'first') {
+        return { id: 1, driver_id: 9, status: 'active', departure_time: '2026-03-02T07:00:00.000Z', origin: '', destination: '' };
+      }
+      if (query.includes('SELECT driver_id FROM trips') && kind === 'first') {
+        return { driver_id: 9 };
+      }
+      if (query.includes('FROM trip_participants') && kind === 'first') {
+        return { id: 12 };
+      }
+      if (query.includes('pickup_point_encrypted FROM trip_participants') && kind === 'all') {
+        return [{ user_id: 7, pickup_point_encrypted: pickupPoint }, { user_id: 8, pickup_point_encrypted: null }];
+      }
+      return null;
+    });
+    const cache = new MockKV();
+    await cache.put('route:trip:1', JSON.stringify({
+      tripId: 1,
+      polyline: '',
+      waypoints: [{ lat: -26.2041, lng: 28.0473 }, { lat: -26.1541, lng: 28.0473 }],
+    }));
+    const env = { ...baseEnv, DB: db, CACHE: cache };
+
+    const post = await app.request(
+      '/api/trips/1/location',
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${await authToken(9)}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ lat: -26.2, lng: 28.0473 }),
+      },
+      env,
+    );
+    expect(post.status).toBe(200);
+
+    const res = await app.request(
+      '/api/trips/1/location',
+      { headers: { Authorization: `Bearer ${await authToken(7)}` } },
+      env,
+    );
+    expect(res.status).toBe(200);
+    const body = await res.json() as { eta: { pickup: { riderId: number; distanceKm: number; etaMinutes: number } | null } };
+    expect(body.eta.pickup).toMatchObject({ riderId: 7, etaMinutes: 6 });
+    expect(body.eta.pickup?.distanceKm).toBeCloseTo(3.34, 1);
+  });
+
+  test('share links expose live tracking publicly until revoked, auditing one view per window', async () => {
+    const links: Array<{ tokenHash: string; revokedAt: string | null; lastAccessedAt: string | null }> = [];
+    const audits: string[] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('FROM trip_participants tp') && query.includes('JOIN trips t') && kind === 'first') {
+        return { id: 12, status: 'accepted', trip_status: 'scheduled' };
+      }
+      if (query.includes('INSERT INTO trip_share_links') && kind === 'run') {
+        links.push({ tokenHash: String(params[3]), revokedAt: null, lastAccessedAt: null });
+        return { last_row_id: links.length };
+      }
+      if (query.includes('FROM trip_share_links s') && kind === 'first') {
+        const link = links.find((l) => l.tokenHash === params[0]);
+        if (!link) return null;
+        return {
+          id: 1, trip_id: 1, participant_id: 12, user_id: 7,
+          expires_at: new Date(Date.now() + 3_600_000).toISOString(), revoked_at: link.revokedAt,
+          trip_status: 'active', departure_time: '2026-03-02T07:00:00.000Z', vehicle_type: 'sedan',
+          vehicle_plate_encrypted: 'CA 123-456', driver_id: 9, driver_first_name: 'Thandi', participant_status: 'accepted',
+          participant_boarded_at: '2026-03-02T07:01:00.000Z',
+        };
+      }
+      if (query.includes('UPDATE trip_share_links SET last_accessed_at') && kind === 'run') {
+        const last = links[0].lastAccessedAt;
+        if (last && last > String(params[2])) return { changes: 0 };
+        links[0].lastAccessedAt = String(params[0]);
+        return { changes: 1 };
+      }
+      if (query.includes('UPDATE trip_share_links SET revoked_at') && kind === 'run') {
+        links[0].revokedAt = String(params[0]);
+        return { changes: 1 };
+      }
+      if (query.includes('INSERT INTO audit_logs') && kind === 'run') audits.push(String(params[1]));
+      return null;
+    });
+    const cache = new MockKV();
+    await cache.put('location:trip:1', JSON.stringify({ lat: -26.19, lng: 28.0473, updatedAt: '2026-03-02T07:05:00.000Z' }));
+    const env = { ...baseEnv, DB: db, CACHE: cache };
+    const riderToken = await authToken(7);
+
+    const created = await app.request(
+      '/api/trips/1/share',
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${riderToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ expiresInHours: 2 }),
+      },
+      env,
+    );
+    expect(created.status).toBe(201);
+    const { share } = await created.json() as { share: { id: number; token: string; url: string } };
+    expect(share.url).toContain(`/share/${share.token}`);
+    expect(links[0].tokenHash).not.toBe(share.token);
+
+    const viewed = await app.request(`/api/share/${share.token}`, {}, env);
+    expect(viewed.status).toBe(200);
+    const body = await viewed.json() as {
+      trip: { riderStatus: string }; driver: { firstName: string; vehiclePlate: string }; location: { lat: number };
+    };
+    expect(body.trip.riderStatus).toBe('on_board');
+    expect(body.driver).toMatchObject({ firstName: 'Thandi', vehiclePlate: 'CA 123-456' });
+    expect(body.location.lat).toBe(-26.19);
+    // The next poll is served but not counted or audited again
+    expect((await app.request(`/api/share/${share.token}`, {}, env)).status).toBe(200);
+
+    const revoked = await app.request(
+      `/api/trips/1/share/${share.id}`,
+      { method: 'DELETE', headers: { Authorization: `Bearer ${riderToken}` } },
+      env,
+    );
+    expect(revoked.status).toBe(200);
+    expect((await app.request(`/api/share/${share.token}`, {}, env)).status).toBe(404);
+    expect(audits).toEqual(['TRIP_SHARE_CREATED', 'TRIP_SHARE_VIEWED', 'TRIP_SHARE_REVOKED', 'TRIP_SHARE_VIEWED']);
+  });
+
+  test('POST /trips/:id/bookings/:id/accept holds part-route bookings on their segment only', async () => {
+    let acceptChanges = 1;
+    const runs: { query: string; params: unknown[] }[] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('SELECT id, driver_id FROM trips') && kind === 'first') return { id: 1, driver_id: 9 };
+      if (query.includes('SELECT segment_start_km, segment_end_km FROM trip_participants') && kind === 'first') {
+        return { segment_start_km: 2, segment_end_km: 6 };
+      }
+      if (query.includes('SELECT status FROM trip_participants') && kind === 'first') return { status: 'requested' };
+      if (query.includes('available_seats = available_seats -')) throw new Error('whole-route decrement used');
+      if (kind === 'run') {
+        runs.push({ query, params });
+        if (query.includes("SET status = 'accepted'")) return { changes: acceptChanges };
+        return { changes: 1 };
+      }
+      return null;
+    });
+    const env = { ...baseEnv, DB: db, CACHE: new MockKV() };
+    const accept = async () => app.request(
+      '/api/trips/1/bookings/12/accept',
+      { method: 'POST', headers: { Authorization: `Bearer ${await authToken(9)}` } },
+      env,
+    );
+
+    expect((await accept()).status).toBe(200);
+    // The acceptance is guarded on the booking's segment and recomputes
+    // availability in the same batch
+    const [statements] = db.batches;
+    expect(statements).toHaveLength(2);
+    expect(statements?.[0]).toContain("SET status = 'accepted'");
+    expect(statements?.[0]).toContain('<= (SELECT total_seats FROM trips WHERE id = ?3)');
+    expect(statements?.[1]).toContain('total_seats -');
+    expect(statements?.[1]).toContain('changes() > 0');
+    expect(runs[0]?.params).toEqual([0, '12', '1', 2, 6]);
+
+    // The segment is already full: the booking stays pending untouched
+    acceptChanges = 0;
+    runs.length = 0;
+    const full = await accept();
+    expect(full.status).toBe(409);
+    expect(runs.some((r) => r.query.includes("SET status = 'requested'"))).toBe(false);
+  });
+
+  test('GET /trips/available filters in SQL, sorts and pages with a cursor', async () => {
+    const token = await authToken(1);
+    const departure = new Date(Date.now() + 30 * 60_000).toISOString();
+    const row = (id: number, price: number) => ({
+      id,
+      origin: JSON.stringify({ lat: -26.1076, lng: 28.0567 }),
+      destination: JSON.stringify({ lat: -26.1452, lng: 28.0419 }),
+      departure_time: departure,
+      available_seats: 2,
+      vehicle_type: 'suv',
+      price_per_seat: price,
+      driver_id: 100 + id,
+      route_distance_km: null,
+      trip_type: 'daily',
+      accessibility_json: '["wheelchair_accessible"]',
+      first_name_encrypted: null,
+      last_name_encrypted: null,
+      driver_avg_rating: 4.8,
+    });
+    const searches: { query: string; params: unknown[] }[] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (kind === 'all' && query.includes('FROM trips t')) {
+        searches.push({ query, params });
+        return [row(1, 50), row(2, 30), row(3, 40)];
+      }
+      return null;
+    });
+    const env = { ...baseEnv, DB: db, CACHE: new MockKV() };
+    const search = (extra: string, lat = '-26.1076') => app.request(
+      `/api/trips/available?pickupLat=${lat}&pickupLng=28.0567&dropoffLat=-26.1452&dropoffLng=28.0419`
+        + `&vehicleType=suv&accessibility=wheelchair_accessible&maxPrice=60&sort=price&limit=2${extra}`,
+      { method: 'GET', headers: { Authorization: `Bearer ${token}` } },
+      env,
+    );
+
+    const first = await search('');
+    expect(first.status).toBe(200);
+    const page1 = (await first.json()) as { trips: { id: string; pricePerSeat: number; accessibilityFeatures: string[] }[]; nextCursor: string | null; totalResults: number };
+    expect(page1.trips.map((t) => t.pricePerSeat)).toEqual([30, 40]);
+    expect(page1.trips[0].accessibilityFeatures).toEqual(['wheelchair_accessible']);
+    expect(page1.totalResults).toBe(3);
+    expect(page1.nextCursor).toBeTruthy();
+    expect(searches[0].query).toContain('t.vehicle_type IN (?)');
+    expect(searches[0].query).toContain('json_each(t.accessibility_json)');
+    expect(searches[0].params.slice(1)).toEqual([60, 'suv', 'wheelchair_accessible']);
+
+    // A nearby pickup reuses the cached ranking for the next page
+    const second = await search(`&cursor=${page1.nextCursor}`, '-26.1078');
+    const page2 = (await second.json()) as { trips: { pricePerSeat: number }[]; nextCursor: string | null };
+    expect(page2.trips.map((t) => t.pricePerSeat)).toEqual([50]);
+    expect(page2.nextCursor).toBeNull();
+    expect(searches).toHaveLength(1);
+  });
+
+  test('POST /trips/:id/book accepts riders who meet the driver\'s instant booking rule', async () => {
+    const token = await authToken(5);
+    const runs: { query: string; params: unknown[] }[] = [];
+    const booking = (standing: Record<string, unknown>, acceptChanges = 1) => {
+      runs.length = 0;
+      const db = new MockDB((query, params, kind) => {
+        if (query.includes('SELECT id, available_seats, status, driver_id FROM trips')) {
+          return { id: 1, available_seats: 2, status: 'scheduled', driver_id: 9 };
+        }
+        if (query.includes('FROM instant_booking_rules') && kind === 'first') {
+          return { trip_id: 0, enabled: 1, min_rider_rating: 4.5, same_organization_only: 0, verified_riders_only: 1, min_prior_rides: 1 };
+        }
+        if (query.includes('FROM users r, users d') && kind === 'first') return standing;
+        if (query.includes('SELECT status FROM trip_participants') && kind === 'first') return { status: 'requested' };
+        if (kind === 'run') {
+          runs.push({ query, params });
+          if (query.includes('INSERT INTO trip_participants')) return { last_row_id: 77 };
+          if (query.includes("SET status = 'accepted'")) return { changes: acceptChanges };
+          return { changes: 1 };
+        }
+        return null;
+      });
+      return app.request(
+        '/api/trips/1/book',
+        {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ pickupLocation: { address: 'A' }, dropoffLocation: { address: 'B' } }),
+        },
+        { ...baseEnv, DB: db, CACHE: new MockKV() },
+      );
+    };
+    const trusted = { rider_org: null, driver_org: null, email_verified: 1, avg_rating: 4.8, prior_rides: 3 };
+
+    const res = await booking(trusted);
+    expect(res.status).toBe(200);
+    const body = await res.json() as { booking: { id: number; status: string; instantBooked: boolean } };
+    expect(body.booking).toMatchObject({ id: 77, status: 'accepted', instantBooked: true });
+    const accept = runs.find((r) => r.query.includes("SET status = 'accepted'"));
+    expect(accept?.params).toEqual([1, 77, '1']);
+    expect(accept?.query).toContain('COALESCE(passenger_count, 1) <= (SELECT available_seats FROM trips WHERE id = ?3)');
+    expect(runs.some((r) => r.query.includes('available_seats = available_seats -') && r.query.includes('changes() > 0'))).toBe(true);
+
+    // A first ride with this driver waits for approval
+    const newcomer = await booking({ ...trusted, prior_rides: 0 });
+    expect((await newcomer.json() as { booking: { status: string } }).booking.status).toBe('requested');
+    expect(runs.some((r) => r.query.includes("SET status = 'accepted'"))).toBe(false);
+
+    // Losing the race for the last seat also leaves the booking pending
+    const raced = await booking(trusted, 0);
+    expect((await raced.json() as { booking: { status: string; instantBooked: boolean } }).booking).toMatchObject({ status: 'requested', instantBooked: false });
+    expect(runs.some((r) => r.query.includes("SET status = 'requested'"))).toBe(false);
+  });
+
+  test('POST /trips/:id/book links the driver offer and returns the amount due', async () => {
+    const token = await authToken(5);
+    let inserted: unknown[] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('SELECT id, available_seats, status, driver_id FROM trips')) {
+        return { id: 1, available_seats: 2, status: 'scheduled', driver_id: 9 };
+      }
+      if (query.includes('FROM driver_trips WHERE id = ? AND driver_id = ?')) {
+        return params[0] === 'dt-9' && params[1] === 9 ? { id: 'dt-9' } : null;
+      }
+      if (query.includes('SELECT price_per_seat FROM trips')) return { price_per_seat: 45 };
+      if (query.includes('INSERT INTO trip_participants') && kind === 'run') {
+        inserted = params;
+        return { last_row_id: 78 };
+      }
+      return null;
+    });
+    const book = (driverTripId: string) => app.request(
+      '/api/trips/1/book',
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pickupLocation: { address: 'A' }, dropoffLocation: { address: 'B' }, driverTripId }),
+      },
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+
+    const res = await book('dt-9');
+    expect(res.status).toBe(200);
+    const body = await res.json() as { booking: { amountDue: number; pooledFare: boolean } };
+    expect(body.booking).toMatchObject({ amountDue: 45, pooledFare: false });
+    expect(inserted[inserted.length - 1]).toBe('dt-9');
+
+    // Another driver's offer cannot be attached to this trip
+    inserted = [];
+    expect((await book('dt-other')).status).toBe(400);
+    expect(inserted).toHaveLength(0);
+  });
+
+  test('PUT /trips/:id/instant-booking sets a trip rule on top of the driver-wide one', async () => {
+    const token = await authToken(9);
+    let upsert: unknown[] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('SELECT id, driver_id FROM trips')) return { id: 1, driver_id: params[0] === 1 ? 9 : 4 };
+      if (query.includes('FROM instant_booking_rules') && kind === 'first') {
+        return { trip_id: 0, enabled: 1, min_rider_rating: null, same_organization_only: 1, verified_riders_only: 0, min_prior_rides: 0 };
+      }
+      if (query.includes('INSERT INTO instant_booking_rules') && kind === 'run') upsert = params;
+      return null;
+    });
+    const env = { ...baseEnv, DB: db, CACHE: new MockKV() };
+    const put = (tripId: number, body: unknown) => app.request(
+      `/api/trips/${tripId}/instant-booking`,
+      { method: 'PUT', headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' }, body: JSON.stringify(body) },
+      env,
+    );
+
+    const res = await put(1, { minPriorRides: 2 });
+    expect(res.status).toBe(200);
+    const body = await res.json() as { rule: { tripId: number; sameOrganizationOnly: boolean; minPriorRides: number }; source: string };
+    expect(body).toMatchObject({ rule: { tripId: 1, sameOrganizationOnly: true, minPriorRides: 2 }, source: 'trip' });
+    expect(upsert).toEqual([9, 1, 1, null, 1, 0, 2]);
+
+    expect((await put(2, { enabled: false })).status).toBe(403);
+    expect((await put(1, { minRiderRating: 9 })).status).toBe(400);
+  });
+
   // ── Successful path sanity ────────────────────────────────────────────────
 
   test('POST /trips/offer returns 200 and tripId for valid payload', async () => {
@@ -570,6 +1288,41 @@ describe('Trips routes contract tests', () => {
     expect(body.trip?.id).toBe(99);
   });
 
+  test('POST /trips/offer prices coordinates with the engine and stores the breakdown', async () => {
+    const token = await authToken(1);
+    const saved: unknown[][] = [];
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('FROM rider_requests') && kind === 'first') return { seats: 6 };
+      if (query.includes('FROM driver_trips') && kind === 'first') return { seats: 2 };
+      if (query.includes('INSERT INTO trips') && kind === 'run') return { last_row_id: 99 };
+      if (query.includes('INSERT INTO price_breakdowns') && kind === 'run') {
+        saved.push(params);
+        return { changes: 1 };
+      }
+      return null;
+    });
+    const res = await app.request(
+      '/api/trips/offer',
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          pickupLocation: { address: 'Johannesburg CBD', lat: -26.2041, lng: 28.0473 },
+          dropoffLocation: { address: 'Sandton', lat: -26.1076, lng: 28.0567 },
+          scheduledTime: new Date(Date.now() + 3_600_000).toISOString(),
+          vehicleInfo: { make: 'Toyota', model: 'Corolla', licensePlate: 'GP001XYZ' },
+          availableSeats: 3,
+        }),
+      },
+      { ...baseEnv, DB: db, CACHE: new MockKV() },
+    );
+    expect(res.status).toBe(200);
+    const body = await res.json() as { pricing?: { demand: { ratio: number; multiplier: number }; fareCents: number } };
+    expect(body.pricing?.demand).toMatchObject({ ratio: 3, multiplier: 1.3 });
+    expect(saved).toHaveLength(1);
+    expect(saved[0].slice(0, 3)).toEqual(['trip', '99', body.pricing?.fareCents]);
+  });
+
   test('POST /trips/:id/cancel succeeds for driver with valid trip', async () => {
     const token = await authToken(1);
     let cancelUpdateCalled = false;
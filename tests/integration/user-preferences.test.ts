@@ -222,4 +222,44 @@ describe('User preferences integration flows', () => {
     expect(getBody.timezone).toBe('Europe/Paris');
     expect(getBody.currency).toBe('EUR');
   });
+
+  test('driver profile gender is opt-in and cleared sharing follows cleared gender', async () => {
+    const token = await authToken(41);
+    let storedRow: { gender: string | null; share_gender_for_matching: number } | null = null;
+
+    const db = new MockDB((query, params, kind) => {
+      if (query.includes('FROM driver_attribute_profiles') && kind === 'first') return storedRow;
+      if (query.includes('INSERT INTO driver_attribute_profiles') && kind === 'run') {
+        storedRow = { gender: params[1] as string | null, share_gender_for_matching: Number(params[2]) };
+        return { success: true };
+      }
+      return null;
+    });
+    const env = { ...baseEnv, DB: db, CACHE: new MockKV() };
+    const put = (body: unknown) => app.request(
+      '/api/users/driver-profile',
+      {
+        method: 'PUT',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      },
+      env,
+    );
+
+    const defaults = await app.request('/api/users/driver-profile', { headers: { Authorization: `Bearer ${token}` } }, env);
+    expect(await defaults.json()).toEqual({ gender: null, shareGenderForMatching: false });
+
+    const stored = await put({ gender: 'female' });
+    expect(await stored.json()).toEqual({ gender: 'female', shareGenderForMatching: false });
+
+    const shared = await put({ shareGenderForMatching: true });
+    expect(await shared.json()).toEqual({ gender: 'female', shareGenderForMatching: true });
+
+    const cleared = await put({ gender: null });
+    expect(await cleared.json()).toEqual({ gender: null, shareGenderForMatching: false });
+    expect(storedRow).toEqual({ gender: null, share_gender_for_matching: 0 });
+
+    const invalid = await put({ gender: null, shareGenderForMatching: true });
+    expect(invalid.status).toBe(400);
+  });
 });
@@ -0,0 +1,36 @@
+import { describe, expect, test } from 'vitest';
+import {
+  BOARDING_PASS_WINDOW_SECONDS,
+  issueBoardingPass,
+  verifyBoardingPin,
+  verifyBoardingQr,
+} from '../../src/lib/boarding';
+
+const secret = 'boarding-test-secret-0123456789';
+const now = Date.parse('2026-03-02T07:01:00Z');
+const windowMs = BOARDING_PASS_WINDOW_SECONDS * 1000;
+
+describe('boarding passes', () => {
+  test('QR payload verifies for its booking until it expires', async () => {
+    const pass = await issueBoardingPass(secret, 4, 12, now);
+    expect(await verifyBoardingQr(secret, pass.qr, now)).toMatchObject({ tripId: 4, participantId: 12 });
+    expect(await verifyBoardingQr(secret, pass.qr, Date.parse(pass.expiresAt))).toBeNull();
+    expect(await verifyBoardingQr('other-secret', pass.qr, now)).toBeNull();
+  });
+
+  test('tampered QR payloads are rejected', async () => {
+    const pass = await issueBoardingPass(secret, 4, 12, now);
+    const tampered = pass.qr.replace('.4.12.', '.4.13.');
+    expect(await verifyBoardingQr(secret, tampered, now)).toBeNull();
+    expect(await verifyBoardingQr(secret, 'not-a-pass', now)).toBeNull();
+  });
+
+  test('PIN survives one rotation and is bound to the booking', async () => {
+    const pass = await issueBoardingPass(secret, 4, 12, now);
+    expect(pass.pin).toMatch(/^\d{6}$/);
+    expect(await verifyBoardingPin(secret, 4, 12, pass.pin, now)).toBe(true);
+    expect(await verifyBoardingPin(secret, 4, 12, pass.pin, now + windowMs)).toBe(true);
+    expect(await verifyBoardingPin(secret, 4, 12, pass.pin, now + 2 * windowMs)).toBe(false);
+    expect(await verifyBoardingPin(secret, 4, 13, pass.pin, now)).toBe(false);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'vitest';
+import { bookingResponseDeadline, bookingResponseStage } from '../../src/lib/bookingExpiry';
+import { DEFAULT_CANCELLATION_POLICY } from '../../src/lib/cancellationPolicy';
+
+const policy = { ...DEFAULT_CANCELLATION_POLICY, bookingResponseHours: 10 };
+const hour = 60 * 60 * 1000;
+const requestedMs = Date.parse('2026-03-02T06:00:00.000Z');
+
+function booking(partial: Partial<{ departure_time: string; response_reminders_sent: number }> = {}) {
+  return {
+    requested_at: '2026-03-02 06:00:00',
+    departure_time: '2026-03-03T07:00:00.000Z',
+    response_reminders_sent: 0,
+    ...partial,
+  };
+}
+
+describe('bookingResponseDeadline', () => {
+  test('allows the policy response window after the request', () => {
+    expect(bookingResponseDeadline(booking(), policy)).toBe(requestedMs + 10 * hour);
+  });
+
+  test('never runs past departure', () => {
+    expect(bookingResponseDeadline(booking({ departure_time: '2026-03-02T10:00:00.000Z' }), policy)).toBe(requestedMs + 4 * hour);
+  });
+
+  test('is null for unreadable times', () => {
+    expect(bookingResponseDeadline(booking({ departure_time: 'soon' }), policy)).toBeNull();
+  });
+});
+
+describe('bookingResponseStage', () => {
+  test('reminds halfway, then a final reminder, then expires', () => {
+    expect(bookingResponseStage(booking(), policy, requestedMs + 4 * hour)).toBeNull();
+    expect(bookingResponseStage(booking(), policy, requestedMs + 5 * hour)).toEqual({ action: 'remind', reminder: 1, final: false });
+    expect(bookingResponseStage(booking({ response_reminders_sent: 1 }), policy, requestedMs + 7 * hour)).toBeNull();
+    expect(bookingResponseStage(booking({ response_reminders_sent: 1 }), policy, requestedMs + 8 * hour)).toEqual({ action: 'remind', reminder: 2, final: true });
+    expect(bookingResponseStage(booking({ response_reminders_sent: 2 }), policy, requestedMs + 10 * hour)).toEqual({ action: 'expire' });
+  });
+
+  test('skips straight to the latest reminder due', () => {
+    expect(bookingResponseStage(booking(), policy, requestedMs + 9 * hour)).toEqual({ action: 'remind', reminder: 2, final: true });
+  });
+
+  test('scales reminders to a window cut short by departure', () => {
+    const early = booking({ departure_time: '2026-03-02T08:00:00.000Z' });
+    expect(bookingResponseStage(early, policy, requestedMs + hour)).toEqual({ action: 'remind', reminder: 1, final: false });
+    expect(bookingResponseStage(early, policy, requestedMs + 2 * hour)).toEqual({ action: 'expire' });
+  });
+});
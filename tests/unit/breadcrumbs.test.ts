@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'vitest';
+import {
+  BREADCRUMB_MIN_INTERVAL_MS,
+  breadcrumbsToGeoJSON,
+  breadcrumbsToGPX,
+  riderSegmentBreadcrumbs,
+  shouldKeepBreadcrumb,
+} from '../../src/lib/breadcrumbs';
+import type { Breadcrumb } from '../../src/lib/breadcrumbs';
+
+const point = (lat: number, lng: number, recordedAt: string): Breadcrumb => ({
+  lat, lng, heading: null, speed: null, accuracy: null, recordedAt,
+});
+
+describe('shouldKeepBreadcrumb', () => {
+  const last = { lat: -26.2041, lng: 28.0473, at: 1_000_000 };
+
+  test('drops nearby points inside the interval', () => {
+    expect(shouldKeepBreadcrumb(last, { lat: -26.2042, lng: 28.0473 }, last.at + 5_000)).toBe(false);
+  });
+
+  test('keeps points once the driver moves or the interval passes', () => {
+    expect(shouldKeepBreadcrumb(last, { lat: -26.2051, lng: 28.0473 }, last.at + 5_000)).toBe(true);
+    expect(shouldKeepBreadcrumb(last, last, last.at + BREADCRUMB_MIN_INTERVAL_MS)).toBe(true);
+    expect(shouldKeepBreadcrumb(null, last, last.at)).toBe(true);
+  });
+});
+
+describe('riderSegmentBreadcrumbs', () => {
+  // Roughly 1 km apart heading north
+  const track = [
+    point(-26.2300, 28.0473, '2026-03-02T07:00:00.000Z'),
+    point(-26.2210, 28.0473, '2026-03-02T07:02:00.000Z'),
+    point(-26.2120, 28.0473, '2026-03-02T07:04:00.000Z'),
+    point(-26.2030, 28.0473, '2026-03-02T07:06:00.000Z'),
+    point(-26.1940, 28.0473, '2026-03-02T07:08:00.000Z'),
+  ];
+
+  test('starts at pickup and stops once the booked segment is covered', () => {
+    const segment = riderSegmentBreadcrumbs(track, '2026-03-02T07:01:00.000Z', 1.5);
+    expect(segment.map((p) => p.recordedAt)).toEqual([
+      '2026-03-02T07:02:00.000Z',
+      '2026-03-02T07:04:00.000Z',
+      '2026-03-02T07:06:00.000Z',
+    ]);
+  });
+
+  test('runs to the end of the track without a segment and is empty without a pickup', () => {
+    expect(riderSegmentBreadcrumbs(track, '2026-03-02T07:05:00.000Z', null)).toHaveLength(2);
+    expect(riderSegmentBreadcrumbs(track, null, 3)).toEqual([]);
+  });
+});
+
+describe('track export', () => {
+  const points = [
+    point(-26.2041, 28.0473, '2026-03-02T07:00:00.000Z'),
+    point(-26.1952, 28.0341, '2026-03-02T07:05:00.000Z'),
+  ];
+
+  test('GeoJSON uses [lng, lat] coordinates with timestamps', () => {
+    const feature = breadcrumbsToGeoJSON(4, points).features[0];
+    expect(feature.geometry.coordinates).toEqual([[28.0473, -26.2041], [28.0341, -26.1952]]);
+    expect(feature.properties).toMatchObject({
+      tripId: 4,
+      pointCount: 2,
+      startedAt: '2026-03-02T07:00:00.000Z',
+      endedAt: '2026-03-02T07:05:00.000Z',
+    });
+  });
+
+  test('GPX lists each point as a track point', () => {
+    const gpx = breadcrumbsToGPX(4, points);
+    expect(gpx).toContain('<trkpt lat="-26.2041" lon="28.0473"><time>2026-03-02T07:00:00.000Z</time></trkpt>');
+    expect(gpx.match(/<trkpt /g)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'vitest';
+import {
+  assessCancellation,
+  cancellationPolicySchema,
+  DEFAULT_CANCELLATION_POLICY,
+  describeAssessment,
+} from '../../src/lib/cancellationPolicy';
+
+const policy = DEFAULT_CANCELLATION_POLICY;
+
+describe('assessCancellation', () => {
+  test('rider tiers keep a growing share of the paid fare', () => {
+    const at = (hours: number) => assessCancellation(policy, {
+      initiator: 'rider',
+      hoursBeforeDeparture: hours,
+      fareCents: 12000,
+      paidCents: 12000,
+    });
+
+    expect(at(30)).toMatchObject({ tier: 'free', feeCents: 0, refundCents: 12000, driverCompensationCents: 0 });
+    expect(at(10)).toMatchObject({ tier: 'late', feeCents: 6000, refundCents: 6000, driverCompensationCents: 5100 });
+    expect(at(1)).toMatchObject({ tier: 'last_minute', feeCents: 12000, refundCents: 0 });
+  });
+
+  test('cancelling after departure is a no-show', () => {
+    const fees = assessCancellation(
+      { ...policy, noShowFeePct: 0.8 },
+      { initiator: 'rider', hoursBeforeDeparture: -0.5, fareCents: 10000, paidCents: 10000 },
+    );
+    expect(fees).toMatchObject({ tier: 'no_show', feePct: 0.8, feeCents: 8000, refundCents: 2000 });
+  });
+
+  test('unpaid bookings are never charged', () => {
+    const fees = assessCancellation(policy, { initiator: 'rider', hoursBeforeDeparture: 2, fareCents: 9000, paidCents: 0 });
+    expect(fees).toMatchObject({ feePct: 1, feeCents: 0, refundCents: 0, driverCompensationCents: 0 });
+  });
+
+  test('driver cancellations refund in full and record a penalty', () => {
+    const fees = assessCancellation(policy, { initiator: 'driver', hoursBeforeDeparture: 1, fareCents: 10000, paidCents: 10000 });
+    expect(fees).toMatchObject({ tier: 'last_minute', feeCents: 0, refundCents: 10000, driverPenaltyCents: 2500 });
+    expect(describeAssessment(fees)).toBe('Full refund of R100.00');
+  });
+
+  test('unknown departure falls into the latest tier', () => {
+    const fees = assessCancellation(policy, { initiator: 'rider', hoursBeforeDeparture: null, fareCents: 5000, paidCents: 5000 });
+    expect(fees.tier).toBe('last_minute');
+  });
+
+  test('summarises rider fees for notifications', () => {
+    const fees = assessCancellation(policy, { initiator: 'rider', hoursBeforeDeparture: 10, fareCents: 12000, paidCents: 12000 });
+    expect(describeAssessment(fees)).toBe('Late cancellation: fee R60.00, refund R60.00');
+  });
+});
+
+describe('cancellationPolicySchema', () => {
+  test('accepts the default policy and rejects unordered tiers', () => {
+    expect(cancellationPolicySchema.safeParse(policy).success).toBe(true);
+    const unordered = { ...policy, rider: [...policy.rider].reverse() };
+    expect(cancellationPolicySchema.safeParse(unordered).success).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'vitest';
+import {
+  distanceAlongRoute,
+  ETA_REFRESH_INTERVAL_MS,
+  ETA_SHIFT_NOTIFY_MINUTES,
+  etaShifted,
+  tripEtaCacheKey,
+  updateTripEtas,
+} from '../../src/lib/eta';
+import type { Bindings, D1Database } from '../../src/types';
+import { haversine } from '../../src/lib/matching/geo';
+
+// Johannesburg CBD north ~5.5 km, then east ~2 km
+const route = [
+  { lat: -26.2041, lng: 28.0473 },
+  { lat: -26.1541, lng: 28.0473 },
+  { lat: -26.1541, lng: 28.0673 },
+];
+
+describe('distanceAlongRoute', () => {
+  test('follows the route across segments', () => {
+    const driver = { lat: -26.19, lng: 28.0473 };
+    const pickup = { lat: -26.1541, lng: 28.06 };
+    const along = distanceAlongRoute(route, driver, pickup);
+    const expected = haversine(driver, route[1]) + haversine(route[1], pickup);
+    expect(along).toBeCloseTo(expected, 5);
+    expect(along!).toBeGreaterThan(haversine(driver, pickup));
+  });
+
+  test('is null for pickups already behind the driver or off the route', () => {
+    const driver = { lat: -26.1541, lng: 28.06 };
+    expect(distanceAlongRoute(route, driver, { lat: -26.19, lng: 28.0473 })).toBeNull();
+    expect(distanceAlongRoute(route, { lat: -26.19, lng: 28.0473 }, { lat: -26.18, lng: 28.08 })).toBeNull();
+  });
+});
+
+describe('etaShifted', () => {
+  const eta = '2026-03-02T07:30:00.000Z';
+
+  test('notifies the first ETA and shifts past the threshold', () => {
+    expect(etaShifted(null, eta)).toBe(true);
+    const later = new Date(Date.parse(eta) + ETA_SHIFT_NOTIFY_MINUTES * 60_000).toISOString();
+    expect(etaShifted(eta, later)).toBe(true);
+  });
+
+  test('ignores small changes', () => {
+    const slightlyLater = new Date(Date.parse(eta) + 60_000).toISOString();
+    expect(etaShifted(eta, slightlyLater)).toBe(false);
+  });
+});
+
+describe('updateTripEtas', () => {
+  test('clears the snapshot once no rider is waiting for pickup', async () => {
+    const store = new Map<string, string>();
+    const cache = {
+      get: async (key: string) => {
+        const raw = store.get(key);
+        return raw ? JSON.parse(raw) : null;
+      },
+      put: async (key: string, value: string) => { store.set(key, value); },
+      delete: async (key: string) => { store.delete(key); },
+    };
+    const now = Date.parse('2026-03-02T07:10:00.000Z');
+    store.set(tripEtaCacheKey(1), JSON.stringify({
+      tripId: 1,
+      updatedAt: new Date(now - ETA_REFRESH_INTERVAL_MS).toISOString(),
+      riders: [{ riderId: 7, distanceKm: 1, etaMinutes: 3, eta: '2026-03-02T07:13:00.000Z', notifiedEta: null }],
+    }));
+    const db = {
+      prepare: () => ({ bind: () => ({ all: async () => ({ results: [] }) }) }),
+    } as unknown as D1Database;
+    const env = { CACHE: cache } as unknown as Bindings;
+    const trip = { id: 1, driver_id: 9, origin: '', destination: '' };
+
+    await expect(updateTripEtas(env, db, trip, route[0], now)).resolves.toBeNull();
+    expect(store.has(tripEtaCacheKey(1))).toBe(false);
+  });
+});
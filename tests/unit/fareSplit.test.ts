@@ -0,0 +1,35 @@
+import { describe, expect, test } from 'vitest';
+import { splitPoolFare } from '../../src/lib/fareSplit';
+import type { PoolStop } from '../../src/lib/matching/types';
+
+const at = (lat: number) => ({ lat, lng: 18.42 });
+
+// A rides 10 km, B rides 12 km; 8 km of each ride is shared
+const stops: PoolStop[] = [
+  { type: 'pickup', riderId: 'A', location: at(-33.9), distanceFromPrevKm: 1 },
+  { type: 'pickup', riderId: 'B', location: at(-33.91), distanceFromPrevKm: 2 },
+  { type: 'dropoff', riderId: 'A', location: at(-33.98), distanceFromPrevKm: 8 },
+  { type: 'dropoff', riderId: 'B', location: at(-34.02), distanceFromPrevKm: 4 },
+];
+
+describe('splitPoolFare', () => {
+  test('charges in-vehicle km with a discount on shared km', () => {
+    const shares = splitPoolFare(stops, { centsPerKm: 250, poolingDiscount: 0.1 });
+    expect(shares).toEqual([
+      { riderId: 'A', inVehicleKm: 10, sharedKm: 8, soloFareCents: 2500, poolingDiscountCents: 200, fareCents: 2300 },
+      { riderId: 'B', inVehicleKm: 12, sharedKm: 8, soloFareCents: 3000, poolingDiscountCents: 200, fareCents: 2800 },
+    ]);
+  });
+
+  test('never charges more than the seat price', () => {
+    const shares = splitPoolFare(stops, { centsPerKm: 250, poolingDiscount: 0, maxFareCents: 2600 });
+    expect(shares.map((s) => s.fareCents)).toEqual([2500, 2600]);
+  });
+
+  test('falls back to straight-line legs when distances are missing', () => {
+    const withoutDistances = stops.map(({ distanceFromPrevKm: _d, ...stop }) => stop);
+    const shares = splitPoolFare(withoutDistances, { centsPerKm: 100, poolingDiscount: 0.1 });
+    expect(shares[0].inVehicleKm).toBeCloseTo(8.9, 1);
+    expect(shares[1].sharedKm).toBeCloseTo(shares[0].sharedKm, 6);
+  });
+});
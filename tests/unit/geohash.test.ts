@@ -0,0 +1,159 @@
+import { describe, expect, test } from 'vitest';
+import {
+  encodeGeohash,
+  geohashBounds,
+  geohashCellsWithin,
+  routeCells,
+} from '../../src/lib/matching/geohash';
+import { MatchingRepository } from '../../src/lib/matching/repository';
+import type { RiderRequest } from '../../src/lib/matching/types';
+
+const capeTown = { lat: -33.9249, lng: 18.4241 };
+const bellville = { lat: -33.9, lng: 18.63 };
+
+interface Recorded {
+  sql: string;
+  params: unknown[];
+}
+
+function recordingDb(rows: (sql: string) => unknown[] = () => []) {
+  const statements: Recorded[] = [];
+  const db = {
+    prepare(sql: string) {
+      const stmt = {
+        sql,
+        params: [] as unknown[],
+        bind(...params: unknown[]) {
+          stmt.params = params;
+          return stmt;
+        },
+        async first() { return null; },
+        async all() {
+          statements.push({ sql: stmt.sql, params: stmt.params });
+          return { results: rows(stmt.sql), success: true };
+        },
+        async run() {
+          statements.push({ sql: stmt.sql, params: stmt.params });
+          return { success: true };
+        },
+      };
+      return stmt;
+    },
+    async batch(batch: Array<{ sql: string; params: unknown[] }>) {
+      for (const stmt of batch) statements.push({ sql: stmt.sql, params: stmt.params });
+      return batch.map(() => ({ success: true }));
+    },
+    async exec() { return { count: 0, duration: 0 }; },
+  };
+  return { db, statements };
+}
+
+describe('geohash cell index', () => {
+  test('encodes known geohashes and round-trips through bounds', () => {
+    expect(encodeGeohash({ lat: 57.64911, lng: 10.40744 }, 11)).toBe('u4pruydqqvj');
+    const hash = encodeGeohash(capeTown, 5);
+    expect(hash).toBe('k3vp5');
+
+    const bounds = geohashBounds(hash);
+    expect(capeTown.lat).toBeGreaterThanOrEqual(bounds.minLat);
+    expect(capeTown.lat).toBeLessThanOrEqual(bounds.maxLat);
+    expect(capeTown.lng).toBeGreaterThanOrEqual(bounds.minLng);
+    expect(capeTown.lng).toBeLessThanOrEqual(bounds.maxLng);
+  });
+
+  test('cells within a radius cover nearby points', () => {
+    const cells = geohashCellsWithin(capeTown, 2);
+    expect(cells).toHaveLength(9);
+
+    for (const [dLat, dLng] of [[0.018, 0], [-0.018, 0], [0, 0.021], [0.012, -0.015]]) {
+      const nearby = { lat: capeTown.lat + dLat, lng: capeTown.lng + dLng };
+      expect(cells).toContain(encodeGeohash(nearby, 5));
+    }
+
+    expect(geohashCellsWithin(capeTown, 10).length).toBeGreaterThan(cells.length);
+  });
+
+  test('route cells follow long segments without gaps', () => {
+    const cells = routeCells([capeTown, bellville]);
+    // ~19 km across ~4 km wide cells
+    expect(cells.length).toBeGreaterThanOrEqual(5);
+    expect(cells).toContain(encodeGeohash(capeTown, 5));
+    expect(cells).toContain(encodeGeohash(bellville, 5));
+
+    const midway = { lat: (capeTown.lat + bellville.lat) / 2, lng: (capeTown.lng + bellville.lng) / 2 };
+    expect(cells).toContain(encodeGeohash(midway, 5));
+  });
+});
+
+describe('MatchingRepository cell index', () => {
+  const rider = {
+    id: 'rr-1',
+    riderId: 'r-1',
+    pickup: capeTown,
+    dropoff: bellville,
+    earliestDeparture: Date.UTC(2026, 0, 5, 6, 30),
+    latestDeparture: Date.UTC(2026, 0, 5, 7, 30),
+    seatsNeeded: 1,
+    status: 'pending',
+    createdAt: '2026-01-01T00:00:00.000Z',
+  } as RiderRequest;
+
+  test('createDriverTrip indexes the route cells', async () => {
+    const { db, statements } = recordingDb();
+    const repo = new MatchingRepository(db as never);
+
+    await repo.createDriverTrip('trip-1', 7, {
+      departure: capeTown,
+      destination: bellville,
+      departureTime: Date.UTC(2026, 0, 5, 7, 0),
+      availableSeats: 3,
+      totalSeats: 3,
+    });
+
+    const inserts = statements.filter((s) => s.sql.includes('INSERT OR REPLACE INTO driver_trip_cells'));
+    expect(inserts.map((s) => s.params[0])).toEqual(routeCells([capeTown, bellville]));
+    expect(inserts.every((s) => s.params[1] === 'trip-1')).toBe(true);
+  });
+
+  test('terminal statuses drop the trip from the index', async () => {
+    const { db, statements } = recordingDb();
+    const repo = new MatchingRepository(db as never);
+
+    await repo.updateDriverTripStatus('trip-1', 'cancelled');
+
+    expect(statements.map((s) => s.sql)).toContain('DELETE FROM driver_trip_cells WHERE driver_trip_id = ?1');
+  });
+
+  test('candidate lookup binds pickup and dropoff cells', async () => {
+    const { db, statements } = recordingDb((sql) =>
+      sql.includes('FROM driver_trip_cells') ? [{ driver_trip_id: 'trip-1' }] : [],
+    );
+    const repo = new MatchingRepository(db as never);
+
+    await repo.findCandidateDrivers(rider);
+
+    const cellLookups = statements.filter((s) => s.sql.includes('FROM driver_trip_cells'));
+    expect(cellLookups).toHaveLength(2);
+    expect(cellLookups[0].params.slice(2)).toContain(encodeGeohash(capeTown, 5));
+    expect(cellLookups[1].params.slice(2)).toContain(encodeGeohash(bellville, 5));
+
+    const indexed = statements.find((s) => s.sql.includes('cells_indexed = 1'));
+    expect(indexed?.sql).toContain('SELECT * FROM driver_trips');
+    expect(indexed?.params.slice(3)).toEqual(['trip-1']);
+  });
+
+  test('a wide walking radius stays within the bound-parameter limit', async () => {
+    const { db, statements } = recordingDb((sql) =>
+      sql.includes('FROM driver_trip_cells') ? [{ driver_trip_id: 'trip-1' }] : [],
+    );
+    const repo = new MatchingRepository(db as never);
+
+    await repo.findCandidateDrivers({ ...rider, preferences: { maxWalkDistanceKm: 100 } } as RiderRequest);
+
+    const cellLookups = statements.filter((s) => s.sql.includes('FROM driver_trip_cells'));
+    const boundCells = cellLookups.flatMap((s) => s.params.slice(2));
+    expect(boundCells.length).toBe(geohashCellsWithin(capeTown, 100).length + geohashCellsWithin(bellville, 100).length);
+    expect(boundCells.length).toBeGreaterThan(100);
+    expect(statements.every((s) => s.params.length <= 100)).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, test } from 'vitest';
+import { solveGlobalAssignment } from '../../src/lib/matching/assignment';
+import { assignRidersToDrivers } from '../../src/lib/matching/optimizer';
+import { DEFAULT_MATCH_CONFIG } from '../../src/lib/matching/types';
+import type { DriverTrip, MatchResult, PoolRider } from '../../src/lib/matching/types';
+
+const T0 = Date.UTC(2026, 0, 5, 7, 0);
+
+function driverTrip(id: string, lng: number, seats: number): DriverTrip {
+  return {
+    id,
+    driverId: id,
+    departure: { lat: 0, lng },
+    destination: { lat: 0.2, lng },
+    departureTime: T0,
+    availableSeats: seats,
+    totalSeats: seats,
+    routePolyline: [{ lat: 0, lng }, { lat: 0.2, lng }],
+    status: 'offered',
+    createdAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+function match(riderId: string, driverTripId: string, score: number): MatchResult {
+  return {
+    driverTripId,
+    driverId: driverTripId,
+    riderRequestId: `rr-${riderId}`,
+    riderId,
+    score,
+    explanation: '',
+    breakdown: {
+      pickupDistanceKm: 0,
+      pickupScore: 0,
+      dropoffDistanceKm: 0,
+      dropoffScore: 0,
+      timeDiffMinutes: 0,
+      timeScore: 0,
+      seatScore: 0,
+      shiftScore: 0,
+    },
+  };
+}
+
+function assignedDrivers(result: Map<string, { pool: { driverTripId: string } }>): Record<string, string> {
+  return Object.fromEntries([...result].map(([riderId, { pool }]) => [riderId, pool.driverTripId]));
+}
+
+describe('global rider/driver assignment', () => {
+  test('min-cost flow maximises matched riders before total score', () => {
+    const assignment = solveGlobalAssignment(
+      [
+        { riderId: 'x', driverTripId: 'A', score: 0.1 },
+        { riderId: 'x', driverTripId: 'B', score: 0.2 },
+        { riderId: 'y', driverTripId: 'A', score: 0.9 },
+      ],
+      new Map([['A', 1], ['B', 1]]),
+    );
+    expect(Object.fromEntries(assignment)).toEqual({ x: 'B', y: 'A' });
+  });
+
+  test('min-cost flow honours driver capacity', () => {
+    const assignment = solveGlobalAssignment(
+      [
+        { riderId: 'x', driverTripId: 'A', score: 0.1 },
+        { riderId: 'y', driverTripId: 'A', score: 0.2 },
+        { riderId: 'z', driverTripId: 'A', score: 0.3 },
+      ],
+      new Map([['A', 2]]),
+    );
+    expect(Object.fromEntries(assignment)).toEqual({ x: 'A', y: 'A' });
+  });
+
+  test('global strategy keeps the only viable rider for the second driver', () => {
+    const drivers = new Map([
+      ['A', driverTrip('A', 0, 1)],
+      ['B', driverTrip('B', 0, 1)],
+    ]);
+    const riderMap = new Map<string, PoolRider>([
+      ['x', { pickup: { lat: 0.05, lng: 0 }, dropoff: { lat: 0.15, lng: 0 } }],
+      ['y', { pickup: { lat: 0.06, lng: 0 }, dropoff: { lat: 0.14, lng: 0 } }],
+    ]);
+    const riderMatches = new Map([
+      ['rr-x', [match('x', 'A', 0.1), match('x', 'B', 0.2)]],
+      ['rr-y', [match('y', 'A', 0.3)]],
+    ]);
+
+    const greedy = assignRidersToDrivers(riderMatches, drivers, riderMap, DEFAULT_MATCH_CONFIG, 'greedy');
+    expect(assignedDrivers(greedy)).toEqual({ x: 'A' });
+
+    const global = assignRidersToDrivers(riderMatches, drivers, riderMap, DEFAULT_MATCH_CONFIG, 'global');
+    expect(assignedDrivers(global)).toEqual({ x: 'B', y: 'A' });
+  });
+
+  test('global strategy re-routes riders that break a driver detour budget', () => {
+    const drivers = new Map([
+      ['A', driverTrip('A', 0, 2)],
+      ['B', driverTrip('B', 0.05, 1)],
+    ]);
+    // y sits on B's route, ~5.5 km off A's route
+    const riderMap = new Map<string, PoolRider>([
+      ['x', { pickup: { lat: 0.05, lng: 0 }, dropoff: { lat: 0.15, lng: 0 } }],
+      ['y', { pickup: { lat: 0.05, lng: 0.05 }, dropoff: { lat: 0.15, lng: 0.05 } }],
+    ]);
+    const riderMatches = new Map([
+      ['rr-x', [match('x', 'A', 0.2)]],
+      ['rr-y', [match('y', 'A', 0.1), match('y', 'B', 0.5)]],
+    ]);
+    const config = { ...DEFAULT_MATCH_CONFIG, maxPoolDetourKm: 3 };
+
+    const global = assignRidersToDrivers(riderMatches, drivers, riderMap, config, 'global');
+    expect(assignedDrivers(global)).toEqual({ x: 'A', y: 'B' });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, test } from 'vitest';
+import {
+  applyMatchConfigOverrides,
+  compareMatchConfigs,
+  diffMatchConfigs,
+  simulateMatching,
+} from '../../src/lib/matching/simulation';
+import { DEFAULT_MATCH_CONFIG } from '../../src/lib/matching/types';
+import type { DriverTrip, RiderRequest } from '../../src/lib/matching/types';
+
+const T0 = Date.UTC(2026, 0, 5, 7, 0);
+
+function driverTrip(id: string, seats: number): DriverTrip {
+  return {
+    id,
+    driverId: id,
+    departure: { lat: 0, lng: 0 },
+    destination: { lat: 0.2, lng: 0 },
+    departureTime: T0,
+    // Historical trips come back completed with seats taken; replay resets them
+    availableSeats: 0,
+    totalSeats: seats,
+    routePolyline: [{ lat: 0, lng: 0 }, { lat: 0.2, lng: 0 }],
+    status: 'completed',
+    createdAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+function riderRequest(id: string, offsetKm: number): RiderRequest {
+  const lng = offsetKm / 111.32;
+  return {
+    id,
+    // Same rider, two requests in the window
+    riderId: 'rider-1',
+    pickup: { lat: 0.05, lng },
+    dropoff: { lat: 0.15, lng },
+    earliestDeparture: T0 - 15 * 60_000,
+    latestDeparture: T0 + 15 * 60_000,
+    seatsNeeded: 1,
+    status: 'completed',
+    createdAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+describe('matching simulation', () => {
+  test('replays history from the offered state', () => {
+    const metrics = simulateMatching(
+      [riderRequest('rr-near', 0.2), riderRequest('rr-far', 2.1)],
+      [driverTrip('d1', 2)],
+      DEFAULT_MATCH_CONFIG,
+    );
+
+    expect(metrics.riders).toBe(2);
+    expect(metrics.matchedRiders).toBe(1);
+    expect(metrics.matchRate).toBe(0.5);
+    expect(metrics.assignedRiders).toBe(1);
+    expect(metrics.seatUtilisation).toBe(0.5);
+  });
+
+  test('compares a looser candidate config against the baseline', () => {
+    const candidate = applyMatchConfigOverrides(DEFAULT_MATCH_CONFIG, {
+      thresholds: { maxPickupDistanceKm: 3, maxDropoffDistanceKm: 3 },
+    });
+
+    const result = compareMatchConfigs(
+      [riderRequest('rr-far', 2.1)],
+      [driverTrip('d1', 2)],
+      DEFAULT_MATCH_CONFIG,
+      candidate,
+    );
+
+    expect(result.baseline.matchRate).toBe(0);
+    expect(result.diff.matchRate).toBe(1);
+    expect(result.diff.assignedRiders).toBe(1);
+    expect(result.diff.seatUtilisation).toBe(0.5);
+    expect(result.diff.totalCarbonSavedKg).toBe(result.candidate.totalCarbonSavedKg);
+    expect(result.configChanges.map((change) => change.path)).toEqual([
+      'thresholds.maxPickupDistanceKm',
+      'thresholds.maxDropoffDistanceKm',
+    ]);
+  });
+
+  test('config diff is empty for identical configs', () => {
+    expect(diffMatchConfigs(DEFAULT_MATCH_CONFIG, applyMatchConfigOverrides(DEFAULT_MATCH_CONFIG, {}))).toEqual([]);
+  });
+});
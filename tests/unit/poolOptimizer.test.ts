@@ -0,0 +1,120 @@
+import { describe, expect, test } from 'vitest';
+import { optimizePool } from '../../src/lib/matching/optimizer';
+import { DEFAULT_MATCH_CONFIG } from '../../src/lib/matching/types';
+import type { DriverTrip, GeoPoint, MatchResult } from '../../src/lib/matching/types';
+
+const driver: DriverTrip = {
+  id: 'dt-1',
+  driverId: '1',
+  departure: { lat: 0, lng: 0 },
+  destination: { lat: 0.2, lng: 0 },
+  departureTime: Date.UTC(2026, 0, 5, 7, 0),
+  availableSeats: 3,
+  totalSeats: 3,
+  routePolyline: [{ lat: 0, lng: 0 }, { lat: 0.2, lng: 0 }],
+  status: 'offered',
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+function match(riderId: string, score: number): MatchResult {
+  return {
+    driverTripId: driver.id,
+    driverId: driver.driverId,
+    riderRequestId: `rr-${riderId}`,
+    riderId,
+    score,
+    explanation: '',
+    breakdown: {
+      pickupDistanceKm: 0,
+      pickupScore: 0,
+      dropoffDistanceKm: 0,
+      dropoffScore: 0,
+      timeDiffMinutes: 0,
+      timeScore: 0,
+      seatScore: 0,
+      shiftScore: 0,
+    },
+    carbonSavedKg: 1,
+  };
+}
+
+// Rider A scores best but needs a ~9.4 km detour on its own; B, C and D each
+// add ~1.5 km. With a 10 km pool budget greedy takes A and then nobody fits.
+const riderMap = new Map<string, { pickup: GeoPoint; dropoff: GeoPoint }>([
+  ['a', { pickup: { lat: 0.1, lng: 0.065 }, dropoff: { lat: 0.1, lng: 0 } }],
+  ['b', { pickup: { lat: 0.03, lng: 0.0135 }, dropoff: { lat: 0.032, lng: 0 } }],
+  ['c', { pickup: { lat: 0.09, lng: 0.0135 }, dropoff: { lat: 0.092, lng: 0 } }],
+  ['d', { pickup: { lat: 0.15, lng: 0.0135 }, dropoff: { lat: 0.152, lng: 0 } }],
+]);
+const candidates = [match('a', 0.1), match('b', 0.2), match('c', 0.3), match('d', 0.4)];
+
+describe('pool optimizer solvers', () => {
+  test('greedy solver keeps the best-scoring rider and reports no gap', () => {
+    const pool = optimizePool(driver, candidates, riderMap, { ...DEFAULT_MATCH_CONFIG, poolSolver: 'greedy' });
+    expect(pool?.riders.map((r) => r.riderId)).toEqual(['a']);
+    expect(pool?.solver).toBe('greedy');
+    expect(pool?.optimalityGap).toBeNull();
+  });
+
+  test('branch-and-bound finds the larger pool the greedy misses', () => {
+    const pool = optimizePool(driver, candidates, riderMap, {
+      ...DEFAULT_MATCH_CONFIG,
+      poolSolver: 'branch_and_bound',
+      poolSolverTimeBudgetMs: 1000,
+    });
+    expect(pool?.riders.map((r) => r.riderId).sort()).toEqual(['b', 'c', 'd']);
+    expect(pool?.seatsUsed).toBe(3);
+    // B, C and D ride short hops that never overlap, so they share one seat
+    expect(pool?.seatsRemaining).toBe(2);
+    expect(pool?.solver).toBe('branch_and_bound');
+    expect(pool?.optimalityGap).toBe(0);
+    expect(pool?.orderedStops).toHaveLength(6);
+  });
+
+  test('branch-and-bound prefers the lower total score when rider counts tie', () => {
+    const pool = optimizePool(driver, candidates, riderMap, {
+      ...DEFAULT_MATCH_CONFIG,
+      maxRidersPerPool: 2,
+      poolSolverTimeBudgetMs: 1000,
+    });
+    expect(pool?.riders.map((r) => r.riderId).sort()).toEqual(['b', 'c']);
+    expect(pool?.totalScore).toBeCloseTo(0.5);
+  });
+
+  test('branch-and-bound never exceeds the cumulative detour budget', () => {
+    const pool = optimizePool(driver, candidates, riderMap, {
+      ...DEFAULT_MATCH_CONFIG,
+      maxPoolDetourKm: 3,
+      poolSolverTimeBudgetMs: 1000,
+    });
+    expect(pool?.riders).toHaveLength(2);
+    expect(pool!.totalDetourMinutes).toBeLessThanOrEqual(6);
+  });
+
+  test('riders only compete for seats where their journeys overlap', () => {
+    const oneSeat = { ...driver, availableSeats: 1, totalSeats: 1 };
+    const disjoint = optimizePool(oneSeat, candidates.slice(1), riderMap, { ...DEFAULT_MATCH_CONFIG, poolSolverTimeBudgetMs: 1000 });
+    expect(disjoint?.riders).toHaveLength(3);
+
+    const overlapping = new Map(riderMap);
+    overlapping.set('c', { pickup: { lat: 0.031, lng: 0.0135 }, dropoff: { lat: 0.033, lng: 0 } });
+    const shared = optimizePool(oneSeat, candidates.slice(1), overlapping, { ...DEFAULT_MATCH_CONFIG, poolSolverTimeBudgetMs: 1000 });
+    expect(shared?.riders.map((r) => r.riderId).sort()).toEqual(['b', 'd']);
+  });
+
+  test('seats held elsewhere on the route stay usable', () => {
+    const held = {
+      ...driver,
+      availableSeats: 0,
+      totalSeats: 1,
+      seatHolds: [{ startKm: 0, endKm: 2, seats: 1 }],
+    };
+    const pool = optimizePool(held, [match('c', 0.3)], riderMap);
+    expect(pool?.riders.map((r) => r.riderId)).toEqual(['c']);
+  });
+
+  test('returns null when no rider fits', () => {
+    const pool = optimizePool(driver, candidates, riderMap, { ...DEFAULT_MATCH_CONFIG, maxPoolDetourKm: 0.5 });
+    expect(pool).toBeNull();
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, expect, test } from 'vitest';
+import { sequencePoolStops, simulateStopSequence } from '../../src/lib/matching/sequencer';
+import { optimizePool } from '../../src/lib/matching/optimizer';
+import { DEFAULT_MATCH_CONFIG } from '../../src/lib/matching/types';
+import type { DriverTrip, MatchResult, PoolRider } from '../../src/lib/matching/types';
+
+const T0 = Date.UTC(2026, 0, 5, 7, 0);
+const MIN = 60_000;
+
+const driver: DriverTrip = {
+  id: 'dt-1',
+  driverId: '1',
+  departure: { lat: 0, lng: 0 },
+  destination: { lat: 0.2, lng: 0 },
+  departureTime: T0,
+  availableSeats: 4,
+  totalSeats: 4,
+  routePolyline: [{ lat: 0, lng: 0 }, { lat: 0.2, lng: 0 }],
+  status: 'offered',
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+function rider(riderId: string, data: PoolRider): PoolRider & { riderId: string } {
+  return { riderId, ...data };
+}
+
+function order(stops: Array<{ type: string; riderId: string }>): string[] {
+  return stops.map((s) => `${s.type === 'pickup' ? '+' : '-'}${s.riderId}`);
+}
+
+function match(riderId: string, score: number): MatchResult {
+  return {
+    driverTripId: driver.id,
+    driverId: driver.driverId,
+    riderRequestId: `rr-${riderId}`,
+    riderId,
+    score,
+    explanation: '',
+    breakdown: {
+      pickupDistanceKm: 0,
+      pickupScore: 0,
+      dropoffDistanceKm: 0,
+      dropoffScore: 0,
+      timeDiffMinutes: 0,
+      timeScore: 0,
+      seatScore: 0,
+      shiftScore: 0,
+    },
+    carbonSavedKg: 1,
+  };
+}
+
+describe('pool stop sequencer', () => {
+  test('orders unconstrained riders along the route and reports timings', () => {
+    const result = sequencePoolStops(driver, [
+      rider('b', { pickup: { lat: 0.1, lng: 0 }, dropoff: { lat: 0.18, lng: 0 } }),
+      rider('a', { pickup: { lat: 0.02, lng: 0 }, dropoff: { lat: 0.08, lng: 0 } }),
+    ]);
+
+    expect(result).not.toBeNull();
+    expect(order(result!.stops)).toEqual(['+a', '-a', '+b', '-b']);
+
+    const etas = result!.stops.map((s) => s.eta!);
+    expect([...etas].sort((x, y) => x - y)).toEqual(etas);
+    expect(result!.totalDistanceKm).toBeCloseTo(22.24, 1);
+
+    const a = result!.riderTimings.find((t) => t.riderId === 'a')!;
+    expect(a.dropoffEta).toBeGreaterThan(a.pickupEta);
+    // 0.06° of latitude ≈ 6.67 km at 30 km/h, plus one minute boarding
+    expect(a.inVehicleMinutes).toBeCloseTo(14.3, 0);
+    expect(a.waitMinutes).toBeCloseTo(4.4, 0);
+  });
+
+  test('waits at a pickup until the rider is ready', () => {
+    const result = sequencePoolStops(driver, [
+      rider('a', {
+        pickup: { lat: 0.05, lng: 0 },
+        dropoff: { lat: 0.15, lng: 0 },
+        earliestDeparture: T0 + 30 * MIN,
+      }),
+    ]);
+
+    expect(result!.stops[0].eta).toBe(T0 + 30 * MIN);
+    expect(result!.riderTimings[0].waitMinutes).toBe(0);
+  });
+
+  test('a tight pickup window changes the stop order', () => {
+    const a = rider('a', { pickup: { lat: 0.05, lng: 0.045 }, dropoff: { lat: 0.15, lng: 0 } });
+    const b = rider('b', { pickup: { lat: 0.05, lng: -0.05 }, dropoff: { lat: 0.15, lng: 0 } });
+
+    const free = sequencePoolStops(driver, [a, b]);
+    expect(order(free!.stops).slice(0, 2)).toEqual(['+a', '+b']);
+
+    const constrained = sequencePoolStops(driver, [a, { ...b, latestDeparture: T0 + 17 * MIN }]);
+    expect(order(constrained!.stops).slice(0, 2)).toEqual(['+b', '+a']);
+    expect(constrained!.stops[0].eta!).toBeLessThanOrEqual(T0 + 17 * MIN);
+  });
+
+  test('returns null when no order meets every deadline', () => {
+    const result = sequencePoolStops(driver, [
+      rider('a', {
+        pickup: { lat: 0.05, lng: 0 },
+        dropoff: { lat: 0.15, lng: 0 },
+        latestArrival: T0 + 20 * MIN,
+      }),
+    ]);
+    expect(result).toBeNull();
+  });
+
+  test('insertion fallback keeps precedence for larger pools', () => {
+    const riders = [0, 1, 2, 3, 4, 5].map((i) =>
+      rider(`r${i}`, {
+        pickup: { lat: 0.01 + i * 0.02, lng: 0.005 },
+        dropoff: { lat: 0.05 + i * 0.02, lng: -0.005 },
+      }),
+    );
+
+    const result = sequencePoolStops(driver, riders);
+    expect(result).not.toBeNull();
+    expect(result!.stops).toHaveLength(12);
+
+    const seen = new Set<string>();
+    for (const stop of result!.stops) {
+      if (stop.type === 'pickup') seen.add(stop.riderId);
+      else expect(seen.has(stop.riderId)).toBe(true);
+    }
+  });
+
+  test('simulation rejects a drop-off before its pickup', () => {
+    const riders = new Map<string, PoolRider>([
+      ['a', { pickup: { lat: 0.05, lng: 0 }, dropoff: { lat: 0.15, lng: 0 } }],
+    ]);
+    const result = simulateStopSequence(
+      driver,
+      [
+        { type: 'dropoff', riderId: 'a', location: { lat: 0.15, lng: 0 } },
+        { type: 'pickup', riderId: 'a', location: { lat: 0.05, lng: 0 } },
+      ],
+      riders,
+    );
+    expect(result).toBeNull();
+  });
+
+  test('pool optimizer skips riders whose windows cannot be met', () => {
+    const riderMap = new Map<string, PoolRider>([
+      ['a', { pickup: { lat: 0.02, lng: 0 }, dropoff: { lat: 0.08, lng: 0 } }],
+      ['b', {
+        pickup: { lat: 0.1, lng: 0 },
+        dropoff: { lat: 0.18, lng: 0 },
+        latestDeparture: T0 + 5 * MIN,
+      }],
+    ]);
+
+    for (const poolSolver of ['greedy', 'branch_and_bound'] as const) {
+      const pool = optimizePool(driver, [match('a', 0.1), match('b', 0.2)], riderMap, {
+        ...DEFAULT_MATCH_CONFIG,
+        poolSolver,
+      });
+      expect(pool?.riders.map((r) => r.riderId)).toEqual(['a']);
+      expect(pool?.riderTimings).toHaveLength(1);
+      expect(pool?.orderedStops.every((s) => typeof s.eta === 'number')).toBe(true);
+    }
+  });
+});
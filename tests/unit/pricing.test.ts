@@ -0,0 +1,95 @@
+import { describe, expect, test } from 'vitest';
+import {
+  DEFAULT_RATE_CARD,
+  matchTimeRule,
+  pricingSlotAt,
+  pricingSlotFor,
+  quoteFare,
+  quoteMonthlyEstimate,
+} from '../../src/lib/pricing';
+import type { RateCard } from '../../src/lib/pricing';
+
+// Monday 2026-03-02 07:30 SAST
+const MONDAY_PEAK = pricingSlotFor('2026-03-02', '07:30');
+
+describe('pricing slots and time rules', () => {
+  test('timestamps are priced in SAST wall-clock time', () => {
+    expect(pricingSlotAt(Date.parse('2026-03-02T05:30:00Z'))).toEqual(MONDAY_PEAK);
+    expect(pricingSlotAt(Date.parse('2026-03-01T23:00:00Z'))).toEqual({ weekday: 1, minuteOfDay: 60 });
+  });
+
+  test('first matching rule wins and late night wraps midnight', () => {
+    expect(matchTimeRule(MONDAY_PEAK)?.id).toBe('weekday_morning_peak');
+    expect(matchTimeRule(pricingSlotFor('2026-03-01', '23:00'))?.id).toBe('late_night');
+    expect(matchTimeRule(pricingSlotFor('2026-03-02', '03:00'))?.id).toBe('late_night');
+    expect(matchTimeRule(pricingSlotFor('2026-03-07', '12:00'))?.id).toBe('weekend_off_peak');
+    expect(matchTimeRule(pricingSlotFor('2026-03-02', '09:30'))).toBeNull();
+  });
+});
+
+describe('quoteFare', () => {
+  test('without rules it matches the flat per-km fare', () => {
+    const quote = quoteFare({ distanceKm: 10, tripType: 'daily' });
+    expect(quote).toMatchObject({ baseFareCents: 2850, multiplier: 1, capped: null, fareCents: 2850, rateCard: 'default' });
+  });
+
+  test('applies the time rule and demand tier', () => {
+    const quote = quoteFare({
+      distanceKm: 10,
+      tripType: 'daily',
+      slot: MONDAY_PEAK,
+      demand: { openRequests: 3, openSeats: 2 },
+    });
+    expect(quote.timeRule?.multiplier).toBe(1.2);
+    expect(quote.demand).toMatchObject({ ratio: 1.5, label: 'Elevated demand', multiplier: 1.15 });
+    expect(quote.multiplier).toBe(1.38);
+    expect(quote.fareCents).toBe(3933);
+  });
+
+  test('clamps the combined multiplier', () => {
+    const quote = quoteFare({
+      distanceKm: 10,
+      tripType: 'daily',
+      slot: MONDAY_PEAK,
+      demand: { openRequests: 6, openSeats: 1 },
+    });
+    expect(quote.multiplier).toBe(1.5);
+    expect(quote.fareCents).toBe(4275);
+  });
+
+  test('no activity in the area is priced as balanced', () => {
+    const quote = quoteFare({ distanceKm: 10, tripType: 'daily', demand: { openRequests: 0, openSeats: 0 } });
+    expect(quote.demand?.multiplier).toBe(1);
+  });
+
+  test('holds fares within the rate card caps', () => {
+    expect(quoteFare({ distanceKm: 2, tripType: 'daily' })).toMatchObject({ capped: 'min', fareCents: DEFAULT_RATE_CARD.minFareCents });
+    expect(quoteFare({ distanceKm: 200, tripType: 'daily' })).toMatchObject({ capped: 'max', fareCents: DEFAULT_RATE_CARD.maxFareCents });
+  });
+
+  test('uses organisation rate cards', () => {
+    const card: RateCard = { ...DEFAULT_RATE_CARD, organizationId: 'org-1', dailyPerKm: 2, monthlyPerKm: 1.5, minFareCents: 0, maxFareCents: 100000 };
+    const quote = quoteFare({ distanceKm: 10, tripType: 'monthly', rateCard: card });
+    expect(quote).toMatchObject({ rateCard: 'organization', organizationId: 'org-1', ratePerKm: 1.5, fareCents: 1500 });
+  });
+});
+
+describe('quoteMonthlyEstimate', () => {
+  test('prices each scheduled trip and groups lines by time rule', () => {
+    const estimate = quoteMonthlyEstimate(10, ['2026-03-02', '2026-03-03', '2026-03-07'], { morning: '07:30' });
+
+    expect(estimate.totalTrips).toBe(3);
+    expect(estimate.breakdown.lines).toEqual([
+      expect.objectContaining({ slot: 'morning', trips: 2, fareCents: 2580, subtotalCents: 5160 }),
+      expect.objectContaining({ slot: 'morning', trips: 1, fareCents: 1935, subtotalCents: 1935 }),
+    ]);
+    expect(estimate.totalCents).toBe(7095);
+  });
+
+  test('includes evening trips when an evening departure is set', () => {
+    const estimate = quoteMonthlyEstimate(10, ['2026-03-02'], { morning: '07:30', evening: '17:00' });
+    expect(estimate.totalTrips).toBe(2);
+    expect(estimate.totalKm).toBe(20);
+    expect(estimate.breakdown.lines.map((line) => line.timeRule?.id)).toEqual(['weekday_morning_peak', 'weekday_evening_peak']);
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, expect, test } from 'vitest';
+import { reliabilityScore } from '../../src/lib/reliability';
+
+describe('reliabilityScore', () => {
+  test('new users start at 100', () => {
+    expect(reliabilityScore({ completedTrips: 0, noShows: 0, lateCancellations: 0 })).toBe(100);
+  });
+
+  test('no-shows weigh more than late cancellations', () => {
+    const noShow = reliabilityScore({ completedTrips: 10, noShows: 1, lateCancellations: 0 });
+    const late = reliabilityScore({ completedTrips: 10, noShows: 0, lateCancellations: 1 });
+    expect(noShow).toBe(83);
+    expect(late).toBe(94);
+  });
+
+  test('the prior softens a single early miss', () => {
+    expect(reliabilityScore({ completedTrips: 0, noShows: 1, lateCancellations: 0 })).toBe(63);
+  });
+});
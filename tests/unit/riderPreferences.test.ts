@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'vitest';
+import { matchRiderToDrivers } from '../../src/lib/matching/engine';
+import type { DriverTrip, RiderRequest } from '../../src/lib/matching/types';
+
+const T0 = Date.UTC(2026, 0, 5, 7, 0);
+
+function driverTrip(id: string, extra: Partial<DriverTrip> = {}): DriverTrip {
+  return {
+    id,
+    driverId: id,
+    departure: { lat: 0, lng: 0 },
+    destination: { lat: 0.2, lng: 0 },
+    departureTime: T0,
+    availableSeats: 3,
+    totalSeats: 3,
+    routePolyline: [{ lat: 0, lng: 0 }, { lat: 0.2, lng: 0 }],
+    status: 'offered',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...extra,
+  };
+}
+
+function rider(preferences: RiderRequest['preferences']): RiderRequest {
+  return {
+    id: 'rr-1',
+    riderId: 'r-1',
+    pickup: { lat: 0.05, lng: 0.001 },
+    dropoff: { lat: 0.15, lng: 0.001 },
+    earliestDeparture: T0 - 15 * 60_000,
+    latestDeparture: T0 + 15 * 60_000,
+    seatsNeeded: 1,
+    status: 'pending',
+    preferences,
+    createdAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+describe('rider preference hard filters', () => {
+  test('gender preference only matches drivers who shared a matching gender', () => {
+    const drivers = [
+      driverTrip('shared-female', { driverGender: 'female' }),
+      driverTrip('shared-male', { driverGender: 'male' }),
+      driverTrip('not-shared'),
+    ];
+
+    const { matches, excluded, stats } = matchRiderToDrivers(rider({ genderPreference: 'female' }), drivers);
+
+    expect(matches.map((m) => m.driverTripId)).toEqual(['shared-female']);
+    expect(matches[0].breakdown.preferencesMet).toEqual(['genderPreference']);
+    expect(matches[0].explanation).toContain('meets your driver preferences');
+    expect(excluded.map((e) => [e.driverTripId, e.reason])).toEqual([
+      ['shared-male', 'gender_preference_not_met'],
+      ['not-shared', 'gender_preference_not_met'],
+    ]);
+    expect(stats.excludedByPreference).toBe(2);
+  });
+
+  test('"any" gender preference does not filter', () => {
+    const { matches, excluded } = matchRiderToDrivers(rider({ genderPreference: 'any' }), [driverTrip('d1')]);
+    expect(matches).toHaveLength(1);
+    expect(matches[0].breakdown.preferencesMet).toBeUndefined();
+    expect(excluded).toEqual([]);
+  });
+
+  test('minimum rating excludes low-rated and unrated drivers', () => {
+    const drivers = [
+      driverTrip('good', { driverRating: 4.8 }),
+      driverTrip('low', { driverRating: 3.9 }),
+      driverTrip('unrated'),
+    ];
+
+    const { matches, excluded } = matchRiderToDrivers(rider({ minDriverRating: 4.5 }), drivers);
+
+    expect(matches.map((m) => m.driverTripId)).toEqual(['good']);
+    expect(excluded).toEqual([
+      { driverTripId: 'low', reason: 'driver_rating_too_low', explanation: expect.stringContaining('4.5') },
+      { driverTripId: 'unrated', reason: 'driver_rating_unknown', explanation: expect.stringContaining('no rating') },
+    ]);
+  });
+
+  test('non-preference filters are not reported as exclusions', () => {
+    const { excluded } = matchRiderToDrivers(
+      rider({ genderPreference: 'female' }),
+      [driverTrip('full', { availableSeats: 0 })],
+    );
+    expect(excluded).toEqual([]);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'vitest';
+import {
+  DEVIATION_ALERT_COOLDOWN_MINUTES,
+  evaluateLocation,
+  UNEXPECTED_STOP_MINUTES,
+} from '../../src/lib/routeMonitor';
+
+// Roughly 5.5 km due north from Johannesburg CBD
+const route = [
+  { lat: -26.2041, lng: 28.0473 },
+  { lat: -26.1541, lng: 28.0473 },
+];
+const minute = 60_000;
+
+describe('evaluateLocation', () => {
+  test('flags points more than the threshold off the route', () => {
+    const onRoute = evaluateLocation(null, route, { lat: -26.18, lng: 28.049 }, 0);
+    expect(onRoute.alerts).toEqual([]);
+
+    const offRoute = evaluateLocation(null, route, { lat: -26.18, lng: 28.06 }, 0);
+    expect(offRoute.alerts).toHaveLength(1);
+    expect(offRoute.alerts[0]).toMatchObject({ kind: 'off_route' });
+    expect(offRoute.alerts[0].distanceKm).toBeGreaterThan(1);
+  });
+
+  test('poor GPS accuracy widens the threshold', () => {
+    const fuzzy = evaluateLocation(null, route, { lat: -26.18, lng: 28.054, accuracyM: 500 }, 0);
+    expect(fuzzy.alerts).toEqual([]);
+  });
+
+  test('throttles repeat alerts of the same kind', () => {
+    const first = evaluateLocation(null, route, { lat: -26.18, lng: 28.06 }, 0);
+    const again = evaluateLocation(first.state, route, { lat: -26.181, lng: 28.06 }, minute);
+    expect(again.alerts).toEqual([]);
+    const later = evaluateLocation(again.state, route, { lat: -26.182, lng: 28.06 }, DEVIATION_ALERT_COOLDOWN_MINUTES * minute);
+    expect(later.alerts.map((a) => a.kind)).toEqual(['off_route']);
+  });
+
+  test('flags a long stop mid-route but not at the destination', () => {
+    const midRoute = { lat: -26.18, lng: 28.0473 };
+    const start = evaluateLocation(null, route, midRoute, 0);
+    const stopped = evaluateLocation(start.state, route, midRoute, UNEXPECTED_STOP_MINUTES * minute);
+    expect(stopped.alerts).toMatchObject([{ kind: 'unexpected_stop', stoppedMinutes: UNEXPECTED_STOP_MINUTES }]);
+
+    const arrived = evaluateLocation(null, route, route[1], 0);
+    const parked = evaluateLocation(arrived.state, route, route[1], 30 * minute);
+    expect(parked.alerts).toEqual([]);
+  });
+
+  test('waiting at a booked pickup point is not an unexpected stop', () => {
+    const pickup = { lat: -26.18, lng: 28.0473 };
+    const start = evaluateLocation(null, route, { lat: -26.1805, lng: 28.0473 }, 0, [pickup]);
+    const waiting = evaluateLocation(start.state, route, { lat: -26.1805, lng: 28.0473 }, 20 * minute, [pickup]);
+    expect(waiting.alerts).toEqual([]);
+  });
+
+  test('moving resets the stop timer', () => {
+    const start = evaluateLocation(null, null, { lat: -26.18, lng: 28.0473 }, 0);
+    const moved = evaluateLocation(start.state, null, { lat: -26.17, lng: 28.0473 }, 9 * minute);
+    const later = evaluateLocation(moved.state, null, { lat: -26.17, lng: 28.0473 }, 12 * minute);
+    expect(later.alerts).toEqual([]);
+  });
+});
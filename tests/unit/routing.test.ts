@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import {
+  StraightLineRoutingProvider,
+  OsrmRoutingProvider,
+  CachedRoutingProvider,
+  buildDistanceTable,
+  routingCacheKey,
+} from '../../src/lib/routing';
+import type { RoutingProvider, RouteLeg, LatLng } from '../../src/lib/routing';
+import { estimateRoadDistanceKm, estimatedRoadKm, haversineKm } from '../../src/lib/pricing';
+import { estimateDetourKm } from '../../src/lib/matching/geo';
+import type { KVNamespace } from '../../src/types';
+
+class MockKV {
+  store = new Map<string, string>();
+  async get(key: string, type?: string) {
+    const val = this.store.get(key) ?? null;
+    if (type === 'json' && val !== null) return JSON.parse(val);
+    return val;
+  }
+  async put(key: string, value: string) { this.store.set(key, value); }
+  async delete(key: string) { this.store.delete(key); }
+  async list() { return { keys: [], list_complete: true, cursor: '' }; }
+}
+
+class CountingProvider implements RoutingProvider {
+  readonly name = 'osrm' as const;
+  matrixCalls: Array<[number, number]> = [];
+  async route(from: LatLng, to: LatLng): Promise<RouteLeg> {
+    return { distanceKm: haversineKm(from, to) * 2, durationMinutes: 1 };
+  }
+  async matrix(origins: LatLng[], destinations: LatLng[]): Promise<RouteLeg[][]> {
+    this.matrixCalls.push([origins.length, destinations.length]);
+    return Promise.all(origins.map((o) => Promise.all(destinations.map((d) => this.route(o, d)))));
+  }
+}
+
+const capeTown = { lat: -33.9249, lng: 18.4241 };
+const bellville = { lat: -33.9, lng: 18.63 };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('routing providers', () => {
+  test('straight-line provider reproduces the legacy road-factor estimate', async () => {
+    const leg = await new StraightLineRoutingProvider().route(capeTown, bellville);
+    expect(leg.distanceKm).toBeCloseTo(estimatedRoadKm(haversineKm(capeTown, bellville)), 6);
+    expect(await estimateRoadDistanceKm(capeTown, bellville)).toBeCloseTo(leg.distanceKm, 6);
+  });
+
+  test('OSRM provider parses table responses', async () => {
+    const fetchMock = vi.fn(async (_input: RequestInfo | URL) => new Response(JSON.stringify({
+      code: 'Ok',
+      distances: [[0, 21500], [21900, null]],
+      durations: [[0, 1200], [1260, null]],
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new OsrmRoutingProvider('http://osrm.local/');
+    const result = await provider.matrix([capeTown, bellville], [capeTown, bellville]);
+
+    expect(String(fetchMock.mock.calls[0][0])).toContain('http://osrm.local/table/v1/driving/');
+    expect(result[0][1]).toEqual({ distanceKm: 21.5, durationMinutes: 20 });
+    expect(result[1][1]).toBeNull();
+  });
+
+  test('pricing falls back to straight-line when the provider fails', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('down', { status: 503 })));
+    const km = await estimateRoadDistanceKm(capeTown, bellville, new OsrmRoutingProvider('http://osrm.local'));
+    expect(km).toBeCloseTo(estimatedRoadKm(haversineKm(capeTown, bellville)), 6);
+  });
+
+  test('KV cache keys are quantised and only misses are fetched', async () => {
+    const kv = new MockKV();
+    const inner = new CountingProvider();
+    const cached = new CachedRoutingProvider(inner, kv as unknown as KVNamespace);
+
+    await cached.matrix([capeTown], [bellville]);
+    expect(kv.store.has(routingCacheKey('osrm', capeTown, bellville))).toBe(true);
+
+    // ~20 m away quantises to the same cell
+    const nearby = { lat: capeTown.lat + 0.0001, lng: capeTown.lng };
+    await cached.matrix([nearby, bellville], [bellville]);
+    expect(inner.matrixCalls).toEqual([[1, 1], [1, 1]]);
+  });
+
+  test('distance table uses road legs and survives provider failure', async () => {
+    const table = await buildDistanceTable(new CountingProvider(), [capeTown], [bellville]);
+    expect(table(capeTown, bellville)).toBeCloseTo(haversineKm(capeTown, bellville) * 2, 6);
+
+    const failing: RoutingProvider = {
+      name: 'mapbox',
+      route: async () => { throw new Error('down'); },
+      matrix: async () => { throw new Error('down'); },
+    };
+    const fallback = await buildDistanceTable(failing, [capeTown], [bellville]);
+    expect(fallback(capeTown, bellville)).toBeCloseTo(estimatedRoadKm(haversineKm(capeTown, bellville)), 6);
+  });
+
+  test('road distances change the detour estimate', () => {
+    const route = [{ lat: 0, lng: 0 }, { lat: 0.1, lng: 0 }];
+    const pickup = { lat: 0.02, lng: 0.005 };
+    const dropoff = { lat: 0.08, lng: 0.005 };
+
+    const straight = estimateDetourKm(pickup, dropoff, route);
+    // A river between the route and the rider triples every off-route leg
+    const river = (a: LatLng, b: LatLng) =>
+      a.lng === b.lng ? haversineKm(a, b) : haversineKm(a, b) * 3;
+    const road = estimateDetourKm(pickup, dropoff, route, river);
+
+    expect(straight).toBeLessThan(1.5);
+    expect(road).toBeGreaterThan(straight);
+  });
+});
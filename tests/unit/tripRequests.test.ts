@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'vitest';
+import { DEFAULT_RATE_CARD } from '../../src/lib/pricing';
+import { bidPriceRange, driverTripRequest, requestArea, rowToTripBid } from '../../src/lib/tripRequests';
+import type { TripBidRow, TripRequest } from '../../src/lib/tripRequests';
+
+describe('bidPriceRange', () => {
+  test('scales the daily distance fare by the multiplier bounds', () => {
+    // 20 km at R2.85/km = R57.00
+    expect(bidPriceRange(20, DEFAULT_RATE_CARD)).toEqual({ minCents: 4560, maxCents: 8550 });
+  });
+
+  test('short trips are held at the minimum fare', () => {
+    expect(bidPriceRange(2, DEFAULT_RATE_CARD)).toEqual({ minCents: 1500, maxCents: 1500 });
+  });
+
+  test('long trips are capped at the maximum fare', () => {
+    expect(bidPriceRange(200, DEFAULT_RATE_CARD)).toEqual({ minCents: 45600, maxCents: 50000 });
+  });
+
+  test('uses the organisation rate card', () => {
+    const card = { ...DEFAULT_RATE_CARD, dailyPerKm: 4, minFareCents: 1000 };
+    expect(bidPriceRange(10, card)).toEqual({ minCents: 3200, maxCents: 6000 });
+  });
+});
+
+describe('rowToTripBid', () => {
+  test('converts cents and leaves the licence plate out', () => {
+    const row: TripBidRow = {
+      id: 3,
+      request_id: 9,
+      driver_id: 11,
+      pickup_time: 1_800_000_000_000,
+      price_per_seat_cents: 5250,
+      total_seats: 4,
+      vehicle_type: 'sedan',
+      vehicle_json: JSON.stringify({ make: 'Toyota', model: 'Corolla', licensePlate: 'CA 123-456' }),
+      message: null,
+      status: 'pending',
+      created_at: '2026-10-01 08:00:00',
+    };
+    const bid = rowToTripBid(row);
+    expect(bid.pricePerSeat).toBe(52.5);
+    expect(bid.vehicle).toEqual({ make: 'Toyota', model: 'Corolla' });
+  });
+});
+
+describe('driverTripRequest', () => {
+  test('replaces the exact ends with the geohash cell around them', () => {
+    const request: TripRequest = {
+      id: 3,
+      riderId: 7,
+      pickup: { lat: -26.1076, lng: 28.0567, address: '12 Rivonia Road, Sandton' },
+      dropoff: { lat: -26.1452, lng: 28.0419 },
+      earliestDeparture: 1_800_000_000_000,
+      latestDeparture: 1_800_003_600_000,
+      seatsNeeded: 1,
+      distanceKm: 20,
+      notes: null,
+      preferences: { genderPreference: 'female' },
+      status: 'open',
+      acceptedBidId: null,
+      tripId: null,
+      createdAt: '2026-10-01 08:00:00',
+    };
+    const view = driverTripRequest(request);
+    expect(view).not.toHaveProperty('pickup');
+    expect(view).not.toHaveProperty('preferences');
+    expect(view.pickupArea).toEqual(requestArea(request.pickup));
+    expect(view.pickupArea.cell).toHaveLength(5);
+  });
+
+  test('nearby points share an area centred on their cell', () => {
+    const a = requestArea({ lat: -26.1076, lng: 28.0567 });
+    const b = requestArea({ lat: -26.1080, lng: 28.0570 });
+    expect(a).toEqual(b);
+    expect(a.lat).not.toBe(-26.1076);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, test } from 'vitest';
+import { pageTrips, parseTripSearchOptions, tripSearchCacheKey, tripSearchFilterSql } from '../../src/lib/tripSearch';
+import { ValidationError } from '../../src/lib/errors';
+
+function trip(id: string, matchScore: number, pricePerSeat: number, detourMinutes: number, hour: number) {
+  return { id, matchScore, pricePerSeat, detourMinutes, scheduledTime: `2026-03-02T${String(hour).padStart(2, '0')}:00:00.000Z` };
+}
+
+const trips = [
+  trip('a', 0.9, 40, 5, 8),
+  trip('b', 0.7, 25, 12, 7),
+  trip('c', 0.8, 25, 2, 9),
+  trip('d', 0.6, 60, 8, 6),
+];
+
+describe('parseTripSearchOptions', () => {
+  test('defaults to score order without filters', () => {
+    expect(parseTripSearchOptions({})).toEqual({
+      filters: { womenOnly: false, organizationOnly: false },
+      sort: 'score',
+      limit: 20,
+      cursor: null,
+    });
+  });
+
+  test('parses filters and de-duplicates lists', () => {
+    const { filters } = parseTripSearchOptions({
+      minPrice: '10',
+      maxPrice: '50',
+      vehicleType: 'suv,van,suv',
+      minRating: '4.5',
+      accessibility: 'wheelchair_accessible',
+      womenOnly: 'true',
+    });
+    expect(filters).toEqual({
+      minPrice: 10,
+      maxPrice: 50,
+      vehicleTypes: ['suv', 'van'],
+      minRating: 4.5,
+      accessibility: ['wheelchair_accessible'],
+      womenOnly: true,
+      organizationOnly: false,
+    });
+  });
+
+  test('rejects invalid values', () => {
+    expect(() => parseTripSearchOptions({ minPrice: '60', maxPrice: '50' })).toThrow(ValidationError);
+    expect(() => parseTripSearchOptions({ vehicleType: 'bus' })).toThrow(ValidationError);
+    expect(() => parseTripSearchOptions({ sort: 'distance' })).toThrow(ValidationError);
+    expect(() => parseTripSearchOptions({ womenOnly: 'yes' })).toThrow(ValidationError);
+    expect(() => parseTripSearchOptions({ cursor: 'not-a-cursor' })).toThrow(ValidationError);
+  });
+});
+
+describe('tripSearchFilterSql', () => {
+  test('binds one parameter per placeholder', () => {
+    const { clauses, params } = tripSearchFilterSql(
+      parseTripSearchOptions({ vehicleType: 'suv,van', accessibility: 'child_seat', organizationOnly: 'true' }).filters,
+      'org-1',
+    );
+    const placeholders = clauses.join(' ').split('?').length - 1;
+    expect(placeholders).toBe(params.length);
+    expect(params).toEqual(['suv', 'van', 'child_seat', 'org-1']);
+  });
+
+  test('organisation-only searches need an organisation', () => {
+    expect(() => tripSearchFilterSql({ womenOnly: false, organizationOnly: true }, undefined)).toThrow(ValidationError);
+  });
+});
+
+describe('tripSearchCacheKey', () => {
+  const search = {
+    pickup: { lat: -26.1076, lng: 28.0567 },
+    dropoff: { lat: -26.1452, lng: 28.0419 },
+    maxDetour: 15,
+    filters: { womenOnly: false, organizationOnly: false },
+  };
+
+  test('nearby searches share a key', () => {
+    const nearby = { ...search, pickup: { lat: -26.1078, lng: 28.0569 } };
+    expect(tripSearchCacheKey(nearby)).toBe(tripSearchCacheKey(search));
+  });
+
+  test('distant searches and different filters do not', () => {
+    const distant = { ...search, pickup: { lat: -26.2, lng: 28.0567 } };
+    expect(tripSearchCacheKey(distant)).not.toBe(tripSearchCacheKey(search));
+    expect(tripSearchCacheKey({ ...search, filters: { ...search.filters, minRating: 4 } })).not.toBe(tripSearchCacheKey(search));
+  });
+});
+
+describe('pageTrips', () => {
+  test('orders best (lowest) scores first and other sorts ascending, ties by id', () => {
+    expect(pageTrips(trips, { sort: 'score', limit: 10, cursor: null }).trips.map((t) => t.id)).toEqual(['d', 'b', 'c', 'a']);
+    expect(pageTrips(trips, { sort: 'price', limit: 10, cursor: null }).trips.map((t) => t.id)).toEqual(['b', 'c', 'a', 'd']);
+    expect(pageTrips(trips, { sort: 'departure', limit: 10, cursor: null }).trips.map((t) => t.id)).toEqual(['d', 'b', 'a', 'c']);
+  });
+
+  test('walks every trip exactly once across pages', () => {
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const options = parseTripSearchOptions({ sort: 'detour', limit: '3', ...(cursor ? { cursor } : {}) });
+      const page = pageTrips(trips, options);
+      seen.push(...page.trips.map((t) => t.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+    expect(seen).toEqual(['c', 'a', 'd', 'b']);
+  });
+
+  test('a cursor is bound to its sort order', () => {
+    const { nextCursor } = pageTrips(trips, { sort: 'price', limit: 1, cursor: null });
+    expect(() => parseTripSearchOptions({ sort: 'detour', cursor: nextCursor ?? '' })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, test } from 'vitest';
+import { matchRiderToDrivers } from '../../src/lib/matching/engine';
+import { freeSeatsPerLeg, legsForJourney, peakOccupancy } from '../../src/lib/matching/segments';
+import { bookingSegment } from '../../src/lib/seatInventory';
+import type { DriverTrip, RiderRequest } from '../../src/lib/matching/types';
+
+const T0 = Date.UTC(2026, 0, 5, 7, 0);
+
+// A (0) → school (0.1) → office (0.2), due north
+const multiStop: DriverTrip = {
+  id: 'dt-1',
+  driverId: 'd-1',
+  departure: { lat: 0, lng: 0 },
+  waypoints: [{ lat: 0.1, lng: 0 }],
+  destination: { lat: 0.2, lng: 0 },
+  departureTime: T0,
+  availableSeats: 1,
+  totalSeats: 1,
+  routePolyline: [{ lat: 0, lng: 0 }, { lat: 0.1, lng: 0 }, { lat: 0.2, lng: 0 }],
+  status: 'offered',
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+function rider(pickupLat: number, dropoffLat: number): RiderRequest {
+  return {
+    id: 'rr-1',
+    riderId: 'r-1',
+    pickup: { lat: pickupLat, lng: 0.001 },
+    dropoff: { lat: dropoffLat, lng: 0.001 },
+    earliestDeparture: T0 - 15 * 60_000,
+    latestDeparture: T0 + 15 * 60_000,
+    seatsNeeded: 1,
+    status: 'pending',
+    createdAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+describe('legsForJourney', () => {
+  test('maps pickups and dropoffs to the legs between stops', () => {
+    expect(legsForJourney(multiStop, { lat: 0.02, lng: 0 }, { lat: 0.08, lng: 0 })).toEqual({ fromLeg: 0, toLeg: 0 });
+    expect(legsForJourney(multiStop, { lat: 0.1, lng: 0 }, { lat: 0.2, lng: 0 })).toEqual({ fromLeg: 1, toLeg: 1 });
+    expect(legsForJourney(multiStop, { lat: 0.05, lng: 0 }, { lat: 0.15, lng: 0 })).toEqual({ fromLeg: 0, toLeg: 1 });
+  });
+
+  test('trips without waypoints have a single leg', () => {
+    const direct = { ...multiStop, waypoints: undefined };
+    expect(legsForJourney(direct, { lat: 0.05, lng: 0 }, { lat: 0.15, lng: 0 })).toEqual({ fromLeg: 0, toLeg: 0 });
+  });
+});
+
+describe('per-leg seat availability', () => {
+  test('holds only consume the legs they cover', () => {
+    expect(freeSeatsPerLeg(3, 3, [{ fromLeg: 0, toLeg: 1, seats: 2 }, { fromLeg: 1, toLeg: 2, seats: 1 }])).toEqual([1, 0, 2]);
+  });
+
+  test('a seat taken up to the waypoint can be matched again after it', () => {
+    const trip = { ...multiStop, legSeats: [0, 1] };
+    const after = matchRiderToDrivers(rider(0.1, 0.19), [trip]);
+    expect(after.matches).toHaveLength(1);
+
+    const across = matchRiderToDrivers(rider(0.05, 0.19), [trip]);
+    expect(across.matches).toHaveLength(0);
+  });
+});
+
+describe('interval occupancy', () => {
+  const holds = [
+    { startKm: 0, endKm: 4, seats: 1 },
+    { startKm: 4, endKm: 10, seats: 1 },
+    { startKm: 3, endKm: 6, seats: 2 },
+  ];
+
+  test('counts the most seats taken at once within a window', () => {
+    expect(peakOccupancy(holds)).toBe(3);
+    expect(peakOccupancy(holds, 0, 3)).toBe(1);
+    expect(peakOccupancy(holds, 6, 10)).toBe(1);
+  });
+
+  test('a dropoff frees the seat for a pickup at the same point', () => {
+    expect(peakOccupancy([{ startKm: 0, endKm: 4, seats: 1 }, { startKm: 4, endKm: 9, seats: 1 }])).toBe(1);
+  });
+
+  test('a direct trip sells the same seat twice along the route', () => {
+    const direct = { ...multiStop, waypoints: undefined, availableSeats: 0, seatHolds: [{ startKm: 0, endKm: 11.1, seats: 1 }] };
+    expect(matchRiderToDrivers(rider(0.1, 0.19), [direct]).matches).toHaveLength(1);
+    expect(matchRiderToDrivers(rider(0.05, 0.19), [direct]).matches).toHaveLength(0);
+  });
+});
+
+describe('bookingSegment', () => {
+  const trip = { origin_lat: 0, origin_lng: 0, destination_lat: 0.2, destination_lng: 0 };
+
+  test('records part-route journeys as km offsets', () => {
+    const segment = bookingSegment(trip, { lat: 0.1, lng: 0 }, { lat: 0.15, lng: 0 });
+    expect(segment?.startKm).toBeCloseTo(11.12, 1);
+    expect(segment?.endKm).toBeCloseTo(16.68, 1);
+  });
+
+  test('end-to-end journeys and address-only trips hold the whole route', () => {
+    expect(bookingSegment(trip, { lat: 0, lng: 0 }, { lat: 0.2, lng: 0 })).toBeNull();
+    const addressOnly = { origin_lat: null, origin_lng: null, destination_lat: null, destination_lng: null };
+    expect(bookingSegment(addressOnly, { lat: 0.1, lng: 0 }, { lat: 0.15, lng: 0 })).toBeNull();
+    expect(bookingSegment(trip, { address: 'Home' }, { lat: 0.15, lng: 0 })).toBeNull();
+  });
+});
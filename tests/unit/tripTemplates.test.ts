@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'vitest';
+import { occurrenceDepartureTs, rowToTripTemplate, upcomingOccurrences } from '../../src/lib/tripTemplates';
+import type { TripTemplateRow } from '../../src/lib/tripTemplates';
+
+// Monday 2026-03-02 06:00 UTC
+const NOW = Date.parse('2026-03-02T06:00:00Z');
+
+const weekdaySchedule = {
+  weekdays: [1, 2, 3, 4, 5],
+  departureTime: '07:30',
+  skipDates: [] as string[],
+  startsOn: null,
+  endsOn: null,
+};
+
+describe('upcomingOccurrences', () => {
+  test('expands ISO weekdays across the horizon', () => {
+    const dates = upcomingOccurrences(weekdaySchedule, NOW, 6).map((o) => o.date);
+    expect(dates).toEqual(['2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05', '2026-03-06']);
+  });
+
+  test('treats 7 as Sunday', () => {
+    const dates = upcomingOccurrences({ ...weekdaySchedule, weekdays: [7] }, NOW, 13).map((o) => o.date);
+    expect(dates).toEqual(['2026-03-08', '2026-03-15']);
+  });
+
+  test('drops departures that already passed today', () => {
+    const late = Date.parse('2026-03-02T08:00:00Z');
+    const dates = upcomingOccurrences(weekdaySchedule, late, 1).map((o) => o.date);
+    expect(dates).toEqual(['2026-03-03']);
+  });
+
+  test('respects skip dates and the start/end range', () => {
+    const dates = upcomingOccurrences({
+      ...weekdaySchedule,
+      skipDates: ['2026-03-04'],
+      startsOn: '2026-03-03',
+      endsOn: '2026-03-05',
+    }, NOW, 6).map((o) => o.date);
+    expect(dates).toEqual(['2026-03-03', '2026-03-05']);
+  });
+
+  test('departure timestamps are UTC', () => {
+    const [first] = upcomingOccurrences(weekdaySchedule, NOW, 0);
+    expect(first.departureTs).toBe(occurrenceDepartureTs('2026-03-02', '07:30'));
+    expect(new Date(first.departureTs).toISOString()).toBe('2026-03-02T07:30:00.000Z');
+  });
+});
+
+describe('rowToTripTemplate', () => {
+  test('parses JSON columns and tolerates malformed skip dates', () => {
+    const row: TripTemplateRow = {
+      id: 3,
+      driver_id: 7,
+      organization_id: null,
+      recurring_weekdays: '[1,3,5]',
+      departure_time: '07:30',
+      skip_dates: 'not-json',
+      starts_on: null,
+      ends_on: null,
+      origin_lat: -33.92,
+      origin_lng: 18.42,
+      origin_address: 'Cape Town CBD',
+      destination_lat: -33.9,
+      destination_lng: 18.63,
+      destination_address: null,
+      route_polyline_encoded: null,
+      available_seats: 3,
+      vehicle_json: '{"make":"Toyota","model":"Corolla","licensePlate":"CA 123-456"}',
+      trip_type: 'daily',
+      notes: null,
+      status: 'active',
+      created_at: '2026-03-01 10:00:00',
+      updated_at: '2026-03-01 10:00:00',
+    };
+
+    const template = rowToTripTemplate(row);
+    expect(template.weekdays).toEqual([1, 3, 5]);
+    expect(template.skipDates).toEqual([]);
+    expect(template.origin).toEqual({ lat: -33.92, lng: 18.42, address: 'Cape Town CBD' });
+    expect(template.destination).toEqual({ lat: -33.9, lng: 18.63 });
+    expect(template.vehicle.licensePlate).toBe('CA 123-456');
+  });
+});